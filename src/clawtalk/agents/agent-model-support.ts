@@ -38,7 +38,9 @@ async function resolveAnthropicApiKey(): Promise<string | null> {
   const db = getDbPg();
   const wsRows = await db<Array<{ ciphertext: string }>>`
     select ciphertext from public.workspace_provider_secrets
-    where provider_id = ${ANTHROPIC_PROVIDER_ID} and credential_kind = 'api_key'
+    where workspace_id = public.current_workspace_id()
+      and provider_id = ${ANTHROPIC_PROVIDER_ID}
+      and credential_kind = 'api_key'
     limit 1
   `;
   const personalRows = wsRows.length
@@ -19,6 +19,7 @@
  * the call site stays honest about whose identity is being written.
  */
 
+import { getCurrentUserId } from '../../db.js';
 import { getSettingValue, upsertSettingValue } from '../db/accessors.js';
 import {
   createRegisteredAgent,
@@ -251,12 +252,16 @@ export async function resolveTalkAgentMentions(
  * are preserved as-is; only broken zero-agent Talks are healed.
  *
  * `ownerId` is forwarded to the underlying `setTalkAgents` so RLS WITH CHECK
- * binds the insert to `auth.uid()`.
+ * binds the insert to `auth.uid()`. Shared-Talk members can't write
+ * talk_agents, so the heal is skipped when the caller isn't the owner.
  */
 export async function ensureTalkUsesUsableDefaultAgent(
   talkId: string,
   ownerId: string,
 ): Promise<void> {
+  const currentUserId = getCurrentUserId();
+  if (currentUserId && currentUserId !== ownerId) return;
+
   // Cheap shape check: 1 RT instead of 6 in steady state. The conditions
   // match the post-prune invariant in talk-agents.ts:303-332:
   //   - activeCount > 0: at least one assigned row (non-null FK; does NOT
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 vi.mock('../db/agent-accessors.js', () => ({
+  getFallbackSteps: vi.fn(),
   getRegisteredAgent: vi.fn(),
 }));
 vi.mock('./execution-resolver.js', () => ({
@@ -28,14 +29,20 @@ vi.mock('./llm-client.js', () => ({
   },
 }));
 
-import { getRegisteredAgent } from '../db/agent-accessors.js';
-import { resolveExecution } from './execution-resolver.js';
-import { streamLlmResponse } from './llm-client.js';
+import { getFallbackSteps, getRegisteredAgent } from '../db/agent-accessors.js';
+import {
+  ExecutionResolverError,
+  resolveExecution,
+} from './execution-resolver.js';
+import { LlmClientError, streamLlmResponse } from './llm-client.js';
+import { TalkRunPausedError } from '../talks/executor.js';
 import {
   ALWAYS_ALLOWED_CONTEXT_TOOLS,
   executeWithAgent,
 } from './agent-router.js';
 
+type LlmMessageSnapshot = { role: string; content: unknown };
+
 describe('agent-router', () => {
   beforeEach(() => {
     vi.mocked(getRegisteredAgent).mockReturnValue({
@@ -193,6 +200,48 @@ describe('agent-router', () => {
     expect(result.content).toBe('Ready.');
   });
 
+  it('sends the agent reasoning setting and streams reasoning apart from the reply', async () => {
+    vi.mocked(getRegisteredAgent).mockReturnValue({
+      id: 'agent-1',
+      enabled: 1,
+      provider_id: 'provider.openai',
+      model_id: 'gpt-5-mini',
+      system_prompt: null,
+      reasoning_effort: 'high',
+      reasoning_budget_tokens: null,
+    } as never);
+    vi.mocked(streamLlmResponse).mockImplementation(async function* (
+      _provider,
+      _secret,
+      _modelId,
+      _messages,
+      options,
+    ) {
+      expect(options?.reasoning).toEqual({ effort: 'high' });
+      yield { type: 'reasoning_delta', text: 'Weighing both docs.' };
+      yield { type: 'text_delta', text: 'Done.' };
+      yield {
+        type: 'usage',
+        usage: { inputTokens: 10, outputTokens: 40, reasoningTokens: 32 },
+      };
+      yield { type: 'done', stopReason: 'stop' };
+    } as typeof streamLlmResponse);
+
+    const events: Array<Record<string, unknown>> = [];
+    const result = await executeWithAgent('agent-1', null, 'Review', {
+      runId: 'run-reasoning',
+      userId: 'owner-1',
+      emit: (event) => events.push(event as Record<string, unknown>),
+    });
+
+    expect(result.content).toBe('Done.');
+    expect(result.usage?.reasoningTokens).toBe(32);
+    expect(events).toContainEqual({
+      type: 'reasoning_delta',
+      text: 'Weighing both docs.',
+    });
+  });
+
   it('gates context-tool DEFINITIONS on the Talk effective set (effectiveTools drives the tool list)', async () => {
     let capturedToolNames: string[] = [];
     vi.mocked(streamLlmResponse).mockImplementation(async function* (
@@ -264,4 +313,495 @@ describe('agent-router', () => {
 
     expect(capturedToolNames).not.toContain('web_search');
   });
+
+  it('pauses approval-required tools on requestToolApproval and resumes the loop', async () => {
+    let turn = 0;
+    vi.mocked(streamLlmResponse).mockImplementation(async function* () {
+      turn += 1;
+      if (turn === 1) {
+        yield {
+          type: 'tool_call_start',
+          toolCall: { id: 'call-1', name: 'web_search' },
+        };
+        yield {
+          type: 'tool_call_delta',
+          toolCall: { id: 'call-1', arguments: '{"query":"weather"}' },
+        };
+        yield { type: 'done', stopReason: 'tool_use' };
+        return;
+      }
+      yield { type: 'text_delta', text: 'done' };
+      yield { type: 'done', stopReason: 'stop' };
+    } as typeof streamLlmResponse);
+
+    const context = {
+      systemPrompt: 'Talk system prompt',
+      contextTools: [{ name: 'web_search' }],
+      connectorTools: [],
+      history: [],
+    };
+    const effectiveTools = [
+      {
+        toolFamily: 'web',
+        runtimeTools: ['web_search'],
+        enabled: true,
+        requiresApproval: true,
+      },
+    ];
+
+    for (const outcome of ['approved', 'denied'] as const) {
+      turn = 0;
+      const events: Array<Record<string, unknown>> = [];
+      const executeToolCall = vi.fn(async () => ({ result: 'sunny' }));
+      const requestToolApproval = vi.fn(async () => outcome);
+
+      await executeWithAgent('agent-1', context as never, 'weather?', {
+        runId: `run-approval-${outcome}`,
+        userId: 'owner-1',
+        effectiveTools,
+        executeToolCall,
+        requestToolApproval,
+        emit: (event) => events.push(event as Record<string, unknown>),
+      });
+
+      expect(requestToolApproval).toHaveBeenCalledWith(
+        expect.objectContaining({
+          agentId: 'agent-1',
+          toolName: 'web_search',
+          arguments: { query: 'weather' },
+          actionSummary: 'web_search {"query":"weather"}',
+        }),
+      );
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: 'awaiting_confirmation',
+          toolName: 'web_search',
+        }),
+      );
+      const toolResult = events.find((e) => e.type === 'tool_result');
+      if (outcome === 'approved') {
+        expect(executeToolCall).toHaveBeenCalledWith('web_search', {
+          query: 'weather',
+        });
+        expect(toolResult).toMatchObject({ result: 'sunny' });
+      } else {
+        expect(executeToolCall).not.toHaveBeenCalled();
+        expect(toolResult).toMatchObject({
+          isError: true,
+          result: expect.stringContaining('denied'),
+        });
+      }
+      expect(turn).toBe(2);
+    }
+  });
+
+  it('pauses at the tool-iteration limit and resumes from the saved transcript', async () => {
+    const histories: LlmMessageSnapshot[][] = [];
+    let finish = false;
+    vi.mocked(streamLlmResponse).mockImplementation(async function* (
+      _config,
+      _secret,
+      _model,
+      messages,
+    ) {
+      histories.push([...messages] as LlmMessageSnapshot[]);
+      yield { type: 'usage', usage: { inputTokens: 10, outputTokens: 5 } };
+      if (finish) {
+        yield { type: 'text_delta', text: 'Found it.' };
+        yield { type: 'done', stopReason: 'stop' };
+        return;
+      }
+      const id = `call-${histories.length}`;
+      yield { type: 'text_delta', text: 'Searching. ' };
+      yield { type: 'tool_call_start', toolCall: { id, name: 'web_search' } };
+      yield {
+        type: 'tool_call_delta',
+        toolCall: { id, arguments: '{"query":"weather"}' },
+      };
+      yield { type: 'done', stopReason: 'tool_calls' };
+    } as typeof streamLlmResponse);
+
+    const context = {
+      systemPrompt: 'Talk system prompt',
+      contextTools: [{ name: 'web_search' }],
+      connectorTools: [],
+      history: [{ role: 'user', content: 'Earlier question' }],
+    };
+    const options = {
+      userId: 'owner-1',
+      effectiveTools: [
+        {
+          toolFamily: 'web',
+          runtimeTools: ['web_search'],
+          enabled: true,
+          requiresApproval: false,
+        },
+      ],
+      executeToolCall: vi.fn(async () => ({ result: 'sunny' })),
+      pauseAtToolIterationLimit: true,
+    };
+    const events: Array<Record<string, unknown>> = [];
+
+    const paused = await executeWithAgent(
+      'agent-1',
+      context as never,
+      'weather?',
+      {
+        ...options,
+        runId: 'run-pause',
+        maxToolIterations: 2,
+        emit: (event) => events.push(event as Record<string, unknown>),
+      },
+    ).catch((err: unknown) => err);
+
+    expect(paused).toBeInstanceOf(TalkRunPausedError);
+    const continuation = (paused as TalkRunPausedError).continuation;
+    expect(events).toContainEqual({ type: 'paused', iterationsUsed: 2 });
+    expect(events.some((event) => event.type === 'completed')).toBe(false);
+    expect(continuation).toMatchObject({
+      reason: 'tool_iteration_limit',
+      agentId: 'agent-1',
+      content: 'Searching. Searching. ',
+      iterationsUsed: 2,
+      usage: { inputTokens: 20, outputTokens: 10 },
+    });
+    // Only the turns after the prior conversation are kept.
+    expect(continuation.transcript[0]).toEqual({
+      role: 'user',
+      content: 'weather?',
+    });
+    expect(continuation.transcript.at(-1)?.role).toBe('tool');
+
+    finish = true;
+    histories.length = 0;
+    const result = await executeWithAgent(
+      'agent-1',
+      context as never,
+      'ignored on resume',
+      {
+        ...options,
+        runId: 'run-pause',
+        maxToolIterations: 1,
+        resume: { ...continuation, grantedIterations: 1, autoGranted: false },
+      },
+    );
+
+    expect(histories[0]).toEqual([
+      { role: 'system', content: expect.any(String) },
+      { role: 'user', content: 'Earlier question' },
+      ...continuation.transcript,
+    ]);
+    expect(result.content).toBe('Searching. Searching. Found it.');
+    expect(result.usage).toMatchObject({ inputTokens: 30, outputTokens: 15 });
+  });
+
+  describe('fallback chain', () => {
+    const context = {
+      systemPrompt: 'Talk system prompt',
+      contextTools: [{ name: 'web_search' }],
+      connectorTools: [],
+      history: [],
+    };
+    const effectiveTools = [
+      {
+        toolFamily: 'web',
+        runtimeTools: ['web_search'],
+        enabled: true,
+        requiresApproval: false,
+      },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(getFallbackSteps).mockReset();
+      vi.mocked(getFallbackSteps).mockResolvedValue([
+        { position: 1, providerId: 'provider.custom', modelId: 'no-tools' },
+        {
+          position: 2,
+          providerId: 'provider.gemini',
+          modelId: 'gemini-2.5-flash',
+        },
+        {
+          position: 3,
+          providerId: 'provider.anthropic',
+          modelId: 'claude-sonnet-4-6',
+        },
+      ]);
+      vi.mocked(resolveExecution).mockImplementation((async (agent: {
+        provider_id: string;
+      }) => {
+        if (agent.provider_id === 'provider.gemini') {
+          throw new ExecutionResolverError('NO_CREDENTIAL', 'no key');
+        }
+        return {
+          providerConfig: {
+            providerId: agent.provider_id,
+            baseUrl: 'https://example.test',
+            apiFormat: 'openai_chat_completions',
+            authScheme: 'bearer',
+          },
+          secret: { apiKey: 'sk-test' },
+          contextWindowTokens: 200_000,
+        };
+      }) as never);
+    });
+
+    it('walks the steps in order past a retryable failure, recording each hop', async () => {
+      vi.mocked(streamLlmResponse).mockImplementation(async function* (
+        _config: unknown,
+        _secret: unknown,
+        modelId: string,
+      ) {
+        if (modelId === 'gpt-5-mini') {
+          throw new LlmClientError('429 Too Many Requests', 'rate_limit', 429);
+        }
+        yield { type: 'text_delta', text: `answer from ${modelId}` };
+        yield { type: 'done', stopReason: 'stop' };
+      } as never);
+      const recordFallbackHop = vi.fn();
+
+      const result = await executeWithAgent('agent-1', context as never, 'hi', {
+        runId: 'run-fallback',
+        userId: 'owner-1',
+        effectiveTools,
+        recordFallbackHop,
+      });
+
+      expect(result).toMatchObject({
+        content: 'answer from claude-sonnet-4-6',
+        providerId: 'provider.anthropic',
+        modelId: 'claude-sonnet-4-6',
+        fallback: {
+          primaryProviderId: 'provider.openai',
+          primaryModelId: 'gpt-5-mini',
+        },
+      });
+      expect(recordFallbackHop.mock.calls.map(([hop]) => hop)).toEqual([
+        expect.objectContaining({
+          modelId: 'gpt-5-mini',
+          status: 'failed',
+          failureClass: 'rate_limit',
+        }),
+        {
+          providerId: 'provider.custom',
+          modelId: 'no-tools',
+          status: 'skipped',
+          failureClass: 'unsupported_tools',
+        },
+        {
+          providerId: 'provider.gemini',
+          modelId: 'gemini-2.5-flash',
+          status: 'skipped',
+          failureClass: 'unresolved',
+        },
+      ]);
+      expect(result.fallback?.hops).toHaveLength(3);
+    });
+
+    it('skips a step whose context window cannot hold the request', async () => {
+      vi.mocked(getFallbackSteps).mockResolvedValue([
+        {
+          position: 1,
+          providerId: 'provider.anthropic',
+          modelId: 'claude-haiku-4-5',
+        },
+      ]);
+      vi.mocked(resolveExecution).mockImplementation((async (agent: {
+        provider_id: string;
+      }) => ({
+        providerConfig: {
+          providerId: agent.provider_id,
+          baseUrl: 'https://example.test',
+          apiFormat: 'openai_chat_completions',
+          authScheme: 'bearer',
+        },
+        secret: { apiKey: 'sk-test' },
+        contextWindowTokens: 10,
+      })) as never);
+      vi.mocked(streamLlmResponse).mockImplementation(async function* () {
+        throw new LlmClientError('503', 'upstream_timeout', 503);
+      } as never);
+      const recordFallbackHop = vi.fn();
+
+      await expect(
+        executeWithAgent('agent-1', null, 'x'.repeat(400), {
+          runId: 'run-fallback-window',
+          userId: 'owner-1',
+          recordFallbackHop,
+        }),
+      ).rejects.toMatchObject({ failureClass: 'upstream_timeout' });
+      expect(recordFallbackHop).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          modelId: 'claude-haiku-4-5',
+          status: 'skipped',
+          failureClass: 'context_window',
+        }),
+      );
+    });
+
+    it('fails without falling back on a non-retryable error or after output streamed', async () => {
+      vi.mocked(streamLlmResponse).mockImplementation(async function* () {
+        throw new LlmClientError('401 Unauthorized', 'auth', 401);
+      } as never);
+      await expect(
+        executeWithAgent('agent-1', null, 'hi', {
+          runId: 'run-auth',
+          userId: 'owner-1',
+        }),
+      ).rejects.toMatchObject({ failureClass: 'auth' });
+
+      vi.mocked(streamLlmResponse).mockImplementation(async function* () {
+        yield { type: 'text_delta', text: 'partial' };
+        throw new LlmClientError('stream idle', 'timeout');
+      } as never);
+      await expect(
+        executeWithAgent('agent-1', null, 'hi', {
+          runId: 'run-partial',
+          userId: 'owner-1',
+        }),
+      ).rejects.toMatchObject({ failureClass: 'timeout' });
+
+      expect(getFallbackSteps).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('structured output', () => {
+    const responseSchema = {
+      name: 'metrics_digest',
+      schema: {
+        type: 'object',
+        properties: { signups: { type: 'integer' } },
+        required: ['signups'],
+      },
+    };
+
+    it('sends the schema natively to capable models and returns the parsed reply', async () => {
+      const seenOptions: unknown[] = [];
+      vi.mocked(streamLlmResponse).mockImplementation(async function* (
+        _provider,
+        _secret,
+        _modelId,
+        messages,
+        options,
+      ) {
+        seenOptions.push(options?.responseSchema);
+        expect(messages[0].content).toContain('metrics_digest');
+        yield { type: 'text_delta', text: '{"signups": 42}' };
+        yield { type: 'done', stopReason: 'stop' };
+      } as typeof streamLlmResponse);
+
+      const result = await executeWithAgent('agent-1', null, 'Digest', {
+        runId: 'run-structured',
+        userId: 'owner-1',
+        responseSchema,
+      });
+
+      expect(seenOptions).toEqual([responseSchema]);
+      expect(result.structuredOutput).toEqual({ signups: 42 });
+      expect(result.content).toBe('{"signups": 42}');
+    });
+
+    it('keeps the schema in the prompt only for models without native support', async () => {
+      vi.mocked(getRegisteredAgent).mockReturnValue({
+        id: 'agent-1',
+        enabled: 1,
+        provider_id: 'provider.nvidia',
+        model_id: 'moonshotai/kimi-k2.6',
+        system_prompt: null,
+      } as never);
+      vi.mocked(streamLlmResponse).mockImplementation(async function* (
+        _provider,
+        _secret,
+        _modelId,
+        messages,
+        options,
+      ) {
+        expect(options?.responseSchema).toBeUndefined();
+        expect(messages[0]).toMatchObject({ role: 'system' });
+        expect(messages[0].content).toContain('"signups"');
+        yield { type: 'text_delta', text: '```json\n{"signups": 7}\n```' };
+        yield { type: 'done', stopReason: 'stop' };
+      } as typeof streamLlmResponse);
+
+      const result = await executeWithAgent('agent-1', null, 'Digest', {
+        runId: 'run-structured-prompt',
+        userId: 'owner-1',
+        responseSchema,
+      });
+
+      expect(result.structuredOutput).toEqual({ signups: 7 });
+    });
+
+    it('sends a repair turn on a mismatch and keeps only the valid reply', async () => {
+      const histories: LlmMessageSnapshot[][] = [];
+      vi.mocked(streamLlmResponse).mockImplementation(async function* (
+        _provider,
+        _secret,
+        _modelId,
+        messages,
+      ) {
+        histories.push(messages.map((m) => ({ ...m })) as never);
+        yield {
+          type: 'text_delta',
+          text:
+            histories.length === 1 ? '{"signups": "many"}' : '{"signups": 3}',
+        };
+        yield { type: 'done', stopReason: 'stop' };
+      } as typeof streamLlmResponse);
+
+      const events: Array<Record<string, unknown>> = [];
+      const result = await executeWithAgent('agent-1', null, 'Digest', {
+        runId: 'run-structured-repair',
+        userId: 'owner-1',
+        responseSchema,
+        emit: (event) => events.push(event as Record<string, unknown>),
+      });
+
+      expect(histories).toHaveLength(2);
+      const repair = histories[1].at(-1)!;
+      expect(repair.role).toBe('user');
+      expect(repair.content).toContain('signups');
+      expect(histories[1].at(-2)).toMatchObject({
+        role: 'assistant',
+        content: '{"signups": "many"}',
+      });
+      expect(result.content).toBe('{"signups": 3}');
+      expect(result.structuredOutput).toEqual({ signups: 3 });
+      // The run trace sees both model turns and the repair between them.
+      expect(
+        events
+          .filter(
+            (event) => event.type === 'llm_turn' || event.type === 'retry',
+          )
+          .map((event) => event.type),
+      ).toEqual(['llm_turn', 'retry', 'llm_turn']);
+      expect(events.find((event) => event.type === 'retry')).toMatchObject({
+        reason: 'structured_output_repair',
+        attempt: 1,
+      });
+    });
+
+    it('fails with structured_output_invalid once the repairs run out', async () => {
+      let calls = 0;
+      vi.mocked(streamLlmResponse).mockImplementation(async function* () {
+        calls += 1;
+        yield { type: 'text_delta', text: 'Signups were up this week.' };
+        yield { type: 'done', stopReason: 'stop' };
+      } as typeof streamLlmResponse);
+
+      const events: Array<Record<string, unknown>> = [];
+      await expect(
+        executeWithAgent('agent-1', null, 'Digest', {
+          runId: 'run-structured-fail',
+          userId: 'owner-1',
+          responseSchema,
+          emit: (event) => events.push(event as Record<string, unknown>),
+        }),
+      ).rejects.toMatchObject({ code: 'structured_output_invalid' });
+      expect(calls).toBe(3);
+      expect(events.at(-1)).toMatchObject({
+        type: 'failed',
+        errorCode: 'structured_output_invalid',
+      });
+    });
+  });
 });
@@ -1,7 +1,13 @@
+import { randomUUID } from 'crypto';
+
 import {
+  getFallbackSteps,
   getRegisteredAgent,
+  type AgentFallbackStep,
   type EffectiveToolAccess,
 } from '../db/agent-accessors.js';
+import { resolveModelCapabilities } from '../llm/capabilities.js';
+import { resolveAgentReasoning } from './reasoning.js';
 import { ensureRunnableModel } from './runtime-model-guard.js';
 import {
   resolveExecution,
@@ -14,10 +20,32 @@ import {
   type LlmToolDefinition,
   type LlmMessage,
   type LlmContentBlock,
+  type LlmResponseSchema,
   type LlmStreamEvent,
   LlmClientError,
 } from './llm-client.js';
-import { TalkExecutorError } from '../talks/executor.js';
+import {
+  buildStructuredOutputInstruction,
+  buildStructuredOutputRepairMessage,
+  MAX_STRUCTURED_OUTPUT_REPAIRS,
+  parseStructuredOutput,
+} from './structured-output.js';
+import { planPromptCache } from './prompt-cache-planner.js';
+import {
+  TalkExecutorError,
+  TalkRunPausedError,
+  type TalkRunContinuation,
+  type TalkToolApprovalOutcome,
+  type TalkToolApprovalRequest,
+} from '../talks/executor.js';
+import {
+  summarizeToolCall,
+  toolApprovalDenialResult,
+} from '../talks/tool-approvals.js';
+import {
+  estimateUsageCostUsd,
+  type ModelPricing,
+} from '../talks/usage-budgets.js';
 
 // ---------------------------------------------------------------------------
 // Types: Execution Context and Events
@@ -31,6 +59,12 @@ export interface ExecutionContext {
   /** System prompt prefix for this Talk (goal, rules, summary, sources) */
   systemPrompt: string;
 
+  /**
+   * Leading part of systemPrompt that stays the same across runs and
+   * agents in the Talk; the prompt-cache planner caches up to here.
+   */
+  stableSystemPrefix?: string;
+
   /** Tool definitions for reading Talk context (always included for Talk execution) */
   contextTools: LlmToolDefinition[];
 
@@ -56,6 +90,11 @@ export type ExecutionEvent =
       type: 'text_delta';
       text: string;
     }
+  | {
+      /** Reasoning summary text, streamed apart from the reply. */
+      type: 'reasoning_delta';
+      text: string;
+    }
   | {
       type: 'tool_call';
       toolName: string;
@@ -73,10 +112,32 @@ export type ExecutionEvent =
       toolName: string;
       actionSummary: string;
     }
+  | {
+      // One model request finished streaming. `messageCount` is the
+      // request's message count; `text` is this turn's reply text.
+      type: 'llm_turn';
+      providerId: string;
+      modelId: string;
+      messageCount: number;
+      stopReason: string;
+      text: string;
+      toolCalls: string[];
+      latencyMs: number;
+    }
+  | {
+      // The loop sends the model another turn without spending a tool
+      // iteration.
+      type: 'retry';
+      reason: 'codex_continuation' | 'structured_output_repair';
+      attempt: number;
+      detail?: string;
+    }
   | {
       type: 'usage';
       inputTokens: number;
       outputTokens: number;
+      cachedInputTokens?: number;
+      reasoningTokens?: number;
       estimatedCostUsd?: number;
     }
   | {
@@ -98,6 +159,12 @@ export type ExecutionEvent =
         incompleteReason?: 'truncated' | 'empty' | 'unknown' | null;
       };
     }
+  | {
+      // Stopped at the tool-iteration limit with pauseAtToolIterationLimit
+      // set; a TalkRunPausedError follows.
+      type: 'paused';
+      iterationsUsed: number;
+    }
   | {
       type: 'cancelled';
     };
@@ -118,6 +185,8 @@ export interface AgentExecutionResult {
   usage?: {
     inputTokens: number;
     outputTokens: number;
+    cachedInputTokens?: number;
+    reasoningTokens?: number;
     estimatedCostUsd?: number;
   };
   completion?: {
@@ -130,12 +199,42 @@ export interface AgentExecutionResult {
    * (talk_messages.metadata_json) so the next turn can replay them.
    * Currently used by the codex_responses path to carry forward
    * encrypted reasoning items + assistant message items for
-   * prefix-cache + chain-of-thought continuity.
+   * prefix-cache + chain-of-thought continuity. The
+   * gemini_generate_content path adds function-call thought signatures
+   * and the anthropic_messages path signed thinking blocks, both of
+   * which only matter within the tool loop.
    */
   providerData?: {
     codexReasoningItems?: Array<Record<string, unknown>>;
     codexMessageItems?: Array<Record<string, unknown>>;
+    geminiThoughtSignatures?: Record<string, string>;
+    anthropicThinkingBlocks?: Array<Record<string, unknown>>;
   };
+  /**
+   * Set when the agent's primary model did not answer and a step from
+   * agent_fallback_steps did. `providerId` / `modelId` above are the
+   * model that answered.
+   */
+  fallback?: {
+    primaryProviderId: string;
+    primaryModelId: string;
+    hops: AgentFallbackHop[];
+  };
+  /**
+   * The parsed reply when the caller passed `responseSchema`; `content`
+   * then holds the JSON text it was parsed from.
+   */
+  structuredOutput?: unknown;
+}
+
+/** A provider/model the run moved past on its way down the fallback chain. */
+export interface AgentFallbackHop {
+  providerId: string;
+  modelId: string;
+  status: 'failed' | 'skipped';
+  /** LlmClientError failure class, or why the step was skipped. */
+  failureClass: string;
+  latencyMs?: number;
 }
 
 export const ALWAYS_ALLOWED_CONTEXT_TOOLS = new Set([
@@ -168,6 +267,84 @@ const CLEAN_PROVIDER_STOP_REASONS = new Set([
  */
 const MAX_CODEX_CONTINUATIONS = 3;
 
+/**
+ * LlmClientError failure classes that move the run on to the agent's
+ * next fallback step: rate limits, provider 5xx and overload (529
+ * classifies as upstream_5xx), timeouts and Cloudflare bot blocks.
+ * Auth, policy and invalid-request failures need the user to fix
+ * something, so they fail the run as before.
+ */
+const FALLBACK_FAILURE_CLASSES = new Set([
+  'rate_limit',
+  'upstream_5xx',
+  'upstream_timeout',
+  'timeout',
+  'blocked',
+]);
+
+const CHARS_TO_TOKENS = 0.25;
+
+function estimatePromptTokens(
+  messages: LlmMessage[],
+  tools: LlmToolDefinition[],
+): number {
+  let chars = JSON.stringify(tools).length;
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      chars += message.content.length;
+      continue;
+    }
+    for (const block of message.content) {
+      if (block.type === 'text') chars += block.text.length;
+      else if (block.type === 'tool_use') {
+        chars += JSON.stringify(block.input ?? {}).length;
+      } else if (block.type === 'tool_result') {
+        chars += block.content.length;
+      }
+    }
+  }
+  return Math.ceil(chars * CHARS_TO_TOKENS);
+}
+
+function hasContentBlock(
+  messages: LlmMessage[],
+  type: 'image' | 'document',
+): boolean {
+  return messages.some(
+    (message) =>
+      Array.isArray(message.content) &&
+      message.content.some((block) => block.type === type),
+  );
+}
+
+/**
+ * Why a fallback step cannot take this request, or null when it can.
+ * The context window check needs the step's resolved binding, so it
+ * lives with the resolve call in executeWithAgent.
+ */
+function fallbackStepSkipReason(
+  step: AgentFallbackStep,
+  request: { messages: LlmMessage[]; tools: LlmToolDefinition[] },
+): string | null {
+  const capabilities = resolveModelCapabilities(step);
+  if (request.tools.length > 0 && !capabilities.supports_tools) {
+    return 'unsupported_tools';
+  }
+  if (
+    hasContentBlock(request.messages, 'image') &&
+    !capabilities.supports_vision
+  ) {
+    return 'unsupported_vision';
+  }
+  if (
+    hasContentBlock(request.messages, 'document') &&
+    !capabilities.supports_pdf_documents
+  ) {
+    return 'unsupported_documents';
+  }
+  return null;
+}
+
 function normalizeProviderStopReason(value: string): string | null {
   const normalized = value.trim();
   return normalized.length > 0 ? normalized : null;
@@ -228,8 +405,11 @@ function buildIncompleteCompletion(input: {
  * 3. Filter tools by agent permissions (+ always include context tools if in Talk)
  * 4. Build LLM messages (system prompt + history + user message)
  * 5. Call LLM, stream events
- * 6. Handle tool loop: execute tools, append results, call LLM again (max 10 iterations)
- * 7. Handle fallback: if primary provider fails, try fallback steps
+ * 6. Handle tool loop: execute tools (pausing for user approval where
+ *    required), append results, call LLM again (max 10 iterations)
+ * 7. Handle fallback: if the model fails with a retryable error before
+ *    producing anything, walk the agent's fallback steps in order,
+ *    skipping steps that lack a capability the request needs
  * 8. Return result
  *
  * @param agentId - ID of the registered agent to execute
@@ -254,6 +434,19 @@ export async function executeWithAgent(
     alwaysAllowedContextToolNames?: string[];
     maxToolIterations?: number;
     toolIterationLimitFallback?: string;
+    /**
+     * Pause instead of stopping when the tool loop hits
+     * maxToolIterations: emit `paused` and throw a TalkRunPausedError
+     * carrying the transcript so far. Takes precedence over
+     * toolIterationLimitFallback.
+     */
+    pauseAtToolIterationLimit?: boolean;
+    /**
+     * Resume a run paused at the tool-iteration limit. The saved
+     * transcript replaces `userMessage`, and its reply text and usage
+     * carry over into the result.
+     */
+    resume?: TalkRunContinuation;
     /**
      * When true, set provider-specific `tool_choice=required` on the
      * FIRST iteration of the tool-calling loop. Subsequent iterations
@@ -285,6 +478,46 @@ export async function executeWithAgent(
      * all-light.
      */
     effectiveTools?: EffectiveToolAccess[];
+    /**
+     * Called before each follow-up tool-loop turn with the usage so far.
+     * Throwing stops the run; the run's usage budgets use this to halt a
+     * tool loop that crosses a hard limit (see talks/usage-budgets.ts).
+     */
+    beforeToolIteration?: (usage: {
+      inputTokens: number;
+      outputTokens: number;
+      estimatedCostUsd?: number;
+    }) => void | Promise<void>;
+    /**
+     * Called instead of running a tool whose family the user marked
+     * "requires approval" (EffectiveToolAccess.requiresApproval). Resolves
+     * once the user decides; anything but 'approved' hands the model a
+     * denial tool result and the loop continues. Absent => those tools
+     * run without asking, as before.
+     */
+    requestToolApproval?: (
+      request: TalkToolApprovalRequest,
+    ) => Promise<TalkToolApprovalOutcome>;
+    /**
+     * Called for each model the run moves past on the fallback chain
+     * (the failed primary, skipped steps, failed steps) so the executor
+     * can record it as an llm_attempts row.
+     */
+    recordFallbackHop?: (hop: AgentFallbackHop) => void | Promise<void>;
+    /**
+     * Require the final reply to be JSON matching this schema. The
+     * schema rides in the system prompt for every model and is also
+     * sent natively to models with `supports_json_schema`. A reply that
+     * fails validation gets up to MAX_STRUCTURED_OUTPUT_REPAIRS
+     * corrective turns before the run fails with
+     * `structured_output_invalid`.
+     */
+    responseSchema?: LlmResponseSchema;
+    /**
+     * Provider prompt-cache key shared by every run in the Talk (see
+     * prompt-cache-planner.ts). Absent => no key is sent.
+     */
+    promptCacheKey?: string;
   },
 ): Promise<AgentExecutionResult> {
   const emit = options.emit || (() => {});
@@ -326,6 +559,9 @@ export async function executeWithAgent(
   let providerConfig: LlmProviderConfig;
   let secret: LlmSecret;
   let defaultMaxOutputTokens: number | undefined;
+  let pricing: ModelPricing | undefined;
+  let activeProviderId = agent.provider_id;
+  let activeModelId = agent.model_id;
 
   try {
     const binding = await resolveExecution(agent, {
@@ -334,6 +570,7 @@ export async function executeWithAgent(
     providerConfig = binding.providerConfig;
     secret = binding.secret;
     defaultMaxOutputTokens = binding.defaultMaxOutputTokens;
+    pricing = binding.pricing;
   } catch (err) {
     if (err instanceof ExecutionResolverError) {
       emit({ type: 'failed', errorCode: err.code, errorMessage: err.message });
@@ -363,12 +600,14 @@ export async function executeWithAgent(
   for (const toolName of options.alwaysAllowedContextToolNames || []) {
     alwaysAllowedToolNames.add(toolName);
   }
+  const approvalToolNames = new Set<string>();
   let connectorsEnabled = false;
   for (const access of effectiveTools) {
     if (!access.enabled) continue;
     if (access.toolFamily === 'connectors') connectorsEnabled = true;
     for (const tool of access.runtimeTools) {
       enabledToolNames.add(tool);
+      if (access.requiresApproval) approvalToolNames.add(tool);
     }
   }
 
@@ -414,15 +653,27 @@ export async function executeWithAgent(
 
   // Build system prompt and push as first message
   let systemPrompt = '';
+  let stableSystemPrefix: string | undefined;
   if (context) {
     // Talk context + agent system prompt
     systemPrompt = context.systemPrompt;
+    stableSystemPrefix = context.stableSystemPrefix;
     if (agent.system_prompt) {
       systemPrompt += '\n\n' + agent.system_prompt;
     }
   } else {
     // Main channel: just agent's system prompt
     systemPrompt = agent.system_prompt || '';
+    stableSystemPrefix = systemPrompt;
+  }
+
+  if (options.responseSchema) {
+    systemPrompt = [
+      systemPrompt,
+      buildStructuredOutputInstruction(options.responseSchema),
+    ]
+      .filter(Boolean)
+      .join('\n\n');
   }
 
   if (systemPrompt) {
@@ -433,12 +684,17 @@ export async function executeWithAgent(
   if (context && context.history.length > 0) {
     messages.push(...context.history);
   }
+  const historyEnd = messages.length;
 
-  // Add user message
-  messages.push({
-    role: 'user',
-    content: userMessage,
-  });
+  // Add user message, or the paused run's turns since it
+  if (options.resume) {
+    messages.push(...options.resume.transcript);
+  } else {
+    messages.push({
+      role: 'user',
+      content: userMessage,
+    });
+  }
 
   // -----------
   // Step 5: Stream LLM response
@@ -451,11 +707,27 @@ export async function executeWithAgent(
     modelId: agent.model_id,
   });
 
-  let finalContent = '';
-  let accumulatedTokens = {
-    inputTokens: 0,
-    outputTokens: 0,
-    estimatedCostUsd: 0,
+  let finalContent = options.resume?.content ?? '';
+  const resumedUsage = options.resume?.usage;
+  let accumulatedTokens: {
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens?: number;
+    reasoningTokens?: number;
+    estimatedCostUsd?: number;
+  } = {
+    inputTokens: resumedUsage?.inputTokens ?? 0,
+    outputTokens: resumedUsage?.outputTokens ?? 0,
+    ...(resumedUsage?.cachedInputTokens !== undefined
+      ? { cachedInputTokens: resumedUsage.cachedInputTokens }
+      : {}),
+    ...(resumedUsage?.reasoningTokens !== undefined
+      ? { reasoningTokens: resumedUsage.reasoningTokens }
+      : {}),
+    estimatedCostUsd: estimateUsageCostUsd(pricing, {
+      inputTokens: resumedUsage?.inputTokens ?? 0,
+      outputTokens: resumedUsage?.outputTokens ?? 0,
+    }),
   };
   let lastProviderStopReason: string | null = null;
   let usedToolIterationFallback = false;
@@ -467,6 +739,92 @@ export async function executeWithAgent(
 
   const maxToolIterations = Math.max(1, options.maxToolIterations ?? 10);
   let codexContinuationCount = 0;
+  let structuredOutputRepairCount = 0;
+  let structuredOutput: { value: unknown } | null = null;
+
+  // Fallback only applies before the run has streamed text or called a
+  // tool: after that the user has seen output and the message history
+  // is in the current provider's tool-call shape. A resumed run has
+  // already done both.
+  let producedOutput = Boolean(options.resume);
+  let fallbackSteps: AgentFallbackStep[] | null = null;
+  let nextFallbackStep = 0;
+  const fallbackHops: AgentFallbackHop[] = [];
+
+  async function recordFallbackHop(hop: AgentFallbackHop): Promise<void> {
+    fallbackHops.push(hop);
+    await options.recordFallbackHop?.(hop);
+  }
+
+  /**
+   * Move to the next fallback step that can take this request. Returns
+   * false when the agent has no steps or all of them are used up.
+   */
+  const fallBack = async (failure: {
+    failureClass: string;
+    latencyMs: number;
+  }): Promise<boolean> => {
+    fallbackSteps ??= await getFallbackSteps(agentId);
+    if (fallbackSteps.length === 0) return false;
+    await recordFallbackHop({
+      providerId: activeProviderId,
+      modelId: activeModelId,
+      status: 'failed',
+      ...failure,
+    });
+
+    while (nextFallbackStep < fallbackSteps.length) {
+      const step = fallbackSteps[nextFallbackStep++];
+      const skip = (failureClass: string) =>
+        recordFallbackHop({
+          providerId: step.providerId,
+          modelId: step.modelId,
+          status: 'skipped',
+          failureClass,
+        });
+
+      const skipReason = fallbackStepSkipReason(step, { messages, tools });
+      if (skipReason) {
+        await skip(skipReason);
+        continue;
+      }
+
+      let binding: Awaited<ReturnType<typeof resolveExecution>>;
+      try {
+        binding = await resolveExecution(
+          {
+            ...agent,
+            provider_id: step.providerId,
+            model_id: step.modelId,
+            credential_mode: null,
+          },
+          { credentialKindSnapshot: null },
+        );
+      } catch (err) {
+        if (!(err instanceof ExecutionResolverError)) throw err;
+        await skip('unresolved');
+        continue;
+      }
+      if (
+        binding.contextWindowTokens &&
+        estimatePromptTokens(messages, tools) +
+          (binding.defaultMaxOutputTokens ?? 0) >
+          binding.contextWindowTokens
+      ) {
+        await skip('context_window');
+        continue;
+      }
+
+      activeProviderId = step.providerId;
+      activeModelId = step.modelId;
+      providerConfig = binding.providerConfig;
+      secret = binding.secret;
+      defaultMaxOutputTokens = binding.defaultMaxOutputTokens;
+      pricing = binding.pricing;
+      return true;
+    }
+    return false;
+  };
 
   try {
     for (let iteration = 0; iteration < maxToolIterations; iteration++) {
@@ -478,16 +836,42 @@ export async function executeWithAgent(
         iteration === 0 &&
         (options.forceToolUseOnFirstIteration ?? false) &&
         tools.length > 0;
+      // Re-resolved each turn: a fallback step may land on a model
+      // without native support, which then relies on the prompt alone,
+      // or without reasoning controls, which then runs at its default.
+      const capabilities = resolveModelCapabilities({
+        providerId: activeProviderId,
+        modelId: activeModelId,
+      });
+      const nativeResponseSchema =
+        options.responseSchema && capabilities.supports_json_schema
+          ? options.responseSchema
+          : undefined;
+      const reasoning = capabilities.supports_reasoning
+        ? resolveAgentReasoning(agent)
+        : undefined;
+      // Planned per turn: a fallback step may switch formats, and the
+      // rolling breakpoint follows the growing tool loop.
+      const cachePlan = planPromptCache({
+        apiFormat: providerConfig.apiFormat,
+        messages,
+        tools,
+        stableSystemPrefix,
+        historyEnd,
+      });
       const stream = streamLlmResponse(
         providerConfig,
         secret,
-        agent.model_id,
-        messages,
+        activeModelId,
+        cachePlan.messages,
         {
-          tools,
+          tools: cachePlan.tools,
           maxOutputTokens: defaultMaxOutputTokens,
           signal: options.signal,
           forceToolUse: forceToolUseThisTurn,
+          responseSchema: nativeResponseSchema,
+          reasoning,
+          promptCacheKey: options.promptCacheKey,
         },
       );
 
@@ -498,63 +882,131 @@ export async function executeWithAgent(
         { name: string; argumentsJson: string }
       >();
       let stopReason = 'end_turn';
+      let turnThinkingBlocks: Array<Record<string, unknown>> | undefined;
+      const turnStartedAt = Date.now();
 
-      for await (const event of stream) {
-        if (options.signal?.aborted) {
-          emit({ type: 'cancelled' });
-          const abortErr =
-            options.signal.reason instanceof Error
-              ? options.signal.reason
-              : Object.assign(new Error('Agent execution was cancelled'), {
-                  name: 'AbortError',
-                });
-          throw abortErr;
-        }
-
-        if (event.type === 'text_delta') {
-          turnTextContent += event.text;
-          emit({ type: 'text_delta', text: event.text || '' });
-        } else if (event.type === 'tool_call_start') {
-          if (event.toolCall) {
-            pendingToolCalls.set(event.toolCall.id, {
-              name: event.toolCall.name,
-              argumentsJson: '',
-            });
+      try {
+        for await (const event of stream) {
+          if (options.signal?.aborted) {
+            emit({ type: 'cancelled' });
+            const abortErr =
+              options.signal.reason instanceof Error
+                ? options.signal.reason
+                : Object.assign(new Error('Agent execution was cancelled'), {
+                    name: 'AbortError',
+                  });
+            throw abortErr;
           }
-        } else if (event.type === 'tool_call_delta') {
-          if (event.toolCall) {
-            const current = pendingToolCalls.get(event.toolCall.id);
-            if (current) {
-              if (event.toolCall.argumentsDelta) {
-                current.argumentsJson += event.toolCall.argumentsDelta;
-              }
-              if (event.toolCall.arguments) {
-                current.argumentsJson = event.toolCall.arguments;
+
+          if (event.type === 'text_delta') {
+            producedOutput = true;
+            turnTextContent += event.text;
+            emit({ type: 'text_delta', text: event.text || '' });
+          } else if (event.type === 'reasoning_delta') {
+            if (event.text) emit({ type: 'reasoning_delta', text: event.text });
+          } else if (event.type === 'tool_call_start') {
+            producedOutput = true;
+            if (event.toolCall) {
+              pendingToolCalls.set(event.toolCall.id, {
+                name: event.toolCall.name,
+                argumentsJson: '',
+              });
+            }
+          } else if (event.type === 'tool_call_delta') {
+            if (event.toolCall) {
+              const current = pendingToolCalls.get(event.toolCall.id);
+              if (current) {
+                if (event.toolCall.argumentsDelta) {
+                  current.argumentsJson += event.toolCall.argumentsDelta;
+                }
+                if (event.toolCall.arguments) {
+                  current.argumentsJson = event.toolCall.arguments;
+                }
               }
             }
+          } else if (event.type === 'done') {
+            stopReason = event.stopReason || 'end_turn';
+          } else if (event.type === 'usage') {
+            const turnUsage = {
+              inputTokens: event.usage?.inputTokens || 0,
+              outputTokens: event.usage?.outputTokens || 0,
+            };
+            // Only providers that report a cached or thinking share set
+            // these; keep them off the totals entirely when none of the
+            // turns did.
+            const turnCachedInputTokens = event.usage?.cachedInputTokens;
+            const turnReasoningTokens = event.usage?.reasoningTokens;
+            const inputTokens =
+              accumulatedTokens.inputTokens + turnUsage.inputTokens;
+            const outputTokens =
+              accumulatedTokens.outputTokens + turnUsage.outputTokens;
+            const cachedInputTokens =
+              turnCachedInputTokens !== undefined ||
+              accumulatedTokens.cachedInputTokens !== undefined
+                ? (accumulatedTokens.cachedInputTokens ?? 0) +
+                  (turnCachedInputTokens ?? 0)
+                : undefined;
+            const reasoningTokens =
+              turnReasoningTokens !== undefined ||
+              accumulatedTokens.reasoningTokens !== undefined
+                ? (accumulatedTokens.reasoningTokens ?? 0) +
+                  (turnReasoningTokens ?? 0)
+                : undefined;
+            accumulatedTokens = {
+              inputTokens,
+              outputTokens,
+              ...(cachedInputTokens !== undefined ? { cachedInputTokens } : {}),
+              ...(reasoningTokens !== undefined ? { reasoningTokens } : {}),
+              estimatedCostUsd: estimateUsageCostUsd(pricing, {
+                inputTokens,
+                outputTokens,
+              }),
+            };
+            emit({
+              type: 'usage',
+              ...turnUsage,
+              ...(turnCachedInputTokens !== undefined
+                ? { cachedInputTokens: turnCachedInputTokens }
+                : {}),
+              ...(turnReasoningTokens !== undefined
+                ? { reasoningTokens: turnReasoningTokens }
+                : {}),
+              estimatedCostUsd: estimateUsageCostUsd(pricing, turnUsage),
+            });
+          } else if (event.type === 'provider_data') {
+            if (event.providerData) {
+              latestProviderData = event.providerData;
+              turnThinkingBlocks = event.providerData.anthropicThinkingBlocks;
+            }
           }
-        } else if (event.type === 'done') {
-          stopReason = event.stopReason || 'end_turn';
-        } else if (event.type === 'usage') {
-          accumulatedTokens = {
-            inputTokens:
-              accumulatedTokens.inputTokens + (event.usage?.inputTokens || 0),
-            outputTokens:
-              accumulatedTokens.outputTokens + (event.usage?.outputTokens || 0),
-            estimatedCostUsd: 0,
-          };
-          emit({
-            type: 'usage',
-            inputTokens: event.usage?.inputTokens || 0,
-            outputTokens: event.usage?.outputTokens || 0,
-            estimatedCostUsd: 0,
-          });
-        } else if (event.type === 'provider_data') {
-          if (event.providerData) {
-            latestProviderData = event.providerData;
-          }
         }
+      } catch (err) {
+        if (
+          producedOutput ||
+          options.signal?.aborted ||
+          !(err instanceof LlmClientError) ||
+          !FALLBACK_FAILURE_CLASSES.has(err.failureClass) ||
+          !(await fallBack({
+            failureClass: err.failureClass,
+            latencyMs: Date.now() - turnStartedAt,
+          }))
+        ) {
+          throw err;
+        }
+        iteration -= 1;
+        continue;
       }
+      producedOutput = true;
+      emit({
+        type: 'llm_turn',
+        providerId: activeProviderId,
+        modelId: activeModelId,
+        messageCount: cachePlan.messages.length,
+        stopReason,
+        text: turnTextContent,
+        toolCalls: Array.from(pendingToolCalls.values(), (call) => call.name),
+        latencyMs: Date.now() - turnStartedAt,
+      });
 
       finalContent += turnTextContent;
       lastProviderStopReason = normalizeProviderStopReason(stopReason);
@@ -586,6 +1038,11 @@ export async function executeWithAgent(
           codexContinuationCount < MAX_CODEX_CONTINUATIONS;
         if (codexShouldContinue) {
           codexContinuationCount += 1;
+          emit({
+            type: 'retry',
+            reason: 'codex_continuation',
+            attempt: codexContinuationCount,
+          });
           messages.push({
             role: 'assistant',
             content: turnTextContent || '',
@@ -594,6 +1051,56 @@ export async function executeWithAgent(
           iteration -= 1;
           continue;
         }
+        // Structured replies are checked only on a clean stop; a
+        // truncated one fails below as incomplete_response. The repair
+        // turn rewinds the iteration counter like a Codex continuation.
+        if (
+          options.responseSchema &&
+          lastProviderStopReason &&
+          CLEAN_PROVIDER_STOP_REASONS.has(lastProviderStopReason)
+        ) {
+          const parsed = parseStructuredOutput(
+            turnTextContent,
+            options.responseSchema.schema,
+          );
+          if (parsed.ok) {
+            structuredOutput = { value: parsed.value };
+            finalContent = turnTextContent.trim();
+          } else if (
+            structuredOutputRepairCount < MAX_STRUCTURED_OUTPUT_REPAIRS
+          ) {
+            structuredOutputRepairCount += 1;
+            emit({
+              type: 'retry',
+              reason: 'structured_output_repair',
+              attempt: structuredOutputRepairCount,
+              detail: parsed.error,
+            });
+            messages.push(
+              { role: 'assistant', content: turnTextContent },
+              {
+                role: 'user',
+                content: buildStructuredOutputRepairMessage(
+                  options.responseSchema,
+                  parsed.error,
+                ),
+              },
+            );
+            iteration -= 1;
+            continue;
+          } else {
+            const errorMessage = `The reply did not match the ${options.responseSchema.name} schema after ${MAX_STRUCTURED_OUTPUT_REPAIRS} repair attempts: ${parsed.error}`;
+            emit({
+              type: 'failed',
+              errorCode: 'structured_output_invalid',
+              errorMessage,
+            });
+            throw new TalkExecutorError(
+              'structured_output_invalid',
+              errorMessage,
+            );
+          }
+        }
         break;
       }
 
@@ -618,7 +1125,22 @@ export async function executeWithAgent(
           input: parsedInput,
         });
       }
-      messages.push({ role: 'assistant', content: assistantContent });
+      // Gemini rejects the follow-up turn unless each functionCall
+      // comes back with the thoughtSignature it was issued with, and
+      // Anthropic with thinking on unless the turn's signed thinking
+      // blocks come back ahead of its tool_use blocks.
+      messages.push({
+        role: 'assistant',
+        content: assistantContent,
+        ...(providerConfig.apiFormat === 'gemini_generate_content' &&
+        latestProviderData?.geminiThoughtSignatures
+          ? { providerData: latestProviderData }
+          : {}),
+        ...(providerConfig.apiFormat === 'anthropic_messages' &&
+        turnThinkingBlocks
+          ? { providerData: { anthropicThinkingBlocks: turnThinkingBlocks } }
+          : {}),
+      });
 
       // Execute each tool call and collect results
       const toolResults: Array<{
@@ -641,6 +1163,50 @@ export async function executeWithAgent(
           arguments: parsedArgs,
         });
 
+        if (
+          options.requestToolApproval &&
+          approvalToolNames.has(call.name) &&
+          !alwaysAllowedToolNames.has(call.name)
+        ) {
+          const confirmationId = randomUUID();
+          const actionSummary = summarizeToolCall(call.name, parsedArgs);
+          emit({
+            type: 'awaiting_confirmation',
+            confirmationId,
+            toolName: call.name,
+            actionSummary,
+          });
+          let outcome: TalkToolApprovalOutcome;
+          try {
+            outcome = await options.requestToolApproval({
+              approvalId: confirmationId,
+              agentId,
+              toolName: call.name,
+              arguments: parsedArgs,
+              actionSummary,
+            });
+          } catch (err) {
+            if (options.signal?.aborted) emit({ type: 'cancelled' });
+            throw err;
+          }
+          if (outcome !== 'approved') {
+            const denial = toolApprovalDenialResult(call.name, outcome);
+            emit({
+              type: 'tool_result',
+              toolName: call.name,
+              result: denial,
+              isError: true,
+            });
+            toolResults.push({
+              id,
+              name: call.name,
+              result: denial,
+              isError: true,
+            });
+            continue;
+          }
+        }
+
         try {
           const { result, isError } = await options.executeToolCall(
             call.name,
@@ -676,9 +1242,11 @@ export async function executeWithAgent(
       }
 
       // Append tool results as messages.
-      // For Anthropic: tool_result blocks inside a single role:'tool' message
-      //   (buildAnthropicRequest converts role:'tool' with LlmContentBlock[] to
-      //    a user message with tool_result blocks)
+      // For Anthropic + Gemini: tool_result blocks inside a single role:'tool'
+      //   message (buildAnthropicRequest converts role:'tool' with
+      //   LlmContentBlock[] to a user message with tool_result blocks; the
+      //   Gemini adapter to one user turn of functionResponse parts, which
+      //   keeps the isError flag)
       // For OpenAI + Codex Responses: individual role:'tool' messages with
       //   toolCallId. The Codex backend expects function_call_output.output to
       //   be a plain string; sending tool_result blocks here would leave the
@@ -698,7 +1266,7 @@ export async function executeWithAgent(
           });
         }
       } else {
-        // Anthropic: structured tool_result blocks
+        // Anthropic + Gemini: structured tool_result blocks
         const toolResultBlocks: LlmContentBlock[] = toolResults.map((tr) => ({
           type: 'tool_result' as const,
           toolUseId: tr.id,
@@ -709,6 +1277,20 @@ export async function executeWithAgent(
       }
 
       if (reachedToolIterationLimit) {
+        if (options.pauseAtToolIterationLimit) {
+          const iterationsUsed =
+            (options.resume?.iterationsUsed ?? 0) + maxToolIterations;
+          emit({ type: 'paused', iterationsUsed });
+          throw new TalkRunPausedError({
+            reason: 'tool_iteration_limit',
+            agentId,
+            transcript: messages.slice(historyEnd),
+            content: finalContent,
+            iterationsUsed,
+            usage: accumulatedTokens,
+            pausedAt: new Date().toISOString(),
+          });
+        }
         if (options.toolIterationLimitFallback) {
           finalContent = options.toolIterationLimitFallback;
           usedToolIterationFallback = true;
@@ -716,13 +1298,26 @@ export async function executeWithAgent(
         break;
       }
 
+      if (options.beforeToolIteration) {
+        try {
+          await options.beforeToolIteration(accumulatedTokens);
+        } catch (err) {
+          if (err instanceof TalkExecutorError) {
+            emit({
+              type: 'failed',
+              errorCode: err.code,
+              errorMessage: err.message,
+            });
+          }
+          throw err;
+        }
+      }
+
       // Reset turn text for next iteration — the LLM will produce new content
       // finalContent already accumulated, next turn appends more
     }
   } catch (err) {
     if (err instanceof LlmClientError) {
-      // TODO: Implement fallback logic here
-      // For now, just fail
       emit({
         type: 'failed',
         errorCode: err.failureClass || 'LLM_ERROR',
@@ -766,6 +1361,18 @@ export async function executeWithAgent(
     }
   }
 
+  // Reached when the tool-iteration limit cut the loop before the model
+  // settled on a reply.
+  if (options.responseSchema && !structuredOutput) {
+    const errorMessage = `The model did not produce a ${options.responseSchema.name} response.`;
+    emit({
+      type: 'failed',
+      errorCode: 'structured_output_invalid',
+      errorMessage,
+    });
+    throw new TalkExecutorError('structured_output_invalid', errorMessage);
+  }
+
   const completion = {
     completionStatus: 'complete' as const,
     providerStopReason: lastProviderStopReason,
@@ -780,10 +1387,19 @@ export async function executeWithAgent(
   return {
     content: finalContent,
     agentId,
-    providerId: agent.provider_id,
-    modelId: agent.model_id,
+    providerId: activeProviderId,
+    modelId: activeModelId,
     usage: accumulatedTokens,
     completion,
     providerData: latestProviderData,
+    fallback:
+      activeModelId !== agent.model_id || activeProviderId !== agent.provider_id
+        ? {
+            primaryProviderId: agent.provider_id,
+            primaryModelId: agent.model_id,
+            hops: fallbackHops,
+          }
+        : undefined,
+    ...(structuredOutput ? { structuredOutput: structuredOutput.value } : {}),
   };
 }
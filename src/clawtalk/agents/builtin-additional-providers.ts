@@ -9,7 +9,8 @@ export type BuiltinAdditionalProviderCredentialMode =
 export type BuiltinAdditionalProviderApiFormat =
   | 'anthropic_messages'
   | 'openai_chat_completions'
-  | 'codex_responses';
+  | 'codex_responses'
+  | 'gemini_generate_content';
 export type BuiltinAdditionalProviderAuthScheme = 'x_api_key' | 'bearer';
 
 export interface BuiltinAdditionalProviderModel {
@@ -19,19 +20,42 @@ export interface BuiltinAdditionalProviderModel {
   defaultMaxOutputTokens: number;
   defaultTtftTimeoutMs: number;
   supportsVision?: boolean;
+  /**
+   * Whether the model takes tool definitions. Every catalog model so far
+   * does, so this defaults to true; set false for one that does not.
+   */
+  supportsTools?: boolean;
   /**
    * Per-prompt image cap, surfaced as `ModelCapabilities.max_images`.
    * Only meaningful for vision-but-not-PDF models consumed via the PDF
-   * page-image path (gpt-5-mini, gemini-2.5-flash, kimi-k2.6); omit for
-   * native-PDF models (Claude/Codex), which never take page images.
+   * page-image path (gpt-5-mini, kimi-k2.6); omit for native-PDF
+   * models, which never take page images.
    */
   maxImages?: number;
+  /**
+   * Whether the model takes native PDF document blocks, surfaced as
+   * `ModelCapabilities.supports_pdf_documents`. Claude and Codex are
+   * resolved by provider in capabilities.ts; catalog models set this.
+   */
+  supportsPdfDocuments?: boolean;
   /**
    * Image MIME types this model accepts, surfaced as
    * `ModelCapabilities.accepted_image_formats`. The rasterizer emits
    * only `image/jpeg`; this records the safe set.
    */
   acceptedImageFormats?: string[];
+  /**
+   * Whether the model honors a native JSON-schema response format,
+   * surfaced as `ModelCapabilities.supports_json_schema`. Claude and
+   * Codex are resolved by provider in capabilities.ts.
+   */
+  supportsJsonSchema?: boolean;
+  /**
+   * Whether the model takes a reasoning effort or thinking budget,
+   * surfaced as `ModelCapabilities.supports_reasoning`. Claude and
+   * Codex are resolved by provider in capabilities.ts.
+   */
+  supportsReasoning?: boolean;
 }
 
 export interface BuiltinAdditionalProvider {
@@ -119,6 +143,8 @@ export const BUILTIN_ADDITIONAL_PROVIDERS: BuiltinAdditionalProvider[] = [
         // resolve to all rendered pages. The binding low cap is Kimi's.
         maxImages: 64,
         acceptedImageFormats: ['image/jpeg', 'image/png'],
+        supportsJsonSchema: true,
+        supportsReasoning: true,
       },
     ],
   },
@@ -165,8 +191,11 @@ export const BUILTIN_ADDITIONAL_PROVIDERS: BuiltinAdditionalProvider[] = [
     name: 'Google / Gemini',
     providerKind: 'gemini',
     credentialMode: 'api_key',
-    apiFormat: 'openai_chat_completions',
-    baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
+    // Native generateContent rather than the OpenAI-compatible shim, for
+    // PDF input and cached-token usage. The adapter sends the key as
+    // x-goog-api-key regardless of authScheme.
+    apiFormat: 'gemini_generate_content',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
     authScheme: 'bearer',
     responseStartTimeoutMs: 90_000,
     streamIdleTimeoutMs: 20_000,
@@ -179,10 +208,10 @@ export const BUILTIN_ADDITIONAL_PROVIDERS: BuiltinAdditionalProvider[] = [
         defaultMaxOutputTokens: 8_192,
         defaultTtftTimeoutMs: 45_000,
         supportsVision: true,
-        // Gemini 2.5 accepts thousands of images per request; like
-        // gpt-5-mini this only needs to exceed MAX_RASTER_PAGES.
-        maxImages: 64,
+        supportsPdfDocuments: true,
         acceptedImageFormats: ['image/jpeg', 'image/png'],
+        supportsJsonSchema: true,
+        supportsReasoning: true,
       },
     ],
   },
@@ -296,6 +296,26 @@ describe('buildCodexRequestBody', () => {
     expect(body.prompt_cache_key).toBe('talk-uuid-abc');
     expect(body.stream).toBe(true);
   });
+
+  it('sends a response schema as a non-strict json_schema text format', () => {
+    const schema = { type: 'object', properties: { n: { type: 'integer' } } };
+    const body = buildCodexRequestBody({
+      model: 'gpt-5.4',
+      systemPrompt: 's',
+      messages: [],
+      responseSchema: { name: 'digest', description: 'Counts', schema },
+    });
+    expect(body.text).toEqual({
+      format: {
+        type: 'json_schema',
+        name: 'digest',
+        description: 'Counts',
+        schema,
+        strict: false,
+      },
+    });
+    expect(preflightCodexRequestBody(body).text).toEqual(body.text);
+  });
 });
 
 describe('preflightCodexRequestBody', () => {
@@ -464,6 +484,47 @@ describe('handleCodexSseEvent', () => {
     expect(state.outputTokens).toBe(80);
   });
 
+  it('records the cached share of input from response.completed', () => {
+    const state = createCodexStreamState();
+    handleCodexSseEvent(state, {
+      type: 'response.completed',
+      response: {
+        status: 'completed',
+        usage: {
+          input_tokens: 200,
+          input_tokens_details: { cached_tokens: 128 },
+          output_tokens: 80,
+        },
+      },
+    });
+    expect(state.inputTokens).toBe(200);
+    expect(state.cachedInputTokens).toBe(128);
+  });
+
+  it('forwards reasoning summary deltas and counts reasoning tokens', () => {
+    const state = createCodexStreamState();
+    const out = handleCodexSseEvent(state, {
+      type: 'response.reasoning_summary_text.delta',
+      delta: 'Checking the docs',
+    });
+    expect(out).toEqual([
+      { type: 'reasoning_delta', text: 'Checking the docs' },
+    ]);
+    expect(state.collectedTextDeltas).toEqual([]);
+    handleCodexSseEvent(state, {
+      type: 'response.completed',
+      response: {
+        status: 'completed',
+        usage: {
+          input_tokens: 200,
+          output_tokens: 80,
+          output_tokens_details: { reasoning_tokens: 64 },
+        },
+      },
+    });
+    expect(state.reasoningTokens).toBe(64);
+  });
+
   it('emits an error event for type=error frames', () => {
     const state = createCodexStreamState();
     const out = handleCodexSseEvent(state, {
@@ -33,6 +33,7 @@ import { logger } from '../../logger.js';
 import type {
   LlmContentBlock,
   LlmMessage,
+  LlmResponseSchema,
   LlmStreamEvent,
   LlmToolDefinition,
 } from './llm-client.js';
@@ -138,6 +139,15 @@ export interface CodexRequestBody {
   include?: string[];
   max_output_tokens?: number;
   prompt_cache_key?: string;
+  text?: {
+    format: {
+      type: 'json_schema';
+      name: string;
+      description?: string;
+      schema: Record<string, unknown>;
+      strict: false;
+    };
+  };
   stream?: true;
 }
 
@@ -161,6 +171,8 @@ export interface CodexBuildOptions {
    * chat. Used by the Content edit-intent gate.
    */
   forceToolUse?: boolean;
+  /** Constrain the final message to this schema via `text.format`. */
+  responseSchema?: LlmResponseSchema;
 }
 
 /**
@@ -183,7 +195,12 @@ export interface CodexAssistantResult {
   /** Assistant message items (with phase/id) to persist + replay. */
   codexMessageItems: Array<Record<string, unknown>>;
   leakedToolCallText: boolean;
-  usage: { inputTokens: number; outputTokens: number } | null;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens?: number;
+    reasoningTokens?: number;
+  } | null;
 }
 
 // ============================================================================
@@ -558,6 +575,20 @@ export function buildCodexRequestBody(
     body.prompt_cache_key = opts.sessionId;
   }
 
+  if (opts.responseSchema) {
+    body.text = {
+      format: {
+        type: 'json_schema',
+        name: opts.responseSchema.name,
+        ...(opts.responseSchema.description
+          ? { description: opts.responseSchema.description }
+          : {}),
+        schema: opts.responseSchema.schema,
+        strict: false,
+      },
+    };
+  }
+
   if (opts.stream) {
     body.stream = true;
   }
@@ -577,6 +608,7 @@ const ALLOWED_REQUEST_KEYS = new Set<keyof CodexRequestBody>([
   'tool_choice',
   'parallel_tool_calls',
   'prompt_cache_key',
+  'text',
   'stream',
 ]);
 
@@ -736,6 +768,8 @@ export interface CodexStreamState {
   errorMessage: string | null;
   inputTokens: number;
   outputTokens: number;
+  cachedInputTokens: number | null;
+  reasoningTokens: number | null;
 }
 
 export function createCodexStreamState(): CodexStreamState {
@@ -749,6 +783,8 @@ export function createCodexStreamState(): CodexStreamState {
     errorMessage: null,
     inputTokens: 0,
     outputTokens: 0,
+    cachedInputTokens: null,
+    reasoningTokens: null,
   };
 }
 
@@ -763,6 +799,7 @@ export function createCodexStreamState(): CodexStreamState {
  *   response.output_item.added  — a new output item is starting
  *   response.output_item.done   — the item is finished (capture it)
  *   response.output_text.delta  — text delta from a message item
+ *   response.reasoning_summary_text.delta — reasoning summary delta
  *   response.function_call_arguments.delta — tool-call args streaming
  *   response.completed / .incomplete / .failed — terminal
  *   error                       — provider-side stream error
@@ -815,6 +852,12 @@ export function handleCodexSseEvent(
     return out;
   }
 
+  if (type === 'response.reasoning_summary_text.delta') {
+    const delta = typeof raw.delta === 'string' ? raw.delta : '';
+    if (delta) out.push({ type: 'reasoning_delta', text: delta });
+    return out;
+  }
+
   if (type === 'response.function_call_arguments.delta') {
     const delta = typeof raw.delta === 'string' ? raw.delta : '';
     const itemId = typeof raw.item_id === 'string' ? raw.item_id : '';
@@ -873,6 +916,14 @@ export function handleCodexSseEvent(
           state.inputTokens = u.input_tokens;
         if (typeof u.output_tokens === 'number')
           state.outputTokens = u.output_tokens;
+        const inputDetails = u.input_tokens_details as
+          { cached_tokens?: unknown } | undefined;
+        if (typeof inputDetails?.cached_tokens === 'number')
+          state.cachedInputTokens = inputDetails.cached_tokens;
+        const details = u.output_tokens_details as
+          { reasoning_tokens?: unknown } | undefined;
+        if (typeof details?.reasoning_tokens === 'number')
+          state.reasoningTokens = details.reasoning_tokens;
       }
     }
     return out;
@@ -1032,7 +1083,16 @@ export function finalizeCodexStream(
     leakedToolCallText,
     usage:
       state.inputTokens || state.outputTokens
-        ? { inputTokens: state.inputTokens, outputTokens: state.outputTokens }
+        ? {
+            inputTokens: state.inputTokens,
+            outputTokens: state.outputTokens,
+            ...(state.cachedInputTokens !== null
+              ? { cachedInputTokens: state.cachedInputTokens }
+              : {}),
+            ...(state.reasoningTokens !== null
+              ? { reasoningTokens: state.reasoningTokens }
+              : {}),
+          }
         : null,
   };
 }
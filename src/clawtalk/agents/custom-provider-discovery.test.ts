@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  discoverCustomProviderModels,
+  type CustomDiscoveryProvider,
+} from './custom-provider-discovery.js';
+
+// IP-literal base URLs keep the SSRF check off DNS. 203.0.113.0/24 is
+// TEST-NET-3, which isBlockedIp treats as public.
+const PUBLIC_PROVIDER: CustomDiscoveryProvider = {
+  id: 'custom.8f1c0d4e-0000-4000-8000-000000000001',
+  name: 'Team vLLM',
+  baseUrl: 'https://203.0.113.10/v1/',
+  authScheme: 'bearer',
+};
+
+const LOCAL_OLLAMA: CustomDiscoveryProvider = {
+  id: 'custom.8f1c0d4e-0000-4000-8000-000000000002',
+  name: 'Ollama',
+  baseUrl: 'http://127.0.0.1:11434/v1',
+  authScheme: 'none',
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('discoverCustomProviderModels', () => {
+  it('parses the OpenAI /models shape, keeping provider-supplied names', async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({
+        data: [
+          { id: 'meta-llama/Llama-3.3-70B-Instruct' },
+          { id: 'openai/gpt-oss-120b', name: 'GPT OSS 120B' },
+          { object: 'model' },
+        ],
+      }),
+    );
+    const result = await discoverCustomProviderModels(
+      PUBLIC_PROVIDER,
+      'sk-test',
+      { cache: null, fetcher: fetcher as unknown as typeof fetch },
+    );
+    expect(result.status).toBe('ok');
+    expect(result.models).toEqual([
+      { modelId: 'meta-llama/Llama-3.3-70B-Instruct' },
+      { modelId: 'openai/gpt-oss-120b', displayName: 'GPT OSS 120B' },
+    ]);
+    const [url, init] = fetcher.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe('https://203.0.113.10/v1/models');
+    expect(init.headers).toMatchObject({ authorization: 'Bearer sk-test' });
+  });
+
+  it('sends the key as x-api-key when the provider asks for it', async () => {
+    const fetcher = vi.fn(async () => jsonResponse({ data: [] }));
+    await discoverCustomProviderModels(
+      { ...PUBLIC_PROVIDER, authScheme: 'x_api_key' },
+      'sk-test',
+      { cache: null, fetcher: fetcher as unknown as typeof fetch },
+    );
+    const [, init] = fetcher.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).toMatchObject({ 'x-api-key': 'sk-test' });
+    expect(init.headers).not.toHaveProperty('authorization');
+  });
+
+  it('reports a redirect as unavailable instead of following it', async () => {
+    const fetcher = vi.fn(
+      async () =>
+        new Response(null, {
+          status: 302,
+          headers: { location: 'http://169.254.169.254/latest/meta-data' },
+        }),
+    );
+    const result = await discoverCustomProviderModels(
+      PUBLIC_PROVIDER,
+      'sk-test',
+      { cache: null, fetcher: fetcher as unknown as typeof fetch },
+    );
+    expect(result.status).toBe('unavailable');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    const [, init] = fetcher.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.redirect).toBe('manual');
+  });
+
+  it('blocks a private base URL before fetching', async () => {
+    const fetcher = vi.fn(async () => jsonResponse({ data: [] }));
+    const result = await discoverCustomProviderModels(LOCAL_OLLAMA, null, {
+      cache: null,
+      fetcher: fetcher as unknown as typeof fetch,
+    });
+    expect(result.status).toBe('unavailable');
+    expect(result.message).toMatch(/blocked IP range/);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('discovers a keyless private server whose host the operator listed', async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({ data: [{ id: 'qwen3:32b' }] }),
+    );
+    const result = await discoverCustomProviderModels(LOCAL_OLLAMA, null, {
+      cache: null,
+      fetcher: fetcher as unknown as typeof fetch,
+      privateHosts: ['127.0.0.1'],
+    });
+    expect(result.status).toBe('ok');
+    expect(result.models).toEqual([{ modelId: 'qwen3:32b' }]);
+    const [url, init] = fetcher.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe('http://127.0.0.1:11434/v1/models');
+    expect(init.headers).not.toHaveProperty('authorization');
+  });
+
+  it('reports auth_error without fetching when a keyed provider has no key', async () => {
+    const fetcher = vi.fn(async () => jsonResponse({ data: [] }));
+    const result = await discoverCustomProviderModels(PUBLIC_PROVIDER, null, {
+      cache: null,
+      fetcher: fetcher as unknown as typeof fetch,
+    });
+    expect(result.status).toBe('auth_error');
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+});
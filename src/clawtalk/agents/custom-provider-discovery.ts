@@ -0,0 +1,101 @@
+/**
+ * custom-provider-discovery.ts
+ *
+ * Live model discovery for workspace-defined OpenAI-compatible providers
+ * (vLLM, Ollama, LM Studio, OpenRouter). All of them serve the OpenAI
+ * `GET {baseUrl}/models` shape — `{ data: [{ id }] }` — so one adapter
+ * over the shared discovery infrastructure in model-discovery.ts covers
+ * them.
+ *
+ * Unlike the builtin adapters the URL is user-supplied, so the base URL
+ * passes the SSRF check before anything is fetched, and the
+ * cache namespace is per provider so two providers sharing a key (or
+ * having none) never share a cached list.
+ */
+
+import { CUSTOM_PROVIDER_PRIVATE_HOSTS } from '../config.js';
+import {
+  assertOutboundUrlAllowed,
+  OutboundUrlError,
+} from '../security/outbound-url.js';
+import {
+  discoverModels,
+  invalidateDiscovery,
+  type DiscoveredModel,
+  type DiscoveryCacheLike,
+  type DiscoveryOptions,
+  type DiscoveryResult,
+  type ModelsEndpoint,
+} from './model-discovery.js';
+
+export interface CustomDiscoveryProvider {
+  id: string;
+  name: string;
+  baseUrl: string;
+  authScheme: 'none' | 'bearer' | 'x_api_key';
+}
+
+interface OpenAiModelsResponse {
+  data?: Array<{ id?: string; name?: string }>;
+}
+
+function parseOpenAiModels(raw: unknown): DiscoveredModel[] {
+  const payload = raw as OpenAiModelsResponse;
+  if (!payload || !Array.isArray(payload.data)) return [];
+  const models: DiscoveredModel[] = [];
+  for (const entry of payload.data) {
+    if (typeof entry?.id !== 'string' || !entry.id) continue;
+    // OpenRouter returns a friendly `name`; vLLM and Ollama don't.
+    models.push(
+      typeof entry.name === 'string' && entry.name
+        ? { modelId: entry.id, displayName: entry.name }
+        : { modelId: entry.id },
+    );
+  }
+  return models;
+}
+
+function namespaceFor(providerId: string): string {
+  return `custom-discovery-${providerId.replace(/[^a-z0-9-]/gi, '-')}`;
+}
+
+function buildEndpoint(provider: CustomDiscoveryProvider): ModelsEndpoint {
+  return {
+    namespace: namespaceFor(provider.id),
+    url: `${provider.baseUrl.replace(/\/+$/, '')}/models`,
+    label: provider.name,
+    headers: (apiKey): Record<string, string> => {
+      if (!apiKey || provider.authScheme === 'none') return {};
+      return provider.authScheme === 'x_api_key'
+        ? { 'x-api-key': apiKey }
+        : { authorization: `Bearer ${apiKey}` };
+    },
+    requiresApiKey: provider.authScheme !== 'none',
+    parse: parseOpenAiModels,
+  };
+}
+
+export async function discoverCustomProviderModels(
+  provider: CustomDiscoveryProvider,
+  apiKey: string | null,
+  opts: DiscoveryOptions & { privateHosts?: readonly string[] } = {},
+): Promise<DiscoveryResult> {
+  const endpoint = buildEndpoint(provider);
+  try {
+    await assertOutboundUrlAllowed(endpoint.url, {
+      privateHosts: opts.privateHosts ?? CUSTOM_PROVIDER_PRIVATE_HOSTS,
+    });
+  } catch (err) {
+    if (!(err instanceof OutboundUrlError)) throw err;
+    return { models: [], status: 'unavailable', message: err.message };
+  }
+  return discoverModels(endpoint, apiKey ?? '', opts);
+}
+
+export function invalidateCustomProviderDiscovery(
+  providerId: string,
+  apiKey: string,
+  cache: DiscoveryCacheLike | null | undefined,
+): Promise<void> {
+  return invalidateDiscovery(namespaceFor(providerId), apiKey, cache);
+}
@@ -162,7 +162,9 @@ export async function getAnthropicApiKeyFromDb(): Promise<string | null> {
 
   const workspaceRows = await db<{ ciphertext: string }[]>`
     select ciphertext from public.workspace_provider_secrets
-    where provider_id = 'provider.anthropic' limit 1
+    where workspace_id = public.current_workspace_id()
+      and provider_id = 'provider.anthropic'
+    limit 1
   `;
   const workspaceCiphertext = workspaceRows[0]?.ciphertext ?? null;
   if (!workspaceCiphertext) {
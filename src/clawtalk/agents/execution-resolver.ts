@@ -20,6 +20,11 @@
  * case of `provider.anthropic` where the API key may also come from the
  * `ANTHROPIC_API_KEY` env var managed by the host layer.
  *
+ * Workspace-defined custom providers (migration 0050) may use auth
+ * scheme 'none' and need no credential at all. Their base URL is checked
+ * against the SSRF policy on every resolve, unless an admin allowed
+ * private-network addresses for that provider.
+ *
  * Claude subscription/OAuth credentials (CLAUDE_CODE_OAUTH_TOKEN,
  * ANTHROPIC_AUTH_TOKEN) are NOT compatible with the direct HTTP path.
  * They require the container executor or a compatible proxy — both of
@@ -49,6 +54,12 @@ import {
 } from '../llm/openai-codex-oauth.js';
 import type { LlmProviderConfig, LlmSecret } from './llm-client.js';
 import {
+  assertOutboundUrlAllowed,
+  OutboundUrlError,
+} from '../security/outbound-url.js';
+import type { ModelPricing } from '../talks/usage-budgets.js';
+import {
+  CUSTOM_PROVIDER_PRIVATE_HOSTS,
   TALK_EXECUTOR_ANTHROPIC_API_KEY,
   TALK_EXECUTOR_ANTHROPIC_BASE_URL,
 } from '../config.js';
@@ -61,10 +72,14 @@ interface LlmProviderRow {
   response_start_timeout_ms: number | null;
   stream_idle_timeout_ms: number | null;
   absolute_timeout_ms: number | null;
+  workspace_id: string | null;
 }
 
 interface LlmProviderModelRow {
   default_max_output_tokens: number;
+  context_window_tokens: number;
+  input_usd_per_mtok: number | null;
+  output_usd_per_mtok: number | null;
 }
 
 interface LlmProviderSecretRow {
@@ -72,6 +87,9 @@ interface LlmProviderSecretRow {
   credential_kind: 'api_key' | 'subscription';
   encrypted_refresh_token: string | null;
   expires_at: string | null;
+  // Workspace rows only — where a refreshed subscription token is
+  // written back.
+  workspace_id?: string;
 }
 
 type CredentialOrigin = 'personal' | 'workspace';
@@ -87,6 +105,10 @@ export interface ExecutionBinding {
   secret: LlmSecret;
   /** Default output budget configured for this provider/model pair. */
   defaultMaxOutputTokens?: number;
+  /** Context window of the provider/model pair, when it is catalogued. */
+  contextWindowTokens?: number;
+  /** USD per million tokens; null rates mean the model is unpriced. */
+  pricing?: ModelPricing;
 }
 
 export class ExecutionResolverError extends Error {
@@ -124,7 +146,7 @@ export async function resolveExecution(
   const providerRows = await db<LlmProviderRow[]>`
     select id, base_url, api_format, auth_scheme,
            response_start_timeout_ms, stream_idle_timeout_ms,
-           absolute_timeout_ms
+           absolute_timeout_ms, workspace_id
     from public.llm_providers
     where id = ${agent.provider_id}
     limit 1
@@ -139,9 +161,14 @@ export async function resolveExecution(
   }
 
   // --- Step 2: Resolve credentials ---
+  // Keyless custom providers (a local Ollama) carry an empty api_key
+  // secret; buildAuthHeaders sends nothing for auth scheme 'none'.
   const pinnedMode =
     options?.credentialKindSnapshot ?? agent.credential_mode ?? null;
-  const secret = await resolveSecret(agent, db, pinnedMode);
+  const secret: LlmSecret =
+    providerRecord.auth_scheme === 'none'
+      ? { apiKey: '', credentialKind: 'api_key' }
+      : await resolveSecret(agent, db, pinnedMode);
 
   // --- Step 3: Build provider config ---
   // For provider.anthropic, honour the ANTHROPIC_BASE_URL env var override
@@ -152,6 +179,20 @@ export async function resolveExecution(
       ? TALK_EXECUTOR_ANTHROPIC_BASE_URL
       : (providerRecord.base_url ?? '');
 
+  if (providerRecord.workspace_id) {
+    try {
+      await assertOutboundUrlAllowed(baseUrl, {
+        privateHosts: CUSTOM_PROVIDER_PRIVATE_HOSTS,
+      });
+    } catch (err) {
+      if (!(err instanceof OutboundUrlError)) throw err;
+      throw new ExecutionResolverError(
+        `Provider ${agent.provider_id} cannot be called: ${err.message}`,
+        'PROVIDER_URL_BLOCKED',
+      );
+    }
+  }
+
   const providerConfig: LlmProviderConfig = {
     providerId: agent.provider_id,
     baseUrl,
@@ -164,7 +205,9 @@ export async function resolveExecution(
   };
 
   const modelRows = await db<LlmProviderModelRow[]>`
-    select default_max_output_tokens
+    select default_max_output_tokens, context_window_tokens,
+           input_usd_per_mtok::float8 as input_usd_per_mtok,
+           output_usd_per_mtok::float8 as output_usd_per_mtok
     from public.llm_provider_models
     where provider_id = ${agent.provider_id} and model_id = ${agent.model_id}
     limit 1
@@ -174,6 +217,13 @@ export async function resolveExecution(
     providerConfig,
     secret,
     defaultMaxOutputTokens: modelRows[0]?.default_max_output_tokens,
+    contextWindowTokens: modelRows[0]?.context_window_tokens,
+    pricing: modelRows[0]
+      ? {
+          inputUsdPerMtok: modelRows[0].input_usd_per_mtok,
+          outputUsdPerMtok: modelRows[0].output_usd_per_mtok,
+        }
+      : undefined,
   };
 }
 
@@ -202,7 +252,8 @@ export async function isAnthropicDirectHttpReady(): Promise<boolean> {
   const workspaceRows = await db`
     select 1 as one
     from public.workspace_provider_secrets
-    where provider_id = ${'provider.anthropic'}
+    where workspace_id = public.current_workspace_id()
+      and provider_id = ${'provider.anthropic'}
     limit 1
   `;
   return workspaceRows.length > 0;
@@ -240,6 +291,10 @@ async function resolveSecret(
   // is skipped for the 'subscription' pin (env-var is api_key only).
   //
   // Per-user RLS scopes the personal queries to auth.uid() automatically.
+  // Workspace credentials come from the agent's own workspace (migration
+  // 0048): runs execute from the queue with no workspace selected, so
+  // the caller's current workspace would be a guess. Only an agent with
+  // no registered_agents row falls back to it.
   const personalRows = await db<LlmProviderSecretRow[]>`
     select ciphertext, credential_kind, encrypted_refresh_token,
            expires_at::text as expires_at
@@ -265,9 +320,13 @@ async function resolveSecret(
 
   const workspaceRows = await db<LlmProviderSecretRow[]>`
     select ciphertext, credential_kind, encrypted_refresh_token,
-           expires_at::text as expires_at
+           expires_at::text as expires_at, workspace_id
     from public.workspace_provider_secrets
-    where provider_id = ${agent.provider_id}
+    where workspace_id = coalesce(
+            (select workspace_id from public.registered_agents
+             where id::text = ${agent.id}),
+            public.current_workspace_id())
+      and provider_id = ${agent.provider_id}
       and (${pinnedMode}::text is null
            or credential_kind = ${pinnedMode}::text)
     order by case credential_kind
@@ -358,7 +417,11 @@ export async function resolveCredentialKindSnapshot(
   const workspaceRow = await db<Array<{ credential_kind: string }>>`
     select credential_kind
     from public.workspace_provider_secrets
-    where provider_id = ${agent.provider_id}
+    where workspace_id = coalesce(
+            (select workspace_id from public.registered_agents
+             where id::text = ${agent.id}),
+            public.current_workspace_id())
+      and provider_id = ${agent.provider_id}
       and (${pinnedMode}::text is null
            or credential_kind = ${pinnedMode}::text)
     order by case credential_kind
@@ -422,6 +485,7 @@ async function resolveSubscriptionSecret(input: {
     const refreshedAccess = await refreshAndPersist({
       providerId,
       origin,
+      workspaceId: row.workspace_id ?? null,
       encryptedRefreshToken: row.encrypted_refresh_token,
     });
     return { apiKey: refreshedAccess, credentialKind: 'subscription' };
@@ -441,6 +505,7 @@ async function resolveSubscriptionSecret(input: {
 async function refreshAndPersist(input: {
   providerId: string;
   origin: CredentialOrigin;
+  workspaceId: string | null;
   encryptedRefreshToken: string;
 }): Promise<string> {
   const refreshTokenPayload = await decryptProviderSecret(
@@ -466,7 +531,8 @@ async function refreshAndPersist(input: {
           encrypted_refresh_token = ${encryptedRefresh},
           expires_at = ${refreshed.expiresAtIso}::timestamptz,
           updated_at = now()
-      where provider_id = ${input.providerId}
+      where workspace_id = ${input.workspaceId}::uuid
+        and provider_id = ${input.providerId}
         and credential_kind = 'subscription'
     `;
   } else {
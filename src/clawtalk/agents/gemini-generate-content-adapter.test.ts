@@ -0,0 +1,522 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildGeminiRequestBody,
+  createGeminiStreamState,
+  finalizeGeminiStream,
+  GEMINI_LOCAL_CALL_ID_PREFIX,
+  handleGeminiSseEvent,
+  llmMessagesToGeminiContents,
+  llmToolDefinitionsToGemini,
+} from './gemini-generate-content-adapter.js';
+import type {
+  LlmMessage,
+  LlmStreamEvent,
+  LlmToolDefinition,
+} from './llm-client.js';
+
+// Frames as streamGenerateContent?alt=sse sends them: each `data:` line
+// is one full GenerateContentResponse.
+function runFixture(frames: Array<Record<string, unknown>>): LlmStreamEvent[] {
+  const state = createGeminiStreamState();
+  const events: LlmStreamEvent[] = [];
+  for (const frame of frames)
+    events.push(...handleGeminiSseEvent(state, frame));
+  events.push(...finalizeGeminiStream(state));
+  return events;
+}
+
+// ---------------------------------------------------------------------------
+// llmMessagesToGeminiContents
+// ---------------------------------------------------------------------------
+
+describe('llmMessagesToGeminiContents', () => {
+  it('lifts system messages into systemInstruction', () => {
+    const out = llmMessagesToGeminiContents([
+      { role: 'system', content: 'be helpful' },
+      { role: 'system', content: 'be brief' },
+      { role: 'user', content: 'hi' },
+    ]);
+    expect(out).toEqual({
+      systemInstruction: { parts: [{ text: 'be helpful\n\nbe brief' }] },
+      contents: [{ role: 'user', parts: [{ text: 'hi' }] }],
+    });
+  });
+
+  it('maps assistant turns to role model', () => {
+    const out = llmMessagesToGeminiContents([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello' },
+    ]);
+    expect(out.contents).toEqual([
+      { role: 'user', parts: [{ text: 'hi' }] },
+      { role: 'model', parts: [{ text: 'hello' }] },
+    ]);
+  });
+
+  it('sends images and PDFs as inlineData parts', () => {
+    const out = llmMessagesToGeminiContents([
+      {
+        role: 'user',
+        content: [
+          { type: 'document', mimeType: 'application/pdf', data: 'JVBERi0=' },
+          { type: 'image', mimeType: 'image/png', data: 'iVBORw0=' },
+          { type: 'text', text: 'summarize these' },
+        ],
+      },
+    ]);
+    expect(out.contents).toEqual([
+      {
+        role: 'user',
+        parts: [
+          { inlineData: { mimeType: 'application/pdf', data: 'JVBERi0=' } },
+          { inlineData: { mimeType: 'image/png', data: 'iVBORw0=' } },
+          { text: 'summarize these' },
+        ],
+      },
+    ]);
+  });
+
+  it('round-trips a function call with its thought signature and response', () => {
+    const messages: LlmMessage[] = [
+      { role: 'user', content: 'weather?' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'checking' },
+          {
+            type: 'tool_use',
+            id: 'fc_1',
+            name: 'get_weather',
+            input: { city: 'Oslo' },
+          },
+        ],
+        providerData: { geminiThoughtSignatures: { fc_1: 'sig-abc' } },
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool_result',
+            toolUseId: 'fc_1',
+            content: '{"tempC":4}',
+          },
+        ],
+      },
+    ];
+    expect(llmMessagesToGeminiContents(messages).contents).toEqual([
+      { role: 'user', parts: [{ text: 'weather?' }] },
+      {
+        role: 'model',
+        parts: [
+          { text: 'checking' },
+          {
+            functionCall: {
+              id: 'fc_1',
+              name: 'get_weather',
+              args: { city: 'Oslo' },
+            },
+            thoughtSignature: 'sig-abc',
+          },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              id: 'fc_1',
+              name: 'get_weather',
+              response: { tempC: 4 },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('wraps plain-text and error tool results, and omits locally minted ids', () => {
+    const localId = `${GEMINI_LOCAL_CALL_ID_PREFIX}1`;
+    const out = llmMessagesToGeminiContents([
+      {
+        role: 'assistant',
+        content: [
+          { type: 'tool_use', id: localId, name: 'search', input: {} },
+          { type: 'tool_use', id: 'fc_2', name: 'fetch', input: {} },
+        ],
+      },
+      { role: 'tool', toolCallId: localId, content: '3 results' },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool_result',
+            toolUseId: 'fc_2',
+            content: 'timeout',
+            isError: true,
+          },
+        ],
+      },
+    ]);
+    expect(out.contents).toEqual([
+      {
+        role: 'model',
+        parts: [
+          { functionCall: { name: 'search', args: {} } },
+          { functionCall: { id: 'fc_2', name: 'fetch', args: {} } },
+        ],
+      },
+      {
+        // Both responses merge into one user turn.
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              name: 'search',
+              response: { output: '3 results' },
+            },
+          },
+          {
+            functionResponse: {
+              id: 'fc_2',
+              name: 'fetch',
+              response: { error: 'timeout' },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// llmToolDefinitionsToGemini
+// ---------------------------------------------------------------------------
+
+describe('llmToolDefinitionsToGemini', () => {
+  it('returns undefined for no tools', () => {
+    expect(llmToolDefinitionsToGemini(undefined)).toBeUndefined();
+    expect(llmToolDefinitionsToGemini([])).toBeUndefined();
+  });
+
+  it('strips JSON-Schema keywords Gemini rejects, at every depth', () => {
+    const tools: LlmToolDefinition[] = [
+      {
+        name: 'search',
+        description: 'Search the web',
+        inputSchema: {
+          $schema: 'http://json-schema.org/draft-07/schema#',
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            q: { type: 'string' },
+            filters: {
+              type: 'object',
+              additionalProperties: false,
+              properties: { site: { type: 'string' } },
+            },
+          },
+          required: ['q'],
+        },
+      },
+    ];
+    expect(llmToolDefinitionsToGemini(tools)).toEqual([
+      {
+        functionDeclarations: [
+          {
+            name: 'search',
+            description: 'Search the web',
+            parameters: {
+              type: 'object',
+              properties: {
+                q: { type: 'string' },
+                filters: {
+                  type: 'object',
+                  properties: { site: { type: 'string' } },
+                },
+              },
+              required: ['q'],
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('omits parameters for tools without properties', () => {
+    const out = llmToolDefinitionsToGemini([
+      {
+        name: 'now',
+        description: 'Current time',
+        inputSchema: { type: 'object', properties: {} },
+      },
+    ]);
+    expect(out?.[0].functionDeclarations[0]).toEqual({
+      name: 'now',
+      description: 'Current time',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildGeminiRequestBody
+// ---------------------------------------------------------------------------
+
+describe('buildGeminiRequestBody', () => {
+  const tools: LlmToolDefinition[] = [
+    {
+      name: 'search',
+      description: 'Search',
+      inputSchema: { type: 'object', properties: { q: { type: 'string' } } },
+    },
+  ];
+
+  it('sets maxOutputTokens with a 1024 default', () => {
+    const body = buildGeminiRequestBody({
+      messages: [{ role: 'user', content: 'hi' }],
+    });
+    expect(body.generationConfig).toEqual({ maxOutputTokens: 1024 });
+    expect(body.tools).toBeUndefined();
+    expect(body.toolConfig).toBeUndefined();
+    expect(body.systemInstruction).toBeUndefined();
+  });
+
+  it('forces a function call with mode ANY only when tools are present', () => {
+    const forced = buildGeminiRequestBody({
+      messages: [{ role: 'user', content: 'hi' }],
+      tools,
+      maxOutputTokens: 4096,
+      forceToolUse: true,
+    });
+    expect(forced.toolConfig).toEqual({
+      functionCallingConfig: { mode: 'ANY' },
+    });
+    expect(forced.generationConfig.maxOutputTokens).toBe(4096);
+
+    const noTools = buildGeminiRequestBody({
+      messages: [{ role: 'user', content: 'hi' }],
+      forceToolUse: true,
+    });
+    expect(noTools.toolConfig).toBeUndefined();
+  });
+
+  it('asks for a JSON response only when no tools are sent', () => {
+    const responseSchema = {
+      name: 'digest',
+      schema: { type: 'object', properties: { n: { type: 'integer' } } },
+    };
+    const plain = buildGeminiRequestBody({
+      messages: [{ role: 'user', content: 'hi' }],
+      responseSchema,
+    });
+    expect(plain.generationConfig).toEqual({
+      maxOutputTokens: 1024,
+      responseMimeType: 'application/json',
+      responseJsonSchema: responseSchema.schema,
+    });
+
+    const withTools = buildGeminiRequestBody({
+      messages: [{ role: 'user', content: 'hi' }],
+      tools,
+      responseSchema,
+    });
+    expect(withTools.generationConfig).toEqual({ maxOutputTokens: 1024 });
+  });
+
+  it('sends a thinking budget on top of maxOutputTokens', () => {
+    const thinking = buildGeminiRequestBody({
+      messages: [{ role: 'user', content: 'hi' }],
+      reasoning: { effort: 'low' },
+    });
+    expect(thinking.generationConfig).toEqual({
+      maxOutputTokens: 1024 + 2048,
+      thinkingConfig: { thinkingBudget: 2048, includeThoughts: true },
+    });
+
+    const off = buildGeminiRequestBody({
+      messages: [{ role: 'user', content: 'hi' }],
+      reasoning: { effort: 'off' },
+    });
+    expect(off.generationConfig).toEqual({
+      maxOutputTokens: 1024,
+      thinkingConfig: { thinkingBudget: 0 },
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// SSE fixtures
+// ---------------------------------------------------------------------------
+
+describe('handleGeminiSseEvent + finalizeGeminiStream', () => {
+  it('streams text and maps cumulative usage once at the end', () => {
+    const events = runFixture([
+      {
+        candidates: [{ content: { role: 'model', parts: [{ text: 'Hel' }] } }],
+        usageMetadata: { promptTokenCount: 120, candidatesTokenCount: 1 },
+      },
+      {
+        candidates: [
+          {
+            content: { role: 'model', parts: [{ text: 'lo.' }] },
+            finishReason: 'STOP',
+          },
+        ],
+        usageMetadata: {
+          promptTokenCount: 120,
+          cachedContentTokenCount: 100,
+          candidatesTokenCount: 3,
+          thoughtsTokenCount: 40,
+          totalTokenCount: 163,
+        },
+      },
+    ]);
+    expect(events).toEqual([
+      { type: 'text_delta', text: 'Hel' },
+      { type: 'text_delta', text: 'lo.' },
+      {
+        type: 'usage',
+        usage: {
+          inputTokens: 120,
+          cachedInputTokens: 100,
+          outputTokens: 43,
+          reasoningTokens: 40,
+        },
+      },
+      { type: 'done', stopReason: 'stop' },
+    ]);
+  });
+
+  it('streams thought-summary parts as reasoning', () => {
+    const events = runFixture([
+      {
+        candidates: [
+          {
+            content: {
+              role: 'model',
+              parts: [
+                { text: 'Let me think about this.', thought: true },
+                { text: 'Answer.' },
+              ],
+            },
+            finishReason: 'STOP',
+          },
+        ],
+      },
+    ]);
+    expect(events).toEqual([
+      { type: 'reasoning_delta', text: 'Let me think about this.' },
+      { type: 'text_delta', text: 'Answer.' },
+      { type: 'done', stopReason: 'stop' },
+    ]);
+  });
+
+  it('emits whole function calls and their thought signatures', () => {
+    const events = runFixture([
+      {
+        candidates: [
+          {
+            content: {
+              role: 'model',
+              parts: [
+                {
+                  functionCall: {
+                    id: 'fc_1',
+                    name: 'get_weather',
+                    args: { city: 'Oslo' },
+                  },
+                  thoughtSignature: 'sig-abc',
+                },
+              ],
+            },
+            finishReason: 'STOP',
+          },
+        ],
+        usageMetadata: { promptTokenCount: 50, candidatesTokenCount: 12 },
+      },
+    ]);
+    expect(events).toEqual([
+      {
+        type: 'tool_call_start',
+        toolCall: { id: 'fc_1', name: 'get_weather' },
+      },
+      {
+        type: 'tool_call_delta',
+        toolCall: {
+          id: 'fc_1',
+          name: 'get_weather',
+          arguments: '{"city":"Oslo"}',
+        },
+      },
+      {
+        type: 'usage',
+        usage: { inputTokens: 50, cachedInputTokens: 0, outputTokens: 12 },
+      },
+      {
+        type: 'provider_data',
+        providerData: { geminiThoughtSignatures: { fc_1: 'sig-abc' } },
+      },
+      // Gemini says STOP on function-call turns; the tool loop needs
+      // tool_calls to keep going.
+      { type: 'done', stopReason: 'tool_calls' },
+    ]);
+  });
+
+  it('mints a prefixed id when the model omits one', () => {
+    const events = runFixture([
+      {
+        candidates: [
+          {
+            content: {
+              role: 'model',
+              parts: [{ functionCall: { name: 'now', args: {} } }],
+            },
+          },
+        ],
+      },
+    ]);
+    const start = events[0];
+    expect(start.type).toBe('tool_call_start');
+    expect(start.toolCall?.id.startsWith(GEMINI_LOCAL_CALL_ID_PREFIX)).toBe(
+      true,
+    );
+    expect(events[1].toolCall?.id).toBe(start.toolCall?.id);
+  });
+
+  it('maps MAX_TOKENS to length and safety stops to their reason', () => {
+    expect(
+      runFixture([
+        {
+          candidates: [
+            { content: { parts: [{ text: 'a' }] }, finishReason: 'MAX_TOKENS' },
+          ],
+        },
+      ]).at(-1),
+    ).toEqual({ type: 'done', stopReason: 'length' });
+    expect(
+      runFixture([{ candidates: [{ finishReason: 'SAFETY' }] }]).at(-1),
+    ).toEqual({ type: 'done', stopReason: 'safety' });
+  });
+
+  it('reports a blocked prompt as the stop reason', () => {
+    const events = runFixture([
+      {
+        promptFeedback: { blockReason: 'PROHIBITED_CONTENT' },
+        usageMetadata: { promptTokenCount: 9 },
+      },
+    ]);
+    expect(events.at(-1)).toEqual({
+      type: 'done',
+      stopReason: 'blocked_prohibited_content',
+    });
+  });
+
+  it('surfaces an in-stream error frame', () => {
+    const state = createGeminiStreamState();
+    expect(
+      handleGeminiSseEvent(state, {
+        error: { code: 503, message: 'The model is overloaded.' },
+      }),
+    ).toEqual([{ type: 'error', error: 'The model is overloaded.' }]);
+  });
+});
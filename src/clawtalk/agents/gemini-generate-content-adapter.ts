@@ -0,0 +1,581 @@
+/**
+ * gemini-generate-content-adapter.ts
+ *
+ * Format conversion + streaming-event parsing for Google's native
+ * Gemini API (`models/{model}:streamGenerateContent?alt=sse`).
+ *
+ * Gemini used to run through its OpenAI-compatible shim, which drops
+ * native PDF input, thinking configuration and the cached-token count.
+ * The native API shapes things differently enough that this file owns
+ * the translation, the same way codex-responses-adapter.ts does for
+ * the Responses API, so llm-client.ts stays focused on HTTP + SSE.
+ *
+ * Key shape transformations:
+ *
+ *   llm-client LlmMessage[]        ←→ systemInstruction + contents[]
+ *   tool_use / tool_result blocks  ←→ functionCall / functionResponse parts
+ *   image / document blocks        ←→ inlineData parts (base64)
+ *   LlmToolDefinition[]            ←→ tools[].functionDeclarations
+ *   SSE GenerateContentResponse    ←→ LlmStreamEvent generator
+ *   usageMetadata                  ←→ input / cached input / output tokens
+ *
+ * Gemini attaches an opaque `thoughtSignature` to function-call parts
+ * on thinking models and rejects the follow-up request unless the
+ * signature comes back on that same part. The stream surfaces them as
+ * `providerData.geminiThoughtSignatures` (keyed by tool call id) and
+ * the agent loop replays them on the assistant message it sends back.
+ */
+
+import { randomUUID } from 'crypto';
+
+import type {
+  LlmContentBlock,
+  LlmMessage,
+  LlmReasoningConfig,
+  LlmResponseSchema,
+  LlmStreamEvent,
+  LlmToolDefinition,
+} from './llm-client.js';
+import { reasoningBudgetTokens } from './reasoning.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Older Gemini models return function calls without an `id`. We mint
+ * one so the agent loop can pair calls with results, and mark it with
+ * this prefix so it is never sent back to the API as if Gemini had
+ * issued it.
+ */
+export const GEMINI_LOCAL_CALL_ID_PREFIX = 'gemini_call_';
+
+/**
+ * JSON-Schema keywords Gemini's `Schema` object rejects with a 400.
+ * Tool schemas come from our own registry and MCP servers, so strip
+ * these rather than trusting every schema to be Gemini-clean.
+ */
+const UNSUPPORTED_SCHEMA_KEYS: ReadonlySet<string> = new Set([
+  '$schema',
+  '$id',
+  '$comment',
+  'additionalProperties',
+]);
+
+// ============================================================================
+// Public types
+// ============================================================================
+
+export type GeminiPart =
+  | { text: string; thought?: boolean; thoughtSignature?: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | {
+      functionCall: {
+        id?: string;
+        name: string;
+        args: Record<string, unknown>;
+      };
+      thoughtSignature?: string;
+    }
+  | {
+      functionResponse: {
+        id?: string;
+        name: string;
+        response: Record<string, unknown>;
+      };
+    };
+
+export interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface GeminiRequestBody {
+  contents: GeminiContent[];
+  systemInstruction?: { parts: Array<{ text: string }> };
+  tools?: Array<{ functionDeclarations: GeminiFunctionDeclaration[] }>;
+  toolConfig?: {
+    functionCallingConfig: { mode: 'AUTO' | 'ANY' };
+  };
+  generationConfig: {
+    maxOutputTokens: number;
+    responseMimeType?: 'application/json';
+    responseJsonSchema?: Record<string, unknown>;
+    thinkingConfig?: { thinkingBudget: number; includeThoughts?: boolean };
+  };
+}
+
+export interface GeminiBuildOptions {
+  messages: LlmMessage[];
+  tools?: LlmToolDefinition[];
+  maxOutputTokens?: number;
+  forceToolUse?: boolean;
+  responseSchema?: LlmResponseSchema;
+  reasoning?: LlmReasoningConfig;
+}
+
+export interface GeminiUsage {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningTokens?: number;
+}
+
+// ============================================================================
+// Request building
+// ============================================================================
+
+function isLocalCallId(id: string): boolean {
+  return id.startsWith(GEMINI_LOCAL_CALL_ID_PREFIX);
+}
+
+function toInlineDataPart(mimeType: string, data: string): GeminiPart {
+  return { inlineData: { mimeType, data } };
+}
+
+function parseToolArgs(input: unknown): Record<string, unknown> {
+  return input && typeof input === 'object' && !Array.isArray(input)
+    ? (input as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Gemini's functionResponse.response must be a JSON object. Tool
+ * results are strings; JSON objects pass through, everything else is
+ * wrapped so the model still sees the exact text.
+ */
+function toFunctionResponsePayload(
+  content: string,
+  isError: boolean,
+): Record<string, unknown> {
+  if (isError) return { error: content };
+  try {
+    const parsed = JSON.parse(content) as unknown;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Plain-text tool output; wrap it below.
+  }
+  return { output: content };
+}
+
+/** Recursively drop JSON-Schema keywords the Gemini API rejects. */
+export function sanitizeGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(sanitizeGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(
+    schema as Record<string, unknown>,
+  )) {
+    if (UNSUPPORTED_SCHEMA_KEYS.has(key)) continue;
+    if (key === 'properties' && value && typeof value === 'object') {
+      // Property names are user data, not keywords — keep every name.
+      out[key] = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, prop]) => [
+          name,
+          sanitizeGeminiSchema(prop),
+        ]),
+      );
+      continue;
+    }
+    out[key] = sanitizeGeminiSchema(value);
+  }
+  return out;
+}
+
+export function llmToolDefinitionsToGemini(
+  tools: LlmToolDefinition[] | undefined,
+): GeminiRequestBody['tools'] {
+  if (!tools || tools.length === 0) return undefined;
+  return [
+    {
+      functionDeclarations: tools.map((tool) => {
+        const parameters = sanitizeGeminiSchema(tool.inputSchema) as Record<
+          string,
+          unknown
+        >;
+        // An object schema with no properties is a 400 on Gemini;
+        // parameter-less tools omit `parameters` entirely.
+        const hasProperties =
+          parameters.properties &&
+          typeof parameters.properties === 'object' &&
+          Object.keys(parameters.properties).length > 0;
+        return {
+          name: tool.name,
+          description: tool.description,
+          ...(hasProperties ? { parameters } : {}),
+        };
+      }),
+    },
+  ];
+}
+
+/**
+ * Convert LlmMessage[] into Gemini `contents` plus a top-level
+ * `systemInstruction`.
+ *
+ * - system messages are concatenated into systemInstruction
+ * - assistant messages become role 'model'; tool_use blocks become
+ *   functionCall parts carrying any replayed thoughtSignature
+ * - tool messages become role 'user' functionResponse parts. Gemini
+ *   keys responses by function name, so the name is looked up from the
+ *   assistant tool_use block with the matching id.
+ * - consecutive turns with the same role are merged; Gemini expects
+ *   every functionResponse for one model turn in a single content.
+ */
+export function llmMessagesToGeminiContents(messages: LlmMessage[]): {
+  systemInstruction?: GeminiRequestBody['systemInstruction'];
+  contents: GeminiContent[];
+} {
+  const systemParts: string[] = [];
+  const contents: GeminiContent[] = [];
+  const toolNamesById = new Map<string, string>();
+
+  const push = (role: GeminiContent['role'], parts: GeminiPart[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  const functionResponsePart = (
+    toolCallId: string,
+    content: string,
+    isError: boolean,
+  ): GeminiPart => ({
+    functionResponse: {
+      ...(toolCallId && !isLocalCallId(toolCallId) ? { id: toolCallId } : {}),
+      name: toolNamesById.get(toolCallId) ?? 'unknown_tool',
+      response: toFunctionResponsePayload(content, isError),
+    },
+  });
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      const text = contentToText(msg.content);
+      if (text) systemParts.push(text);
+      continue;
+    }
+
+    if (msg.role === 'assistant') {
+      const signatures = msg.providerData?.geminiThoughtSignatures ?? {};
+      const parts: GeminiPart[] = [];
+      if (typeof msg.content === 'string') {
+        if (msg.content) parts.push({ text: msg.content });
+      } else {
+        for (const block of msg.content) {
+          if (block.type === 'text' && block.text) {
+            parts.push({ text: block.text });
+          } else if (block.type === 'tool_use') {
+            toolNamesById.set(block.id, block.name);
+            const signature = signatures[block.id];
+            parts.push({
+              functionCall: {
+                ...(isLocalCallId(block.id) ? {} : { id: block.id }),
+                name: block.name,
+                args: parseToolArgs(block.input),
+              },
+              ...(signature ? { thoughtSignature: signature } : {}),
+            });
+          }
+        }
+      }
+      push('model', parts);
+      continue;
+    }
+
+    if (msg.role === 'tool') {
+      const parts: GeminiPart[] = [];
+      if (typeof msg.content === 'string') {
+        parts.push(
+          functionResponsePart(msg.toolCallId || '', msg.content, false),
+        );
+      } else {
+        for (const block of msg.content) {
+          if (block.type === 'tool_result') {
+            parts.push(
+              functionResponsePart(
+                block.toolUseId,
+                block.content,
+                block.isError === true,
+              ),
+            );
+          }
+        }
+      }
+      push('user', parts);
+      continue;
+    }
+
+    push('user', userContentToParts(msg.content));
+  }
+
+  return {
+    ...(systemParts.length > 0
+      ? { systemInstruction: { parts: [{ text: systemParts.join('\n\n') }] } }
+      : {}),
+    contents,
+  };
+}
+
+function contentToText(content: string | LlmContentBlock[]): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter(
+      (block): block is Extract<LlmContentBlock, { type: 'text' }> =>
+        block.type === 'text',
+    )
+    .map((block) => block.text)
+    .join('');
+}
+
+function userContentToParts(content: string | LlmContentBlock[]): GeminiPart[] {
+  if (typeof content === 'string') return content ? [{ text: content }] : [];
+  const parts: GeminiPart[] = [];
+  for (const block of content) {
+    if (block.type === 'text') {
+      if (block.text) parts.push({ text: block.text });
+    } else if (block.type === 'image' || block.type === 'document') {
+      // Gemini takes images and PDFs the same way: base64 inlineData
+      // with the real MIME type. Document titles have no slot.
+      parts.push(toInlineDataPart(block.mimeType, block.data));
+    }
+  }
+  return parts;
+}
+
+export function buildGeminiRequestBody(
+  options: GeminiBuildOptions,
+): GeminiRequestBody {
+  const { systemInstruction, contents } = llmMessagesToGeminiContents(
+    options.messages,
+  );
+  const tools = llmToolDefinitionsToGemini(options.tools);
+  const thinkingBudget = options.reasoning
+    ? reasoningBudgetTokens(options.reasoning)
+    : 0;
+  return {
+    contents,
+    ...(systemInstruction ? { systemInstruction } : {}),
+    ...(tools ? { tools } : {}),
+    // mode ANY is Gemini's tool_choice=required. Only emitted with
+    // tools registered — functionCallingConfig without tools is a 400.
+    ...(tools && options.forceToolUse
+      ? { toolConfig: { functionCallingConfig: { mode: 'ANY' as const } } }
+      : {}),
+    generationConfig: {
+      // Thinking tokens count against maxOutputTokens, so the reply
+      // keeps its own allowance on top of the budget.
+      maxOutputTokens: (options.maxOutputTokens || 1024) + thinkingBudget,
+      // Gemini 2.x rejects a JSON response MIME type alongside function
+      // calling, so a tool-using turn relies on the prompt instruction
+      // and the router's validation instead.
+      ...(options.responseSchema && !tools
+        ? {
+            responseMimeType: 'application/json' as const,
+            responseJsonSchema: options.responseSchema.schema,
+          }
+        : {}),
+      // A zero budget switches thinking off; otherwise ask for thought
+      // summaries so they can stream as reasoning.
+      ...(options.reasoning
+        ? {
+            thinkingConfig:
+              thinkingBudget > 0
+                ? { thinkingBudget, includeThoughts: true }
+                : { thinkingBudget: 0 },
+          }
+        : {}),
+    },
+  };
+}
+
+// ============================================================================
+// SSE event handling
+// ============================================================================
+
+/**
+ * Mutable accumulator for the streamGenerateContent SSE stream. Hand
+ * each parsed-JSON frame to `handleGeminiSseEvent`; when the stream
+ * ends, `finalizeGeminiStream` yields the usage, provider_data and
+ * done events.
+ */
+export interface GeminiStreamState {
+  toolCallCount: number;
+  thoughtSignatures: Record<string, string>;
+  finishReason: string | null;
+  blockReason: string | null;
+  usage: GeminiUsage | null;
+}
+
+export function createGeminiStreamState(): GeminiStreamState {
+  return {
+    toolCallCount: 0,
+    thoughtSignatures: {},
+    finishReason: null,
+    blockReason: null,
+    usage: null,
+  };
+}
+
+/**
+ * Gemini reports input tokens inclusive of the cached prefix, and
+ * bills thinking tokens as output, so both are folded in here. The
+ * thinking share is also kept apart as `reasoningTokens`.
+ */
+export function mapGeminiUsage(raw: Record<string, unknown>): GeminiUsage {
+  const count = (key: string): number => {
+    const value = raw[key];
+    return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+  };
+  return {
+    inputTokens: count('promptTokenCount'),
+    cachedInputTokens: count('cachedContentTokenCount'),
+    outputTokens: count('candidatesTokenCount') + count('thoughtsTokenCount'),
+    ...(typeof raw.thoughtsTokenCount === 'number'
+      ? { reasoningTokens: count('thoughtsTokenCount') }
+      : {}),
+  };
+}
+
+/**
+ * Process one GenerateContentResponse frame, returning the
+ * LlmStreamEvents to forward. Every frame carries a slice of the
+ * candidate's parts; function calls arrive whole (never split across
+ * frames), so each one is emitted as start + full arguments.
+ * usageMetadata is cumulative and only the last value is kept.
+ */
+export function handleGeminiSseEvent(
+  state: GeminiStreamState,
+  payload: Record<string, unknown>,
+): LlmStreamEvent[] {
+  const events: LlmStreamEvent[] = [];
+
+  const error = payload.error;
+  if (error && typeof error === 'object') {
+    const message = (error as { message?: unknown }).message;
+    events.push({
+      type: 'error',
+      error:
+        typeof message === 'string' && message
+          ? message
+          : 'Gemini streaming request failed.',
+    });
+    return events;
+  }
+
+  const feedback = payload.promptFeedback;
+  if (feedback && typeof feedback === 'object') {
+    const blockReason = (feedback as { blockReason?: unknown }).blockReason;
+    if (typeof blockReason === 'string' && blockReason) {
+      state.blockReason = blockReason;
+    }
+  }
+
+  const usage = payload.usageMetadata;
+  if (usage && typeof usage === 'object') {
+    state.usage = mapGeminiUsage(usage as Record<string, unknown>);
+  }
+
+  const candidates = Array.isArray(payload.candidates)
+    ? payload.candidates
+    : [];
+  const candidate = candidates[0] as Record<string, unknown> | undefined;
+  if (!candidate) return events;
+
+  if (typeof candidate.finishReason === 'string' && candidate.finishReason) {
+    state.finishReason = candidate.finishReason;
+  }
+
+  const content = candidate.content as { parts?: unknown } | undefined;
+  const parts = Array.isArray(content?.parts) ? content.parts : [];
+  for (const rawPart of parts) {
+    if (!rawPart || typeof rawPart !== 'object') continue;
+    const part = rawPart as Record<string, unknown>;
+
+    const functionCall = part.functionCall as
+      { id?: unknown; name?: unknown; args?: unknown } | undefined;
+    if (functionCall && typeof functionCall === 'object') {
+      state.toolCallCount += 1;
+      const id =
+        typeof functionCall.id === 'string' && functionCall.id
+          ? functionCall.id
+          : `${GEMINI_LOCAL_CALL_ID_PREFIX}${randomUUID()}`;
+      const name =
+        typeof functionCall.name === 'string' && functionCall.name
+          ? functionCall.name
+          : 'unknown_tool';
+      if (typeof part.thoughtSignature === 'string' && part.thoughtSignature) {
+        state.thoughtSignatures[id] = part.thoughtSignature;
+      }
+      events.push({ type: 'tool_call_start', toolCall: { id, name } });
+      events.push({
+        type: 'tool_call_delta',
+        toolCall: {
+          id,
+          name,
+          arguments: JSON.stringify(parseToolArgs(functionCall.args)),
+        },
+      });
+      continue;
+    }
+
+    // Thought summaries (part.thought === true) are the model's
+    // reasoning, not its answer.
+    if (typeof part.text === 'string' && part.text) {
+      events.push({
+        type: part.thought === true ? 'reasoning_delta' : 'text_delta',
+        text: part.text,
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Map Gemini's finishReason onto the agent loop's vocabulary: a turn
+ * with function calls is `tool_calls`, MAX_TOKENS is `length`, STOP is
+ * `stop`. Safety and recitation stops are passed through lowercased so
+ * the run ends as incomplete with the real reason recorded.
+ */
+export function mapGeminiFinishReason(state: GeminiStreamState): string {
+  if (state.toolCallCount > 0) return 'tool_calls';
+  if (state.blockReason) return `blocked_${state.blockReason.toLowerCase()}`;
+  switch (state.finishReason) {
+    case 'STOP':
+    case null:
+      return 'stop';
+    case 'MAX_TOKENS':
+      return 'length';
+    default:
+      return state.finishReason.toLowerCase();
+  }
+}
+
+export function finalizeGeminiStream(
+  state: GeminiStreamState,
+): LlmStreamEvent[] {
+  const events: LlmStreamEvent[] = [];
+  if (state.usage) {
+    events.push({ type: 'usage', usage: state.usage });
+  }
+  if (Object.keys(state.thoughtSignatures).length > 0) {
+    events.push({
+      type: 'provider_data',
+      providerData: { geminiThoughtSignatures: state.thoughtSignatures },
+    });
+  }
+  events.push({ type: 'done', stopReason: mapGeminiFinishReason(state) });
+  return events;
+}
@@ -9,6 +9,7 @@ import {
   isCloudflareBotBlock,
   type LlmMessage,
   type LlmProviderConfig,
+  STRUCTURED_OUTPUT_TOOL_NAME,
 } from './llm-client.js';
 
 // A representative Cloudflare managed-challenge interstitial — the body
@@ -385,6 +386,23 @@ describe('fetchWithUpstreamRetry', () => {
     vi.unstubAllGlobals();
   });
 
+  it('does not follow redirects', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(makeResponse(302));
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+    const res = await fetchWithUpstreamRetry(
+      'https://example/x',
+      { method: 'POST' },
+      controller.signal,
+    );
+    expect(res.status).toBe(302);
+    expect(fetchMock).toHaveBeenCalledWith('https://example/x', {
+      method: 'POST',
+      redirect: 'manual',
+    });
+    vi.unstubAllGlobals();
+  });
+
   it('returns the second response even when it also fails (retries are one-shot)', async () => {
     const fetchMock = vi
       .fn()
@@ -493,3 +511,295 @@ describe('buildAnthropicRequest — document blocks', () => {
     expect('cache_control' in block).toBe(false);
   });
 });
+
+describe('response schemas', () => {
+  const responseSchema = {
+    name: 'digest',
+    schema: { type: 'object', properties: { n: { type: 'integer' } } },
+  };
+  const tools = [
+    {
+      name: 'search',
+      description: 'x',
+      inputSchema: { type: 'object', properties: {} },
+    },
+  ];
+
+  it('sets an OpenAI json_schema response_format', () => {
+    const req = buildOpenAiRequest(
+      openaiProvider,
+      'gpt-5-mini',
+      messages,
+      undefined,
+      1024,
+      false,
+      responseSchema,
+    );
+    expect(req.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'digest', schema: responseSchema.schema },
+    });
+  });
+
+  it('forces the Anthropic structured-output tool when there are no other tools', () => {
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      messages,
+      undefined,
+      1024,
+      'api_key',
+      false,
+      responseSchema,
+    );
+    expect(req.tools).toEqual([
+      expect.objectContaining({
+        name: STRUCTURED_OUTPUT_TOOL_NAME,
+        input_schema: responseSchema.schema,
+      }),
+    ]);
+    expect(req.tool_choice).toEqual({
+      type: 'tool',
+      name: STRUCTURED_OUTPUT_TOOL_NAME,
+    });
+  });
+
+  it('requires some Anthropic tool call when real tools are present', () => {
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      messages,
+      tools,
+      1024,
+      'api_key',
+      false,
+      responseSchema,
+    );
+    expect(req.tools?.map((tool) => tool.name)).toEqual([
+      'search',
+      STRUCTURED_OUTPUT_TOOL_NAME,
+    ]);
+    expect(req.tool_choice).toEqual({ type: 'any' });
+  });
+});
+
+describe('reasoning controls', () => {
+  it('sends an Anthropic thinking budget on top of max_tokens', () => {
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      messages,
+      undefined,
+      1024,
+      'api_key',
+      false,
+      undefined,
+      { effort: 'medium' },
+    );
+    expect(req.thinking).toEqual({ type: 'enabled', budget_tokens: 8192 });
+    expect(req.max_tokens).toBe(1024 + 8192);
+  });
+
+  it('drops the forced Anthropic tool choice while thinking', () => {
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      messages,
+      [
+        {
+          name: 'search',
+          description: 'x',
+          inputSchema: { type: 'object', properties: {} },
+        },
+      ],
+      1024,
+      'api_key',
+      true,
+      undefined,
+      { effort: 'high', budgetTokens: 4000 },
+    );
+    expect(req.thinking).toEqual({ type: 'enabled', budget_tokens: 4000 });
+    expect(req.tool_choice).toBeUndefined();
+  });
+
+  it('replays signed thinking blocks ahead of assistant tool calls', () => {
+    const thinking = { type: 'thinking', thinking: 'Plan', signature: 'sig' };
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      [
+        { role: 'user', content: 'hi' },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 't1', name: 'search', input: {} }],
+          providerData: { anthropicThinkingBlocks: [thinking] },
+        },
+      ],
+      undefined,
+      1024,
+      'api_key',
+      false,
+      undefined,
+      { effort: 'low' },
+    );
+    expect(req.messages[1].content[0]).toEqual(thinking);
+    expect(req.messages[1].content[1]).toMatchObject({ type: 'tool_use' });
+  });
+
+  it('leaves thinking off when the agent turns reasoning off', () => {
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      messages,
+      undefined,
+      1024,
+      'api_key',
+      false,
+      undefined,
+      { effort: 'off' },
+    );
+    expect(req.thinking).toBeUndefined();
+    expect(req.max_tokens).toBe(1024);
+  });
+
+  it('maps effort onto OpenAI reasoning_effort', () => {
+    const high = buildOpenAiRequest(
+      openaiProvider,
+      'gpt-5-mini',
+      messages,
+      undefined,
+      1024,
+      false,
+      undefined,
+      { effort: 'high' },
+    );
+    expect(high.reasoning_effort).toBe('high');
+    const off = buildOpenAiRequest(
+      openaiProvider,
+      'gpt-5-mini',
+      messages,
+      undefined,
+      1024,
+      false,
+      undefined,
+      { effort: 'off' },
+    );
+    expect(off.reasoning_effort).toBe('minimal');
+  });
+});
+
+describe('prompt caching', () => {
+  const searchTool = {
+    name: 'search',
+    description: 'x',
+    inputSchema: { type: 'object', properties: {} },
+  };
+  const cachedSystem: LlmMessage = {
+    role: 'system',
+    content: [
+      { type: 'text', text: 'Goal and rules', cacheControl: 'ephemeral_1h' },
+      { type: 'text', text: '\n\nRole hint' },
+    ],
+  };
+
+  it('sends Anthropic system blocks when the system prompt carries a breakpoint', () => {
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      [cachedSystem, ...messages],
+      [{ ...searchTool, cacheControl: 'ephemeral_1h' }],
+      1024,
+    );
+    expect(req.system).toEqual([
+      {
+        type: 'text',
+        text: 'Goal and rules',
+        cache_control: { type: 'ephemeral', ttl: '1h' },
+      },
+      { type: 'text', text: '\n\nRole hint' },
+    ]);
+    expect(req.tools?.[0].cache_control).toEqual({
+      type: 'ephemeral',
+      ttl: '1h',
+    });
+  });
+
+  it('keeps the plain system string without a breakpoint', () => {
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      [{ role: 'system', content: 'Be brief.' }, ...messages],
+      [searchTool],
+      1024,
+    );
+    expect(req.system).toBe('Be brief.');
+    expect(req.tools?.[0]).not.toHaveProperty('cache_control');
+  });
+
+  it('appends cached system blocks after the subscription identity block', () => {
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      [cachedSystem, ...messages],
+      undefined,
+      1024,
+      'subscription',
+    );
+    const system = req.system as Array<Record<string, unknown>>;
+    expect(system).toHaveLength(3);
+    expect(system[1]).toMatchObject({
+      text: 'Goal and rules',
+      cache_control: { type: 'ephemeral', ttl: '1h' },
+    });
+  });
+
+  it('marks Anthropic text and tool_result breakpoints', () => {
+    const req = buildAnthropicRequest(
+      'claude-sonnet-4-6',
+      [
+        {
+          role: 'user',
+          content: [{ type: 'text', text: 'hi', cacheControl: 'ephemeral' }],
+        },
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool_result',
+              toolUseId: 't1',
+              content: 'ok',
+              cacheControl: 'ephemeral',
+            },
+          ],
+        },
+      ],
+      undefined,
+      1024,
+    );
+    const blocks = req.messages.flatMap(
+      (message) => message.content as Array<Record<string, unknown>>,
+    );
+    expect(blocks.map((block) => block.cache_control)).toEqual([
+      { type: 'ephemeral' },
+      { type: 'ephemeral' },
+    ]);
+  });
+
+  it('sends prompt_cache_key to OpenAI only', () => {
+    const openai = buildOpenAiRequest(
+      openaiProvider,
+      'gpt-5-mini',
+      messages,
+      undefined,
+      1024,
+      false,
+      undefined,
+      undefined,
+      'talk:abc',
+    );
+    expect(openai.prompt_cache_key).toBe('talk:abc');
+    const nvidia = buildOpenAiRequest(
+      nvidiaProvider,
+      'moonshotai/kimi-k2-instruct',
+      messages,
+      undefined,
+      1024,
+      false,
+      undefined,
+      undefined,
+      'talk:abc',
+    );
+    expect(nvidia).not.toHaveProperty('prompt_cache_key');
+  });
+});
@@ -2,7 +2,8 @@
  * llm-client.ts
  *
  * Provider-agnostic LLM client abstraction for streaming and non-streaming calls.
- * Supports Anthropic Messages API and OpenAI Chat Completions API via raw fetch.
+ * Supports Anthropic Messages, OpenAI Chat Completions, Codex Responses and
+ * Gemini generateContent via raw fetch.
  *
  * Key features:
  * - SSE streaming with proper timeout management
@@ -16,6 +17,7 @@ import { randomUUID } from 'crypto';
 
 import {
   ANTHROPIC_CLAUDE_CODE_VERSION,
+  ANTHROPIC_COMMON_BETAS,
   ANTHROPIC_OAUTH_BETAS,
   buildClaudeCodeSystemBlocks,
 } from '../llm/anthropic-oauth.js';
@@ -27,10 +29,17 @@ import {
   handleCodexSseEvent,
   preflightCodexRequestBody,
 } from './codex-responses-adapter.js';
+import {
+  buildGeminiRequestBody,
+  createGeminiStreamState,
+  finalizeGeminiStream,
+  handleGeminiSseEvent,
+} from './gemini-generate-content-adapter.js';
 import {
   computeAdaptiveResponseStartTimeout,
   recordTtftObservation,
 } from './llm-timeout-stats.js';
+import { reasoningBudgetTokens } from './reasoning.js';
 
 // =============================================================================
 // TYPE DEFINITIONS
@@ -39,8 +48,9 @@ import {
 export type LlmApiFormat =
   | 'anthropic_messages'
   | 'openai_chat_completions'
-  | 'codex_responses';
-export type LlmAuthScheme = 'x_api_key' | 'bearer';
+  | 'codex_responses'
+  | 'gemini_generate_content';
+export type LlmAuthScheme = 'x_api_key' | 'bearer' | 'none';
 
 export interface LlmProviderConfig {
   providerId?: string;
@@ -67,6 +77,50 @@ export interface LlmToolDefinition {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  /**
+   * Prompt-cache breakpoint after this tool (Anthropic only). Set by
+   * the caching planner on the last tool so the whole tool list is
+   * cached; see prompt-cache-planner.ts.
+   */
+  cacheControl?: LlmCacheControl;
+}
+
+/**
+ * Anthropic prompt-cache breakpoint TTL: 'ephemeral' is the 5-minute
+ * default, 'ephemeral_1h' the one-hour cache.
+ */
+export type LlmCacheControl = 'ephemeral' | 'ephemeral_1h';
+
+/**
+ * A JSON schema the final assistant reply must match. Each request
+ * builder maps it to the provider's native structured-output control:
+ * OpenAI `response_format`, Codex `text.format`, Gemini
+ * `responseJsonSchema`, and on Anthropic a forced synthetic tool whose
+ * input is the reply. Validation against the schema happens in the
+ * agent router (see structured-output.ts) whichever way it was sent.
+ */
+export interface LlmResponseSchema {
+  name: string;
+  description?: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Name of the synthetic tool that carries a structured reply on the
+ * Anthropic path. Its call is re-emitted as text, so callers never see
+ * it as a tool call.
+ */
+export const STRUCTURED_OUTPUT_TOOL_NAME = 'structured_output';
+
+/**
+ * Reasoning requested for a call, from the agent's setting (see
+ * reasoning.ts). Anthropic and Gemini take a thinking budget —
+ * `budgetTokens` when set, else the effort's default; OpenAI and Codex
+ * take the effort level.
+ */
+export interface LlmReasoningConfig {
+  effort: 'off' | 'low' | 'medium' | 'high';
+  budgetTokens?: number;
 }
 
 export interface LlmMessage {
@@ -82,15 +136,26 @@ export interface LlmMessage {
    * message items captured from the prior turn's `response.output`,
    * stashed in `talk_messages.metadata_json` and re-threaded into
    * subsequent requests. See agents/codex-responses-adapter.ts.
+   *
+   * For the gemini_generate_content path: the thoughtSignature Gemini
+   * attached to each function call, keyed by tool call id, replayed on
+   * the matching functionCall part within the tool loop. See
+   * agents/gemini-generate-content-adapter.ts.
+   *
+   * For the anthropic_messages path: the signed thinking blocks that
+   * preceded a tool call, which Anthropic requires back on that
+   * assistant turn while thinking is enabled.
    */
   providerData?: {
     codexReasoningItems?: Array<Record<string, unknown>>;
     codexMessageItems?: Array<Record<string, unknown>>;
+    geminiThoughtSignatures?: Record<string, string>;
+    anthropicThinkingBlocks?: Array<Record<string, unknown>>;
   };
 }
 
 export type LlmContentBlock =
-  | { type: 'text'; text: string }
+  | { type: 'text'; text: string; cacheControl?: LlmCacheControl }
   | {
       type: 'image';
       mimeType: string;
@@ -102,9 +167,10 @@ export type LlmContentBlock =
        * Native PDF document input. Anthropic emits this as a
        * `{type:'document', source:{type:'base64', media_type, data}}`
        * block; Codex Responses emits it as an `input_file` with inline
-       * base64 `file_data`. Providers without native PDF support drop
-       * these blocks defensively (the loader should filter them out
-       * via `agentSupportsDocuments` before they reach the client).
+       * base64 `file_data`; Gemini as an `inlineData` part. Providers
+       * without native PDF support drop these blocks defensively (the
+       * loader should filter them out via `agentSupportsDocuments`
+       * before they reach the client).
        */
       type: 'document';
       mimeType: string;
@@ -114,9 +180,10 @@ export type LlmContentBlock =
        * When set, the executor requests a prompt-cache breakpoint at
        * this block (Anthropic only). Document blocks should be placed
        * before the user's per-turn text so the cache key includes the
-       * stable PDF and excludes the varying text.
+       * stable PDF and excludes the varying text. The prompt-cache
+       * planner keeps only the last such mark in a request.
        */
-      cacheControl?: 'ephemeral' | 'ephemeral_1h';
+      cacheControl?: LlmCacheControl;
     }
   | { type: 'tool_use'; id: string; name: string; input: unknown }
   | {
@@ -124,6 +191,7 @@ export type LlmContentBlock =
       toolUseId: string;
       content: string;
       isError?: boolean;
+      cacheControl?: LlmCacheControl;
     };
 
 export interface LlmStreamEvent {
@@ -131,10 +199,12 @@ export interface LlmStreamEvent {
     | 'text_delta'
     | 'tool_call_start'
     | 'tool_call_delta'
+    | 'reasoning_delta'
     | 'usage'
     | 'done'
     | 'error'
     | 'provider_data';
+  /** Reply text, or reasoning summary text on `reasoning_delta`. */
   text?: string;
   toolCall?: {
     id: string;
@@ -142,7 +212,18 @@ export interface LlmStreamEvent {
     argumentsDelta?: string;
     arguments?: string;
   };
-  usage?: { inputTokens: number; outputTokens: number };
+  /**
+   * `inputTokens` includes any cached prefix; `cachedInputTokens` is the
+   * cached share, reported by providers that expose it. Likewise
+   * `outputTokens` includes thinking, and `reasoningTokens` is the
+   * thinking share where the provider breaks it out.
+   */
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens?: number;
+    reasoningTokens?: number;
+  };
   stopReason?: string;
   error?: string;
   /**
@@ -150,11 +231,15 @@ export interface LlmStreamEvent {
    * assistant message (talk_messages.metadata_json) so the next turn
    * can replay them. Currently used by the codex_responses path to
    * carry forward encrypted reasoning items + assistant message
-   * items for prefix-cache + chain-of-thought continuity.
+   * items for prefix-cache + chain-of-thought continuity, and by the
+   * gemini_generate_content path for function-call thought signatures,
+   * and by the anthropic_messages path for signed thinking blocks.
    */
   providerData?: {
     codexReasoningItems?: Array<Record<string, unknown>>;
     codexMessageItems?: Array<Record<string, unknown>>;
+    geminiThoughtSignatures?: Record<string, string>;
+    anthropicThinkingBlocks?: Array<Record<string, unknown>>;
   };
 }
 
@@ -165,7 +250,12 @@ export interface LlmResponse {
     name: string;
     arguments: Record<string, unknown>;
   }>;
-  usage: { inputTokens: number; outputTokens: number };
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens?: number;
+    reasoningTokens?: number;
+  };
   stopReason: string;
 }
 
@@ -207,7 +297,7 @@ interface AnthropicMessage {
 type AnthropicCacheControl = { type: 'ephemeral'; ttl?: '5m' | '1h' };
 
 type AnthropicContent =
-  | { type: 'text'; text: string }
+  | { type: 'text'; text: string; cache_control?: AnthropicCacheControl }
   | {
       type: 'image';
       source: {
@@ -237,12 +327,34 @@ type AnthropicContent =
       tool_use_id: string;
       content: string;
       is_error?: boolean;
-    };
+      cache_control?: AnthropicCacheControl;
+    }
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string };
 
 interface AnthropicToolDefinition {
   name: string;
   description: string;
   input_schema: Record<string, unknown>;
+  cache_control?: AnthropicCacheControl;
+}
+
+type AnthropicSystemBlock = {
+  type: 'text';
+  text: string;
+  cache_control?: AnthropicCacheControl;
+};
+
+function toAnthropicCacheControl(
+  cacheControl: LlmCacheControl | undefined,
+): { cache_control: AnthropicCacheControl } | Record<string, never> {
+  if (!cacheControl) return {};
+  return {
+    cache_control:
+      cacheControl === 'ephemeral_1h'
+        ? { type: 'ephemeral', ttl: '1h' }
+        : { type: 'ephemeral' },
+  };
 }
 
 // =============================================================================
@@ -332,7 +444,7 @@ export function buildAuthHeaders(
   provider: LlmProviderConfig,
   secret: LlmSecret | null,
 ): Record<string, string> {
-  if (!secret) return {};
+  if (!secret || provider.authScheme === 'none') return {};
 
   const headers: Record<string, string> = {};
   if (secret.credentialKind === 'subscription') {
@@ -546,30 +658,62 @@ export function buildAnthropicRequest(
   maxOutputTokens: number | undefined,
   credentialKind: 'api_key' | 'subscription' = 'api_key',
   forceToolUse: boolean = false,
+  responseSchema?: LlmResponseSchema,
+  reasoning?: LlmReasoningConfig,
 ): {
   model: string;
   max_tokens: number;
-  system?: string | Array<{ type: 'text'; text: string }>;
+  system?: string | AnthropicSystemBlock[];
   messages: AnthropicMessage[];
   tools?: AnthropicToolDefinition[];
-  tool_choice?: { type: 'any' } | { type: 'auto' };
+  tool_choice?:
+    { type: 'any' } | { type: 'auto' } | { type: 'tool'; name: string };
+  thinking?: { type: 'enabled'; budget_tokens: number };
   stream: boolean;
 } {
-  let systemText = '';
+  // System text is kept as blocks so a cache breakpoint can split the
+  // stable prefix from the per-run tail; the text is the same either way.
+  const systemBlocks: AnthropicSystemBlock[] = [];
   const conversationMessages: AnthropicMessage[] = [];
 
   for (const msg of messages) {
     if (msg.role === 'system') {
-      const plainText = contentToPlainText(msg.content);
-      systemText += (systemText ? '\n\n' : '') + plainText;
+      const textBlocks =
+        typeof msg.content === 'string'
+          ? [{ type: 'text' as const, text: msg.content }]
+          : msg.content.filter(
+              (block): block is Extract<LlmContentBlock, { type: 'text' }> =>
+                block.type === 'text',
+            );
+      textBlocks.forEach((block, index) => {
+        const text =
+          index === 0 && systemBlocks.length > 0
+            ? `\n\n${block.text}`
+            : block.text;
+        if (!text) return;
+        systemBlocks.push({
+          type: 'text',
+          text,
+          ...toAnthropicCacheControl(block.cacheControl),
+        });
+      });
     } else if (msg.role === 'assistant') {
-      const content: AnthropicContent[] = [];
+      // Signed thinking blocks go back first, ahead of the text and
+      // tool_use blocks they preceded.
+      const content: AnthropicContent[] = [
+        ...((msg.providerData?.anthropicThinkingBlocks ??
+          []) as AnthropicContent[]),
+      ];
       if (typeof msg.content === 'string') {
         content.push({ type: 'text', text: msg.content });
       } else {
         for (const block of msg.content) {
           if (block.type === 'text') {
-            content.push({ type: 'text', text: block.text });
+            content.push({
+              type: 'text',
+              text: block.text,
+              ...toAnthropicCacheControl(block.cacheControl),
+            });
           } else if (block.type === 'tool_use') {
             content.push({
               type: 'tool_use',
@@ -598,6 +742,7 @@ export function buildAnthropicRequest(
               tool_use_id: block.toolUseId,
               content: block.content,
               is_error: block.isError,
+              ...toAnthropicCacheControl(block.cacheControl),
             });
           }
         }
@@ -610,7 +755,11 @@ export function buildAnthropicRequest(
       } else {
         for (const block of msg.content) {
           if (block.type === 'text') {
-            content.push({ type: 'text', text: block.text });
+            content.push({
+              type: 'text',
+              text: block.text,
+              ...toAnthropicCacheControl(block.cacheControl),
+            });
           } else if (block.type === 'image') {
             content.push({
               type: 'image',
@@ -621,7 +770,7 @@ export function buildAnthropicRequest(
               },
             });
           } else if (block.type === 'document') {
-            const docBlock: Extract<AnthropicContent, { type: 'document' }> = {
+            content.push({
               type: 'document',
               source: {
                 type: 'base64',
@@ -629,14 +778,8 @@ export function buildAnthropicRequest(
                 data: block.data,
               },
               ...(block.title ? { title: block.title } : {}),
-            };
-            if (block.cacheControl) {
-              docBlock.cache_control =
-                block.cacheControl === 'ephemeral_1h'
-                  ? { type: 'ephemeral', ttl: '1h' }
-                  : { type: 'ephemeral' };
-            }
-            content.push(docBlock);
+              ...toAnthropicCacheControl(block.cacheControl),
+            });
           }
         }
       }
@@ -647,36 +790,76 @@ export function buildAnthropicRequest(
   // OAuth-backed (subscription) requests REQUIRE the system prompt
   // shaped as a content-block array with the Claude Code identity as
   // the first block, or Anthropic's OAuth routing returns a minimal-
-  // body 429. API-key requests keep the plain string form.
+  // body 429. API-key requests keep the plain string form unless a
+  // cache breakpoint needs the block form.
+  const systemText = systemBlocks.map((block) => block.text).join('');
+  const systemCached = systemBlocks.some((block) => block.cache_control);
   const systemField =
     credentialKind === 'subscription'
-      ? buildClaudeCodeSystemBlocks(systemText)
-      : systemText
-        ? systemText
-        : undefined;
+      ? systemCached
+        ? [...buildClaudeCodeSystemBlocks(''), ...systemBlocks]
+        : buildClaudeCodeSystemBlocks(systemText)
+      : systemCached
+        ? systemBlocks
+        : systemText
+          ? systemText
+          : undefined;
 
   const hasTools = !!(tools && tools.length > 0);
+  const anthropicTools: AnthropicToolDefinition[] = (tools ?? []).map(
+    (tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema,
+      ...toAnthropicCacheControl(tool.cacheControl),
+    }),
+  );
+  // Anthropic has no response-format control, so a structured reply is
+  // a forced call to a synthetic tool whose input schema is the reply
+  // schema. With real tools registered the model must still be free to
+  // call them, so the choice widens to 'any' and the reply is whichever
+  // turn finally calls structured_output.
+  if (responseSchema) {
+    anthropicTools.push({
+      name: STRUCTURED_OUTPUT_TOOL_NAME,
+      description:
+        responseSchema.description ||
+        `Submit the final ${responseSchema.name} response. Call this exactly once, when the answer is ready.`,
+      input_schema: responseSchema.schema,
+    });
+  }
+  const thinkingBudget = reasoning ? reasoningBudgetTokens(reasoning) : 0;
+  // Extended thinking only allows tool_choice auto, so a forced tool
+  // call (edit gate, structured output) becomes a strong suggestion
+  // while thinking is on; the router still validates the result.
+  const toolChoice =
+    thinkingBudget > 0
+      ? undefined
+      : responseSchema
+        ? hasTools
+          ? { type: 'any' as const }
+          : { type: 'tool' as const, name: STRUCTURED_OUTPUT_TOOL_NAME }
+        : // tool_choice 'any' on Anthropic forces the model to call SOME
+          // tool (it picks which). Only emit when both forceToolUse is on
+          // and at least one tool is registered — sending tool_choice with
+          // no tools is a 400 from the API.
+          forceToolUse && hasTools
+          ? { type: 'any' as const }
+          : undefined;
+  // The thinking budget counts against max_tokens and must be below
+  // it, so the reply keeps its own allowance on top.
   return {
     model: modelId,
-    max_tokens: maxOutputTokens || 1024,
+    max_tokens: (maxOutputTokens || 1024) + thinkingBudget,
     ...(systemField !== undefined ? { system: systemField } : {}),
     messages: conversationMessages,
-    ...(hasTools
+    ...(anthropicTools.length > 0 ? { tools: anthropicTools } : {}),
+    ...(toolChoice ? { tool_choice: toolChoice } : {}),
+    ...(thinkingBudget > 0
       ? {
-          tools: tools!.map((tool) => ({
-            name: tool.name,
-            description: tool.description,
-            input_schema: tool.inputSchema,
-          })),
+          thinking: { type: 'enabled' as const, budget_tokens: thinkingBudget },
         }
       : {}),
-    // tool_choice 'any' on Anthropic forces the model to call SOME
-    // tool (it picks which). Only emit when both forceToolUse is on
-    // and at least one tool is registered — sending tool_choice with
-    // no tools is a 400 from the API.
-    ...(forceToolUse && hasTools
-      ? { tool_choice: { type: 'any' as const } }
-      : {}),
     stream: true,
   };
 }
@@ -713,6 +896,9 @@ export function buildOpenAiRequest(
   tools: LlmToolDefinition[] | undefined,
   maxOutputTokens: number | undefined,
   forceToolUse: boolean = false,
+  responseSchema?: LlmResponseSchema,
+  reasoning?: LlmReasoningConfig,
+  promptCacheKey?: string,
 ): {
   model: string;
   max_tokens?: number;
@@ -720,6 +906,16 @@ export function buildOpenAiRequest(
   messages: OpenAiMessage[];
   tools?: OpenAiToolDefinition[];
   tool_choice?: 'auto' | 'required' | 'none';
+  response_format?: {
+    type: 'json_schema';
+    json_schema: {
+      name: string;
+      description?: string;
+      schema: Record<string, unknown>;
+    };
+  };
+  reasoning_effort?: 'minimal' | 'low' | 'medium' | 'high';
+  prompt_cache_key?: string;
   stream: boolean;
   stream_options: { include_usage: boolean };
   thinking?: { type: 'disabled' };
@@ -801,6 +997,38 @@ export function buildOpenAiRequest(
     // both forceToolUse is on and at least one tool is registered —
     // sending tool_choice with no tools is a 400 from most backends.
     ...(forceToolUse && hasTools ? { tool_choice: 'required' as const } : {}),
+    // Non-strict: strict mode rejects schemas that leave properties
+    // optional or allow extra keys, and the router validates the reply
+    // against the full schema anyway.
+    ...(responseSchema
+      ? {
+          response_format: {
+            type: 'json_schema' as const,
+            json_schema: {
+              name: responseSchema.name,
+              ...(responseSchema.description
+                ? { description: responseSchema.description }
+                : {}),
+              schema: responseSchema.schema,
+            },
+          },
+        }
+      : {}),
+    // OpenAI reasoning models can't switch reasoning off entirely;
+    // 'minimal' is the closest they accept.
+    ...(reasoning
+      ? {
+          reasoning_effort:
+            reasoning.effort === 'off'
+              ? ('minimal' as const)
+              : reasoning.effort,
+        }
+      : {}),
+    // Routes requests sharing a prefix to the same cache. Only OpenAI
+    // itself accepts the field; the compat layers reject unknown keys.
+    ...(promptCacheKey && provider.providerId === 'provider.openai'
+      ? { prompt_cache_key: promptCacheKey }
+      : {}),
     stream: true,
     stream_options: { include_usage: true },
     ...(provider.providerId === 'provider.nvidia' &&
@@ -825,11 +1053,13 @@ async function* parseAnthropicStream(
   onFirstChunk?: (elapsedMs: number) => void,
 ): AsyncGenerator<LlmStreamEvent> {
   const blocks: Array<{
-    type: 'text' | 'tool_use';
+    type: 'text' | 'tool_use' | 'thinking' | 'redacted_thinking';
     id?: string;
     name?: string;
     text?: string;
     inputJson?: string;
+    signature?: string;
+    data?: string;
   }> = [];
   let currentBlockIndex = -1;
   let stopReason = '';
@@ -857,6 +1087,15 @@ async function* parseAnthropicStream(
         if (block?.type === 'text') {
           blocks.push({ type: 'text', text: '' });
           currentBlockIndex = blocks.length - 1;
+        } else if (block?.type === 'thinking') {
+          blocks.push({ type: 'thinking', text: '', signature: '' });
+          currentBlockIndex = blocks.length - 1;
+        } else if (block?.type === 'redacted_thinking') {
+          blocks.push({
+            type: 'redacted_thinking',
+            data: typeof block.data === 'string' ? block.data : '',
+          });
+          currentBlockIndex = blocks.length - 1;
         } else if (block?.type === 'tool_use') {
           const blockId =
             typeof block.id === 'string' ? block.id : randomUUID();
@@ -888,6 +1127,16 @@ async function* parseAnthropicStream(
           queueEvent({ type: 'text_delta', text: delta.text });
           return;
         }
+        if (currentBlock.type === 'thinking') {
+          if (typeof delta?.thinking === 'string') {
+            currentBlock.text = (currentBlock.text || '') + delta.thinking;
+            queueEvent({ type: 'reasoning_delta', text: delta.thinking });
+          } else if (typeof delta?.signature === 'string') {
+            currentBlock.signature =
+              (currentBlock.signature || '') + delta.signature;
+          }
+          return;
+        }
         if (
           currentBlock.type === 'tool_use' &&
           typeof delta?.partial_json === 'string'
@@ -915,15 +1164,30 @@ async function* parseAnthropicStream(
       ) {
         const rawUsage = (
           payload.message as {
-            usage?: { input_tokens?: number; output_tokens?: number };
+            usage?: {
+              input_tokens?: number;
+              output_tokens?: number;
+              cache_creation_input_tokens?: number;
+              cache_read_input_tokens?: number;
+            };
           }
         ).usage;
         if (rawUsage) {
+          // Anthropic's input_tokens leaves out the cached prefix; fold
+          // cache writes and reads back in so inputTokens means the same
+          // thing for every provider.
+          const cacheRead = rawUsage.cache_read_input_tokens;
           queueEvent({
             type: 'usage',
             usage: {
-              inputTokens: rawUsage.input_tokens ?? 0,
+              inputTokens:
+                (rawUsage.input_tokens ?? 0) +
+                (rawUsage.cache_creation_input_tokens ?? 0) +
+                (cacheRead ?? 0),
               outputTokens: rawUsage.output_tokens ?? 0,
+              ...(cacheRead !== undefined
+                ? { cachedInputTokens: cacheRead }
+                : {}),
             },
           });
         }
@@ -969,6 +1233,27 @@ async function* parseAnthropicStream(
     }
   }
 
+  const thinkingBlocks = blocks.flatMap(
+    (block): Array<Record<string, unknown>> =>
+      block.type === 'thinking'
+        ? [
+            {
+              type: 'thinking',
+              thinking: block.text ?? '',
+              signature: block.signature ?? '',
+            },
+          ]
+        : block.type === 'redacted_thinking'
+          ? [{ type: 'redacted_thinking', data: block.data ?? '' }]
+          : [],
+  );
+  if (thinkingBlocks.length > 0) {
+    queueEvent({
+      type: 'provider_data',
+      providerData: { anthropicThinkingBlocks: thinkingBlocks },
+    });
+  }
+
   queueEvent({ type: 'done', stopReason });
 
   // Yield all queued events
@@ -977,6 +1262,48 @@ async function* parseAnthropicStream(
   }
 }
 
+/**
+ * Turn the Anthropic structured_output tool call back into a plain
+ * reply: its argument deltas become text deltas, and a turn that ended
+ * only to call it reports 'end_turn' so the tool loop treats it as the
+ * final answer.
+ */
+async function* unwrapStructuredOutputToolCall(
+  events: AsyncGenerator<LlmStreamEvent>,
+): AsyncGenerator<LlmStreamEvent> {
+  const structuredCallIds = new Set<string>();
+  let calledOtherTool = false;
+  for await (const event of events) {
+    const callId = event.toolCall?.id;
+    if (event.type === 'tool_call_start' && event.toolCall) {
+      if (event.toolCall.name === STRUCTURED_OUTPUT_TOOL_NAME) {
+        structuredCallIds.add(event.toolCall.id);
+        continue;
+      }
+      calledOtherTool = true;
+    } else if (
+      event.type === 'tool_call_delta' &&
+      callId &&
+      structuredCallIds.has(callId)
+    ) {
+      // The final `arguments` event repeats the streamed deltas.
+      if (event.toolCall?.argumentsDelta) {
+        yield { type: 'text_delta', text: event.toolCall.argumentsDelta };
+      }
+      continue;
+    } else if (
+      event.type === 'done' &&
+      event.stopReason === 'tool_use' &&
+      structuredCallIds.size > 0 &&
+      !calledOtherTool
+    ) {
+      yield { ...event, stopReason: 'end_turn' };
+      continue;
+    }
+    yield event;
+  }
+}
+
 /**
  * Parse OpenAI streaming response and yield events.
  */
@@ -1010,6 +1337,9 @@ async function* parseOpenAiStream(
         choices?: Array<{
           delta?: {
             content?: string;
+            // DeepSeek-style thinking field, streamed by some
+            // OpenAI-compatible backends.
+            reasoning_content?: string;
             tool_calls?: Array<{
               index?: number;
               id?: string;
@@ -1021,6 +1351,8 @@ async function* parseOpenAiStream(
         usage?: {
           prompt_tokens?: number;
           completion_tokens?: number;
+          prompt_tokens_details?: { cached_tokens?: number };
+          completion_tokens_details?: { reasoning_tokens?: number };
         };
         error?: { message?: string };
       };
@@ -1031,6 +1363,10 @@ async function* parseOpenAiStream(
       }
 
       const choice = payload.choices?.[0];
+      const reasoningText = choice?.delta?.reasoning_content || '';
+      if (reasoningText) {
+        queueEvent({ type: 'reasoning_delta', text: reasoningText });
+      }
       const deltaText = choice?.delta?.content || '';
       if (deltaText) {
         queueEvent({ type: 'text_delta', text: deltaText });
@@ -1074,11 +1410,17 @@ async function* parseOpenAiStream(
       }
 
       if (payload.usage) {
+        const cachedInputTokens =
+          payload.usage.prompt_tokens_details?.cached_tokens;
+        const reasoningTokens =
+          payload.usage.completion_tokens_details?.reasoning_tokens;
         queueEvent({
           type: 'usage',
           usage: {
             inputTokens: payload.usage.prompt_tokens ?? 0,
             outputTokens: payload.usage.completion_tokens ?? 0,
+            ...(cachedInputTokens !== undefined ? { cachedInputTokens } : {}),
+            ...(reasoningTokens !== undefined ? { reasoningTokens } : {}),
           },
         });
       }
@@ -1189,6 +1531,50 @@ async function* parseCodexResponsesStream(
   for (const evt of eventQueue) yield evt;
 }
 
+/**
+ * Parse the Gemini streamGenerateContent SSE and yield events.
+ *
+ * With `alt=sse` every frame is a full GenerateContentResponse holding
+ * the next slice of candidate parts. Frame handling lives in
+ * `gemini-generate-content-adapter.ts`; usage (cumulative per frame),
+ * thought signatures and the stop reason are emitted once the stream
+ * ends.
+ */
+async function* parseGeminiStream(
+  response: Response,
+  controller: AbortController,
+  signal: AbortSignal,
+  timeouts: TimeoutConfig,
+  onFirstChunk?: (elapsedMs: number) => void,
+): AsyncGenerator<LlmStreamEvent> {
+  const state = createGeminiStreamState();
+  const eventQueue: LlmStreamEvent[] = [];
+
+  await readSseResponse(
+    response,
+    controller,
+    signal,
+    timeouts,
+    (event) => {
+      if (!event.data || event.data === '[DONE]') return;
+      let payload: Record<string, unknown>;
+      try {
+        payload = JSON.parse(event.data) as Record<string, unknown>;
+      } catch {
+        return;
+      }
+      for (const evt of handleGeminiSseEvent(state, payload)) {
+        eventQueue.push(evt);
+      }
+    },
+    onFirstChunk,
+  );
+
+  for (const evt of finalizeGeminiStream(state)) eventQueue.push(evt);
+
+  for (const evt of eventQueue) yield evt;
+}
+
 // =============================================================================
 // MAIN STREAMING FUNCTION
 // =============================================================================
@@ -1223,6 +1609,24 @@ export async function* streamLlmResponse(
      * reject the request.
      */
     forceToolUse?: boolean;
+    /**
+     * Constrain the final reply to a JSON schema using the provider's
+     * native structured-output control. Only pass this for models whose
+     * capabilities report `supports_json_schema`.
+     */
+    responseSchema?: LlmResponseSchema;
+    /**
+     * The agent's reasoning setting. Only pass this for models whose
+     * capabilities report `supports_reasoning`; omitted, the model runs
+     * at its provider default.
+     */
+    reasoning?: LlmReasoningConfig;
+    /**
+     * Stable key for requests that share a prompt prefix (one per
+     * Talk). Sent as OpenAI and Codex `prompt_cache_key`; Anthropic
+     * caching is driven by the breakpoints on the messages instead.
+     */
+    promptCacheKey?: string;
   },
 ): AsyncGenerator<LlmStreamEvent> {
   const controller = new AbortController();
@@ -1260,11 +1664,15 @@ export async function* streamLlmResponse(
         options?.maxOutputTokens,
         credentialKind,
         options?.forceToolUse ?? false,
+        options?.responseSchema,
+        options?.reasoning,
       );
 
       // Subscription requests need Claude Code's user-agent + OAuth betas.
       // The identity-prefixed system prompt is already baked into
-      // requestBody.system by buildAnthropicRequest above.
+      // requestBody.system by buildAnthropicRequest above. API-key
+      // requests with thinking on take the common betas, so the model
+      // can think between tool calls as it does on a subscription.
       const subscriptionHeaders: Record<string, string> =
         credentialKind === 'subscription'
           ? {
@@ -1272,7 +1680,9 @@ export async function* streamLlmResponse(
               'user-agent': `claude-cli/${ANTHROPIC_CLAUDE_CODE_VERSION} (external, cli)`,
               'x-app': 'cli',
             }
-          : {};
+          : requestBody.thinking
+            ? { 'anthropic-beta': ANTHROPIC_COMMON_BETAS.join(',') }
+            : {};
 
       const response = await fetchWithUpstreamRetry(
         `${provider.baseUrl}/v1/messages`,
@@ -1305,13 +1715,16 @@ export async function* streamLlmResponse(
         );
       }
 
-      yield* parseAnthropicStream(
+      const events = parseAnthropicStream(
         response,
         controller,
         parentSignal,
         timeouts,
         onFirstChunk,
       );
+      yield* options?.responseSchema
+        ? unwrapStructuredOutputToolCall(events)
+        : events;
     } else if (provider.apiFormat === 'openai_chat_completions') {
       const requestBody = buildOpenAiRequest(
         provider,
@@ -1320,6 +1733,9 @@ export async function* streamLlmResponse(
         options?.tools,
         options?.maxOutputTokens,
         options?.forceToolUse ?? false,
+        options?.responseSchema,
+        options?.reasoning,
+        options?.promptCacheKey,
       );
 
       const response = await fetchWithUpstreamRetry(
@@ -1381,6 +1797,13 @@ export async function* streamLlmResponse(
           maxOutputTokens: options?.maxOutputTokens,
           stream: true,
           forceToolUse: options?.forceToolUse ?? false,
+          responseSchema: options?.responseSchema,
+          // Codex can't switch reasoning off; 'minimal' is the floor.
+          reasoningEffort:
+            options?.reasoning?.effort === 'off'
+              ? 'minimal'
+              : options?.reasoning?.effort,
+          sessionId: options?.promptCacheKey,
         }),
       );
 
@@ -1429,6 +1852,59 @@ export async function* streamLlmResponse(
         timeouts,
         onFirstChunk,
       );
+    } else if (provider.apiFormat === 'gemini_generate_content') {
+      const requestBody = buildGeminiRequestBody({
+        messages,
+        tools: options?.tools,
+        maxOutputTokens: options?.maxOutputTokens,
+        forceToolUse: options?.forceToolUse ?? false,
+        responseSchema: options?.responseSchema,
+        reasoning: options?.reasoning,
+      });
+
+      // The native API authenticates API keys with x-goog-api-key;
+      // `Authorization: Bearer` is reserved for OAuth access tokens.
+      const geminiAuthHeaders: Record<string, string> = secret
+        ? { 'x-goog-api-key': secret.apiKey }
+        : {};
+
+      const response = await fetchWithUpstreamRetry(
+        `${provider.baseUrl}/models/${encodeURIComponent(modelId)}:streamGenerateContent?alt=sse`,
+        {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            accept: 'text/event-stream',
+            ...geminiAuthHeaders,
+          },
+          body: JSON.stringify(requestBody),
+          signal: controller.signal,
+        },
+        parentSignal,
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        const failureClass = classifyHttpFailure(response.status, errorText);
+        throw new LlmClientError(
+          buildLlmHttpErrorMessage({
+            providerLabel: provider.providerId ?? 'gemini',
+            status: response.status,
+            statusText: response.statusText,
+            body: errorText,
+          }),
+          failureClass,
+          response.status,
+        );
+      }
+
+      yield* parseGeminiStream(
+        response,
+        controller,
+        parentSignal,
+        timeouts,
+        onFirstChunk,
+      );
     } else {
       throw new LlmClientError(
         `Unsupported API format: ${provider.apiFormat}`,
@@ -1465,6 +1941,8 @@ export async function callLlm(
     maxOutputTokens?: number;
     signal?: AbortSignal;
     forceToolUse?: boolean;
+    responseSchema?: LlmResponseSchema;
+    reasoning?: LlmReasoningConfig;
   },
 ): Promise<LlmResponse> {
   let content = '';
@@ -1474,6 +1952,8 @@ export async function callLlm(
   >();
   let inputTokens = 0;
   let outputTokens = 0;
+  let cachedInputTokens: number | undefined;
+  let reasoningTokens: number | undefined;
   let stopReason = '';
 
   for await (const event of streamLlmResponse(
@@ -1512,6 +1992,8 @@ export async function callLlm(
         if (event.usage) {
           inputTokens = event.usage.inputTokens;
           outputTokens = event.usage.outputTokens;
+          cachedInputTokens = event.usage.cachedInputTokens;
+          reasoningTokens = event.usage.reasoningTokens;
         }
         break;
       case 'done':
@@ -1534,7 +2016,12 @@ export async function callLlm(
   return {
     content: content.trim() || 'No response generated.',
     toolCalls,
-    usage: { inputTokens, outputTokens },
+    usage: {
+      inputTokens,
+      outputTokens,
+      ...(cachedInputTokens !== undefined ? { cachedInputTokens } : {}),
+      ...(reasoningTokens !== undefined ? { reasoningTokens } : {}),
+    },
     stopReason,
   };
 }
@@ -1682,12 +2169,17 @@ export function buildLlmHttpErrorMessage(input: {
  * Honours `parentSignal`: if the caller cancels mid-retry, we skip the
  * retry sleep and return the first response. Drains the first response
  * body before retrying so the underlying connection can release.
+ *
+ * Redirects are not followed: a 3xx comes back as the response and fails
+ * as an API error. The SSRF check vets a custom provider's base URL, not
+ * wherever it redirects to, and the auth headers must not follow either.
  */
 export async function fetchWithUpstreamRetry(
   url: string,
-  init: RequestInit,
+  requestInit: RequestInit,
   parentSignal: AbortSignal,
 ): Promise<Response> {
+  const init: RequestInit = { ...requestInit, redirect: 'manual' };
   const first = await fetch(url, init);
   if (!UPSTREAM_TIMEOUT_STATUSES.has(first.status)) return first;
   if (parentSignal.aborted) return first;
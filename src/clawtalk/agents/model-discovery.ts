@@ -71,6 +71,11 @@ export interface ModelsEndpoint {
   label: string;
   /** Auth headers built from the API key (an `accept` header is added). */
   headers: (apiKey: string) => Record<string, string>;
+  /**
+   * False for keyless endpoints (a local Ollama). Defaults to true: an
+   * empty key then short-circuits to `auth_error` without a fetch.
+   */
+  requiresApiKey?: boolean;
   /** Optional hint appended to the auth-rejected message. */
   keyHelp?: string;
   /** Parse the raw JSON body into discovered models. */
@@ -155,9 +160,12 @@ async function fetchModels(
   const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
   try {
+    // No redirects: the SSRF check covered endpoint.url only, and the
+    // key must not be sent on to another host. A 3xx is 'unavailable'.
     const response = await fetcher(endpoint.url, {
       method: 'GET',
       headers: { accept: 'application/json', ...endpoint.headers(apiKey) },
+      redirect: 'manual',
       signal: controller.signal,
     });
 
@@ -216,14 +224,14 @@ function pathOf(url: string): string {
 
 /**
  * Run a cached model-discovery for `endpoint`. Returns `auth_error`
- * (without a fetch) when the API key is empty.
+ * (without a fetch) when the API key is empty and the endpoint needs one.
  */
 export async function discoverModels(
   endpoint: ModelsEndpoint,
   apiKey: string,
   opts: DiscoveryOptions = {},
 ): Promise<DiscoveryResult> {
-  if (!apiKey) {
+  if (!apiKey && endpoint.requiresApiKey !== false) {
     return {
       models: [],
       status: 'auth_error',
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+
+import type { LlmMessage, LlmToolDefinition } from './llm-client.js';
+import {
+  MAX_ANTHROPIC_CACHE_BREAKPOINTS,
+  planPromptCache,
+  promptCacheKey,
+} from './prompt-cache-planner.js';
+
+const tools: LlmToolDefinition[] = [
+  { name: 'read_source', description: 'x', inputSchema: { type: 'object' } },
+  { name: 'web_search', description: 'y', inputSchema: { type: 'object' } },
+];
+
+const pdf = (cacheControl?: 'ephemeral_1h') => ({
+  type: 'document' as const,
+  mimeType: 'application/pdf',
+  data: 'PDF',
+  ...(cacheControl ? { cacheControl } : {}),
+});
+
+function conversation(): LlmMessage[] {
+  return [
+    { role: 'system', content: 'Goal: ship.\n\nSummary: busy week.' },
+    { role: 'user', content: 'Earlier question' },
+    { role: 'assistant', content: 'Earlier answer' },
+    { role: 'user', content: 'New question' },
+  ];
+}
+
+describe('planPromptCache', () => {
+  it('leaves non-Anthropic requests alone', () => {
+    const messages = conversation();
+    const plan = planPromptCache({
+      apiFormat: 'openai_chat_completions',
+      messages,
+      tools,
+      stableSystemPrefix: 'Goal: ship.',
+      historyEnd: 3,
+    });
+    expect(plan.messages).toBe(messages);
+    expect(plan.tools).toBe(tools);
+    expect(plan.breakpoints).toEqual([]);
+  });
+
+  it('caches tools, the stable system prefix, history and the conversation tail', () => {
+    const messages = conversation();
+    const plan = planPromptCache({
+      apiFormat: 'anthropic_messages',
+      messages,
+      tools,
+      stableSystemPrefix: 'Goal: ship.',
+      historyEnd: 3,
+    });
+
+    expect(plan.breakpoints).toEqual([
+      'tools',
+      'system',
+      'history',
+      'conversation',
+    ]);
+    expect(plan.tools[0].cacheControl).toBeUndefined();
+    expect(plan.tools[1].cacheControl).toBe('ephemeral_1h');
+    expect(plan.messages[0].content).toEqual([
+      { type: 'text', text: 'Goal: ship.', cacheControl: 'ephemeral_1h' },
+      { type: 'text', text: '\n\nSummary: busy week.' },
+    ]);
+    expect(plan.messages[2].content).toEqual([
+      { type: 'text', text: 'Earlier answer', cacheControl: 'ephemeral' },
+    ]);
+    expect(plan.messages[3].content).toEqual([
+      { type: 'text', text: 'New question', cacheControl: 'ephemeral' },
+    ]);
+    // The router's arrays are reused next turn, so they stay unmarked.
+    expect(messages).toEqual(conversation());
+    expect(tools[1].cacheControl).toBeUndefined();
+  });
+
+  it('skips the system split when the prompt does not start with the prefix', () => {
+    const plan = planPromptCache({
+      apiFormat: 'anthropic_messages',
+      messages: conversation(),
+      tools: [],
+      stableSystemPrefix: 'Rules: none.',
+      historyEnd: 3,
+    });
+    expect(plan.breakpoints).toEqual(['history']);
+    expect(typeof plan.messages[0].content).toBe('string');
+  });
+
+  it('keeps only the last document mark and stays within the limit', () => {
+    const messages = conversation();
+    messages[1] = { role: 'user', content: [pdf('ephemeral_1h')] };
+    messages[3] = {
+      role: 'user',
+      content: [
+        pdf('ephemeral_1h'),
+        pdf('ephemeral_1h'),
+        { type: 'text', text: 'Compare them' },
+      ],
+    };
+    const plan = planPromptCache({
+      apiFormat: 'anthropic_messages',
+      messages,
+      tools,
+      stableSystemPrefix: 'Goal: ship.',
+      historyEnd: 3,
+    });
+
+    expect(plan.breakpoints).toEqual([
+      'tools',
+      'system',
+      'history',
+      'document',
+    ]);
+    expect(plan.breakpoints.length).toBeLessThanOrEqual(
+      MAX_ANTHROPIC_CACHE_BREAKPOINTS,
+    );
+    expect(plan.messages[1].content).toEqual([pdf()]);
+    expect(plan.messages[3].content).toEqual([
+      pdf(),
+      pdf('ephemeral_1h'),
+      { type: 'text', text: 'Compare them' },
+    ]);
+    // A 1h mark follows, so the history mark must be 1h too.
+    expect(plan.messages[2].content).toEqual([
+      { type: 'text', text: 'Earlier answer', cacheControl: 'ephemeral_1h' },
+    ]);
+  });
+});
+
+describe('promptCacheKey', () => {
+  it('is shared by every run in a Talk', () => {
+    expect(promptCacheKey('talk-1')).toBe('talk:talk-1');
+  });
+});
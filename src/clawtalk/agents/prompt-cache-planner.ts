@@ -0,0 +1,213 @@
+/**
+ * prompt-cache-planner.ts
+ *
+ * Decides where a request's prompt-cache breakpoints go. Only Anthropic
+ * needs explicit breakpoints: OpenAI, Codex and Gemini cache the longest
+ * matching prefix on their own, and the router passes them a per-Talk
+ * `prompt_cache_key` instead (see promptCacheKey below).
+ *
+ * Anthropic allows at most four breakpoints per request, and a 1h entry
+ * must come before any 5m one. In prefix order the planner places:
+ *
+ *   tools         last tool definition (1h) — the tool set only changes
+ *                 when the Talk's tool settings do
+ *   system        end of the Talk's stable system prefix (1h) — goal,
+ *                 rules, sources; the per-run tail (summary, role hint,
+ *                 state) follows it uncached
+ *   history       last message of the prior conversation, so the next run
+ *                 in the Talk reads it back
+ *   document      the last native PDF block the executor marked in this
+ *                 run's messages; earlier marks are dropped so a run with
+ *                 many PDFs stays under the limit
+ *   conversation  end of the request (5m), only when tools are on — each
+ *                 tool-loop turn then reads the previous turn's prefix
+ *
+ * When all five apply, conversation is the one left out.
+ */
+
+import type {
+  LlmApiFormat,
+  LlmCacheControl,
+  LlmContentBlock,
+  LlmMessage,
+  LlmToolDefinition,
+} from './llm-client.js';
+
+export type PromptCacheBreakpoint =
+  'tools' | 'system' | 'history' | 'document' | 'conversation';
+
+export const MAX_ANTHROPIC_CACHE_BREAKPOINTS = 4;
+
+export interface PromptCachePlanInput {
+  apiFormat: LlmApiFormat;
+  messages: LlmMessage[];
+  tools: LlmToolDefinition[];
+  /**
+   * Leading part of the system prompt that is the same for every run and
+   * every agent in the Talk. Ignored unless the system message starts
+   * with it.
+   */
+  stableSystemPrefix?: string;
+  /** Index of the first message after the prior conversation. */
+  historyEnd: number;
+}
+
+export interface PromptCachePlan {
+  messages: LlmMessage[];
+  tools: LlmToolDefinition[];
+  breakpoints: PromptCacheBreakpoint[];
+}
+
+/**
+ * Cache key for OpenAI and Codex. One per Talk, so every agent in a
+ * response group lands on the same cache for the shared prefix.
+ */
+export function promptCacheKey(talkId: string): string {
+  return `talk:${talkId}`;
+}
+
+type CacheableBlock = Extract<
+  LlmContentBlock,
+  { type: 'text' | 'tool_result' | 'document' }
+>;
+
+function isCacheable(block: LlmContentBlock): block is CacheableBlock {
+  return (
+    block.type === 'text' ||
+    block.type === 'tool_result' ||
+    block.type === 'document'
+  );
+}
+
+function toBlocks(content: LlmMessage['content']): LlmContentBlock[] {
+  return typeof content === 'string'
+    ? [{ type: 'text', text: content }]
+    : content.map((block) => ({ ...block }));
+}
+
+/** Index of the last block that can carry a breakpoint, or -1. */
+function lastCacheableIndex(blocks: LlmContentBlock[]): number {
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const block = blocks[i];
+    if (isCacheable(block) && (block.type !== 'text' || block.text)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function withoutCacheControl(block: LlmContentBlock): LlmContentBlock {
+  if (!isCacheable(block) || !block.cacheControl) return block;
+  const { cacheControl: _dropped, ...rest } = block;
+  return rest as LlmContentBlock;
+}
+
+/**
+ * Place cache breakpoints for one request. Returns copies; the caller's
+ * messages and tools are left untouched so the next turn plans afresh.
+ */
+export function planPromptCache(input: PromptCachePlanInput): PromptCachePlan {
+  if (input.apiFormat !== 'anthropic_messages') {
+    return { messages: input.messages, tools: input.tools, breakpoints: [] };
+  }
+
+  const messages = input.messages.map((message) => ({ ...message }));
+  let tools = input.tools;
+  const breakpoints: PromptCacheBreakpoint[] = [];
+  const historyLast = input.historyEnd - 1;
+
+  // The executor marks every native PDF. Keep the last mark after the
+  // prior conversation; the history breakpoint already covers the rest.
+  let documentAt: { message: number; block: number } | null = null;
+  for (let i = messages.length - 1; i > historyLast && !documentAt; i--) {
+    const content = messages[i].content;
+    if (typeof content === 'string') continue;
+    for (let j = content.length - 1; j >= 0; j--) {
+      const block = content[j];
+      if (block.type === 'document' && block.cacheControl) {
+        documentAt = { message: i, block: j };
+        break;
+      }
+    }
+  }
+  messages.forEach((message, messageIndex) => {
+    if (typeof message.content === 'string') return;
+    message.content = message.content.map((block, blockIndex) =>
+      documentAt?.message === messageIndex && documentAt.block === blockIndex
+        ? block
+        : withoutCacheControl(block),
+    );
+  });
+
+  // Marks the last cacheable block of a message, unless it already
+  // carries one (a kept document mark).
+  const mark = (
+    messageIndex: number,
+    cacheControl: LlmCacheControl,
+  ): boolean => {
+    const message = messages[messageIndex];
+    // A string tool message has no block to carry the mark; turning it
+    // into text would lose the tool_result.
+    if (message.role === 'tool' && typeof message.content === 'string') {
+      return false;
+    }
+    const blocks = toBlocks(message.content);
+    const target = lastCacheableIndex(blocks);
+    if (target < 0) return false;
+    const block = blocks[target] as CacheableBlock;
+    if (block.cacheControl) return false;
+    blocks[target] = { ...block, cacheControl };
+    message.content = blocks;
+    return true;
+  };
+
+  if (tools.length > 0) {
+    tools = tools.map((tool, index) =>
+      index === tools.length - 1
+        ? { ...tool, cacheControl: 'ephemeral_1h' }
+        : tool,
+    );
+    breakpoints.push('tools');
+  }
+
+  const systemIndex = messages.findIndex(
+    (message) => message.role === 'system',
+  );
+  const system = systemIndex >= 0 ? messages[systemIndex] : undefined;
+  const prefix = input.stableSystemPrefix;
+  if (
+    system &&
+    typeof system.content === 'string' &&
+    prefix &&
+    system.content.startsWith(prefix)
+  ) {
+    const rest = system.content.slice(prefix.length);
+    system.content = [
+      { type: 'text', text: prefix, cacheControl: 'ephemeral_1h' },
+      ...(rest ? [{ type: 'text' as const, text: rest }] : []),
+    ];
+    breakpoints.push('system');
+  }
+
+  // A 1h document mark later in the request forces 1h here as well.
+  if (
+    historyLast > systemIndex &&
+    historyLast < messages.length &&
+    mark(historyLast, documentAt ? 'ephemeral_1h' : 'ephemeral')
+  ) {
+    breakpoints.push('history');
+  }
+
+  if (documentAt) breakpoints.push('document');
+
+  if (
+    input.tools.length > 0 &&
+    breakpoints.length < MAX_ANTHROPIC_CACHE_BREAKPOINTS &&
+    messages.length - 1 > historyLast &&
+    mark(messages.length - 1, 'ephemeral')
+  ) {
+    breakpoints.push('conversation');
+  }
+
+  return { messages, tools, breakpoints };
+}
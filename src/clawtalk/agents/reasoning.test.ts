@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  isReasoningEffort,
+  reasoningBudgetTokens,
+  resolveAgentReasoning,
+} from './reasoning.js';
+
+describe('resolveAgentReasoning', () => {
+  it('leaves an unset agent at the provider default', () => {
+    expect(
+      resolveAgentReasoning({
+        reasoning_effort: null,
+        reasoning_budget_tokens: null,
+      }),
+    ).toBeUndefined();
+  });
+
+  it('passes an effort level through', () => {
+    expect(
+      resolveAgentReasoning({
+        reasoning_effort: 'off',
+        reasoning_budget_tokens: null,
+      }),
+    ).toEqual({ effort: 'off' });
+  });
+
+  it('derives the effort an explicit budget falls in', () => {
+    expect(
+      resolveAgentReasoning({
+        reasoning_effort: null,
+        reasoning_budget_tokens: 4_096,
+      }),
+    ).toEqual({ effort: 'low', budgetTokens: 4_096 });
+    expect(
+      resolveAgentReasoning({
+        reasoning_effort: null,
+        reasoning_budget_tokens: 32_000,
+      }),
+    ).toEqual({ effort: 'high', budgetTokens: 32_000 });
+  });
+});
+
+describe('reasoningBudgetTokens', () => {
+  it('prefers the explicit budget, then the effort default', () => {
+    expect(reasoningBudgetTokens({ effort: 'low', budgetTokens: 3_000 })).toBe(
+      3_000,
+    );
+    expect(reasoningBudgetTokens({ effort: 'medium' })).toBe(8_192);
+    expect(reasoningBudgetTokens({ effort: 'off' })).toBe(0);
+  });
+});
+
+describe('isReasoningEffort', () => {
+  it('accepts only the four levels', () => {
+    expect(isReasoningEffort('high')).toBe(true);
+    expect(isReasoningEffort('max')).toBe(false);
+    expect(isReasoningEffort(null)).toBe(false);
+  });
+});
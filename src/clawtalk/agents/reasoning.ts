@@ -0,0 +1,83 @@
+/**
+ * reasoning.ts
+ *
+ * Per-agent reasoning settings (registered_agents.reasoning_effort /
+ * reasoning_budget_tokens, migration 0052) and how they map onto each
+ * provider's control. An agent sets either an effort level or an
+ * explicit thinking-token budget. Providers that take a budget
+ * (Anthropic, Gemini) get the explicit one or the effort's default;
+ * providers that take an effort (OpenAI, Codex) get the explicit level
+ * or the one the budget falls in.
+ */
+
+import type {
+  RegisteredAgentReasoningEffort,
+  RegisteredAgentRecord,
+} from '../db/agent-accessors.js';
+import type { LlmReasoningConfig } from './llm-client.js';
+
+export const REASONING_EFFORTS: readonly RegisteredAgentReasoningEffort[] = [
+  'off',
+  'low',
+  'medium',
+  'high',
+];
+
+// Anthropic rejects thinking budgets under 1024 tokens. The ceiling
+// matches the largest output window in the catalog.
+export const MIN_REASONING_BUDGET_TOKENS = 1_024;
+export const MAX_REASONING_BUDGET_TOKENS = 128_000;
+
+const EFFORT_BUDGET_TOKENS: Record<
+  Exclude<RegisteredAgentReasoningEffort, 'off'>,
+  number
+> = {
+  low: 2_048,
+  medium: 8_192,
+  high: 24_576,
+};
+
+export function isReasoningEffort(
+  value: unknown,
+): value is RegisteredAgentReasoningEffort {
+  return (
+    typeof value === 'string' &&
+    (REASONING_EFFORTS as readonly string[]).includes(value)
+  );
+}
+
+function effortForBudget(
+  budgetTokens: number,
+): Exclude<RegisteredAgentReasoningEffort, 'off'> {
+  if (budgetTokens <= 4_096) return 'low';
+  if (budgetTokens <= 16_384) return 'medium';
+  return 'high';
+}
+
+/**
+ * The reasoning config to send for an agent, or undefined when the
+ * agent leaves it at the provider default.
+ */
+export function resolveAgentReasoning(
+  agent: Pick<
+    RegisteredAgentRecord,
+    'reasoning_effort' | 'reasoning_budget_tokens'
+  >,
+): LlmReasoningConfig | undefined {
+  if (agent.reasoning_budget_tokens) {
+    return {
+      effort: effortForBudget(agent.reasoning_budget_tokens),
+      budgetTokens: agent.reasoning_budget_tokens,
+    };
+  }
+  if (agent.reasoning_effort) {
+    return { effort: agent.reasoning_effort };
+  }
+  return undefined;
+}
+
+/** Thinking-token budget for budget-based providers; 0 means off. */
+export function reasoningBudgetTokens(config: LlmReasoningConfig): number {
+  if (config.budgetTokens) return config.budgetTokens;
+  return config.effort === 'off' ? 0 : EFFORT_BUDGET_TOKENS[config.effort];
+}
@@ -25,6 +25,8 @@ function makeAgent(
     credential_mode: null,
     model_auto_upgraded_from: null,
     model_auto_upgraded_at: null,
+    reasoning_effort: null,
+    reasoning_budget_tokens: null,
     created_at: '2026-01-01T00:00:00Z',
     updated_at: '2026-01-01T00:00:00Z',
     ...overrides,
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  MAX_RESPONSE_SCHEMA_BYTES,
+  normalizeStructuredOutputConfig,
+  parseStructuredOutput,
+} from './structured-output.js';
+
+const digestSchema = {
+  type: 'object',
+  properties: {
+    signups: { type: 'integer' },
+    highlights: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['signups'],
+};
+
+describe('normalizeStructuredOutputConfig', () => {
+  it('treats null and undefined as no structured output', () => {
+    expect(normalizeStructuredOutputConfig(null)).toBeNull();
+    expect(normalizeStructuredOutputConfig(undefined)).toBeNull();
+  });
+
+  it('defaults the name and normalizes the state key', () => {
+    expect(
+      normalizeStructuredOutputConfig({
+        schema: digestSchema,
+        description: '  Weekly digest. ',
+        stateKey: 'metrics.weekly',
+      }),
+    ).toEqual({
+      name: 'response',
+      description: 'Weekly digest.',
+      schema: digestSchema,
+      stateKey: 'metrics.weekly',
+    });
+  });
+
+  it('rejects schemas without an object root', () => {
+    expect(() =>
+      normalizeStructuredOutputConfig({ schema: { type: 'array' } }),
+    ).toThrow('must describe an object');
+    expect(() => normalizeStructuredOutputConfig({ schema: [] })).toThrow(
+      'must be a JSON schema object',
+    );
+  });
+
+  it('rejects schemas the validator cannot compile', () => {
+    expect(() =>
+      normalizeStructuredOutputConfig({
+        schema: {
+          type: 'object',
+          properties: { a: { $ref: '#/$defs/missing' } },
+        },
+      }),
+    ).toThrow('Structured output schema is invalid');
+  });
+
+  it('rejects oversized schemas, bad names and bad state keys', () => {
+    expect(() =>
+      normalizeStructuredOutputConfig({
+        schema: {
+          type: 'object',
+          description: 'x'.repeat(MAX_RESPONSE_SCHEMA_BYTES),
+        },
+      }),
+    ).toThrow(`exceeds ${MAX_RESPONSE_SCHEMA_BYTES} bytes`);
+    expect(() =>
+      normalizeStructuredOutputConfig({
+        name: 'weekly digest',
+        schema: digestSchema,
+      }),
+    ).toThrow('Structured output name');
+    expect(() =>
+      normalizeStructuredOutputConfig({
+        schema: digestSchema,
+        stateKey: 'Not A Key',
+      }),
+    ).toThrow();
+  });
+});
+
+describe('parseStructuredOutput', () => {
+  it('accepts a matching reply, with or without a JSON fence', () => {
+    expect(parseStructuredOutput('{"signups": 4}', digestSchema)).toEqual({
+      ok: true,
+      value: { signups: 4 },
+    });
+    expect(
+      parseStructuredOutput(
+        '```json\n{"signups": 4, "highlights": ["launch"]}\n```',
+        digestSchema,
+      ),
+    ).toEqual({ ok: true, value: { signups: 4, highlights: ['launch'] } });
+  });
+
+  it('reports empty replies and invalid JSON', () => {
+    expect(parseStructuredOutput('  ', digestSchema)).toEqual({
+      ok: false,
+      error: 'the reply was empty.',
+    });
+    const result = parseStructuredOutput('Signups are up.', digestSchema);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain('not valid JSON');
+  });
+
+  it('reports schema mismatches with their paths', () => {
+    const result = parseStructuredOutput(
+      '{"signups": 4, "highlights": [1]}',
+      digestSchema,
+    );
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toMatch(/^highlights\.0: /);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * structured-output.ts
+ *
+ * JSON-schema structured replies. A job or a chat request can ask for
+ * its answer as a JSON object matching a schema, optionally written to a
+ * Talk state key. The request builders in llm-client.ts send the schema
+ * natively where the model supports it; this module holds the parts
+ * that don't depend on the provider — checking the requested schema,
+ * the prompt instruction every model gets, validating the reply and the
+ * repair prompt the router sends back on a mismatch.
+ *
+ * Replies are validated with zod's JSON Schema importer, so the
+ * supported keyword set is whatever `z.fromJSONSchema` understands; a
+ * schema it can't compile is rejected when the request is made rather
+ * than when the run finishes.
+ */
+
+import { z } from 'zod';
+
+import { validateStateKey } from '../db/context-accessors.js';
+import type { LlmResponseSchema } from './llm-client.js';
+
+export const MAX_RESPONSE_SCHEMA_BYTES = 16_000;
+
+/**
+ * Corrective turns the router allows after the first reply fails
+ * validation. Each one re-sends the conversation, so keep it small.
+ */
+export const MAX_STRUCTURED_OUTPUT_REPAIRS = 2;
+
+// OpenAI and Codex reject schema names outside this set.
+const SCHEMA_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const MAX_SCHEMA_DESCRIPTION_LENGTH = 500;
+const MAX_REPORTED_ISSUES = 10;
+
+/**
+ * What a job or chat request asked for: the schema the reply must match
+ * and, when set, the Talk state key the parsed object is written to.
+ * Stored on talk_jobs.structured_output_json and on the run's
+ * metadata_json under `structuredOutput`.
+ */
+export interface StructuredOutputConfig extends LlmResponseSchema {
+  stateKey: string | null;
+}
+
+export type StructuredOutputParseResult =
+  { ok: true; value: unknown } | { ok: false; error: string };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Validate a requested structured-output config. Null or undefined
+ * means none; anything else must be `{ schema, name?, description?,
+ * stateKey? }`. Throws with a user-facing message.
+ */
+export function normalizeStructuredOutputConfig(
+  raw: unknown,
+): StructuredOutputConfig | null {
+  if (raw === null || raw === undefined) return null;
+  if (!isPlainObject(raw)) {
+    throw new Error('Structured output must be an object');
+  }
+
+  const name =
+    raw.name === undefined || raw.name === null
+      ? 'response'
+      : typeof raw.name === 'string'
+        ? raw.name.trim()
+        : '';
+  if (!SCHEMA_NAME_PATTERN.test(name)) {
+    throw new Error(
+      'Structured output name must be 1-64 letters, digits, underscores or hyphens',
+    );
+  }
+
+  let description: string | undefined;
+  if (raw.description !== undefined && raw.description !== null) {
+    if (typeof raw.description !== 'string') {
+      throw new Error('Structured output description must be a string');
+    }
+    description = raw.description.trim() || undefined;
+    if (description && description.length > MAX_SCHEMA_DESCRIPTION_LENGTH) {
+      throw new Error(
+        `Structured output description must be at most ${MAX_SCHEMA_DESCRIPTION_LENGTH} characters`,
+      );
+    }
+  }
+
+  const schema = raw.schema;
+  if (!isPlainObject(schema)) {
+    throw new Error('Structured output schema must be a JSON schema object');
+  }
+  // Anthropic tool input schemas and OpenAI response formats both
+  // require an object at the root.
+  if (schema.type !== 'object') {
+    throw new Error('Structured output schema must describe an object');
+  }
+  if (
+    Buffer.byteLength(JSON.stringify(schema), 'utf8') >
+    MAX_RESPONSE_SCHEMA_BYTES
+  ) {
+    throw new Error(
+      `Structured output schema exceeds ${MAX_RESPONSE_SCHEMA_BYTES} bytes`,
+    );
+  }
+  try {
+    z.fromJSONSchema(schema);
+  } catch (err) {
+    throw new Error(
+      `Structured output schema is invalid: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  let stateKey: string | null = null;
+  if (raw.stateKey !== undefined && raw.stateKey !== null) {
+    if (typeof raw.stateKey !== 'string') {
+      throw new Error('Structured output stateKey must be a string');
+    }
+    stateKey = validateStateKey(raw.stateKey);
+  }
+
+  return {
+    name,
+    ...(description ? { description } : {}),
+    schema,
+    stateKey,
+  };
+}
+
+export function toResponseSchema(
+  config: StructuredOutputConfig,
+): LlmResponseSchema {
+  return {
+    name: config.name,
+    ...(config.description ? { description: config.description } : {}),
+    schema: config.schema,
+  };
+}
+
+/**
+ * System-prompt section describing the required reply. Sent to every
+ * model, native support or not: it is the only constraint a model
+ * without `supports_json_schema` gets, and it keeps tool-using turns on
+ * providers that drop the native control with tools aimed at the same
+ * shape.
+ */
+export function buildStructuredOutputInstruction(
+  responseSchema: LlmResponseSchema,
+): string {
+  return [
+    '# Response Format',
+    '',
+    `Your final reply must be a single JSON object matching the \`${responseSchema.name}\` JSON schema below, with no prose and no Markdown fences around it.` +
+      (responseSchema.description ? ` ${responseSchema.description}` : ''),
+    '',
+    JSON.stringify(responseSchema.schema, null, 2),
+  ].join('\n');
+}
+
+export function buildStructuredOutputRepairMessage(
+  responseSchema: LlmResponseSchema,
+  error: string,
+): string {
+  return (
+    `Your previous reply did not match the required \`${responseSchema.name}\` JSON schema: ${error}\n\n` +
+    'Reply again with only the corrected JSON object.'
+  );
+}
+
+// Models sometimes wrap JSON in a fence despite the instruction.
+function stripJsonFence(text: string): string {
+  const match = /^```(?:json)?\s*\n?([\s\S]*?)\n?\s*```$/i.exec(text);
+  return match ? match[1] : text;
+}
+
+function describeIssues(error: z.ZodError): string {
+  const issues = error.issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => {
+    const path = issue.path.map(String).join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+  if (error.issues.length > MAX_REPORTED_ISSUES) {
+    issues.push(`…and ${error.issues.length - MAX_REPORTED_ISSUES} more`);
+  }
+  return issues.join('; ');
+}
+
+/**
+ * Parse a reply and validate it against the schema. The error string
+ * is written for the model — it goes back verbatim in the repair turn.
+ */
+export function parseStructuredOutput(
+  text: string,
+  schema: Record<string, unknown>,
+): StructuredOutputParseResult {
+  const candidate = stripJsonFence(text.trim());
+  if (!candidate) {
+    return { ok: false, error: 'the reply was empty.' };
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(candidate);
+  } catch (err) {
+    return {
+      ok: false,
+      error: `the reply is not valid JSON (${err instanceof Error ? err.message : String(err)}).`,
+    };
+  }
+  const result = z.fromJSONSchema(schema).safeParse(value);
+  if (!result.success) {
+    return { ok: false, error: describeIssues(result.error) };
+  }
+  return { ok: true, value };
+}
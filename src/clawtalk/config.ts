@@ -22,14 +22,17 @@ const envConfig = readEnvFile([
   'SLACK_CLIENT_ID',
   'SLACK_CLIENT_SECRET',
   'SLACK_OAUTH_REDIRECT_URI',
+  'SLACK_SIGNING_SECRET',
   'CLAWTALK_PROVIDER_SECRET_KEY',
   'ACCESS_TOKEN_TTL_SEC',
   'REFRESH_TOKEN_TTL_SEC',
   'DEVICE_CODE_TTL_SEC',
   'CLAWTALK_ALLOWED_ORIGINS',
+  'CUSTOM_PROVIDER_PRIVATE_HOSTS',
   'TALK_RUN_POLL_MS',
   'TALK_RUN_MAX_CONCURRENCY',
   'TALK_MOCK_EXECUTION_MS',
+  'TALK_TOOL_APPROVAL_TIMEOUT_MS',
   'TALK_EXECUTOR_DEFAULT_ALIAS',
   'TALK_EXECUTOR_ALIAS_MODEL_MAP_JSON',
   'TALK_EXECUTOR_WEB_GROUP_FOLDER',
@@ -37,9 +40,15 @@ const envConfig = readEnvFile([
   'TALK_CONTEXT_BROWSER_PREFER_HOSTS',
   'TALK_CONTEXT_BROWSER_DISABLE_HOSTS',
   'TALK_CONTEXT_MANAGED_FETCH_ENABLED',
+  'TALK_CONTEXT_MANAGED_FETCH_PROVIDER',
+  'TALK_CONTEXT_MANAGED_FETCH_ACCOUNT_ID',
   'TALK_CONTEXT_MANAGED_FETCH_BASE_URL',
   'TALK_CONTEXT_MANAGED_FETCH_API_KEY',
   'TALK_CONTEXT_MANAGED_FETCH_TIMEOUT_MS',
+  'TALK_CONTEXT_EMBEDDING_PROVIDER',
+  'TALK_CONTEXT_EMBEDDING_MODEL',
+  'TALK_CONTEXT_EMBEDDING_BASE_URL',
+  'TALK_CONTEXT_EMBEDDING_API_KEY',
   'ANTHROPIC_API_KEY',
   'CLAUDE_CODE_OAUTH_TOKEN',
   'ANTHROPIC_AUTH_TOKEN',
@@ -144,6 +153,10 @@ export const SLACK_OAUTH_REDIRECT_URI =
   process.env.SLACK_OAUTH_REDIRECT_URI ||
   envConfig.SLACK_OAUTH_REDIRECT_URI ||
   '';
+// Slack app "Signing Secret" — verifies inbound Events API deliveries
+// (/api/v1/webhooks/slack/events). Unset → the route rejects everything.
+export const SLACK_SIGNING_SECRET =
+  process.env.SLACK_SIGNING_SECRET || envConfig.SLACK_SIGNING_SECRET || '';
 export const CLAWTALK_PROVIDER_SECRET_KEY =
   process.env.CLAWTALK_PROVIDER_SECRET_KEY ||
   envConfig.CLAWTALK_PROVIDER_SECRET_KEY ||
@@ -246,6 +259,16 @@ export const CLAWTALK_ALLOWED_ORIGINS = (
   .map((entry) => entry.trim())
   .filter(Boolean);
 
+// Hosts a workspace's custom LLM provider may reach even though they
+// resolve to a loopback or private address — a self-hosted Ollama or
+// vLLM on the operator's own network (e.g. "127.0.0.1,ollama.internal").
+// Deployment-wide and operator-set; workspaces can't widen it.
+export const CUSTOM_PROVIDER_PRIVATE_HOSTS = parseCsvList(
+  process.env.CUSTOM_PROVIDER_PRIVATE_HOSTS ||
+    envConfig.CUSTOM_PROVIDER_PRIVATE_HOSTS ||
+    '',
+);
+
 const talkRunPollMs = parseInt(
   process.env.TALK_RUN_POLL_MS || envConfig.TALK_RUN_POLL_MS || '500',
   10,
@@ -274,6 +297,20 @@ export const TALK_MOCK_EXECUTION_MS = Number.isFinite(talkMockExecutionMs)
   ? Math.max(0, talkMockExecutionMs)
   : 300;
 
+// How long a run waits on a pending tool approval before auto-denying.
+// Bounded by the queue consumer's wall-clock budget.
+const talkToolApprovalTimeoutMs = parseInt(
+  process.env.TALK_TOOL_APPROVAL_TIMEOUT_MS ||
+    envConfig.TALK_TOOL_APPROVAL_TIMEOUT_MS ||
+    '300000',
+  10,
+);
+export const TALK_TOOL_APPROVAL_TIMEOUT_MS = Number.isFinite(
+  talkToolApprovalTimeoutMs,
+)
+  ? Math.max(5_000, talkToolApprovalTimeoutMs)
+  : 300_000;
+
 export const TALK_EXECUTOR_DEFAULT_ALIAS =
   process.env.TALK_EXECUTOR_DEFAULT_ALIAS ||
   envConfig.TALK_EXECUTOR_DEFAULT_ALIAS ||
@@ -318,6 +355,23 @@ export const TALK_CONTEXT_MANAGED_FETCH_ENABLED =
     envConfig.TALK_CONTEXT_MANAGED_FETCH_ENABLED ||
     'false') === 'true';
 
+// Managed source fetcher (talks/managed-source-fetcher.ts): 'firecrawl'
+// (scrape API, TALK_CONTEXT_MANAGED_FETCH_API_KEY) or 'cloudflare'
+// (Browser Rendering, an API token plus the account id below). BASE_URL
+// overrides the provider's default endpoint.
+export const TALK_CONTEXT_MANAGED_FETCH_PROVIDER = (
+  process.env.TALK_CONTEXT_MANAGED_FETCH_PROVIDER ||
+  envConfig.TALK_CONTEXT_MANAGED_FETCH_PROVIDER ||
+  'firecrawl'
+)
+  .trim()
+  .toLowerCase();
+
+export const TALK_CONTEXT_MANAGED_FETCH_ACCOUNT_ID =
+  process.env.TALK_CONTEXT_MANAGED_FETCH_ACCOUNT_ID ||
+  envConfig.TALK_CONTEXT_MANAGED_FETCH_ACCOUNT_ID ||
+  '';
+
 export const TALK_CONTEXT_MANAGED_FETCH_BASE_URL =
   process.env.TALK_CONTEXT_MANAGED_FETCH_BASE_URL ||
   envConfig.TALK_CONTEXT_MANAGED_FETCH_BASE_URL ||
@@ -340,6 +394,33 @@ export const TALK_CONTEXT_MANAGED_FETCH_TIMEOUT_MS = Number.isFinite(
   ? Math.max(1_000, talkContextManagedTimeoutMs)
   : 30_000;
 
+// Embedding provider for source-chunk retrieval (see
+// talks/embeddings.ts). 'hash' is the deterministic local fallback and
+// needs no credentials; 'openai' speaks the OpenAI-compatible
+// /embeddings API at TALK_CONTEXT_EMBEDDING_BASE_URL.
+export const TALK_CONTEXT_EMBEDDING_PROVIDER = (
+  process.env.TALK_CONTEXT_EMBEDDING_PROVIDER ||
+  envConfig.TALK_CONTEXT_EMBEDDING_PROVIDER ||
+  'hash'
+)
+  .trim()
+  .toLowerCase();
+
+export const TALK_CONTEXT_EMBEDDING_MODEL =
+  process.env.TALK_CONTEXT_EMBEDDING_MODEL ||
+  envConfig.TALK_CONTEXT_EMBEDDING_MODEL ||
+  '';
+
+export const TALK_CONTEXT_EMBEDDING_BASE_URL =
+  process.env.TALK_CONTEXT_EMBEDDING_BASE_URL ||
+  envConfig.TALK_CONTEXT_EMBEDDING_BASE_URL ||
+  'https://api.openai.com/v1';
+
+export const TALK_CONTEXT_EMBEDDING_API_KEY =
+  process.env.TALK_CONTEXT_EMBEDDING_API_KEY ||
+  envConfig.TALK_CONTEXT_EMBEDDING_API_KEY ||
+  '';
+
 export const TALK_EXECUTOR_ANTHROPIC_API_KEY =
   process.env.ANTHROPIC_API_KEY || envConfig.ANTHROPIC_API_KEY || '';
 export const TALK_EXECUTOR_CLAUDE_OAUTH_TOKEN =
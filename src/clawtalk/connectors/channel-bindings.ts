@@ -0,0 +1,125 @@
+// Channel binding view over `workspace_channels`.
+//
+// A Talk run triggered from Slack / Telegram / Discord carries the
+// workspace channel id as its `source_binding_id`. The executor (channel
+// context section), the inbound webhook handler (response_mode) and
+// outbound delivery all read the same flattened view of that row, built here:
+//
+//   - behaviour settings from config_json (response_mode, delivery_mode,
+//     timezone, instructions) with the defaults below;
+//   - connection identity: the Slack install (team) for Slack channels,
+//     the bot itself for Telegram and Discord channels;
+//   - a coarse health flag — 'disconnected' when the credential needed to
+//     talk to the platform is missing.
+
+import {
+  getWorkspaceChannel,
+  type ChannelKind,
+  type WorkspaceChannelRecord,
+} from '../db/connectors-accessors.js';
+import { getWorkspaceSlackInstall } from '../db/slack-installs-accessors.js';
+
+export const CHANNEL_PLATFORM_LABELS: Record<ChannelKind, string> = {
+  slack: 'Slack',
+  telegram: 'Telegram',
+  discord: 'Discord',
+};
+
+export type ChannelResponseMode = 'all' | 'mentions' | 'off';
+export type ChannelDeliveryMode = 'reply' | 'channel';
+
+export interface ChannelBindingSettings {
+  responseMode: ChannelResponseMode;
+  deliveryMode: ChannelDeliveryMode;
+  timezone: string | null;
+  instructions: string | null;
+}
+
+export interface ChannelBinding {
+  id: string;
+  platform: ChannelKind;
+  display_name: string | null;
+  connection_display_name: string;
+  connection_id: string;
+  connection_health_status: 'connected' | 'disconnected';
+  timezone: string | null;
+  response_mode: ChannelResponseMode;
+  delivery_mode: ChannelDeliveryMode;
+  instructions: string | null;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+export function readChannelBindingSettings(
+  config: Record<string, unknown>,
+): ChannelBindingSettings {
+  const responseMode = config.response_mode;
+  const deliveryMode = config.delivery_mode;
+  return {
+    // Mentions-only by default: a freshly linked busy channel shouldn't
+    // start a run for every message.
+    responseMode:
+      responseMode === 'all' || responseMode === 'off'
+        ? responseMode
+        : 'mentions',
+    deliveryMode: deliveryMode === 'channel' ? 'channel' : 'reply',
+    timezone: readString(config.timezone),
+    instructions: readString(config.instructions),
+  };
+}
+
+/**
+ * Talk state key prefix for binding-owned memory (e.g. per-channel
+ * standing notes). Must satisfy STATE_KEY_PATTERN in context-accessors.
+ */
+export function buildChannelBindingStateNamespace(bindingId: string): string {
+  return `channel.${bindingId}.`;
+}
+
+export async function buildChannelBinding(
+  channel: WorkspaceChannelRecord,
+): Promise<ChannelBinding> {
+  const settings = readChannelBindingSettings(channel.config_json);
+  let connectionId: string;
+  let connectionDisplayName: string;
+  let connected: boolean;
+  if (channel.kind === 'slack') {
+    const teamId = readString(channel.config_json.workspace_id) ?? '';
+    const install = teamId ? await getWorkspaceSlackInstall(teamId) : null;
+    connectionId = teamId;
+    connectionDisplayName = install?.team_name ?? (teamId || 'Slack');
+    connected = install !== null;
+  } else {
+    const botUsername = readString(channel.config_json.bot_username);
+    connectionId =
+      readString(channel.config_json.bot_id) ??
+      readString(channel.config_json.application_id) ??
+      channel.id;
+    connectionDisplayName = botUsername
+      ? `@${botUsername}`
+      : `${CHANNEL_PLATFORM_LABELS[channel.kind]} bot`;
+    connected = channel.has_credential;
+  }
+  return {
+    id: channel.id,
+    platform: channel.kind,
+    display_name: channel.display_name,
+    connection_display_name: connectionDisplayName,
+    connection_id: connectionId,
+    connection_health_status:
+      connected && channel.enabled ? 'connected' : 'disconnected',
+    timezone: settings.timezone,
+    response_mode: settings.responseMode,
+    delivery_mode: settings.deliveryMode,
+    instructions: settings.instructions,
+  };
+}
+
+export async function loadChannelBinding(
+  channelId: string,
+): Promise<ChannelBinding | null> {
+  const channel = await getWorkspaceChannel(channelId);
+  return channel ? buildChannelBinding(channel) : null;
+}
@@ -0,0 +1,484 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Depth of open user contexts, so the tests can check that platform
+// sends happen outside any transaction.
+let openContexts = 0;
+
+vi.mock('../../db.js', () => ({
+  withUserContext: vi.fn(async (_userId: string, fn: () => unknown) => {
+    openContexts += 1;
+    try {
+      return await fn();
+    } finally {
+      openContexts -= 1;
+    }
+  }),
+}));
+vi.mock('../../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock('../db/accessors.js', () => ({ getTalkMessageById: vi.fn() }));
+vi.mock('../db/channel-delivery-accessors.js', () => ({
+  createChannelDelivery: vi.fn(),
+  updateChannelDelivery: vi.fn(),
+}));
+vi.mock('../db/connectors-accessors.js', () => ({
+  decryptWorkspaceChannelCredential: vi.fn(),
+  getWorkspaceChannel: vi.fn(),
+}));
+vi.mock('../db/slack-installs-accessors.js', () => ({
+  decryptChannelSlackInstallToken: vi.fn(),
+}));
+vi.mock('./slack-client.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./slack-client.js')>();
+  return { ...actual, postSlackMessage: vi.fn() };
+});
+
+import {
+  getTalkMessageById,
+  type TalkMessageRecord,
+  type TalkRunRecord,
+} from '../db/accessors.js';
+import {
+  createChannelDelivery,
+  updateChannelDelivery,
+  type ChannelDeliveryPatch,
+  type ChannelDeliveryRecord,
+} from '../db/channel-delivery-accessors.js';
+import {
+  getWorkspaceChannel,
+  type WorkspaceChannelRecord,
+} from '../db/connectors-accessors.js';
+import { decryptChannelSlackInstallToken } from '../db/slack-installs-accessors.js';
+import {
+  attemptChannelDelivery,
+  deliverRunChannelReply,
+  reserveChannelSendSlot,
+} from './channel-delivery.js';
+import { SlackApiError, postSlackMessage } from './slack-client.js';
+
+const getMessageMock = vi.mocked(getTalkMessageById);
+const createDeliveryMock = vi.mocked(createChannelDelivery);
+const updateDeliveryMock = vi.mocked(updateChannelDelivery);
+const getChannelMock = vi.mocked(getWorkspaceChannel);
+const slackTokenMock = vi.mocked(decryptChannelSlackInstallToken);
+const postSlackMock = vi.mocked(postSlackMessage);
+
+const NOW_MS = Date.parse('2026-10-19T12:00:00.000Z');
+const FIRST_PART = 'a'.repeat(3_000);
+const SECOND_PART = 'b'.repeat(3_000);
+
+// Each test posts to its own Slack channel so the in-isolate send
+// spacing from earlier tests never delays it.
+let targetSeq = 0;
+
+function slackChannel(
+  input: Partial<WorkspaceChannelRecord> = {},
+): WorkspaceChannelRecord {
+  return {
+    id: 'channel-1',
+    kind: 'slack',
+    display_name: '#support',
+    config_json: { channel_id: 'C-config', response_mode: 'all' },
+    has_credential: true,
+    enc_key_version: 1,
+    enabled: true,
+    created_at: '2026-10-01T00:00:00.000Z',
+    updated_at: '2026-10-01T00:00:00.000Z',
+    created_by: 'user-1',
+    updated_by: 'user-1',
+    bound_talk_count: 1,
+    ...input,
+  };
+}
+
+function replyMessage(content: string): TalkMessageRecord {
+  return {
+    id: 'message-1',
+    talk_id: 'talk-1',
+    thread_id: 'thread-1',
+    owner_id: 'user-1',
+    role: 'assistant',
+    content,
+    created_by: null,
+    created_at: '2026-10-19T11:59:00.000Z',
+    run_id: 'run-1',
+    metadata_json: null,
+    sequence_in_run: 0,
+  };
+}
+
+function delivery(
+  input: Partial<ChannelDeliveryRecord> = {},
+): ChannelDeliveryRecord {
+  targetSeq += 1;
+  return {
+    id: 'delivery-1',
+    run_id: 'run-1',
+    talk_id: 'talk-1',
+    owner_id: 'user-1',
+    channel_id: 'channel-1',
+    message_id: 'message-1',
+    platform: 'slack',
+    target_id: `C-target-${targetSeq}`,
+    thread_key: '1760000000.000100',
+    reply_to_external_id: null,
+    status: 'pending',
+    attempt_count: 0,
+    next_attempt_at: null,
+    external_message_ids: [],
+    last_error: null,
+    suppressed_reason: null,
+    delivered_at: null,
+    created_at: '2026-10-19T11:59:00.000Z',
+    updated_at: '2026-10-19T11:59:00.000Z',
+    ...input,
+  };
+}
+
+function channelRun(input: Partial<TalkRunRecord> = {}): TalkRunRecord {
+  return {
+    id: 'run-1',
+    talk_id: 'talk-1',
+    owner_id: 'user-1',
+    thread_id: 'thread-1',
+    requested_by: 'user-1',
+    status: 'completed',
+    trigger_message_id: 'trigger-1',
+    job_id: null,
+    target_agent_id: 'agent-1',
+    agent_id: 'agent-1',
+    idempotency_key: null,
+    run_kind: 'conversation',
+    response_group_id: null,
+    sequence_index: null,
+    executor_alias: null,
+    executor_model: null,
+    source_binding_id: 'channel-1',
+    source_external_message_id: '1760000000.000100',
+    source_thread_key: '1760000000.000100',
+    task_type: null,
+    selected_mode: null,
+    transport: null,
+    timeout_phase: null,
+    created_at: '2026-10-19T11:58:00.000Z',
+    started_at: '2026-10-19T11:58:01.000Z',
+    ended_at: '2026-10-19T11:59:00.000Z',
+    cancel_reason: null,
+    metadata_json: null,
+    active_tool_families_snapshot: null,
+    credential_kind_snapshot: null,
+    round_id: null,
+    ...input,
+  };
+}
+
+// Patches written through updateChannelDelivery, copied at call time:
+// the send loop keeps appending to the id list it passes.
+let patches: ChannelDeliveryPatch[];
+
+function lastPatch(): ChannelDeliveryPatch {
+  const patch = patches.at(-1);
+  if (!patch) throw new Error('no delivery update recorded');
+  return patch;
+}
+
+function recordPatches(): void {
+  patches = [];
+  updateDeliveryMock.mockImplementation(async (_id, patch) => {
+    patches.push(structuredClone(patch));
+    return null;
+  });
+}
+
+describe('attemptChannelDelivery', () => {
+  let sendContexts: number[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    vi.setSystemTime(NOW_MS);
+    sendContexts = [];
+    getChannelMock.mockResolvedValue(slackChannel());
+    getMessageMock.mockResolvedValue(
+      replyMessage(`${FIRST_PART}\n\n${SECOND_PART}`),
+    );
+    slackTokenMock.mockResolvedValue('xoxb-token');
+    recordPatches();
+    postSlackMock.mockImplementation(async () => {
+      sendContexts.push(openContexts);
+      return { ts: `ts-${sendContexts.length}` };
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends every chunk outside the owner transaction', async () => {
+    const record = delivery();
+    const attempt = attemptChannelDelivery(record);
+    // The second chunk waits out the per-channel spacing.
+    await vi.advanceTimersByTimeAsync(1_100);
+    await attempt;
+
+    expect(postSlackMock).toHaveBeenCalledTimes(2);
+    expect(sendContexts).toEqual([0, 0]);
+    expect(patches).toEqual([
+      { status: 'pending', externalMessageIds: ['ts-1'] },
+      {
+        status: 'sent',
+        attemptCount: 1,
+        nextAttemptAt: null,
+        externalMessageIds: ['ts-1', 'ts-2'],
+        lastError: null,
+        deliveredAt: new Date(NOW_MS + 1_100).toISOString(),
+      },
+    ]);
+  });
+
+  it('resumes after the chunks already posted without re-sending them', async () => {
+    const record = delivery({
+      attempt_count: 1,
+      external_message_ids: ['ts-earlier'],
+    });
+    await attemptChannelDelivery(record);
+
+    expect(postSlackMock).toHaveBeenCalledTimes(1);
+    expect(postSlackMock).toHaveBeenCalledWith({
+      token: 'xoxb-token',
+      channel: record.target_id,
+      text: SECOND_PART,
+      threadTs: record.thread_key,
+    });
+    expect(lastPatch()).toMatchObject({
+      status: 'sent',
+      attemptCount: 2,
+      externalMessageIds: ['ts-earlier', 'ts-1'],
+      lastError: null,
+    });
+  });
+
+  it('retries a rate-limited send after the longer of backoff and Retry-After', async () => {
+    postSlackMock.mockRejectedValue(
+      new SlackApiError('ratelimited', 'Slack rate limited', 429, 90),
+    );
+    await attemptChannelDelivery(
+      delivery({ external_message_ids: ['ts-earlier'] }),
+    );
+
+    expect(lastPatch()).toEqual({
+      status: 'pending',
+      attemptCount: 1,
+      nextAttemptAt: new Date(NOW_MS + 90_000).toISOString(),
+      externalMessageIds: ['ts-earlier'],
+      lastError: 'Slack rate limited',
+    });
+  });
+
+  it('backs off further with each failed attempt', async () => {
+    postSlackMock.mockRejectedValue(
+      new SlackApiError('internal_error', 'Slack internal error', 200),
+    );
+    await attemptChannelDelivery(
+      delivery({ attempt_count: 2, external_message_ids: ['ts-earlier'] }),
+    );
+
+    expect(lastPatch()).toMatchObject({
+      status: 'pending',
+      attemptCount: 3,
+      nextAttemptAt: new Date(NOW_MS + 10 * 60_000).toISOString(),
+    });
+  });
+
+  it('gives up at once on an error that is not worth retrying', async () => {
+    postSlackMock.mockRejectedValue(
+      new SlackApiError('channel_not_found', 'channel_not_found', 200),
+    );
+    await attemptChannelDelivery(
+      delivery({ external_message_ids: ['ts-earlier'] }),
+    );
+
+    expect(postSlackMock).toHaveBeenCalledTimes(1);
+    expect(lastPatch()).toMatchObject({
+      status: 'failed',
+      attemptCount: 1,
+      nextAttemptAt: null,
+      lastError: 'channel_not_found',
+    });
+  });
+
+  it('gives up on a retryable error once the attempts run out', async () => {
+    postSlackMock.mockRejectedValue(new Error('fetch failed'));
+    await attemptChannelDelivery(
+      delivery({ attempt_count: 4, external_message_ids: ['ts-earlier'] }),
+    );
+
+    expect(lastPatch()).toMatchObject({
+      status: 'failed',
+      attemptCount: 5,
+      nextAttemptAt: null,
+      lastError: 'fetch failed',
+    });
+  });
+
+  it('fails without sending when the channel is disabled', async () => {
+    getChannelMock.mockResolvedValue(slackChannel({ enabled: false }));
+    await attemptChannelDelivery(delivery());
+
+    expect(postSlackMock).not.toHaveBeenCalled();
+    expect(lastPatch()).toEqual({
+      status: 'failed',
+      nextAttemptAt: null,
+      lastError: 'channel_unavailable',
+    });
+  });
+});
+
+describe('deliverRunChannelReply', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getChannelMock.mockResolvedValue(slackChannel());
+    getMessageMock.mockImplementation(async (id) =>
+      id === 'trigger-1'
+        ? {
+            ...replyMessage('@agent hello'),
+            id: 'trigger-1',
+            role: 'user',
+            metadata_json: { targetId: `C-trigger-${++targetSeq}` },
+          }
+        : replyMessage('Hello from the agent.'),
+    );
+    slackTokenMock.mockResolvedValue('xoxb-token');
+    createDeliveryMock.mockImplementation(async (input) =>
+      delivery({ target_id: input.targetId }),
+    );
+    recordPatches();
+    postSlackMock.mockResolvedValue({ ts: 'ts-1' });
+  });
+
+  it('records the delivery against the trigger message target and sends it', async () => {
+    await deliverRunChannelReply({
+      run: channelRun(),
+      messageId: 'message-1',
+      control: {
+        suppressDelivery: false,
+        visibleText: 'Hello from the agent.',
+        rationale: null,
+      },
+    });
+
+    const targetId = createDeliveryMock.mock.calls[0][0].targetId;
+    expect(targetId).toMatch(/^C-trigger-/);
+    expect(postSlackMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: targetId,
+        text: 'Hello from the agent.',
+      }),
+    );
+    expect(lastPatch()).toMatchObject({ status: 'sent' });
+  });
+
+  it.each([
+    [
+      'the agent opted out',
+      { suppressDelivery: true, visibleText: '', rationale: 'not for me' },
+      'not for me',
+      { response_mode: 'all' },
+    ],
+    [
+      'the reply is empty',
+      { suppressDelivery: false, visibleText: '  ', rationale: null },
+      'empty_response',
+      { response_mode: 'all' },
+    ],
+    [
+      'the binding is muted',
+      { suppressDelivery: false, visibleText: 'Hi', rationale: null },
+      'response_mode_off',
+      { response_mode: 'off' },
+    ],
+  ])(
+    'records a suppressed delivery and sends nothing when %s',
+    async (_label, control, suppressedReason, config) => {
+      getChannelMock.mockResolvedValue(slackChannel({ config_json: config }));
+      await deliverRunChannelReply({
+        run: channelRun(),
+        messageId: 'message-1',
+        control,
+      });
+
+      expect(postSlackMock).not.toHaveBeenCalled();
+      expect(lastPatch()).toEqual({ status: 'suppressed', suppressedReason });
+    },
+  );
+
+  it('leaves a delivery an earlier queue message already attempted alone', async () => {
+    createDeliveryMock.mockResolvedValue(
+      delivery({ attempt_count: 1, next_attempt_at: '2026-10-19T12:05:00Z' }),
+    );
+    await deliverRunChannelReply({
+      run: channelRun(),
+      messageId: 'message-1',
+      control: { suppressDelivery: false, visibleText: 'Hi', rationale: null },
+    });
+
+    expect(postSlackMock).not.toHaveBeenCalled();
+    expect(updateDeliveryMock).not.toHaveBeenCalled();
+  });
+
+  it('ignores runs that did not come from a channel', async () => {
+    await expect(
+      deliverRunChannelReply({
+        run: channelRun({ source_binding_id: null }),
+        messageId: 'message-1',
+        control: {
+          suppressDelivery: false,
+          visibleText: 'Hi',
+          rationale: null,
+        },
+      }),
+    ).resolves.toBeNull();
+    expect(createDeliveryMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('reserveChannelSendSlot', () => {
+  const NOW_MS = 1_760_000_000_000;
+
+  it('spaces consecutive sends to one target by the interval', () => {
+    const key = 'slack:C-spacing';
+    expect(reserveChannelSendSlot(key, 1_000, NOW_MS)).toEqual({
+      granted: true,
+      waitMs: 0,
+    });
+    expect(reserveChannelSendSlot(key, 1_000, NOW_MS + 200)).toEqual({
+      granted: true,
+      waitMs: 800,
+    });
+    expect(reserveChannelSendSlot(key, 1_000, NOW_MS + 200)).toEqual({
+      granted: true,
+      waitMs: 1_800,
+    });
+    // Other targets are independent.
+    expect(reserveChannelSendSlot('slack:C-other', 1_000, NOW_MS)).toEqual({
+      granted: true,
+      waitMs: 0,
+    });
+  });
+
+  it('refuses, without reserving, a slot past the maximum wait', () => {
+    const key = 'telegram:-100-busy';
+    reserveChannelSendSlot(key, 3_000, NOW_MS, 5_000);
+    reserveChannelSendSlot(key, 3_000, NOW_MS, 5_000);
+    expect(reserveChannelSendSlot(key, 3_000, NOW_MS, 5_000)).toEqual({
+      granted: false,
+      waitMs: 6_000,
+    });
+    // The refusal did not push the next slot further out.
+    expect(reserveChannelSendSlot(key, 3_000, NOW_MS + 1_000, 5_000)).toEqual({
+      granted: true,
+      waitMs: 5_000,
+    });
+  });
+});
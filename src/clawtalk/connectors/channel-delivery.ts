@@ -0,0 +1,517 @@
+// Outbound channel delivery.
+//
+// A run started by a Slack / Telegram / Discord message
+// (channel-inbound.ts) carries source_binding_id / source_thread_key.
+// When it completes, the queue consumer calls `deliverRunChannelReply`,
+// which records a `channel_deliveries` row (migration 0041) and posts
+// the assistant message back to where the conversation started:
+//
+//   - Slack: chat.postMessage with the workspace install's bot token,
+//     into the source thread when the binding's delivery_mode is 'reply'
+//   - Telegram: sendMessage with the channel's bot token, replying to the
+//     inbound message in 'reply' mode and always inside its forum topic
+//   - Discord: a channel message with the channel's bot token, into the
+//     channel (or thread) the /ask command came from — a slash command
+//     has no message to reply to, so delivery_mode doesn't apply
+//
+// The agent decides whether to speak: a reply carrying
+// [[NO_CHANNEL_REPLY]] (internal-tags.ts) is recorded as 'suppressed'
+// and nothing is sent.
+//
+// Replies are converted from markdown (channel-formatting.ts) and split
+// into platform-sized chunks. Sends to one target are spaced out by an
+// in-isolate limiter; a send that would wait too long, a platform 429,
+// or a network / 5xx failure leaves the row 'pending' with a
+// next_attempt_at, and the scheduler tick retries it
+// (`attemptChannelDelivery`). Chunks already posted are recorded on the
+// row so a retry resumes instead of re-posting.
+//
+// Each database step opens the owner's user context for itself. The
+// sends and the waits for a send slot run outside any transaction, so a
+// slow platform never holds a connection and the row's locks.
+
+import { withUserContext } from '../../db.js';
+import { getTalkMessageById, type TalkRunRecord } from '../db/accessors.js';
+import {
+  createChannelDelivery,
+  updateChannelDelivery,
+  type ChannelDeliveryRecord,
+} from '../db/channel-delivery-accessors.js';
+import {
+  decryptWorkspaceChannelCredential,
+  getWorkspaceChannel,
+  type WorkspaceChannelRecord,
+} from '../db/connectors-accessors.js';
+import { decryptChannelSlackInstallToken } from '../db/slack-installs-accessors.js';
+import { logger } from '../../logger.js';
+import type { ChannelReplyControl } from '../talks/internal-tags.js';
+
+import {
+  readChannelBindingSettings,
+  type ChannelBindingSettings,
+} from './channel-bindings.js';
+import { DiscordApiError, createDiscordMessage } from './discord-client.js';
+import {
+  markdownToSlackMrkdwn,
+  markdownToTelegramHtml,
+  splitMarkdownForDelivery,
+} from './channel-formatting.js';
+import { SlackApiError, postSlackMessage } from './slack-client.js';
+import { TelegramApiError, sendTelegramMessage } from './telegram-client.js';
+
+// Chunk sizes in markdown characters. Slack truncates text past 40k but
+// recommends staying under 4000; Telegram rejects anything over 4096
+// after entity parsing. Both leave room for formatting expansion.
+// Discord renders markdown itself and hard-limits content to 2000.
+const SLACK_CHUNK_CHARS = 3500;
+const TELEGRAM_CHUNK_CHARS = 3000;
+const DISCORD_CHUNK_CHARS = 1900;
+
+// Per-target spacing. chat.postMessage allows roughly one message per
+// second per channel; Telegram allows 20 messages a minute in a group
+// and about one a second in a private chat; Discord allows five
+// messages per five seconds per channel.
+const SLACK_SEND_INTERVAL_MS = 1_100;
+const DISCORD_SEND_INTERVAL_MS = 1_100;
+const TELEGRAM_GROUP_SEND_INTERVAL_MS = 3_000;
+const TELEGRAM_PRIVATE_SEND_INTERVAL_MS = 1_000;
+
+// Longest the consumer sleeps for a send slot before handing the rest of
+// the reply to the scheduler tick instead.
+const MAX_INLINE_SEND_WAIT_MS = 5_000;
+
+// Backoff after the Nth failed attempt; the last entry repeats.
+const RETRY_BACKOFF_MS = [30_000, 2 * 60_000, 10 * 60_000, 30 * 60_000];
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Slack error codes that are worth retrying. Everything else
+// (channel_not_found, not_in_channel, invalid_auth, token_revoked,
+// msg_too_long, ...) fails the delivery immediately.
+const SLACK_RETRYABLE_ERRORS = new Set([
+  'ratelimited',
+  'internal_error',
+  'fatal_error',
+  'service_unavailable',
+  'request_timeout',
+]);
+
+// ---------------------------------------------------------------------------
+// Per-target send spacing
+// ---------------------------------------------------------------------------
+
+// Next free send time per "<platform>:<target>". Module state, so it only
+// spaces sends within one isolate; platform 429s (retried with their
+// Retry-After) cover the rest.
+const nextSendSlotByTarget = new Map<string, number>();
+const MAX_TRACKED_SEND_TARGETS = 1_000;
+
+/**
+ * Reserve the next send slot for `key`. Granted slots report how long
+ * the caller must wait first; a slot further out than `maxWaitMs` is not
+ * reserved at all.
+ */
+export function reserveChannelSendSlot(
+  key: string,
+  intervalMs: number,
+  nowMs: number = Date.now(),
+  maxWaitMs: number = MAX_INLINE_SEND_WAIT_MS,
+): { granted: boolean; waitMs: number } {
+  const nextFree = nextSendSlotByTarget.get(key) ?? 0;
+  const waitMs = Math.max(0, nextFree - nowMs);
+  if (waitMs > maxWaitMs) return { granted: false, waitMs };
+  if (nextSendSlotByTarget.size >= MAX_TRACKED_SEND_TARGETS) {
+    for (const [trackedKey, slot] of nextSendSlotByTarget) {
+      if (slot <= nowMs) nextSendSlotByTarget.delete(trackedKey);
+    }
+  }
+  nextSendSlotByTarget.set(key, Math.max(nextFree, nowMs) + intervalMs);
+  return { granted: true, waitMs };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Platform senders
+// ---------------------------------------------------------------------------
+
+interface ChannelSender {
+  chunkChars: number;
+  intervalMs: number;
+  /** Post one markdown chunk; resolves to the platform message id. */
+  send(chunk: string, index: number): Promise<string>;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseTelegramInt(value: string | undefined): number | null {
+  if (!value || !/^-?\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+async function buildSlackSender(
+  channel: WorkspaceChannelRecord,
+  record: ChannelDeliveryRecord,
+  settings: ChannelBindingSettings,
+): Promise<ChannelSender | null> {
+  const token = await decryptChannelSlackInstallToken(channel.id);
+  if (!token) return null;
+  const threadTs = settings.deliveryMode === 'reply' ? record.thread_key : null;
+  return {
+    chunkChars: SLACK_CHUNK_CHARS,
+    intervalMs: SLACK_SEND_INTERVAL_MS,
+    send: async (chunk) => {
+      const posted = await postSlackMessage({
+        token,
+        channel: record.target_id,
+        text: markdownToSlackMrkdwn(chunk),
+        threadTs,
+      });
+      return posted.ts;
+    },
+  };
+}
+
+function isTelegramEntityParseError(err: unknown): boolean {
+  return (
+    err instanceof TelegramApiError &&
+    err.errorCode === 400 &&
+    /can't parse entities/i.test(err.message)
+  );
+}
+
+async function buildTelegramSender(
+  channel: WorkspaceChannelRecord,
+  record: ChannelDeliveryRecord,
+  settings: ChannelBindingSettings,
+): Promise<ChannelSender | null> {
+  const credential = await decryptWorkspaceChannelCredential(channel.id);
+  if (!credential?.apiKey) return null;
+  const botToken = credential.apiKey;
+  // thread_key is "<chat>" or "<chat>:<topic>"; the inbound message id
+  // is "<chat>:<message_id>" (channel-inbound.ts).
+  const messageThreadId = parseTelegramInt(record.thread_key?.split(':')[1]);
+  const replyToMessageId =
+    settings.deliveryMode === 'reply'
+      ? parseTelegramInt(record.reply_to_external_id?.split(':')[1])
+      : null;
+  return {
+    chunkChars: TELEGRAM_CHUNK_CHARS,
+    intervalMs: record.target_id.startsWith('-')
+      ? TELEGRAM_GROUP_SEND_INTERVAL_MS
+      : TELEGRAM_PRIVATE_SEND_INTERVAL_MS,
+    send: async (chunk, index) => {
+      const base = {
+        botToken,
+        chatId: record.target_id,
+        messageThreadId,
+        replyToMessageId: index === 0 ? replyToMessageId : null,
+      };
+      let sent;
+      try {
+        sent = await sendTelegramMessage({
+          ...base,
+          text: markdownToTelegramHtml(chunk),
+          parseMode: 'HTML',
+        });
+      } catch (err) {
+        // The HTML converter is forgiving, not exhaustive. If Telegram
+        // rejects the markup, plain markdown still reads fine.
+        if (!isTelegramEntityParseError(err)) throw err;
+        sent = await sendTelegramMessage({ ...base, text: chunk });
+      }
+      return String(sent.message_id);
+    },
+  };
+}
+
+async function buildDiscordSender(
+  channel: WorkspaceChannelRecord,
+  record: ChannelDeliveryRecord,
+): Promise<ChannelSender | null> {
+  const credential = await decryptWorkspaceChannelCredential(channel.id);
+  if (!credential?.apiKey) return null;
+  const botToken = credential.apiKey;
+  return {
+    chunkChars: DISCORD_CHUNK_CHARS,
+    intervalMs: DISCORD_SEND_INTERVAL_MS,
+    send: async (chunk) => {
+      const sent = await createDiscordMessage({
+        botToken,
+        channelId: record.target_id,
+        content: chunk,
+      });
+      return sent.id;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+function classifyDeliveryError(err: unknown): {
+  retryable: boolean;
+  retryAfterSec: number | null;
+  message: string;
+} {
+  if (err instanceof SlackApiError) {
+    return {
+      retryable:
+        err.httpStatus === 429 ||
+        err.httpStatus >= 500 ||
+        SLACK_RETRYABLE_ERRORS.has(err.slackError),
+      retryAfterSec: err.retryAfterSec,
+      message: err.message,
+    };
+  }
+  if (err instanceof TelegramApiError) {
+    return {
+      retryable: err.errorCode === 429 || err.errorCode >= 500,
+      retryAfterSec: err.retryAfterSec,
+      message: err.message,
+    };
+  }
+  if (err instanceof DiscordApiError) {
+    return {
+      retryable: err.httpStatus === 429 || err.httpStatus >= 500,
+      retryAfterSec: err.retryAfterSec,
+      message: err.message,
+    };
+  }
+  // fetch() network failures and timeouts.
+  return {
+    retryable: true,
+    retryAfterSec: null,
+    message: err instanceof Error ? err.message : String(err),
+  };
+}
+
+function isoAfter(ms: number): string {
+  return new Date(Date.now() + ms).toISOString();
+}
+
+async function saveDelivery(
+  record: ChannelDeliveryRecord,
+  patch: Parameters<typeof updateChannelDelivery>[1],
+): Promise<ChannelDeliveryRecord> {
+  return withUserContext(
+    record.owner_id,
+    async () => (await updateChannelDelivery(record.id, patch)) ?? record,
+  );
+}
+
+// Loads what a send needs: the reply chunks and a sender holding the
+// decrypted credential. A string is the reason the delivery can't go
+// out at all.
+async function prepareDelivery(
+  record: ChannelDeliveryRecord,
+): Promise<{ sender: ChannelSender; chunks: string[] } | string> {
+  const channel = record.channel_id
+    ? await getWorkspaceChannel(record.channel_id)
+    : null;
+  if (!channel || !channel.enabled) return 'channel_unavailable';
+  const message = record.message_id
+    ? await getTalkMessageById(record.message_id)
+    : undefined;
+  if (!message) return 'message_missing';
+
+  const settings = readChannelBindingSettings(channel.config_json);
+  const sender =
+    channel.kind === 'slack'
+      ? await buildSlackSender(channel, record, settings)
+      : channel.kind === 'discord'
+        ? await buildDiscordSender(channel, record)
+        : await buildTelegramSender(channel, record, settings);
+  if (!sender) return 'credential_missing';
+  return {
+    sender,
+    chunks: splitMarkdownForDelivery(message.content, sender.chunkChars),
+  };
+}
+
+/**
+ * Send (or resume sending) a pending delivery as the row's owner. Never
+ * throws for platform errors — the outcome is written to the row — but
+ * database errors propagate. Call it outside any user context.
+ */
+export async function attemptChannelDelivery(
+  record: ChannelDeliveryRecord,
+): Promise<ChannelDeliveryRecord> {
+  const prepared = await withUserContext(record.owner_id, () =>
+    prepareDelivery(record),
+  );
+  if (typeof prepared === 'string') {
+    return saveDelivery(record, {
+      status: 'failed',
+      nextAttemptAt: null,
+      lastError: prepared,
+    });
+  }
+
+  const { sender, chunks } = prepared;
+  const sent = [...record.external_message_ids];
+  const attemptCount = record.attempt_count + 1;
+  try {
+    for (let index = sent.length; index < chunks.length; index++) {
+      const slot = reserveChannelSendSlot(
+        `${record.platform}:${record.target_id}`,
+        sender.intervalMs,
+      );
+      if (!slot.granted) {
+        // Our own spacing, not a failure: no attempt is counted.
+        return saveDelivery(record, {
+          status: 'pending',
+          nextAttemptAt: isoAfter(slot.waitMs),
+          externalMessageIds: sent,
+        });
+      }
+      if (slot.waitMs > 0) await sleep(slot.waitMs);
+      sent.push(await sender.send(chunks[index], index));
+      if (index < chunks.length - 1) {
+        await saveDelivery(record, {
+          status: 'pending',
+          externalMessageIds: sent,
+        });
+      }
+    }
+  } catch (err) {
+    const failure = classifyDeliveryError(err);
+    const retry = failure.retryable && attemptCount < MAX_DELIVERY_ATTEMPTS;
+    logger.warn(
+      {
+        err,
+        deliveryId: record.id,
+        runId: record.run_id,
+        platform: record.platform,
+        attemptCount,
+        retry,
+      },
+      'channel-delivery: send failed',
+    );
+    const backoffMs = Math.max(
+      RETRY_BACKOFF_MS[Math.min(attemptCount, RETRY_BACKOFF_MS.length) - 1],
+      (failure.retryAfterSec ?? 0) * 1000,
+    );
+    return saveDelivery(record, {
+      status: retry ? 'pending' : 'failed',
+      attemptCount,
+      nextAttemptAt: retry ? isoAfter(backoffMs) : null,
+      externalMessageIds: sent,
+      lastError: failure.message,
+    });
+  }
+
+  return saveDelivery(record, {
+    status: 'sent',
+    attemptCount,
+    nextAttemptAt: null,
+    externalMessageIds: sent,
+    lastError: null,
+    deliveredAt: new Date().toISOString(),
+  });
+}
+
+type RunChannelReplyInput = {
+  run: TalkRunRecord;
+  messageId: string;
+  control: ChannelReplyControl;
+};
+
+// Records the delivery row for a run, or settles it as suppressed.
+// `send` is false when there is nothing left to send now.
+async function recordRunChannelDelivery(
+  input: RunChannelReplyInput,
+  sourceChannelId: string,
+  talkId: string,
+): Promise<{ record: ChannelDeliveryRecord; send: boolean } | null> {
+  const { run } = input;
+  const channel = await getWorkspaceChannel(sourceChannelId);
+  if (!channel) {
+    logger.warn(
+      { runId: run.id, channelId: sourceChannelId },
+      'channel-delivery: source channel no longer exists; reply not sent',
+    );
+    return null;
+  }
+  // The trigger message remembers the exact target (a Slack channel can
+  // be linked by id alone; a Telegram or Discord bot may sit in several
+  // chats).
+  const trigger = run.trigger_message_id
+    ? await getTalkMessageById(run.trigger_message_id)
+    : undefined;
+  const targetId =
+    readString(trigger?.metadata_json?.targetId) ??
+    readString(
+      channel.config_json[
+        channel.kind === 'telegram' ? 'chat_id' : 'channel_id'
+      ],
+    );
+  if (!targetId) {
+    logger.warn(
+      { runId: run.id, channelId: channel.id },
+      'channel-delivery: no delivery target for run; reply not sent',
+    );
+    return null;
+  }
+
+  const record = await createChannelDelivery({
+    runId: run.id,
+    talkId,
+    ownerId: run.owner_id,
+    channelId: channel.id,
+    messageId: input.messageId,
+    platform: channel.kind,
+    targetId,
+    threadKey: run.source_thread_key,
+    replyToExternalId: run.source_external_message_id,
+  });
+  // Already handled by an earlier delivery of this run's queue message.
+  if (
+    record.status !== 'pending' ||
+    record.attempt_count > 0 ||
+    record.next_attempt_at !== null
+  ) {
+    return { record, send: false };
+  }
+
+  const suppressedReason = input.control.suppressDelivery
+    ? input.control.rationale || 'no_channel_reply'
+    : !input.control.visibleText.trim()
+      ? 'empty_response'
+      : readChannelBindingSettings(channel.config_json).responseMode === 'off'
+        ? 'response_mode_off'
+        : null;
+  if (suppressedReason) {
+    const suppressed = await saveDelivery(record, {
+      status: 'suppressed',
+      suppressedReason,
+    });
+    return { record: suppressed, send: false };
+  }
+  return { record, send: true };
+}
+
+/**
+ * Record and send the reply for a completed channel-triggered run.
+ * Returns null for runs that did not come from a channel. Opens the
+ * owner's user context itself; call it outside one.
+ */
+export async function deliverRunChannelReply(
+  input: RunChannelReplyInput,
+): Promise<ChannelDeliveryRecord | null> {
+  const { run } = input;
+  const sourceChannelId = run.source_binding_id;
+  const talkId = run.talk_id;
+  if (!sourceChannelId || !talkId) return null;
+  const recorded = await withUserContext(run.owner_id, () =>
+    recordRunChannelDelivery(input, sourceChannelId, talkId),
+  );
+  if (!recorded) return null;
+  return recorded.send
+    ? attemptChannelDelivery(recorded.record)
+    : recorded.record;
+}
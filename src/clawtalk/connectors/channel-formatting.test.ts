@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  markdownToSlackMrkdwn,
+  markdownToTelegramHtml,
+  splitMarkdownForDelivery,
+} from './channel-formatting.js';
+
+describe('markdownToSlackMrkdwn', () => {
+  it('converts emphasis, headings, bullets and links', () => {
+    expect(
+      markdownToSlackMrkdwn(
+        [
+          '## Release notes',
+          '',
+          '- **Fixed** the _flaky_ sync',
+          '* see [the PR](https://example.com/pr/1)',
+          '~~old~~ and *new*',
+        ].join('\n'),
+      ),
+    ).toBe(
+      [
+        '*Release notes*',
+        '',
+        '• *Fixed* the _flaky_ sync',
+        '• see <https://example.com/pr/1|the PR>',
+        '~old~ and _new_',
+      ].join('\n'),
+    );
+  });
+
+  it('escapes control characters outside code and keeps code verbatim', () => {
+    expect(
+      markdownToSlackMrkdwn(
+        'a < b & c `x **y**` done\n```ts\nif (a < b) {}\n```',
+      ),
+    ).toBe('a &lt; b &amp; c `x **y**` done\n```\nif (a &lt; b) {}\n```');
+  });
+
+  it('keeps quotes and does not treat text after inline code as a new line', () => {
+    expect(markdownToSlackMrkdwn('> quoted\nrun `ls` > out')).toBe(
+      '>quoted\nrun `ls` &gt; out',
+    );
+  });
+});
+
+describe('markdownToTelegramHtml', () => {
+  it('emits the Telegram HTML subset', () => {
+    expect(
+      markdownToTelegramHtml(
+        '# Title\n**bold** _it_ ~~gone~~ [site](https://a.test/?q="x")',
+      ),
+    ).toBe(
+      '<b>Title</b>\n<b>bold</b> <i>it</i> <s>gone</s> <a href="https://a.test/?q=&quot;x&quot;">site</a>',
+    );
+  });
+
+  it('renders code and groups consecutive quoted lines', () => {
+    expect(
+      markdownToTelegramHtml(
+        '> one\n> two\nuse `a<b>`\n```py\nprint("hi")\n```',
+      ),
+    ).toBe(
+      '<blockquote>one\ntwo</blockquote>\nuse <code>a&lt;b&gt;</code>\n<pre><code class="language-py">print(&quot;hi&quot;)</code></pre>',
+    );
+  });
+});
+
+describe('splitMarkdownForDelivery', () => {
+  it('returns short replies as one chunk', () => {
+    expect(splitMarkdownForDelivery('  hello\n\nworld  ', 100)).toEqual([
+      'hello\n\nworld',
+    ]);
+  });
+
+  it('packs paragraphs up to the limit', () => {
+    const paragraphs = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)];
+    expect(splitMarkdownForDelivery(paragraphs.join('\n\n'), 90)).toEqual([
+      `${paragraphs[0]}\n\n${paragraphs[1]}`,
+      paragraphs[2],
+    ]);
+  });
+
+  it('keeps code fences whole and re-fences oversized ones', () => {
+    const fence = '```\nline one\n\nline two\n```';
+    expect(splitMarkdownForDelivery(`intro\n\n${fence}`, 30)).toEqual([
+      'intro',
+      fence,
+    ]);
+
+    const longFence = `\`\`\`js\n${Array.from({ length: 6 }, (_, i) => `const v${i} = ${i};`).join('\n')}\n\`\`\``;
+    const chunks = splitMarkdownForDelivery(longFence, 60);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(60);
+      expect(chunk.startsWith('```js\n')).toBe(true);
+      expect(chunk.endsWith('\n```')).toBe(true);
+    }
+  });
+
+  it('hard-splits a single line longer than the limit', () => {
+    expect(splitMarkdownForDelivery('x'.repeat(25), 10)).toEqual([
+      'x'.repeat(10),
+      'x'.repeat(10),
+      'x'.repeat(5),
+    ]);
+  });
+});
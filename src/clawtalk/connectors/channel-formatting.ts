@@ -0,0 +1,358 @@
+// Agent markdown → platform message text.
+//
+// Agents answer in CommonMark-ish markdown. Slack renders its own
+// `mrkdwn` dialect (*bold*, _italic_, ~strike~, <url|label>) and
+// Telegram takes a small HTML subset (parse_mode=HTML). Neither accepts
+// the other's syntax, and raw markdown reads badly in both, so outbound
+// delivery converts here.
+//
+// The converters are deliberately line-oriented and forgiving: code
+// fences and inline code are cut out first and passed through verbatim
+// (escaped), links are stashed behind placeholders so emphasis rules
+// never see a URL, and anything unrecognized stays literal text.
+//
+// `splitMarkdownForDelivery` chunks a long reply before conversion so a
+// split never lands inside a tag or an open code fence.
+
+const LINK_RE = /!?\[([^\]\n]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+const FENCE_RE = /```([\w+#.-]*)[^\S\n]*\n?([\s\S]*?)(?:```|$)/g;
+const INLINE_CODE_RE = /`([^`\n]+)`/g;
+const HEADING_RE = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+const BULLET_RE = /^(\s*)[-*+]\s+(.*)$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+// Private-use code points as placeholders; they never occur in agent text.
+const LINK_PLACEHOLDER = '\uE000';
+const BOLD_PLACEHOLDER = '\uE001';
+
+interface Segment {
+  kind: 'text' | 'inline_code' | 'fence';
+  text: string;
+  lang: string | null;
+  // Text segments only: false when the segment starts mid-line (right
+  // after inline code), so its first line gets no heading / bullet /
+  // quote treatment.
+  atLineStart: boolean;
+}
+
+function splitCodeSegments(markdown: string): Segment[] {
+  const segments: Segment[] = [];
+  const pushText = (text: string, offset: number) => {
+    const atLineStart = (index: number) =>
+      offset + index === 0 || markdown[offset + index - 1] === '\n';
+    let last = 0;
+    for (const match of text.matchAll(INLINE_CODE_RE)) {
+      if (match.index > last) {
+        segments.push({
+          kind: 'text',
+          text: text.slice(last, match.index),
+          lang: null,
+          atLineStart: atLineStart(last),
+        });
+      }
+      segments.push({
+        kind: 'inline_code',
+        text: match[1],
+        lang: null,
+        atLineStart: false,
+      });
+      last = match.index + match[0].length;
+    }
+    if (last < text.length) {
+      segments.push({
+        kind: 'text',
+        text: text.slice(last),
+        lang: null,
+        atLineStart: atLineStart(last),
+      });
+    }
+  };
+  let last = 0;
+  for (const match of markdown.matchAll(FENCE_RE)) {
+    if (match.index > last) pushText(markdown.slice(last, match.index), last);
+    segments.push({
+      kind: 'fence',
+      text: match[2].replace(/\n$/, ''),
+      lang: match[1] || null,
+      atLineStart: true,
+    });
+    last = match.index + match[0].length;
+  }
+  if (last < markdown.length) pushText(markdown.slice(last), last);
+  return segments;
+}
+
+interface InlineDialect {
+  escape: (text: string) => string;
+  link: (label: string, url: string) => string;
+  bold: (text: string) => string;
+  italic: (text: string) => string;
+  strike: (text: string) => string;
+}
+
+function convertEmphasis(text: string, dialect: InlineDialect): string {
+  return (
+    text
+      // Bold first, behind a placeholder, so the single-`*` italic rule
+      // below can't re-read its markers.
+      .replace(
+        /\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__/g,
+        (_match, a: string | undefined, b: string | undefined) =>
+          `${BOLD_PLACEHOLDER}${a ?? b}${BOLD_PLACEHOLDER}`,
+      )
+      .replace(
+        /(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g,
+        (_match, lead: string, inner: string) =>
+          `${lead}${dialect.italic(inner)}`,
+      )
+      .replace(
+        /(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g,
+        (_match, lead: string, inner: string) =>
+          `${lead}${dialect.italic(inner)}`,
+      )
+      .replace(/~~(?=\S)([^~\n]*?\S)~~/g, (_match, inner: string) =>
+        dialect.strike(inner),
+      )
+      .replace(
+        new RegExp(`${BOLD_PLACEHOLDER}([\\s\\S]*?)${BOLD_PLACEHOLDER}`, 'g'),
+        (_match, inner: string) => dialect.bold(inner),
+      )
+  );
+}
+
+interface ConvertedLine {
+  quote: boolean;
+  text: string;
+}
+
+function convertTextSegment(
+  segment: Segment,
+  dialect: InlineDialect,
+): ConvertedLine[] {
+  const text = segment.text;
+  const links: string[] = [];
+  const stashed = text.replace(
+    LINK_RE,
+    (_match, label: string, url: string) => {
+      links.push(dialect.link(label.trim(), url));
+      return `${LINK_PLACEHOLDER}${links.length - 1}${LINK_PLACEHOLDER}`;
+    },
+  );
+  const restoreLinks = (value: string) =>
+    value.replace(
+      new RegExp(`${LINK_PLACEHOLDER}(\\d+)${LINK_PLACEHOLDER}`, 'g'),
+      (_match, index: string) => links[Number(index)] ?? '',
+    );
+
+  return stashed.split('\n').map((rawLine, index) => {
+    let line = rawLine;
+    let quote = false;
+    if (index === 0 && !segment.atLineStart) {
+      return {
+        quote,
+        text: restoreLinks(convertEmphasis(dialect.escape(line), dialect)),
+      };
+    }
+    const quoteMatch = QUOTE_RE.exec(line);
+    if (quoteMatch) {
+      quote = true;
+      line = quoteMatch[1];
+    }
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      const body = convertEmphasis(dialect.escape(heading[1]), dialect);
+      return { quote, text: restoreLinks(dialect.bold(body)) };
+    }
+    const bullet = BULLET_RE.exec(line);
+    const prefix = bullet ? `${bullet[1]}• ` : '';
+    const body = bullet ? bullet[2] : line;
+    return {
+      quote,
+      text: restoreLinks(
+        prefix + convertEmphasis(dialect.escape(body), dialect),
+      ),
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Slack mrkdwn
+// ---------------------------------------------------------------------------
+
+function escapeSlack(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+const SLACK_DIALECT: InlineDialect = {
+  escape: escapeSlack,
+  link: (label, url) =>
+    label && label !== url
+      ? `<${escapeSlack(url)}|${escapeSlack(label).replace(/\|/g, '¦')}>`
+      : `<${escapeSlack(url)}>`,
+  bold: (text) => `*${text}*`,
+  italic: (text) => `_${text}_`,
+  strike: (text) => `~${text}~`,
+};
+
+export function markdownToSlackMrkdwn(markdown: string): string {
+  let out = '';
+  for (const segment of splitCodeSegments(markdown)) {
+    if (segment.kind === 'fence') {
+      out += `\`\`\`\n${escapeSlack(segment.text)}\n\`\`\``;
+    } else if (segment.kind === 'inline_code') {
+      out += `\`${escapeSlack(segment.text)}\``;
+    } else {
+      out += convertTextSegment(segment, SLACK_DIALECT)
+        .map((line) => (line.quote ? `>${line.text}` : line.text))
+        .join('\n');
+    }
+  }
+  return out.trim();
+}
+
+// ---------------------------------------------------------------------------
+// Telegram HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const TELEGRAM_DIALECT: InlineDialect = {
+  escape: escapeHtml,
+  link: (label, url) =>
+    `<a href="${escapeHtml(url)}">${escapeHtml(label || url)}</a>`,
+  bold: (text) => `<b>${text}</b>`,
+  italic: (text) => `<i>${text}</i>`,
+  strike: (text) => `<s>${text}</s>`,
+};
+
+export function markdownToTelegramHtml(markdown: string): string {
+  let out = '';
+  for (const segment of splitCodeSegments(markdown)) {
+    if (segment.kind === 'fence') {
+      const code = escapeHtml(segment.text);
+      out += segment.lang
+        ? `<pre><code class="language-${escapeHtml(segment.lang)}">${code}</code></pre>`
+        : `<pre>${code}</pre>`;
+    } else if (segment.kind === 'inline_code') {
+      out += `<code>${escapeHtml(segment.text)}</code>`;
+    } else {
+      // Consecutive quoted lines become one <blockquote>.
+      const lines = convertTextSegment(segment, TELEGRAM_DIALECT);
+      const parts: string[] = [];
+      for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].quote) {
+          parts.push(lines[i].text);
+          continue;
+        }
+        const quoted: string[] = [];
+        while (i < lines.length && lines[i].quote) {
+          quoted.push(lines[i].text);
+          i++;
+        }
+        i--;
+        parts.push(`<blockquote>${quoted.join('\n')}</blockquote>`);
+      }
+      out += parts.join('\n');
+    }
+  }
+  return out.trim();
+}
+
+// ---------------------------------------------------------------------------
+// Chunking
+// ---------------------------------------------------------------------------
+
+function splitMarkdownBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+  const flush = () => {
+    if (current.length > 0) blocks.push(current.join('\n'));
+    current = [];
+  };
+  for (const line of markdown.split('\n')) {
+    if (line.trimStart().startsWith('```')) {
+      inFence = !inFence;
+      current.push(line);
+      continue;
+    }
+    if (!inFence && line.trim() === '') {
+      flush();
+      continue;
+    }
+    current.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+function hardSplit(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const line of text.split('\n')) {
+    if (line.length > maxChars) {
+      if (current) pieces.push(current);
+      current = '';
+      for (let i = 0; i < line.length; i += maxChars) {
+        pieces.push(line.slice(i, i + maxChars));
+      }
+      continue;
+    }
+    const next = current ? `${current}\n${line}` : line;
+    if (next.length > maxChars && current) {
+      pieces.push(current);
+      current = line;
+    } else {
+      current = next;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+function splitOversizedBlock(block: string, maxChars: number): string[] {
+  const fence = /^\s*```([\w+#.-]*)\s*\n([\s\S]*?)\n?\s*```\s*$/.exec(block);
+  if (!fence) return hardSplit(block, maxChars);
+  // Re-open the fence on every piece so each message renders as code.
+  const open = `\`\`\`${fence[1]}\n`;
+  const close = '\n```';
+  return hardSplit(fence[2], maxChars - open.length - close.length).map(
+    (piece) => `${open}${piece}${close}`,
+  );
+}
+
+/**
+ * Split markdown into chunks of at most `maxChars`, preferring
+ * paragraph boundaries and never splitting inside a code fence unless
+ * the fence alone is too long (then each piece is re-fenced).
+ */
+export function splitMarkdownForDelivery(
+  markdown: string,
+  maxChars: number,
+): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const block of splitMarkdownBlocks(markdown.trim())) {
+    const pieces =
+      block.length > maxChars ? splitOversizedBlock(block, maxChars) : [block];
+    for (const piece of pieces) {
+      const next = current ? `${current}\n\n${piece}` : piece;
+      if (next.length > maxChars && current) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = next;
+      }
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
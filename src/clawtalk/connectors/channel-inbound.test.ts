@@ -0,0 +1,384 @@
+import { createHmac, generateKeyPairSync, sign } from 'node:crypto';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  deriveTelegramWebhookSecret,
+  parseDiscordInteraction,
+  parseSlackEvent,
+  parseTelegramUpdate,
+  verifyDiscordSignature,
+  verifySlackSignature,
+  verifyTelegramWebhookSecret,
+} from './channel-inbound.js';
+
+const SIGNING_SECRET = 'test-signing-secret';
+const NOW_MS = 1_760_000_000_000;
+
+function signSlack(timestamp: string, body: string): string {
+  return `v0=${createHmac('sha256', SIGNING_SECRET)
+    .update(`v0:${timestamp}:${body}`)
+    .digest('hex')}`;
+}
+
+describe('verifySlackSignature', () => {
+  const body = '{"type":"event_callback"}';
+  const timestamp = String(Math.floor(NOW_MS / 1000));
+
+  it('accepts a correctly signed, fresh request', async () => {
+    await expect(
+      verifySlackSignature({
+        signingSecret: SIGNING_SECRET,
+        timestamp,
+        signature: signSlack(timestamp, body),
+        rawBody: body,
+        nowMs: NOW_MS,
+      }),
+    ).resolves.toBe(true);
+  });
+
+  it('rejects a tampered body or wrong secret', async () => {
+    await expect(
+      verifySlackSignature({
+        signingSecret: SIGNING_SECRET,
+        timestamp,
+        signature: signSlack(timestamp, body),
+        rawBody: `${body} `,
+        nowMs: NOW_MS,
+      }),
+    ).resolves.toBe(false);
+    await expect(
+      verifySlackSignature({
+        signingSecret: 'other-secret',
+        timestamp,
+        signature: signSlack(timestamp, body),
+        rawBody: body,
+        nowMs: NOW_MS,
+      }),
+    ).resolves.toBe(false);
+  });
+
+  it('rejects stale timestamps and missing headers', async () => {
+    const stale = String(Math.floor(NOW_MS / 1000) - 10 * 60);
+    await expect(
+      verifySlackSignature({
+        signingSecret: SIGNING_SECRET,
+        timestamp: stale,
+        signature: signSlack(stale, body),
+        rawBody: body,
+        nowMs: NOW_MS,
+      }),
+    ).resolves.toBe(false);
+    await expect(
+      verifySlackSignature({
+        signingSecret: SIGNING_SECRET,
+        timestamp: null,
+        signature: signSlack(timestamp, body),
+        rawBody: body,
+        nowMs: NOW_MS,
+      }),
+    ).resolves.toBe(false);
+  });
+});
+
+describe('verifyDiscordSignature', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const publicKeyHex = Buffer.from(
+    publicKey.export({ format: 'jwk' }).x as string,
+    'base64url',
+  ).toString('hex');
+  const body = '{"type":1}';
+  const timestamp = String(Math.floor(NOW_MS / 1000));
+
+  function signDiscord(ts: string, payload: string): string {
+    return sign(null, Buffer.from(`${ts}${payload}`), privateKey).toString(
+      'hex',
+    );
+  }
+
+  it('accepts a request signed with the application key', async () => {
+    await expect(
+      verifyDiscordSignature({
+        publicKey: publicKeyHex,
+        timestamp,
+        signature: signDiscord(timestamp, body),
+        rawBody: body,
+        nowMs: NOW_MS,
+      }),
+    ).resolves.toBe(true);
+  });
+
+  it('rejects tampered bodies, other keys and stale timestamps', async () => {
+    const other = generateKeyPairSync('ed25519').publicKey;
+    const otherHex = Buffer.from(
+      other.export({ format: 'jwk' }).x as string,
+      'base64url',
+    ).toString('hex');
+    const stale = String(Math.floor(NOW_MS / 1000) - 10 * 60);
+    for (const input of [
+      { rawBody: `${body} ` },
+      { publicKey: otherHex },
+      { timestamp: stale, signature: signDiscord(stale, body) },
+      { signature: 'not-hex' },
+      { publicKey: 'abcd' },
+    ]) {
+      await expect(
+        verifyDiscordSignature({
+          publicKey: publicKeyHex,
+          timestamp,
+          signature: signDiscord(timestamp, body),
+          rawBody: body,
+          nowMs: NOW_MS,
+          ...input,
+        }),
+      ).resolves.toBe(false);
+    }
+  });
+});
+
+describe('Telegram webhook secret', () => {
+  it('derives a stable, channel-specific token Telegram accepts', async () => {
+    const first = await deriveTelegramWebhookSecret('123:abc', 'channel-a');
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(await deriveTelegramWebhookSecret('123:abc', 'channel-a')).toBe(
+      first,
+    );
+    expect(await deriveTelegramWebhookSecret('123:abc', 'channel-b')).not.toBe(
+      first,
+    );
+  });
+
+  it('verifies only the matching token', async () => {
+    const secretToken = await deriveTelegramWebhookSecret('123:abc', 'chan');
+    await expect(
+      verifyTelegramWebhookSecret({
+        botToken: '123:abc',
+        channelId: 'chan',
+        secretToken,
+      }),
+    ).resolves.toBe(true);
+    await expect(
+      verifyTelegramWebhookSecret({
+        botToken: '123:rotated',
+        channelId: 'chan',
+        secretToken,
+      }),
+    ).resolves.toBe(false);
+    await expect(
+      verifyTelegramWebhookSecret({
+        botToken: '123:abc',
+        channelId: 'chan',
+        secretToken: undefined,
+      }),
+    ).resolves.toBe(false);
+  });
+});
+
+describe('parseSlackEvent', () => {
+  const options = { botUserId: 'UBOT' };
+
+  it('normalizes an app mention and strips the bot mention', () => {
+    const message = parseSlackEvent(
+      {
+        type: 'app_mention',
+        user: 'U1',
+        channel: 'C1',
+        text: '<@UBOT> what shipped this week?',
+        ts: '1760000000.000100',
+        thread_ts: '1759999999.000001',
+      },
+      options,
+    );
+    expect(message).toMatchObject({
+      platform: 'slack',
+      externalMessageId: '1760000000.000100',
+      sourceThreadKey: '1759999999.000001',
+      targetKind: 'channel',
+      targetId: 'C1',
+      senderId: 'U1',
+      text: 'what shipped this week?',
+      isMentioned: true,
+    });
+  });
+
+  it('uses the message ts as the thread key for top-level messages', () => {
+    const message = parseSlackEvent(
+      {
+        type: 'message',
+        user: 'U1',
+        channel: 'C1',
+        text: 'morning all',
+        ts: '1760000000.000200',
+      },
+      options,
+    );
+    expect(message?.sourceThreadKey).toBe('1760000000.000200');
+    expect(message?.isMentioned).toBe(false);
+  });
+
+  it('ignores bot echoes, edits and empty mentions', () => {
+    const base = { type: 'message', channel: 'C1', ts: '1.0', text: 'hi' };
+    expect(parseSlackEvent({ ...base, user: 'UBOT' }, options)).toBeNull();
+    expect(
+      parseSlackEvent({ ...base, user: 'U1', bot_id: 'B1' }, options),
+    ).toBeNull();
+    expect(
+      parseSlackEvent(
+        { ...base, user: 'U1', subtype: 'message_changed' },
+        options,
+      ),
+    ).toBeNull();
+    expect(
+      parseSlackEvent({ ...base, user: 'U1', text: '<@UBOT>' }, options),
+    ).toBeNull();
+  });
+});
+
+describe('parseTelegramUpdate', () => {
+  const options = { botId: '42', botUsername: 'claw_bot' };
+
+  it('normalizes a group mention', () => {
+    const message = parseTelegramUpdate(
+      {
+        update_id: 1,
+        message: {
+          message_id: 7,
+          date: 1_760_000_000,
+          chat: { id: -100123, type: 'supergroup', title: 'Ops' },
+          from: { id: 9, is_bot: false, first_name: 'Sam', username: 'sam' },
+          text: '@claw_bot summarize the incident',
+        },
+      },
+      options,
+    );
+    expect(message).toMatchObject({
+      platform: 'telegram',
+      externalMessageId: '-100123:7',
+      sourceThreadKey: '-100123',
+      targetKind: 'chat',
+      targetId: '-100123',
+      targetDisplayName: 'Ops',
+      senderId: '9',
+      senderName: '@sam',
+      text: 'summarize the incident',
+      isMentioned: true,
+    });
+  });
+
+  it('treats private chats and replies to the bot as mentions', () => {
+    const privateChat = parseTelegramUpdate(
+      {
+        message: {
+          message_id: 1,
+          chat: { id: 9, type: 'private' },
+          from: { id: 9, is_bot: false, first_name: 'Sam' },
+          text: 'hello',
+        },
+      },
+      options,
+    );
+    expect(privateChat?.isMentioned).toBe(true);
+    expect(privateChat?.senderName).toBe('Sam');
+
+    const reply = parseTelegramUpdate(
+      {
+        message: {
+          message_id: 2,
+          message_thread_id: 5,
+          chat: { id: -1, type: 'supergroup' },
+          from: { id: 9, is_bot: false, first_name: 'Sam' },
+          reply_to_message: { message_id: 1, from: { id: 42, is_bot: true } },
+          text: 'and then?',
+        },
+      },
+      options,
+    );
+    expect(reply?.isMentioned).toBe(true);
+    expect(reply?.sourceThreadKey).toBe('-1:5');
+  });
+
+  it('ignores bots, non-message updates and empty text', () => {
+    const chat = { id: -1, type: 'group' };
+    expect(
+      parseTelegramUpdate(
+        {
+          message: {
+            message_id: 1,
+            chat,
+            from: { id: 3, is_bot: true, first_name: 'Other' },
+            text: 'beep',
+          },
+        },
+        options,
+      ),
+    ).toBeNull();
+    expect(
+      parseTelegramUpdate({ edited_message: { message_id: 1, chat } }, options),
+    ).toBeNull();
+    expect(
+      parseTelegramUpdate(
+        { message: { message_id: 1, chat, from: { id: 9 } } },
+        options,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('parseDiscordInteraction', () => {
+  const command = {
+    // Snowflake for 2025-10-09T08:53:20.000Z.
+    id: String((1_760_000_000_000n - 1_420_070_400_000n) << 22n),
+    type: 2,
+    application_id: '111',
+    guild_id: '222',
+    channel_id: '333',
+    channel: { id: '333', name: 'general' },
+    member: { user: { id: '9', username: 'sam', global_name: 'Sam K' } },
+    data: {
+      name: 'ask',
+      options: [
+        { name: 'prompt', type: 3, value: '  summarize the incident ' },
+      ],
+    },
+  };
+
+  it('normalizes an /ask command as a mention', () => {
+    expect(parseDiscordInteraction(command)).toEqual({
+      platform: 'discord',
+      externalMessageId: command.id,
+      sourceThreadKey: '333',
+      targetKind: 'channel',
+      targetId: '333',
+      targetDisplayName: 'general',
+      senderId: '9',
+      senderName: 'Sam K',
+      text: 'summarize the incident',
+      isMentioned: true,
+      timestamp: '2025-10-09T08:53:20.000Z',
+    });
+  });
+
+  it('reads the DM user and falls back to the username', () => {
+    const { member: _member, ...dm } = command;
+    expect(
+      parseDiscordInteraction({ ...dm, user: { id: '9', username: 'sam' } })
+        ?.senderName,
+    ).toBe('@sam');
+  });
+
+  it('ignores pings, other commands and empty prompts', () => {
+    expect(parseDiscordInteraction({ id: '1', type: 1 })).toBeNull();
+    expect(
+      parseDiscordInteraction({
+        ...command,
+        data: { ...command.data, name: 'other' },
+      }),
+    ).toBeNull();
+    expect(
+      parseDiscordInteraction({
+        ...command,
+        data: { name: 'ask', options: [{ name: 'prompt', value: '  ' }] },
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,627 @@
+// Inbound channel messages → Talk trigger message + run.
+//
+// The public webhook routes (web/routes/channel-webhooks.ts) verify the
+// platform signature, parse the payload with the pure helpers below and
+// hand a normalized `InboundChannelMessage` to
+// `ingestInboundChannelMessage`, which fans it out to every Talk linked
+// to the workspace channel:
+//
+//   1. claim the (channel, Talk, external message) dedup row — a repeat
+//      delivery stops here;
+//   2. apply the binding's response_mode (off / mentions / all);
+//   3. map the channel onto its Talk thread (one per channel per Talk);
+//   4. enqueue the trigger message + run(s) with channel_inbound
+//      metadata and the run source_* columns. When the thread already
+//      has a round in flight the message is still stored so the next
+//      run sees it, but no run is created.
+//
+// Each link runs in its own `withUserContext(ownerId)` transaction so a
+// failure on one Talk doesn't drop the message for the others. Runs are
+// dispatched after every transaction has committed.
+
+import { withUserContext } from '../../db.js';
+import { logger } from '../../logger.js';
+import {
+  ensureTalkUsesUsableDefaultAgent,
+  resolveTalkAgentMentionsFromList,
+} from '../agents/agent-registry.js';
+import {
+  TalkActiveRoundError,
+  createTalkMessage,
+  createTalkThread,
+  enqueueTalkTurnAtomic,
+  touchTalkUpdatedAt,
+} from '../db/accessors.js';
+import {
+  claimChannelInboundEvent,
+  completeChannelInboundEvent,
+  findChannelInboundThreadId,
+  type ChannelInboundEventStatus,
+} from '../db/channel-inbound-accessors.js';
+import {
+  listTalkChannelLinksForChannel,
+  type ChannelKind,
+  type TalkChannelLink,
+  type WorkspaceChannelRecord,
+} from '../db/connectors-accessors.js';
+import { listTalkAgents } from '../db/talk-agents.js';
+import { emitOutboxEvent } from '../talks/outbox-emit.js';
+import { dispatchRun } from '../talks/queue-producer.js';
+import {
+  CHANNEL_PLATFORM_LABELS,
+  buildChannelBinding,
+  type ChannelBinding,
+} from './channel-bindings.js';
+import {
+  DISCORD_ASK_COMMAND_NAME,
+  DISCORD_ASK_PROMPT_OPTION,
+} from './discord-client.js';
+
+// Slack rejects requests older than five minutes; use the same window
+// for replay protection on our side (Discord included).
+const SLACK_SIGNATURE_MAX_AGE_SEC = 5 * 60;
+const DISCORD_SIGNATURE_MAX_AGE_SEC = SLACK_SIGNATURE_MAX_AGE_SEC;
+// Discord snowflakes count milliseconds from 2015-01-01.
+const DISCORD_EPOCH_MS = 1_420_070_400_000;
+const MAX_INBOUND_CONTENT_CHARS = 20_000;
+
+export interface InboundChannelMessage {
+  platform: ChannelKind;
+  /**
+   * Dedup key, unique within the channel: Slack ts / "<chat>:<msg id>" /
+   * Discord interaction id.
+   */
+  externalMessageId: string;
+  /**
+   * Where a reply belongs: Slack thread root ts / Telegram chat (+ topic)
+   * / Discord channel (threads are channels there).
+   */
+  sourceThreadKey: string | null;
+  targetKind: 'channel' | 'chat';
+  targetId: string;
+  targetDisplayName: string | null;
+  senderId: string | null;
+  senderName: string | null;
+  text: string;
+  isMentioned: boolean;
+  timestamp: string | null;
+}
+
+export type ChannelInboundOutcome =
+  ChannelInboundEventStatus | 'duplicate' | 'failed';
+
+export interface ChannelInboundResult {
+  talkId: string;
+  outcome: ChannelInboundOutcome;
+  runIds: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Signatures
+// ---------------------------------------------------------------------------
+
+const textEncoder = new TextEncoder();
+
+async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    cryptoKey,
+    textEncoder.encode(message),
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Verify a Slack request signature (`X-Slack-Signature: v0=<hex>` over
+ * `v0:<X-Slack-Request-Timestamp>:<raw body>`). Stale timestamps are
+ * rejected so a captured request can't be replayed.
+ */
+export async function verifySlackSignature(input: {
+  signingSecret: string;
+  timestamp: string | null | undefined;
+  signature: string | null | undefined;
+  rawBody: string;
+  nowMs?: number;
+}): Promise<boolean> {
+  if (!input.signingSecret || !input.timestamp || !input.signature) {
+    return false;
+  }
+  const timestampSec = Number(input.timestamp);
+  if (!Number.isInteger(timestampSec)) return false;
+  const nowSec = Math.floor((input.nowMs ?? Date.now()) / 1000);
+  if (Math.abs(nowSec - timestampSec) > SLACK_SIGNATURE_MAX_AGE_SEC) {
+    return false;
+  }
+  const expected = `v0=${await hmacSha256Hex(
+    input.signingSecret,
+    `v0:${input.timestamp}:${input.rawBody}`,
+  )}`;
+  return constantTimeEqual(expected, input.signature);
+}
+
+/**
+ * Per-channel Telegram webhook secret, registered via setWebhook and
+ * echoed back by Telegram in X-Telegram-Bot-Api-Secret-Token. Derived
+ * from the bot token so nothing extra has to be stored — rotating the
+ * token invalidates the old webhook until it is registered again.
+ */
+export async function deriveTelegramWebhookSecret(
+  botToken: string,
+  channelId: string,
+): Promise<string> {
+  return hmacSha256Hex(botToken, `clawtalk-telegram-webhook:${channelId}`);
+}
+
+export async function verifyTelegramWebhookSecret(input: {
+  botToken: string;
+  channelId: string;
+  secretToken: string | null | undefined;
+}): Promise<boolean> {
+  if (!input.secretToken) return false;
+  const expected = await deriveTelegramWebhookSecret(
+    input.botToken,
+    input.channelId,
+  );
+  return constantTimeEqual(expected, input.secretToken);
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Verify a Discord interaction signature (`X-Signature-Ed25519`, hex,
+ * over `<X-Signature-Timestamp><raw body>`) against the application's
+ * public key. Discord probes the endpoint with deliberately bad
+ * signatures and expects a 401 back, so every malformed input is simply
+ * `false`.
+ */
+export async function verifyDiscordSignature(input: {
+  publicKey: string | null | undefined;
+  timestamp: string | null | undefined;
+  signature: string | null | undefined;
+  rawBody: string;
+  nowMs?: number;
+}): Promise<boolean> {
+  if (!input.publicKey || !input.timestamp || !input.signature) return false;
+  const timestampSec = Number(input.timestamp);
+  if (!Number.isInteger(timestampSec)) return false;
+  const nowSec = Math.floor((input.nowMs ?? Date.now()) / 1000);
+  if (Math.abs(nowSec - timestampSec) > DISCORD_SIGNATURE_MAX_AGE_SEC) {
+    return false;
+  }
+  const keyBytes = hexToBytes(input.publicKey);
+  const signatureBytes = hexToBytes(input.signature);
+  if (keyBytes?.length !== 32 || signatureBytes?.length !== 64) return false;
+  try {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      keyBytes,
+      { name: 'Ed25519' },
+      false,
+      ['verify'],
+    );
+    return await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      key,
+      signatureBytes,
+      textEncoder.encode(`${input.timestamp}${input.rawBody}`),
+    );
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Payload parsing
+// ---------------------------------------------------------------------------
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+// Subtypes that are still a person talking in the channel. Everything
+// else (edits, deletes, joins, bot_message, …) is ignored.
+const SLACK_ACCEPTED_SUBTYPES = new Set(['file_share', 'thread_broadcast']);
+
+/**
+ * Normalize a Slack Events API `event` (type `message` or
+ * `app_mention`). Returns null for anything that shouldn't reach a
+ * Talk: bot messages (including our own), edits, joins, empty text.
+ */
+export function parseSlackEvent(
+  event: unknown,
+  options: { botUserId: string | null },
+): InboundChannelMessage | null {
+  const record = asRecord(event);
+  if (!record) return null;
+  const type = record.type;
+  if (type !== 'message' && type !== 'app_mention') return null;
+  const subtype = asString(record.subtype);
+  if (subtype && !SLACK_ACCEPTED_SUBTYPES.has(subtype)) return null;
+  if (record.bot_id) return null;
+
+  const user = asString(record.user);
+  const channel = asString(record.channel);
+  const ts = asString(record.ts);
+  const rawText = typeof record.text === 'string' ? record.text : '';
+  if (!user || !channel || !ts) return null;
+  if (options.botUserId && user === options.botUserId) return null;
+
+  const botMention = options.botUserId ? `<@${options.botUserId}>` : null;
+  const isMentioned =
+    type === 'app_mention' ||
+    record.channel_type === 'im' ||
+    (botMention !== null && rawText.includes(botMention));
+  const text = (
+    botMention ? rawText.split(botMention).join(' ') : rawText
+  ).trim();
+  if (!text) return null;
+
+  const tsSeconds = Number(ts);
+  return {
+    platform: 'slack',
+    externalMessageId: ts,
+    sourceThreadKey: asString(record.thread_ts) ?? ts,
+    targetKind: 'channel',
+    targetId: channel,
+    targetDisplayName: null,
+    senderId: user,
+    senderName: null,
+    text,
+    isMentioned,
+    timestamp: Number.isFinite(tsSeconds)
+      ? new Date(tsSeconds * 1000).toISOString()
+      : null,
+  };
+}
+
+/**
+ * Normalize a Telegram `Update`. Only plain `message` updates with text
+ * (or a captioned attachment) from a human are accepted.
+ */
+export function parseTelegramUpdate(
+  update: unknown,
+  options: { botId: string | null; botUsername: string | null },
+): InboundChannelMessage | null {
+  const message = asRecord(asRecord(update)?.message);
+  if (!message) return null;
+  const chat = asRecord(message.chat);
+  const from = asRecord(message.from);
+  if (!chat || typeof message.message_id !== 'number') return null;
+  if (from?.is_bot === true) return null;
+  const chatId =
+    typeof chat.id === 'number' || typeof chat.id === 'string'
+      ? String(chat.id)
+      : null;
+  if (!chatId) return null;
+
+  const rawText =
+    typeof message.text === 'string'
+      ? message.text
+      : typeof message.caption === 'string'
+        ? message.caption
+        : '';
+  const mentionPattern = options.botUsername
+    ? new RegExp(`@${escapeRegExp(options.botUsername)}\\b`, 'gi')
+    : null;
+  const replyTo = asRecord(asRecord(message.reply_to_message)?.from);
+  const isMentioned =
+    chat.type === 'private' ||
+    (mentionPattern !== null && mentionPattern.test(rawText)) ||
+    (options.botId !== null && String(replyTo?.id ?? '') === options.botId);
+  const text = (
+    mentionPattern ? rawText.replace(mentionPattern, ' ') : rawText
+  ).trim();
+  if (!text) return null;
+
+  const topicId =
+    typeof message.message_thread_id === 'number'
+      ? message.message_thread_id
+      : null;
+  const senderName = asString(from?.username)
+    ? `@${from!.username as string}`
+    : [asString(from?.first_name), asString(from?.last_name)]
+        .filter(Boolean)
+        .join(' ') || null;
+  return {
+    platform: 'telegram',
+    externalMessageId: `${chatId}:${message.message_id}`,
+    sourceThreadKey: topicId !== null ? `${chatId}:${topicId}` : chatId,
+    targetKind: 'chat',
+    targetId: chatId,
+    targetDisplayName: asString(chat.title) ?? asString(chat.username),
+    senderId: from && from.id !== undefined ? String(from.id) : null,
+    senderName,
+    text,
+    isMentioned,
+    timestamp:
+      typeof message.date === 'number'
+        ? new Date(message.date * 1000).toISOString()
+        : null,
+  };
+}
+
+/**
+ * Normalize a Discord `/ask` slash-command interaction (type 2). The
+ * prompt option is the message text; invoking the command is an
+ * explicit address, so it always counts as a mention. PINGs and other
+ * commands return null — the webhook handler answers those itself.
+ */
+export function parseDiscordInteraction(
+  interaction: unknown,
+): InboundChannelMessage | null {
+  const record = asRecord(interaction);
+  if (!record || record.type !== 2) return null;
+  const data = asRecord(record.data);
+  if (!data || data.name !== DISCORD_ASK_COMMAND_NAME) return null;
+  const id = asString(record.id);
+  const channelId =
+    asString(record.channel_id) ?? asString(asRecord(record.channel)?.id);
+  if (!id || !/^\d+$/.test(id) || !channelId) return null;
+
+  const prompt = (Array.isArray(data.options) ? data.options : [])
+    .map(asRecord)
+    .find((option) => option?.name === DISCORD_ASK_PROMPT_OPTION)?.value;
+  const text = typeof prompt === 'string' ? prompt.trim() : '';
+  if (!text) return null;
+
+  // Guild interactions carry `member.user`; DMs carry `user`.
+  const user = asRecord(asRecord(record.member)?.user) ?? asRecord(record.user);
+  const username = asString(user?.username);
+  return {
+    platform: 'discord',
+    externalMessageId: id,
+    sourceThreadKey: channelId,
+    targetKind: 'channel',
+    targetId: channelId,
+    targetDisplayName: asString(asRecord(record.channel)?.name),
+    senderId: asString(user?.id),
+    senderName:
+      asString(user?.global_name) ?? (username ? `@${username}` : null),
+    text,
+    isMentioned: true,
+    timestamp: new Date(
+      Number(BigInt(id) >> 22n) + DISCORD_EPOCH_MS,
+    ).toISOString(),
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ---------------------------------------------------------------------------
+// Ingestion
+// ---------------------------------------------------------------------------
+
+function formatInboundContent(message: InboundChannelMessage): string {
+  const sender = message.senderName ?? message.senderId;
+  const body =
+    message.text.length > MAX_INBOUND_CONTENT_CHARS
+      ? `${message.text.slice(0, MAX_INBOUND_CONTENT_CHARS)}…`
+      : message.text;
+  return sender ? `${sender}: ${body}` : body;
+}
+
+function buildTriggerMetadata(
+  binding: ChannelBinding,
+  message: InboundChannelMessage,
+): Record<string, unknown> {
+  return {
+    kind: 'channel_inbound',
+    platform: message.platform,
+    bindingId: binding.id,
+    connectionId: binding.connection_id,
+    targetKind: message.targetKind,
+    targetId: message.targetId,
+    targetDisplayName: message.targetDisplayName ?? binding.display_name,
+    senderId: message.senderId,
+    senderName: message.senderName,
+    isMentioned: message.isMentioned,
+    timestamp: message.timestamp,
+    externalMessageId: message.externalMessageId,
+    metadata: { sourceThreadKey: message.sourceThreadKey },
+  };
+}
+
+async function ingestForLink(
+  link: TalkChannelLink,
+  binding: ChannelBinding,
+  message: InboundChannelMessage,
+): Promise<ChannelInboundResult> {
+  const event = await claimChannelInboundEvent({
+    channelId: binding.id,
+    talkId: link.talkId,
+    ownerId: link.ownerId,
+    externalMessageId: message.externalMessageId,
+    sourceThreadKey: message.sourceThreadKey,
+  });
+  if (!event) {
+    return { talkId: link.talkId, outcome: 'duplicate', runIds: [] };
+  }
+
+  if (
+    binding.response_mode === 'off' ||
+    (binding.response_mode === 'mentions' && !message.isMentioned)
+  ) {
+    await completeChannelInboundEvent({
+      id: event.id,
+      status: 'ignored',
+      threadId: null,
+      messageId: null,
+    });
+    return { talkId: link.talkId, outcome: 'ignored', runIds: [] };
+  }
+
+  const threadId =
+    (await findChannelInboundThreadId(binding.id, link.talkId)) ??
+    (
+      await createTalkThread({
+        ownerId: link.ownerId,
+        talkId: link.talkId,
+        title: `${CHANNEL_PLATFORM_LABELS[binding.platform]} · ${binding.display_name ?? message.targetId}`,
+      })
+    ).id;
+
+  const content = formatInboundContent(message);
+  const metadata = buildTriggerMetadata(binding, message);
+
+  await ensureTalkUsesUsableDefaultAgent(link.talkId, link.ownerId);
+  const talkAgents = await listTalkAgents(link.talkId);
+  const mentioned = resolveTalkAgentMentionsFromList(talkAgents, message.text);
+  // A channel message answers with one voice unless agents were
+  // @-mentioned by name: the primary agent, else the first assigned.
+  const fallbackAgent =
+    talkAgents.find((agent) => agent.isPrimary) ?? talkAgents[0];
+  const selectedAgents =
+    mentioned.length > 0 ? mentioned : fallbackAgent ? [fallbackAgent] : [];
+
+  if (selectedAgents.length > 0) {
+    try {
+      const persisted = await enqueueTalkTurnAtomic({
+        ownerId: link.ownerId,
+        talkId: link.talkId,
+        threadId,
+        userId: link.ownerId,
+        content,
+        targetAgentIds: selectedAgents.map((agent) => agent.agentId),
+        targetAgentNicknames: selectedAgents.map(
+          (agent) => agent.nickname || agent.agentName,
+        ),
+        // Several mentioned agents reply in order so the channel reads
+        // as a conversation rather than a burst of parallel answers.
+        sequenceIndexes: selectedAgents.map((_, index) =>
+          selectedAgents.length > 1 ? index : null,
+        ),
+        messageMetadata: metadata,
+        source: {
+          bindingId: binding.id,
+          externalMessageId: message.externalMessageId,
+          threadKey: message.sourceThreadKey,
+        },
+      });
+      await completeChannelInboundEvent({
+        id: event.id,
+        status: 'enqueued',
+        threadId: persisted.threadId,
+        messageId: persisted.message.id,
+      });
+      return {
+        talkId: link.talkId,
+        outcome: 'enqueued',
+        runIds: persisted.runs.map((run) => run.id),
+      };
+    } catch (err) {
+      if (!(err instanceof TalkActiveRoundError)) throw err;
+    }
+  }
+
+  // Busy thread (or no usable agent): keep the message in the Talk so
+  // the next round has it in history, but don't start a run.
+  const stored = await createTalkMessage({
+    ownerId: link.ownerId,
+    talkId: link.talkId,
+    threadId,
+    role: 'user',
+    content,
+    createdBy: link.ownerId,
+    metadata,
+  });
+  await touchTalkUpdatedAt(link.talkId);
+  await emitOutboxEvent({
+    topic: `talk:${link.talkId}`,
+    eventType: 'message_appended',
+    payload: {
+      talkId: link.talkId,
+      threadId,
+      messageId: stored.id,
+      runId: null,
+      role: 'user',
+      createdBy: link.ownerId,
+      content,
+      createdAt: stored.created_at,
+    },
+    ownerIds: [link.ownerId],
+  });
+  await completeChannelInboundEvent({
+    id: event.id,
+    status: 'stored',
+    threadId,
+    messageId: stored.id,
+  });
+  return { talkId: link.talkId, outcome: 'stored', runIds: [] };
+}
+
+/**
+ * Fan an inbound message out to every Talk linked to `channel`, then
+ * dispatch the runs that were created. Never throws for a single bad
+ * link — its result comes back as `failed`.
+ */
+export async function ingestInboundChannelMessage(input: {
+  channel: WorkspaceChannelRecord;
+  message: InboundChannelMessage;
+}): Promise<ChannelInboundResult[]> {
+  const { channel, message } = input;
+  const binding = await buildChannelBinding(channel);
+  const links = await listTalkChannelLinksForChannel(channel.id);
+  const results: ChannelInboundResult[] = [];
+  for (const link of links) {
+    try {
+      results.push(
+        await withUserContext(link.ownerId, () =>
+          ingestForLink(link, binding, message),
+        ),
+      );
+    } catch (err) {
+      logger.warn(
+        {
+          err,
+          channelId: channel.id,
+          talkId: link.talkId,
+          externalMessageId: message.externalMessageId,
+        },
+        'channel-inbound: failed to ingest message for linked talk',
+      );
+      results.push({ talkId: link.talkId, outcome: 'failed', runIds: [] });
+    }
+  }
+
+  // dispatchRun is best-effort and never throws; a lost send is picked
+  // up like any other queued run.
+  for (const result of results) {
+    for (const runId of result.runIds) {
+      await dispatchRun({ runId });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,208 @@
+// Tiny Discord REST (v10) client.
+//
+// Same shape as slack-client.ts / telegram-client.ts: no SDK, just
+// fetch. Every call authenticates with the channel's bot token
+// (`Authorization: Bot <token>`). Error responses are
+// `{ code: number, message: string, retry_after?: number }`; they
+// surface as `DiscordApiError`.
+//
+// Discord only pushes messages to bots over the Gateway websocket, which
+// a Worker can't hold open. Inbound traffic instead comes through the
+// application's interactions endpoint as the `/ask` slash command
+// registered below.
+
+export class DiscordApiError extends Error {
+  readonly httpStatus: number;
+  // Discord's JSON error code (10003 unknown channel, 50001 missing
+  // access, ...); 0 when the body wasn't a Discord error.
+  readonly discordCode: number;
+  readonly retryAfterSec: number | null;
+
+  constructor(
+    message: string,
+    httpStatus: number,
+    discordCode: number,
+    retryAfterSec: number | null,
+  ) {
+    super(message);
+    this.name = 'DiscordApiError';
+    this.httpStatus = httpStatus;
+    this.discordCode = discordCode;
+    this.retryAfterSec = retryAfterSec;
+  }
+}
+
+const DISCORD_API_BASE = 'https://discord.com/api/v10';
+
+// Slash command that routes a prompt into the linked Talks.
+export const DISCORD_ASK_COMMAND_NAME = 'ask';
+export const DISCORD_ASK_PROMPT_OPTION = 'prompt';
+
+// Message flag that hides link embeds, the equivalent of Telegram's
+// disabled link previews.
+const SUPPRESS_EMBEDS_FLAG = 1 << 2;
+// Message flag that shows a message only to the user who invoked the
+// interaction.
+const EPHEMERAL_FLAG = 1 << 6;
+
+interface DiscordErrorBody {
+  code?: number;
+  message?: string;
+  retry_after?: number;
+}
+
+/** Call a REST route with the bot token. */
+export async function discordApiCall<T>(
+  method: 'GET' | 'POST' | 'PATCH',
+  path: string,
+  botToken: string,
+  body?: Record<string, unknown>,
+): Promise<T> {
+  const response = await fetch(`${DISCORD_API_BASE}${path}`, {
+    method,
+    headers: {
+      authorization: `Bot ${botToken}`,
+      accept: 'application/json',
+      ...(body ? { 'content-type': 'application/json' } : {}),
+    },
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  });
+  let payload: unknown = null;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = null;
+  }
+  if (!response.ok) {
+    const error = (payload ?? {}) as DiscordErrorBody;
+    const retryAfterHeader = Number(response.headers.get('retry-after'));
+    const retryAfterSec =
+      typeof error.retry_after === 'number'
+        ? Math.ceil(error.retry_after)
+        : Number.isFinite(retryAfterHeader) && retryAfterHeader > 0
+          ? Math.ceil(retryAfterHeader)
+          : null;
+    throw new DiscordApiError(
+      `Discord ${method} ${path.split('?')[0]} rejected: ${
+        error.message || `HTTP ${response.status}`
+      }`,
+      response.status,
+      typeof error.code === 'number' ? error.code : 0,
+      retryAfterSec,
+    );
+  }
+  return payload as T;
+}
+
+// ---------------------------------------------------------------------------
+// Application / commands / messages
+// ---------------------------------------------------------------------------
+
+export interface DiscordApplication {
+  id: string;
+  name: string;
+  /** Hex-encoded Ed25519 key that signs interaction requests. */
+  verify_key: string;
+  bot?: { id: string; username: string };
+}
+
+export async function getDiscordApplication(
+  botToken: string,
+): Promise<DiscordApplication> {
+  return discordApiCall<DiscordApplication>(
+    'GET',
+    '/applications/@me',
+    botToken,
+  );
+}
+
+/**
+ * Point the application's interactions endpoint at `url`. Discord sends
+ * a signed PING to the URL before accepting it, so the webhook route has
+ * to be live (and the channel's public key saved) first.
+ */
+export async function setDiscordInteractionsEndpoint(input: {
+  botToken: string;
+  url: string;
+}): Promise<void> {
+  await discordApiCall<DiscordApplication>(
+    'PATCH',
+    '/applications/@me',
+    input.botToken,
+    { interactions_endpoint_url: input.url },
+  );
+}
+
+/**
+ * Create (or overwrite — Discord upserts by name) the `/ask` command.
+ * Guild commands are available immediately; global ones can take a
+ * while to show up everywhere.
+ */
+export async function registerDiscordAskCommand(input: {
+  botToken: string;
+  applicationId: string;
+  guildId: string | null;
+}): Promise<void> {
+  const path = input.guildId
+    ? `/applications/${encodeURIComponent(input.applicationId)}/guilds/${encodeURIComponent(input.guildId)}/commands`
+    : `/applications/${encodeURIComponent(input.applicationId)}/commands`;
+  await discordApiCall<unknown>('POST', path, input.botToken, {
+    name: DISCORD_ASK_COMMAND_NAME,
+    type: 1,
+    description: 'Ask the agents in the linked Talk',
+    options: [
+      {
+        type: 3,
+        name: DISCORD_ASK_PROMPT_OPTION,
+        description: 'What to ask',
+        required: true,
+      },
+    ],
+  });
+}
+
+export interface DiscordSentMessage {
+  id: string;
+}
+
+export async function createDiscordMessage(input: {
+  botToken: string;
+  channelId: string;
+  content: string;
+}): Promise<DiscordSentMessage> {
+  return discordApiCall<DiscordSentMessage>(
+    'POST',
+    `/channels/${encodeURIComponent(input.channelId)}/messages`,
+    input.botToken,
+    {
+      content: input.content,
+      flags: SUPPRESS_EMBEDS_FLAG,
+      // Agent text never pings @everyone, roles or users.
+      allowed_mentions: { parse: [] },
+    },
+  );
+}
+
+/**
+ * Post a follow-up to an interaction after its response was sent. Only
+ * the invoking user sees an ephemeral one. Interaction tokens stay valid
+ * for 15 minutes.
+ */
+export async function createDiscordInteractionFollowup(input: {
+  botToken: string;
+  applicationId: string;
+  interactionToken: string;
+  content: string;
+  ephemeral?: boolean;
+}): Promise<DiscordSentMessage> {
+  return discordApiCall<DiscordSentMessage>(
+    'POST',
+    `/webhooks/${encodeURIComponent(input.applicationId)}/${encodeURIComponent(input.interactionToken)}`,
+    input.botToken,
+    {
+      content: input.content,
+      ...(input.ephemeral ? { flags: EPHEMERAL_FLAG } : {}),
+      allowed_mentions: { parse: [] },
+    },
+  );
+}
@@ -13,12 +13,20 @@
 export class SlackApiError extends Error {
   readonly slackError: string;
   readonly httpStatus: number;
+  // Seconds from the Retry-After header on a 429 (`ratelimited`).
+  readonly retryAfterSec: number | null;
 
-  constructor(slackError: string, message: string, httpStatus: number) {
+  constructor(
+    slackError: string,
+    message: string,
+    httpStatus: number,
+    retryAfterSec: number | null = null,
+  ) {
     super(message);
     this.name = 'SlackApiError';
     this.slackError = slackError;
     this.httpStatus = httpStatus;
+    this.retryAfterSec = retryAfterSec;
   }
 }
 
@@ -133,3 +141,81 @@ export async function listSlackConversations(input: {
   }
   return channels;
 }
+
+// ---------------------------------------------------------------------------
+// chat.postMessage
+// ---------------------------------------------------------------------------
+
+/**
+ * POST a Slack Web API write method with a JSON body. Write methods
+ * (chat.*) take JSON; a 429 surfaces as `ratelimited` with the
+ * Retry-After seconds so callers can back off.
+ */
+export async function slackApiPost<T extends { ok: boolean; error?: string }>(
+  method: string,
+  token: string,
+  body: Record<string, unknown>,
+): Promise<T> {
+  const response = await fetch(`${SLACK_API_BASE}/${method}`, {
+    method: 'POST',
+    headers: {
+      authorization: `Bearer ${token}`,
+      'content-type': 'application/json; charset=utf-8',
+      accept: 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw new SlackApiError(
+      'ratelimited',
+      `Slack ${method} rate limited`,
+      429,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null,
+    );
+  }
+  if (!response.ok) {
+    throw new SlackApiError(
+      'http_error',
+      `Slack ${method} returned HTTP ${response.status}`,
+      response.status,
+    );
+  }
+  const payload = (await response.json()) as T;
+  if (!payload.ok) {
+    throw new SlackApiError(
+      payload.error || 'slack_error',
+      `Slack ${method} rejected: ${payload.error || 'unknown'}`,
+      response.status,
+    );
+  }
+  return payload;
+}
+
+interface ChatPostMessageResponse {
+  ok: boolean;
+  error?: string;
+  ts?: string;
+  channel?: string;
+}
+
+/** Post `text` (Slack mrkdwn) to a channel, optionally into a thread. */
+export async function postSlackMessage(input: {
+  token: string;
+  channel: string;
+  text: string;
+  threadTs?: string | null;
+}): Promise<{ ts: string }> {
+  const response = await slackApiPost<ChatPostMessageResponse>(
+    'chat.postMessage',
+    input.token,
+    {
+      channel: input.channel,
+      text: input.text,
+      mrkdwn: true,
+      unfurl_links: false,
+      ...(input.threadTs ? { thread_ts: input.threadTs } : {}),
+    },
+  );
+  return { ts: response.ts ?? '' };
+}
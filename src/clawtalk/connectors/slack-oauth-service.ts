@@ -10,13 +10,15 @@
 // Boundary contract:
 //   - `startSlackInstall` runs inside `withUserContext(userId)` from an
 //     authenticated admin route. RLS on `oauth_state` enforces
-//     `user_id = auth.uid()` at INSERT.
+//     `user_id = auth.uid()` at INSERT. The state row records the
+//     caller's current workspace, which the install will belong to; the
+//     caller must be an admin of it.
 //   - `completeSlackInstallCallback` runs from a PUBLIC callback route — Slack
 //     redirects the browser directly with no clawtalk session cookies. The
 //     pool runs as the BYPASSRLS `postgres` role so the state-claim DELETE
-//     and the install UPSERT both run outside RLS. After the install row is
-//     written we enter `withUserContext(installed_by)` for any follow-up
-//     work (none in PR 1 — the picker is PR 2).
+//     and the install UPSERT both run outside RLS, so the callback
+//     re-checks that the installer is still an admin of the workspace and
+//     refuses a Slack team another workspace has already installed.
 //
 // nonce_hash and code_verifier_hash columns on `oauth_state` are NOT NULL
 // (the schema was built around the Google PKCE/OIDC flow). For Slack we
@@ -47,6 +49,7 @@ export const SLACK_BOT_SCOPES: readonly string[] = [
   'groups:history',
   'im:history',
   'mpim:history',
+  'app_mentions:read',
   'users:read',
 ];
 
@@ -115,14 +118,27 @@ export async function startSlackInstall(
   const expiresAt = new Date(Date.now() + STATE_TTL_MS).toISOString();
 
   const db = getDbPg();
+  const [workspace] = await db<{ id: string | null; is_admin: boolean }[]>`
+    select public.current_workspace_id() as id,
+           coalesce(public.is_workspace_admin(public.current_workspace_id()),
+                    false) as is_admin
+  `;
+  if (!workspace?.id || !workspace.is_admin) {
+    throw new SlackOAuthError(
+      'forbidden',
+      'Only workspace admins can connect Slack.',
+      403,
+    );
+  }
   await db`
     insert into public.oauth_state
       (user_id, provider, state_hash, nonce_hash, code_verifier_hash,
-       code_verifier, redirect_uri, return_to, expires_at)
+       code_verifier, redirect_uri, return_to, expires_at, workspace_id)
     values
       (${input.userId}::uuid, ${PROVIDER}, ${stateHash}, ${placeholderNonceHash},
        ${placeholderVerifierHash}, null, ${input.redirectUri},
-       ${input.returnTo ?? null}, ${expiresAt}::timestamptz)
+       ${input.returnTo ?? null}, ${expiresAt}::timestamptz,
+       ${workspace.id}::uuid)
   `;
 
   const params = new URLSearchParams({
@@ -156,6 +172,7 @@ export interface CompleteSlackInstallCallbackResult {
 interface ClaimedStateRow {
   id: string;
   user_id: string;
+  workspace_id: string | null;
   provider: string;
   redirect_uri: string;
   return_to: string | null;
@@ -183,7 +200,8 @@ export async function completeSlackInstallCallback(
     where state_hash = ${stateHash}
       and provider = ${PROVIDER}
       and expires_at > now()
-    returning id, user_id, provider, redirect_uri, return_to, expires_at
+    returning id, user_id, workspace_id, provider, redirect_uri, return_to,
+              expires_at
   `;
   if (claimed.length === 0) {
     return {
@@ -279,7 +297,25 @@ export async function completeSlackInstallCallback(
     .map((s) => s.trim())
     .filter(Boolean);
 
-  await upsertWorkspaceSlackInstall({
+  // Runs outside RLS: the installer must still be an admin of the
+  // workspace the install started in.
+  const admins = row.workspace_id
+    ? await db<{ user_id: string }[]>`
+        select user_id from public.workspace_members
+        where workspace_id = ${row.workspace_id}::uuid
+          and user_id = ${row.user_id}::uuid
+          and role in ('owner', 'admin')
+      `
+    : [];
+  if (!row.workspace_id || admins.length === 0) {
+    return {
+      status: 'error',
+      errorCode: 'forbidden',
+      message: 'Only workspace admins can connect Slack.',
+    };
+  }
+
+  const install = await upsertWorkspaceSlackInstall({
     teamId,
     teamName,
     botUserId: tokenPayload.bot_user_id ?? null,
@@ -287,7 +323,15 @@ export async function completeSlackInstallCallback(
     botToken: tokenPayload.access_token,
     scopes: grantedScopes,
     installedBy: row.user_id,
+    workspaceId: row.workspace_id,
   });
+  if (!install) {
+    return {
+      status: 'error',
+      errorCode: 'slack_team_in_use',
+      message: `${teamName} is already connected to another ClawTalk workspace.`,
+    };
+  }
 
   return { status: 'success', teamId, teamName };
 }
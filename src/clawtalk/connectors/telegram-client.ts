@@ -0,0 +1,132 @@
+// Tiny Telegram Bot API client.
+//
+// Same shape as slack-client.ts: no SDK, just fetch. Every Bot API
+// response is `{ ok: boolean, result?: T, description?: string,
+// error_code?: number }`; non-ok responses surface as `TelegramApiError`.
+
+export class TelegramApiError extends Error {
+  readonly errorCode: number;
+  readonly retryAfterSec: number | null;
+
+  constructor(
+    message: string,
+    errorCode: number,
+    retryAfterSec: number | null,
+  ) {
+    super(message);
+    this.name = 'TelegramApiError';
+    this.errorCode = errorCode;
+    this.retryAfterSec = retryAfterSec;
+  }
+}
+
+const TELEGRAM_API_BASE = 'https://api.telegram.org';
+
+interface TelegramResponse<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  error_code?: number;
+  parameters?: { retry_after?: number };
+}
+
+/** POST a Bot API method with a JSON body. */
+export async function telegramApiCall<T>(
+  method: string,
+  botToken: string,
+  body: Record<string, unknown> = {},
+): Promise<T> {
+  const response = await fetch(
+    `${TELEGRAM_API_BASE}/bot${botToken}/${method}`,
+    {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json',
+      },
+      body: JSON.stringify(body),
+    },
+  );
+  let payload: TelegramResponse<T>;
+  try {
+    payload = (await response.json()) as TelegramResponse<T>;
+  } catch {
+    throw new TelegramApiError(
+      `Telegram ${method} returned HTTP ${response.status}`,
+      response.status,
+      null,
+    );
+  }
+  if (!payload.ok || payload.result === undefined) {
+    throw new TelegramApiError(
+      `Telegram ${method} rejected: ${payload.description || 'unknown'}`,
+      payload.error_code ?? response.status,
+      payload.parameters?.retry_after ?? null,
+    );
+  }
+  return payload.result;
+}
+
+// ---------------------------------------------------------------------------
+// getMe / setWebhook / sendMessage
+// ---------------------------------------------------------------------------
+
+export interface TelegramBotUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  username?: string;
+}
+
+export async function getTelegramBot(
+  botToken: string,
+): Promise<TelegramBotUser> {
+  return telegramApiCall<TelegramBotUser>('getMe', botToken);
+}
+
+/**
+ * Point the bot's webhook at `url`. Telegram echoes `secretToken` back
+ * in the X-Telegram-Bot-Api-Secret-Token header on every update.
+ */
+export async function setTelegramWebhook(input: {
+  botToken: string;
+  url: string;
+  secretToken: string;
+}): Promise<void> {
+  await telegramApiCall<boolean>('setWebhook', input.botToken, {
+    url: input.url,
+    secret_token: input.secretToken,
+    allowed_updates: ['message'],
+  });
+}
+
+export interface TelegramSentMessage {
+  message_id: number;
+}
+
+export async function sendTelegramMessage(input: {
+  botToken: string;
+  chatId: string;
+  text: string;
+  parseMode?: 'HTML' | null;
+  replyToMessageId?: number | null;
+  messageThreadId?: number | null;
+}): Promise<TelegramSentMessage> {
+  return telegramApiCall<TelegramSentMessage>('sendMessage', input.botToken, {
+    chat_id: input.chatId,
+    text: input.text,
+    link_preview_options: { is_disabled: true },
+    ...(input.parseMode ? { parse_mode: input.parseMode } : {}),
+    ...(input.messageThreadId
+      ? { message_thread_id: input.messageThreadId }
+      : {}),
+    ...(input.replyToMessageId
+      ? {
+          reply_parameters: {
+            message_id: input.replyToMessageId,
+            allow_sending_without_reply: true,
+          },
+        }
+      : {}),
+  });
+}
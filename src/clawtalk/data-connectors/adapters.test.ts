@@ -0,0 +1,391 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  buildDataConnectorTools,
+  executeDataConnectorTool,
+  parseDataConnectorToolName,
+} from './registry.js';
+import type {
+  DataConnectorToolContext,
+  RuntimeDataConnector,
+} from './types.js';
+
+// ---------------------------------------------------------------------------
+// Fake upstream — one local HTTP server stands in for PostHog and the
+// Google Drive / Docs / Sheets APIs. Each test installs its routes.
+// ---------------------------------------------------------------------------
+
+interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+type Route = (req: RecordedRequest) => { status?: number; json: unknown };
+
+let server: Server;
+let baseUrl: string;
+let routes: Map<string, Route>;
+let requests: RecordedRequest[];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString('utf8');
+    });
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', baseUrl);
+      const recorded: RecordedRequest = {
+        method: req.method ?? 'GET',
+        url,
+        headers: req.headers,
+        body,
+      };
+      requests.push(recorded);
+      const route = routes.get(
+        `${recorded.method} ${decodeURIComponent(url.pathname)}`,
+      );
+      const reply = route
+        ? route(recorded)
+        : { status: 404, json: { error: 'not found' } };
+      res.writeHead(reply.status ?? 200, {
+        'content-type': 'application/json',
+      });
+      res.end(JSON.stringify(reply.json));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  routes = new Map();
+  requests = [];
+});
+
+const POSTHOG_ID = '11111111-1111-4111-8111-111111111111';
+const DOCS_ID = '22222222-2222-4222-8222-222222222222';
+const SHEETS_ID = '33333333-3333-4333-8333-333333333333';
+
+function posthogConnector(): RuntimeDataConnector {
+  return {
+    id: POSTHOG_ID,
+    kind: 'posthog',
+    displayName: 'Product analytics',
+    config: { project_id: '4242', host: `${baseUrl}/` },
+    credential: { apiKey: 'phx_test' },
+  };
+}
+
+function googleContext(
+  connector: Omit<RuntimeDataConnector, 'credential'>,
+): DataConnectorToolContext {
+  return {
+    connector: { ...connector, credential: { apiKey: 'AIza-test' } },
+    userId: 'user-1',
+    signal: new AbortController().signal,
+    googleApiBaseUrls: {
+      drive: `${baseUrl}/drive/v3`,
+      docs: `${baseUrl}/docs/v1`,
+      sheets: `${baseUrl}/sheets/v4`,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tool naming
+// ---------------------------------------------------------------------------
+
+describe('data connector tool names', () => {
+  it('emits one tool per operation and round-trips the name', () => {
+    const tools = buildDataConnectorTools([posthogConnector()]);
+    expect(tools.map((tool) => tool.name)).toEqual([
+      `connector_${POSTHOG_ID}_query`,
+      `connector_${POSTHOG_ID}_insight`,
+    ]);
+    expect(parseDataConnectorToolName(tools[0].name)).toEqual({
+      connectorId: POSTHOG_ID,
+      operation: 'query',
+    });
+    expect(parseDataConnectorToolName('connector_not-a-uuid_query')).toBe(null);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PostHog
+// ---------------------------------------------------------------------------
+
+describe('posthog connector', () => {
+  it('runs HogQL against the project query endpoint with the API key', async () => {
+    routes.set('POST /api/projects/4242/query/', () => ({
+      json: {
+        columns: ['event', 'count()'],
+        results: [
+          ['$pageview', 120],
+          ['signup', 7],
+        ],
+      },
+    }));
+
+    const result = await executeDataConnectorTool(
+      'query',
+      { query: 'SELECT event, count() FROM events GROUP BY event LIMIT 10' },
+      {
+        connector: posthogConnector(),
+        userId: 'user-1',
+        signal: new AbortController().signal,
+      },
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.result)).toEqual({
+      columns: ['event', 'count()'],
+      rows: [
+        ['$pageview', 120],
+        ['signup', 7],
+      ],
+      rowCount: 2,
+      truncated: false,
+    });
+    expect(requests[0].headers.authorization).toBe('Bearer phx_test');
+    expect(JSON.parse(requests[0].body)).toEqual({
+      query: {
+        kind: 'HogQLQuery',
+        query: 'SELECT event, count() FROM events GROUP BY event LIMIT 10',
+      },
+    });
+  });
+
+  it('resolves an insight by short id', async () => {
+    routes.set('GET /api/projects/4242/insights/', (req) => ({
+      json: {
+        results:
+          req.url.searchParams.get('short_id') === 'AbC123'
+            ? [
+                {
+                  id: 9,
+                  short_id: 'AbC123',
+                  name: 'Weekly signups',
+                  result: [],
+                },
+              ]
+            : [],
+      },
+    }));
+
+    const result = await executeDataConnectorTool(
+      'insight',
+      { insightId: 'AbC123' },
+      {
+        connector: posthogConnector(),
+        userId: 'user-1',
+        signal: new AbortController().signal,
+      },
+    );
+    expect(JSON.parse(result.result)).toMatchObject({
+      id: 9,
+      shortId: 'AbC123',
+      name: 'Weekly signups',
+    });
+  });
+
+  it('surfaces upstream failures as tool errors', async () => {
+    routes.set('POST /api/projects/4242/query/', () => ({
+      status: 429,
+      json: { detail: 'throttled' },
+    }));
+
+    const result = await executeDataConnectorTool(
+      'query',
+      { query: 'SELECT 1' },
+      {
+        connector: posthogConnector(),
+        userId: 'user-1',
+        signal: new AbortController().signal,
+      },
+    );
+    expect(result.isError).toBe(true);
+    expect(result.result).toMatch(
+      /^rate_limited: PostHog request failed \(429\)/,
+    );
+  });
+
+  it('rejects an empty query without calling PostHog', async () => {
+    const result = await executeDataConnectorTool(
+      'query',
+      { query: '   ' },
+      {
+        connector: posthogConnector(),
+        userId: 'user-1',
+        signal: new AbortController().signal,
+      },
+    );
+    expect(result.isError).toBe(true);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Google Docs / Sheets
+// ---------------------------------------------------------------------------
+
+describe('google connectors', () => {
+  it('reads a Doc inside the bound folder (nested) using the API key', async () => {
+    routes.set('GET /drive/v3/files/doc-1', () => ({
+      json: {
+        id: 'doc-1',
+        name: 'Roadmap',
+        mimeType: 'application/vnd.google-apps.document',
+        parents: ['sub-folder'],
+      },
+    }));
+    routes.set('GET /drive/v3/files/sub-folder', () => ({
+      json: { id: 'sub-folder', parents: ['folder-1'] },
+    }));
+    routes.set('GET /docs/v1/documents/doc-1', () => ({
+      json: {
+        title: 'Roadmap',
+        body: {
+          content: [
+            {
+              paragraph: {
+                elements: [{ textRun: { content: 'Ship Q3 goals\n' } }],
+              },
+            },
+          ],
+        },
+      },
+    }));
+
+    const result = await executeDataConnectorTool(
+      'read',
+      { documentId: 'doc-1' },
+      googleContext({
+        id: DOCS_ID,
+        kind: 'google_docs',
+        displayName: 'Planning docs',
+        config: { folder_id: 'folder-1' },
+      }),
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.result)).toEqual({
+      documentId: 'doc-1',
+      title: 'Roadmap',
+      text: 'Ship Q3 goals',
+    });
+    expect(
+      requests.every((req) => req.url.searchParams.get('key') === 'AIza-test'),
+    ).toBe(true);
+  });
+
+  it('rejects a Doc outside the bound folder', async () => {
+    routes.set('GET /drive/v3/files/doc-2', () => ({
+      json: {
+        id: 'doc-2',
+        name: 'Salaries',
+        mimeType: 'application/vnd.google-apps.document',
+        parents: ['root'],
+      },
+    }));
+    routes.set('GET /drive/v3/files/root', () => ({
+      json: { id: 'root', parents: [] },
+    }));
+
+    const result = await executeDataConnectorTool(
+      'read',
+      { documentId: 'doc-2' },
+      googleContext({
+        id: DOCS_ID,
+        kind: 'google_docs',
+        displayName: 'Planning docs',
+        config: { folder_id: 'folder-1' },
+      }),
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.result).toMatch(/^unbound_resource:/);
+    expect(requests.some((req) => req.url.pathname.startsWith('/docs/'))).toBe(
+      false,
+    );
+  });
+
+  it('reads the first tab of a Sheet when no range is given', async () => {
+    routes.set('GET /sheets/v4/spreadsheets/sheet-1', () => ({
+      json: {
+        properties: { title: 'Revenue' },
+        sheets: [{ properties: { title: 'Q3 Plan' } }],
+      },
+    }));
+    routes.set(
+      `GET /sheets/v4/spreadsheets/sheet-1/values/'Q3 Plan'!A1:Z200`,
+      (req) => ({
+        json: {
+          range: decodeURIComponent(req.url.pathname.split('/values/')[1]),
+          values: [
+            ['Month', 'ARR'],
+            ['Jul', '1.2M'],
+          ],
+        },
+      }),
+    );
+
+    const result = await executeDataConnectorTool(
+      'read',
+      { spreadsheetId: 'sheet-1' },
+      googleContext({
+        id: SHEETS_ID,
+        kind: 'google_sheets',
+        displayName: 'Finance sheets',
+        config: {},
+      }),
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.result)).toEqual({
+      spreadsheetId: 'sheet-1',
+      title: 'Revenue',
+      range: "'Q3 Plan'!A1:Z200",
+      rows: [
+        ['Month', 'ARR'],
+        ['Jul', '1.2M'],
+      ],
+      rowCount: 2,
+      truncated: false,
+    });
+  });
+
+  it('lists Sheets in the bound folder', async () => {
+    routes.set('GET /drive/v3/files', () => ({
+      json: { files: [{ id: 'sheet-1', name: 'Revenue' }] },
+    }));
+
+    const result = await executeDataConnectorTool(
+      'list',
+      { query: "Bob's" },
+      googleContext({
+        id: SHEETS_ID,
+        kind: 'google_sheets',
+        displayName: 'Finance sheets',
+        config: { folder_id: 'folder-1' },
+      }),
+    );
+
+    expect(JSON.parse(result.result)).toEqual({
+      files: [{ id: 'sheet-1', name: 'Revenue', modifiedTime: null }],
+    });
+    expect(requests[0].url.searchParams.get('q')).toBe(
+      "mimeType='application/vnd.google-apps.spreadsheet' and trashed=false" +
+        " and 'folder-1' in parents and name contains 'Bob\\'s'",
+    );
+  });
+});
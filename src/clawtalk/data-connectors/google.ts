@@ -0,0 +1,348 @@
+/**
+ * data-connectors/google.ts
+ *
+ * Google Docs / Google Sheets adapters for linked `google_docs` and
+ * `google_sheets` data connectors. Read-only.
+ *
+ * Credential: a connector with a stored credential uses it as a Google
+ * API key (`?key=`), which reaches files shared by link or with the
+ * key's project. Without one, the adapter borrows the run requester's
+ * Google Tools OAuth token (drive.readonly + documents.readonly /
+ * spreadsheets.readonly). Either way the connector's `folder_id` config
+ * is the boundary: listing only sees that folder, and reads of files
+ * outside it (walking up the Drive parent chain) are rejected with
+ * `unbound_resource`. A connector without a folder_id reads any file
+ * the credential can reach.
+ *
+ * Endpoints:
+ *   GET {drive}/files?q='<folder>' in parents and mimeType='...'
+ *   GET {drive}/files/{id}?fields=id,name,mimeType,parents
+ *   GET {docs}/documents/{id}
+ *   GET {sheets}/spreadsheets/{id}?fields=properties.title,sheets.properties
+ *   GET {sheets}/spreadsheets/{id}/values/{range}
+ */
+
+import { GoogleToolCredentialError } from '../identity/google-tools-errors.js';
+import { getValidGoogleToolAccessToken } from '../identity/google-tools-service.js';
+import { extractGoogleDocText } from '../talks/google-drive-tools.js';
+import {
+  DataConnectorError,
+  type DataConnectorToolContext,
+  type RuntimeDataConnector,
+} from './types.js';
+
+const GOOGLE_DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
+const GOOGLE_DOCS_API_BASE = 'https://docs.googleapis.com/v1';
+const GOOGLE_SHEETS_API_BASE = 'https://sheets.googleapis.com/v4';
+const GOOGLE_DOCS_MIME = 'application/vnd.google-apps.document';
+const GOOGLE_SHEETS_MIME = 'application/vnd.google-apps.spreadsheet';
+
+const MAX_RESULT_CHARS = 20_000;
+const MAX_SHEET_ROWS = 200;
+const MAX_LIST_FILES = 50;
+// Parent-chain hops checked before a file is declared outside the folder.
+const MAX_FOLDER_DEPTH = 10;
+const DEFAULT_SHEET_RANGE_COLUMNS = 'A1:Z';
+
+type JsonMap = Record<string, unknown>;
+
+interface GoogleAuth {
+  apply(url: URL): void;
+  headers: Record<string, string>;
+}
+
+function asJsonMap(value: unknown): JsonMap | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as JsonMap)
+    : null;
+}
+
+function capText(text: string): string {
+  return text.length > MAX_RESULT_CHARS
+    ? `${text.slice(0, MAX_RESULT_CHARS)}\n[truncated at ${MAX_RESULT_CHARS} characters]`
+    : text;
+}
+
+function readFolderId(connector: RuntimeDataConnector): string | null {
+  const value = connector.config.folder_id;
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+async function resolveAuth(
+  ctx: DataConnectorToolContext,
+  productScope: 'documents.readonly' | 'spreadsheets.readonly',
+): Promise<GoogleAuth> {
+  const apiKey = ctx.connector.credential?.apiKey;
+  if (apiKey) {
+    return {
+      apply: (url) => url.searchParams.set('key', apiKey),
+      headers: {},
+    };
+  }
+  try {
+    const token = await getValidGoogleToolAccessToken({
+      userId: ctx.userId,
+      requiredScopes: ['drive.readonly', productScope],
+    });
+    return {
+      apply: () => undefined,
+      headers: { authorization: `Bearer ${token.accessToken}` },
+    };
+  } catch (err) {
+    if (err instanceof GoogleToolCredentialError) {
+      throw new DataConnectorError(
+        'credential_missing',
+        `Connector '${ctx.connector.displayName}' has no API key and the requester's Google account is unavailable (${err.code}: ${err.message}).`,
+        err.status,
+      );
+    }
+    throw err;
+  }
+}
+
+async function googleGetJson(
+  url: URL,
+  auth: GoogleAuth,
+  signal: AbortSignal,
+  label: string,
+): Promise<JsonMap> {
+  auth.apply(url);
+  const response = await fetch(url, {
+    headers: { accept: 'application/json', ...auth.headers },
+    signal,
+  });
+  if (!response.ok) {
+    const code =
+      response.status === 429
+        ? 'rate_limited'
+        : response.status === 404
+          ? 'invalid_request'
+          : 'upstream_error';
+    throw new DataConnectorError(
+      code,
+      `${label} request failed with HTTP ${response.status}.`,
+      response.status,
+    );
+  }
+  const payload = asJsonMap((await response.json()) as unknown);
+  if (!payload) {
+    throw new DataConnectorError(
+      'upstream_error',
+      `${label} response was not a JSON object.`,
+    );
+  }
+  return payload;
+}
+
+function apiBase(
+  ctx: DataConnectorToolContext,
+  api: 'drive' | 'docs' | 'sheets',
+): string {
+  const override = ctx.googleApiBaseUrls?.[api];
+  if (override) return override.replace(/\/+$/, '');
+  if (api === 'drive') return GOOGLE_DRIVE_API_BASE;
+  return api === 'docs' ? GOOGLE_DOCS_API_BASE : GOOGLE_SHEETS_API_BASE;
+}
+
+async function fetchFileMetadata(
+  ctx: DataConnectorToolContext,
+  auth: GoogleAuth,
+  fileId: string,
+): Promise<{ id: string; name: string; mimeType: string; parents: string[] }> {
+  const url = new URL(
+    `${apiBase(ctx, 'drive')}/files/${encodeURIComponent(fileId)}`,
+  );
+  url.searchParams.set('fields', 'id,name,mimeType,parents');
+  url.searchParams.set('supportsAllDrives', 'true');
+  const payload = await googleGetJson(url, auth, ctx.signal, 'Google Drive');
+  return {
+    id: typeof payload.id === 'string' ? payload.id : fileId,
+    name: typeof payload.name === 'string' ? payload.name : fileId,
+    mimeType: typeof payload.mimeType === 'string' ? payload.mimeType : '',
+    parents: Array.isArray(payload.parents)
+      ? payload.parents.filter(
+          (value): value is string => typeof value === 'string',
+        )
+      : [],
+  };
+}
+
+/**
+ * Reject files outside the connector's folder. Walks the Drive parent
+ * chain breadth-first so files in nested subfolders still count.
+ */
+async function assertFileInConnectorFolder(
+  ctx: DataConnectorToolContext,
+  auth: GoogleAuth,
+  fileId: string,
+  expectedMimeType: string,
+): Promise<void> {
+  const folderId = readFolderId(ctx.connector);
+  if (!folderId) return;
+
+  const file = await fetchFileMetadata(ctx, auth, fileId);
+  if (file.mimeType && file.mimeType !== expectedMimeType) {
+    throw new DataConnectorError(
+      'invalid_request',
+      `'${file.name}' is not a ${expectedMimeType === GOOGLE_DOCS_MIME ? 'Google Doc' : 'Google Sheet'}.`,
+    );
+  }
+  let frontier = file.parents;
+  const visited = new Set<string>();
+  for (
+    let depth = 0;
+    depth < MAX_FOLDER_DEPTH && frontier.length > 0;
+    depth += 1
+  ) {
+    if (frontier.includes(folderId)) return;
+    const next: string[] = [];
+    for (const parentId of frontier) {
+      if (visited.has(parentId)) continue;
+      visited.add(parentId);
+      next.push(...(await fetchFileMetadata(ctx, auth, parentId)).parents);
+    }
+    frontier = next;
+  }
+  throw new DataConnectorError(
+    'unbound_resource',
+    `'${file.name}' is outside the folder bound to connector '${ctx.connector.displayName}'.`,
+  );
+}
+
+function requireFileId(value: unknown, field: string): string {
+  const id = typeof value === 'string' ? value.trim() : '';
+  if (!id) {
+    throw new DataConnectorError(
+      'invalid_request',
+      `A non-empty \`${field}\` is required.`,
+    );
+  }
+  return id;
+}
+
+export async function listGoogleConnectorFiles(
+  ctx: DataConnectorToolContext,
+  args: { query?: string },
+): Promise<string> {
+  const isDocs = ctx.connector.kind === 'google_docs';
+  const auth = await resolveAuth(
+    ctx,
+    isDocs ? 'documents.readonly' : 'spreadsheets.readonly',
+  );
+  const clauses = [
+    `mimeType='${isDocs ? GOOGLE_DOCS_MIME : GOOGLE_SHEETS_MIME}'`,
+    'trashed=false',
+  ];
+  const folderId = readFolderId(ctx.connector);
+  if (folderId) clauses.push(`'${escapeDriveQueryValue(folderId)}' in parents`);
+  const query = args.query?.trim();
+  if (query) clauses.push(`name contains '${escapeDriveQueryValue(query)}'`);
+
+  const url = new URL(`${apiBase(ctx, 'drive')}/files`);
+  url.searchParams.set('q', clauses.join(' and '));
+  url.searchParams.set('fields', 'files(id,name,modifiedTime)');
+  url.searchParams.set('pageSize', String(MAX_LIST_FILES));
+  url.searchParams.set('orderBy', 'modifiedTime desc');
+  url.searchParams.set('supportsAllDrives', 'true');
+  url.searchParams.set('includeItemsFromAllDrives', 'true');
+  const payload = await googleGetJson(url, auth, ctx.signal, 'Google Drive');
+  const files = Array.isArray(payload.files) ? payload.files : [];
+  return JSON.stringify({
+    files: files.map((raw) => {
+      const file = asJsonMap(raw) ?? {};
+      return {
+        id: file.id ?? null,
+        name: file.name ?? null,
+        modifiedTime: file.modifiedTime ?? null,
+      };
+    }),
+  });
+}
+
+export async function readGoogleConnectorDoc(
+  ctx: DataConnectorToolContext,
+  args: { documentId?: unknown },
+): Promise<string> {
+  const documentId = requireFileId(args.documentId, 'documentId');
+  const auth = await resolveAuth(ctx, 'documents.readonly');
+  await assertFileInConnectorFolder(ctx, auth, documentId, GOOGLE_DOCS_MIME);
+
+  const payload = await googleGetJson(
+    new URL(
+      `${apiBase(ctx, 'docs')}/documents/${encodeURIComponent(documentId)}`,
+    ),
+    auth,
+    ctx.signal,
+    'Google Docs',
+  );
+  const body = asJsonMap(payload.body);
+  const content = Array.isArray(body?.content) ? body.content : [];
+  return capText(
+    JSON.stringify({
+      documentId,
+      title: typeof payload.title === 'string' ? payload.title : documentId,
+      text: extractGoogleDocText(content),
+    }),
+  );
+}
+
+export async function readGoogleConnectorSheet(
+  ctx: DataConnectorToolContext,
+  args: { spreadsheetId?: unknown; range?: unknown },
+): Promise<string> {
+  const spreadsheetId = requireFileId(args.spreadsheetId, 'spreadsheetId');
+  const auth = await resolveAuth(ctx, 'spreadsheets.readonly');
+  await assertFileInConnectorFolder(
+    ctx,
+    auth,
+    spreadsheetId,
+    GOOGLE_SHEETS_MIME,
+  );
+
+  const sheetsBase = `${apiBase(ctx, 'sheets')}/spreadsheets/${encodeURIComponent(spreadsheetId)}`;
+  let range = typeof args.range === 'string' ? args.range.trim() : '';
+  let title: string | null = null;
+  if (!range) {
+    // No range: read the top of the first tab.
+    const metaUrl = new URL(sheetsBase);
+    metaUrl.searchParams.set('fields', 'properties.title,sheets.properties');
+    const meta = await googleGetJson(
+      metaUrl,
+      auth,
+      ctx.signal,
+      'Google Sheets',
+    );
+    title =
+      typeof asJsonMap(meta.properties)?.title === 'string'
+        ? (asJsonMap(meta.properties)?.title as string)
+        : null;
+    const firstSheet = Array.isArray(meta.sheets)
+      ? asJsonMap(asJsonMap(meta.sheets[0])?.properties)
+      : null;
+    const tab =
+      typeof firstSheet?.title === 'string' ? firstSheet.title : 'Sheet1';
+    range = `'${tab.replace(/'/g, "''")}'!${DEFAULT_SHEET_RANGE_COLUMNS}${MAX_SHEET_ROWS}`;
+  }
+
+  const values = await googleGetJson(
+    new URL(`${sheetsBase}/values/${encodeURIComponent(range)}`),
+    auth,
+    ctx.signal,
+    'Google Sheets',
+  );
+  const rows = Array.isArray(values.values) ? values.values : [];
+  return capText(
+    JSON.stringify({
+      spreadsheetId,
+      title,
+      range: typeof values.range === 'string' ? values.range : range,
+      rows: rows.slice(0, MAX_SHEET_ROWS),
+      rowCount: rows.length,
+      truncated: rows.length > MAX_SHEET_ROWS,
+    }),
+  );
+}
+
+function escapeDriveQueryValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
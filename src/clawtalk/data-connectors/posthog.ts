@@ -0,0 +1,189 @@
+/**
+ * data-connectors/posthog.ts
+ *
+ * PostHog adapter for linked `posthog` data connectors.
+ *
+ * Endpoints (host + project_id come from the connector's config_json,
+ * the personal API key from its encrypted credential):
+ *   POST {host}/api/projects/{project_id}/query/
+ *        body { query: { kind: 'HogQLQuery', query } }
+ *   GET  {host}/api/projects/{project_id}/insights/{id}/
+ *   GET  {host}/api/projects/{project_id}/insights/?short_id=...
+ *   GET  {host}/api/projects/{project_id}/insights/?search=...&limit=...
+ * Headers: Authorization: Bearer <personal api key>
+ *
+ * Results are trimmed before they reach the model: HogQL rows are capped
+ * at MAX_QUERY_ROWS and every payload at MAX_RESULT_CHARS.
+ */
+
+import { DataConnectorError, type RuntimeDataConnector } from './types.js';
+
+const DEFAULT_POSTHOG_HOST = 'https://us.posthog.com';
+const MAX_QUERY_ROWS = 200;
+const MAX_RESULT_CHARS = 20_000;
+const DEFAULT_INSIGHT_SEARCH_LIMIT = 10;
+
+type JsonMap = Record<string, unknown>;
+
+function resolveEndpoint(connector: RuntimeDataConnector): {
+  baseUrl: string;
+  apiKey: string;
+} {
+  const projectId =
+    typeof connector.config.project_id === 'string'
+      ? connector.config.project_id.trim()
+      : '';
+  if (!projectId) {
+    throw new DataConnectorError(
+      'connector_unavailable',
+      `PostHog connector '${connector.displayName}' has no project_id configured.`,
+    );
+  }
+  if (!connector.credential?.apiKey) {
+    throw new DataConnectorError(
+      'credential_missing',
+      `PostHog connector '${connector.displayName}' has no API key stored.`,
+    );
+  }
+  const host =
+    typeof connector.config.host === 'string' && connector.config.host.trim()
+      ? connector.config.host.trim().replace(/\/+$/, '')
+      : DEFAULT_POSTHOG_HOST;
+  return {
+    baseUrl: `${host}/api/projects/${encodeURIComponent(projectId)}`,
+    apiKey: connector.credential.apiKey,
+  };
+}
+
+async function posthogFetch(
+  url: string,
+  apiKey: string,
+  signal: AbortSignal,
+  init?: { method: 'POST'; body: unknown },
+): Promise<JsonMap> {
+  const response = await fetch(url, {
+    method: init?.method ?? 'GET',
+    headers: {
+      accept: 'application/json',
+      authorization: `Bearer ${apiKey}`,
+      ...(init ? { 'content-type': 'application/json' } : {}),
+    },
+    body: init ? JSON.stringify(init.body) : undefined,
+    signal,
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new DataConnectorError(
+      response.status === 429 ? 'rate_limited' : 'upstream_error',
+      `PostHog request failed (${response.status})${detail ? `: ${detail.slice(0, 300)}` : ''}`,
+      response.status,
+    );
+  }
+  const payload = (await response.json()) as unknown;
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new DataConnectorError(
+      'upstream_error',
+      'PostHog response was not a JSON object.',
+    );
+  }
+  return payload as JsonMap;
+}
+
+function capText(text: string): string {
+  return text.length > MAX_RESULT_CHARS
+    ? `${text.slice(0, MAX_RESULT_CHARS)}\n[truncated at ${MAX_RESULT_CHARS} characters]`
+    : text;
+}
+
+export async function runPostHogHogQlQuery(
+  connector: RuntimeDataConnector,
+  query: string,
+  signal: AbortSignal,
+): Promise<string> {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    throw new DataConnectorError(
+      'invalid_request',
+      'posthog query requires a non-empty `query` string.',
+    );
+  }
+  const { baseUrl, apiKey } = resolveEndpoint(connector);
+  const payload = await posthogFetch(`${baseUrl}/query/`, apiKey, signal, {
+    method: 'POST',
+    body: { query: { kind: 'HogQLQuery', query: trimmed } },
+  });
+  const rows = Array.isArray(payload.results) ? payload.results : [];
+  return capText(
+    JSON.stringify({
+      columns: Array.isArray(payload.columns) ? payload.columns : [],
+      rows: rows.slice(0, MAX_QUERY_ROWS),
+      rowCount: rows.length,
+      truncated: rows.length > MAX_QUERY_ROWS,
+    }),
+  );
+}
+
+export async function getPostHogInsight(
+  connector: RuntimeDataConnector,
+  args: { insightId?: string; search?: string },
+  signal: AbortSignal,
+): Promise<string> {
+  const { baseUrl, apiKey } = resolveEndpoint(connector);
+  const insightId = args.insightId?.trim();
+  if (insightId) {
+    // Numeric ids address the insight directly; anything else is the
+    // short id from an insight URL (/insights/AbC123xy).
+    const payload = /^\d+$/.test(insightId)
+      ? await posthogFetch(`${baseUrl}/insights/${insightId}/`, apiKey, signal)
+      : await posthogFetch(
+          `${baseUrl}/insights/?short_id=${encodeURIComponent(insightId)}`,
+          apiKey,
+          signal,
+        ).then((list) => {
+          const match = Array.isArray(list.results) ? list.results[0] : null;
+          if (!match || typeof match !== 'object') {
+            throw new DataConnectorError(
+              'invalid_request',
+              `No PostHog insight with short id '${insightId}'.`,
+              404,
+            );
+          }
+          return match as JsonMap;
+        });
+    return capText(
+      JSON.stringify({
+        id: payload.id ?? null,
+        shortId: payload.short_id ?? null,
+        name: payload.name ?? payload.derived_name ?? null,
+        description: payload.description ?? null,
+        lastRefresh: payload.last_refresh ?? null,
+        query: payload.query ?? payload.filters ?? null,
+        result: payload.result ?? null,
+      }),
+    );
+  }
+
+  const params = new URLSearchParams({
+    limit: String(DEFAULT_INSIGHT_SEARCH_LIMIT),
+  });
+  if (args.search?.trim()) params.set('search', args.search.trim());
+  const list = await posthogFetch(
+    `${baseUrl}/insights/?${params.toString()}`,
+    apiKey,
+    signal,
+  );
+  const results = Array.isArray(list.results) ? list.results : [];
+  return capText(
+    JSON.stringify({
+      insights: results.map((raw) => {
+        const insight = (raw ?? {}) as JsonMap;
+        return {
+          id: insight.id ?? null,
+          shortId: insight.short_id ?? null,
+          name: insight.name ?? insight.derived_name ?? null,
+          description: insight.description ?? null,
+        };
+      }),
+    }),
+  );
+}
@@ -0,0 +1,288 @@
+/**
+ * data-connectors/registry.ts
+ *
+ * Turns a Talk's linked data connectors into LLM tools and dispatches
+ * the resulting tool calls.
+ *
+ * Surface:
+ *   - `loadTalkDataConnectors(talkId)` — linked, enabled connectors with
+ *     their decrypted credential. Must run inside `withUserContext`
+ *     (talk_data_connector_links is owner-scoped by RLS).
+ *   - `buildDataConnectorTools(connectors)` — LlmToolDefinition[] named
+ *     `connector_<connectorId>_<operation>`, one set per connector kind.
+ *   - `parseDataConnectorToolName(name)` — inverse of the naming scheme.
+ *   - `executeDataConnectorTool(operation, args, ctx)` — runs one call;
+ *     adapter failures come back as `isError` results, never throws.
+ *
+ * Job-policy filtering (TalkJobExecutionPolicy.allowedConnectorIds) is
+ * applied by the callers — context-loader when emitting tool schemas and
+ * new-executor again at dispatch time.
+ */
+
+import { logger } from '../../logger.js';
+import type { LlmToolDefinition } from '../agents/llm-client.js';
+import {
+  decryptWorkspaceDataConnectorCredential,
+  getWorkspaceDataConnector,
+  listTalkDataConnectorLinks,
+  type DataConnectorKind,
+} from '../db/connectors-accessors.js';
+import {
+  listGoogleConnectorFiles,
+  readGoogleConnectorDoc,
+  readGoogleConnectorSheet,
+} from './google.js';
+import { getPostHogInsight, runPostHogHogQlQuery } from './posthog.js';
+import {
+  DataConnectorError,
+  type DataConnectorToolContext,
+  type DataConnectorToolResult,
+  type RuntimeDataConnector,
+} from './types.js';
+
+const CONNECTOR_TOOL_NAME_RE =
+  /^connector_([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})_([a-z_]+)$/;
+
+interface OperationSpec {
+  operation: string;
+  description: (connector: RuntimeDataConnector) => string;
+  inputSchema: Record<string, unknown>;
+}
+
+const OPERATIONS_BY_KIND: Record<DataConnectorKind, OperationSpec[]> = {
+  posthog: [
+    {
+      operation: 'query',
+      description: (c) =>
+        `Run a read-only HogQL (SQL) query against the PostHog project behind the '${c.displayName}' connector. Query the \`events\` and \`persons\` tables; always add a LIMIT. Returns columns + up to 200 rows.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description:
+              'HogQL query, e.g. SELECT event, count() FROM events WHERE timestamp > now() - interval 7 day GROUP BY event ORDER BY count() DESC LIMIT 20',
+          },
+        },
+        required: ['query'],
+      },
+    },
+    {
+      operation: 'insight',
+      description: (c) =>
+        `Fetch a saved PostHog insight (with its latest computed result) from the '${c.displayName}' connector, or search saved insights by name when no id is given.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          insightId: {
+            type: 'string',
+            description:
+              'Numeric insight id or the short id from an insight URL (/insights/<shortId>).',
+          },
+          search: {
+            type: 'string',
+            description: 'Name filter used when insightId is omitted.',
+          },
+        },
+      },
+    },
+  ],
+  google_docs: [
+    {
+      operation: 'list',
+      description: (c) =>
+        `List Google Docs available through the '${c.displayName}' connector (most recently modified first).`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Optional document-name filter.',
+          },
+        },
+      },
+    },
+    {
+      operation: 'read',
+      description: (c) =>
+        `Read the text of a Google Doc through the '${c.displayName}' connector. Use the list tool first to find document ids.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          documentId: {
+            type: 'string',
+            description: 'Google Docs document id.',
+          },
+        },
+        required: ['documentId'],
+      },
+    },
+  ],
+  google_sheets: [
+    {
+      operation: 'list',
+      description: (c) =>
+        `List Google Sheets available through the '${c.displayName}' connector (most recently modified first).`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Optional spreadsheet-name filter.',
+          },
+        },
+      },
+    },
+    {
+      operation: 'read',
+      description: (c) =>
+        `Read cell values from a Google Sheet through the '${c.displayName}' connector. Returns up to 200 rows. Use the list tool first to find spreadsheet ids.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          spreadsheetId: {
+            type: 'string',
+            description: 'Google Sheets spreadsheet id.',
+          },
+          range: {
+            type: 'string',
+            description:
+              "A1 range such as 'Revenue'!A1:F50. Defaults to the top of the first tab.",
+          },
+        },
+        required: ['spreadsheetId'],
+      },
+    },
+  ],
+};
+
+export function buildDataConnectorToolName(
+  connectorId: string,
+  operation: string,
+): string {
+  return `connector_${connectorId}_${operation}`;
+}
+
+export function parseDataConnectorToolName(
+  name: string,
+): { connectorId: string; operation: string } | null {
+  const match = CONNECTOR_TOOL_NAME_RE.exec(name);
+  return match ? { connectorId: match[1], operation: match[2] } : null;
+}
+
+export async function loadTalkDataConnectors(
+  talkId: string,
+): Promise<RuntimeDataConnector[]> {
+  const links = await listTalkDataConnectorLinks(talkId);
+  const connectors: RuntimeDataConnector[] = [];
+  for (const link of links) {
+    const record = await getWorkspaceDataConnector(link.dataConnectorId);
+    if (!record?.enabled) continue;
+    let credential: RuntimeDataConnector['credential'] = null;
+    if (record.has_credential) {
+      try {
+        const decrypted = await decryptWorkspaceDataConnectorCredential(
+          record.id,
+        );
+        credential = decrypted ? { apiKey: decrypted.apiKey } : null;
+      } catch (err) {
+        logger.warn(
+          { err, talkId, connectorId: record.id },
+          'data-connectors: failed to decrypt connector credential',
+        );
+      }
+    }
+    // PostHog has no credential-less mode; don't advertise tools that
+    // can only fail.
+    if (record.kind === 'posthog' && !credential) continue;
+    connectors.push({
+      id: record.id,
+      kind: record.kind,
+      displayName: record.display_name,
+      config: record.config_json,
+      credential,
+    });
+  }
+  return connectors;
+}
+
+export function buildDataConnectorTools(
+  connectors: RuntimeDataConnector[],
+): LlmToolDefinition[] {
+  return connectors.flatMap((connector) =>
+    OPERATIONS_BY_KIND[connector.kind].map((spec) => ({
+      name: buildDataConnectorToolName(connector.id, spec.operation),
+      description: spec.description(connector),
+      inputSchema: spec.inputSchema,
+    })),
+  );
+}
+
+function readOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+async function dispatch(
+  operation: string,
+  args: Record<string, unknown>,
+  ctx: DataConnectorToolContext,
+): Promise<string> {
+  const { connector, signal } = ctx;
+  switch (`${connector.kind}:${operation}`) {
+    case 'posthog:query':
+      return runPostHogHogQlQuery(
+        connector,
+        readOptionalString(args.query) ?? '',
+        signal,
+      );
+    case 'posthog:insight':
+      return getPostHogInsight(
+        connector,
+        {
+          insightId: readOptionalString(args.insightId),
+          search: readOptionalString(args.search),
+        },
+        signal,
+      );
+    case 'google_docs:list':
+    case 'google_sheets:list':
+      return listGoogleConnectorFiles(ctx, {
+        query: readOptionalString(args.query),
+      });
+    case 'google_docs:read':
+      return readGoogleConnectorDoc(ctx, { documentId: args.documentId });
+    case 'google_sheets:read':
+      return readGoogleConnectorSheet(ctx, {
+        spreadsheetId: args.spreadsheetId,
+        range: args.range,
+      });
+    default:
+      throw new DataConnectorError(
+        'invalid_request',
+        `Connector '${connector.displayName}' (${connector.kind}) has no '${operation}' tool.`,
+      );
+  }
+}
+
+export async function executeDataConnectorTool(
+  operation: string,
+  args: Record<string, unknown>,
+  ctx: DataConnectorToolContext,
+): Promise<DataConnectorToolResult> {
+  try {
+    return { result: await dispatch(operation, args, ctx) };
+  } catch (err) {
+    if (err instanceof DataConnectorError) {
+      return { result: `${err.code}: ${err.message}`, isError: true };
+    }
+    if (ctx.signal.aborted) throw err;
+    logger.warn(
+      { err, connectorId: ctx.connector.id, operation },
+      'data-connectors: tool call failed',
+    );
+    return {
+      result: `upstream_error: ${err instanceof Error ? err.message : String(err)}`,
+      isError: true,
+    };
+  }
+}
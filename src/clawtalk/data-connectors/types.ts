@@ -0,0 +1,65 @@
+/**
+ * data-connectors/types.ts
+ *
+ * Shared types for the Talk data-connector tool layer. Each workspace
+ * data connector linked to a Talk (talk_data_connector_links) turns into
+ * one or more `connector_<connectorId>_<operation>` LLM tools; the
+ * registry resolves the connector row + credential and dispatches to a
+ * per-kind adapter (posthog.ts, google.ts).
+ *
+ * Adapters are stateless: they take the resolved connector, parsed tool
+ * arguments, and an AbortSignal, and return the text handed back to the
+ * model. Upstream failures throw `DataConnectorError`, which the registry
+ * flattens into an `isError` tool result.
+ */
+
+import type { DataConnectorKind } from '../db/connectors-accessors.js';
+
+export type DataConnectorErrorCode =
+  | 'connector_unavailable'
+  | 'credential_missing'
+  | 'invalid_request'
+  | 'unbound_resource'
+  | 'upstream_error'
+  | 'rate_limited';
+
+export class DataConnectorError extends Error {
+  constructor(
+    public readonly code: DataConnectorErrorCode,
+    message: string,
+    public readonly statusCode?: number,
+  ) {
+    super(message);
+    this.name = 'DataConnectorError';
+  }
+}
+
+/** A linked, enabled connector with its decrypted credential (if any). */
+export interface RuntimeDataConnector {
+  id: string;
+  kind: DataConnectorKind;
+  displayName: string;
+  config: Record<string, unknown>;
+  credential: { apiKey: string } | null;
+}
+
+export interface DataConnectorToolContext {
+  connector: RuntimeDataConnector;
+  /** Run requester; Google adapters fall back to their Google Tools token. */
+  userId: string;
+  signal: AbortSignal;
+  /**
+   * Test seam — override the Google API origins so adapters can be pointed
+   * at a local fake server. PostHog needs none: its host is connector config.
+   */
+  googleApiBaseUrls?: {
+    drive?: string;
+    docs?: string;
+    sheets?: string;
+  };
+}
+
+export interface DataConnectorToolResult {
+  result: string;
+  isError?: boolean;
+}
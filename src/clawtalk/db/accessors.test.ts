@@ -77,6 +77,16 @@ import {
   upsertTalk,
   upsertTalkMember,
 } from './accessors.js';
+import { grantTalkRunIterations } from './run-continuation-accessors.js';
+import { listMyInvites, respondToInvite } from './invite-accessors.js';
+import {
+  listTalkMemberDirectory,
+  shareTalkByEmail,
+} from './talk-sharing-accessors.js';
+import {
+  inviteWorkspaceMemberByEmail,
+  listWorkspaceMemberDirectory,
+} from './workspace-accessors.js';
 
 const USER_A_ID = '0c555555-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
 const USER_B_ID = '0c555555-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
@@ -1532,6 +1542,299 @@ describe('accessors-pg slice 1: talks/folders/members/threads', () => {
     });
   });
 
+  it('editors can only cancel runs and retitle threads (0063, 0067)', async () => {
+    const { talkId, threadId, runId } = await withUserContext(
+      USER_A_ID,
+      async () => {
+        const t = await createTalk({ ownerId: USER_A_ID, topicTitle: 'Edit' });
+        const tid = await getOrCreateDefaultThread({
+          talkId: t.id,
+          ownerId: USER_A_ID,
+        });
+        const run = await createTalkRun({
+          ownerId: USER_A_ID,
+          talkId: t.id,
+          threadId: tid,
+          requestedBy: USER_A_ID,
+          status: 'queued',
+        });
+        return { talkId: t.id, threadId: tid, runId: run.id };
+      },
+    );
+    const adminDb = getDbPg();
+    await adminDb`
+      insert into public.talk_members (talk_id, user_id, role)
+      values (${talkId}::uuid, ${USER_B_ID}::uuid, 'editor')
+    `;
+
+    await expect(
+      withUserContext(USER_B_ID, () => markTalkRunStatus(runId, 'completed')),
+    ).rejects.toThrow(/editors can only cancel a run/);
+    // A paused run's transcript is off limits; continuing goes through
+    // grant_talk_run_iterations(), which only adds the grant.
+    await adminDb`
+      update public.talk_runs
+      set status = 'paused',
+          continuation_json = '{"messages": [], "grantedIterations": 0}'
+      where id = ${runId}::uuid
+    `;
+    await expect(
+      withUserContext(USER_B_ID, async () => {
+        const db = getDbPg();
+        await db`
+          update public.talk_runs
+          set status = 'queued',
+              continuation_json = '{"messages": [{"role": "user"}]}'
+          where id = ${runId}::uuid
+        `;
+      }),
+    ).rejects.toThrow(/editors can only cancel a run/);
+    expect(
+      await withUserContext(USER_B_ID, () =>
+        grantTalkRunIterations({ runId, iterations: 5 }),
+      ),
+    ).toBe(true);
+    const [continued] = await adminDb<
+      { status: string; continuation_json: Record<string, unknown> }[]
+    >`
+      select status, continuation_json from public.talk_runs
+      where id = ${runId}::uuid
+    `;
+    expect(continued.status).toBe('queued');
+    expect(continued.continuation_json).toEqual({
+      messages: [],
+      grantedIterations: 5,
+      autoGranted: false,
+    });
+    await expect(
+      withUserContext(USER_B_ID, () =>
+        updateTalkThreadMetadata({ talkId, threadId, pinned: true }),
+      ),
+    ).rejects.toThrow(/editors can only change a thread title/);
+
+    const result = await withUserContext(USER_B_ID, () =>
+      cancelTalkRunsAtomic({
+        talkId,
+        cancelledBy: USER_B_ID,
+        ownerId: USER_A_ID,
+      }),
+    );
+    expect(result.cancelledRunIds).toEqual([runId]);
+    const thread = await withUserContext(USER_B_ID, () =>
+      updateTalkThreadMetadata({ talkId, threadId, title: 'Renamed' }),
+    );
+    expect(thread?.title).toBe('Renamed');
+  });
+
+  it('editors can only insert their own user message and its queued runs (0068)', async () => {
+    const { talkId, threadId } = await withUserContext(USER_A_ID, async () => {
+      const t = await createTalk({ ownerId: USER_A_ID, topicTitle: 'Post' });
+      const tid = await getOrCreateDefaultThread({
+        talkId: t.id,
+        ownerId: USER_A_ID,
+      });
+      return { talkId: t.id, threadId: tid };
+    });
+    const adminDb = getDbPg();
+    const [agent] = await adminDb<{ id: string }[]>`
+      insert into public.registered_agents
+        (owner_id, name, provider_id, model_id)
+      values (${USER_A_ID}::uuid, 'Argus', 'provider.anthropic', 'claude')
+      returning id
+    `;
+    await adminDb`
+      insert into public.talk_agents (talk_id, owner_id, registered_agent_id)
+      values (${talkId}::uuid, ${USER_A_ID}::uuid, ${agent.id}::uuid)
+    `;
+    await adminDb`
+      insert into public.talk_members (talk_id, user_id, role)
+      values (${talkId}::uuid, ${USER_B_ID}::uuid, 'editor')
+    `;
+
+    const turn = await withUserContext(USER_B_ID, () =>
+      enqueueTalkTurnAtomic({
+        ownerId: USER_A_ID,
+        talkId,
+        threadId,
+        userId: USER_B_ID,
+        content: 'What changed?',
+        targetAgentIds: [agent.id],
+        runMetadata: { structuredOutput: { schema: { type: 'object' } } },
+      }),
+    );
+    expect(turn.runs).toHaveLength(1);
+    expect(turn.runs[0].requested_by).toBe(USER_B_ID);
+
+    await expect(
+      withUserContext(USER_B_ID, () =>
+        createTalkMessage({
+          ownerId: USER_A_ID,
+          talkId,
+          threadId,
+          role: 'assistant',
+          content: 'Sure, here is the owner key.',
+          createdBy: USER_B_ID,
+        }),
+      ),
+    ).rejects.toThrow(/row-level security/);
+
+    const queue = (overrides: Partial<Parameters<typeof createTalkRun>[0]>) =>
+      withUserContext(USER_B_ID, () =>
+        createTalkRun({
+          ownerId: USER_A_ID,
+          talkId,
+          threadId,
+          requestedBy: USER_B_ID,
+          status: 'queued',
+          triggerMessageId: turn.message.id,
+          targetAgentId: agent.id,
+          activeToolFamiliesSnapshot: {},
+          ...overrides,
+        }),
+      );
+    await expect(queue({ status: 'running' })).rejects.toThrow(
+      /editors can only queue a run for their own message/,
+    );
+    await expect(
+      queue({ targetAgentId: '0c555555-9999-9999-9999-000000000068' }),
+    ).rejects.toThrow(/editors can only queue a run for their own message/);
+    await expect(
+      queue({ metadata: { toolIterationGrant: 50 } }),
+    ).rejects.toThrow(/editors can only queue a run for their own message/);
+    await expect(queue({})).resolves.toMatchObject({ status: 'queued' });
+  });
+
+  it('a guest sees only their own workspace membership (0066)', async () => {
+    const talk = await withUserContext(USER_A_ID, () =>
+      createTalk({ ownerId: USER_A_ID, topicTitle: 'Shared' }),
+    );
+    const adminDb = getDbPg();
+    // Sharing the Talk makes B a guest of A's workspace.
+    await adminDb`
+      insert into public.talk_members (talk_id, user_id, role)
+      values (${talk.id}::uuid, ${USER_B_ID}::uuid, 'viewer')
+    `;
+    const [{ workspace_id: workspaceId }] = await adminDb<
+      { workspace_id: string }[]
+    >`select workspace_id from public.talks where id = ${talk.id}::uuid`;
+
+    const asOwner = await withUserContext(USER_A_ID, () =>
+      listWorkspaceMemberDirectory(workspaceId),
+    );
+    expect(asOwner.map((row) => [row.user_id, row.role])).toEqual([
+      [USER_A_ID, 'owner'],
+      [USER_B_ID, 'guest'],
+    ]);
+
+    const asGuest = await withUserContext(USER_B_ID, () =>
+      listWorkspaceMemberDirectory(workspaceId),
+    );
+    expect(asGuest.map((row) => row.user_id)).toEqual([USER_B_ID]);
+    const visibleRows = await withUserContext(USER_B_ID, async () => {
+      const db = getDbPg();
+      return db<{ user_id: string }[]>`
+        select user_id from public.workspace_members
+        where workspace_id = ${workspaceId}::uuid
+      `;
+    });
+    expect(visibleRows.map((row) => row.user_id)).toEqual([USER_B_ID]);
+  });
+
+  it('sharing by email invites existing accounts, who accept or decline (0069)', async () => {
+    const talk = await withUserContext(USER_A_ID, () =>
+      createTalk({ ownerId: USER_A_ID, topicTitle: 'Invited' }),
+    );
+    const adminDb = getDbPg();
+    const [{ workspace_id: workspaceId }] = await adminDb<
+      { workspace_id: string }[]
+    >`select workspace_id from public.talks where id = ${talk.id}::uuid`;
+    const expiresAt = new Date(Date.now() + 60_000);
+
+    // An account and an unknown address get the same answer.
+    const shared = await withUserContext(USER_A_ID, async () => [
+      await shareTalkByEmail({
+        talkId: talk.id,
+        email: 'acc-b@clawtalk.local',
+        role: 'editor',
+        inviteExpiresAt: expiresAt,
+      }),
+      await shareTalkByEmail({
+        talkId: talk.id,
+        email: 'nobody@clawtalk.local',
+        role: 'editor',
+        inviteExpiresAt: expiresAt,
+      }),
+      await inviteWorkspaceMemberByEmail({
+        workspaceId,
+        email: 'acc-b@clawtalk.local',
+        role: 'member',
+        inviteExpiresAt: expiresAt,
+      }),
+    ]);
+    expect(shared).toEqual(['invited', 'invited', 'invited']);
+    const before = await withUserContext(USER_A_ID, () =>
+      listTalkMemberDirectory(talk.id),
+    );
+    expect(before.map((row) => row.user_id)).toEqual([USER_A_ID]);
+
+    const invites = await withUserContext(USER_B_ID, () => listMyInvites());
+    const talkInvite = invites.find((row) => row.target_id === talk.id);
+    const workspaceInvite = invites.find(
+      (row) => row.kind === 'workspace' && row.target_id === workspaceId,
+    );
+    expect(talkInvite).toMatchObject({ kind: 'talk', role: 'editor' });
+    expect(workspaceInvite).toMatchObject({ role: 'member' });
+    // Nobody else can answer B's invite.
+    expect(
+      await withUserContext(USER_A_ID, () =>
+        respondToInvite({
+          kind: 'talk',
+          inviteId: talkInvite!.id,
+          accept: true,
+        }),
+      ),
+    ).toBe(false);
+
+    await withUserContext(USER_B_ID, async () => {
+      expect(
+        await respondToInvite({
+          kind: 'workspace',
+          inviteId: workspaceInvite!.id,
+          accept: false,
+        }),
+      ).toBe(true);
+      expect(
+        await respondToInvite({
+          kind: 'talk',
+          inviteId: talkInvite!.id,
+          accept: true,
+        }),
+      ).toBe(true);
+    });
+    const after = await withUserContext(USER_A_ID, () =>
+      listTalkMemberDirectory(talk.id),
+    );
+    expect(after.map((row) => [row.user_id, row.role])).toEqual([
+      [USER_A_ID, 'owner'],
+      [USER_B_ID, 'editor'],
+    ]);
+    const remaining = await withUserContext(USER_B_ID, () => listMyInvites());
+    expect(remaining.map((row) => row.id)).not.toContain(workspaceInvite!.id);
+    expect(remaining.map((row) => row.id)).not.toContain(talkInvite!.id);
+
+    // A current member's role is updated in place.
+    expect(
+      await withUserContext(USER_A_ID, () =>
+        shareTalkByEmail({
+          talkId: talk.id,
+          email: 'acc-b@clawtalk.local',
+          role: 'viewer',
+          inviteExpiresAt: expiresAt,
+        }),
+      ),
+    ).toBe('member');
+  });
+
   // ── Sidebar tree + reorder ─────────────────────────────────────────
 
   it('listTalkSidebarTreeForUser: groups talks under folders + emits per-talk metrics', async () => {
@@ -39,6 +39,14 @@ import {
   type ContentSidebarRecord,
 } from './content-accessors.js';
 import { resolveTargetAgentNickname } from './talk-agents.js';
+import {
+  createTalkRound,
+  setTalkRoundSynthesizerRun,
+  syncTalkRoundStatus,
+  syncTalkRoundsForRuns,
+  toTalkRoundEventPayload,
+  type TalkRoundRecord,
+} from './talk-round-accessors.js';
 import {
   inferThreadTitleFromContent,
   isLegacyPlaceholderTalkThreadTitle,
@@ -60,6 +68,10 @@ export interface TalkRecord {
   sort_order: number;
   topic_title: string | null;
   orchestration_mode: 'ordered' | 'panel';
+  // Debate settings (migration 0042). rounds_limit 1 with no
+  // synthesizer is the plain single-pass turn.
+  rounds_limit: number;
+  synthesizer_agent_id: string | null;
   status: 'active' | 'paused' | 'archived';
   is_system: boolean;
   version: number;
@@ -111,6 +123,9 @@ export interface TalkSidebarTreeRecord {
   folders: TalkFolderRecord[];
   rootTalks: TalkSidebarTalkRecord[];
   talksByFolderId: Record<string, TalkSidebarTalkRecord[]>;
+  // Talks other users shared with the caller. Folders and sort order
+  // belong to the owner, so these sit in their own list, newest first.
+  sharedTalks: TalkSidebarTalkRecord[];
   mainTalkId: string | null;
   contents: ContentSidebarRecord[];
 }
@@ -135,7 +150,8 @@ export function normalizeTalkListPage(input?: {
 // ---------------------------------------------------------------------------
 
 const TALK_COLUMNS = `id, owner_id, folder_id, sort_order, topic_title,
-  orchestration_mode, status, is_system, version, created_at, updated_at`;
+  orchestration_mode, rounds_limit, synthesizer_agent_id, status, is_system,
+  version, created_at, updated_at`;
 
 export async function createTalk(input: {
   ownerId: string;
@@ -241,41 +257,52 @@ export async function listTalksForUser(input: {
   // bypass — see top-of-file comment.
   const page = normalizeTalkListPage(input);
   const db = getDbPg();
-  // The talk_members policy lets the talk owner see member rows for
-  // their talks (and members see their own row). RLS on talks restricts
-  // to owner_id = auth.uid(), so any talk visible to the caller is one
-  // they own — access_role is always 'owner' under this slice. Sharing
-  // (editor/viewer via talk_members) will need an `owner_id = auth.uid()
-  // OR id in (select talk_id from talk_members where user_id = auth.uid())`
-  // policy expansion when the sharing feature ships.
+  // Owned Talks plus Talks shared with the caller through talk_members
+  // (talks_member_select, migration 0047). talk_access_role() resolves
+  // the caller's role per row: 'owner', 'editor' or 'viewer'.
+  // Owned Talks are limited to the current workspace (migration 0048);
+  // Talks shared with the caller are listed whichever workspace is
+  // selected.
   // System Talks (the per-user Main channel) are addressed via the
   // dedicated /app/main route, not the sidebar list — filter them out so
   // they don't appear as duplicates.
   const rows = input.status
-    ? await db<TalkRecord[]>`
-        select ${db.unsafe(TALK_COLUMNS)}
+    ? await db<TalkWithAccessRecord[]>`
+        select ${db.unsafe(TALK_COLUMNS)},
+               public.talk_access_role(id) as access_role
         from public.talks
         where status = ${input.status}
           and is_system = false
+          and (owner_id <> auth.uid()
+               or workspace_id = public.current_workspace_id())
         order by updated_at desc, created_at desc
         limit ${page.limit} offset ${page.offset}
       `
-    : await db<TalkRecord[]>`
-        select ${db.unsafe(TALK_COLUMNS)}
+    : await db<TalkWithAccessRecord[]>`
+        select ${db.unsafe(TALK_COLUMNS)},
+               public.talk_access_role(id) as access_role
         from public.talks
         where is_system = false
+          and (owner_id <> auth.uid()
+               or workspace_id = public.current_workspace_id())
         order by updated_at desc, created_at desc
         limit ${page.limit} offset ${page.offset}
       `;
-  return rows.map((t) => ({ ...t, access_role: 'owner' as const }));
+  return rows;
 }
 
 export async function getTalkForUser(
   talkId: string,
 ): Promise<TalkWithAccessRecord | undefined> {
-  const talk = await getTalkById(talkId);
-  if (!talk) return undefined;
-  return { ...talk, access_role: 'owner' };
+  const db = getDbPg();
+  const rows = await db<TalkWithAccessRecord[]>`
+    select ${db.unsafe(TALK_COLUMNS)},
+           public.talk_access_role(id) as access_role
+    from public.talks
+    where id = ${talkId}::uuid
+    limit 1
+  `;
+  return rows[0];
 }
 
 export async function upsertTalk(input: {
@@ -310,6 +337,8 @@ export async function patchTalkMetadata(input: {
   title?: string | null;
   folderId?: string | null;
   orchestrationMode?: 'ordered' | 'panel';
+  roundsLimit?: number;
+  synthesizerAgentId?: string | null;
 }): Promise<TalkRecord | undefined> {
   const db = getDbPg();
   // Pre-fetch the talk to (a) detect a destination-folder change vs the
@@ -330,13 +359,24 @@ export async function patchTalkMetadata(input: {
 
   // Title / orchestration update is unconditional even on folder moves
   // so the version bump always reflects "something changed" in one place.
-  if (input.title !== undefined || input.orchestrationMode !== undefined) {
+  if (
+    input.title !== undefined ||
+    input.orchestrationMode !== undefined ||
+    input.roundsLimit !== undefined ||
+    input.synthesizerAgentId !== undefined
+  ) {
     await db`
       update public.talks
       set topic_title = case when ${input.title !== undefined}::boolean
                           then ${input.title ?? null} else topic_title end,
           orchestration_mode = coalesce(${input.orchestrationMode ?? null},
                                         orchestration_mode),
+          rounds_limit = coalesce(${input.roundsLimit ?? null}::int,
+                                  rounds_limit),
+          synthesizer_agent_id = case
+            when ${input.synthesizerAgentId !== undefined}::boolean
+            then ${input.synthesizerAgentId ?? null}::uuid
+            else synthesizer_agent_id end,
           updated_at = now(),
           version = version + 1
       where id = ${input.talkId}::uuid
@@ -438,6 +478,7 @@ export async function listTalkFoldersForOwner(): Promise<TalkFolderRecord[]> {
   return await db<TalkFolderRecord[]>`
     select ${db.unsafe(TALK_FOLDER_COLUMNS)}
     from public.talk_folders
+    where workspace_id = public.current_workspace_id()
     order by sort_order asc, created_at asc, id asc
   `;
 }
@@ -562,9 +603,12 @@ async function listOwnedRootSidebarItems(): Promise<
     select 'talk'::text as type, id, sort_order
     from public.talks
     where folder_id is null
+      and owner_id = auth.uid()
+      and workspace_id = public.current_workspace_id()
     union all
     select 'folder'::text as type, id, sort_order
     from public.talk_folders
+    where workspace_id = public.current_workspace_id()
     order by sort_order asc, id asc
   `;
 }
@@ -665,7 +709,7 @@ export async function listTalkSidebarTreeForUser(input?: {
       select talk_id, count(*)::int as active_run_count
       from public.talk_runs
       where talk_id in ${db(talkIds)}
-        and status in ('queued', 'running', 'awaiting_confirmation')
+        and status in ('queued', 'running', 'awaiting_confirmation', 'paused')
       group by talk_id
     `;
     for (const row of runRows) {
@@ -700,7 +744,9 @@ export async function listTalkSidebarTreeForUser(input?: {
     has_active_run: metricsByTalkId.get(talk.id)?.hasActiveRun ?? false,
     has_content: talkIdsWithContent.has(talk.id),
   }));
-  const rootTalks = talks
+  const ownedTalks = talks.filter((talk) => talk.access_role === 'owner');
+  const sharedTalks = talks.filter((talk) => talk.access_role !== 'owner');
+  const rootTalks = ownedTalks
     .filter((talk) => talk.folder_id === null)
     .sort(
       (a, b) =>
@@ -709,7 +755,7 @@ export async function listTalkSidebarTreeForUser(input?: {
   const talksByFolderId = folders.reduce<
     Record<string, TalkSidebarTalkRecord[]>
   >((acc, folder) => {
-    acc[folder.id] = talks
+    acc[folder.id] = ownedTalks
       .filter((talk) => talk.folder_id === folder.id)
       .sort(
         (a, b) =>
@@ -726,10 +772,18 @@ export async function listTalkSidebarTreeForUser(input?: {
     select id
     from public.talks
     where is_system = true
+      and owner_id = auth.uid()
     limit 1
   `;
   const mainTalkId = mainTalkRows[0]?.id ?? null;
-  return { folders, rootTalks, talksByFolderId, mainTalkId, contents };
+  return {
+    folders,
+    rootTalks,
+    talksByFolderId,
+    sharedTalks,
+    mainTalkId,
+    contents,
+  };
 }
 
 export async function reorderTalkSidebarItem(input: {
@@ -884,30 +938,35 @@ export async function deleteTalkMember(input: {
 
 export async function canUserAccessTalk(talkId: string): Promise<boolean> {
   // Under RLS, "can the caller see this talk?" reduces to "does the
-  // SELECT return a row?" — the policy filters on owner_id = auth.uid()
-  // OR membership. Sharing is not in the talks RLS policy yet (only
-  // owner_id), so this currently only returns true for the owner. When
-  // sharing ships, expand the talks policy and this helper becomes
-  // correct automatically.
+  // SELECT return a row?" — talks_owner and talks_member_select admit
+  // the owner and every member.
   const talk = await getTalkById(talkId);
   return talk !== undefined;
 }
 
+// Edit = change the Talk's setup (agents, rules, sources, jobs,
+// connectors, sharing, delete). Owner-only; editors post but don't
+// reconfigure.
 export async function canUserEditTalk(talkId: string): Promise<boolean> {
-  // Same caveat: RLS-defined edit access. Owner-only for now.
-  const talk = await getTalkById(talkId);
-  return talk !== undefined;
+  return canUserEditTalkFromRecord(await getTalkForUser(talkId));
 }
 
-// Mirrors canUserEditTalk(talkId): RLS visibility is sufficient today
-// (TalkWithAccessRecord.access_role is hardcoded to 'owner' in
-// getTalkForUser). When real sharing/ACL lands, this and
-// canUserEditTalk MUST update together so the in-memory check stays
-// observationally identical to the SELECT-backed one.
 export function canUserEditTalkFromRecord(
   talk: TalkWithAccessRecord | undefined,
 ): boolean {
-  return talk !== undefined;
+  return talk?.access_role === 'owner';
+}
+
+// Post = send messages, start threads, upload attachments, cancel runs.
+// Owners and editors; viewers are read-only.
+export async function canUserPostToTalk(talkId: string): Promise<boolean> {
+  return canUserPostToTalkFromRecord(await getTalkForUser(talkId));
+}
+
+export function canUserPostToTalkFromRecord(
+  talk: TalkWithAccessRecord | undefined,
+): boolean {
+  return talk?.access_role === 'owner' || talk?.access_role === 'editor';
 }
 
 export async function getTalkIdsAccessibleByUser(): Promise<string[]> {
@@ -1356,8 +1415,8 @@ export async function deleteTalkMessagesAtomic(input: {
       and id in ${db(normalizedIds)}
   `;
   await touchTalkUpdatedAt(input.talkId, now);
-  // Owner = current withUserContext user (single-owner-per-talk model).
-  // Sharing will require a talk_members lookup here.
+  // Owner = current withUserContext user (history edits are owner-only);
+  // emitOutboxEvent adds the Talk's members to the fan-out.
   const ownerId = getCurrentUserId();
   await emitOutboxEvent({
     topic: `talk:${input.talkId}`,
@@ -1385,6 +1444,7 @@ export type TalkRunStatus =
   | 'queued'
   | 'running'
   | 'awaiting_confirmation'
+  | 'paused'
   | 'cancelled'
   | 'completed'
   | 'failed';
@@ -1436,6 +1496,9 @@ export interface TalkRunRecord {
   // time. Null on rows created before migration 0032; the executor
   // falls back to live agent.credential_mode resolution when null.
   credential_kind_snapshot: 'api_key' | 'subscription' | null;
+  // Debate round this run belongs to (migration 0042); null for
+  // single-pass turns and jobs.
+  round_id: string | null;
 }
 
 export const TALK_RUN_COLUMNS = `id, talk_id, owner_id, thread_id, requested_by,
@@ -1444,7 +1507,8 @@ export const TALK_RUN_COLUMNS = `id, talk_id, owner_id, thread_id, requested_by,
   executor_alias, executor_model, source_binding_id,
   source_external_message_id, source_thread_key, task_type, selected_mode,
   transport, timeout_phase, created_at, started_at, ended_at, cancel_reason,
-  metadata_json, active_tool_families_snapshot, credential_kind_snapshot`;
+  metadata_json, active_tool_families_snapshot, credential_kind_snapshot,
+  round_id`;
 
 export async function createTalkRun(input: {
   ownerId: string;
@@ -1481,6 +1545,7 @@ export async function createTalkRun(input: {
   // edits. Pre-PR-B callers leave this undefined; the executor falls
   // back to live agent.credential_mode resolution.
   credentialKindSnapshot?: 'api_key' | 'subscription' | null;
+  roundId?: string | null;
 }): Promise<TalkRunRecord> {
   const db = getDbPg();
   const metadata = input.metadata ? db.json(input.metadata as never) : null;
@@ -1497,7 +1562,7 @@ export async function createTalkRun(input: {
            executor_alias, executor_model, source_binding_id,
            source_external_message_id, source_thread_key, task_type,
            selected_mode, transport, timeout_phase, metadata_json,
-           active_tool_families_snapshot, credential_kind_snapshot)
+           active_tool_families_snapshot, credential_kind_snapshot, round_id)
         values
           (${input.id}::uuid, ${input.talkId}::uuid, ${input.ownerId}::uuid,
            ${input.threadId}::uuid, ${input.requestedBy}::uuid,
@@ -1521,7 +1586,8 @@ export async function createTalkRun(input: {
            ${input.timeoutPhase ?? null},
            ${metadata},
            ${snapshot},
-           ${credentialKindSnapshot})
+           ${credentialKindSnapshot},
+           ${input.roundId ?? null}::uuid)
         returning ${db.unsafe(TALK_RUN_COLUMNS)}
       `
     : await db<TalkRunRecord[]>`
@@ -1532,7 +1598,7 @@ export async function createTalkRun(input: {
            executor_alias, executor_model, source_binding_id,
            source_external_message_id, source_thread_key, task_type,
            selected_mode, transport, timeout_phase, metadata_json,
-           active_tool_families_snapshot, credential_kind_snapshot)
+           active_tool_families_snapshot, credential_kind_snapshot, round_id)
         values
           (${input.talkId}::uuid, ${input.ownerId}::uuid,
            ${input.threadId}::uuid, ${input.requestedBy}::uuid,
@@ -1556,7 +1622,8 @@ export async function createTalkRun(input: {
            ${input.timeoutPhase ?? null},
            ${metadata},
            ${snapshot},
-           ${credentialKindSnapshot})
+           ${credentialKindSnapshot},
+           ${input.roundId ?? null}::uuid)
         returning ${db.unsafe(TALK_RUN_COLUMNS)}
       `;
   return rows[0];
@@ -1635,13 +1702,13 @@ export async function hasActiveTalkRuns(input: {
         from public.talk_runs
         where talk_id = ${input.talkId}::uuid
           and thread_id = ${input.threadId}::uuid
-          and status in ('queued', 'running', 'awaiting_confirmation')
+          and status in ('queued', 'running', 'awaiting_confirmation', 'paused')
       `
     : await db<{ count: number }[]>`
         select count(*)::int as count
         from public.talk_runs
         where talk_id = ${input.talkId}::uuid
-          and status in ('queued', 'running', 'awaiting_confirmation')
+          and status in ('queued', 'running', 'awaiting_confirmation', 'paused')
       `;
   return (rows[0]?.count ?? 0) > 0;
 }
@@ -2298,7 +2365,7 @@ export async function loadEnqueueTurnContext(
           (
             select count(*)::int from public.talk_runs
             where talk_id = tk.id and thread_id = th.id
-              and status in ('queued', 'running', 'awaiting_confirmation')
+              and status in ('queued', 'running', 'awaiting_confirmation', 'paused')
           ) as active_count
         from public.talks tk
         join public.talk_threads th on th.talk_id = tk.id
@@ -2352,9 +2419,33 @@ export async function enqueueTalkTurnAtomic(input: {
   attachmentIds?: string[] | null;
   maxAttachmentsPerMessage?: number;
   idempotencyKey?: string | null;
+  // Channel-inbound turns (Slack / Telegram webhooks): stored on the
+  // trigger message as metadata_json and on every run's source_* columns
+  // so the executor can render channel context and delivery can find
+  // its way back to the originating thread.
+  messageMetadata?: Record<string, unknown> | null;
+  // Seeds every run's metadata_json (the structured-output request from
+  // the chat route). The executor merges its own keys on top.
+  runMetadata?: Record<string, unknown> | null;
+  source?: {
+    bindingId: string;
+    externalMessageId: string | null;
+    threadKey: string | null;
+  } | null;
+  // Multi-round debate (see talks/talk-rounds.ts). `steps` runs parallel
+  // to targetAgentIds and says which round each run belongs to and
+  // whether it is that round's synthesis. One talk_rounds row is created
+  // per round, in the same transaction as the runs.
+  rounds?: {
+    roundsLimit: number;
+    mode: 'ordered' | 'panel';
+    synthesizerAgentId: string | null;
+    steps: Array<{ roundNumber: number; synthesizer: boolean }>;
+  } | null;
 }): Promise<{
   message: TalkMessageRecord;
   runs: TalkRunRecord[];
+  rounds: TalkRoundRecord[];
   threadId: string;
 }> {
   if (input.targetAgentIds.length === 0) {
@@ -2369,6 +2460,12 @@ export async function enqueueTalkTurnAtomic(input: {
   ) {
     throw new Error('talk turn requires one sequence index per run');
   }
+  if (
+    input.rounds &&
+    input.rounds.steps.length !== input.targetAgentIds.length
+  ) {
+    throw new Error('talk turn requires one round step per run');
+  }
 
   const threadId = await resolveThreadIdForTalk({
     talkId: input.talkId,
@@ -2407,6 +2504,7 @@ export async function enqueueTalkTurnAtomic(input: {
     role: 'user',
     content: input.content,
     createdBy: input.userId,
+    metadata: input.messageMetadata ?? null,
   });
 
   // Heal thread title from the first user message — runs in the same
@@ -2427,6 +2525,29 @@ export async function enqueueTalkTurnAtomic(input: {
   // planExecution as `activeFamilies`, bypassing the live read.
   const activeToolFamiliesSnapshot = ctx.activeFamilies;
 
+  const roundsByNumber = new Map<number, TalkRoundRecord>();
+  if (input.rounds) {
+    const roundNumbers = [
+      ...new Set(input.rounds.steps.map((step) => step.roundNumber)),
+    ].sort((a, b) => a - b);
+    for (const roundNumber of roundNumbers) {
+      roundsByNumber.set(
+        roundNumber,
+        await createTalkRound({
+          talkId: input.talkId,
+          ownerId: input.ownerId,
+          threadId,
+          triggerMessageId: message.id,
+          responseGroupId,
+          roundNumber,
+          roundsLimit: input.rounds.roundsLimit,
+          orchestrationMode: input.rounds.mode,
+          synthesizerAgentId: input.rounds.synthesizerAgentId,
+        }),
+      );
+    }
+  }
+
   // Fan out one queued run per target agent. Each run snapshots the
   // credential kind the resolver would pick RIGHT NOW (migration 0032 /
   // PR B). The executor reads from the snapshot, so editing the
@@ -2441,6 +2562,10 @@ export async function enqueueTalkTurnAtomic(input: {
     const credentialKindSnapshot = agentRecord
       ? await resolveCredentialKindSnapshot(agentRecord)
       : null;
+    const roundStep = input.rounds?.steps[i];
+    const round = roundStep
+      ? roundsByNumber.get(roundStep.roundNumber)
+      : undefined;
     const run = await createTalkRun({
       ownerId: input.ownerId,
       id: input.runIds?.[i],
@@ -2455,9 +2580,19 @@ export async function enqueueTalkTurnAtomic(input: {
       sequenceIndex: sequenceIndexes[i],
       activeToolFamiliesSnapshot,
       credentialKindSnapshot,
+      sourceBindingId: input.source?.bindingId ?? null,
+      sourceExternalMessageId: input.source?.externalMessageId ?? null,
+      sourceThreadKey: input.source?.threadKey ?? null,
+      roundId: round?.id ?? null,
+      metadata: input.runMetadata ?? null,
     });
     runs.push(run);
+    if (round && roundStep?.synthesizer) {
+      await setTalkRoundSynthesizerRun(round.id, run.id);
+      round.synthesizer_run_id = run.id;
+    }
   }
+  const rounds = [...roundsByNumber.values()];
 
   await touchTalkUpdatedAt(input.talkId);
   await emitOutboxEvent({
@@ -2475,6 +2610,14 @@ export async function enqueueTalkTurnAtomic(input: {
     },
     ownerIds: [input.ownerId],
   });
+  for (const round of rounds) {
+    await emitOutboxEvent({
+      topic: `talk:${input.talkId}`,
+      eventType: 'talk_round_queued',
+      payload: toTalkRoundEventPayload(round),
+      ownerIds: [input.ownerId],
+    });
+  }
   for (let i = 0; i < runs.length; i++) {
     const run = runs[i];
     await emitOutboxEvent({
@@ -2490,6 +2633,7 @@ export async function enqueueTalkTurnAtomic(input: {
         targetAgentNickname: input.targetAgentNicknames?.[i] ?? null,
         responseGroupId,
         sequenceIndex: run.sequence_index,
+        roundId: run.round_id,
         status: 'queued',
         executorAlias: run.executor_alias,
         executorModel: run.executor_model,
@@ -2531,7 +2675,7 @@ export async function enqueueTalkTurnAtomic(input: {
     }
   }
 
-  return { message, runs, threadId };
+  return { message, runs, rounds, threadId };
 }
 
 // ---------------------------------------------------------------------------
@@ -2630,7 +2774,7 @@ export async function claimQueuedTalkRuns(
 //
 // Sequence-index fairness: if the row is part of an ordered response
 // group and a lower-sequence sibling is still active (queued, running,
-// or awaiting_confirmation), returns 'blocked_by_sibling'. The consumer
+// awaiting_confirmation or paused), returns 'blocked_by_sibling'. The consumer
 // acks (the run waits 'queued'); active promotion re-dispatches it when
 // the predecessor finishes, with the cron stranded-sibling sweep as the
 // lost-dispatch backstop.
@@ -2730,6 +2874,18 @@ export async function markRunRunning(
       'markRunRunning: talk_run_started emit failed (best-effort); proceeding with claim so the run still executes',
     );
   }
+  // Same contract for the round: a missed queued → running flip only
+  // delays talk_round_started; the run's terminal sync still settles it.
+  if (claimed.round_id) {
+    try {
+      await syncTalkRoundStatus(claimed.round_id);
+    } catch (err) {
+      logger.warn(
+        { err, runId, roundId: claimed.round_id },
+        'markRunRunning: round status sync failed (best-effort); proceeding with claim',
+      );
+    }
+  }
   return { status: 'claimed', run: claimed };
 }
 
@@ -2773,6 +2929,32 @@ export async function findNextRunnableOrderedSibling(
   return rows[0]?.id ?? null;
 }
 
+// Every run eligible by the same predicate, not just the first. Debate
+// panel rounds put all participants of a round on one sequence_index, so
+// promotion past a round boundary must wake all of them at once; waking
+// one would leave the others for the stranded-sibling sweep.
+export async function listRunnableOrderedSiblings(
+  responseGroupId: string,
+): Promise<string[]> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    select r.id
+    from public.talk_runs r
+    where r.response_group_id = ${responseGroupId}
+      and r.status = 'queued'
+      and r.sequence_index is not null
+      and not exists (
+        select 1 from public.talk_runs prior
+        where prior.response_group_id = r.response_group_id
+          and prior.sequence_index is not null
+          and prior.sequence_index < r.sequence_index
+          and prior.status not in ('completed', 'failed', 'cancelled')
+      )
+    order by r.sequence_index asc, r.created_at asc
+  `;
+  return rows.map((row) => row.id);
+}
+
 // ---------------------------------------------------------------------------
 // listStrandedOrderedSiblings — backstop for lost promotion dispatches.
 //
@@ -2856,6 +3038,7 @@ export async function completeRunAndPromoteNextAtomic(input: {
     inputTokens?: number;
     cachedInputTokens?: number;
     outputTokens?: number;
+    reasoningTokens?: number;
     estimatedCostUsd?: number;
   } | null;
   responseSequenceInRun?: number | null;
@@ -2878,11 +3061,12 @@ export async function completeRunAndPromoteNextAtomic(input: {
       | 'response_group_id'
       | 'sequence_index'
       | 'metadata_json'
+      | 'round_id'
     >[]
   >`
     select id, talk_id, thread_id, trigger_message_id, target_agent_id,
            executor_alias, executor_model, run_kind, response_group_id,
-           sequence_index, metadata_json
+           sequence_index, metadata_json, round_id
     from public.talk_runs
     where id = ${input.runId}::uuid and status = 'running'
     limit 1
@@ -2892,7 +3076,8 @@ export async function completeRunAndPromoteNextAtomic(input: {
 
   const updated = await db<{ id: string }[]>`
     update public.talk_runs
-    set status = 'completed', ended_at = ${now}::timestamptz, cancel_reason = null
+    set status = 'completed', ended_at = ${now}::timestamptz, cancel_reason = null,
+        continuation_json = null
     where id = ${run.id}::uuid and status = 'running'
     returning id
   `;
@@ -2932,7 +3117,7 @@ export async function completeRunAndPromoteNextAtomic(input: {
       insert into public.llm_attempts
         (run_id, talk_id, owner_id, agent_id, provider_id, model_id, status,
          latency_ms, input_tokens, cached_input_tokens, output_tokens,
-         estimated_cost_usd)
+         reasoning_tokens, estimated_cost_usd)
       values
         (${input.runId}::uuid, ${run.talk_id}::uuid, ${input.ownerId}::uuid,
          ${input.agentId ?? null}::uuid,
@@ -2941,6 +3126,7 @@ export async function completeRunAndPromoteNextAtomic(input: {
          ${input.usage?.inputTokens ?? null},
          ${input.usage?.cachedInputTokens ?? null},
          ${input.usage?.outputTokens ?? null},
+         ${input.usage?.reasoningTokens ?? null},
          ${input.usage?.estimatedCostUsd ?? null})
     `;
   }
@@ -2957,11 +3143,13 @@ export async function completeRunAndPromoteNextAtomic(input: {
       responseMessageId: responseMessage.id,
       responseGroupId: run.response_group_id,
       sequenceIndex: run.sequence_index,
+      roundId: run.round_id,
       executorAlias: run.executor_alias,
       executorModel: run.executor_model,
     },
     ownerIds: [input.ownerId],
   });
+  if (run.round_id) await syncTalkRoundStatus(run.round_id);
   return { applied: true, talkId: run.talk_id };
 }
 
@@ -2996,11 +3184,12 @@ export async function failRunAndPromoteNextAtomic(input: {
       | 'run_kind'
       | 'response_group_id'
       | 'sequence_index'
+      | 'round_id'
     >[]
   >`
     select id, owner_id, talk_id, thread_id, trigger_message_id,
            target_agent_id, executor_alias, executor_model, run_kind,
-           response_group_id, sequence_index
+           response_group_id, sequence_index, round_id
     from public.talk_runs
     where id = ${input.runId}::uuid and status = 'running'
     limit 1
@@ -3013,7 +3202,8 @@ export async function failRunAndPromoteNextAtomic(input: {
     update public.talk_runs
     set status = 'failed',
         ended_at = ${now}::timestamptz,
-        cancel_reason = ${reason}
+        cancel_reason = ${reason},
+        continuation_json = null
     where id = ${run.id}::uuid and status = 'running'
     returning id
   `;
@@ -3038,6 +3228,7 @@ export async function failRunAndPromoteNextAtomic(input: {
       triggerMessageId: run.trigger_message_id,
       responseGroupId: run.response_group_id,
       sequenceIndex: run.sequence_index,
+      roundId: run.round_id,
       errorCode: input.errorCode,
       errorMessage: input.errorMessage,
       executorAlias: run.executor_alias,
@@ -3045,16 +3236,21 @@ export async function failRunAndPromoteNextAtomic(input: {
     },
     ownerIds: [run.owner_id],
   });
+  if (run.round_id) await syncTalkRoundStatus(run.round_id);
   return { applied: true, talkId: run.talk_id };
 }
 
 // ---------------------------------------------------------------------------
-// cancelTalkRunsAtomic — cancel every active run on a talk (or thread).
+// cancelTalkRunsAtomic — cancel every active run on a talk (or thread, or
+// one debate round). A round-scoped cancel leaves the rest of the debate
+// queued: cancelled steps are terminal to the ordered gate, so the next
+// round picks up once the caller dispatches it.
 // ---------------------------------------------------------------------------
 
 export async function cancelTalkRunsAtomic(input: {
   talkId: string;
   threadId?: string | null;
+  roundId?: string | null;
   cancelledBy: string;
   ownerId: string;
   endedAt?: string;
@@ -3088,7 +3284,9 @@ export async function cancelTalkRunsAtomic(input: {
     from public.talk_runs
     where talk_id = ${input.talkId}::uuid
       and (${threadId}::uuid is null or thread_id = ${threadId}::uuid)
-      and status in ('queued', 'running', 'awaiting_confirmation')
+      and (${input.roundId ?? null}::uuid is null
+           or round_id = ${input.roundId ?? null}::uuid)
+      and status in ('queued', 'running', 'awaiting_confirmation', 'paused')
     order by created_at asc
   `;
 
@@ -3100,9 +3298,10 @@ export async function cancelTalkRunsAtomic(input: {
       update public.talk_runs
       set status = 'cancelled',
           ended_at = ${now}::timestamptz,
-          cancel_reason = ${cancelReason}
+          cancel_reason = ${cancelReason},
+          continuation_json = null
       where id = ${run.id}::uuid
-        and status in ('queued', 'running', 'awaiting_confirmation')
+        and status in ('queued', 'running', 'awaiting_confirmation', 'paused')
       returning id
     `;
     if (updated.length !== 1) continue;
@@ -3140,9 +3339,11 @@ export async function cancelTalkRunsAtomic(input: {
         cancelledBy: input.cancelledBy,
         runIds: cancelledRunIds,
         threadIds,
+        roundId: input.roundId ?? null,
       },
       ownerIds: [input.ownerId],
     });
+    await syncTalkRoundsForRuns(cancelledRunIds);
   }
   return {
     cancelledRuns: cancelledRunIds.length,
@@ -60,9 +60,22 @@ export const TOOL_FAMILY_MAP: Record<string, string[]> = {
     'google_docs_batch_update',
     'google_sheets_batch_update',
   ],
-  gmail_read: ['GmailRead', 'GmailSearch', 'gmail_read'],
+  gmail_read: [
+    'GmailRead',
+    'GmailSearch',
+    'gmail_read',
+    'gmail_search',
+    'gmail_read_thread',
+    'gmail_list_labels',
+  ],
   gmail_send: ['GmailSend', 'gmail_send'],
-  messaging: ['DiscordSend', 'SlackSend'],
+  messaging: [
+    'DiscordSend',
+    'SlackSend',
+    'slack_list_channels',
+    'slack_read_channel_history',
+    'slack_post_message',
+  ],
 };
 
 // Heavy families need the (now-removed) Claude container to execute; they are
@@ -70,6 +83,11 @@ export const TOOL_FAMILY_MAP: Record<string, string[]> = {
 // so they're trivially restorable when the container story returns.
 export const HEAVY_FAMILIES = new Set(['shell', 'filesystem', 'browser']);
 
+// Families whose calls always wait for the user's approval, whatever the
+// per-tool permission says: an email cannot be unsent, so the user sees
+// the drafted message before it goes out.
+export const ALWAYS_APPROVE_FAMILIES = new Set(['gmail_send']);
+
 // The families that appear on the Talk tool bar (light only), in display order.
 export const TALK_TOOL_FAMILIES = Object.keys(TOOL_FAMILY_MAP).filter(
   (f) => !HEAVY_FAMILIES.has(f),
@@ -80,6 +98,7 @@ export const TALK_TOOL_FAMILIES = Object.keys(TOOL_FAMILY_MAP).filter(
 // ---------------------------------------------------------------------------
 
 export type RegisteredAgentCredentialMode = 'api_key' | 'subscription';
+export type RegisteredAgentReasoningEffort = 'off' | 'low' | 'medium' | 'high';
 
 export interface RegisteredAgentRecord {
   id: string;
@@ -95,6 +114,11 @@ export interface RegisteredAgentRecord {
   // precedence). Non-null pins the agent to a specific credential kind.
   // See execution-resolver.ts:resolveSecret.
   credential_mode: RegisteredAgentCredentialMode | null;
+  // Reasoning setting (migration 0052): an effort level or an explicit
+  // thinking budget, at most one set. Both null = provider default. See
+  // agents/reasoning.ts.
+  reasoning_effort: RegisteredAgentReasoningEffort | null;
+  reasoning_budget_tokens: number | null;
   // Retired-model auto-upgrade trail. Non-null `from` = the agent was moved
   // off a retired model; the UI shows a badge until acknowledged.
   model_auto_upgraded_from: string | null;
@@ -129,6 +153,8 @@ export interface RegisteredAgentSnapshot {
   description: string | null;
   enabled: boolean;
   credentialMode: RegisteredAgentCredentialMode | null;
+  reasoningEffort: RegisteredAgentReasoningEffort | null;
+  reasoningBudgetTokens: number | null;
   modelAutoUpgradedFrom: string | null;
   modelAutoUpgradedAt: string | null;
   createdAt: string;
@@ -160,6 +186,8 @@ export function toAgentSnapshot(
     description: record.description,
     enabled: record.enabled,
     credentialMode: record.credential_mode,
+    reasoningEffort: record.reasoning_effort,
+    reasoningBudgetTokens: record.reasoning_budget_tokens,
     modelAutoUpgradedFrom: record.model_auto_upgraded_from,
     modelAutoUpgradedAt: record.model_auto_upgraded_at,
     createdAt: record.created_at,
@@ -196,6 +224,7 @@ export async function getRegisteredAgent(
     select id, owner_id, name, provider_id, model_id,
            persona_role, system_prompt,
            description, enabled, credential_mode,
+           reasoning_effort, reasoning_budget_tokens,
            model_auto_upgraded_from, model_auto_upgraded_at,
            created_at, updated_at
     from public.registered_agents
@@ -212,15 +241,23 @@ export async function getRegisteredAgentSnapshot(
   return record ? toAgentSnapshot(record) : undefined;
 }
 
+// The two list reads filter on owner_id explicitly: RLS also lets a
+// Talk member read the agents assigned to a Talk shared with them
+// (registered_agents_member_select, migration 0047), and those must not
+// show up as the member's own agents. They also keep to the current
+// workspace (migration 0048); lookups by id do not.
 export async function listRegisteredAgents(): Promise<RegisteredAgentRecord[]> {
   const db = getDbPg();
   return await db<RegisteredAgentRecord[]>`
     select id, owner_id, name, provider_id, model_id,
            persona_role, system_prompt,
            description, enabled, credential_mode,
+           reasoning_effort, reasoning_budget_tokens,
            model_auto_upgraded_from, model_auto_upgraded_at,
            created_at, updated_at
     from public.registered_agents
+    where owner_id = auth.uid()
+      and workspace_id = public.current_workspace_id()
     order by created_at asc
   `;
 }
@@ -231,10 +268,13 @@ export async function listEnabledAgents(): Promise<RegisteredAgentRecord[]> {
     select id, owner_id, name, provider_id, model_id,
            persona_role, system_prompt,
            description, enabled, credential_mode,
+           reasoning_effort, reasoning_budget_tokens,
            model_auto_upgraded_from, model_auto_upgraded_at,
            created_at, updated_at
     from public.registered_agents
-    where enabled = true
+    where owner_id = auth.uid()
+      and workspace_id = public.current_workspace_id()
+      and enabled = true
     order by created_at asc
   `;
 }
@@ -248,21 +288,27 @@ export async function createRegisteredAgent(params: {
   systemPrompt?: string | null;
   description?: string | null;
   credentialMode?: RegisteredAgentCredentialMode | null;
+  reasoningEffort?: RegisteredAgentReasoningEffort | null;
+  reasoningBudgetTokens?: number | null;
 }): Promise<RegisteredAgentRecord> {
   const db = getDbPg();
   const rows = await db<RegisteredAgentRecord[]>`
     insert into public.registered_agents
       (owner_id, name, provider_id, model_id,
-       persona_role, system_prompt, description, enabled, credential_mode)
+       persona_role, system_prompt, description, enabled, credential_mode,
+       reasoning_effort, reasoning_budget_tokens)
     values
       (${params.ownerId}::uuid, ${params.name}, ${params.providerId},
        ${params.modelId},
        ${params.personaRole ?? null}, ${params.systemPrompt ?? null},
        ${params.description ?? null}, true,
-       ${params.credentialMode ?? null})
+       ${params.credentialMode ?? null},
+       ${params.reasoningEffort ?? null},
+       ${params.reasoningBudgetTokens ?? null})
     returning id, owner_id, name, provider_id, model_id,
               persona_role, system_prompt,
               description, enabled, credential_mode,
+              reasoning_effort, reasoning_budget_tokens,
               model_auto_upgraded_from, model_auto_upgraded_at,
               created_at, updated_at
   `;
@@ -283,6 +329,8 @@ export async function updateRegisteredAgent(
     description: string | null;
     enabled: boolean;
     credentialMode: RegisteredAgentCredentialMode | null;
+    reasoningEffort: RegisteredAgentReasoningEffort | null;
+    reasoningBudgetTokens: number | null;
   }>,
 ): Promise<RegisteredAgentRecord | undefined> {
   // postgres.js doesn't have an Edit-clauses-as-array builder, so each
@@ -306,6 +354,10 @@ export async function updateRegisteredAgent(
       enabled = coalesce(${updates.enabled ?? null}, enabled),
       credential_mode = case when ${updates.credentialMode !== undefined}::boolean
         then ${updates.credentialMode ?? null} else credential_mode end,
+      reasoning_effort = case when ${updates.reasoningEffort !== undefined}::boolean
+        then ${updates.reasoningEffort ?? null} else reasoning_effort end,
+      reasoning_budget_tokens = case when ${updates.reasoningBudgetTokens !== undefined}::boolean
+        then ${updates.reasoningBudgetTokens ?? null} else reasoning_budget_tokens end,
       -- A deliberate model change (incl. accepting an "update available")
       -- acknowledges any pending auto-upgrade badge, so clear it.
       model_auto_upgraded_from = case when ${updates.modelId !== undefined}::boolean
@@ -317,6 +369,7 @@ export async function updateRegisteredAgent(
     returning id, owner_id, name, provider_id, model_id,
               persona_role, system_prompt,
               description, enabled, credential_mode,
+              reasoning_effort, reasoning_budget_tokens,
               model_auto_upgraded_from, model_auto_upgraded_at,
               created_at, updated_at
   `;
@@ -348,6 +401,7 @@ export async function autoUpgradeAgentModel(
     returning id, owner_id, name, provider_id, model_id,
               persona_role, system_prompt,
               description, enabled, credential_mode,
+              reasoning_effort, reasoning_budget_tokens,
               model_auto_upgraded_from, model_auto_upgraded_at,
               created_at, updated_at
   `;
@@ -402,6 +456,7 @@ export async function autoUpgradeAgentModelOutsideTx(
     returning id, owner_id, name, provider_id, model_id,
               persona_role, system_prompt,
               description, enabled, credential_mode,
+              reasoning_effort, reasoning_budget_tokens,
               model_auto_upgraded_from, model_auto_upgraded_at,
               created_at, updated_at
   `;
@@ -560,6 +615,9 @@ export interface EffectiveToolAccess {
  * Heavy families (shell/filesystem/browser) need the removed Claude container
  * and are NEVER enabled here, regardless of the Talk set.
  *
+ * Families in ALWAYS_APPROVE_FAMILIES report requiresApproval even when the
+ * user's permission rows don't ask for it.
+ *
  * Connectors note: the `connectors` family has no runtime tool ids, so the
  * user-permission per-tool loop is a no-op for it. Connector access is
  * effectively gated only on talk-active (no per-tool user check).
@@ -596,7 +654,7 @@ export async function getEffectiveToolsForAgent(
     // Heavy families (shell/filesystem/browser) need the removed Claude
     // container; they are never enabled. Light families follow the Talk set.
     let enabled = !HEAVY_FAMILIES.has(family) && talkEnabled;
-    let requiresApproval = false;
+    let requiresApproval = ALWAYS_APPROVE_FAMILIES.has(family);
     if (enabled && runtimeTools.length > 0) {
       for (const tool of runtimeTools) {
         const userPerm = userPermissionMap.get(tool);
@@ -0,0 +1,191 @@
+// Outbound channel delivery accessors (migration 0041).
+//
+// One `channel_deliveries` row per channel-triggered run. Writes happen
+// inside `withUserContext(ownerId)` (owner RLS). The two exceptions are
+// `listDueChannelDeliveries`, which the scheduler tick calls on the pool
+// role to find retries across owners, and `leaseDueChannelDelivery`,
+// which it calls per row to keep overlapping ticks from double-sending.
+
+import { getDbPg } from '../../db.js';
+import type { ChannelKind } from './connectors-accessors.js';
+
+export type ChannelDeliveryStatus =
+  'pending' | 'sent' | 'suppressed' | 'failed';
+
+export interface ChannelDeliveryRecord {
+  id: string;
+  run_id: string;
+  talk_id: string;
+  owner_id: string;
+  channel_id: string | null;
+  message_id: string | null;
+  platform: ChannelKind;
+  target_id: string;
+  thread_key: string | null;
+  reply_to_external_id: string | null;
+  status: ChannelDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string | null;
+  external_message_ids: string[];
+  last_error: string | null;
+  suppressed_reason: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const CHANNEL_DELIVERY_COLUMNS = `id, run_id, talk_id, owner_id, channel_id,
+  message_id, platform, target_id, thread_key, reply_to_external_id, status,
+  attempt_count, next_attempt_at, external_message_ids, last_error,
+  suppressed_reason, delivered_at, created_at, updated_at`;
+
+/**
+ * Insert the delivery row for a run. Idempotent on run_id — a queue
+ * redelivery of an already-completed run gets the existing row back.
+ */
+export async function createChannelDelivery(input: {
+  runId: string;
+  talkId: string;
+  ownerId: string;
+  channelId: string;
+  messageId: string | null;
+  platform: ChannelKind;
+  targetId: string;
+  threadKey: string | null;
+  replyToExternalId: string | null;
+}): Promise<ChannelDeliveryRecord> {
+  const db = getDbPg();
+  const rows = await db<ChannelDeliveryRecord[]>`
+    insert into public.channel_deliveries
+      (run_id, talk_id, owner_id, channel_id, message_id, platform,
+       target_id, thread_key, reply_to_external_id)
+    values
+      (${input.runId}::uuid, ${input.talkId}::uuid, ${input.ownerId}::uuid,
+       ${input.channelId}::uuid, ${input.messageId}::uuid, ${input.platform},
+       ${input.targetId}, ${input.threadKey}, ${input.replyToExternalId})
+    on conflict (run_id) do nothing
+    returning ${db.unsafe(CHANNEL_DELIVERY_COLUMNS)}
+  `;
+  if (rows[0]) return rows[0];
+  const existing = await getChannelDeliveryForRun(input.runId);
+  if (!existing) {
+    throw new Error(`channel delivery for run ${input.runId} not visible`);
+  }
+  return existing;
+}
+
+export async function getChannelDeliveryForRun(
+  runId: string,
+): Promise<ChannelDeliveryRecord | null> {
+  const db = getDbPg();
+  const rows = await db<ChannelDeliveryRecord[]>`
+    select ${db.unsafe(CHANNEL_DELIVERY_COLUMNS)}
+    from public.channel_deliveries
+    where run_id = ${runId}::uuid
+    limit 1
+  `;
+  return rows[0] ?? null;
+}
+
+export async function listChannelDeliveriesForRuns(
+  runIds: string[],
+): Promise<ChannelDeliveryRecord[]> {
+  if (runIds.length === 0) return [];
+  const db = getDbPg();
+  return await db<ChannelDeliveryRecord[]>`
+    select ${db.unsafe(CHANNEL_DELIVERY_COLUMNS)}
+    from public.channel_deliveries
+    where run_id = any(${runIds}::uuid[])
+  `;
+}
+
+export interface ChannelDeliveryPatch {
+  status: ChannelDeliveryStatus;
+  attemptCount?: number;
+  nextAttemptAt?: string | null;
+  externalMessageIds?: string[];
+  lastError?: string | null;
+  suppressedReason?: string | null;
+  deliveredAt?: string | null;
+}
+
+export async function updateChannelDelivery(
+  id: string,
+  patch: ChannelDeliveryPatch,
+): Promise<ChannelDeliveryRecord | null> {
+  // Nullable columns distinguish "leave alone" (undefined) from "clear"
+  // (null), so each carries its own set-flag.
+  const setNextAttemptAt = patch.nextAttemptAt !== undefined;
+  const setLastError = patch.lastError !== undefined;
+  const setSuppressedReason = patch.suppressedReason !== undefined;
+  const setDeliveredAt = patch.deliveredAt !== undefined;
+  const db = getDbPg();
+  const rows = await db<ChannelDeliveryRecord[]>`
+    update public.channel_deliveries
+    set status = ${patch.status},
+        attempt_count = coalesce(${patch.attemptCount ?? null}::int,
+                                 attempt_count),
+        next_attempt_at = case when ${setNextAttemptAt}::boolean
+          then ${patch.nextAttemptAt ?? null}::timestamptz
+          else next_attempt_at end,
+        external_message_ids = coalesce(
+          ${patch.externalMessageIds ?? null}::text[],
+          external_message_ids
+        ),
+        last_error = case when ${setLastError}::boolean
+          then ${patch.lastError ?? null}
+          else last_error end,
+        suppressed_reason = case when ${setSuppressedReason}::boolean
+          then ${patch.suppressedReason ?? null}
+          else suppressed_reason end,
+        delivered_at = case when ${setDeliveredAt}::boolean
+          then ${patch.deliveredAt ?? null}::timestamptz
+          else delivered_at end,
+        updated_at = now()
+    where id = ${id}::uuid
+    returning ${db.unsafe(CHANNEL_DELIVERY_COLUMNS)}
+  `;
+  return rows[0] ?? null;
+}
+
+/**
+ * Pending deliveries whose retry time has passed, oldest first. Pool
+ * role only (scheduler tick) — the caller enters
+ * `withUserContext(ownerId)` before touching a row.
+ */
+export async function listDueChannelDeliveries(
+  limit: number,
+): Promise<Array<{ id: string; owner_id: string }>> {
+  const db = getDbPg();
+  return await db<Array<{ id: string; owner_id: string }>>`
+    select id, owner_id
+    from public.channel_deliveries
+    where status = 'pending'
+      and next_attempt_at is not null
+      and next_attempt_at <= now()
+    order by next_attempt_at asc
+    limit ${limit}
+  `;
+}
+
+/**
+ * Take a short lease on a due pending row by pushing next_attempt_at
+ * forward. Returns null when another tick already took it (or it is no
+ * longer pending), so overlapping ticks never post the same reply twice.
+ */
+export async function leaseDueChannelDelivery(
+  id: string,
+  leaseSeconds: number,
+): Promise<ChannelDeliveryRecord | null> {
+  const db = getDbPg();
+  const rows = await db<ChannelDeliveryRecord[]>`
+    update public.channel_deliveries
+    set next_attempt_at = now() + make_interval(secs => ${leaseSeconds}),
+        updated_at = now()
+    where id = ${id}::uuid
+      and status = 'pending'
+      and next_attempt_at <= now()
+    returning ${db.unsafe(CHANNEL_DELIVERY_COLUMNS)}
+  `;
+  return rows[0] ?? null;
+}
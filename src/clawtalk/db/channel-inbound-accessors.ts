@@ -0,0 +1,99 @@
+// Inbound channel event accessors (migration 0040).
+//
+// One `channel_inbound_events` row per (workspace channel, linked Talk,
+// external message). The webhook handler claims the row first — the
+// unique key makes Slack retries and duplicate event subscriptions a
+// no-op — then records what it did once the trigger message / run exist.
+//
+// All functions run inside `withUserContext(ownerId)`; RLS is the
+// denormalized `owner_id = auth.uid()` pattern from talk_channel_links.
+
+import { getDbPg } from '../../db.js';
+
+export type ChannelInboundEventStatus = 'enqueued' | 'stored' | 'ignored';
+
+export interface ChannelInboundEventRecord {
+  id: string;
+  channel_id: string;
+  talk_id: string;
+  owner_id: string;
+  external_message_id: string;
+  source_thread_key: string | null;
+  thread_id: string | null;
+  message_id: string | null;
+  status: ChannelInboundEventStatus;
+  created_at: string;
+}
+
+const CHANNEL_INBOUND_EVENT_COLUMNS = `id, channel_id, talk_id, owner_id,
+  external_message_id, source_thread_key, thread_id, message_id, status,
+  created_at`;
+
+/**
+ * Insert the dedup row for an inbound message. Returns null when this
+ * (channel, Talk, external message) was already seen.
+ *
+ * The row is written with a provisional 'ignored' status and updated by
+ * `completeChannelInboundEvent` in the same transaction, so a crash
+ * between the two rolls both back and the platform's retry gets a
+ * clean second attempt.
+ */
+export async function claimChannelInboundEvent(input: {
+  channelId: string;
+  talkId: string;
+  ownerId: string;
+  externalMessageId: string;
+  sourceThreadKey: string | null;
+}): Promise<ChannelInboundEventRecord | null> {
+  const db = getDbPg();
+  const rows = await db<ChannelInboundEventRecord[]>`
+    insert into public.channel_inbound_events
+      (channel_id, talk_id, owner_id, external_message_id,
+       source_thread_key, status)
+    values
+      (${input.channelId}::uuid, ${input.talkId}::uuid,
+       ${input.ownerId}::uuid, ${input.externalMessageId},
+       ${input.sourceThreadKey}, 'ignored')
+    on conflict (channel_id, talk_id, external_message_id) do nothing
+    returning ${db.unsafe(CHANNEL_INBOUND_EVENT_COLUMNS)}
+  `;
+  return rows[0] ?? null;
+}
+
+export async function completeChannelInboundEvent(input: {
+  id: string;
+  status: ChannelInboundEventStatus;
+  threadId: string | null;
+  messageId: string | null;
+}): Promise<void> {
+  const db = getDbPg();
+  await db`
+    update public.channel_inbound_events
+    set status = ${input.status},
+        thread_id = ${input.threadId}::uuid,
+        message_id = ${input.messageId}::uuid
+    where id = ${input.id}::uuid
+  `;
+}
+
+/**
+ * The Talk thread that earlier messages from this channel landed in,
+ * or null when none has been created yet (or it was deleted).
+ */
+export async function findChannelInboundThreadId(
+  channelId: string,
+  talkId: string,
+): Promise<string | null> {
+  const db = getDbPg();
+  const rows = await db<Array<{ thread_id: string }>>`
+    select e.thread_id
+    from public.channel_inbound_events e
+    join public.talk_threads t on t.id = e.thread_id
+    where e.channel_id = ${channelId}::uuid
+      and e.talk_id = ${talkId}::uuid
+      and e.thread_id is not null
+    order by e.created_at desc
+    limit 1
+  `;
+  return rows[0]?.thread_id ?? null;
+}
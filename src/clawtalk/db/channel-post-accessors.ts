@@ -0,0 +1,64 @@
+// Agent channel post accessors (migration 0056).
+//
+// One `talk_run_channel_posts` row per message a messaging tool posted.
+// The executor writes through getOutOfBandSql() right after the platform
+// accepts the post, so the record survives a run whose own transaction
+// rolls back — the message went out either way. The audit route reads
+// them under the caller's RLS context via getDbPg().
+
+import { getDbPg, getOutOfBandSql } from '../../db.js';
+
+export type TalkRunChannelPostPlatform = 'slack';
+
+export interface TalkRunChannelPostRecord {
+  id: string;
+  run_id: string;
+  talk_id: string;
+  agent_id: string | null;
+  channel_id: string | null;
+  platform: TalkRunChannelPostPlatform;
+  target_id: string;
+  thread_key: string | null;
+  text: string;
+  external_message_id: string;
+  created_at: string;
+}
+
+export async function recordTalkRunChannelPost(input: {
+  runId: string;
+  talkId: string;
+  ownerId: string;
+  agentId: string | null;
+  channelId: string;
+  platform: TalkRunChannelPostPlatform;
+  targetId: string;
+  threadKey: string | null;
+  text: string;
+  externalMessageId: string;
+}): Promise<void> {
+  const db = getOutOfBandSql();
+  await db`
+    insert into public.talk_run_channel_posts
+      (run_id, talk_id, owner_id, agent_id, channel_id, platform,
+       target_id, thread_key, text, external_message_id)
+    values
+      (${input.runId}::uuid, ${input.talkId}::uuid, ${input.ownerId}::uuid,
+       ${input.agentId}::uuid, ${input.channelId}::uuid, ${input.platform},
+       ${input.targetId}, ${input.threadKey}, ${input.text},
+       ${input.externalMessageId})
+  `;
+}
+
+/** Posts a run made, oldest first. */
+export async function listTalkRunChannelPosts(
+  runId: string,
+): Promise<TalkRunChannelPostRecord[]> {
+  const db = getDbPg();
+  return await db<TalkRunChannelPostRecord[]>`
+    select id, run_id, talk_id, agent_id, channel_id, platform, target_id,
+           thread_key, text, external_message_id, created_at
+    from public.talk_run_channel_posts
+    where run_id = ${runId}::uuid
+    order by created_at asc, id asc
+  `;
+}
@@ -1,12 +1,13 @@
 // Connectors refactor PR 1 — workspace-global channel + data-connector
 // accessors.
 //
-// Read = SELECT for any authenticated user (executor + Talk-link
-// picker need to see the pool).
+// Read = SELECT for any member of the row's workspace (executor +
+// Talk-link picker need to see the pool); the list reads keep to the
+// current workspace (migration 0048).
 // Write = admins only — enforced at the route layer via
 // `isAdminLike(auth.role)`, with the underlying `workspace_*` RLS
-// policy in 0019/0020 as belt + suspenders (uses
-// `current_user_is_workspace_admin()` from 0008).
+// policy as belt + suspenders (`is_workspace_admin(workspace_id)`,
+// 0048).
 //
 // Talk-link tables use the talk-scoped `owner_id = auth.uid()` pattern
 // from `talk_state_entries` / `talk_resource_bindings` (denormalized
@@ -35,7 +36,7 @@ import {
 // Kind enums + Zod config schemas
 // ---------------------------------------------------------------------------
 
-export const CHANNEL_KINDS = ['slack', 'telegram'] as const;
+export const CHANNEL_KINDS = ['slack', 'telegram', 'discord'] as const;
 export type ChannelKind = (typeof CHANNEL_KINDS)[number];
 
 export const DATA_CONNECTOR_KINDS = [
@@ -45,6 +46,15 @@ export const DATA_CONNECTOR_KINDS = [
 ] as const;
 export type DataConnectorKind = (typeof DATA_CONNECTOR_KINDS)[number];
 
+// Binding behaviour shared by every channel kind — read by the inbound
+// webhook handler and rendered into the executor's channel context.
+const CHANNEL_BINDING_SETTINGS = {
+  response_mode: z.enum(['all', 'mentions', 'off']).optional(),
+  delivery_mode: z.enum(['reply', 'channel']).optional(),
+  timezone: z.string().min(1).optional(),
+  instructions: z.string().max(4000).optional(),
+};
+
 // Per-kind config_json schemas. Loose by design — these reject obvious
 // junk (empty strings, wrong types) without locking out future config
 // additions. PR 4 will tighten alongside real verification logic.
@@ -53,12 +63,29 @@ const CHANNEL_CONFIG_SCHEMAS: Record<ChannelKind, z.ZodTypeAny> = {
     .object({
       workspace_id: z.string().min(1).optional(),
       channel_id: z.string().min(1).optional(),
+      ...CHANNEL_BINDING_SETTINGS,
     })
     .passthrough(),
   telegram: z
     .object({
       bot_id: z.string().min(1).optional(),
       chat_id: z.string().min(1).optional(),
+      ...CHANNEL_BINDING_SETTINGS,
+    })
+    .passthrough(),
+  // public_key verifies interaction signatures (hex Ed25519 key from the
+  // Discord developer portal); channel_id narrows a bot that sits in
+  // several channels to one.
+  discord: z
+    .object({
+      application_id: z.string().regex(/^\d+$/).optional(),
+      public_key: z
+        .string()
+        .regex(/^[0-9a-f]{64}$/i)
+        .optional(),
+      guild_id: z.string().regex(/^\d+$/).optional(),
+      channel_id: z.string().regex(/^\d+$/).optional(),
+      ...CHANNEL_BINDING_SETTINGS,
     })
     .passthrough(),
 };
@@ -241,6 +268,7 @@ export async function listWorkspaceChannels(): Promise<
            c.created_by, c.updated_by,
            public.workspace_channel_bound_talk_count(c.id) as bound_talk_count
     from public.workspace_channels c
+    where c.workspace_id = public.current_workspace_id()
     order by c.display_name asc, c.id asc
   `;
   return rows.map(toChannelRecord);
@@ -262,6 +290,36 @@ export async function getWorkspaceChannel(
   return rows[0] ? toChannelRecord(rows[0]) : null;
 }
 
+/**
+ * Enabled Slack channel rows for an inbound Events API delivery, keyed
+ * on the (team, channel) pair the 0023 install flow writes into
+ * config_json. Only channels in the workspace that installed the team
+ * match (0065). Called from the public webhook handler on the BYPASSRLS
+ * pool role — there is no auth.uid() to scope by.
+ */
+export async function listEnabledSlackChannelsForTarget(
+  teamId: string,
+  slackChannelId: string,
+): Promise<WorkspaceChannelRecord[]> {
+  const db = getDbPg();
+  const rows = await db<ChannelRow[]>`
+    select c.id, c.kind, c.display_name, c.config_json, c.ciphertext,
+           c.enc_key_version, c.enabled, c.created_at, c.updated_at,
+           c.created_by, c.updated_by,
+           public.workspace_channel_bound_talk_count(c.id) as bound_talk_count
+    from public.workspace_channels c
+    join public.workspace_slack_installs i
+      on i.team_id = ${teamId}
+     and i.workspace_id = c.workspace_id
+    where c.kind = 'slack'
+      and c.enabled = true
+      and c.config_json ->> 'workspace_id' = ${teamId}
+      and c.config_json ->> 'channel_id' = ${slackChannelId}
+    order by c.created_at asc, c.id asc
+  `;
+  return rows.map(toChannelRecord);
+}
+
 export interface CreateWorkspaceChannelInput {
   kind: ChannelKind;
   displayName: string;
@@ -431,6 +489,7 @@ export async function listWorkspaceDataConnectors(): Promise<
            d.created_by, d.updated_by,
            public.workspace_data_connector_bound_talk_count(d.id) as bound_talk_count
     from public.workspace_data_connectors d
+    where d.workspace_id = public.current_workspace_id()
     order by d.display_name asc, d.id asc
   `;
   return rows.map(toDataConnectorRecord);
@@ -673,6 +732,37 @@ export async function listTalkDataConnectorLinks(
   }));
 }
 
+/**
+ * Every Talk linked to a channel, across owners. Inbound webhook
+ * fan-out only — runs on the BYPASSRLS pool role before the handler
+ * enters `withUserContext(link.ownerId)` per link. Never expose the
+ * result to a user-scoped route.
+ */
+export async function listTalkChannelLinksForChannel(
+  channelId: string,
+): Promise<TalkChannelLink[]> {
+  const db = getDbPg();
+  const rows = await db<
+    Array<{
+      talk_id: string;
+      channel_id: string;
+      owner_id: string;
+      created_at: string;
+    }>
+  >`
+    select talk_id, channel_id, owner_id, created_at
+    from public.talk_channel_links
+    where channel_id = ${channelId}::uuid
+    order by created_at asc
+  `;
+  return rows.map((row) => ({
+    talkId: row.talk_id,
+    channelId: row.channel_id,
+    ownerId: row.owner_id,
+    createdAt: row.created_at,
+  }));
+}
+
 /**
  * Upsert a (talk_id, channel_id) link. Idempotent on conflict — a
  * repeated toggle-on click is a no-op rather than an error. Returns
@@ -223,6 +223,8 @@ export interface ContentSidebarRecord {
   updated_at: string;
 }
 
+// Docs of the Talks the sidebar lists: the current workspace's own,
+// Main, and Talks shared with the caller.
 export async function listContentsForSidebar(): Promise<
   ContentSidebarRecord[]
 > {
@@ -230,6 +232,12 @@ export async function listContentsForSidebar(): Promise<
   const rows = await db<ContentSidebarRecord[]>`
     select id, talk_id, thread_id, title, updated_at
     from public.contents
+    where talk_id in (
+      select id from public.talks
+      where is_system
+         or owner_id <> auth.uid()
+         or workspace_id = public.current_workspace_id()
+    )
     order by updated_at desc, id
   `;
   return rows;
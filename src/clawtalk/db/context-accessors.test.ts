@@ -14,6 +14,7 @@ import {
   initPgDatabase,
   withUserContext,
 } from '../../db.js';
+import { createTalkMessage, getOrCreateDefaultThread } from './accessors.js';
 import {
   createTalkContextRule,
   createTalkContextSource,
@@ -25,6 +26,7 @@ import {
   getTalkContext,
   getTalkContextSourceById,
   getTalkContextSourceCount,
+  getTalkContextSummary,
   getTalkGoal,
   getTalkStateEntry,
   getTalkStateEntryCount,
@@ -38,6 +40,7 @@ import {
   setSourceExpectedPageCount,
   setTalkGoal,
   upsertTalkStateEntry,
+  writeTalkContextSummary,
 } from './context-accessors.js';
 
 const USER_A_ID = '0c222222-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
@@ -106,6 +109,7 @@ describe('context-accessors-pg (postgres + RLS)', () => {
     const db = getDbPg();
     const tables = [
       'talk_context_goal',
+      'talk_context_summary',
       'talk_context_rules',
       'talk_context_sources',
       'talk_context_source_ref_counter',
@@ -153,6 +157,121 @@ describe('context-accessors-pg (postgres + RLS)', () => {
     });
   });
 
+  it('summary: talk + thread scopes are independent, version CAS', async () => {
+    let threadId = '';
+    await withUserContext(USER_A_ID, async () => {
+      threadId = await getOrCreateDefaultThread({
+        talkId: TALK_A_ID,
+        ownerId: USER_A_ID,
+      });
+      const message = await createTalkMessage({
+        ownerId: USER_A_ID,
+        talkId: TALK_A_ID,
+        threadId,
+        role: 'user',
+        content: 'Kickoff',
+      });
+
+      const first = await writeTalkContextSummary({
+        ownerId: USER_A_ID,
+        talkId: TALK_A_ID,
+        threadId,
+        summaryText: '- Kicked off',
+        coversThroughMessageId: message.id,
+        coversThroughCreatedAt: message.created_at,
+        expectedVersion: null,
+      });
+      expect(first?.version).toBe(1);
+      expect(first?.threadId).toBe(threadId);
+      // Thread row never answers a talk-level read.
+      expect(await getTalkContextSummary(TALK_A_ID)).toBeNull();
+
+      // Second insert for the same scope loses the race.
+      expect(
+        await writeTalkContextSummary({
+          ownerId: USER_A_ID,
+          talkId: TALK_A_ID,
+          threadId,
+          summaryText: 'dup',
+          coversThroughMessageId: message.id,
+          coversThroughCreatedAt: message.created_at,
+          expectedVersion: null,
+        }),
+      ).toBeNull();
+
+      const second = await writeTalkContextSummary({
+        ownerId: USER_A_ID,
+        talkId: TALK_A_ID,
+        threadId,
+        summaryText: '- Kicked off\n- Agreed scope',
+        coversThroughMessageId: message.id,
+        coversThroughCreatedAt: message.created_at,
+        expectedVersion: 1,
+      });
+      expect(second?.version).toBe(2);
+
+      // Stale version is rejected and leaves the row untouched.
+      expect(
+        await writeTalkContextSummary({
+          ownerId: USER_A_ID,
+          talkId: TALK_A_ID,
+          threadId,
+          summaryText: 'stale',
+          coversThroughMessageId: message.id,
+          coversThroughCreatedAt: message.created_at,
+          expectedVersion: 1,
+        }),
+      ).toBeNull();
+      const current = await getTalkContextSummary(TALK_A_ID, threadId);
+      expect(current?.summaryText).toBe('- Kicked off\n- Agreed scope');
+      expect(current?.coversThroughMessageId).toBe(message.id);
+    });
+
+    await withUserContext(USER_B_ID, async () => {
+      expect(await getTalkContextSummary(TALK_A_ID, threadId)).toBeNull();
+    });
+  });
+
+  it('summary: the cursor outlives its message (0070)', async () => {
+    let threadId = '';
+    let messageId = '';
+    let messageCreatedAt = '';
+    await withUserContext(USER_A_ID, async () => {
+      threadId = await getOrCreateDefaultThread({
+        talkId: TALK_A_ID,
+        ownerId: USER_A_ID,
+      });
+      const message = await createTalkMessage({
+        ownerId: USER_A_ID,
+        talkId: TALK_A_ID,
+        threadId,
+        role: 'user',
+        content: 'Folded turn',
+      });
+      messageId = message.id;
+      messageCreatedAt = message.created_at;
+      await writeTalkContextSummary({
+        ownerId: USER_A_ID,
+        talkId: TALK_A_ID,
+        threadId,
+        summaryText: '- Folded',
+        coversThroughMessageId: message.id,
+        coversThroughCreatedAt: message.created_at,
+        expectedVersion: null,
+      });
+    });
+
+    await getDbPg()`
+      delete from public.talk_messages where id = ${messageId}::uuid
+    `;
+
+    await withUserContext(USER_A_ID, async () => {
+      const current = await getTalkContextSummary(TALK_A_ID, threadId);
+      expect(current?.coversThroughMessageId).toBe(messageId);
+      expect(current?.coversThroughCreatedAt).toBe(messageCreatedAt);
+    });
+  });
+
   it('rules: CRUD + active-count cap at 8', async () => {
     await withUserContext(USER_A_ID, async () => {
       const r1 = await createTalkContextRule({
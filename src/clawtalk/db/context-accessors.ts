@@ -1,8 +1,9 @@
 // clawtalk Phase 5 (PR 2) — postgres port of context-accessors.
 //
-// Surfaces: talk_context_goal, talk_context_rules, talk_state_entries,
-// talk_context_sources (+ ref counter), talk_message_attachments, plus
-// the composite snapshot/prompt-assembly helpers.
+// Surfaces: talk_context_goal, talk_context_summary, talk_context_rules,
+// talk_state_entries, talk_context_sources (+ ref counter),
+// talk_message_attachments, plus the composite snapshot/prompt-assembly
+// helpers.
 //
 // Every per-user table has RLS on owner_id (or analogous identity). The
 // talk_context_source_ref_counter table is the exception: its policy
@@ -69,6 +70,18 @@ export interface TalkGoalRecord {
   updated_by: string | null;
 }
 
+export interface TalkContextSummaryRecord {
+  id: string;
+  talk_id: string;
+  thread_id: string | null;
+  owner_id: string;
+  summary_text: string;
+  covers_through_message_id: string | null;
+  covers_through_created_at: string | null;
+  version: number;
+  updated_at: string;
+}
+
 export interface TalkContextRuleRecord {
   id: string;
   talk_id: string;
@@ -105,6 +118,9 @@ export interface TalkContextSourceRecord {
   created_at: string;
   updated_at: string;
   created_by: string | null;
+  refresh_interval_minutes: number | null;
+  next_refresh_at: string | null;
+  on_change_job_id: string | null;
   // Rasterized-page metadata. expected_page_count is a column on
   // talk_context_sources; page_image_count is a joined count of page rows
   // populated only by the read accessors (list + getById). Both optional
@@ -136,6 +152,17 @@ export interface GoalSnapshot {
   updatedBy: string | null;
 }
 
+export interface ContextSummarySnapshot {
+  id: string;
+  threadId: string | null;
+  summaryText: string;
+  coversThroughMessageId: string | null;
+  // created_at of the cursor message (0070); kept when it is deleted.
+  coversThroughCreatedAt: string | null;
+  version: number;
+  updatedAt: string;
+}
+
 export interface ContextRuleSnapshot {
   id: string;
   ruleText: string;
@@ -167,6 +194,11 @@ export interface ContextSourceSnapshot {
   createdAt: string;
   updatedAt: string;
   createdBy: string | null;
+  // Watched URL sources (0058): re-fetched every refreshIntervalMinutes;
+  // a change posts a system message and triggers onChangeJobId.
+  refreshIntervalMinutes: number | null;
+  nextRefreshAt: string | null;
+  onChangeJobId: string | null;
   // Rasterized-page state, surfaced so the webapp can show a render-pages
   // affordance for PDFs that lack a complete page set without recomputing
   // the rule client-side. pageSetComplete = expected_page_count is set,
@@ -201,8 +233,7 @@ export type TalkStateWriteResult =
   | { ok: false; current: TalkStateEntrySnapshot };
 
 export type TalkStateDeleteResult =
-  | { ok: true; deleted: true }
-  | { ok: false; current: TalkStateEntrySnapshot };
+  { ok: true; deleted: true } | { ok: false; current: TalkStateEntrySnapshot };
 
 // ---------------------------------------------------------------------------
 // Snapshot conversions
@@ -248,6 +279,9 @@ function toSourceSnapshot(row: TalkContextSourceRecord): ContextSourceSnapshot {
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     createdBy: row.created_by,
+    refreshIntervalMinutes: row.refresh_interval_minutes,
+    nextRefreshAt: row.next_refresh_at,
+    onChangeJobId: row.on_change_job_id,
     expectedPageCount,
     pageImageCount,
     pageSetComplete,
@@ -329,6 +363,98 @@ export async function setTalkGoal(input: {
   return await getTalkGoal(input.talkId);
 }
 
+// ---------------------------------------------------------------------------
+// Rolling summary accessors
+// ---------------------------------------------------------------------------
+//
+// One row per scope: thread_id NULL is the talk-level summary, otherwise
+// the summary of that thread (partial unique indexes, migration 0039).
+// `version` is the optimistic-concurrency token for the summarizer.
+
+function toSummarySnapshot(
+  row: TalkContextSummaryRecord,
+): ContextSummarySnapshot {
+  return {
+    id: row.id,
+    threadId: row.thread_id,
+    summaryText: row.summary_text,
+    coversThroughMessageId: row.covers_through_message_id,
+    coversThroughCreatedAt: row.covers_through_created_at,
+    version: row.version,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function getTalkContextSummary(
+  talkId: string,
+  threadId?: string | null,
+): Promise<ContextSummarySnapshot | null> {
+  const db = getDbPg();
+  const threadIdArg = threadId ?? null;
+  const rows = await db<TalkContextSummaryRecord[]>`
+    select id, talk_id, thread_id, owner_id, summary_text,
+           covers_through_message_id, covers_through_created_at, version,
+           updated_at
+    from public.talk_context_summary
+    where talk_id = ${talkId}::uuid
+      and thread_id is not distinct from ${threadIdArg}::uuid
+    limit 1
+  `;
+  return rows[0] ? toSummarySnapshot(rows[0]) : null;
+}
+
+/**
+ * Write the next fold of a rolling summary. `expectedVersion` is the
+ * version the caller read (null when no row existed); the write only
+ * lands if the row is still at that version. Returns null when another
+ * writer got there first — the caller drops its fold and the next pass
+ * starts from the winner's cursor.
+ */
+export async function writeTalkContextSummary(input: {
+  ownerId: string;
+  talkId: string;
+  threadId?: string | null;
+  summaryText: string;
+  coversThroughMessageId: string;
+  coversThroughCreatedAt: string;
+  expectedVersion: number | null;
+}): Promise<ContextSummarySnapshot | null> {
+  const db = getDbPg();
+  const threadIdArg = input.threadId ?? null;
+  const rows =
+    input.expectedVersion === null
+      ? await db<TalkContextSummaryRecord[]>`
+          insert into public.talk_context_summary
+            (talk_id, thread_id, owner_id, summary_text,
+             covers_through_message_id, covers_through_created_at, version)
+          values
+            (${input.talkId}::uuid, ${threadIdArg}::uuid,
+             ${input.ownerId}::uuid, ${input.summaryText},
+             ${input.coversThroughMessageId}::uuid,
+             ${input.coversThroughCreatedAt}::timestamptz, 1)
+          on conflict do nothing
+          returning id, talk_id, thread_id, owner_id, summary_text,
+                    covers_through_message_id, covers_through_created_at,
+                    version, updated_at
+        `
+      : await db<TalkContextSummaryRecord[]>`
+          update public.talk_context_summary
+          set summary_text = ${input.summaryText},
+              covers_through_message_id = ${input.coversThroughMessageId}::uuid,
+              covers_through_created_at =
+                ${input.coversThroughCreatedAt}::timestamptz,
+              version = version + 1,
+              updated_at = now()
+          where talk_id = ${input.talkId}::uuid
+            and thread_id is not distinct from ${threadIdArg}::uuid
+            and version = ${input.expectedVersion}
+          returning id, talk_id, thread_id, owner_id, summary_text,
+                    covers_through_message_id, covers_through_created_at,
+                    version, updated_at
+        `;
+  return rows[0] ? toSummarySnapshot(rows[0]) : null;
+}
+
 // ---------------------------------------------------------------------------
 // Rule accessors
 // ---------------------------------------------------------------------------
@@ -676,7 +802,7 @@ const SOURCE_COLUMNS = `id, talk_id, owner_id, source_ref, source_type, title,
   title_slug, note, sort_order, status, source_url, file_name, file_size,
   mime_type, storage_key, extracted_text, extracted_at, last_fetched_at,
   extraction_error, fetch_strategy, is_truncated, created_at, updated_at,
-  created_by`;
+  created_by, refresh_interval_minutes, next_refresh_at, on_change_job_id`;
 
 /**
  * Convert a title into a stable slug for `@<slug>` references. Lowercase,
@@ -703,7 +829,8 @@ export async function listTalkContextSources(
            s.file_name, s.file_size, s.mime_type, s.storage_key,
            s.extracted_text, s.extracted_at, s.last_fetched_at,
            s.extraction_error, s.fetch_strategy, s.is_truncated, s.created_at,
-           s.updated_at, s.created_by, s.expected_page_count,
+           s.updated_at, s.created_by, s.refresh_interval_minutes,
+           s.next_refresh_at, s.on_change_job_id, s.expected_page_count,
            coalesce(p.page_count, 0) as page_image_count
     from public.talk_context_sources s
     left join (
@@ -740,7 +867,8 @@ export async function getTalkContextSourceById(
            s.file_name, s.file_size, s.mime_type, s.storage_key,
            s.extracted_text, s.extracted_at, s.last_fetched_at,
            s.extraction_error, s.fetch_strategy, s.is_truncated, s.created_at,
-           s.updated_at, s.created_by, s.expected_page_count,
+           s.updated_at, s.created_by, s.refresh_interval_minutes,
+           s.next_refresh_at, s.on_change_job_id, s.expected_page_count,
            coalesce(p.page_count, 0) as page_image_count
     from public.talk_context_sources s
     left join (
@@ -764,7 +892,8 @@ export async function getTalkContextSourceByRef(
            sort_order, status, source_url, file_name, file_size, mime_type,
            storage_key, extracted_text, extracted_at, last_fetched_at,
            extraction_error, fetch_strategy, is_truncated, created_at,
-           updated_at, created_by
+           updated_at, created_by, refresh_interval_minutes, next_refresh_at,
+           on_change_job_id
     from public.talk_context_sources
     where source_ref = ${sourceRef} and talk_id = ${talkId}::uuid
     limit 1
@@ -841,7 +970,8 @@ export async function createTalkContextSource(input: {
               sort_order, status, source_url, file_name, file_size, mime_type,
               storage_key, extracted_text, extracted_at, last_fetched_at,
               extraction_error, fetch_strategy, is_truncated, created_at,
-              updated_at, created_by
+              updated_at, created_by, refresh_interval_minutes, next_refresh_at,
+              on_change_job_id
   `;
   return toSourceSnapshot(rows[0]);
 }
@@ -853,6 +983,8 @@ export async function patchTalkContextSource(input: {
   note?: string | null;
   sortOrder?: number;
   extractedText?: string | null;
+  refreshIntervalMinutes?: number | null;
+  onChangeJobId?: string | null;
 }): Promise<ContextSourceSnapshot | undefined> {
   const db = getDbPg();
   const existingRows = await db<TalkContextSourceRecord[]>`
@@ -860,7 +992,8 @@ export async function patchTalkContextSource(input: {
            sort_order, status, source_url, file_name, file_size, mime_type,
            storage_key, extracted_text, extracted_at, last_fetched_at,
            extraction_error, fetch_strategy, is_truncated, created_at,
-           updated_at, created_by
+           updated_at, created_by, refresh_interval_minutes, next_refresh_at,
+           on_change_job_id
     from public.talk_context_sources
     where id = ${input.sourceId}::uuid and talk_id = ${input.talkId}::uuid
     limit 1
@@ -877,6 +1010,15 @@ export async function patchTalkContextSource(input: {
   }
   if (input.note !== undefined) nextNote = input.note?.trim() || null;
   if (input.sortOrder !== undefined) nextOrder = input.sortOrder;
+  const nextInterval =
+    input.refreshIntervalMinutes !== undefined
+      ? input.refreshIntervalMinutes
+      : existing.refresh_interval_minutes;
+  const nextOnChangeJobId =
+    input.onChangeJobId !== undefined
+      ? input.onChangeJobId
+      : existing.on_change_job_id;
+  const intervalChanged = nextInterval !== existing.refresh_interval_minutes;
 
   if (input.extractedText !== undefined && existing.source_type === 'text') {
     let text = input.extractedText;
@@ -901,7 +1043,8 @@ export async function patchTalkContextSource(input: {
                 sort_order, status, source_url, file_name, file_size, mime_type,
                 storage_key, extracted_text, extracted_at, last_fetched_at,
                 extraction_error, fetch_strategy, is_truncated, created_at,
-                updated_at, created_by
+                updated_at, created_by, refresh_interval_minutes, next_refresh_at,
+                on_change_job_id
     `;
     // Re-read with the page-image join so the returned snapshot keeps the
     // PDF's page-set state (a title/note edit must not clobber it to 0).
@@ -916,13 +1059,25 @@ export async function patchTalkContextSource(input: {
         title_slug = ${slugify(nextTitle)},
         note = ${nextNote},
         sort_order = ${nextOrder},
+        refresh_interval_minutes = ${nextInterval},
+        -- A new interval counts from the last fetch, so shortening it can
+        -- make the source due on the next tick.
+        next_refresh_at = case
+          when ${nextInterval}::int is null then null
+          when ${intervalChanged} then
+            coalesce(last_fetched_at, now())
+              + make_interval(mins => ${nextInterval}::int)
+          else next_refresh_at
+        end,
+        on_change_job_id = ${nextOnChangeJobId}::uuid,
         updated_at = now()
     where id = ${input.sourceId}::uuid
     returning id, talk_id, owner_id, source_ref, source_type, title, title_slug, note,
               sort_order, status, source_url, file_name, file_size, mime_type,
               storage_key, extracted_text, extracted_at, last_fetched_at,
               extraction_error, fetch_strategy, is_truncated, created_at,
-              updated_at, created_by
+              updated_at, created_by, refresh_interval_minutes, next_refresh_at,
+              on_change_job_id
   `;
   return rows[0]
     ? getTalkContextSourceById(input.sourceId, input.talkId)
@@ -990,7 +1145,8 @@ export async function markTalkContextSourcePending(
               sort_order, status, source_url, file_name, file_size, mime_type,
               storage_key, extracted_text, extracted_at, last_fetched_at,
               extraction_error, fetch_strategy, is_truncated, created_at,
-              updated_at, created_by
+              updated_at, created_by, refresh_interval_minutes, next_refresh_at,
+              on_change_job_id
   `;
   return rows[0] ? getTalkContextSourceById(sourceId, talkId) : undefined;
 }
@@ -1005,7 +1161,8 @@ export async function getContextSourceWithContent(
            sort_order, status, source_url, file_name, file_size, mime_type,
            storage_key, extracted_text, extracted_at, last_fetched_at,
            extraction_error, fetch_strategy, is_truncated, created_at,
-           updated_at, created_by
+           updated_at, created_by, refresh_interval_minutes, next_refresh_at,
+           on_change_job_id
     from public.talk_context_sources
     where id = ${sourceId}::uuid and talk_id = ${talkId}::uuid
     limit 1
@@ -1040,6 +1197,176 @@ export async function deleteTalkContextSource(
   return rows.length > 0;
 }
 
+// ---------------------------------------------------------------------------
+// Watched URL sources (migration 0058)
+//
+// A URL source with refresh_interval_minutes set is re-fetched by the cron
+// tick (talks/source-refresh.ts). A re-fetch whose text differs from the
+// previous extraction is recorded as a talk_context_source_revisions row.
+// ---------------------------------------------------------------------------
+
+export const MIN_SOURCE_REFRESH_INTERVAL_MINUTES = 60;
+export const MAX_SOURCE_REFRESH_INTERVAL_MINUTES = 30 * 24 * 60;
+
+export interface DueContextSourceRefresh {
+  id: string;
+  talkId: string;
+  ownerId: string;
+  sourceRef: string;
+  title: string;
+  sourceUrl: string;
+  extractedText: string | null;
+  extractedAt: string | null;
+  onChangeJobId: string | null;
+}
+
+export interface ContextSourceRevisionSnapshot {
+  id: string;
+  sourceId: string;
+  previousExtractedAt: string | null;
+  extractedAt: string;
+  addedLines: number;
+  removedLines: number;
+  diffText: string;
+  isDiffTruncated: boolean;
+  createdAt: string;
+}
+
+interface ContextSourceRevisionRecord {
+  id: string;
+  source_id: string;
+  previous_extracted_at: string | null;
+  extracted_at: string;
+  added_lines: number;
+  removed_lines: number;
+  diff_text: string;
+  is_diff_truncated: boolean;
+  created_at: string;
+}
+
+function toRevisionSnapshot(
+  row: ContextSourceRevisionRecord,
+): ContextSourceRevisionSnapshot {
+  return {
+    id: row.id,
+    sourceId: row.source_id,
+    previousExtractedAt: row.previous_extracted_at,
+    extractedAt: row.extracted_at,
+    addedLines: row.added_lines,
+    removedLines: row.removed_lines,
+    diffText: row.diff_text,
+    isDiffTruncated: row.is_diff_truncated,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Claim watched URL sources whose next_refresh_at has passed. Unlike
+ * claimDueTalkJobs, the claim advances next_refresh_at in the same
+ * statement: a re-fetch can outlast the one-minute tick, and there is
+ * no busy state worth retrying on the next one. Sources still pending
+ * (a first fetch or manual retry in flight) are skipped until they
+ * settle. Runs outside any user context, like claimDueTalkJobs.
+ */
+export async function claimDueContextSourceRefreshes(
+  limit: number,
+  now?: string,
+): Promise<DueContextSourceRefresh[]> {
+  const normalizedLimit = Math.max(1, Math.floor(limit));
+  const currentNow = now ?? new Date().toISOString();
+  const db = getDbPg();
+  const rows = await db<
+    Array<{
+      id: string;
+      talk_id: string;
+      owner_id: string;
+      source_ref: string;
+      title: string;
+      source_url: string;
+      extracted_text: string | null;
+      extracted_at: string | null;
+      on_change_job_id: string | null;
+    }>
+  >`
+    update public.talk_context_sources s
+    set next_refresh_at = ${currentNow}::timestamptz
+          + make_interval(mins => s.refresh_interval_minutes)
+    where s.id in (
+      select id
+      from public.talk_context_sources
+      where source_type = 'url'
+        and source_url is not null
+        and status <> 'pending'
+        and refresh_interval_minutes is not null
+        and next_refresh_at is not null
+        and next_refresh_at <= ${currentNow}::timestamptz
+      order by next_refresh_at asc
+      limit ${normalizedLimit}
+      for update skip locked
+    )
+    returning s.id, s.talk_id, s.owner_id, s.source_ref, s.title,
+              s.source_url, s.extracted_text, s.extracted_at,
+              s.on_change_job_id
+  `;
+  return rows.map((row) => ({
+    id: row.id,
+    talkId: row.talk_id,
+    ownerId: row.owner_id,
+    sourceRef: row.source_ref,
+    title: row.title,
+    sourceUrl: row.source_url,
+    extractedText: row.extracted_text,
+    extractedAt: row.extracted_at,
+    onChangeJobId: row.on_change_job_id,
+  }));
+}
+
+export async function createContextSourceRevision(input: {
+  sourceId: string;
+  talkId: string;
+  ownerId: string;
+  previousExtractedAt: string | null;
+  extractedAt: string;
+  addedLines: number;
+  removedLines: number;
+  diffText: string;
+  isDiffTruncated: boolean;
+}): Promise<ContextSourceRevisionSnapshot> {
+  const db = getDbPg();
+  const rows = await db<ContextSourceRevisionRecord[]>`
+    insert into public.talk_context_source_revisions
+      (source_id, talk_id, owner_id, previous_extracted_at, extracted_at,
+       added_lines, removed_lines, diff_text, is_diff_truncated)
+    values
+      (${input.sourceId}::uuid, ${input.talkId}::uuid, ${input.ownerId}::uuid,
+       ${input.previousExtractedAt}::timestamptz,
+       ${input.extractedAt}::timestamptz, ${input.addedLines},
+       ${input.removedLines}, ${input.diffText}, ${input.isDiffTruncated})
+    returning id, source_id, previous_extracted_at, extracted_at,
+              added_lines, removed_lines, diff_text, is_diff_truncated,
+              created_at
+  `;
+  return toRevisionSnapshot(rows[0]);
+}
+
+export async function listContextSourceRevisions(
+  sourceId: string,
+  talkId: string,
+  limit = 20,
+): Promise<ContextSourceRevisionSnapshot[]> {
+  const normalizedLimit = Math.min(100, Math.max(1, Math.floor(limit)));
+  const db = getDbPg();
+  const rows = await db<ContextSourceRevisionRecord[]>`
+    select id, source_id, previous_extracted_at, extracted_at, added_lines,
+           removed_lines, diff_text, is_diff_truncated, created_at
+    from public.talk_context_source_revisions
+    where source_id = ${sourceId}::uuid and talk_id = ${talkId}::uuid
+    order by created_at desc
+    limit ${normalizedLimit}
+  `;
+  return rows.map(toRevisionSnapshot);
+}
+
 // ---------------------------------------------------------------------------
 // PDF page images (rasterization feature)
 //
@@ -0,0 +1,185 @@
+// Custom LLM provider accessors (migration 0050).
+//
+// Custom providers are llm_providers rows with a workspace_id. Every
+// function runs inside `withUserContext(userId)`: RLS limits reads to
+// the caller's workspaces and writes to the ones they administer, and
+// new rows land in the current workspace.
+
+import { randomUUID } from 'crypto';
+
+import { getDbPg } from '../../db.js';
+
+export type CustomProviderApiFormat =
+  'openai_chat_completions' | 'anthropic_messages';
+
+export type CustomProviderAuthScheme = 'none' | 'bearer' | 'x_api_key';
+
+export const CUSTOM_PROVIDER_ID_PREFIX = 'custom.';
+
+export interface CustomProviderRecord {
+  id: string;
+  workspace_id: string;
+  name: string;
+  api_format: CustomProviderApiFormat;
+  base_url: string;
+  auth_scheme: CustomProviderAuthScheme;
+  response_start_timeout_ms: number | null;
+  stream_idle_timeout_ms: number | null;
+  absolute_timeout_ms: number | null;
+}
+
+export interface CustomProviderInput {
+  name: string;
+  apiFormat: CustomProviderApiFormat;
+  baseUrl: string;
+  authScheme: CustomProviderAuthScheme;
+  responseStartTimeoutMs: number | null;
+  streamIdleTimeoutMs: number | null;
+  absoluteTimeoutMs: number | null;
+}
+
+export interface CustomProviderModelInput {
+  modelId: string;
+  displayName: string;
+  contextWindowTokens: number;
+  defaultMaxOutputTokens: number;
+  supportsTools: boolean | null;
+  supportsVision: boolean | null;
+}
+
+export function isCustomProviderId(providerId: string): boolean {
+  return providerId.startsWith(CUSTOM_PROVIDER_ID_PREFIX);
+}
+
+/** Custom providers of the current workspace, by name. */
+export async function listCustomProviders(): Promise<CustomProviderRecord[]> {
+  const db = getDbPg();
+  return db<CustomProviderRecord[]>`
+    select id, workspace_id, name, api_format, base_url, auth_scheme,
+           response_start_timeout_ms, stream_idle_timeout_ms,
+           absolute_timeout_ms
+    from public.llm_providers
+    where workspace_id = public.current_workspace_id()
+      and enabled = true
+    order by name asc, id asc
+  `;
+}
+
+export async function getCustomProvider(
+  providerId: string,
+): Promise<CustomProviderRecord | undefined> {
+  const db = getDbPg();
+  const rows = await db<CustomProviderRecord[]>`
+    select id, workspace_id, name, api_format, base_url, auth_scheme,
+           response_start_timeout_ms, stream_idle_timeout_ms,
+           absolute_timeout_ms
+    from public.llm_providers
+    where id = ${providerId}
+      and workspace_id = public.current_workspace_id()
+    limit 1
+  `;
+  return rows[0];
+}
+
+export async function createCustomProvider(
+  input: CustomProviderInput & { updatedBy: string },
+): Promise<string> {
+  const db = getDbPg();
+  const id = `${CUSTOM_PROVIDER_ID_PREFIX}${randomUUID()}`;
+  await db`
+    insert into public.llm_providers (
+      id, name, provider_kind, api_format, base_url, auth_scheme,
+      workspace_id, response_start_timeout_ms, stream_idle_timeout_ms,
+      absolute_timeout_ms, updated_by
+    )
+    values (
+      ${id}, ${input.name}, 'custom', ${input.apiFormat}, ${input.baseUrl},
+      ${input.authScheme}, public.current_workspace_id(),
+      ${input.responseStartTimeoutMs}, ${input.streamIdleTimeoutMs},
+      ${input.absoluteTimeoutMs}, ${input.updatedBy}::uuid
+    )
+  `;
+  return id;
+}
+
+export async function updateCustomProvider(
+  providerId: string,
+  input: CustomProviderInput & { updatedBy: string },
+): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    update public.llm_providers
+    set name = ${input.name},
+        api_format = ${input.apiFormat},
+        base_url = ${input.baseUrl},
+        auth_scheme = ${input.authScheme},
+        response_start_timeout_ms = ${input.responseStartTimeoutMs},
+        stream_idle_timeout_ms = ${input.streamIdleTimeoutMs},
+        absolute_timeout_ms = ${input.absoluteTimeoutMs},
+        updated_by = ${input.updatedBy}::uuid,
+        updated_at = now()
+    where id = ${providerId}
+      and workspace_id = public.current_workspace_id()
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Cascades to the provider's models and stored credentials; agents on
+ * it keep their row with provider_id cleared.
+ */
+export async function deleteCustomProvider(
+  providerId: string,
+): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    delete from public.llm_providers
+    where id = ${providerId}
+      and workspace_id = public.current_workspace_id()
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Replace the provider's model list. Models dropped from the list are
+ * deleted; the rest are upserted with their capability overrides.
+ */
+export async function replaceCustomProviderModels(input: {
+  providerId: string;
+  models: CustomProviderModelInput[];
+  updatedBy: string;
+}): Promise<void> {
+  const db = getDbPg();
+  const modelIds = input.models.map((model) => model.modelId);
+  await db`
+    delete from public.llm_provider_models
+    where provider_id = ${input.providerId}
+      and not (model_id = any(${modelIds}))
+  `;
+  for (const model of input.models) {
+    await db`
+      insert into public.llm_provider_models (
+        provider_id, model_id, display_name, context_window_tokens,
+        default_max_output_tokens, supports_tools, supports_vision,
+        enabled, updated_by
+      )
+      values (
+        ${input.providerId}, ${model.modelId}, ${model.displayName},
+        ${model.contextWindowTokens}, ${model.defaultMaxOutputTokens},
+        ${model.supportsTools}, ${model.supportsVision}, true,
+        ${input.updatedBy}::uuid
+      )
+      on conflict (provider_id, model_id) do update set
+        display_name = excluded.display_name,
+        context_window_tokens = excluded.context_window_tokens,
+        default_max_output_tokens = excluded.default_max_output_tokens,
+        supports_tools = excluded.supports_tools,
+        supports_vision = excluded.supports_vision,
+        enabled = true,
+        updated_by = excluded.updated_by,
+        updated_at = now()
+    `;
+  }
+}
@@ -0,0 +1,52 @@
+// Invites sent to the caller (migration 0069).
+//
+// Talk and workspace invites are created by shareTalkByEmail and
+// inviteWorkspaceMemberByEmail. Their recipient can't read either table
+// through RLS, so the pending list and the accept / decline step go
+// through SECURITY DEFINER functions that match the invite address to
+// the caller's own email.
+
+import { getDbPg } from '../../db.js';
+
+export type InviteKind = 'talk' | 'workspace';
+
+export interface MyInviteRecord {
+  kind: InviteKind;
+  id: string;
+  target_id: string;
+  target_name: string;
+  role: string;
+  invited_by_name: string;
+  created_at: string;
+  expires_at: string;
+}
+
+/** Open invites sent to the caller's address, oldest first. */
+export async function listMyInvites(): Promise<MyInviteRecord[]> {
+  const db = getDbPg();
+  return db<MyInviteRecord[]>`
+    select kind, id, target_id, target_name, role, invited_by_name,
+           created_at, expires_at
+    from public.list_my_invites()
+  `;
+}
+
+/**
+ * Accept (join with the invite's role) or decline (delete the invite).
+ * False when the invite is not open or was not sent to the caller.
+ */
+export async function respondToInvite(input: {
+  kind: InviteKind;
+  inviteId: string;
+  accept: boolean;
+}): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ ok: boolean }[]>`
+    select public.respond_to_invite(
+      ${input.kind},
+      ${input.inviteId}::uuid,
+      ${input.accept}
+    ) as ok
+  `;
+  return rows[0]?.ok === true;
+}
@@ -311,6 +311,42 @@ describe('job-accessors-pg (postgres + RLS)', () => {
     expect(resumed?.nextDueAt).toBeTruthy();
   });
 
+  it('resumeTalkJob rejects a run-once job whose time has passed', async () => {
+    const { talkId, agentId } = await setupTalkWithAgent();
+    const job = await withUserContext(USER_A_ID, async () => {
+      return await createTalkJob({
+        ownerId: USER_A_ID,
+        talkId,
+        title: 'One-off',
+        prompt: 'hi',
+        targetAgentId: agentId,
+        schedule: { kind: 'once', at: '2099-01-01T09:00' },
+        timezone: 'UTC',
+        createdBy: USER_A_ID,
+      });
+    });
+    await withUserContext(USER_A_ID, async () => {
+      await pauseTalkJob(talkId, job.id);
+      // Paused jobs may hold a past run-once time (no future-run check).
+      await patchTalkJob({
+        talkId,
+        jobId: job.id,
+        schedule: { kind: 'once', at: '2020-01-01T09:00' },
+      });
+    });
+
+    await expect(
+      withUserContext(USER_A_ID, async () => {
+        await resumeTalkJob(talkId, job.id);
+      }),
+    ).rejects.toThrow(/Run-once time must be in the future/);
+    const after = await withUserContext(USER_A_ID, async () => {
+      return await getTalkJob(talkId, job.id);
+    });
+    expect(after?.status).toBe('paused');
+    expect(after?.nextDueAt).toBeNull();
+  });
+
   it('blockTalkJob: marks blocked + records lastRunStatus', async () => {
     const { talkId, agentId } = await setupTalkWithAgent();
     const job = await withUserContext(USER_A_ID, async () => {
@@ -26,19 +26,34 @@ import {
 } from './accessors.js';
 import { getDbPg } from '../../db.js';
 import { resolveCredentialKindSnapshot } from '../agents/execution-resolver.js';
+import {
+  normalizeStructuredOutputConfig,
+  type StructuredOutputConfig,
+} from '../agents/structured-output.js';
 import { getRegisteredAgent } from './agent-accessors.js';
+import {
+  isToolIterationGrant,
+  MAX_TOOL_ITERATION_GRANT,
+} from './run-continuation-accessors.js';
 import { emitOutboxEvent } from '../talks/outbox-emit.js';
+import {
+  cronMatchesDate,
+  cronTimes,
+  daysInMonth,
+  findNextLocalFire,
+  normalizeCronExpression,
+  nthBusinessDayOfMonth,
+  parseCronExpression,
+  weekdayOf,
+  zonedTimeToUtc,
+} from '../talks/job-schedule.js';
 
 export type TalkJobStatus = 'active' | 'paused' | 'blocked';
 export type TalkJobWeekday =
-  | 'sun'
-  | 'mon'
-  | 'tue'
-  | 'wed'
-  | 'thu'
-  | 'fri'
-  | 'sat';
+  'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
 
+// Every kind but hourly_interval is wall-clock time in the job's
+// timezone; see talks/job-schedule.ts for the DST rules.
 export type TalkJobSchedule =
   | { kind: 'hourly_interval'; everyHours: number }
   | {
@@ -46,7 +61,24 @@ export type TalkJobSchedule =
       weekdays: TalkJobWeekday[];
       hour: number;
       minute: number;
-    };
+    }
+  | { kind: 'cron'; expression: string }
+  /** `at` is a local date-time, `YYYY-MM-DDTHH:mm`. */
+  | { kind: 'once'; at: string }
+  /** Days past the end of a short month clamp to its last day. */
+  | { kind: 'monthly'; dayOfMonth: number; hour: number; minute: number }
+  /**
+   * The Nth Monday–Friday of each month; negative counts from the end
+   * (-1 = last business day). No holiday calendar.
+   */
+  | { kind: 'business_day'; businessDay: number; hour: number; minute: number };
+
+export type TalkJobScheduleKind = TalkJobSchedule['kind'];
+
+// Horizon for the calendar search. Five years covers any satisfiable
+// cron expression, including Feb 29.
+const SCHEDULE_SEARCH_HORIZON_DAYS = 5 * 366;
+export const MAX_TALK_JOB_SCHEDULE_PREVIEW = 20;
 
 export interface TalkJobScope {
   connectorIds: string[];
@@ -54,6 +86,23 @@ export interface TalkJobScope {
   allowWeb: boolean;
 }
 
+export type TalkJobReportMode = 'replace_section' | 'append_dated';
+
+// Where a job's output lands. Every run posts to the job thread; a
+// report job also writes the response into the Talk's Content document
+// as pending edits (see talks/job-report.ts).
+export type TalkJobDeliverable =
+  | { kind: 'thread' }
+  | {
+      kind: 'report';
+      mode: TalkJobReportMode;
+      sectionTitle: string;
+      /** Materialize the edit set immediately instead of leaving it pending. */
+      autoAccept: boolean;
+    };
+
+const MAX_REPORT_SECTION_TITLE_LENGTH = 200;
+
 interface TalkJobRow {
   id: string;
   talk_id: string;
@@ -66,6 +115,10 @@ interface TalkJobRow {
   schedule_json: TalkJobSchedule;
   timezone: string;
   source_scope_json: TalkJobScope;
+  deliverable_kind: TalkJobDeliverable['kind'];
+  report_config_json: Record<string, unknown> | null;
+  structured_output_json: StructuredOutputConfig | null;
+  tool_iteration_grant: number | null;
   thread_id: string;
   last_run_at: string | null;
   last_run_status: string | null;
@@ -88,6 +141,17 @@ export interface TalkJob {
   schedule: TalkJobSchedule;
   timezone: string;
   sourceScope: TalkJobScope;
+  deliverable: TalkJobDeliverable;
+  /**
+   * JSON schema the run's reply must match, and the state key the
+   * parsed object is written to (migration 0051). Null for prose jobs.
+   */
+  structuredOutput: StructuredOutputConfig | null;
+  /**
+   * Extra tool-loop iterations a run gets, once, when it hits the limit
+   * (migration 0054). Null leaves the run paused for the user.
+   */
+  toolIterationGrant: number | null;
   threadId: string;
   lastRunAt: string | null;
   lastRunStatus: string | null;
@@ -105,6 +169,7 @@ export interface TalkJobRunSummary {
     | 'queued'
     | 'running'
     | 'awaiting_confirmation'
+    | 'paused'
     | 'cancelled'
     | 'completed'
     | 'failed';
@@ -118,6 +183,23 @@ export interface TalkJobRunSummary {
   cancelReason: string | null;
   executorAlias: string | null;
   executorModel: string | null;
+  report: TalkJobRunReport | null;
+}
+
+/**
+ * The Content edit set a report job run produced. `editSetId` is the
+ * content_edits run_id (the talk run id), which the accept / reject run
+ * routes take. `resolved` means the set was pending and its edits are
+ * gone: accepted, rejected, or superseded by a later run.
+ */
+export interface TalkJobRunReport {
+  contentId: string | null;
+  editSetId: string;
+  editIds: string[];
+  mode: TalkJobReportMode;
+  sectionTitle: string;
+  status: 'pending' | 'accepted' | 'resolved' | 'failed';
+  errorMessage: string | null;
 }
 
 export interface TalkJobDependencyIssue {
@@ -137,6 +219,16 @@ function normalizePrompt(prompt: string): string {
   return normalized;
 }
 
+function normalizeToolIterationGrant(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  if (!isToolIterationGrant(value)) {
+    throw new Error(
+      `Tool iteration grant must be a whole number from 1 to ${MAX_TOOL_ITERATION_GRANT}`,
+    );
+  }
+  return value;
+}
+
 function normalizeTitle(title: string): string {
   const normalized = title.trim();
   if (!normalized) {
@@ -230,7 +322,75 @@ export function normalizeTalkJobSchedule(raw: unknown): TalkJobSchedule {
       minute: normalizeIntegerInRange(candidate.minute, 0, 59, 'minute'),
     };
   }
-  throw new Error('Schedule kind must be hourly_interval or weekly');
+  if (candidate.kind === 'cron') {
+    if (typeof candidate.expression !== 'string') {
+      throw new Error('Cron schedules require an expression');
+    }
+    return {
+      kind: 'cron',
+      expression: normalizeCronExpression(candidate.expression),
+    };
+  }
+  if (candidate.kind === 'once') {
+    return { kind: 'once', at: normalizeLocalDateTime(candidate.at) };
+  }
+  if (candidate.kind === 'monthly') {
+    return {
+      kind: 'monthly',
+      dayOfMonth: normalizeIntegerInRange(
+        candidate.dayOfMonth,
+        1,
+        31,
+        'dayOfMonth',
+      ),
+      hour: normalizeIntegerInRange(candidate.hour, 0, 23, 'hour'),
+      minute: normalizeIntegerInRange(candidate.minute, 0, 59, 'minute'),
+    };
+  }
+  if (candidate.kind === 'business_day') {
+    const businessDay = normalizeIntegerInRange(
+      candidate.businessDay,
+      -20,
+      20,
+      'businessDay',
+    );
+    if (businessDay === 0) {
+      throw new Error('businessDay must not be 0');
+    }
+    return {
+      kind: 'business_day',
+      businessDay,
+      hour: normalizeIntegerInRange(candidate.hour, 0, 23, 'hour'),
+      minute: normalizeIntegerInRange(candidate.minute, 0, 59, 'minute'),
+    };
+  }
+  throw new Error(
+    'Schedule kind must be hourly_interval, weekly, cron, once, monthly or business_day',
+  );
+}
+
+function normalizeLocalDateTime(value: unknown): string {
+  const match =
+    typeof value === 'string'
+      ? /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value.trim())
+      : null;
+  if (!match) {
+    throw new Error(
+      'Run-once time must be a local date-time (YYYY-MM-DDTHH:mm)',
+    );
+  }
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  if (
+    month < 1 ||
+    month > 12 ||
+    day < 1 ||
+    day > daysInMonth(year, month) ||
+    hour > 23 ||
+    minute > 59
+  ) {
+    throw new Error('Run-once time is not a valid date-time');
+  }
+  return match[0];
 }
 
 function normalizeStringIdList(values: unknown): string[] {
@@ -256,66 +416,224 @@ export function normalizeTalkJobScope(raw: unknown): TalkJobScope {
   };
 }
 
-function getLocalDateParts(
-  date: Date,
-  timezone: string,
-): { weekday: TalkJobWeekday; hour: number; minute: number } {
-  const parts = new Intl.DateTimeFormat('en-US', {
-    timeZone: timezone,
-    weekday: 'short',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false,
-  }).formatToParts(date);
-  const get = (type: string): string =>
-    parts.find((part) => part.type === type)?.value || '';
-  const weekdayRaw = get('weekday').toLowerCase();
-  const weekdayMap: Record<string, TalkJobWeekday> = {
-    sun: 'sun',
-    mon: 'mon',
-    tue: 'tue',
-    wed: 'wed',
-    thu: 'thu',
-    fri: 'fri',
-    sat: 'sat',
+export function normalizeTalkJobDeliverable(raw: unknown): TalkJobDeliverable {
+  if (raw === null || raw === undefined) return { kind: 'thread' };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Deliverable must be an object');
+  }
+  const candidate = raw as Record<string, unknown>;
+  if (candidate.kind === undefined || candidate.kind === 'thread') {
+    return { kind: 'thread' };
+  }
+  if (candidate.kind !== 'report') {
+    throw new Error("Deliverable kind must be 'thread' or 'report'");
+  }
+  if (
+    candidate.mode !== 'replace_section' &&
+    candidate.mode !== 'append_dated'
+  ) {
+    throw new Error("Report mode must be 'replace_section' or 'append_dated'");
+  }
+  const sectionTitle =
+    typeof candidate.sectionTitle === 'string'
+      ? candidate.sectionTitle.replace(/\s+/g, ' ').trim()
+      : '';
+  if (!sectionTitle) {
+    throw new Error('Report section title is required');
+  }
+  if (sectionTitle.length > MAX_REPORT_SECTION_TITLE_LENGTH) {
+    throw new Error(
+      `Report section title must be at most ${MAX_REPORT_SECTION_TITLE_LENGTH} characters`,
+    );
+  }
+  return {
+    kind: 'report',
+    mode: candidate.mode,
+    sectionTitle,
+    autoAccept: candidate.autoAccept === true,
   };
+}
+
+function deliverableFromRow(row: TalkJobRow): TalkJobDeliverable {
+  if (row.deliverable_kind !== 'report' || !row.report_config_json) {
+    return { kind: 'thread' };
+  }
+  return normalizeTalkJobDeliverable({
+    ...row.report_config_json,
+    kind: 'report',
+  });
+}
+
+function deliverableColumns(deliverable: TalkJobDeliverable): {
+  kind: TalkJobDeliverable['kind'];
+  reportConfig: Record<string, unknown> | null;
+} {
+  if (deliverable.kind === 'thread') {
+    return { kind: 'thread', reportConfig: null };
+  }
   return {
-    weekday: weekdayMap[weekdayRaw.slice(0, 3)] || 'sun',
-    hour: Number.parseInt(get('hour'), 10),
-    minute: Number.parseInt(get('minute'), 10),
+    kind: 'report',
+    reportConfig: {
+      mode: deliverable.mode,
+      sectionTitle: deliverable.sectionTitle,
+      autoAccept: deliverable.autoAccept,
+    },
   };
 }
 
+const WEEKDAY_INDEX: Record<TalkJobWeekday, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  wed: 3,
+  thu: 4,
+  fri: 5,
+  sat: 6,
+};
+
+/**
+ * Next fire time strictly after `from` (default now), or null when the
+ * schedule has no further occurrences — a run-once job whose time has
+ * passed. Calendar kinds are evaluated on the local clock in
+ * `timezone`; hourly_interval is elapsed time and ignores it.
+ */
 export function computeNextTalkJobDueAt(input: {
   schedule: TalkJobSchedule;
   timezone: string;
   from?: string | Date;
-}): string {
+}): string | null {
   const fromDate =
     input.from instanceof Date
       ? input.from
       : input.from
         ? new Date(input.from)
         : new Date();
-  if (input.schedule.kind === 'hourly_interval') {
+  const schedule = input.schedule;
+  if (schedule.kind === 'hourly_interval') {
     return new Date(
-      fromDate.getTime() + input.schedule.everyHours * 60 * 60 * 1000,
+      fromDate.getTime() + schedule.everyHours * 60 * 60 * 1000,
     ).toISOString();
   }
-  const startMs = fromDate.getTime() + 60_000;
-  const weekdays = new Set(input.schedule.weekdays);
-  const endMs = startMs + 8 * 24 * 60 * 60 * 1000;
-  for (let ts = startMs; ts <= endMs; ts += 60_000) {
-    const parts = getLocalDateParts(new Date(ts), input.timezone);
-    if (
-      weekdays.has(parts.weekday) &&
-      parts.hour === input.schedule.hour &&
-      parts.minute === input.schedule.minute
-    ) {
-      return new Date(ts).toISOString();
-    }
+  if (schedule.kind === 'once') {
+    const [date, time] = schedule.at.split('T');
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    const fire = zonedTimeToUtc(
+      { year, month, day, hour, minute },
+      input.timezone,
+    );
+    return fire.getTime() > fromDate.getTime() ? fire.toISOString() : null;
+  }
+
+  let next: Date | null;
+  if (schedule.kind === 'weekly') {
+    const weekdays = new Set(
+      schedule.weekdays.map((weekday) => WEEKDAY_INDEX[weekday]),
+    );
+    next = findNextLocalFire({
+      from: fromDate,
+      timezone: input.timezone,
+      horizonDays: 8,
+      matchesDate: (date) => weekdays.has(weekdayOf(date)),
+      timesFor: () => [{ hour: schedule.hour, minute: schedule.minute }],
+    });
+  } else if (schedule.kind === 'monthly') {
+    next = findNextLocalFire({
+      from: fromDate,
+      timezone: input.timezone,
+      horizonDays: 63,
+      matchesDate: (date) =>
+        date.day ===
+        Math.min(schedule.dayOfMonth, daysInMonth(date.year, date.month)),
+      timesFor: () => [{ hour: schedule.hour, minute: schedule.minute }],
+    });
+  } else if (schedule.kind === 'business_day') {
+    next = findNextLocalFire({
+      from: fromDate,
+      timezone: input.timezone,
+      horizonDays: 63,
+      matchesDate: (date) =>
+        date.day ===
+        nthBusinessDayOfMonth(date.year, date.month, schedule.businessDay),
+      timesFor: () => [{ hour: schedule.hour, minute: schedule.minute }],
+    });
+  } else {
+    const cron = parseCronExpression(schedule.expression);
+    const times = cronTimes(cron);
+    next = findNextLocalFire({
+      from: fromDate,
+      timezone: input.timezone,
+      horizonDays: SCHEDULE_SEARCH_HORIZON_DAYS,
+      matchesDate: (date) => cronMatchesDate(cron, date),
+      timesFor: () => times,
+    });
+  }
+  if (!next) {
+    throw new Error('Could not compute next due time for schedule');
+  }
+  return next.toISOString();
+}
+
+/**
+ * The next `count` fire times after `from`, for the schedule editor's
+ * preview. Shorter than `count` only for run-once schedules.
+ */
+export function previewTalkJobFireTimes(input: {
+  schedule: TalkJobSchedule;
+  timezone: string;
+  from?: string | Date;
+  count: number;
+}): string[] {
+  const count = Math.min(
+    MAX_TALK_JOB_SCHEDULE_PREVIEW,
+    Math.max(1, Math.floor(input.count)),
+  );
+  const fireTimes: string[] = [];
+  let from: string | Date | undefined = input.from;
+  while (fireTimes.length < count) {
+    const next = computeNextTalkJobDueAt({
+      schedule: input.schedule,
+      timezone: input.timezone,
+      from,
+    });
+    if (!next) break;
+    fireTimes.push(next);
+    from = next;
+  }
+  return fireTimes;
+}
+
+/**
+ * Validate a raw schedule + timezone pair and preview it. Throws with a
+ * user-facing message on any invalid input.
+ */
+export function previewTalkJobSchedule(input: {
+  schedule: unknown;
+  timezone: string;
+  count: number;
+  from?: string | Date;
+}): { schedule: TalkJobSchedule; timezone: string; fireTimes: string[] } {
+  const schedule = normalizeTalkJobSchedule(input.schedule);
+  const timezone = validateTimezone(input.timezone);
+  return {
+    schedule,
+    timezone,
+    fireTimes: previewTalkJobFireTimes({
+      schedule,
+      timezone,
+      from: input.from,
+      count: input.count,
+    }),
+  };
+}
+
+function assertScheduleHasFutureRun(
+  schedule: TalkJobSchedule,
+  nextDueAt: string | null,
+): void {
+  if (schedule.kind === 'once' && nextDueAt === null) {
+    throw new Error('Run-once time must be in the future');
   }
-  throw new Error('Could not compute next due time for schedule');
 }
 
 // ---------------------------------------------------------------------------
@@ -335,6 +653,9 @@ function toTalkJob(row: TalkJobRow): TalkJob {
     schedule: normalizeTalkJobSchedule(row.schedule_json),
     timezone: row.timezone,
     sourceScope: normalizeTalkJobScope(row.source_scope_json),
+    deliverable: deliverableFromRow(row),
+    structuredOutput: row.structured_output_json,
+    toolIterationGrant: row.tool_iteration_grant,
     threadId: row.thread_id,
     lastRunAt: row.last_run_at,
     lastRunStatus: row.last_run_status,
@@ -358,6 +679,10 @@ const TALK_JOB_SELECT = `
   j.schedule_json,
   j.timezone,
   j.source_scope_json,
+  j.deliverable_kind,
+  j.report_config_json,
+  j.structured_output_json,
+  j.tool_iteration_grant,
   j.thread_id,
   j.last_run_at,
   j.last_run_status,
@@ -500,6 +825,9 @@ export async function createTalkJob(input: {
   schedule: TalkJobSchedule;
   timezone: string;
   sourceScope?: TalkJobScope;
+  deliverable?: TalkJobDeliverable;
+  structuredOutput?: unknown;
+  toolIterationGrant?: unknown;
   createdBy: string;
 }): Promise<TalkJob> {
   const title = normalizeTitle(input.title);
@@ -507,6 +835,15 @@ export async function createTalkJob(input: {
   const schedule = normalizeTalkJobSchedule(input.schedule);
   const timezone = validateTimezone(input.timezone);
   const sourceScope = normalizeTalkJobScope(input.sourceScope);
+  const deliverable = deliverableColumns(
+    normalizeTalkJobDeliverable(input.deliverable),
+  );
+  const structuredOutput = normalizeStructuredOutputConfig(
+    input.structuredOutput,
+  );
+  const toolIterationGrant = normalizeToolIterationGrant(
+    input.toolIterationGrant,
+  );
   await validateTalkJobConfiguration({
     talkId: input.talkId,
     targetAgentId: input.targetAgentId,
@@ -517,6 +854,7 @@ export async function createTalkJob(input: {
     timezone,
     from: now,
   });
+  assertScheduleHasFutureRun(schedule, nextDueAt);
   const thread = await createTalkThread({
     ownerId: input.ownerId,
     talkId: input.talkId,
@@ -529,14 +867,20 @@ export async function createTalkJob(input: {
     insert into public.talk_jobs (
       talk_id, owner_id, title, prompt, target_agent_id, status,
       schedule_json, timezone,
-      source_scope_json, thread_id, next_due_at, created_by,
+      source_scope_json, deliverable_kind, report_config_json,
+      structured_output_json, tool_iteration_grant,
+      thread_id, next_due_at, created_by,
       created_at, updated_at, run_count
     )
     values (
       ${input.talkId}::uuid, ${input.ownerId}::uuid, ${title}, ${prompt},
       ${input.targetAgentId}::uuid, 'active',
       ${db.json(schedule as never)}, ${timezone},
-      ${db.json(sourceScope as never)}, ${thread.id}::uuid,
+      ${db.json(sourceScope as never)}, ${deliverable.kind},
+      ${deliverable.reportConfig ? db.json(deliverable.reportConfig as never) : null},
+      ${structuredOutput ? db.json(structuredOutput as never) : null},
+      ${toolIterationGrant},
+      ${thread.id}::uuid,
       ${nextDueAt}::timestamptz, ${input.createdBy}::uuid,
       ${now}::timestamptz, ${now}::timestamptz, 0
     )
@@ -555,6 +899,11 @@ export async function patchTalkJob(input: {
   schedule?: TalkJobSchedule;
   timezone?: string;
   sourceScope?: TalkJobScope;
+  deliverable?: TalkJobDeliverable;
+  /** Undefined keeps the current value; null clears it. */
+  structuredOutput?: unknown;
+  /** Undefined keeps the current value; null clears it. */
+  toolIterationGrant?: unknown;
 }): Promise<TalkJob | undefined> {
   const current = await getTalkJob(input.talkId, input.jobId);
   if (!current) return undefined;
@@ -579,6 +928,19 @@ export async function patchTalkJob(input: {
     input.sourceScope !== undefined
       ? normalizeTalkJobScope(input.sourceScope)
       : current.sourceScope;
+  const deliverable = deliverableColumns(
+    input.deliverable !== undefined
+      ? normalizeTalkJobDeliverable(input.deliverable)
+      : current.deliverable,
+  );
+  const structuredOutput =
+    input.structuredOutput !== undefined
+      ? normalizeStructuredOutputConfig(input.structuredOutput)
+      : current.structuredOutput;
+  const toolIterationGrant =
+    input.toolIterationGrant !== undefined
+      ? normalizeToolIterationGrant(input.toolIterationGrant)
+      : current.toolIterationGrant;
 
   if (!targetAgentId) {
     throw new Error('Job target agent is required');
@@ -593,6 +955,12 @@ export async function patchTalkJob(input: {
     current.status === 'paused' || current.status === 'blocked'
       ? null
       : computeNextTalkJobDueAt({ schedule, timezone, from: now });
+  if (
+    current.status === 'active' &&
+    (input.schedule !== undefined || input.timezone !== undefined)
+  ) {
+    assertScheduleHasFutureRun(schedule, nextDueAt);
+  }
 
   const db = getDbPg();
   await db`
@@ -609,6 +977,16 @@ export async function patchTalkJob(input: {
         schedule_json = ${db.json(schedule as never)},
         timezone = ${timezone},
         source_scope_json = ${db.json(sourceScope as never)},
+        deliverable_kind = ${deliverable.kind},
+        report_config_json = ${
+          deliverable.reportConfig
+            ? db.json(deliverable.reportConfig as never)
+            : null
+        },
+        structured_output_json = ${
+          structuredOutput ? db.json(structuredOutput as never) : null
+        },
+        tool_iteration_grant = ${toolIterationGrant},
         next_due_at = ${nextDueAt}::timestamptz,
         updated_at = ${now}::timestamptz
     where talk_id = ${input.talkId}::uuid and id = ${input.jobId}::uuid
@@ -679,6 +1057,9 @@ export async function resumeTalkJob(
     schedule: current.schedule,
     timezone: current.timezone,
   });
+  // A run-once job whose time passed while paused would come back
+  // active with nothing to fire; make the caller reschedule it instead.
+  assertScheduleHasFutureRun(current.schedule, nextDueAt);
   return await updateTalkJobStatus(talkId, jobId, 'active', nextDueAt);
 }
 
@@ -743,6 +1124,29 @@ interface TalkRunSummaryRow {
   executor_alias: string | null;
   executor_model: string | null;
   response_content: string | null;
+  report_content_id: string | null;
+  report_edit_ids: string[] | null;
+  report_mode: TalkJobReportMode | null;
+  report_section_title: string | null;
+  report_status: 'pending' | 'accepted' | 'failed' | null;
+  report_error_message: string | null;
+  report_edits_pending: boolean;
+}
+
+function toRunReport(row: TalkRunSummaryRow): TalkJobRunReport | null {
+  if (!row.report_status || !row.report_mode) return null;
+  return {
+    contentId: row.report_content_id,
+    editSetId: row.id,
+    editIds: row.report_edit_ids ?? [],
+    mode: row.report_mode,
+    sectionTitle: row.report_section_title ?? '',
+    status:
+      row.report_status === 'pending' && !row.report_edits_pending
+        ? 'resolved'
+        : row.report_status,
+    errorMessage: row.report_error_message,
+  };
 }
 
 export async function listTalkJobRunSummaries(
@@ -762,8 +1166,19 @@ export async function listTalkJobRunSummaries(
         where tm.run_id = r.id and tm.role = 'assistant'
         order by tm.created_at desc
         limit 1
-      ) as response_content
+      ) as response_content,
+      rr.content_id as report_content_id,
+      rr.edit_ids as report_edit_ids,
+      rr.mode as report_mode,
+      rr.section_title as report_section_title,
+      rr.status as report_status,
+      rr.error_message as report_error_message,
+      exists (
+        select 1 from public.content_edits ce
+        where ce.content_id = rr.content_id and ce.run_id = r.id::text
+      ) as report_edits_pending
     from public.talk_runs r
+    left join public.talk_job_run_reports rr on rr.run_id = r.id
     where r.talk_id = ${talkId}::uuid and r.job_id = ${jobId}::uuid
     order by r.created_at desc, r.id desc
     limit ${normalizedLimit}
@@ -787,6 +1202,7 @@ export async function listTalkJobRunSummaries(
       cancelReason: row.cancel_reason,
       executorAlias: row.executor_alias,
       executorModel: row.executor_model,
+      report: toRunReport(row),
     };
   });
 }
@@ -879,6 +1295,45 @@ export async function markTalkJobRunFinished(input: {
   `;
 }
 
+/**
+ * Record the Content edit set a report job run produced (or why it
+ * produced none). One row per run; a queue redelivery that reaches the
+ * report step again overwrites the earlier attempt.
+ */
+export async function recordTalkJobRunReport(input: {
+  runId: string;
+  jobId: string;
+  talkId: string;
+  ownerId: string;
+  contentId: string | null;
+  mode: TalkJobReportMode;
+  sectionTitle: string;
+  editIds: string[];
+  status: 'pending' | 'accepted' | 'failed';
+  errorMessage?: string | null;
+}): Promise<void> {
+  const db = getDbPg();
+  await db`
+    insert into public.talk_job_run_reports (
+      run_id, job_id, talk_id, owner_id, content_id, mode,
+      section_title, edit_ids, status, error_message
+    )
+    values (
+      ${input.runId}::uuid, ${input.jobId}::uuid, ${input.talkId}::uuid,
+      ${input.ownerId}::uuid, ${input.contentId}::uuid, ${input.mode},
+      ${input.sectionTitle}, ${input.editIds}::uuid[], ${input.status},
+      ${input.errorMessage ?? null}
+    )
+    on conflict (run_id) do update
+    set content_id = excluded.content_id,
+        mode = excluded.mode,
+        section_title = excluded.section_title,
+        edit_ids = excluded.edit_ids,
+        status = excluded.status,
+        error_message = excluded.error_message
+  `;
+}
+
 // ---------------------------------------------------------------------------
 // createJobTriggerRun — enqueue a single run from the scheduler or a
 // manual trigger. Returns a discriminated union so callers can branch on
@@ -903,7 +1358,9 @@ export type CreateJobTriggerRunResult =
 export async function createJobTriggerRun(input: {
   ownerId: string;
   jobId: string;
-  triggerSource: 'scheduler' | 'manual';
+  // 'source_change': a watched context source changed
+  // (talks/source-refresh.ts).
+  triggerSource: 'scheduler' | 'manual' | 'source_change';
   allowPaused?: boolean;
   now?: string;
 }): Promise<CreateJobTriggerRunResult> {
@@ -973,7 +1430,7 @@ export async function createJobTriggerRun(input: {
     select count(*)::int as count
     from public.talk_runs
     where job_id = ${job.id}::uuid
-      and status in ('queued', 'running', 'awaiting_confirmation')
+      and status in ('queued', 'running', 'awaiting_confirmation', 'paused')
   `;
   if ((active[0]?.count ?? 0) > 0) {
     return { status: 'job_busy', job };
@@ -987,7 +1444,7 @@ export async function createJobTriggerRun(input: {
     from public.talk_runs
     where talk_id = ${job.talkId}::uuid
       and thread_id = ${job.threadId}::uuid
-      and status in ('queued', 'running', 'awaiting_confirmation')
+      and status in ('queued', 'running', 'awaiting_confirmation', 'paused')
   `;
   if ((threadActive[0]?.count ?? 0) > 0) {
     return { status: 'thread_busy', job };
@@ -1047,6 +1504,20 @@ export async function createJobTriggerRun(input: {
     targetAgentId: job.targetAgentId,
     activeToolFamiliesSnapshot,
     credentialKindSnapshot,
+    // Copied rather than read live so an edit mid-run can't change the
+    // schema the reply is validated against, or the iterations a paused
+    // run is granted.
+    metadata:
+      job.structuredOutput || job.toolIterationGrant
+        ? {
+            ...(job.structuredOutput
+              ? { structuredOutput: job.structuredOutput }
+              : {}),
+            ...(job.toolIterationGrant
+              ? { toolIterationGrant: job.toolIterationGrant }
+              : {}),
+          }
+        : null,
   });
 
   await touchTalkUpdatedAtForJob(job.talkId, currentNow);
@@ -0,0 +1,81 @@
+// Run continuation accessors (migration 0054).
+//
+// A run that uses every tool-loop iteration is parked as 'paused' with
+// its in-flight transcript on talk_runs.continuation_json. Granting more
+// iterations puts it back to 'queued' for a fresh queue message; the
+// consumer hands the continuation to the executor, which resumes the
+// tool loop from it. Terminal transitions clear the column (see
+// completeRunAndPromoteNextAtomic / failRunAndPromoteNextAtomic /
+// cancelTalkRunsAtomic).
+
+import { getDbPg } from '../../db.js';
+import type { TalkRunContinuation } from '../talks/executor.js';
+
+/** Iterations a continue grants when the caller doesn't say. */
+export const DEFAULT_TOOL_ITERATION_GRANT = 10;
+/** Matches the talk_jobs.tool_iteration_grant check. */
+export const MAX_TOOL_ITERATION_GRANT = 50;
+
+export function isToolIterationGrant(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= MAX_TOOL_ITERATION_GRANT
+  );
+}
+
+export async function getTalkRunContinuation(
+  runId: string,
+): Promise<TalkRunContinuation | null> {
+  const db = getDbPg();
+  const rows = await db<{ continuation_json: TalkRunContinuation | null }[]>`
+    select continuation_json
+    from public.talk_runs
+    where id = ${runId}::uuid
+    limit 1
+  `;
+  return rows[0]?.continuation_json ?? null;
+}
+
+/**
+ * Park a running run at the tool-iteration limit. Guarded on 'running'
+ * so a cancel that landed first is never overwritten.
+ */
+export async function pauseTalkRunAtToolLimit(input: {
+  runId: string;
+  continuation: TalkRunContinuation;
+}): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    update public.talk_runs
+    set status = 'paused',
+        continuation_json = ${db.json(input.continuation as never)}
+    where id = ${input.runId}::uuid and status = 'running'
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Grant a paused run more iterations and queue it again. The caller
+ * dispatches the run once its transaction commits. `auto` marks the
+ * grant as the job policy's, which a run gets only once. Goes through
+ * grant_talk_run_iterations() (0067): it touches only the grant keys of
+ * the continuation, which editors can't update directly.
+ */
+export async function grantTalkRunIterations(input: {
+  runId: string;
+  iterations: number;
+  auto?: boolean;
+}): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ granted: boolean }[]>`
+    select public.grant_talk_run_iterations(
+      ${input.runId}::uuid,
+      ${input.iterations}::int,
+      ${input.auto ?? false}::boolean
+    ) as granted
+  `;
+  return rows[0]?.granted === true;
+}
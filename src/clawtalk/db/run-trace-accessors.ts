@@ -0,0 +1,50 @@
+// Run trace accessors (migration 0055).
+//
+// The executor writes a leg's steps through getOutOfBandSql() so they
+// survive a run whose own transaction rolls back for a queue retry —
+// the runs most worth debugging. The trace route reads them under the
+// caller's RLS context via getDbPg().
+
+import { getDbPg, getOutOfBandSql } from '../../db.js';
+import type { RunTraceStep, RunTraceStepKind } from '../talks/run-trace.js';
+
+export interface TalkRunTraceStepRecord {
+  id: string;
+  run_id: string;
+  kind: RunTraceStepKind;
+  started_at: string;
+  duration_ms: number | null;
+  data_json: Record<string, unknown>;
+}
+
+export async function appendTalkRunTraceSteps(input: {
+  runId: string;
+  talkId: string;
+  ownerId: string;
+  steps: RunTraceStep[];
+}): Promise<void> {
+  const db = getOutOfBandSql();
+  for (const step of input.steps) {
+    await db`
+      insert into public.talk_run_trace_steps
+        (run_id, talk_id, owner_id, kind, started_at, duration_ms, data_json)
+      values
+        (${input.runId}::uuid, ${input.talkId}::uuid, ${input.ownerId}::uuid,
+         ${step.kind}, ${step.startedAt}::timestamptz, ${step.durationMs},
+         ${db.json(step.data as never)})
+    `;
+  }
+}
+
+/** Steps in timeline order; ties keep insertion order. */
+export async function listTalkRunTraceSteps(
+  runId: string,
+): Promise<TalkRunTraceStepRecord[]> {
+  const db = getDbPg();
+  return await db<TalkRunTraceStepRecord[]>`
+    select id::text as id, run_id, kind, started_at, duration_ms, data_json
+    from public.talk_run_trace_steps
+    where run_id = ${runId}::uuid
+    order by started_at asc, id asc
+  `;
+}
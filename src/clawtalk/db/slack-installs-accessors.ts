@@ -1,15 +1,15 @@
 // Workspace Slack install accessors.
 //
-// One row per installed Slack workspace. The bot token is encrypted via
-// the same `encryptProviderSecret` pipeline as the rest of the connector
-// credentials — the plaintext is only ever materialized inside
-// `decryptWorkspaceSlackInstallToken`, which is called by privileged paths
-// (the Slack API client for channel listing, future executor outbound posts).
+// One row per installed Slack workspace, owned by one ClawTalk workspace
+// (0065). The bot token is encrypted via the same `encryptProviderSecret`
+// pipeline as the rest of the connector credentials — the plaintext is
+// only ever materialized inside `decryptWorkspaceSlackInstallToken` (the
+// channel picker) and `decryptChannelSlackInstallToken` (delivery and the
+// Slack tools).
 //
-// Read = SELECT for any authenticated user (members need to see the
-// installed-workspace dropdown when creating channels).
-// Write = admins only — enforced at the route layer via `isAdminLike(auth.role)`,
-// with the underlying RLS policy in 0023 as belt + suspenders.
+// Read = the owning workspace's owners, admins and members (members need
+// to see the installed-workspace dropdown when creating channels).
+// Write = the owning workspace's admins (0065 RLS).
 //
 // The Slack OAuth callback runs outside `withUserContext` (no auth.uid()
 // from Slack's browser redirect), so `upsertWorkspaceSlackInstall` is
@@ -23,6 +23,7 @@ import {
 
 export interface WorkspaceSlackInstallRecord {
   team_id: string;
+  workspace_id: string;
   team_name: string;
   bot_user_id: string | null;
   app_id: string | null;
@@ -36,6 +37,7 @@ export interface WorkspaceSlackInstallRecord {
 
 interface SlackInstallRow {
   team_id: string;
+  workspace_id: string;
   team_name: string;
   bot_user_id: string | null;
   app_id: string | null;
@@ -50,6 +52,7 @@ interface SlackInstallRow {
 function toRecord(row: SlackInstallRow): WorkspaceSlackInstallRecord {
   return {
     team_id: row.team_id,
+    workspace_id: row.workspace_id,
     team_name: row.team_name,
     bot_user_id: row.bot_user_id,
     app_id: row.app_id,
@@ -67,11 +70,13 @@ export async function listWorkspaceSlackInstalls(): Promise<
 > {
   const db = getDbPg();
   const rows = await db<SlackInstallRow[]>`
-    select i.team_id, i.team_name, i.bot_user_id, i.app_id, i.scopes,
+    select i.team_id, i.workspace_id, i.team_name, i.bot_user_id, i.app_id,
+           i.scopes,
            i.enc_key_version, i.installed_by, i.installed_at, i.updated_at,
            public.workspace_slack_install_bound_channel_count(i.team_id)
              as bound_channel_count
     from public.workspace_slack_installs i
+    where i.workspace_id = public.current_workspace_id()
     order by i.team_name asc, i.team_id asc
   `;
   return rows.map(toRecord);
@@ -82,7 +87,8 @@ export async function getWorkspaceSlackInstall(
 ): Promise<WorkspaceSlackInstallRecord | null> {
   const db = getDbPg();
   const rows = await db<SlackInstallRow[]>`
-    select i.team_id, i.team_name, i.bot_user_id, i.app_id, i.scopes,
+    select i.team_id, i.workspace_id, i.team_name, i.bot_user_id, i.app_id,
+           i.scopes,
            i.enc_key_version, i.installed_by, i.installed_at, i.updated_at,
            public.workspace_slack_install_bound_channel_count(i.team_id)
              as bound_channel_count
@@ -101,11 +107,16 @@ export interface UpsertWorkspaceSlackInstallInput {
   botToken: string;
   scopes: string[];
   installedBy: string | null;
+  workspaceId: string;
 }
 
+/**
+ * Insert or refresh an install. Returns null when the team is already
+ * installed in a different workspace; that row is left alone.
+ */
 export async function upsertWorkspaceSlackInstall(
   input: UpsertWorkspaceSlackInstallInput,
-): Promise<WorkspaceSlackInstallRecord> {
+): Promise<WorkspaceSlackInstallRecord | null> {
   if (!input.teamId) {
     throw new Error('teamId is required');
   }
@@ -117,12 +128,12 @@ export async function upsertWorkspaceSlackInstall(
   const rows = await db<SlackInstallRow[]>`
     with upserted as (
       insert into public.workspace_slack_installs
-        (team_id, team_name, bot_user_id, app_id, ciphertext,
+        (team_id, workspace_id, team_name, bot_user_id, app_id, ciphertext,
          scopes, installed_by, updated_at)
       values
-        (${input.teamId}, ${input.teamName}, ${input.botUserId},
-         ${input.appId}, ${ciphertext}, ${input.scopes as never},
-         ${input.installedBy}::uuid, now())
+        (${input.teamId}, ${input.workspaceId}::uuid, ${input.teamName},
+         ${input.botUserId}, ${input.appId}, ${ciphertext},
+         ${input.scopes as never}, ${input.installedBy}::uuid, now())
       on conflict (team_id) do update set
         team_name = excluded.team_name,
         bot_user_id = excluded.bot_user_id,
@@ -131,6 +142,7 @@ export async function upsertWorkspaceSlackInstall(
         scopes = excluded.scopes,
         installed_by = excluded.installed_by,
         updated_at = now()
+      where workspace_slack_installs.workspace_id = excluded.workspace_id
       returning *
     )
     select u.*,
@@ -138,10 +150,7 @@ export async function upsertWorkspaceSlackInstall(
              as bound_channel_count
     from upserted u
   `;
-  if (!rows[0]) {
-    throw new Error('upsertWorkspaceSlackInstall returned no row');
-  }
-  return toRecord(rows[0]);
+  return rows[0] ? toRecord(rows[0]) : null;
 }
 
 export async function deleteWorkspaceSlackInstall(
@@ -151,11 +160,13 @@ export async function deleteWorkspaceSlackInstall(
   const rows = await db<Array<{ team_id: string }>>`
     delete from public.workspace_slack_installs
     where team_id = ${teamId}
+      and workspace_id = public.current_workspace_id()
     returning team_id
   `;
   return rows.length > 0;
 }
 
+/** Bot token of a team installed in the caller's current workspace. */
 export async function decryptWorkspaceSlackInstallToken(
   teamId: string,
 ): Promise<string | null> {
@@ -163,9 +174,37 @@ export async function decryptWorkspaceSlackInstallToken(
   const rows = await db<Array<{ ciphertext: string }>>`
     select ciphertext from public.workspace_slack_installs
     where team_id = ${teamId}
+      and workspace_id = public.current_workspace_id()
     limit 1
   `;
-  const ciphertext = rows[0]?.ciphertext;
+  return decryptInstallCiphertext(rows[0]?.ciphertext);
+}
+
+/**
+ * Bot token for a Slack channel row: the install of the channel's team
+ * in the channel's own workspace. A channel bound to a team another
+ * workspace installed gets null.
+ */
+export async function decryptChannelSlackInstallToken(
+  channelId: string,
+): Promise<string | null> {
+  const db = getDbPg();
+  const rows = await db<Array<{ ciphertext: string }>>`
+    select i.ciphertext
+    from public.workspace_channels c
+    join public.workspace_slack_installs i
+      on i.team_id = c.config_json ->> 'workspace_id'
+     and i.workspace_id = c.workspace_id
+    where c.id = ${channelId}::uuid
+      and c.kind = 'slack'
+    limit 1
+  `;
+  return decryptInstallCiphertext(rows[0]?.ciphertext);
+}
+
+async function decryptInstallCiphertext(
+  ciphertext: string | undefined,
+): Promise<string | null> {
   if (!ciphertext) return null;
   const decoded = await decryptProviderSecret(ciphertext);
   return decoded.apiKey;
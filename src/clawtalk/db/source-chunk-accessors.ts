@@ -0,0 +1,125 @@
+// Source chunk index accessors (migration 0043).
+//
+// Chunks are replaced wholesale per source — never patched — so a
+// source's rows always come from one extraction and one embedding model.
+// Staleness is decided by the caller (talks/source-retrieval.ts) from
+// `listSourceChunkIndexState`.
+
+import { getDbPg } from '../../db.js';
+
+export interface SourceChunkRecord {
+  id: string;
+  source_id: string;
+  chunk_index: number;
+  page_index: number | null;
+  char_start: number;
+  char_end: number;
+  content: string;
+  embedding: number[];
+}
+
+export interface SourceChunkIndexState {
+  sourceId: string;
+  chunkCount: number;
+  embeddingProvider: string;
+  embeddingModel: string;
+  sourceExtractedAt: string | null;
+}
+
+export async function listSourceChunkIndexState(
+  talkId: string,
+): Promise<SourceChunkIndexState[]> {
+  const db = getDbPg();
+  const rows = await db<
+    Array<{
+      source_id: string;
+      chunk_count: number;
+      embedding_provider: string;
+      embedding_model: string;
+      source_extracted_at: string | null;
+    }>
+  >`
+    select source_id,
+           count(*)::int as chunk_count,
+           min(embedding_provider) as embedding_provider,
+           min(embedding_model) as embedding_model,
+           min(source_extracted_at) as source_extracted_at
+    from public.talk_context_source_chunks
+    where talk_id = ${talkId}::uuid
+    group by source_id
+  `;
+  return rows.map((row) => ({
+    sourceId: row.source_id,
+    chunkCount: row.chunk_count,
+    embeddingProvider: row.embedding_provider,
+    embeddingModel: row.embedding_model,
+    sourceExtractedAt: row.source_extracted_at
+      ? new Date(row.source_extracted_at).toISOString()
+      : null,
+  }));
+}
+
+export async function replaceSourceChunks(input: {
+  sourceId: string;
+  talkId: string;
+  ownerId: string;
+  sourceExtractedAt: string | null;
+  embeddingProvider: string;
+  embeddingModel: string;
+  chunks: Array<{
+    chunkIndex: number;
+    pageIndex: number | null;
+    charStart: number;
+    charEnd: number;
+    content: string;
+    embedding: number[];
+  }>;
+}): Promise<void> {
+  const db = getDbPg();
+  await db`
+    delete from public.talk_context_source_chunks
+    where source_id = ${input.sourceId}::uuid
+  `;
+  for (const chunk of input.chunks) {
+    await db`
+      insert into public.talk_context_source_chunks
+        (source_id, talk_id, owner_id, chunk_index, page_index, char_start,
+         char_end, content, embedding_provider, embedding_model, embedding,
+         source_extracted_at)
+      values
+        (${input.sourceId}::uuid, ${input.talkId}::uuid, ${input.ownerId}::uuid,
+         ${chunk.chunkIndex}, ${chunk.pageIndex}, ${chunk.charStart},
+         ${chunk.charEnd}, ${chunk.content}, ${input.embeddingProvider},
+         ${input.embeddingModel}, ${chunk.embedding}::real[],
+         ${input.sourceExtractedAt}::timestamptz)
+    `;
+  }
+}
+
+export async function deleteSourceChunks(sourceId: string): Promise<void> {
+  const db = getDbPg();
+  await db`
+    delete from public.talk_context_source_chunks
+    where source_id = ${sourceId}::uuid
+  `;
+}
+
+/**
+ * Every chunk of the talk embedded by the given model. Chunks from any
+ * other model are excluded: their vectors live in a different space.
+ */
+export async function listTalkSourceChunks(input: {
+  talkId: string;
+  embeddingProvider: string;
+  embeddingModel: string;
+}): Promise<SourceChunkRecord[]> {
+  const db = getDbPg();
+  return await db<SourceChunkRecord[]>`
+    select id, source_id, chunk_index, page_index, char_start, char_end,
+           content, embedding
+    from public.talk_context_source_chunks
+    where talk_id = ${input.talkId}::uuid
+      and embedding_provider = ${input.embeddingProvider}
+      and embedding_model = ${input.embeddingModel}
+  `;
+}
@@ -0,0 +1,214 @@
+// Debate round accessors (migration 0042).
+//
+// A round's status is derived from its runs, never written directly by
+// callers: every run state change that can move a round (claim,
+// completion, failure, cancellation) calls `syncTalkRoundStatus`, which
+// recomputes the status under a row lock and emits the matching
+// talk_round_* outbox event on a transition. Rows are written inside
+// `withUserContext(ownerId)` (owner RLS), except for the claim-time sync
+// in markRunRunning, which runs on the pool role like the claim itself.
+
+import { getDbPg } from '../../db.js';
+import { emitOutboxEvent } from '../talks/outbox-emit.js';
+import { deriveTalkRoundStatus } from '../talks/talk-rounds.js';
+
+export type TalkRoundStatus =
+  'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface TalkRoundRecord {
+  id: string;
+  talk_id: string;
+  owner_id: string;
+  thread_id: string;
+  trigger_message_id: string | null;
+  response_group_id: string;
+  round_number: number;
+  rounds_limit: number;
+  orchestration_mode: 'ordered' | 'panel';
+  synthesizer_agent_id: string | null;
+  synthesizer_run_id: string | null;
+  status: TalkRoundStatus;
+  created_at: string;
+  started_at: string | null;
+  ended_at: string | null;
+}
+
+const TALK_ROUND_COLUMNS = `id, talk_id, owner_id, thread_id,
+  trigger_message_id, response_group_id, round_number, rounds_limit,
+  orchestration_mode, synthesizer_agent_id, synthesizer_run_id, status,
+  created_at, started_at, ended_at`;
+
+export function isTerminalTalkRoundStatus(status: TalkRoundStatus): boolean {
+  return (
+    status === 'completed' || status === 'cancelled' || status === 'failed'
+  );
+}
+
+export async function createTalkRound(input: {
+  talkId: string;
+  ownerId: string;
+  threadId: string;
+  triggerMessageId: string | null;
+  responseGroupId: string;
+  roundNumber: number;
+  roundsLimit: number;
+  orchestrationMode: 'ordered' | 'panel';
+  synthesizerAgentId: string | null;
+}): Promise<TalkRoundRecord> {
+  const db = getDbPg();
+  const rows = await db<TalkRoundRecord[]>`
+    insert into public.talk_rounds
+      (talk_id, owner_id, thread_id, trigger_message_id, response_group_id,
+       round_number, rounds_limit, orchestration_mode, synthesizer_agent_id)
+    values
+      (${input.talkId}::uuid, ${input.ownerId}::uuid, ${input.threadId}::uuid,
+       ${input.triggerMessageId}::uuid, ${input.responseGroupId},
+       ${input.roundNumber}, ${input.roundsLimit}, ${input.orchestrationMode},
+       ${input.synthesizerAgentId}::uuid)
+    returning ${db.unsafe(TALK_ROUND_COLUMNS)}
+  `;
+  return rows[0];
+}
+
+export async function setTalkRoundSynthesizerRun(
+  roundId: string,
+  runId: string,
+): Promise<void> {
+  const db = getDbPg();
+  await db`
+    update public.talk_rounds
+    set synthesizer_run_id = ${runId}::uuid
+    where id = ${roundId}::uuid
+  `;
+}
+
+export async function getTalkRoundById(
+  roundId: string,
+): Promise<TalkRoundRecord | null> {
+  const db = getDbPg();
+  const rows = await db<TalkRoundRecord[]>`
+    select ${db.unsafe(TALK_ROUND_COLUMNS)}
+    from public.talk_rounds
+    where id = ${roundId}::uuid
+    limit 1
+  `;
+  return rows[0] ?? null;
+}
+
+/**
+ * Rounds of a talk (optionally one thread), newest debate first and
+ * rounds in order within a debate.
+ */
+export async function listTalkRounds(input: {
+  talkId: string;
+  threadId?: string | null;
+  limit?: number;
+}): Promise<TalkRoundRecord[]> {
+  const db = getDbPg();
+  const limit = Math.min(200, Math.max(1, Math.floor(input.limit ?? 50)));
+  return await db<TalkRoundRecord[]>`
+    select ${db.unsafe(TALK_ROUND_COLUMNS)}
+    from public.talk_rounds
+    where talk_id = ${input.talkId}::uuid
+      and (${input.threadId ?? null}::uuid is null
+           or thread_id = ${input.threadId ?? null}::uuid)
+    order by created_at desc, round_number asc
+    limit ${limit}
+  `;
+}
+
+/**
+ * Recompute a round's status from its runs and persist it. Emits
+ * talk_round_started on queued → running and talk_round_<status> when
+ * the round settles. A round with no runs left (all deleted) is left
+ * alone. Returns the round as stored after the sync.
+ */
+export async function syncTalkRoundStatus(
+  roundId: string,
+): Promise<TalkRoundRecord | null> {
+  const db = getDbPg();
+  // The row lock serializes concurrent syncs from parallel panel runs, so
+  // exactly one of them observes (and announces) each transition.
+  const rounds = await db<TalkRoundRecord[]>`
+    select ${db.unsafe(TALK_ROUND_COLUMNS)}
+    from public.talk_rounds
+    where id = ${roundId}::uuid
+    for update
+  `;
+  const round = rounds[0];
+  if (!round) return null;
+  if (isTerminalTalkRoundStatus(round.status)) return round;
+
+  const runs = await db<Array<{ id: string; status: string }>>`
+    select id, status
+    from public.talk_runs
+    where round_id = ${roundId}::uuid
+  `;
+  if (runs.length === 0) return round;
+
+  const next = deriveTalkRoundStatus({
+    runStatuses: runs.map((run) => run.status),
+    synthesizerRunStatus:
+      runs.find((run) => run.id === round.synthesizer_run_id)?.status ?? null,
+  });
+  if (next === round.status) return round;
+
+  const updated = await db<TalkRoundRecord[]>`
+    update public.talk_rounds
+    set status = ${next},
+        started_at = case when ${next === 'running'}::boolean
+          then coalesce(started_at, now()) else started_at end,
+        ended_at = case when ${isTerminalTalkRoundStatus(next)}::boolean
+          then now() else null end
+    where id = ${roundId}::uuid
+    returning ${db.unsafe(TALK_ROUND_COLUMNS)}
+  `;
+  const stored = updated[0] ?? round;
+
+  // A round cancelled before any run started goes straight from queued
+  // to terminal; it only gets the terminal event.
+  await emitOutboxEvent({
+    topic: `talk:${stored.talk_id}`,
+    eventType: next === 'running' ? 'talk_round_started' : `talk_round_${next}`,
+    payload: toTalkRoundEventPayload(stored),
+    ownerIds: [stored.owner_id],
+  });
+  return stored;
+}
+
+/**
+ * Sync every round touched by the given runs. Used after bulk run state
+ * changes (cancellation) where the caller holds run ids, not round ids.
+ */
+export async function syncTalkRoundsForRuns(runIds: string[]): Promise<void> {
+  if (runIds.length === 0) return;
+  const db = getDbPg();
+  const rows = await db<Array<{ round_id: string }>>`
+    select distinct round_id
+    from public.talk_runs
+    where id = any(${runIds}::uuid[])
+      and round_id is not null
+  `;
+  for (const row of rows) {
+    await syncTalkRoundStatus(row.round_id);
+  }
+}
+
+export function toTalkRoundEventPayload(
+  round: TalkRoundRecord,
+): Record<string, unknown> {
+  return {
+    talkId: round.talk_id,
+    threadId: round.thread_id,
+    roundId: round.id,
+    responseGroupId: round.response_group_id,
+    roundNumber: round.round_number,
+    roundsLimit: round.rounds_limit,
+    orchestrationMode: round.orchestration_mode,
+    synthesizerAgentId: round.synthesizer_agent_id,
+    synthesizerRunId: round.synthesizer_run_id,
+    status: round.status,
+    startedAt: round.started_at,
+    endedAt: round.ended_at,
+  };
+}
@@ -0,0 +1,114 @@
+// Talk sharing accessors (migration 0047).
+//
+// Member rows themselves go through upsertTalkMember / deleteTalkMember
+// in accessors.ts. This module covers what the sharing panel and the
+// event fan-out need on top: the member directory (names and emails
+// live on users, which RLS keeps self-only), sharing by email, pending
+// invites, and the member id list for UserEventHub notifies.
+
+import { getDbPg, getOutOfBandSql } from '../../db.js';
+import type { TalkAccessLevel, TalkAccessRole } from './accessors.js';
+
+export interface TalkMemberDirectoryRecord {
+  user_id: string;
+  email: string;
+  display_name: string;
+  role: TalkAccessLevel;
+  created_at: string;
+}
+
+export interface TalkInviteRecord {
+  id: string;
+  talk_id: string;
+  email: string;
+  role: TalkAccessRole;
+  invited_by: string;
+  created_at: string;
+  expires_at: string;
+  accepted_by: string | null;
+  accepted_at: string | null;
+}
+
+const TALK_INVITE_COLUMNS = `id, talk_id, email, role, invited_by,
+  created_at, expires_at, accepted_by, accepted_at`;
+
+/** The owner first, then members in the order they joined. */
+export async function listTalkMemberDirectory(
+  talkId: string,
+): Promise<TalkMemberDirectoryRecord[]> {
+  const db = getDbPg();
+  return db<TalkMemberDirectoryRecord[]>`
+    select user_id, email, display_name, role, created_at
+    from public.talk_member_directory(${talkId}::uuid)
+  `;
+}
+
+export async function listPendingTalkInvites(
+  talkId: string,
+): Promise<TalkInviteRecord[]> {
+  const db = getDbPg();
+  return db<TalkInviteRecord[]>`
+    select ${db.unsafe(TALK_INVITE_COLUMNS)}
+    from public.talk_invites
+    where talk_id = ${talkId}::uuid
+      and accepted_at is null
+      and expires_at > now()
+    order by created_at asc
+  `;
+}
+
+/**
+ * Share a Talk with an address (migration 0069): 'invited' for any
+ * address that isn't a member yet, account or not, which creates the
+ * pending invite or refreshes the role and expiry of the open one;
+ * 'member' when it belongs to a current member, who gets the new role;
+ * 'self' for the caller's own address. Owner only. Never reveals
+ * whether an account exists.
+ */
+export async function shareTalkByEmail(input: {
+  talkId: string;
+  email: string;
+  role: TalkAccessRole;
+  inviteExpiresAt: Date;
+}): Promise<'member' | 'invited' | 'self'> {
+  const db = getDbPg();
+  const rows = await db<{ result: 'member' | 'invited' | 'self' }[]>`
+    select public.share_talk_by_email(
+      ${input.talkId}::uuid,
+      ${input.email},
+      ${input.role},
+      ${input.inviteExpiresAt.toISOString()}::timestamptz
+    ) as result
+  `;
+  return rows[0].result;
+}
+
+export async function deleteTalkInvite(input: {
+  talkId: string;
+  inviteId: string;
+}): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    delete from public.talk_invites
+    where id = ${input.inviteId}::uuid
+      and talk_id = ${input.talkId}::uuid
+      and accepted_at is null
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Member user ids for the event fan-out. Reads out-of-band so a lookup
+ * never joins (or aborts) the emitting transaction, and so it sees
+ * every member regardless of whose context the emit runs under.
+ */
+export async function listTalkMemberUserIds(talkId: string): Promise<string[]> {
+  const db = getOutOfBandSql();
+  const rows = await db<{ user_id: string }[]>`
+    select user_id
+    from public.talk_members
+    where talk_id = ${talkId}::uuid
+  `;
+  return rows.map((row) => row.user_id);
+}
@@ -105,7 +105,7 @@ export async function loadTalkSnapshot(input: {
       select ${db.unsafe(TALK_RUN_COLUMNS)}
       from public.talk_runs
       where talk_id = ${input.talkId}::uuid
-        and status in ('queued', 'running', 'awaiting_confirmation')
+        and status in ('queued', 'running', 'awaiting_confirmation', 'paused')
       order by created_at desc
     `;
 
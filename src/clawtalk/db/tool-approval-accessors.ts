@@ -0,0 +1,163 @@
+// Tool approval accessors (migration 0046).
+//
+// The executor side (create / poll / expire / run-status flip) writes
+// through getOutOfBandSql(): the queue consumer holds one transaction
+// open for the whole run, so a row inserted on it would be invisible to
+// the approval route until the run ended — which it never would. The
+// route side (list / get / decide) runs under the caller's RLS context
+// via getDbPg().
+
+import { getDbPg, getOutOfBandSql } from '../../db.js';
+
+export type TalkToolApprovalStatus =
+  'pending' | 'approved' | 'denied' | 'expired';
+
+export interface TalkToolApprovalRecord {
+  id: string;
+  run_id: string;
+  talk_id: string;
+  thread_id: string;
+  owner_id: string;
+  agent_id: string | null;
+  tool_name: string;
+  arguments_json: Record<string, unknown>;
+  action_summary: string;
+  status: TalkToolApprovalStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+const TALK_TOOL_APPROVAL_COLUMNS = `id, run_id, talk_id, thread_id, owner_id,
+  agent_id, tool_name, arguments_json, action_summary, status, decided_by,
+  decided_at, expires_at, created_at`;
+
+export async function createTalkToolApproval(input: {
+  id: string;
+  runId: string;
+  talkId: string;
+  threadId: string;
+  ownerId: string;
+  agentId: string | null;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  actionSummary: string;
+  expiresAt: Date;
+}): Promise<TalkToolApprovalRecord> {
+  const db = getOutOfBandSql();
+  const rows = await db<TalkToolApprovalRecord[]>`
+    insert into public.talk_tool_approvals
+      (id, run_id, talk_id, thread_id, owner_id, agent_id, tool_name,
+       arguments_json, action_summary, expires_at)
+    values
+      (${input.id}::uuid, ${input.runId}::uuid, ${input.talkId}::uuid,
+       ${input.threadId}::uuid, ${input.ownerId}::uuid,
+       ${input.agentId}::uuid, ${input.toolName},
+       ${db.json(input.arguments as never)}, ${input.actionSummary},
+       ${input.expiresAt.toISOString()}::timestamptz)
+    returning ${db.unsafe(TALK_TOOL_APPROVAL_COLUMNS)}
+  `;
+  return rows[0];
+}
+
+export async function getTalkToolApprovalStatus(
+  approvalId: string,
+): Promise<TalkToolApprovalStatus | null> {
+  const db = getOutOfBandSql();
+  const rows = await db<{ status: TalkToolApprovalStatus }[]>`
+    select status
+    from public.talk_tool_approvals
+    where id = ${approvalId}::uuid
+    limit 1
+  `;
+  return rows[0]?.status ?? null;
+}
+
+/**
+ * Close a still-pending approval as 'expired'. Returns false when the
+ * user decided first, in which case the caller re-reads the decision.
+ */
+export async function expireTalkToolApproval(
+  approvalId: string,
+): Promise<boolean> {
+  const db = getOutOfBandSql();
+  const rows = await db<{ id: string }[]>`
+    update public.talk_tool_approvals
+    set status = 'expired', decided_at = now()
+    where id = ${approvalId}::uuid and status = 'pending'
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Flip a run between 'running' and 'awaiting_confirmation' while a tool
+ * call waits on the user. Guarded on the opposite status so a cancel
+ * that lands mid-wait is never overwritten.
+ */
+export async function setTalkRunAwaitingConfirmation(
+  runId: string,
+  awaiting: boolean,
+): Promise<boolean> {
+  const db = getOutOfBandSql();
+  const from = awaiting ? 'running' : 'awaiting_confirmation';
+  const to = awaiting ? 'awaiting_confirmation' : 'running';
+  const rows = await db<{ id: string }[]>`
+    update public.talk_runs
+    set status = ${to}
+    where id = ${runId}::uuid and status = ${from}
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+export async function listPendingTalkToolApprovals(
+  talkId: string,
+): Promise<TalkToolApprovalRecord[]> {
+  const db = getDbPg();
+  return db<TalkToolApprovalRecord[]>`
+    select ${db.unsafe(TALK_TOOL_APPROVAL_COLUMNS)}
+    from public.talk_tool_approvals
+    where talk_id = ${talkId}::uuid
+      and status = 'pending'
+      and expires_at > now()
+    order by created_at asc
+  `;
+}
+
+export async function getTalkToolApproval(
+  approvalId: string,
+): Promise<TalkToolApprovalRecord | undefined> {
+  const db = getDbPg();
+  const rows = await db<TalkToolApprovalRecord[]>`
+    select ${db.unsafe(TALK_TOOL_APPROVAL_COLUMNS)}
+    from public.talk_tool_approvals
+    where id = ${approvalId}::uuid
+    limit 1
+  `;
+  return rows[0];
+}
+
+/**
+ * Record the user's decision on a pending, unexpired approval. Returns
+ * undefined when the row already left 'pending' or has expired.
+ */
+export async function decideTalkToolApproval(input: {
+  approvalId: string;
+  decision: 'approved' | 'denied';
+  decidedBy: string;
+}): Promise<TalkToolApprovalRecord | undefined> {
+  const db = getDbPg();
+  const rows = await db<TalkToolApprovalRecord[]>`
+    update public.talk_tool_approvals
+    set status = ${input.decision},
+        decided_by = ${input.decidedBy}::uuid,
+        decided_at = now()
+    where id = ${input.approvalId}::uuid
+      and status = 'pending'
+      and expires_at > now()
+    returning ${db.unsafe(TALK_TOOL_APPROVAL_COLUMNS)}
+  `;
+  return rows[0];
+}
@@ -0,0 +1,224 @@
+// Usage budget RLS across workspaces (migrations 0045, 0059, 0060).
+//
+// Two users, each in only their own personal workspace (0048 trigger).
+// Being the owner of a personal workspace must not reach into another
+// one: budgets, spend and the usage rollup stay inside the workspace.
+//
+// UUID prefix used for this file: 0c121212 (per the test-helpers prefix
+// registry convention).
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  closePgDatabase,
+  deleteAuthUsers,
+  getDbPg,
+  initPgDatabase,
+  purgeUserData,
+  seedAuthUser,
+  withUserContext,
+} from './test-helpers.js';
+import {
+  getRunUsageBudgetSpend,
+  getUsageBudgetSpend,
+  listApplicableUsageBudgets,
+  listUsageDailyRollup,
+  upsertUsageBudget,
+} from './usage-budget-accessors.js';
+
+const USER_A_ID = '0c121212-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+const USER_B_ID = '0c121212-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+const SINCE = new Date('2000-01-01T00:00:00.000Z');
+
+async function personalWorkspaceId(userId: string): Promise<string> {
+  const db = getDbPg();
+  const rows = await db<{ default_workspace_id: string }[]>`
+    select default_workspace_id from public.users where id = ${userId}::uuid
+  `;
+  return rows[0].default_workspace_id;
+}
+
+/** A Talk in the user's workspace with one run that spent `tokens`. */
+async function seedTalkWithUsage(
+  ownerId: string,
+  tokens: number,
+): Promise<{ talkId: string; runId: string }> {
+  const db = getDbPg();
+  const workspaceId = await personalWorkspaceId(ownerId);
+  const [talk] = await db<{ id: string }[]>`
+    insert into public.talks (owner_id, topic_title, workspace_id)
+    values (${ownerId}::uuid, 'Usage talk', ${workspaceId}::uuid)
+    returning id
+  `;
+  const [thread] = await db<{ id: string }[]>`
+    insert into public.talk_threads (talk_id, owner_id, is_default)
+    values (${talk.id}::uuid, ${ownerId}::uuid, true)
+    returning id
+  `;
+  const [run] = await db<{ id: string }[]>`
+    insert into public.talk_runs
+      (talk_id, owner_id, requested_by, status, thread_id)
+    values (${talk.id}::uuid, ${ownerId}::uuid, ${ownerId}::uuid,
+            'completed', ${thread.id}::uuid)
+    returning id
+  `;
+  await db`
+    insert into public.llm_attempts
+      (run_id, talk_id, owner_id, model_id, status, input_tokens,
+       output_tokens)
+    values (${run.id}::uuid, ${talk.id}::uuid, ${ownerId}::uuid,
+            'test-model', 'success', ${tokens}, 0)
+  `;
+  return { talkId: talk.id, runId: run.id };
+}
+
+describe('usage-budget-accessors (postgres + RLS)', () => {
+  beforeAll(async () => {
+    await initPgDatabase();
+    await seedAuthUser({ id: USER_A_ID });
+    await seedAuthUser({ id: USER_B_ID });
+  });
+
+  afterAll(async () => {
+    await deleteAuthUsers([USER_A_ID, USER_B_ID]);
+    await closePgDatabase();
+  });
+
+  beforeEach(async () => {
+    await purgeUserData([USER_A_ID, USER_B_ID]);
+    const db = getDbPg();
+    await db`
+      delete from public.usage_budgets
+      where owner_id in (${USER_A_ID}::uuid, ${USER_B_ID}::uuid)
+    `;
+  });
+
+  it('a workspace budget governs only runs in its own workspace', async () => {
+    const a = await seedTalkWithUsage(USER_A_ID, 1_000);
+    const b = await seedTalkWithUsage(USER_B_ID, 10);
+
+    const budget = await withUserContext(USER_B_ID, () =>
+      upsertUsageBudget({
+        scope: 'workspace',
+        scopeId: null,
+        metric: 'tokens',
+        period: 'day',
+        softLimit: null,
+        hardLimit: 1,
+        ownerId: USER_B_ID,
+      }),
+    );
+    expect(budget.workspace_id).toBe(await personalWorkspaceId(USER_B_ID));
+
+    const forA = await withUserContext(USER_A_ID, () =>
+      listApplicableUsageBudgets({
+        ownerId: USER_A_ID,
+        talkId: a.talkId,
+        jobId: null,
+      }),
+    );
+    expect(forA).toEqual([]);
+    const forB = await withUserContext(USER_B_ID, () =>
+      listApplicableUsageBudgets({
+        ownerId: USER_B_ID,
+        talkId: b.talkId,
+        jobId: null,
+      }),
+    );
+    expect(forB.map((row) => row.id)).toEqual([budget.id]);
+
+    // B's workspace total counts B's attempts only.
+    const spent = await withUserContext(USER_B_ID, () =>
+      getRunUsageBudgetSpend({
+        runId: b.runId,
+        budgetId: budget.id,
+        since: SINCE,
+      }),
+    );
+    expect(spent.tokens).toBe(10);
+  });
+
+  it('rejects budgets on another workspace, its Talks or its members', async () => {
+    const a = await seedTalkWithUsage(USER_A_ID, 1_000);
+    const workspaceA = await personalWorkspaceId(USER_A_ID);
+
+    await expect(
+      withUserContext(USER_B_ID, async () => {
+        const db = getDbPg();
+        await db`
+          insert into public.usage_budgets
+            (scope, metric, period, hard_limit, owner_id, workspace_id)
+          values ('workspace', 'tokens', 'day', 1, ${USER_B_ID}::uuid,
+                  ${workspaceA}::uuid)
+        `;
+      }),
+    ).rejects.toThrow(/row-level security/);
+    await expect(
+      withUserContext(USER_B_ID, () =>
+        upsertUsageBudget({
+          scope: 'user',
+          scopeId: USER_A_ID,
+          metric: 'tokens',
+          period: 'day',
+          softLimit: null,
+          hardLimit: 1,
+          ownerId: USER_B_ID,
+        }),
+      ),
+    ).rejects.toThrow(/row-level security/);
+    await expect(
+      withUserContext(USER_B_ID, () =>
+        upsertUsageBudget({
+          scope: 'talk',
+          scopeId: a.talkId,
+          metric: 'tokens',
+          period: 'day',
+          softLimit: null,
+          hardLimit: 1,
+          ownerId: USER_B_ID,
+        }),
+      ),
+    ).rejects.toThrow(/row-level security/);
+  });
+
+  it('keeps spend and the usage rollup inside the caller workspace', async () => {
+    const a = await seedTalkWithUsage(USER_A_ID, 1_000);
+    await seedTalkWithUsage(USER_B_ID, 10);
+    const budgetA = await withUserContext(USER_A_ID, () =>
+      upsertUsageBudget({
+        scope: 'talk',
+        scopeId: a.talkId,
+        metric: 'tokens',
+        period: 'day',
+        softLimit: 500,
+        hardLimit: null,
+        ownerId: USER_A_ID,
+      }),
+    );
+
+    const asOwner = await withUserContext(USER_A_ID, () =>
+      getUsageBudgetSpend({ budgetId: budgetA.id, since: SINCE }),
+    );
+    expect(asOwner?.tokens).toBe(1_000);
+
+    await withUserContext(USER_B_ID, async () => {
+      expect(
+        await getUsageBudgetSpend({ budgetId: budgetA.id, since: SINCE }),
+      ).toBeNull();
+      expect(
+        await getRunUsageBudgetSpend({
+          runId: a.runId,
+          budgetId: budgetA.id,
+          since: SINCE,
+        }),
+      ).toEqual({ tokens: 0, costUsd: 0 });
+
+      const rollup = await listUsageDailyRollup({
+        since: SINCE,
+        until: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        workspace: true,
+      });
+      expect(rollup.reduce((sum, row) => sum + row.input_tokens, 0)).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+// Usage budget accessors (migrations 0045, 0059, 0060).
+//
+// Budgets belong to a workspace and are readable by its members; writes
+// are gated by RLS (workspace / user scope → that workspace's admins,
+// talk / job scope → creator who can edit the Talk, or admin). Spend and the dashboard rollup go through the SECURITY
+// DEFINER functions `usage_budget_spend`, `usage_run_budget_spend` and
+// `usage_daily_rollup`, because llm_attempts RLS only shows the
+// caller's own rows.
+
+import { getDbPg } from '../../db.js';
+
+export type UsageBudgetScope = 'workspace' | 'user' | 'talk' | 'job';
+export type UsageBudgetMetric = 'tokens' | 'usd';
+export type UsageBudgetPeriod = 'day' | 'month';
+
+export const USAGE_BUDGET_SCOPES: readonly UsageBudgetScope[] = [
+  'workspace',
+  'user',
+  'talk',
+  'job',
+];
+export const USAGE_BUDGET_METRICS: readonly UsageBudgetMetric[] = [
+  'tokens',
+  'usd',
+];
+export const USAGE_BUDGET_PERIODS: readonly UsageBudgetPeriod[] = [
+  'day',
+  'month',
+];
+
+export interface UsageBudgetRecord {
+  id: string;
+  scope: UsageBudgetScope;
+  scope_id: string | null;
+  metric: UsageBudgetMetric;
+  period: UsageBudgetPeriod;
+  soft_limit: number | null;
+  hard_limit: number | null;
+  owner_id: string;
+  workspace_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UsageDailyRollupRow {
+  day: string;
+  agent_id: string | null;
+  agent_name: string | null;
+  provider_id: string | null;
+  model_id: string;
+  attempts: number;
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  estimated_cost_usd: number;
+}
+
+// numeric columns come back from postgres.js as strings.
+const USAGE_BUDGET_COLUMNS = `id, scope, scope_id, metric, period,
+  soft_limit::float8 as soft_limit, hard_limit::float8 as hard_limit,
+  owner_id, workspace_id, created_at, updated_at`;
+
+/**
+ * Budgets that govern a run: the budgets of the run's workspace (its
+ * Talk's, else the owner's current one) plus any set on the run's
+ * owner, Talk or job in that workspace.
+ */
+export async function listApplicableUsageBudgets(input: {
+  ownerId: string;
+  talkId: string | null;
+  jobId: string | null;
+}): Promise<UsageBudgetRecord[]> {
+  const db = getDbPg();
+  return db<UsageBudgetRecord[]>`
+    select ${db.unsafe(USAGE_BUDGET_COLUMNS)}
+    from public.usage_budgets
+    where workspace_id = coalesce(
+            (select t.workspace_id from public.talks t
+              where t.id = ${input.talkId}::uuid),
+            public.current_workspace_id()
+          )
+      and (scope = 'workspace'
+           or (scope = 'user' and scope_id = ${input.ownerId}::uuid)
+           or (scope = 'talk' and scope_id = ${input.talkId}::uuid)
+           or (scope = 'job' and scope_id = ${input.jobId}::uuid))
+    order by scope, metric, period
+  `;
+}
+
+/**
+ * Budgets of the current workspace. With a scopeId (a Talk or job
+ * page) the Talk's budgets are listed wherever it lives.
+ */
+export async function listUsageBudgets(filter?: {
+  scope?: UsageBudgetScope;
+  scopeId?: string | null;
+}): Promise<UsageBudgetRecord[]> {
+  const db = getDbPg();
+  const scope = filter?.scope ?? null;
+  const scopeId = filter?.scopeId ?? null;
+  return db<UsageBudgetRecord[]>`
+    select ${db.unsafe(USAGE_BUDGET_COLUMNS)}
+    from public.usage_budgets
+    where (${scope}::text is null or scope = ${scope})
+      and (${scopeId}::uuid is null or scope_id = ${scopeId}::uuid)
+      and (${scopeId}::uuid is not null
+           or workspace_id = public.current_workspace_id())
+    order by scope, scope_id nulls first, metric, period
+  `;
+}
+
+export async function getUsageBudget(
+  budgetId: string,
+): Promise<UsageBudgetRecord | undefined> {
+  const db = getDbPg();
+  const rows = await db<UsageBudgetRecord[]>`
+    select ${db.unsafe(USAGE_BUDGET_COLUMNS)}
+    from public.usage_budgets
+    where id = ${budgetId}::uuid
+    limit 1
+  `;
+  return rows[0];
+}
+
+/**
+ * Create or replace the budget for (scope, scopeId, metric, period) in
+ * the current workspace; Talk and job budgets land in their Talk's
+ * workspace (0060 trigger). `ownerId` is the writer; RLS checks it
+ * against the scope.
+ */
+export async function upsertUsageBudget(input: {
+  scope: UsageBudgetScope;
+  scopeId: string | null;
+  metric: UsageBudgetMetric;
+  period: UsageBudgetPeriod;
+  softLimit: number | null;
+  hardLimit: number | null;
+  ownerId: string;
+}): Promise<UsageBudgetRecord> {
+  const db = getDbPg();
+  const rows = await db<UsageBudgetRecord[]>`
+    insert into public.usage_budgets
+      (scope, scope_id, metric, period, soft_limit, hard_limit, owner_id)
+    values
+      (${input.scope}, ${input.scopeId}::uuid, ${input.metric},
+       ${input.period}, ${input.softLimit}, ${input.hardLimit},
+       ${input.ownerId}::uuid)
+    on conflict (
+      workspace_id,
+      scope,
+      coalesce(scope_id, '00000000-0000-0000-0000-000000000000'::uuid),
+      metric,
+      period
+    )
+    do update set
+      soft_limit = excluded.soft_limit,
+      hard_limit = excluded.hard_limit,
+      owner_id = excluded.owner_id,
+      updated_at = now()
+    returning ${db.unsafe(USAGE_BUDGET_COLUMNS)}
+  `;
+  return rows[0];
+}
+
+export async function deleteUsageBudget(budgetId: string): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    delete from public.usage_budgets
+    where id = ${budgetId}::uuid
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * A budget's spend since `since`. Null when the caller may not see the
+ * scope's spend (another member, a Talk they can't access, or the
+ * workspace total for a non-admin).
+ */
+export async function getUsageBudgetSpend(input: {
+  budgetId: string;
+  since: Date;
+}): Promise<{ tokens: number; costUsd: number } | null> {
+  const db = getDbPg();
+  const rows = await db<{ tokens: string; cost_usd: string }[]>`
+    select tokens, cost_usd
+    from public.usage_budget_spend(
+      ${input.budgetId}::uuid, ${input.since.toISOString()}::timestamptz
+    )
+  `;
+  if (!rows[0]) return null;
+  return {
+    tokens: Number(rows[0].tokens),
+    costUsd: Number(rows[0].cost_usd),
+  };
+}
+
+/**
+ * Spend for a budget that governs the caller's own run. Enforcement
+ * reads workspace totals through this even for non-admin owners; it
+ * counts zero for a budget that doesn't apply to the run.
+ */
+export async function getRunUsageBudgetSpend(input: {
+  runId: string;
+  budgetId: string;
+  since: Date;
+}): Promise<{ tokens: number; costUsd: number }> {
+  const db = getDbPg();
+  const rows = await db<{ tokens: string; cost_usd: string }[]>`
+    select tokens, cost_usd
+    from public.usage_run_budget_spend(
+      ${input.runId}::uuid, ${input.budgetId}::uuid,
+      ${input.since.toISOString()}::timestamptz
+    )
+  `;
+  return {
+    tokens: Number(rows[0]?.tokens ?? 0),
+    costUsd: Number(rows[0]?.cost_usd ?? 0),
+  };
+}
+
+/**
+ * Daily usage per agent and model for [since, until). `workspace`
+ * covers every user's attempts and is admin-only at the function level.
+ */
+export async function listUsageDailyRollup(input: {
+  since: Date;
+  until: Date;
+  workspace: boolean;
+}): Promise<UsageDailyRollupRow[]> {
+  const db = getDbPg();
+  return db<UsageDailyRollupRow[]>`
+    select day::text as day, agent_id, agent_name, provider_id, model_id,
+           attempts::int as attempts,
+           input_tokens::float8 as input_tokens,
+           cached_input_tokens::float8 as cached_input_tokens,
+           output_tokens::float8 as output_tokens,
+           reasoning_tokens::float8 as reasoning_tokens,
+           estimated_cost_usd::float8 as estimated_cost_usd
+    from public.usage_daily_rollup(
+      ${input.since.toISOString()}::timestamptz,
+      ${input.until.toISOString()}::timestamptz,
+      ${input.workspace}
+    )
+  `;
+}
+
+/**
+ * Cached share of a Talk's input since `since`, across every member's
+ * attempts (migration 0053). Zeroes when the caller can't see the Talk.
+ */
+export async function getTalkPromptCacheStats(
+  talkId: string,
+  since: Date,
+): Promise<{
+  attempts: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+}> {
+  const db = getDbPg();
+  const rows = await db<
+    { attempts: string; input_tokens: string; cached_input_tokens: string }[]
+  >`
+    select attempts, input_tokens, cached_input_tokens
+    from public.talk_prompt_cache_stats(
+      ${talkId}::uuid, ${since.toISOString()}::timestamptz
+    )
+  `;
+  return {
+    attempts: Number(rows[0]?.attempts ?? 0),
+    inputTokens: Number(rows[0]?.input_tokens ?? 0),
+    cachedInputTokens: Number(rows[0]?.cached_input_tokens ?? 0),
+  };
+}
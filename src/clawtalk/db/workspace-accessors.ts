@@ -0,0 +1,229 @@
+// Workspace accessors (migration 0048).
+//
+// Every function runs inside `withUserContext(userId)`. RLS limits
+// workspaces and workspace_members to the caller's memberships; names
+// and emails of other members come through the SECURITY DEFINER
+// `workspace_member_directory()`, and creation through
+// `create_workspace()` so the creator's owner row lands with it.
+
+import { getDbPg } from '../../db.js';
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'guest';
+
+export const WORKSPACE_ROLES: readonly WorkspaceRole[] = [
+  'owner',
+  'admin',
+  'member',
+  'guest',
+];
+
+export interface WorkspaceRecord {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMemberDirectoryRecord {
+  user_id: string;
+  email: string;
+  display_name: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+/** The caller's workspaces with their role in each, oldest first. */
+export async function listWorkspacesForUser(): Promise<WorkspaceRecord[]> {
+  const db = getDbPg();
+  return db<WorkspaceRecord[]>`
+    select w.id, w.name, w.created_by, w.created_at, w.updated_at, m.role
+    from public.workspaces w
+    join public.workspace_members m
+      on m.workspace_id = w.id and m.user_id = auth.uid()
+    order by w.created_at asc, w.id asc
+  `;
+}
+
+export async function getWorkspaceForUser(
+  workspaceId: string,
+): Promise<WorkspaceRecord | undefined> {
+  const db = getDbPg();
+  const rows = await db<WorkspaceRecord[]>`
+    select w.id, w.name, w.created_by, w.created_at, w.updated_at, m.role
+    from public.workspaces w
+    join public.workspace_members m
+      on m.workspace_id = w.id and m.user_id = auth.uid()
+    where w.id = ${workspaceId}::uuid
+    limit 1
+  `;
+  return rows[0];
+}
+
+/** The workspace this request resolves to; see current_workspace_id(). */
+export async function getCurrentWorkspaceId(): Promise<string | null> {
+  const db = getDbPg();
+  const rows = await db<{ id: string | null }[]>`
+    select public.current_workspace_id() as id
+  `;
+  return rows[0]?.id ?? null;
+}
+
+export async function createWorkspace(name: string): Promise<string> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    select public.create_workspace(${name}) as id
+  `;
+  return rows[0].id;
+}
+
+export async function renameWorkspace(input: {
+  workspaceId: string;
+  name: string;
+}): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    update public.workspaces
+    set name = ${input.name}, updated_at = now()
+    where id = ${input.workspaceId}::uuid
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+/** Cascades to every Talk, agent and connector in the workspace. */
+export async function deleteWorkspace(workspaceId: string): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    delete from public.workspaces
+    where id = ${workspaceId}::uuid
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Make `workspaceId` the caller's default — the workspace requests
+ * without an X-ClawTalk-Workspace header resolve to. False when the
+ * caller is not a member.
+ */
+export async function setDefaultWorkspace(
+  workspaceId: string,
+): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ ok: boolean }[]>`
+    select public.set_default_workspace(${workspaceId}::uuid) as ok
+  `;
+  return rows[0]?.ok === true;
+}
+
+/**
+ * Owners first, then admins, members and guests, in join order. A guest
+ * gets only their own row (0066).
+ */
+export async function listWorkspaceMemberDirectory(
+  workspaceId: string,
+): Promise<WorkspaceMemberDirectoryRecord[]> {
+  const db = getDbPg();
+  return db<WorkspaceMemberDirectoryRecord[]>`
+    select user_id, email, display_name, role, created_at
+    from public.workspace_member_directory(${workspaceId}::uuid)
+  `;
+}
+
+export async function upsertWorkspaceMember(input: {
+  workspaceId: string;
+  userId: string;
+  role: WorkspaceRole;
+}): Promise<void> {
+  const db = getDbPg();
+  await db`
+    insert into public.workspace_members (workspace_id, user_id, role)
+    values (${input.workspaceId}::uuid, ${input.userId}::uuid, ${input.role})
+    on conflict (workspace_id, user_id) do update set role = excluded.role
+  `;
+}
+
+export interface WorkspaceInviteRecord {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by: string;
+  created_at: string;
+  expires_at: string;
+  accepted_by: string | null;
+  accepted_at: string | null;
+}
+
+const WORKSPACE_INVITE_COLUMNS = `id, workspace_id, email, role, invited_by,
+  created_at, expires_at, accepted_by, accepted_at`;
+
+/**
+ * Invite an address to a workspace (migration 0069), with the same
+ * answers as shareTalkByEmail: 'invited' for any address that isn't a
+ * member yet, 'member' when it belongs to a current member, who gets
+ * the new role, and 'self' for the caller. Admin only, and only an
+ * owner grants or changes 'owner'.
+ */
+export async function inviteWorkspaceMemberByEmail(input: {
+  workspaceId: string;
+  email: string;
+  role: WorkspaceRole;
+  inviteExpiresAt: Date;
+}): Promise<'member' | 'invited' | 'self'> {
+  const db = getDbPg();
+  const rows = await db<{ result: 'member' | 'invited' | 'self' }[]>`
+    select public.invite_workspace_member_by_email(
+      ${input.workspaceId}::uuid,
+      ${input.email},
+      ${input.role},
+      ${input.inviteExpiresAt.toISOString()}::timestamptz
+    ) as result
+  `;
+  return rows[0].result;
+}
+
+export async function listPendingWorkspaceInvites(
+  workspaceId: string,
+): Promise<WorkspaceInviteRecord[]> {
+  const db = getDbPg();
+  return db<WorkspaceInviteRecord[]>`
+    select ${db.unsafe(WORKSPACE_INVITE_COLUMNS)}
+    from public.workspace_invites
+    where workspace_id = ${workspaceId}::uuid
+      and accepted_at is null
+      and expires_at > now()
+    order by created_at asc
+  `;
+}
+
+export async function deleteWorkspaceInvite(input: {
+  workspaceId: string;
+  inviteId: string;
+}): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ id: string }[]>`
+    delete from public.workspace_invites
+    where id = ${input.inviteId}::uuid
+      and workspace_id = ${input.workspaceId}::uuid
+      and accepted_at is null
+    returning id
+  `;
+  return rows.length > 0;
+}
+
+export async function deleteWorkspaceMember(input: {
+  workspaceId: string;
+  userId: string;
+}): Promise<boolean> {
+  const db = getDbPg();
+  const rows = await db<{ user_id: string }[]>`
+    delete from public.workspace_members
+    where workspace_id = ${input.workspaceId}::uuid
+      and user_id = ${input.userId}::uuid
+    returning user_id
+  `;
+  return rows.length > 0;
+}
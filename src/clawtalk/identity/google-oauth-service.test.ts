@@ -164,10 +164,18 @@ describe('google-oauth-service', () => {
         'documents',
       ]);
     });
-    it('rejects gmail.send', () => {
-      expect(() => validateRequestedScopes(['gmail.send'])).toThrow(
+    it('accepts the Gmail tool scopes', () => {
+      expect(validateRequestedScopes(['gmail.readonly', 'gmail.send'])).toEqual(
+        ['gmail.readonly', 'gmail.send'],
+      );
+    });
+    it('rejects Gmail scopes beyond read and send', () => {
+      expect(() => validateRequestedScopes(['gmail.modify'])).toThrow(
         GoogleOAuthError,
       );
+      expect(() =>
+        validateRequestedScopes(['https://mail.google.com/']),
+      ).toThrow(GoogleOAuthError);
     });
     it('rejects raw URL scopes outside the allowlist', () => {
       expect(() =>
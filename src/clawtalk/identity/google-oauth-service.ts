@@ -64,7 +64,8 @@ const OIDC_SCOPES = ['openid', 'email', 'profile'] as const;
 
 // C7: scope allowlist. Any alias outside this set → 400 from
 // validateRequestedScopes. Prevents authenticated users from coercing the
-// OAuth client into Gmail / arbitrary Google scopes.
+// OAuth client into arbitrary Google scopes. Gmail is limited to the read
+// and send scopes the Gmail tools use — never full mailbox modify access.
 const ALLOWED_SCOPE_ALIASES = new Set<string>([
   'openid',
   'email',
@@ -74,6 +75,8 @@ const ALLOWED_SCOPE_ALIASES = new Set<string>([
   'documents.readonly',
   'spreadsheets',
   'spreadsheets.readonly',
+  'gmail.readonly',
+  'gmail.send',
 ]);
 
 // JWKS singleton — `jose` handles fetch + TTL caching internally.
@@ -25,6 +25,7 @@ export type GoogleToolErrorCode =
   | 'unbound_resource'
   | 'external_mutation_blocked'
   | 'drive_api_error'
+  | 'gmail_api_error'
   | 'invalid_request'
   | 'rate_limited';
 
@@ -18,17 +18,6 @@ describe('resolveModelCapabilities — PDF page-image fields', () => {
     expect(caps.accepted_image_formats).toContain('image/jpeg');
   });
 
-  it('gemini-2.5-flash is vision-but-not-PDF with a high image cap', () => {
-    const caps = resolveModelCapabilities({
-      providerId: 'provider.gemini',
-      modelId: 'gemini-2.5-flash',
-    });
-    expect(caps.supports_vision).toBe(true);
-    expect(caps.supports_pdf_documents).toBe(false);
-    expect(caps.max_images).toBe(64);
-    expect(caps.accepted_image_formats).toContain('image/jpeg');
-  });
-
   it('kimi-k2.6 carries the low NVIDIA NIM image cap', () => {
     const caps = resolveModelCapabilities({
       providerId: 'provider.nvidia',
@@ -62,6 +51,17 @@ describe('resolveModelCapabilities — PDF page-image fields', () => {
     expect(caps.max_images).toBeUndefined();
   });
 
+  it('native-PDF models (Gemini) take documents, not page images', () => {
+    const caps = resolveModelCapabilities({
+      providerId: 'provider.gemini',
+      modelId: 'gemini-2.5-flash',
+    });
+    expect(caps.supports_vision).toBe(true);
+    expect(caps.supports_pdf_documents).toBe(true);
+    expect(caps.max_images).toBeUndefined();
+    expect(caps.accepted_image_formats).toContain('image/jpeg');
+  });
+
   it('unknown models default to no vision and no image cap', () => {
     const caps = resolveModelCapabilities({
       providerId: 'provider.unknown',
@@ -72,4 +72,42 @@ describe('resolveModelCapabilities — PDF page-image fields', () => {
     expect(caps.max_images).toBeUndefined();
     expect(caps.accepted_image_formats).toBeUndefined();
   });
+
+  it('catalog models take tools; unknown models are not assumed to', () => {
+    expect(
+      resolveModelCapabilities({
+        providerId: 'provider.gemini',
+        modelId: 'gemini-2.5-flash',
+      }).supports_tools,
+    ).toBe(true);
+    expect(
+      resolveModelCapabilities({
+        providerId: 'provider.unknown',
+        modelId: 'made-up-model',
+      }).supports_tools,
+    ).toBe(false);
+  });
+});
+
+describe('resolveModelCapabilities — admin overrides', () => {
+  it('lets a custom provider model opt into tools and vision', () => {
+    const caps = resolveModelCapabilities({
+      providerId: 'custom.0c777703-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+      modelId: 'llama3.1:8b',
+      overrides: { supports_tools: true, supports_vision: true },
+    });
+    expect(caps.supports_tools).toBe(true);
+    expect(caps.supports_vision).toBe(true);
+    expect(caps.supports_pdf_documents).toBe(false);
+  });
+
+  it('keeps the catalog value where an override is null', () => {
+    const caps = resolveModelCapabilities({
+      providerId: 'provider.gemini',
+      modelId: 'gemini-2.5-flash',
+      overrides: { supports_tools: false, supports_vision: null },
+    });
+    expect(caps.supports_tools).toBe(false);
+    expect(caps.supports_vision).toBe(true);
+  });
 });
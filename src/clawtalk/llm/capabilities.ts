@@ -15,7 +15,19 @@ export interface ModelCapabilities {
    * source row.
    */
   supports_pdf_documents: boolean;
+  /**
+   * Whether the request builder can constrain the reply to a JSON
+   * schema natively (see LlmResponseSchema). Models without it still
+   * take structured-output requests; they get the schema as a prompt
+   * instruction and rely on the router's validation and repair.
+   */
   supports_json_schema: boolean;
+  /**
+   * Whether the agent's reasoning setting (effort or thinking budget)
+   * is sent to this model. Without it the setting is ignored and the
+   * model runs at its provider default.
+   */
+  supports_reasoning: boolean;
   supports_long_context: boolean;
   /**
    * Maximum number of images this model accepts in a single prompt.
@@ -37,12 +49,24 @@ export interface ModelCapabilities {
   extra?: Record<string, unknown>;
 }
 
+/**
+ * Admin-set capabilities for a model row (llm_provider_models
+ * `supports_tools` / `supports_vision`). Custom providers serve models
+ * the catalog knows nothing about, so these are the only source of
+ * truth for them; null leaves the catalog value in place.
+ */
+export interface ModelCapabilityOverrides {
+  supports_tools?: boolean | null;
+  supports_vision?: boolean | null;
+}
+
 const DEFAULT_CAPABILITIES: ModelCapabilities = {
   supports_tools: false,
   supports_streaming: true,
   supports_vision: false,
   supports_pdf_documents: false,
   supports_json_schema: false,
+  supports_reasoning: false,
   supports_long_context: false,
 };
 
@@ -60,7 +84,11 @@ const BUILTIN_PROVIDER_MODEL_CAPABILITIES = new Map(
     provider.models.map((model) => [
       `${provider.id}:${model.modelId}`,
       normalizeCapabilities({
+        supports_tools: model.supportsTools !== false,
         supports_vision: model.supportsVision === true,
+        supports_pdf_documents: model.supportsPdfDocuments === true,
+        supports_json_schema: model.supportsJsonSchema === true,
+        supports_reasoning: model.supportsReasoning === true,
         max_images: model.maxImages,
         accepted_image_formats: model.acceptedImageFormats,
       }),
@@ -71,12 +99,33 @@ const BUILTIN_PROVIDER_MODEL_CAPABILITIES = new Map(
 export function resolveModelCapabilities(input: {
   providerId: string;
   modelId: string;
+  overrides?: ModelCapabilityOverrides | null;
+}): ModelCapabilities {
+  const resolved = resolveCatalogCapabilities(input);
+  const overrides = input.overrides;
+  if (!overrides) return resolved;
+  return {
+    ...resolved,
+    ...(typeof overrides.supports_tools === 'boolean'
+      ? { supports_tools: overrides.supports_tools }
+      : {}),
+    ...(typeof overrides.supports_vision === 'boolean'
+      ? { supports_vision: overrides.supports_vision }
+      : {}),
+  };
+}
+
+function resolveCatalogCapabilities(input: {
+  providerId: string;
+  modelId: string;
 }): ModelCapabilities {
   if (input.providerId === 'provider.openai_codex') {
     return normalizeCapabilities({
       supports_tools: true,
       supports_vision: true,
       supports_pdf_documents: true,
+      supports_json_schema: true,
+      supports_reasoning: true,
       supports_long_context: true,
     });
   }
@@ -89,6 +138,8 @@ export function resolveModelCapabilities(input: {
       supports_tools: true,
       supports_vision: true,
       supports_pdf_documents: true,
+      supports_json_schema: true,
+      supports_reasoning: true,
       supports_long_context: true,
     });
   }
@@ -103,8 +154,10 @@ export function resolveModelCapabilities(input: {
 export function modelSupportsVision(
   providerId: string,
   modelId: string,
+  overrides?: ModelCapabilityOverrides | null,
 ): boolean {
-  return resolveModelCapabilities({ providerId, modelId }).supports_vision;
+  return resolveModelCapabilities({ providerId, modelId, overrides })
+    .supports_vision;
 }
 
 export function modelSupportsPdfDocuments(
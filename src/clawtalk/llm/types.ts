@@ -1,20 +1,15 @@
 export type LlmApiFormat =
   | 'anthropic_messages'
   | 'openai_chat_completions'
-  | 'codex_responses';
+  | 'codex_responses'
+  | 'gemini_generate_content';
 
 export type LlmCoreCompatibility = 'none' | 'claude_sdk_proxy';
 
-export type LlmAuthScheme = 'x_api_key' | 'bearer';
+export type LlmAuthScheme = 'x_api_key' | 'bearer' | 'none';
 
 export type LlmProviderKind =
-  | 'anthropic'
-  | 'openai'
-  | 'gemini'
-  | 'deepseek'
-  | 'kimi'
-  | 'nvidia'
-  | 'custom';
+  'anthropic' | 'openai' | 'gemini' | 'deepseek' | 'kimi' | 'nvidia' | 'custom';
 
 export interface LlmProviderRecord {
   id: string;
@@ -28,6 +23,8 @@ export interface LlmProviderRecord {
   response_start_timeout_ms: number | null;
   stream_idle_timeout_ms: number | null;
   absolute_timeout_ms: number | null;
+  /** Set on workspace-defined custom providers; null for builtins. */
+  workspace_id: string | null;
   updated_at: string;
   updated_by: string | null;
 }
@@ -151,6 +148,7 @@ export interface LlmAttemptRecord {
   input_tokens: number | null;
   cached_input_tokens: number | null;
   output_tokens: number | null;
+  reasoning_tokens: number | null;
   estimated_cost_usd: number | null;
   created_at: string;
 }
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+
+import { assertOutboundUrlAllowed, isBlockedIp } from './outbound-url.js';
+
+describe('isBlockedIp', () => {
+  it('blocks loopback, private, link-local and mapped addresses', () => {
+    for (const ip of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '100.64.0.1',
+      '100.127.255.254',
+      '172.16.0.1',
+      '192.168.1.10',
+      '169.254.169.254',
+      '::1',
+      'fd00::1',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+      '0:0:0:0:0:ffff:7f00:1',
+      '::a9fe:a9fe',
+      '::127.0.0.1',
+    ]) {
+      expect(isBlockedIp(ip)).toBe(true);
+    }
+  });
+
+  it('blocks every IPv6 link-local, unique-local and multicast address', () => {
+    for (const ip of [
+      'fe80::1',
+      'fe9a::1',
+      'FEBF:0:0:0:0:0:0:1',
+      'fe80::1%eth0',
+      'fc00::1',
+      'fdff::1',
+      'ff02::1',
+    ]) {
+      expect(isBlockedIp(ip)).toBe(true);
+    }
+    expect(isBlockedIp('fec0::1')).toBe(false);
+    expect(isBlockedIp('fe00::1')).toBe(false);
+  });
+
+  it('allows public addresses', () => {
+    expect(isBlockedIp('203.0.113.10')).toBe(false);
+    expect(isBlockedIp('172.32.0.1')).toBe(false);
+    expect(isBlockedIp('100.128.0.1')).toBe(false);
+    expect(isBlockedIp('::ffff:cb00:710a')).toBe(false);
+    expect(isBlockedIp('2001:db8::1')).toBe(false);
+  });
+});
+
+describe('assertOutboundUrlAllowed', () => {
+  it('rejects malformed URLs and non-http schemes', async () => {
+    await expect(assertOutboundUrlAllowed('not a url')).rejects.toMatchObject({
+      code: 'invalid_url',
+    });
+    await expect(
+      assertOutboundUrlAllowed('file:///etc/passwd'),
+    ).rejects.toMatchObject({ code: 'invalid_scheme' });
+  });
+
+  it('blocks private IP literals and localhost', async () => {
+    for (const url of [
+      'http://127.0.0.1:11434/v1',
+      'http://[::1]:8000/v1',
+      'http://169.254.169.254/latest',
+      'http://[::ffff:a9fe:a9fe]/latest',
+      'http://[::ffff:169.254.169.254]/latest',
+      'http://100.100.100.200/latest',
+      'http://localhost:1234/v1',
+    ]) {
+      await expect(assertOutboundUrlAllowed(url)).rejects.toMatchObject({
+        code: 'ssrf_blocked',
+      });
+    }
+  });
+
+  it('allows public IP literals', async () => {
+    await expect(
+      assertOutboundUrlAllowed('https://203.0.113.10/v1'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('skips the address check only for the listed private hosts', async () => {
+    const privateHosts = ['localhost', '10.0.0.5'];
+    await expect(
+      assertOutboundUrlAllowed('http://LocalHost:11434/v1', { privateHosts }),
+    ).resolves.toBeUndefined();
+    await expect(
+      assertOutboundUrlAllowed('http://127.0.0.1:11434/v1', { privateHosts }),
+    ).rejects.toMatchObject({ code: 'ssrf_blocked' });
+    await expect(
+      assertOutboundUrlAllowed('ftp://10.0.0.5/', { privateHosts }),
+    ).rejects.toMatchObject({ code: 'invalid_scheme' });
+  });
+});
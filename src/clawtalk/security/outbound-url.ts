@@ -0,0 +1,198 @@
+/**
+ * SSRF checks for server-side requests to user-supplied URLs.
+ *
+ * `isBlockedIp` is shared with source ingestion, which enforces it at
+ * connect time on every socket. Custom LLM providers go through
+ * `fetch`, which has no connect hook, so `assertOutboundUrlAllowed`
+ * resolves the host up front instead — before saving a provider, before
+ * model discovery and before each run. Those fetches don't follow
+ * redirects (llm-client.ts, model-discovery.ts), so the checked URL is
+ * the only one requested.
+ *
+ * Workers' `fetch` can't be told which address to connect to, so the
+ * address checked here isn't pinned: a host that re-resolves to a
+ * private address between the check and the request (DNS rebinding)
+ * gets through. The checks before every run and discovery keep that
+ * window short; closing it needs a connect-level hook the runtime
+ * doesn't offer.
+ *
+ * Private addresses are an operator decision, not a per-provider one
+ * (DECISIONS.md D8): the operator can exempt hosts
+ * (CUSTOM_PROVIDER_PRIVATE_HOSTS) for a self-hosted Ollama or vLLM on
+ * their own network.
+ */
+
+import net from 'net';
+import dns from 'dns/promises';
+
+const ALLOWED_SCHEMES = new Set(['http:', 'https:']);
+
+export type OutboundUrlErrorCode =
+  'invalid_url' | 'invalid_scheme' | 'ssrf_blocked' | 'dns_resolution_failed';
+
+export class OutboundUrlError extends Error {
+  readonly code: OutboundUrlErrorCode;
+
+  constructor(code: OutboundUrlErrorCode, message: string) {
+    super(message);
+    this.name = 'OutboundUrlError';
+    this.code = code;
+  }
+}
+
+/**
+ * Returns true if an IP address is in a blocked range (loopback, private,
+ * carrier-grade NAT, link-local, multicast, or unspecified). IPv6
+ * addresses that embed an IPv4 one (::ffff:a9fe:a9fe, ::a9fe:a9fe) are
+ * checked as that IPv4 address.
+ */
+export function isBlockedIp(ip: string): boolean {
+  // IPv4
+  if (net.isIPv4(ip)) {
+    const parts = ip.split('.').map(Number);
+    const [a, b] = parts;
+
+    // 127.0.0.0/8
+    if (a === 127) return true;
+    // 10.0.0.0/8
+    if (a === 10) return true;
+    // 172.16.0.0/12
+    if (a === 172 && b >= 16 && b <= 31) return true;
+    // 192.168.0.0/16
+    if (a === 192 && b === 168) return true;
+    // 100.64.0.0/10 (carrier-grade NAT)
+    if (a === 100 && b >= 64 && b <= 127) return true;
+    // 169.254.0.0/16 (link-local)
+    if (a === 169 && b === 254) return true;
+    // 224.0.0.0/4 (multicast)
+    if (a >= 224 && a <= 239) return true;
+    // 0.0.0.0
+    if (a === 0) return true;
+
+    return false;
+  }
+
+  // IPv6
+  if (net.isIPv6(ip)) {
+    const normalized = canonicalIpv6(ip);
+    // IPv4-mapped ::ffff:0:0/96 and IPv4-compatible ::/96
+    const embedded = normalized.match(
+      /^::(?:ffff:)?(?:([0-9a-f]{1,4}):)?([0-9a-f]{1,4})$/,
+    );
+    if (embedded) {
+      const high = parseInt(embedded[1] ?? '0', 16);
+      const low = parseInt(embedded[2], 16);
+      return isBlockedIp(
+        [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'),
+      );
+    }
+    // ::1 loopback
+    if (
+      normalized === '::1' ||
+      normalized === '0000:0000:0000:0000:0000:0000:0000:0001'
+    ) {
+      return true;
+    }
+    // :: unspecified
+    if (normalized === '::') return true;
+    // The compressed form drops leading zeros ("fc::1" is 00fc::1), so
+    // compare the first 16 bits rather than a text prefix.
+    const first = parseInt(normalized.split(':')[0] || '0', 16);
+    // fe80::/10 link-local (fe80 through febf)
+    if ((first & 0xffc0) === 0xfe80) return true;
+    // fc00::/7 unique-local
+    if ((first & 0xfe00) === 0xfc00) return true;
+    // ff00::/8 multicast
+    if ((first & 0xff00) === 0xff00) return true;
+
+    return false;
+  }
+
+  // Unknown format → block
+  return true;
+}
+
+/**
+ * Lowercased, zero-compressed form of an IPv6 address, with a dotted
+ * IPv4 tail rewritten as hex (::ffff:127.0.0.1 -> ::ffff:7f00:1), so
+ * every spelling of an address matches the same checks.
+ */
+function canonicalIpv6(ip: string): string {
+  try {
+    return new URL(`http://[${ip}]/`).hostname.slice(1, -1);
+  } catch {
+    // Zone ids (fe80::1%eth0) aren't valid in a URL host.
+    return ip.toLowerCase();
+  }
+}
+
+/**
+ * Throws an OutboundUrlError unless `rawUrl` is an http(s) URL whose host
+ * resolves only to public addresses. For a host listed in `privateHosts`
+ * the scheme is still checked but the address check is skipped.
+ */
+export async function assertOutboundUrlAllowed(
+  rawUrl: string,
+  options: { privateHosts?: readonly string[] } = {},
+): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new OutboundUrlError('invalid_url', `Invalid URL: ${rawUrl}`);
+  }
+  if (!ALLOWED_SCHEMES.has(url.protocol)) {
+    throw new OutboundUrlError(
+      'invalid_scheme',
+      `Scheme "${url.protocol}" is not allowed. Use http or https.`,
+    );
+  }
+
+  // WHATWG URL keeps IPv6 literals bracketed.
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const lower = hostname.toLowerCase();
+  if (
+    options.privateHosts?.some(
+      (host) => host.replace(/^\[(.*)\]$/, '$1').toLowerCase() === lower,
+    )
+  ) {
+    return;
+  }
+  if (net.isIP(hostname)) {
+    if (isBlockedIp(hostname)) {
+      throw new OutboundUrlError(
+        'ssrf_blocked',
+        `Address ${hostname} is in a blocked IP range.`,
+      );
+    }
+    return;
+  }
+
+  if (lower === 'localhost' || lower.endsWith('.localhost')) {
+    throw new OutboundUrlError(
+      'ssrf_blocked',
+      `Hostname "${hostname}" is blocked.`,
+    );
+  }
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await dns.lookup(hostname, { all: true });
+  } catch {
+    addresses = [];
+  }
+  if (addresses.length === 0) {
+    throw new OutboundUrlError(
+      'dns_resolution_failed',
+      `Could not resolve hostname: ${hostname}`,
+    );
+  }
+  for (const entry of addresses) {
+    if (isBlockedIp(entry.address)) {
+      throw new OutboundUrlError(
+        'ssrf_blocked',
+        `Resolved address ${entry.address} for ${hostname} is in a blocked IP range.`,
+      );
+    }
+  }
+}
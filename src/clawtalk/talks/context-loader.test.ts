@@ -11,6 +11,7 @@ import { describe, expect, it } from 'vitest';
 import {
   buildAtRefForcedInjectionFromRows,
   buildContentOutline,
+  buildRetrievedContext,
   buildSourceManifest,
   buildSourcePreview,
   computeRasterPageAttachment,
@@ -1145,3 +1146,76 @@ describe('buildSourceManifest — PDF raster-awareness', () => {
     expect(line).not.toContain('page images available');
   });
 });
+
+describe('buildRetrievedContext source chunks', () => {
+  const sources = [
+    makeSource({ source_ref: 'S1', source_type: 'text', title: 'Q1 memo' }),
+    makeSource({ source_ref: 'S2', source_type: 'file', title: 'Board deck' }),
+  ];
+  const chunk = (
+    sourceId: string,
+    chunkIndex: number,
+    content: string,
+    pageIndex: number | null = null,
+  ) => ({
+    chunkId: `${sourceId}-${chunkIndex}`,
+    sourceId,
+    chunkIndex,
+    pageIndex,
+    content,
+    score: 0.5,
+  });
+  const baseInput = {
+    query: 'why did churn rise',
+    personaRole: null,
+    stateEntries: [],
+    sources,
+    excludedStateKeys: new Set<string>(),
+    excludedSourceRefs: new Set<string>(),
+    budgetTokens: 1200,
+  };
+
+  it('renders ranked chunks and records them as citations', () => {
+    const result = buildRetrievedContext({
+      ...baseInput,
+      sourceChunks: [
+        chunk('id-S2', 3, 'Churn rose after the price change.', 4),
+        chunk('id-S1', 0, 'Starter plan churn doubled.'),
+      ],
+    });
+    expect(result.promptText).toContain(
+      '- Source S2 "Board deck" (excerpt, p. ~5):\n  Churn rose after the price change.',
+    );
+    expect(result.promptText).toContain('- Source S1 "Q1 memo" (excerpt):');
+    expect(result.promptText).toContain('read_source(ref)');
+    expect(result.sourceEntries).toEqual([
+      {
+        ref: 'S2',
+        title: 'Board deck',
+        excerpt: 'Churn rose after the price change.',
+        chunkId: 'id-S2-3',
+        chunkIndex: 3,
+        pageIndex: 4,
+        score: 0.5,
+      },
+      expect.objectContaining({ ref: 'S1', chunkId: 'id-S1-0' }),
+    ]);
+  });
+
+  it('skips chunks that do not fit or whose source is excluded', () => {
+    const result = buildRetrievedContext({
+      ...baseInput,
+      budgetTokens: 120,
+      excludedSourceRefs: new Set(['S2']),
+      sourceChunks: [
+        chunk('id-S1', 0, 'x'.repeat(2000)),
+        chunk('id-S2', 0, 'Excluded by @-ref.'),
+        chunk('id-S1', 1, 'Small enough to fit.'),
+        chunk('id-missing', 0, 'Source was deleted.'),
+      ],
+    });
+    expect(result.sourceEntries.map((entry) => entry.chunkId)).toEqual([
+      'id-S1-1',
+    ]);
+  });
+});
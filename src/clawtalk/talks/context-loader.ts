@@ -13,8 +13,13 @@
  */
 
 import { getDbPg, type Sql } from '../../db.js';
-import { listTalkStateEntries } from '../db/context-accessors.js';
+import {
+  getTalkContextSummary,
+  listTalkStateEntries,
+} from '../db/context-accessors.js';
 import { getContentByTalkId, type Content } from '../db/content-accessors.js';
+import { getTalkPromptCacheStats } from '../db/usage-budget-accessors.js';
+import { promptCacheKey } from '../agents/prompt-cache-planner.js';
 import {
   ALLOWED_TAGS,
   ensureAnchorIds,
@@ -40,12 +45,24 @@ import {
 } from '../agents/llm-client.js';
 import type { TalkPersonaRole } from '../llm/types.js';
 import type { TalkJobExecutionPolicy } from './executor.js';
+import {
+  buildDataConnectorTools,
+  loadTalkDataConnectors,
+} from '../data-connectors/registry.js';
 import {
   buildBoundGoogleDrivePromptSection,
   buildGoogleDriveContextTools,
   loadGoogleDriveBindings,
 } from './google-drive-tools.js';
+import { buildGmailContextTools } from './gmail-tools.js';
+import { buildSlackContextTools } from './slack-tools.js';
 import { extractSourceReferences } from './source-reference-detection.js';
+import { getEmbeddingProvider } from './embeddings.js';
+import {
+  retrieveTalkSourceChunks,
+  type RankedSourceChunk,
+} from './source-retrieval.js';
+import { logger } from '../../logger.js';
 
 const WEB_TOOL_DEFINITIONS: LlmToolDefinition[] = [
   {
@@ -94,6 +111,16 @@ export interface ContextPackage {
   /** System prompt: goal + summary + rules + state + sources + bound Drive resources */
   systemPrompt: string;
 
+  /**
+   * Leading part of systemPrompt that doesn't change from run to run
+   * (outline, goal, rules, sources, Drive resources). The prompt-cache
+   * planner caches up to here.
+   */
+  stableSystemPrefix: string;
+
+  /** Provider prompt-cache key shared by every run in the Talk. */
+  promptCacheKey: string;
+
   /** Tool definitions for reading context sources, attachments, and bound Drive resources */
   contextTools: LlmToolDefinition[];
 
@@ -233,6 +260,15 @@ export interface TalkRunContextRetrievedSourceSnapshot {
   ref: string;
   title: string;
   excerpt: string;
+  /**
+   * Chunk citation (talk_context_source_chunks). Absent on snapshots
+   * written before chunk retrieval shipped.
+   */
+  chunkId?: string;
+  chunkIndex?: number;
+  /** 0-based, estimated from the chunk offset; null for unpaged sources. */
+  pageIndex?: number | null;
+  score?: number;
 }
 
 export interface TalkRunContextSnapshot {
@@ -242,6 +278,17 @@ export interface TalkRunContextSnapshot {
   roleHint: string | null;
   goalIncluded: boolean;
   summaryIncluded: boolean;
+  /**
+   * Which rolling summary the run saw (talk_context_summary row scoped
+   * to this thread, or the talk when unthreaded). Null when no summary
+   * existed yet. Absent on snapshots written before summaries shipped.
+   */
+  summary?: {
+    scope: 'talk' | 'thread';
+    version: number;
+    coversThroughMessageId: string | null;
+    updatedAt: string;
+  } | null;
   activeRules: string[];
   stateSnapshot: {
     totalCount: number;
@@ -274,6 +321,25 @@ export interface TalkRunContextSnapshot {
     turnCount: number;
   };
   estimatedTokens: number;
+  /**
+   * Prompt caching for the run: the key sent to the provider, the
+   * length of the cached system prefix, and the Talk's cache hit rate
+   * over the last PROMPT_CACHE_STATS_WINDOW_DAYS (null when the stats
+   * couldn't be read). Absent on snapshots written before caching
+   * shipped.
+   */
+  promptCache?: {
+    cacheKey: string;
+    stablePrefixChars: number;
+    talk: {
+      windowDays: number;
+      attempts: number;
+      inputTokens: number;
+      cachedInputTokens: number;
+      /** cachedInputTokens / inputTokens; null with no input yet. */
+      hitRate: number | null;
+    } | null;
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -284,6 +350,7 @@ const OUTPUT_RESERVE = 4096; // Tokens to reserve for model output
 const TOOL_SCHEMA_RESERVE = 2000; // Tokens to reserve for tool definitions
 const STATE_SNAPSHOT_RESERVE = 2000; // Tokens reserved for bounded Talk state
 const RETRIEVAL_SECTION_RESERVE = 1200; // Tokens reserved for targeted retrieval
+const PROMPT_CACHE_STATS_WINDOW_DAYS = 7;
 
 // Native-PDF document caps now live in the shared single-source module
 // (src/shared/attachment-caps.ts, with their full rationale). Imported
@@ -300,6 +367,8 @@ export {
 const CONTENT_OUTLINE_BUDGET_BYTES = 20_480;
 const CHARS_TO_TOKENS = 0.25; // Simple estimation: 1 char ≈ 0.25 tokens
 const MAX_RETRIEVED_STATE_ENTRIES = 3;
+const RETRIEVED_SOURCE_EXCERPT_HINT =
+  'Source excerpts are the passages most relevant to the latest message, not the whole source. Cite them by ref, and call `read_source(ref)` when you need the surrounding text.';
 
 const STOPWORDS = new Set([
   'a',
@@ -427,9 +496,9 @@ function estimateTokens(text: string): number {
  *
  * Canonical context build order (documented contract — not ad hoc):
  *   1. Goal (talk_context_goal)
- *   2. Rolling summary (talk_context_summary) — disabled for threaded runs
- *      because a single talk-level summary injected into every thread leaks
- *      cross-thread context. Per-thread summaries are a future concern.
+ *   2. Rolling summary (talk_context_summary) — the thread's own summary for
+ *      threaded runs, the talk-level row otherwise. Never the talk-level
+ *      summary inside a thread: that would leak cross-thread context.
  *   3. Rules (talk_context_rules, active only)
  *   4. State snapshot (talk_state_entries, bounded by dedicated token budget)
  *   5. Source manifest (talk_context_sources, inline small sources)
@@ -440,7 +509,8 @@ function estimateTokens(text: string): number {
  * @param talkId - The Talk to load context for
  * @param modelContextWindow - The model's context window in tokens
  * @param threadId - Optional thread to scope message history to. When provided,
- *   only messages from this thread are loaded and summary injection is skipped.
+ *   only messages from this thread are loaded and only that thread's rolling
+ *   summary is injected.
  */
 export async function loadTalkContext(
   talkId: string,
@@ -488,10 +558,10 @@ export async function loadTalkContext(
   const rules = await fetchRules(db, talkId);
   const stateEntries = await listTalkStateEntries(talkId);
 
-  // When loading for a specific thread, skip talk-level summary to avoid
-  // leaking cross-thread context. A stale/wrong summary is worse than no
-  // summary — the model still has recent thread history.
-  const summary = threadId ? null : await fetchSummary(db, talkId);
+  // Summaries are scope-exact: a threaded load reads only that thread's
+  // row, never the talk-level one, so no cross-thread context leaks in.
+  const summaryRecord = await getTalkContextSummary(talkId, threadId);
+  const summary = summaryRecord?.summaryText ?? null;
   const stateSnapshot = buildStateSnapshot(
     stateEntries,
     STATE_SNAPSHOT_RESERVE,
@@ -698,19 +768,36 @@ export async function loadTalkContext(
     agentSupportsVision,
     pdfManifestState,
   );
+  // Semantic source retrieval is best-effort: an embedding-provider or
+  // index failure degrades to state-only retrieval, never fails the run.
+  let sourceChunks: RankedSourceChunk[] = [];
+  const retrievalQuery = options?.retrievalQuery?.trim() ?? '';
+  if (retrievalQuery && sources.length > 0) {
+    try {
+      sourceChunks = await retrieveTalkSourceChunks({
+        talkId,
+        query: retrievalQuery,
+        provider: getEmbeddingProvider(),
+      });
+    } catch (err) {
+      logger.warn(
+        { err, talkId },
+        '[context-loader] Source chunk retrieval failed; continuing without it',
+      );
+    }
+  }
   const retrievedContext = buildRetrievedContext({
     query: options?.retrievalQuery ?? null,
     personaRole,
     stateEntries,
     sources,
+    sourceChunks,
     excludedStateKeys: new Set(
       stateSnapshot.includedEntries.map((entry) => entry.key),
     ),
-    // Sources are never inlined into the system prompt anymore — every
-    // source is read-on-demand via `read_source(ref)`. Pass an empty
-    // exclusion set so buildRetrievedContext sees the full source list
-    // (though its source-retrieval path is now a no-op too).
-    excludedSourceRefs: new Set<string>(),
+    // @-ref'd sources are already injected whole on the user turn; a
+    // chunk of one would only repeat it.
+    excludedSourceRefs: new Set(upperRefs),
     budgetTokens: RETRIEVAL_SECTION_RESERVE,
   });
   // D4 — always advertise: emit the Bound Drive Resources prompt section
@@ -742,8 +829,12 @@ export async function loadTalkContext(
   const includeWebFreshnessStanza =
     webEnabled && (!options?.jobPolicy || options.jobPolicy.allowWeb);
 
-  // Step 3: Build connector tools (currently empty stub)
-  const connectorTools = buildConnectorTools(talkId, options?.jobPolicy);
+  // Step 3: Build connector tools for the Talk's linked data connectors
+  const connectorsEnabled =
+    !options?.effectiveTools || enabledToolFamilies.has('connectors');
+  const connectorTools = connectorsEnabled
+    ? await buildConnectorTools(talkId, options?.jobPolicy)
+    : [];
 
   // Content document: outline + apply_content_edit tool are gated on
   // the Talk actually having an attached doc. One per Talk by schema,
@@ -752,7 +843,7 @@ export async function loadTalkContext(
   const contentOutline = content ? buildContentOutline(content) : null;
 
   // Step 4: Assemble system prompt
-  const systemPrompt = assembleSystemPrompt(
+  const { systemPrompt, stablePrefix } = assembleSystemPrompt(
     goal,
     summary,
     rules,
@@ -819,6 +910,32 @@ export async function loadTalkContext(
     hasSummary: summary !== null,
   };
 
+  // Hit-rate reporting is best-effort, like retrieval: a failed read
+  // leaves it null and never fails the run.
+  let promptCacheStats: NonNullable<
+    TalkRunContextSnapshot['promptCache']
+  >['talk'] = null;
+  try {
+    const stats = await getTalkPromptCacheStats(
+      talkId,
+      new Date(Date.now() - PROMPT_CACHE_STATS_WINDOW_DAYS * 86_400_000),
+    );
+    promptCacheStats = {
+      windowDays: PROMPT_CACHE_STATS_WINDOW_DAYS,
+      ...stats,
+      hitRate:
+        stats.inputTokens > 0
+          ? stats.cachedInputTokens / stats.inputTokens
+          : null,
+    };
+  } catch (err) {
+    logger.warn(
+      { err, talkId },
+      '[context-loader] Prompt cache stats failed; continuing without them',
+    );
+  }
+  const cacheKey = promptCacheKey(talkId);
+
   const contextSnapshot: TalkRunContextSnapshot = {
     version: 1,
     threadId: threadId ?? null,
@@ -826,6 +943,14 @@ export async function loadTalkContext(
     roleHint,
     goalIncluded: Boolean(goal),
     summaryIncluded: summary !== null,
+    summary: summaryRecord
+      ? {
+          scope: summaryRecord.threadId ? 'thread' : 'talk',
+          version: summaryRecord.version,
+          coversThroughMessageId: summaryRecord.coversThroughMessageId,
+          updatedAt: summaryRecord.updatedAt,
+        }
+      : null,
     activeRules: rules,
     stateSnapshot: {
       totalCount: stateEntries.length,
@@ -875,10 +1000,17 @@ export async function loadTalkContext(
       turnCount: history.length,
     },
     estimatedTokens,
+    promptCache: {
+      cacheKey,
+      stablePrefixChars: stablePrefix.length,
+      talk: promptCacheStats,
+    },
   };
 
   return {
     systemPrompt,
+    stableSystemPrefix: stablePrefix,
+    promptCacheKey: cacheKey,
     connectorTools,
     contextTools,
     history,
@@ -893,7 +1025,7 @@ export async function loadTalkContext(
 }
 
 // ---------------------------------------------------------------------------
-// Step 1: Fetch Goal, Rules, and Summary
+// Step 1: Fetch Goal and Rules
 // ---------------------------------------------------------------------------
 
 async function fetchGoal(db: Sql, talkId: string): Promise<string | null> {
@@ -916,16 +1048,6 @@ async function fetchRules(db: Sql, talkId: string): Promise<string[]> {
   return rows.map((r) => r.rule_text);
 }
 
-async function fetchSummary(db: Sql, talkId: string): Promise<string | null> {
-  const rows = await db<Array<{ summary_text: string }>>`
-    select summary_text
-    from public.talk_context_summary
-    where talk_id = ${talkId}::uuid
-    limit 1
-  `;
-  return rows[0]?.summary_text ?? null;
-}
-
 // ---------------------------------------------------------------------------
 // Step 2: Build Source Manifest
 // ---------------------------------------------------------------------------
@@ -1847,17 +1969,23 @@ export async function fetchAtRefCandidateRows(
 /**
  * Load connector tool definitions for a Talk.
  *
- * Runtime verification guard: only connectors that are enabled, have a
- * credential, AND have verificationStatus === 'verified' produce tool
- * definitions. An attached connector that later becomes invalid or
- * unavailable is silently excluded — fail closed.
+ * Only linked connectors that are enabled (and, for PostHog, have a
+ * stored API key) produce tool definitions — see loadTalkDataConnectors.
+ * Scheduled-job runs are further narrowed to the job's
+ * allowedConnectorIds. new-executor re-checks both at dispatch time.
  */
-function buildConnectorTools(
-  _talkId: string,
-  _jobPolicy?: TalkJobExecutionPolicy | null,
-): LlmToolDefinition[] {
-  // Data connectors were removed with the ClawTalk chassis purge.
-  return [];
+async function buildConnectorTools(
+  talkId: string,
+  jobPolicy?: TalkJobExecutionPolicy | null,
+): Promise<LlmToolDefinition[]> {
+  const connectors = await loadTalkDataConnectors(talkId);
+  return buildDataConnectorTools(
+    jobPolicy
+      ? connectors.filter((connector) =>
+          jobPolicy.allowedConnectorIds.includes(connector.id),
+        )
+      : connectors,
+  );
 }
 
 // ---------------------------------------------------------------------------
@@ -2058,8 +2186,13 @@ function assembleSystemPrompt(
   contentOutline: string | null,
   boundGoogleDriveResources: string | null,
   includeWebFreshnessStanza: boolean,
-): string {
-  const parts: string[] = [];
+): { systemPrompt: string; stablePrefix: string } {
+  // Sections that only change when the Talk's settings do come first,
+  // so they form a prefix the provider can cache across runs and across
+  // agents in a response group (agents/prompt-cache-planner.ts). The
+  // per-run sections follow.
+  const stableParts: string[] = [];
+  const volatileParts: string[] = [];
 
   // The Attached Document goes at the absolute top so the agent
   // anchors on it before any other context. After Rules wasn't enough
@@ -2067,54 +2200,57 @@ function assembleSystemPrompt(
   // the time it read the section, it had already pattern-matched the
   // user's "the doc" against its training-time Google-Docs prior.
   if (contentOutline) {
-    parts.push(contentOutline);
+    stableParts.push(contentOutline);
   }
 
   if (includeWebFreshnessStanza) {
-    parts.push(buildWebFreshnessStanza());
+    stableParts.push(buildWebFreshnessStanza());
   }
 
   if (goal) {
-    parts.push(`**Goal:**\n${goal}`);
-  }
-
-  if (summary) {
-    parts.push(`**Summary:**\n${summary}`);
+    stableParts.push(`**Goal:**\n${goal}`);
   }
 
   if (rules.length > 0) {
     const ruleLines = rules.map((r, i) => `${i + 1}. ${r}`);
-    parts.push(`**Rules:**\n${ruleLines.join('\n')}`);
+    stableParts.push(`**Rules:**\n${ruleLines.join('\n')}`);
   }
 
-  if (roleHint) {
-    parts.push(`**Role Context Hint:**\n${roleHint}`);
+  if (sourceLines.length > 0) {
+    const manifestLines = sourceLines.map((s) => s.line);
+    stableParts.push(
+      `**Sources:**\n${manifestLines.join('\n')}\n\nThe preview after each source is the first 200 chars of its extracted text. Call \`read_source(ref)\` to load the full content of a source when relevant — don't guess the rest from the title or preview.`,
+    );
   }
 
-  if (channelContextSection) {
-    parts.push(`**Channel Context:**\n${channelContextSection}`);
+  if (boundGoogleDriveResources) {
+    stableParts.push(boundGoogleDriveResources);
   }
 
-  if (stateSnapshot) {
-    parts.push(stateSnapshot);
+  if (summary) {
+    volatileParts.push(`**Summary:**\n${summary}`);
   }
 
-  if (retrievedContext) {
-    parts.push(retrievedContext);
+  if (roleHint) {
+    volatileParts.push(`**Role Context Hint:**\n${roleHint}`);
   }
 
-  if (sourceLines.length > 0) {
-    const manifestLines = sourceLines.map((s) => s.line);
-    parts.push(
-      `**Sources:**\n${manifestLines.join('\n')}\n\nThe preview after each source is the first 200 chars of its extracted text. Call \`read_source(ref)\` to load the full content of a source when relevant — don't guess the rest from the title or preview.`,
-    );
+  if (channelContextSection) {
+    volatileParts.push(`**Channel Context:**\n${channelContextSection}`);
   }
 
-  if (boundGoogleDriveResources) {
-    parts.push(boundGoogleDriveResources);
+  if (stateSnapshot) {
+    volatileParts.push(stateSnapshot);
+  }
+
+  if (retrievedContext) {
+    volatileParts.push(retrievedContext);
   }
 
-  return parts.join('\n\n');
+  return {
+    systemPrompt: [...stableParts, ...volatileParts].join('\n\n'),
+    stablePrefix: stableParts.join('\n\n'),
+  };
 }
 
 const MAX_OMITTED_KEYS_SHOWN = 5;
@@ -2374,6 +2510,27 @@ function buildContextTools(
     );
   }
 
+  // Gmail follows the same D4 rule. gmail_send's approval prompt and the
+  // C6 job gate live in the router and the executor respectively.
+  const gmailReadEnabled =
+    !effectiveTools || enabledToolFamilies.has('gmail_read');
+  const gmailSendEnabled =
+    !effectiveTools || enabledToolFamilies.has('gmail_send');
+  if (gmailReadEnabled || gmailSendEnabled) {
+    tools.push(
+      ...buildGmailContextTools({
+        readEnabled: gmailReadEnabled,
+        sendEnabled: gmailSendEnabled,
+      }),
+    );
+  }
+
+  // Messaging: the Slack tools only ever touch channels linked to the
+  // Talk (or in a job's scope); that check happens at call time.
+  if (!effectiveTools || enabledToolFamilies.has('messaging')) {
+    tools.push(...buildSlackContextTools());
+  }
+
   // Content document tools — only register when this Talk has an
   // attached doc, so agents in chat-only Talks aren't tempted to call
   // them and fall into "no document" errors.
@@ -2461,7 +2618,14 @@ function scoreMatch(
   return score;
 }
 
-function buildRetrievedContext(input: {
+/**
+ * The Retrieved Context section: keyword-matched state entries first,
+ * then the top-ranked source chunks (already ranked by
+ * retrieveTalkSourceChunks), packed into `budgetTokens`. A chunk that
+ * doesn't fit is skipped rather than truncated, so a smaller
+ * lower-ranked one can still use the remaining space.
+ */
+export function buildRetrievedContext(input: {
   query: string | null;
   personaRole: TalkPersonaRole | null;
   stateEntries: Array<{
@@ -2470,7 +2634,8 @@ function buildRetrievedContext(input: {
     version: number;
     updatedAt: string;
   }>;
-  sources: SourceRow[];
+  sources: Array<Pick<SourceRow, 'id' | 'source_ref' | 'title'>>;
+  sourceChunks: RankedSourceChunk[];
   excludedStateKeys: Set<string>;
   excludedSourceRefs: Set<string>;
   budgetTokens: number;
@@ -2497,7 +2662,11 @@ function buildRetrievedContext(input: {
     ]),
   );
 
-  if (queryTerms.length === 0 && roleTerms.length === 0) {
+  if (
+    queryTerms.length === 0 &&
+    roleTerms.length === 0 &&
+    input.sourceChunks.length === 0
+  ) {
     return {
       promptText: null,
       queryTerms,
@@ -2521,10 +2690,23 @@ function buildRetrievedContext(input: {
     .sort((left, right) => right.score - left.score)
     .slice(0, MAX_RETRIEVED_STATE_ENTRIES);
 
-  // Keyword-RAG over sources is disabled. The index-only manifest carries
-  // a per-source preview; full content is fetched via `read_source(ref)`
-  // on demand. State retrieval below is unchanged.
+  const sourcesById = new Map(
+    input.sources.map((source) => [source.id, source]),
+  );
   const sourceCandidates: TalkRunContextRetrievedSourceSnapshot[] = [];
+  for (const chunk of input.sourceChunks) {
+    const source = sourcesById.get(chunk.sourceId);
+    if (!source || input.excludedSourceRefs.has(source.source_ref)) continue;
+    sourceCandidates.push({
+      ref: source.source_ref,
+      title: source.title,
+      excerpt: chunk.content,
+      chunkId: chunk.chunkId,
+      chunkIndex: chunk.chunkIndex,
+      pageIndex: chunk.pageIndex,
+      score: Math.round(chunk.score * 1000) / 1000,
+    });
+  }
 
   if (stateCandidates.length === 0 && sourceCandidates.length === 0) {
     return {
@@ -2555,8 +2737,26 @@ function buildRetrievedContext(input: {
     usedTokens += lineTokens;
   }
 
-  // Source retrieval loop intentionally removed — sourceCandidates is
-  // always empty in the index-only world.
+  const hintTokens = estimateTokens(RETRIEVED_SOURCE_EXCERPT_HINT);
+  for (const entry of sourceCandidates) {
+    const page =
+      entry.pageIndex === null || entry.pageIndex === undefined
+        ? ''
+        : `, p. ~${entry.pageIndex + 1}`;
+    const block = `- Source ${entry.ref} "${entry.title}" (excerpt${page}):\n${entry.excerpt
+      .split('\n')
+      .map((line) => `  ${line}`)
+      .join('\n')}`;
+    const blockTokens = estimateTokens(block);
+    if (usedTokens + blockTokens + hintTokens > input.budgetTokens) continue;
+    keptSourceEntries.push(entry);
+    parts.push(block);
+    usedTokens += blockTokens;
+  }
+
+  if (keptSourceEntries.length > 0) {
+    parts.push(RETRIEVED_SOURCE_EXCERPT_HINT);
+  }
 
   return {
     promptText:
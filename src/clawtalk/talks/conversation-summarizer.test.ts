@@ -0,0 +1,107 @@
+// Unit tests for the pure fold-planning helpers in conversation-summarizer.
+// The DB write path (version CAS, scope isolation) is covered in
+// context-accessors.test.ts.
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildSummarizerMessages,
+  selectMessagesToFold,
+  SUMMARY_KEEP_RECENT_TOKENS,
+  SUMMARY_MAX_FOLD_TOKENS,
+  SUMMARY_TRIGGER_TOKENS,
+  type SummarizerMessageRow,
+} from './conversation-summarizer.js';
+
+// 4 chars ≈ 1 token (CHARS_TO_TOKENS = 0.25).
+function makeMessages(
+  count: number,
+  tokensEach: number,
+): SummarizerMessageRow[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `m${index}`,
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content: 'x'.repeat(tokensEach * 4),
+    created_at: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString(),
+  }));
+}
+
+describe('selectMessagesToFold', () => {
+  it('folds nothing while the unsummarized tail is under the trigger', () => {
+    const messages = makeMessages(10, SUMMARY_TRIGGER_TOKENS / 20);
+    expect(selectMessagesToFold(messages)).toEqual([]);
+  });
+
+  it('folds the oldest messages and leaves the recent tail verbatim', () => {
+    const messages = makeMessages(20, 1_000);
+    const fold = selectMessagesToFold(messages);
+
+    expect(fold[0].id).toBe('m0');
+    const keptTokens = (messages.length - fold.length) * 1_000;
+    expect(keptTokens).toBeGreaterThanOrEqual(SUMMARY_KEEP_RECENT_TOKENS);
+    expect(fold.map((m) => m.id)).toEqual(
+      messages.slice(0, fold.length).map((m) => m.id),
+    );
+  });
+
+  it('caps a single pass at SUMMARY_MAX_FOLD_TOKENS', () => {
+    const messages = makeMessages(100, 1_000);
+    const fold = selectMessagesToFold(messages);
+    expect(fold.length * 1_000).toBeLessThanOrEqual(SUMMARY_MAX_FOLD_TOKENS);
+    expect(fold.length).toBeGreaterThan(0);
+  });
+
+  it('budgets an oversized message at its truncated transcript size', () => {
+    const messages = [
+      ...makeMessages(1, SUMMARY_MAX_FOLD_TOKENS * 2),
+      ...makeMessages(10, 1_000).map((m) => ({ ...m, id: `tail-${m.id}` })),
+    ];
+    const fold = selectMessagesToFold(messages);
+    // The huge turn only contributes its truncated slice, so the fold
+    // still advances through the older tail messages.
+    expect(fold.map((m) => m.id)).toEqual([
+      'm0',
+      ...messages.slice(1, 7).map((m) => m.id),
+    ]);
+  });
+});
+
+describe('buildSummarizerMessages', () => {
+  it('merges the previous summary with the new turns', () => {
+    const [system, user] = buildSummarizerMessages('- Agreed on Q3 scope', [
+      {
+        id: 'a',
+        role: 'user',
+        content: 'What about pricing?',
+        created_at: '2026-01-01T00:00:00Z',
+      },
+      {
+        id: 'b',
+        role: 'assistant',
+        content: 'Tiered pricing.',
+        created_at: '2026-01-01T00:01:00Z',
+      },
+    ]);
+
+    expect(system.role).toBe('system');
+    expect(user.role).toBe('user');
+    expect(user.content).toContain('Previous summary:\n- Agreed on Q3 scope');
+    expect(user.content).toContain(
+      '[user] What about pricing?\n\n[assistant] Tiered pricing.',
+    );
+  });
+
+  it('marks the first fold and truncates oversized turns', () => {
+    const [, user] = buildSummarizerMessages(null, [
+      {
+        id: 'a',
+        role: 'user',
+        content: 'y'.repeat(10_000),
+        created_at: '2026-01-01T00:00:00Z',
+      },
+    ]);
+    expect(user.content).toContain('(none — this is the start');
+    expect(user.content).toContain('[…truncated]');
+    expect((user.content as string).length).toBeLessThan(7_000);
+  });
+});
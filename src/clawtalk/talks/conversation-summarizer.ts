@@ -0,0 +1,339 @@
+// Rolling conversation summarizer.
+//
+// loadTalkContext budgets message history newest-first, so on a long
+// thread the oldest turns silently fall off the end of the window. This
+// module folds those turns into talk_context_summary (thread-scoped row,
+// migration 0039) so the model keeps the gist of what came before.
+//
+// Triggered from the queue consumer once a run completes. Each pass:
+//   1. reads the scope's current summary + everything after its
+//      (covers_through_created_at, covers_through_message_id) cursor —
+//      a pair that outlives the cursor message (migration 0070);
+//   2. does nothing until that unsummarized tail passes
+//      SUMMARY_TRIGGER_TOKENS;
+//   3. otherwise folds the oldest messages (leaving the most recent
+//      SUMMARY_KEEP_RECENT_TOKENS verbatim, at most
+//      SUMMARY_MAX_FOLD_TOKENS per pass) into the previous summary with
+//      one non-streaming LLM call on the Talk's agent;
+//   4. writes the result with a version check, so two consumers
+//      finishing runs in the same thread can't clobber each other.
+//
+// A very long backlog (e.g. a thread that predates summaries) catches up
+// one fold per completed run rather than in a single giant call.
+//
+// The reads and the write each run in their own owner transaction; the
+// LLM call between them holds no connection. The version check covers
+// anything that lands in between.
+
+import { getDbPg, withUserContext } from '../../db.js';
+import { logger } from '../../logger.js';
+import {
+  getTalkContextSummary,
+  writeTalkContextSummary,
+  type ContextSummarySnapshot,
+} from '../db/context-accessors.js';
+import {
+  getRegisteredAgent,
+  resolvePrimaryAgent,
+  type RegisteredAgentRecord,
+} from '../agents/agent-registry.js';
+import {
+  resolveExecution,
+  type ExecutionBinding,
+} from '../agents/execution-resolver.js';
+import { callLlm, type LlmMessage } from '../agents/llm-client.js';
+
+// Same heuristic as context-loader's CHARS_TO_TOKENS.
+const CHARS_TO_TOKENS = 0.25;
+
+// Unsummarized history (tokens) that triggers a fold. Well below every
+// supported model's window so the summary exists before turns start
+// falling out of the history budget.
+export const SUMMARY_TRIGGER_TOKENS = 12_000;
+
+// Most recent history left out of the fold. These turns are always
+// within the history budget anyway; summarizing them would only blur
+// the part of the conversation the model sees verbatim.
+export const SUMMARY_KEEP_RECENT_TOKENS = 4_000;
+
+// Cap on transcript tokens sent to the summarizer per pass.
+export const SUMMARY_MAX_FOLD_TOKENS = 24_000;
+
+// Per-message cap inside the fold transcript. A single pasted document
+// shouldn't crowd out the rest of the conversation.
+const SUMMARY_MAX_MESSAGE_CHARS = 6_000;
+
+// Bounds on the summary itself. The stored text is injected into every
+// run's system prompt, so it must stay small.
+const SUMMARY_MAX_OUTPUT_TOKENS = 1_200;
+const SUMMARY_MAX_STORED_CHARS = 6_000;
+
+const SUMMARIZER_TIMEOUT_MS = 90_000;
+
+const SUMMARIZER_SYSTEM_PROMPT = [
+  'You maintain a rolling summary of a long conversation between a user and one or more AI agents.',
+  'Merge the previous summary (if any) with the new turns into a single updated summary.',
+  'Keep: decisions made, open questions, commitments and to-dos, facts and figures the user supplied, and each agent’s key positions.',
+  'Drop: pleasantries, repetition, and reasoning that did not change the outcome.',
+  'Write concise bullet points in the past tense, grouped by topic. Do not address the user. Do not exceed 400 words.',
+  'Output only the summary.',
+].join('\n');
+
+export interface SummarizerMessageRow {
+  id: string;
+  role: string;
+  content: string;
+  created_at: string;
+}
+
+export type SummaryCompletion = (
+  messages: LlmMessage[],
+  signal: AbortSignal,
+) => Promise<string>;
+
+export interface RefreshConversationSummaryInput {
+  ownerId: string;
+  talkId: string;
+  threadId?: string | null;
+  // Agent to summarize with — normally the agent that just answered.
+  // Falls back to the Talk's primary agent.
+  agentId?: string | null;
+  // Test seam — defaults to one callLlm on the resolved agent.
+  complete?: SummaryCompletion;
+}
+
+export type RefreshConversationSummaryResult =
+  | { status: 'below_threshold'; pendingTokens: number }
+  | { status: 'no_agent' }
+  | { status: 'empty_summary' }
+  | { status: 'conflict' }
+  | { status: 'updated'; summary: ContextSummarySnapshot };
+
+// What one pass folds, read in the first transaction.
+interface FoldPlan {
+  previousSummary: string | null;
+  expectedVersion: number | null;
+  fold: SummarizerMessageRow[];
+  complete: SummaryCompletion;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length * CHARS_TO_TOKENS);
+}
+
+/**
+ * Choose which unsummarized messages (chronological) to fold this pass.
+ * Returns an empty array when the tail is still under the trigger.
+ */
+export function selectMessagesToFold(
+  messages: SummarizerMessageRow[],
+): SummarizerMessageRow[] {
+  const total = messages.reduce(
+    (sum, message) => sum + estimateTokens(message.content),
+    0,
+  );
+  if (total < SUMMARY_TRIGGER_TOKENS) return [];
+
+  // Walk back from the newest message to find the verbatim tail.
+  let tailTokens = 0;
+  let tailStart = messages.length;
+  while (tailStart > 0 && tailTokens < SUMMARY_KEEP_RECENT_TOKENS) {
+    tailStart -= 1;
+    tailTokens += estimateTokens(messages[tailStart].content);
+  }
+
+  const fold: SummarizerMessageRow[] = [];
+  let foldTokens = 0;
+  for (const message of messages.slice(0, tailStart)) {
+    const tokens = estimateTokens(
+      message.content.slice(0, SUMMARY_MAX_MESSAGE_CHARS),
+    );
+    // Always take at least one message so an oversized first turn
+    // can't wedge the cursor forever.
+    if (fold.length > 0 && foldTokens + tokens > SUMMARY_MAX_FOLD_TOKENS) {
+      break;
+    }
+    fold.push(message);
+    foldTokens += tokens;
+  }
+  return fold;
+}
+
+export function buildSummarizerMessages(
+  previousSummary: string | null,
+  fold: SummarizerMessageRow[],
+): LlmMessage[] {
+  const transcript = fold
+    .map((message) => {
+      const content =
+        message.content.length > SUMMARY_MAX_MESSAGE_CHARS
+          ? `${message.content.slice(0, SUMMARY_MAX_MESSAGE_CHARS)}\n[…truncated]`
+          : message.content;
+      return `[${message.role}] ${content}`;
+    })
+    .join('\n\n');
+  const parts = [
+    previousSummary
+      ? `Previous summary:\n${previousSummary}`
+      : 'Previous summary: (none — this is the start of the conversation)',
+    `New turns:\n${transcript}`,
+  ];
+  return [
+    { role: 'system', content: SUMMARIZER_SYSTEM_PROMPT },
+    { role: 'user', content: parts.join('\n\n') },
+  ];
+}
+
+/**
+ * Fold the oldest unsummarized turns of a Talk (or one of its threads)
+ * into its rolling summary if the unsummarized tail has grown past the
+ * trigger. Opens `withUserContext(ownerId, ...)` itself, once to read
+ * and once to write; call it outside a user context.
+ */
+export async function refreshConversationSummary(
+  input: RefreshConversationSummaryInput,
+): Promise<RefreshConversationSummaryResult> {
+  const threadId = input.threadId ?? null;
+  const plan = await withUserContext(input.ownerId, () =>
+    planFold(input, threadId),
+  );
+  if ('status' in plan) return plan;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    controller.abort('summarizer_timeout');
+  }, SUMMARIZER_TIMEOUT_MS);
+  let summaryText: string;
+  try {
+    summaryText = (
+      await plan.complete(
+        buildSummarizerMessages(plan.previousSummary, plan.fold),
+        controller.signal,
+      )
+    )
+      .trim()
+      .slice(0, SUMMARY_MAX_STORED_CHARS);
+  } finally {
+    clearTimeout(timer);
+  }
+  if (!summaryText) return { status: 'empty_summary' };
+
+  const last = plan.fold[plan.fold.length - 1];
+  const written = await withUserContext(input.ownerId, () =>
+    writeTalkContextSummary({
+      ownerId: input.ownerId,
+      talkId: input.talkId,
+      threadId,
+      summaryText,
+      coversThroughMessageId: last.id,
+      coversThroughCreatedAt: last.created_at,
+      expectedVersion: plan.expectedVersion,
+    }),
+  );
+  if (!written) {
+    logger.debug(
+      { talkId: input.talkId, threadId },
+      'conversation-summarizer: lost version race, dropping fold',
+    );
+    return { status: 'conflict' };
+  }
+  return { status: 'updated', summary: written };
+}
+
+async function planFold(
+  input: RefreshConversationSummaryInput,
+  threadId: string | null,
+): Promise<FoldPlan | RefreshConversationSummaryResult> {
+  const current = await getTalkContextSummary(input.talkId, threadId);
+  // A summary written before 0070 whose cursor message was deleted has
+  // lost its position. Rebuild it from the start of the history rather
+  // than fold covered turns into it a second time.
+  const cursor =
+    current?.coversThroughCreatedAt && current.coversThroughMessageId
+      ? {
+          id: current.coversThroughMessageId,
+          createdAt: current.coversThroughCreatedAt,
+        }
+      : null;
+  const pending = await listMessagesAfterCursor(input.talkId, threadId, cursor);
+  const fold = selectMessagesToFold(pending);
+  if (fold.length === 0) {
+    return {
+      status: 'below_threshold',
+      pendingTokens: pending.reduce(
+        (sum, message) => sum + estimateTokens(message.content),
+        0,
+      ),
+    };
+  }
+
+  let complete = input.complete;
+  if (!complete) {
+    const agent = await resolveSummarizerAgent(input.talkId, input.agentId);
+    if (!agent) return { status: 'no_agent' };
+    // Resolved here: the credential read needs the owner's context.
+    const binding = await resolveExecution(agent);
+    complete = (messages, signal) =>
+      completeWithAgent(agent, binding, messages, signal);
+  }
+  return {
+    previousSummary: cursor ? (current?.summaryText ?? null) : null,
+    expectedVersion: current?.version ?? null,
+    fold,
+    complete,
+  };
+}
+
+async function listMessagesAfterCursor(
+  talkId: string,
+  threadId: string | null,
+  cursor: { id: string; createdAt: string } | null,
+): Promise<SummarizerMessageRow[]> {
+  const db = getDbPg();
+  const cursorId = cursor?.id ?? null;
+  const cursorCreatedAt = cursor?.createdAt ?? null;
+
+  // Same (created_at, id) ordering + tie-break as loadMessageHistory.
+  return db<SummarizerMessageRow[]>`
+    select id, role, content, created_at
+    from public.talk_messages
+    where talk_id = ${talkId}::uuid
+      and (${threadId}::uuid is null or thread_id = ${threadId}::uuid)
+      and role in ('user', 'assistant')
+      and (
+        ${cursorId}::uuid is null
+        or created_at > ${cursorCreatedAt}::timestamptz
+        or (created_at = ${cursorCreatedAt}::timestamptz and id > ${cursorId}::uuid)
+      )
+    order by created_at asc, id asc
+  `;
+}
+
+async function resolveSummarizerAgent(
+  talkId: string,
+  agentId?: string | null,
+): Promise<RegisteredAgentRecord | null> {
+  if (agentId) {
+    const agent = await getRegisteredAgent(agentId);
+    if (agent?.enabled) return agent;
+  }
+  return (await resolvePrimaryAgent(talkId)) ?? null;
+}
+
+async function completeWithAgent(
+  agent: RegisteredAgentRecord,
+  binding: ExecutionBinding,
+  messages: LlmMessage[],
+  signal: AbortSignal,
+): Promise<string> {
+  const response = await callLlm(
+    binding.providerConfig,
+    binding.secret,
+    agent.model_id,
+    messages,
+    { maxOutputTokens: SUMMARY_MAX_OUTPUT_TOKENS, signal },
+  );
+  // callLlm substitutes a placeholder for an empty completion; never
+  // persist that as a summary.
+  return response.content === 'No response generated.' ? '' : response.content;
+}
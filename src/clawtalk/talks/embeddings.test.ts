@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  cosineSimilarity,
+  createHashEmbeddingProvider,
+  createOpenAiEmbeddingProvider,
+  EmbeddingProviderError,
+  hashEmbed,
+} from './embeddings.js';
+
+describe('hash embeddings', () => {
+  it('is deterministic and unit length', async () => {
+    const provider = createHashEmbeddingProvider();
+    const [a, b] = await provider.embed([
+      'Quarterly revenue grew',
+      'Quarterly revenue grew',
+    ]);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(256);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 6);
+  });
+
+  it('scores lexical overlap above unrelated text', () => {
+    const query = hashEmbed('pricing tiers for the enterprise plan');
+    const related = hashEmbed(
+      'The enterprise plan has three pricing tiers billed annually.',
+    );
+    const unrelated = hashEmbed('Kickoff is at noon on the north field.');
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(
+      cosineSimilarity(query, unrelated),
+    );
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(
+      createHashEmbeddingProvider().minScore,
+    );
+  });
+
+  it('returns a zero vector for text with no tokens', () => {
+    expect(hashEmbed('the and for').every((value) => value === 0)).toBe(true);
+    expect(cosineSimilarity(hashEmbed(''), hashEmbed('revenue'))).toBe(0);
+  });
+});
+
+describe('createOpenAiEmbeddingProvider', () => {
+  it('posts batches and normalizes the returned vectors', async () => {
+    const fetchImpl = vi.fn(async () =>
+      Response.json({
+        data: [
+          { index: 1, embedding: [0, 2] },
+          { index: 0, embedding: [3, 4] },
+        ],
+      }),
+    );
+    const provider = createOpenAiEmbeddingProvider({
+      apiKey: 'sk-test',
+      baseUrl: 'https://embeddings.example/v1/',
+      fetchImpl: fetchImpl as unknown as typeof fetch,
+    });
+
+    const vectors = await provider.embed(['a', 'b']);
+
+    expect(vectors[0][0]).toBeCloseTo(0.6, 9);
+    expect(vectors[0][1]).toBeCloseTo(0.8, 9);
+    expect(vectors[1]).toEqual([0, 1]);
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe('https://embeddings.example/v1/embeddings');
+    expect(JSON.parse(String(init.body))).toEqual({
+      model: 'text-embedding-3-small',
+      input: ['a', 'b'],
+    });
+  });
+
+  it('throws on HTTP errors and short responses', async () => {
+    const failing = createOpenAiEmbeddingProvider({
+      apiKey: 'sk-test',
+      baseUrl: 'https://embeddings.example/v1',
+      fetchImpl: (async () =>
+        new Response('nope', { status: 429 })) as unknown as typeof fetch,
+    });
+    await expect(failing.embed(['a'])).rejects.toBeInstanceOf(
+      EmbeddingProviderError,
+    );
+
+    const short = createOpenAiEmbeddingProvider({
+      apiKey: 'sk-test',
+      baseUrl: 'https://embeddings.example/v1',
+      fetchImpl: (async () =>
+        Response.json({ data: [] })) as unknown as typeof fetch,
+    });
+    await expect(short.embed(['a'])).rejects.toThrow(/0 vectors for 1/);
+  });
+});
@@ -0,0 +1,263 @@
+// Embedding providers for source-chunk retrieval.
+//
+// Providers are pluggable behind `EmbeddingProvider`; the loader asks
+// `getEmbeddingProvider()` for the configured one. Chunk rows record the
+// provider id and model that produced their vectors, so switching
+// providers re-indexes instead of comparing vectors from different
+// spaces.
+//
+// `hash` is the deterministic local fallback: feature-hashed unigrams and
+// bigrams, L2-normalized. It needs no network or credentials, which makes
+// it the default for dev and the provider every test uses. It captures
+// lexical overlap only — no synonyms — so production deployments should
+// point TALK_CONTEXT_EMBEDDING_PROVIDER at a real model.
+
+import {
+  TALK_CONTEXT_EMBEDDING_API_KEY,
+  TALK_CONTEXT_EMBEDDING_BASE_URL,
+  TALK_CONTEXT_EMBEDDING_MODEL,
+  TALK_CONTEXT_EMBEDDING_PROVIDER,
+} from '../config.js';
+import { logger } from '../../logger.js';
+
+export interface EmbeddingProvider {
+  /** Stable id stored on chunk rows, e.g. 'hash' or 'openai'. */
+  id: string;
+  model: string;
+  /**
+   * Cosine similarity below which a chunk is noise for this provider.
+   * Scores are not comparable across providers, so each sets its own.
+   */
+  minScore: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// ---------------------------------------------------------------------------
+// Hash embeddings
+// ---------------------------------------------------------------------------
+
+const HASH_EMBEDDING_DIMENSIONS = 256;
+
+const HASH_STOPWORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'are',
+  'but',
+  'not',
+  'you',
+  'all',
+  'any',
+  'can',
+  'has',
+  'have',
+  'was',
+  'were',
+  'this',
+  'that',
+  'with',
+  'from',
+  'they',
+  'them',
+  'what',
+  'which',
+  'when',
+  'where',
+  'will',
+  'would',
+  'about',
+  'into',
+  'your',
+  'our',
+  'its',
+  'there',
+  'their',
+  'been',
+  'also',
+]);
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function tokenizeForEmbedding(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= 2 && !HASH_STOPWORDS.has(token));
+}
+
+export function hashEmbed(
+  text: string,
+  dimensions = HASH_EMBEDDING_DIMENSIONS,
+): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenizeForEmbedding(text);
+  const features: string[] = [...tokens];
+  for (let i = 0; i + 1 < tokens.length; i++) {
+    features.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  const counts = new Map<string, number>();
+  for (const feature of features) {
+    counts.set(feature, (counts.get(feature) ?? 0) + 1);
+  }
+  for (const [feature, count] of counts) {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign so colliding features tend to cancel
+    // rather than pile up in one bucket.
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(count));
+  }
+  return normalizeVector(vector);
+}
+
+export function createHashEmbeddingProvider(): EmbeddingProvider {
+  return {
+    id: 'hash',
+    model: `fnv1a-${HASH_EMBEDDING_DIMENSIONS}`,
+    minScore: 0.12,
+    async embed(texts) {
+      return texts.map((text) => hashEmbed(text));
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible embeddings
+// ---------------------------------------------------------------------------
+
+const OPENAI_EMBEDDING_BATCH_SIZE = 64;
+const OPENAI_EMBEDDING_TIMEOUT_MS = 20_000;
+const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+export class EmbeddingProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+export function createOpenAiEmbeddingProvider(input: {
+  apiKey: string;
+  baseUrl: string;
+  model?: string;
+  fetchImpl?: typeof fetch;
+}): EmbeddingProvider {
+  const model = input.model || DEFAULT_OPENAI_EMBEDDING_MODEL;
+  const endpoint = `${input.baseUrl.replace(/\/+$/, '')}/embeddings`;
+  const fetchImpl = input.fetchImpl ?? fetch;
+  return {
+    id: 'openai',
+    model,
+    minScore: 0.25,
+    async embed(texts) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += OPENAI_EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(i, i + OPENAI_EMBEDDING_BATCH_SIZE);
+        const response = await fetchImpl(endpoint, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            authorization: `Bearer ${input.apiKey}`,
+          },
+          body: JSON.stringify({ model, input: batch }),
+          signal: AbortSignal.timeout(OPENAI_EMBEDDING_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new EmbeddingProviderError(
+            `Embedding request failed with HTTP ${response.status}`,
+          );
+        }
+        const body = (await response.json()) as {
+          data?: Array<{ index?: number; embedding?: unknown }>;
+        };
+        const data = [...(body.data ?? [])].sort(
+          (a, b) => (a.index ?? 0) - (b.index ?? 0),
+        );
+        if (data.length !== batch.length) {
+          throw new EmbeddingProviderError(
+            `Embedding response had ${data.length} vectors for ${batch.length} inputs`,
+          );
+        }
+        for (const item of data) {
+          if (!Array.isArray(item.embedding)) {
+            throw new EmbeddingProviderError(
+              'Embedding response is missing a vector',
+            );
+          }
+          vectors.push(normalizeVector(item.embedding.map(Number)));
+        }
+      }
+      return vectors;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+let providerOverride: EmbeddingProvider | null = null;
+let configuredProvider: EmbeddingProvider | null = null;
+
+/** Test seam: force a provider (null restores the configured one). */
+export function setEmbeddingProviderForTests(
+  provider: EmbeddingProvider | null,
+): void {
+  providerOverride = provider;
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (providerOverride) return providerOverride;
+  if (configuredProvider) return configuredProvider;
+
+  if (TALK_CONTEXT_EMBEDDING_PROVIDER === 'openai') {
+    if (TALK_CONTEXT_EMBEDDING_API_KEY) {
+      configuredProvider = createOpenAiEmbeddingProvider({
+        apiKey: TALK_CONTEXT_EMBEDDING_API_KEY,
+        baseUrl: TALK_CONTEXT_EMBEDDING_BASE_URL,
+        model: TALK_CONTEXT_EMBEDDING_MODEL,
+      });
+      return configuredProvider;
+    }
+    logger.warn(
+      '[embeddings] TALK_CONTEXT_EMBEDDING_PROVIDER=openai but no API key is set; using hash embeddings',
+    );
+  } else if (TALK_CONTEXT_EMBEDDING_PROVIDER !== 'hash') {
+    logger.warn(
+      { provider: TALK_CONTEXT_EMBEDDING_PROVIDER },
+      '[embeddings] Unknown embedding provider; using hash embeddings',
+    );
+  }
+  configuredProvider = createHashEmbeddingProvider();
+  return configuredProvider;
+}
+
+// ---------------------------------------------------------------------------
+// Vector math
+// ---------------------------------------------------------------------------
+
+export function normalizeVector(vector: number[]): number[] {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  if (norm === 0) return vector;
+  const scale = 1 / Math.sqrt(norm);
+  return vector.map((value) => value * scale);
+}
+
+/**
+ * Cosine similarity. Vectors from every provider are normalized on the
+ * way in, so this is a dot product; mismatched lengths score 0 rather
+ * than throw, since they can only come from a stale index.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
@@ -235,6 +235,39 @@ describe('buildTalkThreadEventFilter', () => {
     });
   });
 
+  describe('talk_usage_budget_warning (thread-scoped)', () => {
+    it('follows the run thread', () => {
+      const event = (threadId: string) =>
+        makeEvent('talk_usage_budget_warning', {
+          talkId: 'talk-1',
+          threadId,
+          runId: 'run-1',
+          message: 'Workspace daily usage has passed its warning threshold.',
+        });
+      expect(filter(event('thread-A'))).toBe(true);
+      expect(filter(event('thread-B'))).toBe(false);
+    });
+  });
+
+  describe('talk_tool_approval_* (thread-scoped)', () => {
+    it('follows the run thread for requests and resolutions', () => {
+      for (const type of [
+        'talk_tool_approval_requested',
+        'talk_tool_approval_resolved',
+      ]) {
+        const event = (threadId: string) =>
+          makeEvent(type, {
+            talkId: 'talk-1',
+            threadId,
+            runId: 'run-1',
+            approvalId: 'approval-1',
+          });
+        expect(filter(event('thread-A'))).toBe(true);
+        expect(filter(event('thread-B'))).toBe(false);
+      }
+    });
+  });
+
   describe('talk_tools_changed (Talk-level, thread-agnostic)', () => {
     it('accepts talk_tools_changed regardless of payload threadId — chip bar is Talk-level', () => {
       expect(
@@ -288,4 +321,27 @@ describe('buildTalkThreadEventFilter', () => {
       ).toBe(true);
     });
   });
+
+  describe('debate round events (thread-scoped)', () => {
+    for (const event_type of [
+      'talk_round_queued',
+      'talk_round_started',
+      'talk_round_completed',
+      'talk_round_failed',
+      'talk_round_cancelled',
+    ]) {
+      it(`routes ${event_type} by threadId`, () => {
+        expect(
+          filter(
+            makeEvent(event_type, { threadId: 'thread-A', roundNumber: 2 }),
+          ),
+        ).toBe(true);
+        expect(
+          filter(
+            makeEvent(event_type, { threadId: 'thread-B', roundNumber: 2 }),
+          ),
+        ).toBe(false);
+      });
+    }
+  });
 });
@@ -52,11 +52,15 @@ export function buildTalkThreadEventFilter(
       case 'browser_unblocked':
       case 'talk_response_started':
       case 'talk_progress_update':
+      case 'talk_reasoning_delta':
       case 'talk_response_delta':
       case 'talk_response_usage':
       case 'talk_response_completed':
       case 'talk_response_failed':
       case 'talk_response_cancelled':
+      case 'talk_response_paused':
+      case 'talk_run_paused':
+      case 'talk_run_continued':
         return payload.threadId === threadId;
       case 'talk_run_cancelled':
       case 'talk_history_edited':
@@ -90,6 +94,23 @@ export function buildTalkThreadEventFilter(
       // talk_runs row so the right thread's LiveResponsePanel updates.
       case 'talk_run_retrying':
         return payload.threadId === threadId;
+      // Usage budget soft-limit warning (migration 0045), raised for the
+      // run that crossed it.
+      case 'talk_usage_budget_warning':
+        return payload.threadId === threadId;
+      // Tool approval (migration 0046): a paused tool call on one run,
+      // and its decision or timeout.
+      case 'talk_tool_approval_requested':
+      case 'talk_tool_approval_resolved':
+        return payload.threadId === threadId;
+      // Debate rounds (migration 0042): one talk_rounds row per round,
+      // always bound to the thread its trigger message lives in.
+      case 'talk_round_queued':
+      case 'talk_round_started':
+      case 'talk_round_completed':
+      case 'talk_round_failed':
+      case 'talk_round_cancelled':
+        return payload.threadId === threadId;
       default:
         // New event types must be added to this switch to be visible in
         // thread-scoped streams. Unknown events are excluded by default.
@@ -1,3 +1,5 @@
+import type { LlmMessage } from '../agents/llm-client.js';
+
 export interface TalkJobExecutionPolicy {
   jobId: string;
   allowedConnectorIds: string[];
@@ -22,12 +24,59 @@ export interface TalkExecutorInput {
   targetAgentId?: string | null;
   responseGroupId?: string | null;
   sequenceIndex?: number | null;
+  // Usage-budget guard, called between tool-loop iterations with the
+  // run's usage so far. Throws TalkExecutorError('budget_exceeded').
+  checkUsageBudget?: (usage: TalkExecutionUsage) => void;
+  // Human-in-the-loop gate for tools the user marked "requires approval".
+  // Parks the run until the user decides or the approval times out.
+  requestToolApproval?: (
+    request: TalkToolApprovalRequest,
+  ) => Promise<TalkToolApprovalOutcome>;
+  // Set when the run is resuming from a pause at the tool-iteration
+  // limit: the tool loop picks up from the saved transcript with the
+  // granted iterations instead of starting over.
+  continuation?: TalkRunContinuation | null;
+}
+
+/**
+ * In-flight state of a run paused at the tool-iteration limit
+ * (talk_runs.continuation_json, migration 0054). `transcript` is every
+ * message after the prior conversation — the user turn and the
+ * assistant / tool turns since — so the resumed run rebuilds the rest
+ * of the prompt fresh.
+ */
+export interface TalkRunContinuation {
+  reason: 'tool_iteration_limit';
+  agentId: string;
+  transcript: LlmMessage[];
+  /** Reply text streamed before the pause. */
+  content: string;
+  /** Tool-loop iterations used so far, across every grant. */
+  iterationsUsed: number;
+  usage: TalkExecutionUsage;
+  pausedAt: string;
+  /** Iterations granted for the next leg; null while paused. */
+  grantedIterations: number | null;
+  /** Whether the job policy already granted its one automatic leg. */
+  autoGranted: boolean;
+}
+
+export interface TalkToolApprovalRequest {
+  approvalId: string;
+  agentId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  actionSummary: string;
 }
 
+export type TalkToolApprovalOutcome = 'approved' | 'denied' | 'expired';
+
 export interface TalkExecutionUsage {
   inputTokens?: number;
   cachedInputTokens?: number;
   outputTokens?: number;
+  /** Share of outputTokens the provider reports as thinking. */
+  reasoningTokens?: number;
   estimatedCostUsd?: number;
 }
 
@@ -79,6 +128,22 @@ export type TalkExecutionEvent =
       modelId?: string | null;
       message: string;
     }
+  | {
+      // Reasoning summary text, kept apart from the reply so the UI can
+      // show it collapsed. Never persisted with the message.
+      type: 'talk_reasoning_delta';
+      runId: string;
+      talkId: string;
+      threadId?: string | null;
+      agentId?: string | null;
+      agentNickname?: string | null;
+      responseGroupId?: string | null;
+      sequenceIndex?: number | null;
+      deltaText: string;
+      routeStepPosition?: number | null;
+      providerId?: string | null;
+      modelId?: string | null;
+    }
   | {
       type: 'talk_response_usage';
       runId: string;
@@ -123,6 +188,21 @@ export type TalkExecutionEvent =
       errorMessage: string;
       completion?: TalkResponseCompletionMetadata;
     }
+  | {
+      // The run stopped at the tool-iteration limit and waits for more
+      // iterations (talk_runs.status 'paused'); not terminal.
+      type: 'talk_response_paused';
+      runId: string;
+      talkId: string;
+      threadId?: string | null;
+      agentId?: string | null;
+      agentNickname?: string | null;
+      responseGroupId?: string | null;
+      sequenceIndex?: number | null;
+      providerId?: string | null;
+      modelId?: string | null;
+      iterationsUsed: number;
+    }
   | {
       type: 'talk_response_cancelled';
       runId: string;
@@ -180,6 +260,31 @@ export class TalkExecutorError extends Error {
   }
 }
 
+/**
+ * Thrown out of the executor when a run pauses at the tool-iteration
+ * limit. Not a failure: the queue consumer parks the run with the
+ * continuation instead of failing it.
+ */
+export class TalkRunPausedError extends Error {
+  readonly continuation: Omit<
+    TalkRunContinuation,
+    'grantedIterations' | 'autoGranted'
+  >;
+
+  constructor(
+    continuation: Omit<
+      TalkRunContinuation,
+      'grantedIterations' | 'autoGranted'
+    >,
+  ) {
+    super(
+      `Paused after ${continuation.iterationsUsed} tool iterations; waiting for more`,
+    );
+    this.continuation = continuation;
+    this.name = 'TalkRunPausedError';
+  }
+}
+
 export interface TalkExecutor {
   execute(
     input: TalkExecutorInput,
@@ -0,0 +1,266 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../identity/google-tools-service.js', () => ({
+  getValidGoogleToolAccessToken: vi.fn(),
+  performRefresh: vi.fn(),
+}));
+vi.mock('../db/talk-tools-accessors.js', () => ({
+  createTalkResourceBinding: vi.fn(),
+  getUserGoogleCredential: vi.fn(),
+  listTalkResourceBindings: vi.fn(),
+}));
+
+import { GoogleToolCredentialError } from '../identity/google-tools-errors.js';
+import { getValidGoogleToolAccessToken } from '../identity/google-tools-service.js';
+import {
+  buildGmailContextTools,
+  buildGmailRawMessage,
+  executeGmailTalkTool,
+  extractGmailMessageText,
+} from './gmail-tools.js';
+
+const getTokenMock = vi.mocked(getValidGoogleToolAccessToken);
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function b64url(text: string): string {
+  return Buffer.from(text, 'utf8').toString('base64url');
+}
+
+function run(toolName: string, args: Record<string, unknown> = {}) {
+  return executeGmailTalkTool({
+    userId: 'user-1',
+    toolName,
+    args,
+    signal: new AbortController().signal,
+  });
+}
+
+beforeEach(() => {
+  getTokenMock.mockResolvedValue({
+    accessToken: 'access-1',
+  } as Awaited<ReturnType<typeof getValidGoogleToolAccessToken>>);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  getTokenMock.mockReset();
+});
+
+describe('buildGmailContextTools', () => {
+  it('advertises read and send tools per family', () => {
+    const names = (input: { readEnabled: boolean; sendEnabled: boolean }) =>
+      buildGmailContextTools(input).map((tool) => tool.name);
+    expect(names({ readEnabled: true, sendEnabled: false })).toEqual([
+      'gmail_search',
+      'gmail_read_thread',
+      'gmail_list_labels',
+    ]);
+    expect(names({ readEnabled: false, sendEnabled: true })).toEqual([
+      'gmail_send',
+    ]);
+  });
+});
+
+describe('extractGmailMessageText', () => {
+  it('prefers the text/plain part and falls back to stripped html', () => {
+    expect(
+      extractGmailMessageText({
+        mimeType: 'multipart/alternative',
+        parts: [
+          { mimeType: 'text/html', body: { data: b64url('<p>html</p>') } },
+          { mimeType: 'text/plain', body: { data: b64url('plain body') } },
+        ],
+      }),
+    ).toBe('plain body');
+    expect(
+      extractGmailMessageText({
+        mimeType: 'text/html',
+        body: { data: b64url('<p>Hi &amp; bye</p><br>next') },
+      }),
+    ).toBe('Hi & bye\n\nnext');
+  });
+});
+
+describe('buildGmailRawMessage', () => {
+  it('encodes a non-ASCII subject and base64s the body', () => {
+    const raw = buildGmailRawMessage({
+      to: ['ana@example.com'],
+      cc: [],
+      bcc: ['audit@example.com'],
+      subject: 'Café plans',
+      body: 'See you at 8.',
+    });
+    expect(raw).toContain('To: ana@example.com\r\n');
+    expect(raw).toContain('Bcc: audit@example.com\r\n');
+    expect(raw).not.toContain('Cc: ');
+    expect(raw).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from('Café plans').toString('base64')}?=`,
+    );
+    expect(raw.split('\r\n\r\n')[1]).toBe(
+      Buffer.from('See you at 8.').toString('base64'),
+    );
+  });
+});
+
+describe('executeGmailTalkTool', () => {
+  it('gmail_search lists messages with their headers', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(
+        jsonResponse({ messages: [{ id: 'm1' }], resultSizeEstimate: 1 }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          id: 'm1',
+          threadId: 't1',
+          snippet: 'Numbers attached',
+          labelIds: ['INBOX'],
+          payload: {
+            headers: [
+              { name: 'From', value: 'Ana <ana@example.com>' },
+              { name: 'Subject', value: 'Q3' },
+            ],
+          },
+        }),
+      );
+
+    const result = await run('gmail_search', {
+      query: 'from:ana',
+      maxResults: 100,
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.result)).toMatchObject({
+      query: 'from:ana',
+      resultSizeEstimate: 1,
+      messages: [
+        {
+          id: 'm1',
+          threadId: 't1',
+          from: 'Ana <ana@example.com>',
+          subject: 'Q3',
+          snippet: 'Numbers attached',
+          labelIds: ['INBOX'],
+        },
+      ],
+    });
+    const listUrl = new URL(String(fetchSpy.mock.calls[0][0]));
+    expect(listUrl.searchParams.get('q')).toBe('from:ana');
+    expect(listUrl.searchParams.get('maxResults')).toBe('25');
+    expect(getTokenMock).toHaveBeenCalledWith({
+      userId: 'user-1',
+      requiredScopes: ['gmail.readonly'],
+    });
+  });
+
+  it('gmail_read_thread rejects ids that would escape the URL path', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const result = await run('gmail_read_thread', { threadId: '../labels' });
+    expect(result.isError).toBe(true);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('gmail_send posts a base64url message with the send scope', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(jsonResponse({ id: 'sent-1', threadId: 't9' }));
+
+    const result = await run('gmail_send', {
+      to: ['ana@example.com'],
+      subject: 'Hello',
+      body: 'Hi Ana',
+      threadId: 't9',
+    });
+
+    expect(JSON.parse(result.result)).toMatchObject({
+      sent: true,
+      messageId: 'sent-1',
+      threadId: 't9',
+    });
+    expect(getTokenMock).toHaveBeenCalledWith({
+      userId: 'user-1',
+      requiredScopes: ['gmail.send'],
+    });
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe(
+      'https://gmail.googleapis.com/gmail/v1/users/me/messages/send',
+    );
+    const body = JSON.parse(String(init?.body)) as {
+      raw: string;
+      threadId: string;
+    };
+    expect(body.threadId).toBe('t9');
+    expect(Buffer.from(body.raw, 'base64url').toString('utf8')).toContain(
+      'To: ana@example.com\r\nSubject: Hello\r\n',
+    );
+  });
+
+  it('gmail_send rejects header injection and bad addresses', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const injected = await run('gmail_send', {
+      to: ['ana@example.com'],
+      subject: 'Hi\r\nBcc: eve@example.com',
+      body: 'x',
+    });
+    expect(injected.isError).toBe(true);
+    const badAddress = await run('gmail_send', {
+      to: ['ana@example.com\r\nBcc: eve@example.com'],
+      subject: 'Hi',
+      body: 'x',
+    });
+    expect(badAddress.isError).toBe(true);
+    expect(badAddress.result).toContain('invalid email address');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('gmail_send is blocked when jobPolicy.allowExternalMutation is false (C6)', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const result = await executeGmailTalkTool({
+      userId: 'user-1',
+      toolName: 'gmail_send',
+      args: { to: ['ana@example.com'], subject: 'Hi', body: 'x' },
+      signal: new AbortController().signal,
+      jobPolicy: { allowExternalMutation: false },
+    });
+    expect(result.isError).toBe(true);
+    expect(result.result).toContain('external_mutation_blocked');
+    expect(getTokenMock).not.toHaveBeenCalled();
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('turns a missing Gmail scope into an actionable tool error', async () => {
+    getTokenMock.mockRejectedValueOnce(
+      new GoogleToolCredentialError(
+        'google_scopes_missing',
+        'Google account is missing required scopes: gmail.send',
+        400,
+        { missingScopes: ['gmail.send'] },
+      ),
+    );
+    const result = await run('gmail_send', {
+      to: ['ana@example.com'],
+      subject: 'Hi',
+      body: 'x',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.result).toContain('(missing: gmail.send)');
+    expect(result.result).toContain('add Gmail access');
+  });
+
+  it('surfaces a failed Gmail call as gmail_api_error', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+      jsonResponse({ error: { message: 'nope' } }, 500),
+    );
+    const result = await run('gmail_list_labels');
+    expect(result).toEqual({
+      result: 'gmail_api_error: Gmail request failed with HTTP 500.',
+      isError: true,
+    });
+  });
+});
@@ -0,0 +1,675 @@
+// Gmail tool executors for Talks.
+//
+// Surface:
+//   - `buildGmailContextTools({ readEnabled, sendEnabled })` —
+//     LlmToolDefinition[] for context-loader to merge in. Same D4 rule as
+//     the Drive tools: schemas are advertised whenever the family is
+//     enabled, and credential / scope gating happens at call time.
+//   - `executeGmailTalkTool({...})` — dispatcher for the 4 tools:
+//       gmail_search, gmail_read_thread, gmail_list_labels (gmail_read)
+//       gmail_send (gmail_send)
+//
+// Gmail has no bindings: the tools act on the connected Google account's
+// own mailbox, so the only gates are the family toggle and OAuth scopes.
+//
+// Security boundaries:
+//   - Scopes: reads need `gmail.readonly`, sends need `gmail.send`. Both
+//     are opt-in from Settings; a credential without them gets a typed
+//     `google_scopes_missing` error telling the agent to ask for them.
+//   - Sends are never silent. The gmail_send family always requires
+//     approval (agent-accessors.ts ALWAYS_APPROVE_FAMILIES), so the user
+//     sees the drafted message in the approval banner before it goes out.
+//   - C6: `gmail_send` checks `jobPolicy.allowExternalMutation` like the
+//     Docs/Sheets mutation tools; scheduled jobs cannot send by default.
+//   - Header injection: recipients and subject are rejected if they carry
+//     CR/LF, and message/thread ids are restricted to Gmail's id alphabet
+//     before they are put in a URL path.
+//   - D2: every Gmail fetch goes through `withTokenRefresh`.
+
+import { type LlmToolDefinition } from '../agents/llm-client.js';
+import { GoogleToolCredentialError } from '../identity/google-tools-errors.js';
+import {
+  errorFromCredential,
+  googleFetch,
+  withTokenRefresh,
+  type GoogleDriveJobPolicy,
+} from './google-drive-tools.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const GMAIL_API_BASE = 'https://gmail.googleapis.com/gmail/v1/users/me';
+const GMAIL_READ_SCOPES = ['gmail.readonly'];
+const GMAIL_SEND_SCOPES = ['gmail.send'];
+const MAX_TEXT_RESPONSE_BYTES = 2 * 1024 * 1024;
+const DEFAULT_SEARCH_RESULTS = 10;
+const MAX_SEARCH_RESULTS = 25;
+const MAX_THREAD_MESSAGES = 20;
+const MAX_MESSAGE_BODY_CHARS = 8000;
+const MAX_SEND_RECIPIENTS = 20;
+const MAX_SEND_BODY_CHARS = 50_000;
+const MAX_SUBJECT_CHARS = 500;
+const GMAIL_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>,;:"()[\]\\]+@[^\s@<>,;:"()[\]\\]+$/;
+
+export const GMAIL_READ_TOOL_NAMES = [
+  'gmail_search',
+  'gmail_read_thread',
+  'gmail_list_labels',
+] as const;
+export const GMAIL_SEND_TOOL_NAMES = ['gmail_send'] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type JsonMap = Record<string, unknown>;
+
+type ExecutorResult = { result: string; isError?: boolean };
+
+type GmailMessageSummary = {
+  id: string;
+  threadId: string | null;
+  from: string | null;
+  to: string | null;
+  subject: string | null;
+  date: string | null;
+  snippet: string;
+  labelIds: string[];
+};
+
+type ToolContext = {
+  userId: string;
+  args: Record<string, unknown>;
+  signal: AbortSignal;
+  jobPolicy: GoogleDriveJobPolicy | null;
+};
+
+// ---------------------------------------------------------------------------
+// Tool schemas (D4 always-advertise)
+// ---------------------------------------------------------------------------
+
+const READ_TOOL_DEFINITIONS: LlmToolDefinition[] = [
+  {
+    name: 'gmail_search',
+    description:
+      "Search the user's Gmail with Gmail search syntax (e.g. `from:alice newer_than:7d`, `subject:invoice is:unread`). Returns sender, subject, date and a snippet per message; use gmail_read_thread for the full conversation.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description:
+            'Gmail search query, same syntax as the Gmail search box.',
+        },
+        maxResults: {
+          type: 'number',
+          description: `Optional maximum number of messages to return (default ${DEFAULT_SEARCH_RESULTS}, max ${MAX_SEARCH_RESULTS}).`,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'gmail_read_thread',
+    description:
+      'Read every message in a Gmail thread as plain text, oldest first. Use a threadId returned by gmail_search.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        threadId: {
+          type: 'string',
+          description: 'Gmail thread id.',
+        },
+      },
+      required: ['threadId'],
+    },
+  },
+  {
+    name: 'gmail_list_labels',
+    description:
+      "List the labels in the user's Gmail, so searches can filter with `label:`.",
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+const SEND_TOOL_DEFINITIONS: LlmToolDefinition[] = [
+  {
+    name: 'gmail_send',
+    description:
+      "Send a plain-text email from the user's Gmail account. The user is shown the full draft (recipients, subject and body) and must approve it before it is sent, so write the message exactly as it should go out. To reply in an existing conversation, pass its threadId and reuse the thread's subject.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Recipient email addresses.',
+        },
+        cc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional Cc addresses.',
+        },
+        bcc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional Bcc addresses.',
+        },
+        subject: {
+          type: 'string',
+          description: 'Subject line.',
+        },
+        body: {
+          type: 'string',
+          description: 'Plain-text message body.',
+        },
+        threadId: {
+          type: 'string',
+          description: 'Optional Gmail thread id to send the message into.',
+        },
+      },
+      required: ['to', 'subject', 'body'],
+    },
+  },
+];
+
+export function buildGmailContextTools(input: {
+  readEnabled: boolean;
+  sendEnabled: boolean;
+}): LlmToolDefinition[] {
+  const tools: LlmToolDefinition[] = [];
+  if (input.readEnabled) tools.push(...READ_TOOL_DEFINITIONS);
+  if (input.sendEnabled) tools.push(...SEND_TOOL_DEFINITIONS);
+  return tools;
+}
+
+// ---------------------------------------------------------------------------
+// Generic helpers
+// ---------------------------------------------------------------------------
+
+function parseJsonMap(value: unknown): JsonMap | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as JsonMap)
+    : null;
+}
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function coercePositiveInt(
+  value: unknown,
+  fallback: number,
+  max: number,
+): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.max(1, Math.min(max, Math.trunc(value)));
+}
+
+function okResult(result: unknown): ExecutorResult {
+  return {
+    result: typeof result === 'string' ? result : JSON.stringify(result),
+  };
+}
+
+function errorResult(message: string): ExecutorResult {
+  return { result: message, isError: true };
+}
+
+function errorFromGmailCredential(
+  err: GoogleToolCredentialError,
+): ExecutorResult {
+  const base = errorFromCredential(err);
+  if (err.code !== 'google_scopes_missing') return base;
+  // The Drive-only consent most users start with lacks the Gmail scopes;
+  // tell the agent how the user can grant them.
+  return errorResult(
+    `${base.result}. Ask the user to add Gmail access to their Google account in Settings.`,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Gmail API fetch wrappers
+// ---------------------------------------------------------------------------
+
+async function readGmailJson(response: Response): Promise<JsonMap> {
+  if (!response.ok) {
+    throw new GoogleToolCredentialError(
+      'gmail_api_error',
+      `Gmail request failed with HTTP ${response.status}.`,
+      502,
+    );
+  }
+  const text = await response.text();
+  if (Buffer.byteLength(text, 'utf8') > MAX_TEXT_RESPONSE_BYTES) {
+    throw new GoogleToolCredentialError(
+      'gmail_api_error',
+      'Gmail response exceeded the maximum allowed size.',
+      413,
+    );
+  }
+  const map = parseJsonMap(JSON.parse(text) as unknown);
+  if (!map) {
+    throw new GoogleToolCredentialError(
+      'gmail_api_error',
+      'Gmail response was not a JSON object.',
+      502,
+    );
+  }
+  return map;
+}
+
+async function fetchGmailJson(
+  path: string,
+  accessToken: string,
+  signal: AbortSignal,
+): Promise<JsonMap> {
+  const response = await googleFetch(
+    `${GMAIL_API_BASE}/${path}`,
+    {},
+    accessToken,
+    signal,
+  );
+  return readGmailJson(response);
+}
+
+// ---------------------------------------------------------------------------
+// Message parsing
+// ---------------------------------------------------------------------------
+
+function readHeaders(payload: JsonMap | null): Map<string, string> {
+  const headers = new Map<string, string>();
+  const list = Array.isArray(payload?.headers) ? payload.headers : [];
+  for (const entry of list) {
+    const header = parseJsonMap(entry);
+    if (
+      header &&
+      typeof header.name === 'string' &&
+      typeof header.value === 'string'
+    ) {
+      headers.set(header.name.toLowerCase(), header.value);
+    }
+  }
+  return headers;
+}
+
+function toMessageSummary(message: JsonMap): GmailMessageSummary {
+  const headers = readHeaders(parseJsonMap(message.payload));
+  return {
+    id: String(message.id ?? ''),
+    threadId: typeof message.threadId === 'string' ? message.threadId : null,
+    from: headers.get('from') ?? null,
+    to: headers.get('to') ?? null,
+    subject: headers.get('subject') ?? null,
+    date: headers.get('date') ?? null,
+    snippet: typeof message.snippet === 'string' ? message.snippet : '',
+    labelIds: Array.isArray(message.labelIds)
+      ? message.labelIds.filter(
+          (label): label is string => typeof label === 'string',
+        )
+      : [],
+  };
+}
+
+function decodeBodyData(data: unknown): string {
+  return typeof data === 'string'
+    ? Buffer.from(data, 'base64url').toString('utf8')
+    : '';
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function findPartText(part: JsonMap, mimeType: string): string | null {
+  if (part.mimeType === mimeType) {
+    const body = parseJsonMap(part.body);
+    const text = decodeBodyData(body?.data);
+    if (text) return text;
+  }
+  const children = Array.isArray(part.parts) ? part.parts : [];
+  for (const child of children) {
+    const childMap = parseJsonMap(child);
+    if (!childMap) continue;
+    const text = findPartText(childMap, mimeType);
+    if (text) return text;
+  }
+  return null;
+}
+
+/**
+ * Plain-text body of a Gmail message payload: the first text/plain part,
+ * falling back to a tag-stripped text/html part. Attachments are skipped.
+ */
+export function extractGmailMessageText(payload: JsonMap | null): string {
+  if (!payload) return '';
+  const plain = findPartText(payload, 'text/plain');
+  if (plain) return plain.trim();
+  const html = findPartText(payload, 'text/html');
+  return html ? stripHtml(html) : '';
+}
+
+// ---------------------------------------------------------------------------
+// Outgoing message
+// ---------------------------------------------------------------------------
+
+function readAddressList(value: unknown, field: string): string[] {
+  const raw =
+    typeof value === 'string'
+      ? value.split(',')
+      : Array.isArray(value)
+        ? value
+        : value === undefined || value === null
+          ? []
+          : null;
+  if (!raw) {
+    throw new Error(`${field} must be an array of email addresses.`);
+  }
+  const addresses: string[] = [];
+  for (const entry of raw) {
+    const address = readString(entry);
+    if (!address) continue;
+    if (!EMAIL_ADDRESS_PATTERN.test(address)) {
+      throw new Error(`${field} contains an invalid email address: ${address}`);
+    }
+    addresses.push(address);
+  }
+  return addresses;
+}
+
+function encodeHeaderValue(value: string): string {
+  // RFC 2047 encoded-word for anything outside printable ASCII.
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function wrapBase64(value: string): string {
+  return value.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
+
+/** RFC 2822 message for Gmail's `messages.send`, before base64url. */
+export function buildGmailRawMessage(input: {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string;
+}): string {
+  const headers = [`To: ${input.to.join(', ')}`];
+  if (input.cc.length > 0) headers.push(`Cc: ${input.cc.join(', ')}`);
+  if (input.bcc.length > 0) headers.push(`Bcc: ${input.bcc.join(', ')}`);
+  headers.push(
+    `Subject: ${encodeHeaderValue(input.subject)}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset="UTF-8"',
+    'Content-Transfer-Encoding: base64',
+  );
+  const body = wrapBase64(Buffer.from(input.body, 'utf8').toString('base64'));
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+// ---------------------------------------------------------------------------
+// Executors
+// ---------------------------------------------------------------------------
+
+async function executeSearch(input: ToolContext): Promise<ExecutorResult> {
+  const query = readString(input.args.query);
+  if (!query) {
+    return errorResult('gmail_search requires a non-empty query.');
+  }
+  const maxResults = coercePositiveInt(
+    input.args.maxResults,
+    DEFAULT_SEARCH_RESULTS,
+    MAX_SEARCH_RESULTS,
+  );
+
+  return withTokenRefresh(
+    input.userId,
+    GMAIL_READ_SCOPES,
+    async (accessToken) => {
+      const params = new URLSearchParams({
+        q: query,
+        maxResults: String(maxResults),
+      });
+      const listing = await fetchGmailJson(
+        `messages?${params.toString()}`,
+        accessToken,
+        input.signal,
+      );
+      const ids = (Array.isArray(listing.messages) ? listing.messages : [])
+        .map((entry) => parseJsonMap(entry)?.id)
+        .filter(
+          (id): id is string =>
+            typeof id === 'string' && GMAIL_ID_PATTERN.test(id),
+        );
+
+      const messages: GmailMessageSummary[] = [];
+      for (const id of ids) {
+        const metadata = new URLSearchParams({ format: 'metadata' });
+        for (const header of ['From', 'To', 'Subject', 'Date']) {
+          metadata.append('metadataHeaders', header);
+        }
+        const message = await fetchGmailJson(
+          `messages/${id}?${metadata.toString()}`,
+          accessToken,
+          input.signal,
+        );
+        messages.push(toMessageSummary(message));
+      }
+      return okResult({
+        query,
+        resultSizeEstimate:
+          typeof listing.resultSizeEstimate === 'number'
+            ? listing.resultSizeEstimate
+            : messages.length,
+        messages,
+      });
+    },
+  );
+}
+
+async function executeReadThread(input: ToolContext): Promise<ExecutorResult> {
+  const threadId = readString(input.args.threadId);
+  if (!GMAIL_ID_PATTERN.test(threadId)) {
+    return errorResult('gmail_read_thread requires a valid threadId.');
+  }
+
+  return withTokenRefresh(
+    input.userId,
+    GMAIL_READ_SCOPES,
+    async (accessToken) => {
+      const thread = await fetchGmailJson(
+        `threads/${threadId}?format=full`,
+        accessToken,
+        input.signal,
+      );
+      const all = (Array.isArray(thread.messages) ? thread.messages : [])
+        .map((entry) => parseJsonMap(entry))
+        .filter((entry): entry is JsonMap => entry !== null);
+      // Long threads keep their newest messages; the oldest are the
+      // least likely to matter and the most likely to be quoted below.
+      const kept = all.slice(-MAX_THREAD_MESSAGES);
+      const messages = kept.map((message) => {
+        const text = extractGmailMessageText(parseJsonMap(message.payload));
+        return {
+          ...toMessageSummary(message),
+          body:
+            text.length > MAX_MESSAGE_BODY_CHARS
+              ? `${text.slice(0, MAX_MESSAGE_BODY_CHARS)}\n[truncated]`
+              : text,
+        };
+      });
+      return okResult({
+        threadId,
+        messageCount: all.length,
+        omittedOlderMessages: all.length - kept.length,
+        messages,
+      });
+    },
+  );
+}
+
+async function executeListLabels(input: ToolContext): Promise<ExecutorResult> {
+  return withTokenRefresh(
+    input.userId,
+    GMAIL_READ_SCOPES,
+    async (accessToken) => {
+      const listing = await fetchGmailJson('labels', accessToken, input.signal);
+      const labels = (Array.isArray(listing.labels) ? listing.labels : [])
+        .map((entry) => parseJsonMap(entry))
+        .filter((entry): entry is JsonMap => entry !== null)
+        .map((label) => ({
+          id: String(label.id ?? ''),
+          name: String(label.name ?? ''),
+          type: typeof label.type === 'string' ? label.type : null,
+        }));
+      return okResult({ labels });
+    },
+  );
+}
+
+async function executeSend(input: ToolContext): Promise<ExecutorResult> {
+  // C6 mutation gate
+  if (input.jobPolicy && !input.jobPolicy.allowExternalMutation) {
+    return errorResult(
+      'external_mutation_blocked: gmail_send is not allowed under the current scheduled job policy.',
+    );
+  }
+
+  let to: string[];
+  let cc: string[];
+  let bcc: string[];
+  try {
+    to = readAddressList(input.args.to, 'to');
+    cc = readAddressList(input.args.cc, 'cc');
+    bcc = readAddressList(input.args.bcc, 'bcc');
+  } catch (err) {
+    return errorResult(
+      `gmail_send: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  if (to.length === 0) {
+    return errorResult('gmail_send requires at least one `to` address.');
+  }
+  if (to.length + cc.length + bcc.length > MAX_SEND_RECIPIENTS) {
+    return errorResult(
+      `gmail_send accepts at most ${MAX_SEND_RECIPIENTS} recipients.`,
+    );
+  }
+  const subject = readString(input.args.subject);
+  if (!subject || /[\r\n]/.test(subject)) {
+    return errorResult('gmail_send requires a single-line, non-empty subject.');
+  }
+  if (subject.length > MAX_SUBJECT_CHARS) {
+    return errorResult(
+      `gmail_send subject exceeds ${MAX_SUBJECT_CHARS} characters.`,
+    );
+  }
+  const body = typeof input.args.body === 'string' ? input.args.body : '';
+  if (!body.trim()) {
+    return errorResult('gmail_send requires a non-empty body.');
+  }
+  if (body.length > MAX_SEND_BODY_CHARS) {
+    return errorResult(
+      `gmail_send body exceeds ${MAX_SEND_BODY_CHARS} characters.`,
+    );
+  }
+  const threadId = readString(input.args.threadId);
+  if (threadId && !GMAIL_ID_PATTERN.test(threadId)) {
+    return errorResult('gmail_send threadId is not a valid Gmail thread id.');
+  }
+
+  const raw = Buffer.from(
+    buildGmailRawMessage({ to, cc, bcc, subject, body }),
+    'utf8',
+  ).toString('base64url');
+
+  const sent = await withTokenRefresh(
+    input.userId,
+    GMAIL_SEND_SCOPES,
+    async (accessToken) => {
+      const response = await googleFetch(
+        `${GMAIL_API_BASE}/messages/send`,
+        {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify(threadId ? { raw, threadId } : { raw }),
+        },
+        accessToken,
+        input.signal,
+      );
+      return readGmailJson(response);
+    },
+  );
+  return okResult({
+    sent: true,
+    messageId: typeof sent.id === 'string' ? sent.id : null,
+    threadId: typeof sent.threadId === 'string' ? sent.threadId : null,
+    to,
+    cc,
+    bcc,
+    subject,
+  });
+}
+
+export function isGmailTalkTool(toolName: string): boolean {
+  return (
+    (GMAIL_READ_TOOL_NAMES as readonly string[]).includes(toolName) ||
+    (GMAIL_SEND_TOOL_NAMES as readonly string[]).includes(toolName)
+  );
+}
+
+export async function executeGmailTalkTool(input: {
+  userId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  signal: AbortSignal;
+  jobPolicy?: GoogleDriveJobPolicy | null;
+}): Promise<ExecutorResult> {
+  const ctx: ToolContext = {
+    userId: input.userId,
+    args: input.args,
+    signal: input.signal,
+    jobPolicy: input.jobPolicy ?? null,
+  };
+
+  try {
+    switch (input.toolName) {
+      case 'gmail_search':
+        return await executeSearch(ctx);
+      case 'gmail_read_thread':
+        return await executeReadThread(ctx);
+      case 'gmail_list_labels':
+        return await executeListLabels(ctx);
+      case 'gmail_send':
+        return await executeSend(ctx);
+      default:
+        return errorResult(
+          `Tool '${input.toolName}' is not a supported Gmail Talk tool.`,
+        );
+    }
+  } catch (err) {
+    if (err instanceof GoogleToolCredentialError) {
+      return errorFromGmailCredential(err);
+    }
+    throw err;
+  }
+}
@@ -451,7 +451,9 @@ function errorResult(message: string): ExecutorResult {
   return { result: message, isError: true };
 }
 
-function errorFromCredential(err: GoogleToolCredentialError): ExecutorResult {
+export function errorFromCredential(
+  err: GoogleToolCredentialError,
+): ExecutorResult {
   // Surface the typed error to the LLM with enough detail to act on it.
   // The dispatcher in new-executor.ts treats `isError: true` as a recoverable
   // tool failure (not a hard executor crash).
@@ -467,7 +469,8 @@ function errorFromCredential(err: GoogleToolCredentialError): ExecutorResult {
 // Token refresh wrapper (D2 401 retry-once)
 // ---------------------------------------------------------------------------
 
-async function withTokenRefresh<T>(
+// Also used by gmail-tools.ts, which talks to the same credential.
+export async function withTokenRefresh<T>(
   userId: string,
   requiredScopes: string[],
   fn: (accessToken: string) => Promise<T>,
@@ -522,7 +525,7 @@ async function withTokenRefresh<T>(
 // Google API fetch wrappers
 // ---------------------------------------------------------------------------
 
-async function googleFetch(
+export async function googleFetch(
   url: string,
   init: RequestInit,
   accessToken: string,
@@ -706,7 +709,7 @@ function readGoogleDocParagraphText(paragraph: JsonMap): string {
     .trimEnd();
 }
 
-function extractGoogleDocText(elements: unknown[]): string {
+export function extractGoogleDocText(elements: unknown[]): string {
   const blocks: string[] = [];
   for (const element of elements) {
     const map = parseJsonMap(element);
@@ -1,11 +1,13 @@
 const INTERNAL_TAG_PATTERN = /<internal>[\s\S]*?(?:<\/internal>|$)/g;
 const NO_CHANNEL_REPLY_DIRECTIVE_PATTERN = /^\s*\[\[NO_CHANNEL_REPLY\]\]\s*/;
 
-export function extractChannelReplyControl(text: string): {
+export interface ChannelReplyControl {
   suppressDelivery: boolean;
   visibleText: string;
   rationale: string | null;
-} {
+}
+
+export function extractChannelReplyControl(text: string): ChannelReplyControl {
   if (!text) {
     return {
       suppressDelivery: false,
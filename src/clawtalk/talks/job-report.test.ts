@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizeTalkJobDeliverable } from '../db/job-accessors.js';
+import { tiptapJsonToMarkdown } from '../../shared/rich-text/index.js';
+import {
+  buildReportSection,
+  formatReportSectionHeading,
+  listReportBlocks,
+  planJobReportEdits,
+  renderReportSectionHtml,
+  type ReportBlock,
+} from './job-report.js';
+
+function block(
+  anchorId: string,
+  text: string,
+  headingLevel: number | null = null,
+): ReportBlock {
+  return { anchorId, headingLevel, text };
+}
+
+const DOC: ReportBlock[] = [
+  block('a1', 'Overview', 1),
+  block('a2', 'Intro paragraph.'),
+  block('a3', 'Weekly Metrics', 2),
+  block('a4', 'Old numbers.'),
+  block('a5', 'Breakdown', 3),
+  block('a6', 'Old breakdown.'),
+  block('a7', 'Decisions', 2),
+  block('a8', 'Ship it.'),
+];
+
+function plan(
+  mode: 'replace_section' | 'append_dated',
+  sectionTitle: string,
+  blocks = DOC,
+) {
+  return planJobReportEdits({
+    blocks,
+    mode,
+    sectionTitle,
+    heading: sectionTitle,
+    body: 'Signups up 4%.',
+    render: tiptapJsonToMarkdown,
+  });
+}
+
+describe('planJobReportEdits', () => {
+  it('replaces the matching heading and everything nested under it', () => {
+    const edits = plan('replace_section', 'weekly metrics');
+    expect(edits.map((edit) => [edit.kind, edit.anchor])).toEqual([
+      ['replace', 'a3'],
+      ['delete', 'a4'],
+      ['delete', 'a5'],
+      ['delete', 'a6'],
+    ]);
+    expect(edits[0].payload).toContain('## weekly metrics');
+    expect(edits[0].payload).toContain('Signups up 4%.');
+  });
+
+  it('runs a replaced section to the end of the doc when nothing follows', () => {
+    const edits = plan('replace_section', 'Decisions');
+    expect(edits.map((edit) => [edit.kind, edit.anchor])).toEqual([
+      ['replace', 'a7'],
+      ['delete', 'a8'],
+    ]);
+  });
+
+  it('appends when the section is missing or the mode is dated', () => {
+    expect(plan('replace_section', 'Risks')).toEqual([
+      expect.objectContaining({ kind: 'append', anchor: 'a8' }),
+    ]);
+    expect(plan('append_dated', 'Weekly Metrics')).toEqual([
+      expect.objectContaining({ kind: 'append', anchor: 'a8' }),
+    ]);
+    expect(plan('append_dated', 'Weekly Metrics', [])).toEqual([
+      expect.objectContaining({ kind: 'append', anchor: null }),
+    ]);
+  });
+});
+
+describe('buildReportSection', () => {
+  it('nests response headings below the section heading', () => {
+    const section = buildReportSection({
+      heading: 'Weekly Metrics',
+      level: 2,
+      body: '# Summary\n\nAll good.\n\n## Detail\n\nMore.',
+    });
+    expect(
+      section.content
+        .filter((node) => node.type === 'heading')
+        .map((node) => node.attrs?.level),
+    ).toEqual([2, 3, 4]);
+  });
+
+  it('renders HTML for HTML-format documents', () => {
+    const html = renderReportSectionHtml(
+      buildReportSection({
+        heading: 'Q3 <draft>',
+        level: 2,
+        body: 'Revenue is **up**.\n\n- one\n- two',
+      }),
+    );
+    expect(html).toBe(
+      '<h2>Q3 &lt;draft&gt;</h2><p>Revenue is <strong>up</strong>.</p>' +
+        '<ul><li><p>one</p></li><li><p>two</p></li></ul>',
+    );
+  });
+});
+
+describe('formatReportSectionHeading', () => {
+  it('dates append_dated sections on the job timezone calendar', () => {
+    const at = new Date('2026-10-20T02:00:00Z');
+    expect(
+      formatReportSectionHeading({
+        mode: 'append_dated',
+        sectionTitle: 'Standup',
+        at,
+        timezone: 'America/Los_Angeles',
+      }),
+    ).toBe('Standup — 2026-10-19');
+    expect(
+      formatReportSectionHeading({
+        mode: 'replace_section',
+        sectionTitle: 'Standup',
+        at,
+        timezone: 'UTC',
+      }),
+    ).toBe('Standup');
+  });
+});
+
+describe('listReportBlocks', () => {
+  it('reads heading levels from HTML documents', () => {
+    expect(
+      listReportBlocks({
+        contentFormat: 'html',
+        bodyMarkdown: '',
+        bodyHtml:
+          '<h2 data-anchor-id="h1">Status</h2><p data-anchor-id="p1">Fine.</p><p>Unanchored</p>',
+      }),
+    ).toEqual([
+      { anchorId: 'h1', headingLevel: 2, text: 'Status' },
+      { anchorId: 'p1', headingLevel: null, text: 'Fine.' },
+    ]);
+  });
+});
+
+describe('normalizeTalkJobDeliverable', () => {
+  it('defaults to the thread and validates report settings', () => {
+    expect(normalizeTalkJobDeliverable(undefined)).toEqual({ kind: 'thread' });
+    expect(
+      normalizeTalkJobDeliverable({
+        kind: 'report',
+        mode: 'append_dated',
+        sectionTitle: '  Daily   brief ',
+        autoAccept: true,
+      }),
+    ).toEqual({
+      kind: 'report',
+      mode: 'append_dated',
+      sectionTitle: 'Daily brief',
+      autoAccept: true,
+    });
+    expect(() =>
+      normalizeTalkJobDeliverable({ kind: 'report', mode: 'append_dated' }),
+    ).toThrow(/section title is required/);
+    expect(() =>
+      normalizeTalkJobDeliverable({ kind: 'report', mode: 'overwrite' }),
+    ).toThrow(/Report mode/);
+    expect(() => normalizeTalkJobDeliverable({ kind: 'output' })).toThrow(
+      /Deliverable kind/,
+    );
+  });
+});
@@ -0,0 +1,426 @@
+// Report deliverables for Talk jobs.
+//
+// A report job's response is written into the Talk's Content document
+// as a section, through the same content_edits pipeline the agent's
+// `apply_content_edit` tool uses: each block change is staged by
+// `executeApplyContentEdit` under the job run's id, so the edit set
+// shows up in the pending-edit review UI like any agent turn and the
+// accept / reject run routes apply to it.
+//
+//   replace_section → replace the heading whose text matches the
+//                     section title plus every block under it (up to the
+//                     next heading of the same or a higher level);
+//                     append a new section when no heading matches
+//   append_dated    → append "<title> — YYYY-MM-DD" (job timezone)
+//
+// Headings inside the response are pushed below the section heading so
+// the section boundary stays findable on the next run.
+//
+// With autoAccept the edit set is materialized right away via
+// acceptPendingRun. That path materializes markdown bodies only, so
+// auto-accept on an HTML document leaves the set pending for review.
+//
+// The planning helpers are pure; `deliverJobReport` must run inside
+// `withUserContext` for the run's owner.
+
+import { getContentByTalkId, type Content } from '../db/content-accessors.js';
+import {
+  acceptPendingRun,
+  deletePendingEditsByRun,
+} from '../db/content-edits-accessors.js';
+import {
+  getTalkJobById,
+  recordTalkJobRunReport,
+  type TalkJobDeliverable,
+  type TalkJobReportMode,
+} from '../db/job-accessors.js';
+import {
+  extractOutline,
+  getAnchorId,
+  markdownToTiptapJson,
+  plainTextOf,
+  tiptapJsonToMarkdown,
+  type RichTextDocument,
+  type RichTextMark,
+  type RichTextNode,
+} from '../../shared/rich-text/index.js';
+import { executeApplyContentEdit } from './content-apply-handler.js';
+import { getZonedDateTime } from './job-schedule.js';
+
+type ReportDeliverable = Extract<TalkJobDeliverable, { kind: 'report' }>;
+
+/** A top-level block of the document, as far as section matching cares. */
+export interface ReportBlock {
+  anchorId: string;
+  /** 1-6 for headings, null for every other block. */
+  headingLevel: number | null;
+  text: string;
+}
+
+export interface PlannedReportEdit {
+  kind: 'append' | 'replace' | 'delete';
+  anchor: string | null;
+  /** Block payload in the document's format; absent for deletes. */
+  payload?: string;
+}
+
+const DEFAULT_SECTION_LEVEL = 2;
+
+function normalizeHeadingText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Anchored top-level blocks of the document body. Blocks without an
+ * anchor can't be targeted by an edit and are left out.
+ */
+export function listReportBlocks(
+  content: Pick<Content, 'contentFormat' | 'bodyMarkdown' | 'bodyHtml'>,
+): ReportBlock[] {
+  if (content.contentFormat === 'html') {
+    const outline = extractOutline(content.bodyHtml ?? '');
+    if (!outline.ok) return [];
+    return outline.value.map((entry) => {
+      const heading = /^h([1-6])$/.exec(entry.tag);
+      return {
+        anchorId: entry.anchorId,
+        headingLevel: heading ? Number(heading[1]) : null,
+        text: entry.textExcerpt,
+      };
+    });
+  }
+  const blocks: ReportBlock[] = [];
+  for (const node of markdownToTiptapJson(content.bodyMarkdown).content) {
+    const anchorId = getAnchorId(node);
+    if (!anchorId) continue;
+    const level = node.attrs?.level;
+    blocks.push({
+      anchorId,
+      headingLevel:
+        node.type === 'heading' && typeof level === 'number' ? level : null,
+      text: plainTextOf(node),
+    });
+  }
+  return blocks;
+}
+
+/** The heading text a run writes: dated for append_dated, as-is otherwise. */
+export function formatReportSectionHeading(input: {
+  mode: TalkJobReportMode;
+  sectionTitle: string;
+  at: Date;
+  timezone: string;
+}): string {
+  if (input.mode !== 'append_dated') return input.sectionTitle;
+  const local = getZonedDateTime(input.at, input.timezone);
+  const date = [
+    String(local.year).padStart(4, '0'),
+    String(local.month).padStart(2, '0'),
+    String(local.day).padStart(2, '0'),
+  ].join('-');
+  return `${input.sectionTitle} — ${date}`;
+}
+
+/**
+ * Heading block followed by the response body, with any headings in the
+ * body shifted so the shallowest one sits one level below the section.
+ */
+export function buildReportSection(input: {
+  heading: string;
+  level: number;
+  body: string;
+}): RichTextDocument {
+  const bodyNodes = markdownToTiptapJson(input.body).content.filter(
+    (node) => node.type !== 'paragraph' || (node.content?.length ?? 0) > 0,
+  );
+  const levels = bodyNodes
+    .filter((node) => node.type === 'heading')
+    .map((node) => Number(node.attrs?.level ?? 1));
+  const shallowest = levels.length > 0 ? Math.min(...levels) : 7;
+  const shift = Math.max(0, input.level + 1 - shallowest);
+  const nested = bodyNodes.map((node) =>
+    node.type === 'heading' && shift > 0
+      ? {
+          ...node,
+          attrs: {
+            ...node.attrs,
+            level: Math.min(6, Number(node.attrs?.level ?? 1) + shift),
+          },
+        }
+      : node,
+  );
+  return {
+    type: 'doc',
+    content: [
+      {
+        type: 'heading',
+        attrs: { level: input.level },
+        content: [{ type: 'text', text: input.heading }],
+      },
+      ...nested,
+    ],
+  };
+}
+
+/**
+ * The staged edits for one report write. Replace mode keeps the matched
+ * heading's level; a missing section is appended at the end of the doc.
+ */
+export function planJobReportEdits(input: {
+  blocks: ReportBlock[];
+  mode: TalkJobReportMode;
+  sectionTitle: string;
+  heading: string;
+  body: string;
+  render: (section: RichTextDocument) => string;
+}): PlannedReportEdit[] {
+  const { blocks } = input;
+  if (input.mode === 'replace_section') {
+    const wanted = normalizeHeadingText(input.sectionTitle);
+    const start = blocks.findIndex(
+      (block) =>
+        block.headingLevel !== null &&
+        normalizeHeadingText(block.text) === wanted,
+    );
+    if (start !== -1) {
+      const level = blocks[start].headingLevel!;
+      let end = start + 1;
+      while (
+        end < blocks.length &&
+        (blocks[end].headingLevel === null || blocks[end].headingLevel! > level)
+      ) {
+        end++;
+      }
+      const section = buildReportSection({
+        heading: input.heading,
+        level,
+        body: input.body,
+      });
+      return [
+        {
+          kind: 'replace',
+          anchor: blocks[start].anchorId,
+          payload: input.render(section),
+        },
+        ...blocks.slice(start + 1, end).map((block) => ({
+          kind: 'delete' as const,
+          anchor: block.anchorId,
+        })),
+      ];
+    }
+  }
+  const section = buildReportSection({
+    heading: input.heading,
+    level: DEFAULT_SECTION_LEVEL,
+    body: input.body,
+  });
+  return [
+    {
+      kind: 'append',
+      anchor: blocks.at(-1)?.anchorId ?? null,
+      payload: input.render(section),
+    },
+  ];
+}
+
+// ── HTML rendering ────────────────────────────────────────────────────
+//
+// HTML-format documents take HTML payloads. The section is built as
+// rich-text JSON either way; this renders it with the tags the shared
+// sanitizer allows. The apply handler sanitizes the result again.
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const MARK_TAGS: Record<string, string> = {
+  bold: 'strong',
+  italic: 'em',
+  strike: 's',
+  underline: 'u',
+  highlight: 'mark',
+  code: 'code',
+};
+
+function wrapMark(html: string, mark: RichTextMark): string {
+  if (mark.type === 'link') {
+    const href = mark.attrs?.href;
+    if (typeof href !== 'string') return html;
+    return `<a href="${escapeHtml(href)}">${html}</a>`;
+  }
+  const tag = MARK_TAGS[mark.type];
+  return tag ? `<${tag}>${html}</${tag}>` : html;
+}
+
+function renderNodeHtml(node: RichTextNode): string {
+  const inner = (node.content ?? []).map(renderNodeHtml).join('');
+  switch (node.type) {
+    case 'text':
+      return (node.marks ?? []).reduce(wrapMark, escapeHtml(node.text ?? ''));
+    case 'paragraph':
+      return `<p>${inner}</p>`;
+    case 'heading': {
+      const level = Math.min(6, Math.max(1, Number(node.attrs?.level ?? 2)));
+      return `<h${level}>${inner}</h${level}>`;
+    }
+    case 'bulletList':
+      return `<ul>${inner}</ul>`;
+    case 'orderedList':
+      return `<ol>${inner}</ol>`;
+    case 'listItem':
+      return `<li>${inner}</li>`;
+    case 'blockquote':
+      return `<blockquote>${inner}</blockquote>`;
+    case 'codeBlock':
+      return `<pre><code>${escapeHtml(plainTextOf(node))}</code></pre>`;
+    case 'horizontalRule':
+      return '<hr>';
+    case 'hardBreak':
+      return '<br>';
+    case 'image': {
+      const src = node.attrs?.src;
+      if (typeof src !== 'string') return '';
+      const alt = typeof node.attrs?.alt === 'string' ? node.attrs.alt : '';
+      return `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}">`;
+    }
+    default:
+      return inner;
+  }
+}
+
+export function renderReportSectionHtml(section: RichTextDocument): string {
+  return section.content.map(renderNodeHtml).join('');
+}
+
+// ── Delivery ──────────────────────────────────────────────────────────
+
+export type JobReportDeliveryResult =
+  | { status: 'pending' | 'accepted'; contentId: string; editIds: string[] }
+  | { status: 'failed'; contentId: string | null; errorMessage: string };
+
+/**
+ * Write a completed report-job run's response into the Talk's Content
+ * document and record the edit set on talk_job_run_reports. Returns
+ * null when the run's job isn't a report job.
+ */
+export async function deliverJobReport(input: {
+  runId: string;
+  jobId: string;
+  talkId: string;
+  ownerId: string;
+  responseMessageId: string;
+  responseContent: string;
+  agentId: string | null;
+  agentNickname: string | null;
+  now?: Date;
+}): Promise<JobReportDeliveryResult | null> {
+  const job = await getTalkJobById(input.jobId);
+  if (!job || job.deliverable.kind !== 'report') return null;
+  const deliverable: ReportDeliverable = job.deliverable;
+
+  const result = await writeReport(input, deliverable, job.timezone);
+  await recordTalkJobRunReport({
+    runId: input.runId,
+    jobId: job.id,
+    talkId: input.talkId,
+    ownerId: input.ownerId,
+    contentId: result.contentId,
+    mode: deliverable.mode,
+    sectionTitle: deliverable.sectionTitle,
+    editIds: result.status === 'failed' ? [] : result.editIds,
+    status: result.status,
+    errorMessage: result.status === 'failed' ? result.errorMessage : null,
+  });
+  return result;
+}
+
+async function writeReport(
+  input: Parameters<typeof deliverJobReport>[0],
+  deliverable: ReportDeliverable,
+  timezone: string,
+): Promise<JobReportDeliveryResult> {
+  if (!input.responseContent.trim()) {
+    return {
+      status: 'failed',
+      contentId: null,
+      errorMessage: 'The run produced no report text.',
+    };
+  }
+  const content = await getContentByTalkId(input.talkId);
+  if (!content) {
+    return {
+      status: 'failed',
+      contentId: null,
+      errorMessage: 'This Talk has no Content document to write the report to.',
+    };
+  }
+
+  const edits = planJobReportEdits({
+    blocks: listReportBlocks(content).filter(
+      (block) => content.anchorMap[block.anchorId] !== undefined,
+    ),
+    mode: deliverable.mode,
+    sectionTitle: deliverable.sectionTitle,
+    heading: formatReportSectionHeading({
+      mode: deliverable.mode,
+      sectionTitle: deliverable.sectionTitle,
+      at: input.now ?? new Date(),
+      timezone,
+    }),
+    body: input.responseContent,
+    render:
+      content.contentFormat === 'html'
+        ? renderReportSectionHtml
+        : tiptapJsonToMarkdown,
+  });
+
+  const editIds: string[] = [];
+  for (const edit of edits) {
+    const applied = await executeApplyContentEdit({
+      talkId: input.talkId,
+      userId: input.ownerId,
+      runId: input.runId,
+      agentId: input.agentId,
+      agentNickname: input.agentNickname,
+      messageId: input.responseMessageId,
+      args: {
+        kind: edit.kind,
+        anchor: edit.anchor,
+        markdown: edit.payload,
+        rationale: `Scheduled report: ${deliverable.sectionTitle}`,
+      },
+    });
+    if (applied.isError) {
+      // Don't leave half a section staged.
+      await deletePendingEditsByRun({
+        contentId: content.id,
+        runId: input.runId,
+      });
+      return {
+        status: 'failed',
+        contentId: content.id,
+        errorMessage: applied.result.replace(/^Error:\s*/, ''),
+      };
+    }
+    const parsed = JSON.parse(applied.result) as { editId?: string };
+    if (parsed.editId && !editIds.includes(parsed.editId)) {
+      editIds.push(parsed.editId);
+    }
+  }
+
+  if (deliverable.autoAccept && content.contentFormat === 'markdown') {
+    const accepted = await acceptPendingRun({
+      contentId: content.id,
+      runId: input.runId,
+      userId: input.ownerId,
+    });
+    if (accepted.kind === 'ok') {
+      return { status: 'accepted', contentId: content.id, editIds };
+    }
+  }
+  return { status: 'pending', contentId: content.id, editIds };
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  computeNextTalkJobDueAt,
+  normalizeTalkJobSchedule,
+  previewTalkJobFireTimes,
+  type TalkJobSchedule,
+} from '../db/job-accessors.js';
+import {
+  nthBusinessDayOfMonth,
+  parseCronExpression,
+  zonedTimeToUtc,
+} from './job-schedule.js';
+
+const NY = 'America/New_York';
+
+function next(schedule: TalkJobSchedule, from: string, timezone = NY) {
+  return computeNextTalkJobDueAt({ schedule, timezone, from });
+}
+
+describe('parseCronExpression', () => {
+  it('expands lists, ranges, steps and names', () => {
+    const cron = parseCronExpression('*/20 9-17/4 1,15 jan-mar MON-FRI');
+    expect(cron.minutes).toEqual([0, 20, 40]);
+    expect(cron.hours).toEqual([9, 13, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('folds day-of-week 7 into Sunday and expands macros', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect(parseCronExpression('@hourly').minutes).toEqual([0]);
+  });
+
+  it('rejects malformed and impossible expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow(/5 fields/);
+    expect(() => parseCronExpression('60 * * * *')).toThrow(/between 0 and 59/);
+    expect(() => parseCronExpression('0 0 10-5 * *')).toThrow(/reversed/);
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow(/step/);
+    expect(() => parseCronExpression('0 0 30 2 *')).toThrow(/never fires/);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('moves times in a spring-forward gap past the gap', () => {
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 3, day: 8, hour: 2, minute: 30 },
+        NY,
+      ).toISOString(),
+    ).toBe('2026-03-08T07:30:00.000Z'); // 03:30 EDT
+  });
+
+  it('resolves fall-back overlaps to the first occurrence', () => {
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 11, day: 1, hour: 1, minute: 30 },
+        NY,
+      ).toISOString(),
+    ).toBe('2026-11-01T05:30:00.000Z'); // 01:30 EDT
+  });
+});
+
+describe('nthBusinessDayOfMonth', () => {
+  it('counts Monday–Friday from either end of the month', () => {
+    // October 2026 starts on a Thursday and ends on a Saturday.
+    expect(nthBusinessDayOfMonth(2026, 10, 1)).toBe(1);
+    expect(nthBusinessDayOfMonth(2026, 10, 3)).toBe(5);
+    expect(nthBusinessDayOfMonth(2026, 10, -1)).toBe(30);
+    expect(nthBusinessDayOfMonth(2026, 2, 21)).toBeNull();
+  });
+});
+
+describe('computeNextTalkJobDueAt', () => {
+  it('keeps cron times on the local clock across DST', () => {
+    const schedule: TalkJobSchedule = {
+      kind: 'cron',
+      expression: '0 9 * * 1-5',
+    };
+    // Friday before the November change: 09:00 EDT = 13:00Z.
+    expect(next(schedule, '2026-10-30T14:00:00Z')).toBe(
+      '2026-11-02T14:00:00.000Z', // Monday 09:00 EST
+    );
+  });
+
+  it('fires a daily job in the spring-forward gap once, after the gap', () => {
+    const schedule: TalkJobSchedule = {
+      kind: 'cron',
+      expression: '30 2 * * *',
+    };
+    expect(
+      previewTalkJobFireTimes({
+        schedule,
+        timezone: NY,
+        from: '2026-03-07T12:00:00Z',
+        count: 3,
+      }),
+    ).toEqual([
+      '2026-03-08T07:30:00.000Z', // 03:30 EDT, the gap day
+      '2026-03-09T06:30:00.000Z', // 02:30 EDT
+      '2026-03-10T06:30:00.000Z',
+    ]);
+  });
+
+  it('fires once in a fall-back overlap', () => {
+    const schedule: TalkJobSchedule = {
+      kind: 'cron',
+      expression: '30 1 * * *',
+    };
+    expect(
+      previewTalkJobFireTimes({
+        schedule,
+        timezone: NY,
+        from: '2026-10-31T12:00:00Z',
+        count: 2,
+      }),
+    ).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+  });
+
+  it('treats day-of-month and day-of-week as OR when both are set', () => {
+    const schedule: TalkJobSchedule = {
+      kind: 'cron',
+      expression: '0 12 13 * fri',
+    };
+    expect(
+      previewTalkJobFireTimes({
+        schedule,
+        timezone: 'UTC',
+        from: '2026-11-01T00:00:00Z',
+        count: 3,
+      }),
+    ).toEqual([
+      '2026-11-06T12:00:00.000Z',
+      '2026-11-13T12:00:00.000Z',
+      '2026-11-20T12:00:00.000Z',
+    ]);
+  });
+
+  it('runs a once schedule a single time', () => {
+    const schedule: TalkJobSchedule = { kind: 'once', at: '2026-12-24T18:00' };
+    expect(next(schedule, '2026-12-01T00:00:00Z')).toBe(
+      '2026-12-24T23:00:00.000Z',
+    );
+    expect(next(schedule, '2026-12-24T23:00:00Z')).toBeNull();
+    expect(
+      previewTalkJobFireTimes({
+        schedule,
+        timezone: NY,
+        from: '2026-12-01T00:00:00Z',
+        count: 5,
+      }),
+    ).toHaveLength(1);
+  });
+
+  it('clamps monthly days to short months', () => {
+    const schedule: TalkJobSchedule = {
+      kind: 'monthly',
+      dayOfMonth: 31,
+      hour: 8,
+      minute: 0,
+    };
+    expect(
+      previewTalkJobFireTimes({
+        schedule,
+        timezone: 'UTC',
+        from: '2027-01-31T09:00:00Z',
+        count: 2,
+      }),
+    ).toEqual(['2027-02-28T08:00:00.000Z', '2027-03-31T08:00:00.000Z']);
+  });
+
+  it('finds the last business day of the month', () => {
+    const schedule: TalkJobSchedule = {
+      kind: 'business_day',
+      businessDay: -1,
+      hour: 17,
+      minute: 0,
+    };
+    // Oct 31 2026 is a Saturday, so the last business day is Fri Oct 30.
+    expect(next(schedule, '2026-10-01T00:00:00Z', 'UTC')).toBe(
+      '2026-10-30T17:00:00.000Z',
+    );
+  });
+
+  it('lands weekly schedules on the minute', () => {
+    expect(
+      next(
+        { kind: 'weekly', weekdays: ['mon'], hour: 9, minute: 15 },
+        '2026-10-19T09:15:42Z',
+        'UTC',
+      ),
+    ).toBe('2026-10-26T09:15:00.000Z');
+  });
+});
+
+describe('normalizeTalkJobSchedule', () => {
+  it('normalizes the new schedule kinds', () => {
+    expect(
+      normalizeTalkJobSchedule({ kind: 'cron', expression: ' 0  9 * * 1 ' }),
+    ).toEqual({ kind: 'cron', expression: '0 9 * * 1' });
+    expect(
+      normalizeTalkJobSchedule({ kind: 'once', at: '2026-12-24T18:00' }),
+    ).toEqual({ kind: 'once', at: '2026-12-24T18:00' });
+  });
+
+  it('rejects invalid values with a readable message', () => {
+    expect(() =>
+      normalizeTalkJobSchedule({ kind: 'cron', expression: 'soon' }),
+    ).toThrow(/5 fields/);
+    expect(() =>
+      normalizeTalkJobSchedule({ kind: 'once', at: '2026-02-30T09:00' }),
+    ).toThrow(/not a valid date-time/);
+    expect(() =>
+      normalizeTalkJobSchedule({
+        kind: 'business_day',
+        businessDay: 0,
+        hour: 9,
+        minute: 0,
+      }),
+    ).toThrow(/must not be 0/);
+    expect(() => normalizeTalkJobSchedule({ kind: 'daily' })).toThrow(
+      /Schedule kind must be/,
+    );
+  });
+});
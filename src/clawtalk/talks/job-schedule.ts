@@ -0,0 +1,391 @@
+// Wall-clock schedule math for Talk jobs.
+//
+// Every calendar-based schedule kind (weekly, cron, once, monthly,
+// business_day) is defined in the job's IANA timezone, not UTC: "09:00
+// on weekdays" means 09:00 on the local clock on both sides of a DST
+// change. `findNextLocalFire` walks local calendar days and converts each
+// candidate local time to an instant with `zonedTimeToUtc`, which pins
+// the two DST edge cases:
+//
+//   * spring-forward gap — a local time that doesn't exist (02:30 on
+//     the night clocks jump 02:00 → 03:00) fires at the same distance
+//     past the gap (03:30), so a daily job never silently skips a day;
+//   * fall-back overlap — a local time that happens twice (01:30 when
+//     clocks fall back 02:00 → 01:00) fires once, at the first
+//     occurrence. Minute-level cron expressions therefore don't fire
+//     during the repeated hour's second pass.
+//
+// Pure, dependency-free (Intl only); job-accessors.ts owns the schedule
+// types and normalization.
+
+// ---------------------------------------------------------------------------
+// Local calendar helpers
+// ---------------------------------------------------------------------------
+
+export interface LocalDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+export interface LocalDateTime extends LocalDate {
+  hour: number;
+  minute: number;
+}
+
+export interface LocalTime {
+  hour: number;
+  minute: number;
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** 0 = Sunday … 6 = Saturday. */
+export function weekdayOf(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+export function addLocalDays(date: LocalDate, days: number): LocalDate {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: next.getUTCFullYear(),
+    month: next.getUTCMonth() + 1,
+    day: next.getUTCDate(),
+  };
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function getZonedDateTime(
+  date: Date,
+  timezone: string,
+): LocalDateTime & { second: number } {
+  const parts = getZonedFormatter(timezone).formatToParts(date);
+  const get = (type: string): number =>
+    Number.parseInt(parts.find((part) => part.type === type)?.value ?? '', 10);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    // Some engines still render midnight as "24" under h23.
+    hour: get('hour') % 24,
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/** Zone offset (local wall time minus UTC) in ms at an instant. */
+function zoneOffsetMs(instantMs: number, timezone: string): number {
+  const local = getZonedDateTime(new Date(instantMs), timezone);
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second,
+  );
+  return asUtc - Math.floor(instantMs / 1000) * 1000;
+}
+
+/**
+ * The instant at which the local clock in `timezone` reads `local`.
+ * Ambiguous times resolve to the earlier instant; nonexistent times
+ * (inside a DST gap) resolve to the instant the same distance past the
+ * gap. See the file header.
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timezone: string): Date {
+  const wallMs = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+  );
+  const day = 24 * 60 * 60 * 1000;
+  const offsetBefore = zoneOffsetMs(wallMs - day, timezone);
+  const offsetAfter = zoneOffsetMs(wallMs + day, timezone);
+  const candidates = Array.from(
+    new Set([wallMs - offsetBefore, wallMs - offsetAfter]),
+  ).sort((a, b) => a - b);
+  for (const candidate of candidates) {
+    const back = getZonedDateTime(new Date(candidate), timezone);
+    if (
+      back.year === local.year &&
+      back.month === local.month &&
+      back.day === local.day &&
+      back.hour === local.hour &&
+      back.minute === local.minute
+    ) {
+      return new Date(candidate);
+    }
+  }
+  // Gap: interpret the wall time with the pre-transition offset, which
+  // lands past the gap by the same amount.
+  return new Date(wallMs - offsetBefore);
+}
+
+/**
+ * First instant strictly after `from` whose local date satisfies
+ * `matchesDate` and whose local time is one of `timesFor(date)`
+ * (ascending). Searches `horizonDays` local days; null if none match.
+ */
+export function findNextLocalFire(input: {
+  from: Date;
+  timezone: string;
+  horizonDays: number;
+  matchesDate: (date: LocalDate) => boolean;
+  timesFor: (date: LocalDate) => LocalTime[];
+}): Date | null {
+  const fromMs = input.from.getTime();
+  const fromLocal = getZonedDateTime(input.from, input.timezone);
+  // Start a day early: near a transition the local date of `from` can
+  // lag the first candidate's conversion.
+  let date = addLocalDays(fromLocal, -1);
+  for (let i = 0; i <= input.horizonDays + 1; i++) {
+    if (input.matchesDate(date)) {
+      for (const time of input.timesFor(date)) {
+        const fire = zonedTimeToUtc({ ...date, ...time }, input.timezone);
+        if (fire.getTime() > fromMs) return fire;
+      }
+    }
+    date = addLocalDays(date, 1);
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Business days
+// ---------------------------------------------------------------------------
+
+/**
+ * The `n`th Monday–Friday of a month (1-based), or counting back from the
+ * month's end when `n` is negative (-1 = last business day). No holiday
+ * calendar is applied. Null when the month has fewer business days.
+ */
+export function nthBusinessDayOfMonth(
+  year: number,
+  month: number,
+  n: number,
+): number | null {
+  const last = daysInMonth(year, month);
+  const businessDays: number[] = [];
+  for (let day = 1; day <= last; day++) {
+    const weekday = weekdayOf({ year, month, day });
+    if (weekday !== 0 && weekday !== 6) businessDays.push(day);
+  }
+  const index = n > 0 ? n - 1 : businessDays.length + n;
+  return businessDays[index] ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Cron
+// ---------------------------------------------------------------------------
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Field was not `*` — drives the classic day-of-month OR day-of-week rule. */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const CRON_MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const CRON_WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface CronFieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Value the names array's index 0 maps to. */
+  namesBase?: number;
+}
+
+const CRON_FIELDS: CronFieldSpec[] = [
+  { label: 'minute', min: 0, max: 59 },
+  { label: 'hour', min: 0, max: 23 },
+  { label: 'day-of-month', min: 1, max: 31 },
+  { label: 'month', min: 1, max: 12, names: CRON_MONTH_NAMES, namesBase: 1 },
+  // 7 is accepted as a second Sunday and folded to 0 after parsing.
+  {
+    label: 'day-of-week',
+    min: 0,
+    max: 7,
+    names: CRON_WEEKDAY_NAMES,
+    namesBase: 0,
+  },
+];
+
+function parseCronValue(raw: string, spec: CronFieldSpec): number {
+  const lower = raw.toLowerCase();
+  const nameIndex = spec.names?.indexOf(lower) ?? -1;
+  if (nameIndex >= 0) return nameIndex + (spec.namesBase ?? 0);
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Cron ${spec.label} value "${raw}" is invalid`);
+  }
+  const value = Number.parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(
+      `Cron ${spec.label} value ${value} must be between ${spec.min} and ${spec.max}`,
+    );
+  }
+  return value;
+}
+
+function parseCronField(
+  raw: string,
+  spec: CronFieldSpec,
+): { values: Set<number>; restricted: boolean } {
+  const values = new Set<number>();
+  const restricted = raw !== '*' && raw !== '?';
+  for (const part of raw.split(',')) {
+    if (!part) {
+      throw new Error(`Cron ${spec.label} field has an empty list item`);
+    }
+    const [rangeRaw, stepRaw, ...extra] = part.split('/');
+    if (extra.length > 0) {
+      throw new Error(`Cron ${spec.label} item "${part}" is invalid`);
+    }
+    let step = 1;
+    if (stepRaw !== undefined) {
+      if (!/^\d+$/.test(stepRaw) || Number.parseInt(stepRaw, 10) < 1) {
+        throw new Error(`Cron ${spec.label} step "${stepRaw}" is invalid`);
+      }
+      step = Number.parseInt(stepRaw, 10);
+    }
+    let start: number;
+    let end: number;
+    if (rangeRaw === '*' || rangeRaw === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangeRaw.includes('-')) {
+      const [startRaw, endRaw] = rangeRaw.split('-');
+      start = parseCronValue(startRaw, spec);
+      end = parseCronValue(endRaw, spec);
+      if (start > end) {
+        throw new Error(`Cron ${spec.label} range "${rangeRaw}" is reversed`);
+      }
+    } else {
+      start = parseCronValue(rangeRaw, spec);
+      // "5/15" means "from 5 to the end of the range, every 15".
+      end = stepRaw !== undefined ? spec.max : start;
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return { values, restricted };
+}
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month
+ * month day-of-week) with lists, ranges, steps, month/weekday names and
+ * the @hourly/@daily/@weekly/@monthly/@yearly macros. When both
+ * day-of-month and day-of-week are restricted, a day matches if EITHER
+ * does (Vixie cron semantics). Throws an Error describing the first
+ * problem found.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim().replace(/\s+/g, ' ');
+  const expanded = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(' ');
+  if (fields.length !== 5) {
+    throw new Error(
+      'Cron expression must have 5 fields: minute hour day-of-month month day-of-week',
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseCronField(field, CRON_FIELDS[index]),
+  );
+  if (daysOfWeek.values.delete(7)) daysOfWeek.values.add(0);
+
+  if (daysOfMonth.restricted && !daysOfWeek.restricted) {
+    // Reject day/month combinations that can never occur ("30 2").
+    const possible = [...months.values].some((month) =>
+      [...daysOfMonth.values].some((day) => day <= daysInMonth(2024, month)),
+    );
+    if (!possible) {
+      throw new Error('Cron expression never fires (no such day in month)');
+    }
+  }
+
+  return {
+    minutes: [...minutes.values].sort((a, b) => a - b),
+    hours: [...hours.values].sort((a, b) => a - b),
+    daysOfMonth: daysOfMonth.values,
+    months: months.values,
+    daysOfWeek: daysOfWeek.values,
+    daysOfMonthRestricted: daysOfMonth.restricted,
+    daysOfWeekRestricted: daysOfWeek.restricted,
+  };
+}
+
+/** Canonical stored form: single-spaced, macros kept as written. */
+export function normalizeCronExpression(expression: string): string {
+  parseCronExpression(expression);
+  return expression.trim().replace(/\s+/g, ' ');
+}
+
+export function cronMatchesDate(cron: CronSchedule, date: LocalDate): boolean {
+  if (!cron.months.has(date.month)) return false;
+  const domMatch = cron.daysOfMonth.has(date.day);
+  const dowMatch = cron.daysOfWeek.has(weekdayOf(date));
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+export function cronTimes(cron: CronSchedule): LocalTime[] {
+  const times: LocalTime[] = [];
+  for (const hour of cron.hours) {
+    for (const minute of cron.minutes) times.push({ hour, minute });
+  }
+  return times;
+}
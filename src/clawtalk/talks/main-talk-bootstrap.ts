@@ -121,6 +121,7 @@ async function loadSetupChecklist(
     db<Array<{ count: number }>>`
       select count(*)::int as count
       from public.workspace_provider_secrets
+      where workspace_id = public.current_workspace_id()
     `,
     db<Array<{ count: number }>>`
       select count(*)::int as count
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  ManagedSourceFetchError,
+  createCloudflareBrowserRenderingSourceFetcher,
+  createFirecrawlSourceFetcher,
+} from './managed-source-fetcher.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('createFirecrawlSourceFetcher', () => {
+  it('scrapes markdown and reads the page metadata', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(
+      jsonResponse({
+        success: true,
+        data: {
+          markdown: '  # Changelog\n\nv2 shipped.  ',
+          metadata: {
+            title: 'Changelog — Example',
+            url: 'https://example.com/changelog/',
+            statusCode: 200,
+          },
+        },
+      }),
+    );
+    const fetcher = createFirecrawlSourceFetcher({
+      apiKey: 'fc-key',
+      baseUrl: 'https://firecrawl.internal/',
+      fetchImpl,
+    });
+
+    const result = await fetcher.fetch({
+      url: 'https://example.com/changelog',
+      timeoutMs: 20_000,
+    });
+
+    expect(result).toEqual({
+      finalUrl: 'https://example.com/changelog/',
+      pageTitle: 'Changelog — Example',
+      extractedText: '# Changelog\n\nv2 shipped.',
+      contentType: 'text/markdown',
+      strategy: 'managed',
+    });
+    const [url, init] = fetchImpl.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://firecrawl.internal/v1/scrape');
+    expect(init.headers).toMatchObject({ authorization: 'Bearer fc-key' });
+    expect(JSON.parse(String(init.body))).toEqual({
+      url: 'https://example.com/changelog',
+      formats: ['markdown'],
+      onlyMainContent: true,
+      timeout: 20_000,
+    });
+  });
+
+  it('treats an error page behind a successful scrape as a failure', async () => {
+    const fetcher = createFirecrawlSourceFetcher({
+      apiKey: 'fc-key',
+      fetchImpl: vi.fn().mockResolvedValue(
+        jsonResponse({
+          success: true,
+          data: { markdown: 'Not found', metadata: { statusCode: 404 } },
+        }),
+      ),
+    });
+
+    await expect(
+      fetcher.fetch({ url: 'https://example.com/gone', timeoutMs: 1_000 }),
+    ).rejects.toThrow('Firecrawl fetched HTTP 404');
+  });
+});
+
+describe('createCloudflareBrowserRenderingSourceFetcher', () => {
+  it('posts to the account markdown endpoint and titles from the heading', async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockResolvedValue(
+        jsonResponse({ success: true, result: '# Pricing\n\nPro: $20' }),
+      );
+    const fetcher = createCloudflareBrowserRenderingSourceFetcher({
+      accountId: 'acct-1',
+      apiToken: 'cf-token',
+      fetchImpl,
+    });
+
+    const result = await fetcher.fetch({
+      url: 'https://example.com/pricing',
+      timeoutMs: 5_000,
+    });
+
+    expect(result.pageTitle).toBe('Pricing');
+    expect(result.extractedText).toBe('# Pricing\n\nPro: $20');
+    expect(fetchImpl.mock.calls[0][0]).toBe(
+      'https://api.cloudflare.com/client/v4/accounts/acct-1/browser-rendering/markdown',
+    );
+  });
+
+  it('surfaces API errors with their messages', async () => {
+    const fetcher = createCloudflareBrowserRenderingSourceFetcher({
+      accountId: 'acct-1',
+      apiToken: 'cf-token',
+      fetchImpl: vi.fn().mockResolvedValue(
+        jsonResponse(
+          {
+            success: false,
+            errors: [{ code: 10000, message: 'Auth error' }],
+          },
+          403,
+        ),
+      ),
+    });
+
+    const error = await fetcher
+      .fetch({ url: 'https://example.com', timeoutMs: 1_000 })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(ManagedSourceFetchError);
+    expect((error as ManagedSourceFetchError).message).toBe(
+      'Cloudflare Browser Rendering failed (403): Auth error',
+    );
+  });
+});
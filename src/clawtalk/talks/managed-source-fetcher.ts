@@ -0,0 +1,248 @@
+// Managed source fetchers for context-tab URL sources.
+//
+// The last tier of `ingestUrlSource` (source-ingestion.ts): when the
+// plain HTTP fetch comes back thin — an SPA shell, a challenge page, a
+// paywall teaser — the page is handed to a hosted renderer that runs the
+// JavaScript and returns the readable content as markdown. Two providers
+// sit behind `ManagedSourceFetcher`:
+//
+//   - firecrawl:  POST {base}/v1/scrape with `formats: ['markdown']`
+//                 (same account / key style as web-search/firecrawl.ts)
+//   - cloudflare: Browser Rendering's REST `/markdown` endpoint
+//                 (POST {base}/accounts/{account}/browser-rendering/markdown)
+//
+// `getConfiguredManagedSourceFetcher()` builds the one selected by
+// TALK_CONTEXT_MANAGED_FETCH_PROVIDER, or returns null when managed
+// fetching is off or misconfigured.
+
+import {
+  TALK_CONTEXT_MANAGED_FETCH_ACCOUNT_ID,
+  TALK_CONTEXT_MANAGED_FETCH_API_KEY,
+  TALK_CONTEXT_MANAGED_FETCH_BASE_URL,
+  TALK_CONTEXT_MANAGED_FETCH_ENABLED,
+  TALK_CONTEXT_MANAGED_FETCH_PROVIDER,
+} from '../config.js';
+import { logger } from '../../logger.js';
+import type {
+  ManagedSourceFetchResult,
+  ManagedSourceFetcher,
+} from './source-ingestion.js';
+
+const FIRECRAWL_BASE_URL = 'https://api.firecrawl.dev';
+const CLOUDFLARE_API_BASE_URL = 'https://api.cloudflare.com/client/v4';
+
+export class ManagedSourceFetchError extends Error {
+  readonly provider: string;
+  readonly httpStatus: number | null;
+
+  constructor(provider: string, message: string, httpStatus: number | null) {
+    super(message);
+    this.name = 'ManagedSourceFetchError';
+    this.provider = provider;
+    this.httpStatus = httpStatus;
+  }
+}
+
+function trimBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '');
+}
+
+// Neither provider returns the final page title alongside markdown in
+// every response shape; the first top-level heading is a fair stand-in.
+function firstMarkdownHeading(markdown: string): string | null {
+  const match = /^#\s+(.+?)\s*#*\s*$/m.exec(markdown);
+  return match ? match[1] : null;
+}
+
+async function readErrorDetail(response: Response): Promise<string> {
+  const detail = await response.text().catch(() => '');
+  return detail ? `: ${detail.slice(0, 300)}` : '';
+}
+
+// ---------------------------------------------------------------------------
+// Firecrawl
+// ---------------------------------------------------------------------------
+
+export function createFirecrawlSourceFetcher(input: {
+  apiKey: string;
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+}): ManagedSourceFetcher {
+  const endpoint = `${trimBaseUrl(input.baseUrl || FIRECRAWL_BASE_URL)}/v1/scrape`;
+  const fetchImpl = input.fetchImpl ?? fetch;
+  return {
+    async fetch({ url, timeoutMs }): Promise<ManagedSourceFetchResult> {
+      const response = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Bearer ${input.apiKey}`,
+        },
+        body: JSON.stringify({
+          url,
+          formats: ['markdown'],
+          onlyMainContent: true,
+          timeout: timeoutMs,
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new ManagedSourceFetchError(
+          'firecrawl',
+          `Firecrawl scrape failed (${response.status})${await readErrorDetail(response)}`,
+          response.status,
+        );
+      }
+      const payload = (await response.json()) as {
+        success?: boolean;
+        error?: unknown;
+        data?: {
+          markdown?: unknown;
+          metadata?: {
+            title?: unknown;
+            url?: unknown;
+            sourceURL?: unknown;
+            statusCode?: unknown;
+          };
+        };
+      };
+      if (payload.success === false) {
+        throw new ManagedSourceFetchError(
+          'firecrawl',
+          `Firecrawl scrape failed: ${typeof payload.error === 'string' ? payload.error : 'unknown error'}`,
+          response.status,
+        );
+      }
+      const metadata = payload.data?.metadata ?? {};
+      // Firecrawl reports the target page's status separately; a 404 or
+      // 5xx page still "succeeds" as a scrape.
+      if (
+        typeof metadata.statusCode === 'number' &&
+        metadata.statusCode >= 400
+      ) {
+        throw new ManagedSourceFetchError(
+          'firecrawl',
+          `Firecrawl fetched HTTP ${metadata.statusCode} from ${url}`,
+          metadata.statusCode,
+        );
+      }
+      const markdown =
+        typeof payload.data?.markdown === 'string'
+          ? payload.data.markdown.trim()
+          : '';
+      return {
+        finalUrl:
+          typeof metadata.url === 'string'
+            ? metadata.url
+            : typeof metadata.sourceURL === 'string'
+              ? metadata.sourceURL
+              : url,
+        pageTitle:
+          typeof metadata.title === 'string' && metadata.title.trim()
+            ? metadata.title.trim()
+            : firstMarkdownHeading(markdown),
+        extractedText: markdown,
+        contentType: 'text/markdown',
+        strategy: 'managed',
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cloudflare Browser Rendering
+// ---------------------------------------------------------------------------
+
+export function createCloudflareBrowserRenderingSourceFetcher(input: {
+  accountId: string;
+  apiToken: string;
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+}): ManagedSourceFetcher {
+  const endpoint =
+    `${trimBaseUrl(input.baseUrl || CLOUDFLARE_API_BASE_URL)}` +
+    `/accounts/${encodeURIComponent(input.accountId)}/browser-rendering/markdown`;
+  const fetchImpl = input.fetchImpl ?? fetch;
+  return {
+    async fetch({ url, timeoutMs }): Promise<ManagedSourceFetchResult> {
+      const response = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Bearer ${input.apiToken}`,
+        },
+        body: JSON.stringify({
+          url,
+          gotoOptions: { waitUntil: 'networkidle2', timeout: timeoutMs },
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      const payload = (await response.json().catch(() => null)) as {
+        success?: boolean;
+        result?: unknown;
+        errors?: Array<{ message?: unknown }>;
+      } | null;
+      if (!response.ok || !payload?.success) {
+        const reason = payload?.errors
+          ?.map((error) => error.message)
+          .filter((message): message is string => typeof message === 'string')
+          .join('; ');
+        throw new ManagedSourceFetchError(
+          'cloudflare',
+          `Cloudflare Browser Rendering failed (${response.status})${reason ? `: ${reason}` : ''}`,
+          response.status,
+        );
+      }
+      const markdown =
+        typeof payload.result === 'string' ? payload.result.trim() : '';
+      return {
+        finalUrl: url,
+        pageTitle: firstMarkdownHeading(markdown),
+        extractedText: markdown,
+        contentType: 'text/markdown',
+        strategy: 'managed',
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+let configuredFetcher: ManagedSourceFetcher | null | undefined;
+
+export function getConfiguredManagedSourceFetcher(): ManagedSourceFetcher | null {
+  if (!TALK_CONTEXT_MANAGED_FETCH_ENABLED) return null;
+  if (configuredFetcher !== undefined) return configuredFetcher;
+
+  configuredFetcher = null;
+  if (!TALK_CONTEXT_MANAGED_FETCH_API_KEY) {
+    logger.warn(
+      '[source-ingestion] Managed source fetch is enabled, but TALK_CONTEXT_MANAGED_FETCH_API_KEY is not set.',
+    );
+  } else if (TALK_CONTEXT_MANAGED_FETCH_PROVIDER === 'firecrawl') {
+    configuredFetcher = createFirecrawlSourceFetcher({
+      apiKey: TALK_CONTEXT_MANAGED_FETCH_API_KEY,
+      baseUrl: TALK_CONTEXT_MANAGED_FETCH_BASE_URL,
+    });
+  } else if (TALK_CONTEXT_MANAGED_FETCH_PROVIDER === 'cloudflare') {
+    if (TALK_CONTEXT_MANAGED_FETCH_ACCOUNT_ID) {
+      configuredFetcher = createCloudflareBrowserRenderingSourceFetcher({
+        accountId: TALK_CONTEXT_MANAGED_FETCH_ACCOUNT_ID,
+        apiToken: TALK_CONTEXT_MANAGED_FETCH_API_KEY,
+        baseUrl: TALK_CONTEXT_MANAGED_FETCH_BASE_URL,
+      });
+    } else {
+      logger.warn(
+        '[source-ingestion] Cloudflare managed fetch needs TALK_CONTEXT_MANAGED_FETCH_ACCOUNT_ID.',
+      );
+    }
+  } else {
+    logger.warn(
+      { provider: TALK_CONTEXT_MANAGED_FETCH_PROVIDER },
+      '[source-ingestion] Unknown managed source fetch provider.',
+    );
+  }
+  return configuredFetcher;
+}
@@ -14,6 +14,7 @@
 import { getDbPg } from '../../db.js';
 import { logger } from '../../logger.js';
 import {
+  createLlmAttempt,
   getRegisteredAgent,
   type EffectiveToolAccess,
   type RegisteredAgentRecord,
@@ -23,7 +24,9 @@ import {
   getTalkRunById,
   setTalkRunMetadata,
 } from '../db/accessors.js';
+import { CHANNEL_KINDS, type ChannelKind } from '../db/connectors-accessors.js';
 import { getTalkJobById } from '../db/job-accessors.js';
+import { getTalkRoundById } from '../db/talk-round-accessors.js';
 import {
   deleteTalkStateEntry,
   getTalkStateEntry,
@@ -36,10 +39,15 @@ import {
 } from '../db/context-accessors.js';
 import {
   executeWithAgent,
+  type AgentExecutionResult,
   type ExecutionContext,
   type ExecutionEvent,
 } from '../agents/agent-router.js';
 import type { LlmContentBlock, LlmMessage } from '../agents/llm-client.js';
+import {
+  normalizeStructuredOutputConfig,
+  toResponseSchema,
+} from '../agents/structured-output.js';
 import { planExecution } from '../agents/execution-planner.js';
 import { ensureRunnableModel } from '../agents/runtime-model-guard.js';
 import {
@@ -51,6 +59,7 @@ import {
   modelSupportsPdfDocuments,
   modelSupportsVision,
   resolveModelCapabilities,
+  type ModelCapabilityOverrides,
 } from '../llm/capabilities.js';
 import type { TalkPersonaRole } from '../llm/types.js';
 import {
@@ -75,24 +84,6 @@ const PDF_ATTACHMENT_MIME_TYPE = 'application/pdf';
 
 type TalkRunStatus = string;
 type ExecutionDecisionMetadata = Record<string, unknown>;
-type TalkRunConnectorRecord = {
-  id: string;
-  verificationStatus: string;
-  [key: string]: unknown;
-};
-type ToolExecutionContext = Record<string, unknown>;
-type ChannelBindingStub = {
-  id: string;
-  platform: string;
-  display_name: string | null;
-  connection_display_name: string | null;
-  connection_id: string;
-  connection_health_status: string;
-  timezone: string | null;
-  response_mode: 'all' | 'off' | 'mentions';
-  delivery_mode: 'reply' | 'channel';
-  instructions: string | null;
-};
 type ToolResultStub = { result: string; isError?: boolean };
 type ContainerTurnResultStub = {
   content: string;
@@ -102,24 +93,14 @@ type ContainerTurnResultStub = {
     cachedInputTokens?: number;
   } | null;
 };
-type ConnectorToolNameParts = { connectorId: string; toolName: string };
 
-function getTalkChannelBindingById(_id: string): ChannelBindingStub | null {
-  return null;
-}
-function buildTalkChannelBindingStateNamespace(_binding: unknown): string {
-  return '';
-}
 async function fetchSlackRecentConversationContext(
   ..._args: unknown[]
 ): Promise<{ lines: string[]; unavailableReason: string | null }> {
-  return { lines: [], unavailableReason: 'Slack ingress is disabled.' };
-}
-function listConnectorsForTalkRun(_talkId: string): TalkRunConnectorRecord[] {
-  return [];
-}
-function parseConnectorToolName(_name: string): ConnectorToolNameParts | null {
-  return null;
+  return {
+    lines: [],
+    unavailableReason: 'Slack history lookup is not wired up yet.',
+  };
 }
 function buildBrowserResumeSection(..._args: unknown[]): string {
   return '';
@@ -127,11 +108,6 @@ function buildBrowserResumeSection(..._args: unknown[]): string {
 function getContainerAllowedTools(..._args: unknown[]): string[] {
   return [];
 }
-async function executeConnectorTool(
-  ..._args: unknown[]
-): Promise<ToolResultStub> {
-  throw new Error('Connector tools are disabled (chassis removed).');
-}
 async function executeWebFetch(..._args: unknown[]): Promise<ToolResultStub> {
   throw new Error('Web fetch tool is disabled (chassis removed).');
 }
@@ -189,10 +165,26 @@ async function executeBrowserTool(
   throw new Error('Browser tool is disabled (chassis removed).');
 }
 import { executeGoogleDriveTalkTool } from './google-drive-tools.js';
+import { executeGmailTalkTool, isGmailTalkTool } from './gmail-tools.js';
+import { executeSlackTalkTool, isSlackTalkTool } from './slack-tools.js';
+import {
+  executeDataConnectorTool,
+  loadTalkDataConnectors,
+  parseDataConnectorToolName,
+} from '../data-connectors/registry.js';
+import type { RuntimeDataConnector } from '../data-connectors/types.js';
+import {
+  CHANNEL_PLATFORM_LABELS,
+  buildChannelBindingStateNamespace,
+  loadChannelBinding,
+  type ChannelBinding,
+} from '../connectors/channel-bindings.js';
 import { executeApplyContentEdit } from './content-apply-handler.js';
 import { isContentEditIntent } from './content-edit-intent.js';
 import { getContentByTalkId } from '../db/content-accessors.js';
 import { emitOutboxEvent } from './outbox-emit.js';
+import { createRunTraceRecorder, saveRunTrace } from './run-trace.js';
+import { isVisibleRoundOutput } from './talk-rounds.js';
 async function executeContainerAgentTurn(
   ..._args: unknown[]
 ): Promise<ContainerTurnResultStub> {
@@ -201,6 +193,7 @@ async function executeContainerAgentTurn(
 import { loadAttachmentFile, loadPageImage } from './attachment-storage.js';
 import {
   TalkExecutorError,
+  TalkRunPausedError,
   type TalkJobExecutionPolicy,
   type TalkExecutionEvent,
   type TalkExecutor,
@@ -246,13 +239,22 @@ function mapExecutionEvent(
         deltaText: event.text,
       };
 
+    case 'reasoning_delta':
+      return {
+        type: 'talk_reasoning_delta',
+        ...shared,
+        deltaText: event.text,
+      };
+
     case 'usage':
       return {
         type: 'talk_response_usage',
         ...shared,
         usage: {
           inputTokens: event.inputTokens,
+          cachedInputTokens: event.cachedInputTokens,
           outputTokens: event.outputTokens,
+          reasoningTokens: event.reasoningTokens,
           estimatedCostUsd: event.estimatedCostUsd,
         },
       };
@@ -279,6 +281,13 @@ function mapExecutionEvent(
         ...shared,
       };
 
+    case 'paused':
+      return {
+        type: 'talk_response_paused',
+        ...shared,
+        iterationsUsed: event.iterationsUsed,
+      };
+
     case 'tool_call':
       return {
         type: 'tool_call_started',
@@ -289,6 +298,8 @@ function mapExecutionEvent(
 
     case 'tool_result':
     case 'awaiting_confirmation':
+    case 'llm_turn':
+    case 'retry':
       return null;
 
     default: {
@@ -310,7 +321,7 @@ function parseRunMetadata(
 type ChannelInboundTriggerMetadata = {
   kind: 'channel_inbound';
   bindingId: string;
-  platform: 'telegram' | 'slack';
+  platform: ChannelKind;
   connectionId: string;
   targetKind: string;
   targetId: string;
@@ -334,9 +345,7 @@ function parseChannelInboundTriggerMetadata(
     return null;
   }
   const platform =
-    record.platform === 'slack' || record.platform === 'telegram'
-      ? record.platform
-      : null;
+    CHANNEL_KINDS.find((kind) => kind === record.platform) ?? null;
   if (
     platform === null ||
     typeof record.bindingId !== 'string' ||
@@ -388,18 +397,22 @@ function formatChannelResponseModeLabel(
   }
 }
 
-function formatChannelDeliveryModeLabel(mode: 'reply' | 'channel'): string {
-  return mode === 'reply'
+function formatChannelDeliveryModeLabel(binding: ChannelBinding): string {
+  // Discord replies can't reference a slash command, so they always land
+  // in the channel (or thread) /ask was used in.
+  if (binding.platform === 'discord') {
+    return 'Post the response into the Discord channel or thread the /ask command came from.';
+  }
+  return binding.delivery_mode === 'reply'
     ? 'Post the response as a threaded reply tied to the source message or thread.'
     : 'Post the response back into the main channel timeline.';
 }
 
 function buildChannelBindingLabel(input: {
-  binding: NonNullable<ReturnType<typeof getTalkChannelBindingById>>;
+  binding: ChannelBinding;
   trigger: ChannelInboundTriggerMetadata;
 }): string {
-  const platformLabel =
-    input.binding.platform === 'slack' ? 'Slack' : 'Telegram';
+  const platformLabel = CHANNEL_PLATFORM_LABELS[input.binding.platform];
   const destination =
     input.trigger.targetDisplayName ||
     input.binding.display_name ||
@@ -447,23 +460,23 @@ function buildLocalChannelClockFacts(input?: {
 }
 
 function buildChannelContextSection(input: {
-  binding: ReturnType<typeof getTalkChannelBindingById>;
+  binding: ChannelBinding | null;
   trigger: ChannelInboundTriggerMetadata;
   recentSlackLines?: string[];
   recentSlackUnavailableReason?: string | null;
 }): string | null {
   const binding = input.binding;
   if (!binding) return null;
-  const stateNamespace = buildTalkChannelBindingStateNamespace(binding.id);
+  const stateNamespace = buildChannelBindingStateNamespace(binding.id);
   const clock = buildLocalChannelClockFacts({ timeZone: binding.timezone });
   const lines: string[] = [
     `Binding: ${buildChannelBindingLabel({ binding, trigger: input.trigger })}`,
-    `Platform: ${input.trigger.platform === 'slack' ? 'Slack' : 'Telegram'}`,
+    `Platform: ${CHANNEL_PLATFORM_LABELS[input.trigger.platform]}`,
     `Connection: ${binding.connection_display_name}`,
     `Destination: ${input.trigger.targetDisplayName || binding.display_name || input.trigger.targetId}`,
     `Sender: ${input.trigger.senderName || input.trigger.senderId || 'Unknown sender'}`,
     `When to respond: ${formatChannelResponseModeLabel(binding.response_mode)}`,
-    `Where to post reply: ${formatChannelDeliveryModeLabel(binding.delivery_mode)}`,
+    `Where to post reply: ${formatChannelDeliveryModeLabel(binding)}`,
     `State namespace: ${stateNamespace}`,
     `Keep binding-owned state under this prefix. Use list_state with prefix "${stateNamespace}" to inspect binding memory.`,
     `Local timestamp: ${clock.localTimestamp}`,
@@ -502,7 +515,7 @@ async function loadChannelTriggerContext(input: {
   triggerMessageId: string;
 }): Promise<{
   trigger: ChannelInboundTriggerMetadata | null;
-  binding: ReturnType<typeof getTalkChannelBindingById>;
+  binding: ChannelBinding | null;
 }> {
   const triggerMessage = await getTalkMessageById(input.triggerMessageId);
   const trigger = parseChannelInboundTriggerMetadata(
@@ -514,13 +527,13 @@ async function loadChannelTriggerContext(input: {
 
   return {
     trigger,
-    binding: getTalkChannelBindingById(trigger.bindingId),
+    binding: await loadChannelBinding(trigger.bindingId),
   };
 }
 
 async function loadChannelExecutionContext(input: {
   trigger: ChannelInboundTriggerMetadata | null;
-  binding: ReturnType<typeof getTalkChannelBindingById>;
+  binding: ChannelBinding | null;
 }): Promise<{
   channelContextSection: string | null;
 }> {
@@ -602,18 +615,17 @@ export function buildToolExecutor(
   agentNickname?: string | null,
   triggerMessageId?: string | null,
 ) {
-  let connectorCache: Map<string, TalkRunConnectorRecord> | null = null;
+  let connectorCache: Promise<Map<string, RuntimeDataConnector>> | null = null;
   const enabledToolFamilies = new Set(
     (effectiveTools ?? [])
       .filter((tool) => tool.enabled)
       .map((tool) => tool.toolFamily),
   );
 
-  function loadConnectors(): Map<string, TalkRunConnectorRecord> {
-    if (connectorCache) return connectorCache;
-    const connectors = listConnectorsForTalkRun(talkId);
-    connectorCache = new Map(
-      connectors.map((connector) => [connector.id, connector]),
+  function loadConnectors(): Promise<Map<string, RuntimeDataConnector>> {
+    connectorCache ??= loadTalkDataConnectors(talkId).then(
+      (connectors) =>
+        new Map(connectors.map((connector) => [connector.id, connector])),
     );
     return connectorCache;
   }
@@ -840,7 +852,13 @@ export function buildToolExecutor(
     }
 
     if (toolName.startsWith('connector_')) {
-      const parsed = parseConnectorToolName(toolName);
+      if (effectiveTools && !enabledToolFamilies.has('connectors')) {
+        return {
+          result: 'Error: data connectors are not enabled for this agent',
+          isError: true,
+        };
+      }
+      const parsed = parseDataConnectorToolName(toolName);
       if (!parsed) {
         return {
           result: `Unknown connector tool format: ${toolName}`,
@@ -848,21 +866,24 @@ export function buildToolExecutor(
         };
       }
 
-      const connectors = loadConnectors();
-      const connector = connectors.get(parsed.connectorId);
-      if (!connector) {
+      let connectors: Map<string, RuntimeDataConnector>;
+      try {
+        connectors = await loadConnectors();
+      } catch (err) {
+        connectorCache = null;
         return {
-          result: `Connector '${parsed.connectorId}' is not available for this Talk.`,
+          result: `Error: failed to load data connectors: ${err instanceof Error ? err.message : String(err)}`,
           isError: true,
         };
       }
-
-      if (connector.verificationStatus !== 'verified') {
+      const connector = connectors.get(parsed.connectorId);
+      if (!connector) {
         return {
-          result: `Connector '${connector.name}' is no longer verified (status: ${connector.verificationStatus}). Please re-verify the connector credentials.`,
+          result: `Connector '${parsed.connectorId}' is not available for this Talk.`,
           isError: true,
         };
       }
+
       if (
         jobPolicy &&
         !jobPolicy.allowedConnectorIds.includes(parsed.connectorId)
@@ -873,13 +894,11 @@ export function buildToolExecutor(
         };
       }
 
-      const context: ToolExecutionContext = {
+      return executeDataConnectorTool(parsed.operation, args, {
         connector,
+        userId,
         signal,
-      };
-
-      const result = await executeConnectorTool(toolName, args, context);
-      return { result: result.result, isError: result.isError };
+      });
     }
 
     if (toolName === 'web_fetch') {
@@ -958,6 +977,34 @@ export function buildToolExecutor(
           : null,
       });
     }
+    if (isSlackTalkTool(toolName)) {
+      if (effectiveTools && !enabledToolFamilies.has('messaging')) {
+        return {
+          result: 'Error: messaging tools are not enabled for this agent',
+          isError: true,
+        };
+      }
+      return executeSlackTalkTool({
+        talkId,
+        userId,
+        runId,
+        agentId: agentId ?? null,
+        toolName,
+        args,
+        jobPolicy: jobPolicy ?? null,
+      });
+    }
+    if (isGmailTalkTool(toolName)) {
+      return executeGmailTalkTool({
+        userId,
+        toolName,
+        args,
+        signal,
+        jobPolicy: jobPolicy
+          ? { allowExternalMutation: jobPolicy.allowExternalMutation }
+          : null,
+      });
+    }
 
     if (toolName === 'apply_content_edit') {
       return executeApplyContentEdit({
@@ -1057,19 +1104,40 @@ async function resolveTalkAgent(
   );
 }
 
-async function getModelContextWindow(
-  agent: RegisteredAgentRecord,
-): Promise<number> {
+/**
+ * Context window plus the admin-set capability overrides for the agent's
+ * model row. Custom-provider models rely on the overrides; builtin rows
+ * leave them null.
+ */
+async function getModelCatalogEntry(agent: RegisteredAgentRecord): Promise<{
+  contextWindowTokens: number;
+  capabilityOverrides: ModelCapabilityOverrides | null;
+}> {
   const db = getDbPg();
-  const rows = await db<Array<{ context_window_tokens: number }>>`
-    select context_window_tokens
+  const rows = await db<
+    Array<{
+      context_window_tokens: number;
+      supports_tools: boolean | null;
+      supports_vision: boolean | null;
+    }>
+  >`
+    select context_window_tokens, supports_tools, supports_vision
     from public.llm_provider_models
     where provider_id = ${agent.provider_id}
       and model_id = ${agent.model_id}
     limit 1
   `;
 
-  return rows[0]?.context_window_tokens || 128000;
+  const row = rows[0];
+  return {
+    contextWindowTokens: row?.context_window_tokens || 128000,
+    capabilityOverrides: row
+      ? {
+          supports_tools: row.supports_tools,
+          supports_vision: row.supports_vision,
+        }
+      : null,
+  };
 }
 
 function buildMultiAgentExecutionNote(input: {
@@ -1118,6 +1186,9 @@ type PriorOrderedOutput = {
   agentId: string | null;
   agentNickname: string | null;
   content: string;
+  // Debate runs only (talk_rounds); null for single-pass groups.
+  roundNumber: number | null;
+  isRoundSynthesis: boolean;
 };
 
 type PriorOrderedGap = {
@@ -1125,6 +1196,7 @@ type PriorOrderedGap = {
   agentId: string | null;
   agentNickname: string | null;
   status: TalkRunStatus;
+  roundNumber: number | null;
 };
 
 async function listPriorOrderedOutputs(
@@ -1138,6 +1210,8 @@ async function listPriorOrderedOutputs(
       agent_id: string | null;
       agent_nickname: string | null;
       content: string;
+      round_number: number | null;
+      is_round_synthesis: boolean;
     }>
   >`
     with assistant_outputs as (
@@ -1170,10 +1244,13 @@ async function listPriorOrderedOutputs(
         ra.name,
         'Agent'
       ) as agent_nickname,
-      ao.content as content
+      ao.content as content,
+      tr.round_number as round_number,
+      coalesce(tr.synthesizer_run_id = r.id, false) as is_round_synthesis
     from public.talk_runs r
     join assistant_outputs ao on ao.run_id = r.id
     left join public.registered_agents ra on ra.id = r.target_agent_id
+    left join public.talk_rounds tr on tr.id = r.round_id
     where r.response_group_id = ${responseGroupId}
       and r.sequence_index is not null
       and r.sequence_index < ${currentSequenceIndex}
@@ -1185,6 +1262,8 @@ async function listPriorOrderedOutputs(
     agentId: row.agent_id,
     agentNickname: row.agent_nickname,
     content: row.content,
+    roundNumber: row.round_number,
+    isRoundSynthesis: row.is_round_synthesis,
   }));
 }
 
@@ -1199,6 +1278,7 @@ async function listPriorOrderedGaps(
       agent_id: string | null;
       agent_nickname: string | null;
       status: TalkRunStatus;
+      round_number: number | null;
     }>
   >`
     select
@@ -1216,9 +1296,11 @@ async function listPriorOrderedGaps(
         ra.name,
         'Agent'
       ) as agent_nickname,
-      r.status as status
+      r.status as status,
+      tr.round_number as round_number
     from public.talk_runs r
     left join public.registered_agents ra on ra.id = r.target_agent_id
+    left join public.talk_rounds tr on tr.id = r.round_id
     where r.response_group_id = ${responseGroupId}
       and r.sequence_index is not null
       and r.sequence_index < ${currentSequenceIndex}
@@ -1230,6 +1312,7 @@ async function listPriorOrderedGaps(
     agentId: row.agent_id,
     agentNickname: row.agent_nickname,
     status: row.status,
+    roundNumber: row.round_number,
   }));
 }
 
@@ -1295,6 +1378,17 @@ function computePriorOutputBudgetChars(input: {
   );
 }
 
+function formatRoundLabel(
+  agentLabel: string,
+  roundNumber: number | null,
+  isRoundSynthesis: boolean,
+): string {
+  if (roundNumber == null) return agentLabel;
+  return isRoundSynthesis
+    ? `Round ${roundNumber} synthesis · ${agentLabel}`
+    : `Round ${roundNumber} · ${agentLabel}`;
+}
+
 function formatPriorOutputs(
   priorOutputs: PriorOrderedOutput[],
   maxContentChars: number,
@@ -1305,7 +1399,11 @@ function formatPriorOutputs(
       : 0;
   return priorOutputs
     .map((output) => {
-      const label = output.agentNickname || output.agentId || 'Agent';
+      const label = formatRoundLabel(
+        output.agentNickname || output.agentId || 'Agent',
+        output.roundNumber,
+        output.isRoundSynthesis,
+      );
       return `[${label}]\n${truncateForContextWindow(output.content, maxCharsPerOutput)}`;
     })
     .join('\n\n');
@@ -1314,8 +1412,11 @@ function formatPriorOutputs(
 function formatPriorGaps(priorGaps: PriorOrderedGap[]): string {
   return priorGaps
     .map((gap) => {
-      const label =
-        gap.agentNickname || gap.agentId || `Agent ${gap.sequenceIndex + 1}`;
+      const label = formatRoundLabel(
+        gap.agentNickname || gap.agentId || `Agent ${gap.sequenceIndex + 1}`,
+        gap.roundNumber,
+        false,
+      );
       const statusText =
         gap.status === 'failed'
           ? 'failed to finish'
@@ -1323,9 +1424,11 @@ function formatPriorGaps(priorGaps: PriorOrderedGap[]): string {
             ? 'was cancelled'
             : gap.status === 'awaiting_confirmation'
               ? 'is waiting for confirmation'
-              : gap.status === 'running'
-                ? 'is still running'
-                : 'is unavailable';
+              : gap.status === 'paused'
+                ? 'is paused at the tool-call limit'
+                : gap.status === 'running'
+                  ? 'is still running'
+                  : 'is unavailable';
       return `[${label}] ${statusText}; its output is omitted.`;
     })
     .join('\n');
@@ -1337,8 +1440,10 @@ function buildOrderedUserMessage(input: {
   priorGaps: PriorOrderedGap[];
   isSynthesis: boolean;
   maxPriorOutputChars: number;
+  round?: { roundNumber: number; roundsLimit: number } | null;
 }): string {
   const sections = [`Original user request:\n${input.originalQuestion}`];
+  const round = input.round ?? null;
 
   if (input.priorOutputs.length > 0) {
     sections.push(
@@ -1352,7 +1457,11 @@ function buildOrderedUserMessage(input: {
     );
   }
 
-  if (input.isSynthesis) {
+  if (round) {
+    sections.push(
+      buildRoundInstruction({ ...round, isSynthesis: input.isSynthesis }),
+    );
+  } else if (input.isSynthesis) {
     sections.push(
       [
         'Synthesize these perspectives.',
@@ -1378,6 +1487,46 @@ function buildOrderedUserMessage(input: {
   return sections.join('\n\n');
 }
 
+function buildRoundInstruction(input: {
+  roundNumber: number;
+  roundsLimit: number;
+  isSynthesis: boolean;
+}): string {
+  const position = `This is round ${input.roundNumber} of ${input.roundsLimit} of a multi-agent debate.`;
+  const attribution = [
+    "Treat the prior replies as other agents' work, not as your own previous statements,",
+    'even if an excerpt resembles your provider or a generic assistant label.',
+    'Do not assume every step is represented if some replies are marked unavailable.',
+  ];
+  if (input.isSynthesis) {
+    const isFinalRound = input.roundNumber >= input.roundsLimit;
+    return [
+      position,
+      `You close round ${input.roundNumber} with a synthesis.`,
+      'Identify where the agents agree, resolve or name the tensions between them, and credit the strongest points by agent.',
+      isFinalRound
+        ? 'This is the final round: produce the unified final recommendation.'
+        : 'Then state the open questions the next round should settle.',
+      ...attribution,
+    ].join(' ');
+  }
+  if (input.roundNumber <= 1) {
+    return [
+      position,
+      'Provide your own analysis from your role and perspective.',
+      'Do not merely restate earlier replies; add your independent reasoning.',
+      ...attribution,
+    ].join(' ');
+  }
+  return [
+    position,
+    'Respond to the points raised in the previous round and its synthesis:',
+    'defend, revise, or concede your position where warranted, challenge weak arguments from other agents, and add what is still missing.',
+    'Do not repeat your earlier reply.',
+    ...attribution,
+  ].join(' ');
+}
+
 /**
  * Wrap the `@-ref` forced-injection block with a "treat as data, not
  * instructions" preamble and trailing separator. The result is prefixed
@@ -1409,6 +1558,10 @@ export async function buildStepUserMessageText(input: {
   modelContextWindow: number;
   responseGroupId?: string | null;
   sequenceIndex?: number | null;
+  // Debate steps (talk_rounds): the run's own id and round. The round's
+  // synthesizer_run_id, not the group's last index, marks the synthesis.
+  runId?: string | null;
+  roundId?: string | null;
 }): Promise<{ userMessageText: string; isSynthesis: boolean }> {
   if (
     !input.responseGroupId ||
@@ -1418,25 +1571,46 @@ export async function buildStepUserMessageText(input: {
     return { userMessageText: input.triggerContent, isSynthesis: false };
   }
 
-  const priorOutputs = await listPriorOrderedOutputs(
+  const round = input.roundId ? await getTalkRoundById(input.roundId) : null;
+  let priorOutputs = await listPriorOrderedOutputs(
     input.responseGroupId,
     input.sequenceIndex,
   );
-  const priorGaps = await listPriorOrderedGaps(
+  let priorGaps = await listPriorOrderedGaps(
     input.responseGroupId,
     input.sequenceIndex,
   );
+  if (round) {
+    priorOutputs = priorOutputs.filter(
+      (output) =>
+        output.roundNumber == null ||
+        isVisibleRoundOutput({
+          outputRoundNumber: output.roundNumber,
+          outputIsSynthesis: output.isRoundSynthesis,
+          currentRoundNumber: round.round_number,
+        }),
+    );
+    priorGaps = priorGaps.filter(
+      (gap) =>
+        gap.roundNumber == null || gap.roundNumber >= round.round_number - 1,
+    );
+  }
   if (priorOutputs.length === 0 && priorGaps.length === 0) {
     return { userMessageText: input.triggerContent, isSynthesis: false };
   }
 
-  const maxSequenceIndex = await getOrderedGroupMaxSequence(
-    input.responseGroupId,
-  );
-  const isSynthesis =
-    maxSequenceIndex != null &&
-    maxSequenceIndex > 0 &&
-    input.sequenceIndex === maxSequenceIndex;
+  let isSynthesis: boolean;
+  if (round) {
+    isSynthesis = !!input.runId && round.synthesizer_run_id === input.runId;
+  } else {
+    const maxSequenceIndex = await getOrderedGroupMaxSequence(
+      input.responseGroupId,
+    );
+    isSynthesis =
+      maxSequenceIndex != null &&
+      maxSequenceIndex > 0 &&
+      input.sequenceIndex === maxSequenceIndex;
+  }
   const maxPriorOutputChars = computePriorOutputBudgetChars({
     modelContextWindow: input.modelContextWindow,
     estimatedContextTokens: input.estimatedContextTokens,
@@ -1450,6 +1624,12 @@ export async function buildStepUserMessageText(input: {
       priorGaps,
       isSynthesis,
       maxPriorOutputChars,
+      round: round
+        ? {
+            roundNumber: round.round_number,
+            roundsLimit: round.rounds_limit,
+          }
+        : null,
     }),
     isSynthesis,
   };
@@ -2264,6 +2444,7 @@ async function buildDirectHistoryMessages(input: {
 
 function assertVisionSupportForConversationImages(input: {
   agent: RegisteredAgentRecord;
+  capabilityOverrides: ModelCapabilityOverrides | null;
   currentAttachmentRows: MessageAttachmentRecord[];
   historyImageMessageIdsToHydrate: Set<string>;
 }): void {
@@ -2276,7 +2457,13 @@ function assertVisionSupportForConversationImages(input: {
     return;
   }
 
-  if (modelSupportsVision(input.agent.provider_id, input.agent.model_id)) {
+  if (
+    modelSupportsVision(
+      input.agent.provider_id,
+      input.agent.model_id,
+      input.capabilityOverrides,
+    )
+  ) {
     return;
   }
 
@@ -2334,6 +2521,12 @@ function buildResponseMetadataJson(input: {
     codexReasoningItems?: Array<Record<string, unknown>>;
     codexMessageItems?: Array<Record<string, unknown>>;
   };
+  fallback?: AgentExecutionResult['fallback'];
+  structuredOutput?: {
+    value: unknown;
+    stateKey: string | null;
+    stateVersion: number | null;
+  } | null;
 }): string {
   const codexReasoning =
     input.providerData?.codexReasoningItems &&
@@ -2357,11 +2550,64 @@ function buildResponseMetadataJson(input: {
     incompleteReason: input.completion?.incompleteReason ?? null,
     completedCleanly: input.completion?.completionStatus !== 'incomplete',
     ...(input.isSynthesis ? { isSynthesis: true } : {}),
+    ...(input.fallback ? { fallback: input.fallback } : {}),
+    ...(input.structuredOutput
+      ? {
+          structuredOutput: input.structuredOutput.value,
+          ...(input.structuredOutput.stateKey
+            ? {
+                structuredOutputStateKey: input.structuredOutput.stateKey,
+                structuredOutputStateVersion:
+                  input.structuredOutput.stateVersion,
+              }
+            : {}),
+        }
+      : {}),
     ...(codexReasoning ? { codexReasoningItems: codexReasoning } : {}),
     ...(codexMessages ? { codexMessageItems: codexMessages } : {}),
   });
 }
 
+/**
+ * Write a structured reply to the state key its request named. This is
+ * the request's own configuration rather than a model tool call, so it
+ * applies to job runs too (jobPolicy only restricts update_state). A
+ * concurrent writer bumping the version between read and write gets one
+ * retry against the fresh version; the last write wins.
+ */
+async function writeStructuredOutputState(input: {
+  talkId: string;
+  userId: string;
+  runId: string;
+  key: string;
+  value: unknown;
+}): Promise<number> {
+  try {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const current = await getTalkStateEntry(input.talkId, input.key);
+      const result = await upsertTalkStateEntry({
+        ownerId: input.userId,
+        talkId: input.talkId,
+        key: input.key,
+        value: input.value,
+        expectedVersion: current?.version ?? 0,
+        updatedByUserId: input.userId,
+        updatedByRunId: input.runId,
+      });
+      if (result.ok) return result.entry.version;
+    }
+  } catch (error) {
+    throw new TalkExecutorError(
+      'structured_output_state_write_failed',
+      `Could not write state key "${input.key}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  throw new TalkExecutorError(
+    'structured_output_state_write_failed',
+    `State key "${input.key}" kept changing while the run tried to write it.`,
+  );
+}
+
 export class CleanTalkExecutor implements TalkExecutor {
   async execute(
     input: TalkExecutorInput,
@@ -2383,6 +2629,10 @@ export class CleanTalkExecutor implements TalkExecutor {
       const runRecord = await getTalkRunById(input.runId);
       const existingRunMetadata = parseRunMetadata(runRecord?.metadata_json);
       const runMetadata = { ...existingRunMetadata };
+      // Set by the chat route or copied from the job at run creation.
+      const structuredOutputConfig = normalizeStructuredOutputConfig(
+        existingRunMetadata.structuredOutput,
+      );
       const browserResumeSection =
         buildBrowserResumeSection(existingRunMetadata);
       const channelTriggerContext = await loadChannelTriggerContext({
@@ -2402,7 +2652,8 @@ export class CleanTalkExecutor implements TalkExecutor {
       // mutates activeAgent in place (= resolved.agent, so the failure-path
       // metadata reflects the swap too). See runtime-model-guard.ts.
       await ensureRunnableModel(activeAgent);
-      const modelContextWindow = await getModelContextWindow(activeAgent);
+      const modelCatalogEntry = await getModelCatalogEntry(activeAgent);
+      const modelContextWindow = modelCatalogEntry.contextWindowTokens;
       const jobPolicy = await buildTalkJobExecutionPolicy(input.jobId);
       // Prefer the snapshot captured at run-creation (migration 0031) —
       // a multi-agent response group must see the same tool set even if
@@ -2431,6 +2682,7 @@ export class CleanTalkExecutor implements TalkExecutor {
       const agentSupportsVision = modelSupportsVision(
         activeAgent.provider_id,
         activeAgent.model_id,
+        modelCatalogEntry.capabilityOverrides,
       );
       const agentSupportsDocuments = modelSupportsPdfDocuments(
         activeAgent.provider_id,
@@ -2473,6 +2725,7 @@ export class CleanTalkExecutor implements TalkExecutor {
         ]
           .filter(Boolean)
           .join('\n\n'),
+        stableSystemPrefix: contextPackage.stableSystemPrefix,
         contextTools: contextPackage.contextTools,
         connectorTools: contextPackage.connectorTools,
         history: contextPackage.history,
@@ -2483,6 +2736,8 @@ export class CleanTalkExecutor implements TalkExecutor {
         modelContextWindow,
         responseGroupId: input.responseGroupId,
         sequenceIndex: input.sequenceIndex,
+        runId: input.runId,
+        roundId: runRecord?.round_id ?? null,
       });
       // `@-ref` forced injection — pre-fetched and budgeted upstream in
       // loadTalkContext. We prepend it to the user-role message (not the
@@ -2618,6 +2873,7 @@ export class CleanTalkExecutor implements TalkExecutor {
 
       assertVisionSupportForConversationImages({
         agent: activeAgent,
+        capabilityOverrides: modelCatalogEntry.capabilityOverrides,
         currentAttachmentRows,
         historyImageMessageIdsToHydrate,
       });
@@ -2761,6 +3017,16 @@ export class CleanTalkExecutor implements TalkExecutor {
       // happened — including the executor crashing or being aborted
       // mid-flight. Without this, the client banner "X is editing…"
       // gets stuck forever because no terminal event ever lands.
+      // A granted continuation picks the tool loop back up where it
+      // paused. The transcript is in this agent's tool-call shape, so it
+      // is only reused by the agent that paused.
+      const continuation =
+        input.continuation?.grantedIterations &&
+        input.continuation.agentId === activeAgent.id
+          ? input.continuation
+          : null;
+      let paused = false;
+      const trace = createRunTraceRecorder();
       let result: Awaited<ReturnType<typeof executeWithAgent>>;
       try {
         result = await executeWithAgent(
@@ -2775,6 +3041,7 @@ export class CleanTalkExecutor implements TalkExecutor {
             userId: input.requestedBy,
             signal,
             emit: (event: ExecutionEvent) => {
+              trace.observe(event);
               const mappedEvent = mapExecutionEvent(event, input, resolved);
               if (mappedEvent) {
                 emitTalkEvent(mappedEvent);
@@ -2782,15 +3049,61 @@ export class CleanTalkExecutor implements TalkExecutor {
             },
             executeToolCall: wrappedToolExecutor,
             forceToolUseOnFirstIteration,
+            pauseAtToolIterationLimit: true,
+            ...(continuation
+              ? {
+                  resume: continuation,
+                  maxToolIterations:
+                    continuation.grantedIterations ?? undefined,
+                }
+              : {}),
             credentialKindSnapshot: runRecord?.credential_kind_snapshot,
+            promptCacheKey: contextPackage.promptCacheKey,
             // Tools are Talk-scoped: the router builds the model's tool
             // DEFINITIONS from this same effective set the executor uses to
             // gate execution, so shown tools and runnable tools stay aligned.
             effectiveTools: scopedEffectiveTools,
+            beforeToolIteration: input.checkUsageBudget,
+            requestToolApproval: input.requestToolApproval,
+            // Each model the run moves past gets its own llm_attempts
+            // row; the answering model's 'success' row is written when
+            // the run completes.
+            recordFallbackHop: async (hop) => {
+              trace.fallbackHop(hop);
+              await createLlmAttempt({
+                ownerId: runRecord?.owner_id ?? input.requestedBy,
+                runId: input.runId,
+                talkId: input.talkId,
+                agentId: activeAgent.id,
+                providerId: hop.providerId,
+                modelId: hop.modelId,
+                status: hop.status,
+                failureClass: hop.failureClass,
+                latencyMs: hop.latencyMs ?? null,
+              });
+            },
+            responseSchema: structuredOutputConfig
+              ? toResponseSchema(structuredOutputConfig)
+              : undefined,
           },
         );
+      } catch (error) {
+        paused = error instanceof TalkRunPausedError;
+        trace.finish({
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
       } finally {
-        if (trackApplyRun && editContentId && !applyCalledInRun) {
+        await saveRunTrace({
+          runId: input.runId,
+          talkId: input.talkId,
+          ownerId: runRecord?.owner_id ?? input.requestedBy,
+          steps: trace.steps(),
+        });
+        // A paused run has not ended; the edit may still land after it
+        // continues.
+        if (trackApplyRun && editContentId && !applyCalledInRun && !paused) {
           const editContent = await getContentByTalkId(input.talkId);
           if (editContent) {
             await emitOutboxEvent({
@@ -2807,6 +3120,18 @@ export class CleanTalkExecutor implements TalkExecutor {
         }
       }
 
+      const stateKey = structuredOutputConfig?.stateKey ?? null;
+      const stateVersion =
+        stateKey && result.structuredOutput !== undefined
+          ? await writeStructuredOutputState({
+              talkId: input.talkId,
+              userId: input.requestedBy,
+              runId: input.runId,
+              key: stateKey,
+              value: result.structuredOutput,
+            })
+          : null;
+
       return {
         content: result.content,
         agentId: result.agentId,
@@ -2816,7 +3141,9 @@ export class CleanTalkExecutor implements TalkExecutor {
         usage: result.usage
           ? {
               inputTokens: result.usage.inputTokens,
+              cachedInputTokens: result.usage.cachedInputTokens,
               outputTokens: result.usage.outputTokens,
+              reasoningTokens: result.usage.reasoningTokens,
               estimatedCostUsd: result.usage.estimatedCostUsd,
             }
           : undefined,
@@ -2831,10 +3158,18 @@ export class CleanTalkExecutor implements TalkExecutor {
           isSynthesis: orderedStep.isSynthesis,
           completion: result.completion,
           providerData: result.providerData,
+          fallback: result.fallback,
+          structuredOutput:
+            result.structuredOutput !== undefined
+              ? { value: result.structuredOutput, stateKey, stateVersion }
+              : null,
         }),
         completion: result.completion,
       };
     } catch (error) {
+      if (error instanceof TalkRunPausedError) {
+        throw error;
+      }
       const errorCode =
         error instanceof TalkExecutorError
           ? error.code
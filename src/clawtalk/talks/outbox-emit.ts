@@ -23,6 +23,13 @@
 // the notify queue / streaming coalescer (withRequestScopedDb opens
 // both). Callers without a scope still get a durable outbox row but
 // no notify — there are no in-process SSE consumers left to wake.
+//
+// Shared Talks (migration 0047): producers pass the Talk owner (or the
+// acting user) as ownerIds. For `talk:<id>` topics both wrappers add
+// the Talk's members before notifying, so every member's UserEventHub
+// drains the event. Member lists are cached per isolate for a few
+// seconds — a streaming run emits dozens of events a second — and a
+// failed lookup degrades to the producer's ownerIds.
 
 import {
   appendOutboxEvent,
@@ -33,6 +40,8 @@ import {
   getStreamingCoalesceMap,
   type NotifyQueueEntry,
 } from '../../db.js';
+import { listTalkMemberUserIds } from '../db/talk-sharing-accessors.js';
+import { logger } from '../../logger.js';
 import { enqueueStreamingNotify } from './streaming-notify.js';
 
 export interface EmitOutboxEventInput {
@@ -42,6 +51,41 @@ export interface EmitOutboxEventInput {
   ownerIds: string[];
 }
 
+const TALK_TOPIC_PREFIX = 'talk:';
+const MEMBER_CACHE_TTL_MS = 10_000;
+const memberCache = new Map<string, { userIds: string[]; expiresAt: number }>();
+
+/** Drop the cached member list after a membership change. */
+export function forgetTalkMemberCache(talkId: string): void {
+  memberCache.delete(talkId);
+}
+
+async function resolveNotifyOwnerIds(
+  topic: string,
+  ownerIds: string[],
+): Promise<string[]> {
+  if (!topic.startsWith(TALK_TOPIC_PREFIX)) return ownerIds;
+  const talkId = topic.slice(TALK_TOPIC_PREFIX.length);
+  let cached = memberCache.get(talkId);
+  if (!cached || cached.expiresAt <= Date.now()) {
+    try {
+      cached = {
+        userIds: await listTalkMemberUserIds(talkId),
+        expiresAt: Date.now() + MEMBER_CACHE_TTL_MS,
+      };
+      memberCache.set(talkId, cached);
+    } catch (err) {
+      logger.warn(
+        { err, talkId },
+        '[outbox-emit] Talk member lookup failed; notifying ownerIds only',
+      );
+      return ownerIds;
+    }
+  }
+  if (cached.userIds.length === 0) return ownerIds;
+  return [...new Set([...ownerIds, ...cached.userIds])];
+}
+
 /**
  * In-tx emit. Returns the new event_id once the INSERT resolves on
  * the surrounding tx; queues the notify entry for post-commit flush
@@ -60,7 +104,7 @@ export async function emitOutboxEvent(
     const entry: NotifyQueueEntry = {
       topic: input.topic,
       eventId,
-      ownerIds: input.ownerIds,
+      ownerIds: await resolveNotifyOwnerIds(input.topic, input.ownerIds),
     };
     queue.push(entry);
   }
@@ -82,7 +126,8 @@ export async function emitOutboxEventOutsideTx(
     payload: input.payload,
   });
   if (getStreamingCoalesceMap()) {
-    for (const ownerId of input.ownerIds) {
+    const ownerIds = await resolveNotifyOwnerIds(input.topic, input.ownerIds);
+    for (const ownerId of ownerIds) {
       enqueueStreamingNotify({ eventId, topic: input.topic, ownerId });
     }
   }
@@ -19,11 +19,13 @@ import {
   markRunRunning,
   markTalkRunStatus,
 } from '../db/accessors.js';
-import type {
-  TalkExecutor,
-  TalkExecutorInput,
-  TalkExecutorOutput,
-  TalkExecutionEvent,
+import { getTalkRunContinuation } from '../db/run-continuation-accessors.js';
+import {
+  TalkRunPausedError,
+  type TalkExecutor,
+  type TalkExecutorInput,
+  type TalkExecutorOutput,
+  type TalkExecutionEvent,
 } from './executor.js';
 import {
   BlockedBySiblingError,
@@ -69,6 +71,7 @@ async function setupRun(opts?: {
   responseGroupId?: string;
   status?: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   agentId?: string;
+  metadata?: Record<string, unknown>;
 }): Promise<{ runId: string; talkId: string; messageId: string }> {
   return await withUserContext(OWNER_ID, async () => {
     const talk = await createTalk({
@@ -96,6 +99,7 @@ async function setupRun(opts?: {
       targetAgentId: opts?.agentId ?? null,
       responseGroupId: opts?.responseGroupId ?? null,
       sequenceIndex: opts?.sequenceIndex ?? null,
+      metadata: opts?.metadata ?? null,
     });
     return { runId: run.id, talkId: talk.id, messageId: message.id };
   });
@@ -462,6 +466,90 @@ describe('processTalkRunMessage', () => {
   });
 });
 
+describe('processTalkRunMessage tool-iteration pause', () => {
+  function pausedError(): TalkRunPausedError {
+    return new TalkRunPausedError({
+      reason: 'tool_iteration_limit',
+      agentId: 'agent-1',
+      transcript: [{ role: 'user', content: 'trigger me' }],
+      content: 'Searching. ',
+      iterationsUsed: 10,
+      usage: { inputTokens: 100, outputTokens: 20 },
+      pausedAt: new Date().toISOString(),
+    });
+  }
+
+  it('parks the run as paused with its continuation', async () => {
+    const { runId, talkId } = await setupRun();
+    const dispatched: string[] = [];
+    const { ctx, drain } = makeMockCtx();
+    const env: DbScopeEnvBindings = {};
+    await withRequestScopedDb(TEST_DB_URL, ctx, env, async () => {
+      await processTalkRunMessage({
+        runId,
+        executor: makeMockExecutor({ throwError: pausedError() }),
+        cancelPollIntervalMs: 50_000,
+        dispatch: async ({ runId: next }) => {
+          dispatched.push(next);
+        },
+      });
+    });
+    await drain();
+
+    expect(await getTalkRunById(runId).then((r) => r?.status)).toBe('paused');
+    expect(await getTalkRunContinuation(runId)).toMatchObject({
+      iterationsUsed: 10,
+      content: 'Searching. ',
+      grantedIterations: null,
+      autoGranted: false,
+    });
+    const events = await getOutboxEventsForTopics([`talk:${talkId}`], 0);
+    const types = events.map((e) => e.event_type);
+    expect(types).toContain('talk_run_paused');
+    expect(types).not.toContain('talk_run_failed');
+    expect(dispatched).toEqual([]);
+  });
+
+  it("spends the job's iteration grant once, then waits for the user", async () => {
+    const { runId } = await setupRun({ metadata: { toolIterationGrant: 5 } });
+    const dispatched: string[] = [];
+    const inputs: TalkExecutorInput[] = [];
+    const executor: TalkExecutor = {
+      async execute(input) {
+        inputs.push(input);
+        throw pausedError();
+      },
+    };
+    const { ctx, drain } = makeMockCtx();
+    const env: DbScopeEnvBindings = {};
+    const processOnce = () =>
+      withRequestScopedDb(TEST_DB_URL, ctx, env, () =>
+        processTalkRunMessage({
+          runId,
+          executor,
+          cancelPollIntervalMs: 50_000,
+          dispatch: async ({ runId: next }) => {
+            dispatched.push(next);
+          },
+        }),
+      );
+
+    await processOnce();
+    await drain();
+    expect(await getTalkRunById(runId).then((r) => r?.status)).toBe('queued');
+    expect(dispatched).toEqual([runId]);
+
+    await processOnce();
+    await drain();
+    expect(inputs[1].continuation).toMatchObject({
+      grantedIterations: 5,
+      autoGranted: true,
+    });
+    expect(await getTalkRunById(runId).then((r) => r?.status)).toBe('paused');
+    expect(dispatched).toEqual([runId]);
+  });
+});
+
 describe('processDlqMessage', () => {
   it('flips a queued run to failed with dlq_exhausted and emits talk_run_failed', async () => {
     const { runId, talkId } = await setupRun({ status: 'queued' });
@@ -23,29 +23,51 @@ import {
   appendOutboxEvent,
   completeRunAndPromoteNextAtomic,
   failRunAndPromoteNextAtomic,
-  findNextRunnableOrderedSibling,
   getTalkMessageById,
   getTalkRunById,
+  listRunnableOrderedSiblings,
   markRunRunning,
   type TalkRunRecord,
 } from '../db/accessors.js';
 import { markTalkJobRunFinished } from '../db/job-accessors.js';
+import {
+  getTalkRunContinuation,
+  grantTalkRunIterations,
+  isToolIterationGrant,
+  pauseTalkRunAtToolLimit,
+} from '../db/run-continuation-accessors.js';
+import { deliverRunChannelReply } from '../connectors/channel-delivery.js';
+import { deliverJobReport } from './job-report.js';
 import { logger } from '../../logger.js';
 
+import {
+  refreshConversationSummary,
+  type RefreshConversationSummaryInput,
+} from './conversation-summarizer.js';
 import { CleanTalkExecutor } from './new-executor.js';
 import { dispatchRun } from './queue-producer.js';
+import { saveRunTrace } from './run-trace.js';
 import {
   TalkExecutorError,
+  TalkRunPausedError,
   type TalkExecutionEvent,
   type TalkExecutor,
+  type TalkRunContinuation,
 } from './executor.js';
 import {
   createTalkResponseStreamSanitizer,
   extractChannelReplyControl,
-  stripInternalTalkResponseText,
+  type ChannelReplyControl,
   type TalkResponseStreamSanitizer,
 } from './internal-tags.js';
-import { emitOutboxEventOutsideTx } from './outbox-emit.js';
+import { emitOutboxEvent, emitOutboxEventOutsideTx } from './outbox-emit.js';
+import { awaitToolApproval } from './tool-approvals.js';
+import {
+  createRunBudgetGuard,
+  describeUsageBudgetBreach,
+  loadRunUsageBudgets,
+  type UsageBudgetBreach,
+} from './usage-budgets.js';
 
 export interface ProcessTalkRunMessageInput {
   runId: string;
@@ -62,6 +84,19 @@ export interface ProcessTalkRunMessageInput {
   // this run reaches a terminal state. Defaults to dispatchRun
   // (TALK_RUN_QUEUE.send).
   dispatch?: (input: { runId: string }) => Promise<void>;
+  // Test seam — rolling-summary refresh after a completed run. Defaults
+  // to refreshConversationSummary.
+  summarize?: (input: RefreshConversationSummaryInput) => Promise<unknown>;
+  // Test seam — outbound Slack / Telegram reply for a completed
+  // channel-triggered run. Defaults to deliverRunChannelReply.
+  deliver?: (input: {
+    run: TalkRunRecord;
+    messageId: string;
+    control: ChannelReplyControl;
+  }) => Promise<unknown>;
+  // Test seam — Content write for a completed report-kind job run.
+  // Defaults to deliverJobReport.
+  report?: (input: Parameters<typeof deliverJobReport>[0]) => Promise<unknown>;
 }
 
 export class BlockedBySiblingError extends Error {
@@ -113,6 +148,25 @@ export async function processTalkRunMessage(
         },
         ownerIds: [runRow.owner_id],
       });
+      if (runRow.talk_id) {
+        await saveRunTrace({
+          runId: input.runId,
+          talkId: runRow.talk_id,
+          ownerId: runRow.owner_id,
+          steps: [
+            {
+              kind: 'retry',
+              startedAt: new Date().toISOString(),
+              durationMs: null,
+              data: {
+                reason: 'queue_redelivery',
+                attempt: retryAttempt,
+                maxRetries,
+              },
+            },
+          ],
+        });
+      }
     }
   }
 
@@ -149,6 +203,14 @@ export async function processTalkRunMessage(
   const executor = input.executor ?? new CleanTalkExecutor();
   const cancelPollMs = input.cancelPollIntervalMs ?? DEFAULT_CANCEL_POLL_MS;
   const dispatch = input.dispatch ?? dispatchRun;
+  const summarize = input.summarize ?? refreshConversationSummary;
+  const deliver = input.deliver ?? deliverRunChannelReply;
+  const report = input.report ?? deliverJobReport;
+  let completedAgentId: string | null | undefined;
+  let channelReply:
+    { messageId: string; control: ChannelReplyControl } | undefined;
+  let jobReport: Parameters<typeof deliverJobReport>[0] | undefined;
+  let continueRun = false;
 
   await withUserContext(run.owner_id, async () => {
     if (!run.trigger_message_id) {
@@ -170,6 +232,26 @@ export async function processTalkRunMessage(
       return;
     }
 
+    // Usage budgets: a run that would start at or past a hard limit
+    // fails before any tokens are spent. The same guard re-checks
+    // between tool-loop iterations with the run's own usage added.
+    const budgetGuard = createRunBudgetGuard({
+      entries: await loadRunUsageBudgets({
+        runId: run.id,
+        ownerId: run.owner_id,
+        talkId: run.talk_id,
+        jobId: run.job_id ?? null,
+      }),
+      onWarning: (breach) => emitBudgetWarning(run, breach),
+    });
+    try {
+      budgetGuard.check();
+    } catch (err) {
+      if (!(err instanceof TalkExecutorError)) throw err;
+      await failRun(run, err.code, err.message, err.metadata);
+      return;
+    }
+
     const cancelController = new AbortController();
     const pollerStop = new AbortController();
     const cancelPoller = (async () => {
@@ -182,8 +264,14 @@ export async function processTalkRunMessage(
             cancelController.abort('cancelled');
             return;
           }
-          if (current && current.status !== 'running') {
+          if (
+            current &&
+            current.status !== 'running' &&
+            current.status !== 'awaiting_confirmation'
+          ) {
             // Some other path already flipped status — stop polling.
+            // awaiting_confirmation is this run parked on a tool
+            // approval; keep polling so a cancel still lands.
             return;
           }
         } catch (err) {
@@ -192,6 +280,10 @@ export async function processTalkRunMessage(
       }
     })();
 
+    // Set when the run was paused at the tool-iteration limit and has
+    // since been granted more iterations.
+    const continuation = await getTalkRunContinuation(run.id);
+
     let sanitizer: TalkResponseStreamSanitizer | null = null;
     const emit = (event: TalkExecutionEvent): void => {
       let routed: TalkExecutionEvent = event;
@@ -205,7 +297,8 @@ export async function processTalkRunMessage(
       } else if (
         event.type === 'talk_response_completed' ||
         event.type === 'talk_response_failed' ||
-        event.type === 'talk_response_cancelled'
+        event.type === 'talk_response_cancelled' ||
+        event.type === 'talk_response_paused'
       ) {
         sanitizer = null;
       }
@@ -233,13 +326,29 @@ export async function processTalkRunMessage(
           targetAgentId: run.target_agent_id,
           responseGroupId: run.response_group_id ?? null,
           sequenceIndex: run.sequence_index ?? null,
+          checkUsageBudget: (usage) =>
+            budgetGuard.check({
+              tokens: (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0),
+              costUsd: usage.estimatedCostUsd ?? 0,
+            }),
+          requestToolApproval: (request) =>
+            awaitToolApproval({
+              ...request,
+              runId: run.id,
+              talkId: run.talk_id!,
+              threadId: run.thread_id,
+              ownerId: run.owner_id,
+              signal: cancelController.signal,
+            }),
+          continuation,
         },
         cancelController.signal,
         emit,
       );
       const latencyMs = Date.now() - executionStartedAt;
-      void extractChannelReplyControl(output.content);
-      const responseContent = stripInternalTalkResponseText(output.content);
+      const replyControl = extractChannelReplyControl(output.content);
+      const responseContent = replyControl.visibleText;
+      const responseMessageId = randomUUID();
       const responseMetadata = output.metadataJson
         ? (JSON.parse(output.metadataJson) as Record<string, unknown>)
         : null;
@@ -247,7 +356,7 @@ export async function processTalkRunMessage(
       const completed = await completeRunAndPromoteNextAtomic({
         ownerId: run.owner_id,
         runId: run.id,
-        responseMessageId: randomUUID(),
+        responseMessageId,
         responseContent,
         responseMetadata,
         agentId: output.agentId,
@@ -259,11 +368,23 @@ export async function processTalkRunMessage(
         responseSequenceInRun: output.responseSequenceInRun,
       });
       if (completed.applied) {
+        completedAgentId = output.agentId ?? null;
+        channelReply = { messageId: responseMessageId, control: replyControl };
         if (run.job_id) {
           await markTalkJobRunFinished({
             jobId: run.job_id,
             status: 'completed',
           });
+          jobReport = {
+            runId: run.id,
+            jobId: run.job_id,
+            talkId: run.talk_id!,
+            ownerId: run.owner_id,
+            responseMessageId,
+            responseContent,
+            agentId: output.agentId ?? null,
+            agentNickname: output.agentNickname ?? null,
+          };
         }
       } else {
         logger.debug(
@@ -272,6 +393,10 @@ export async function processTalkRunMessage(
         );
       }
     } catch (err) {
+      if (err instanceof TalkRunPausedError) {
+        continueRun = await pauseRun(run, err, continuation);
+        return;
+      }
       if (isAbortError(err)) {
         if (await isCancelled(run.id)) {
           // Cancel route already flipped status + emitted the
@@ -294,6 +419,46 @@ export async function processTalkRunMessage(
     }
   });
 
+  // The job policy granted the paused run more iterations; queue its
+  // next leg now that the grant is committed.
+  if (continueRun) {
+    await dispatch({ runId: run.id });
+    return;
+  }
+
+  // Channel reply, before promotion so ordered agents answering one
+  // Slack / Telegram message land in the thread in sequence. Best-effort:
+  // failures are recorded on the delivery row and retried by the
+  // scheduler tick, never by re-running the completed run. The delivery
+  // opens the owner's context for its own reads and writes; the platform
+  // sends stay outside any transaction.
+  if (channelReply && run.source_binding_id) {
+    try {
+      await deliver({ run, ...channelReply });
+    } catch (err) {
+      logger.warn(
+        { err, runId: run.id, channelId: run.source_binding_id },
+        'channel reply delivery failed',
+      );
+    }
+  }
+
+  // Report deliverable. Runs in its own transaction so a Content write
+  // failure never rolls back the completed run; deliverJobReport records
+  // its own failures on talk_job_run_reports, and anything it throws is
+  // logged and dropped (the next scheduled run writes a fresh report).
+  if (jobReport) {
+    const reportInput = jobReport;
+    try {
+      await withUserContext(run.owner_id, () => report(reportInput));
+    } catch (err) {
+      logger.warn(
+        { err, runId: run.id, jobId: run.job_id },
+        'job report write failed',
+      );
+    }
+  }
+
   // Active ordered-sibling promotion. This run is now terminal (completed,
   // failed, or cancelled). If it was a step in an ordered response group,
   // wake the next eligible queued sibling NOW rather than leaving it to the
@@ -302,13 +467,16 @@ export async function processTalkRunMessage(
   // their wake signal. Best-effort: the run is already finalized, so a
   // dispatch hiccup must never turn a successful terminal into a thrown
   // (which would trigger a pointless queue retry). A cancelled round leaves
-  // no queued siblings, so the lookup simply returns null.
+  // no queued siblings, so the lookup simply returns nothing. A debate
+  // panel round can make several siblings eligible at once.
   if (run.response_group_id && run.sequence_index !== null) {
     try {
-      const nextRunId = await findNextRunnableOrderedSibling(
+      const nextRunIds = await listRunnableOrderedSiblings(
         run.response_group_id,
       );
-      if (nextRunId) await dispatch({ runId: nextRunId });
+      for (const nextRunId of nextRunIds) {
+        await dispatch({ runId: nextRunId });
+      }
     } catch (err) {
       logger.warn(
         {
@@ -320,6 +488,29 @@ export async function processTalkRunMessage(
       );
     }
   }
+
+  // Rolling summary refresh, after promotion so the next ordered step
+  // never waits on it. Usually a cheap no-op (below threshold); when it
+  // does fold, it is one extra LLM call, made outside the owner
+  // transactions the summarizer opens for its reads and write.
+  // Best-effort like promotion: the run is already final, and the next
+  // completion retries the fold.
+  if (completedAgentId !== undefined && run.talk_id) {
+    const talkId = run.talk_id;
+    try {
+      await summarize({
+        ownerId: run.owner_id,
+        talkId,
+        threadId: run.thread_id,
+        agentId: completedAgentId,
+      });
+    } catch (err) {
+      logger.warn(
+        { err, runId: run.id, talkId, threadId: run.thread_id },
+        'conversation summary refresh failed; retried after next run',
+      );
+    }
+  }
 }
 
 async function failRun(
@@ -349,6 +540,94 @@ async function failRun(
   }
 }
 
+/**
+ * Park a run that hit the tool-iteration limit. A job run whose job
+ * grants extra iterations goes straight back to 'queued' the first time
+ * (returns true; the caller dispatches it after the commit). Otherwise
+ * it waits 'paused' for the user to continue or cancel it.
+ */
+async function pauseRun(
+  run: TalkRunRecord,
+  paused: TalkRunPausedError,
+  prior: TalkRunContinuation | null,
+): Promise<boolean> {
+  const autoGranted = prior?.autoGranted ?? false;
+  const applied = await pauseTalkRunAtToolLimit({
+    runId: run.id,
+    continuation: {
+      ...paused.continuation,
+      grantedIterations: null,
+      autoGranted,
+    },
+  });
+  if (!applied) {
+    logger.debug(
+      { runId: run.id, talkId: run.talk_id },
+      'Run pause skipped due to non-running status',
+    );
+    return false;
+  }
+
+  const grant = run.metadata_json?.toolIterationGrant;
+  if (
+    !autoGranted &&
+    isToolIterationGrant(grant) &&
+    (await grantTalkRunIterations({
+      runId: run.id,
+      iterations: grant,
+      auto: true,
+    }))
+  ) {
+    await emitOutboxEvent({
+      topic: `talk:${run.talk_id}`,
+      eventType: 'talk_run_continued',
+      payload: {
+        talkId: run.talk_id,
+        threadId: run.thread_id,
+        runId: run.id,
+        iterations: grant,
+        auto: true,
+      },
+      ownerIds: [run.owner_id],
+    });
+    return true;
+  }
+
+  await emitOutboxEvent({
+    topic: `talk:${run.talk_id}`,
+    eventType: 'talk_run_paused',
+    payload: {
+      talkId: run.talk_id,
+      threadId: run.thread_id,
+      runId: run.id,
+      agentId: paused.continuation.agentId,
+      iterationsUsed: paused.continuation.iterationsUsed,
+    },
+    ownerIds: [run.owner_id],
+  });
+  return false;
+}
+
+function emitBudgetWarning(
+  run: TalkRunRecord,
+  breach: UsageBudgetBreach,
+): void {
+  emitOutboxEventOutsideTx({
+    topic: `talk:${run.talk_id}`,
+    eventType: 'talk_usage_budget_warning',
+    payload: {
+      talkId: run.talk_id,
+      threadId: run.thread_id,
+      runId: run.id,
+      budget: breach,
+      message: describeUsageBudgetBreach(breach),
+    },
+    ownerIds: [run.owner_id],
+  }).catch((err) => {
+    logger.warn({ err, runId: run.id }, 'budget warning emit failed');
+  });
+}
+
 async function isCancelled(runId: string): Promise<boolean> {
   return (await getTalkRunById(runId))?.status === 'cancelled';
 }
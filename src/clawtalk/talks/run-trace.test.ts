@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  capTraceText,
+  createRunTraceRecorder,
+  redactTraceText,
+  redactTraceValue,
+  TRACE_STEP_LIMIT,
+  TRACE_TEXT_LIMIT,
+} from './run-trace.js';
+
+function clock(start = 1_000_000) {
+  let at = start;
+  return {
+    now: () => at,
+    advance: (ms: number) => {
+      at += ms;
+    },
+  };
+}
+
+describe('redaction', () => {
+  it('scrubs tokens out of text', () => {
+    expect(
+      redactTraceText(
+        'auth Bearer abcdefgh12345678 key sk-ant-0123456789abcdefXYZ',
+      ),
+    ).toBe('auth Bearer [redacted] key [redacted]');
+    expect(
+      redactTraceText('https://api.example.com/v1?q=cats&api_key=s3cr3t'),
+    ).toBe('https://api.example.com/v1?q=cats&api_key=[redacted]');
+  });
+
+  it('drops secret-looking keys at any depth', () => {
+    expect(
+      redactTraceValue({
+        query: 'weather',
+        headers: { Authorization: 'Basic Zm9vOmJhcg==', accept: 'json' },
+        nested: [{ apiKey: 'abc', password: '' }],
+      }),
+    ).toEqual({
+      query: 'weather',
+      headers: { Authorization: '[redacted]', accept: 'json' },
+      nested: [{ apiKey: '[redacted]', password: '' }],
+    });
+  });
+
+  it('caps long text and oversized values', () => {
+    const long = 'x'.repeat(TRACE_TEXT_LIMIT + 10);
+    expect(capTraceText(long)).toEqual({
+      text: 'x'.repeat(TRACE_TEXT_LIMIT),
+      truncatedFrom: TRACE_TEXT_LIMIT + 10,
+    });
+    const value = redactTraceValue({ body: long }) as {
+      preview: string;
+      truncatedFrom: number;
+    };
+    expect(value.preview).toHaveLength(TRACE_TEXT_LIMIT);
+    expect(value.truncatedFrom).toBeGreaterThan(TRACE_TEXT_LIMIT);
+  });
+});
+
+describe('createRunTraceRecorder', () => {
+  it('records turns, tool calls, retries and hops with timings', () => {
+    const time = clock();
+    const trace = createRunTraceRecorder({ now: time.now });
+
+    trace.fallbackHop({
+      providerId: 'provider.anthropic',
+      modelId: 'claude-opus',
+      status: 'failed',
+      failureClass: 'rate_limited',
+      latencyMs: 200,
+    });
+    trace.observe({
+      type: 'started',
+      runId: 'run-1',
+      agentId: 'agent-1',
+      providerId: 'provider.openai',
+      modelId: 'gpt-5',
+    });
+    time.advance(1_500);
+    trace.observe({
+      type: 'usage',
+      inputTokens: 900,
+      outputTokens: 40,
+      cachedInputTokens: 600,
+    });
+    trace.observe({
+      type: 'llm_turn',
+      providerId: 'provider.openai',
+      modelId: 'gpt-5',
+      messageCount: 3,
+      stopReason: 'tool_calls',
+      text: 'Checking.',
+      toolCalls: ['web_fetch'],
+      latencyMs: 1_500,
+    });
+    trace.observe({
+      type: 'tool_call',
+      toolName: 'web_fetch',
+      arguments: { url: 'https://example.com', token: 'abc' },
+    });
+    time.advance(300);
+    trace.observe({
+      type: 'tool_result',
+      toolName: 'web_fetch',
+      result: 'Example Domain',
+    });
+    trace.observe({
+      type: 'retry',
+      reason: 'structured_output_repair',
+      attempt: 1,
+      detail: 'missing "title"',
+    });
+    time.advance(200);
+    trace.observe({ type: 'text_delta', text: 'Done' });
+    trace.observe({ type: 'completed', content: 'Done' });
+
+    const steps = trace.steps();
+    expect(steps.map((step) => step.kind)).toEqual([
+      'fallback_hop',
+      'run_started',
+      'llm_turn',
+      'tool_call',
+      'retry',
+      'run_finished',
+    ]);
+    expect(steps[0]).toMatchObject({
+      durationMs: 200,
+      data: { status: 'failed', failureClass: 'rate_limited' },
+    });
+    expect(steps[2]).toMatchObject({
+      startedAt: steps[1].startedAt,
+      durationMs: 1_500,
+      data: {
+        stopReason: 'tool_calls',
+        toolCalls: ['web_fetch'],
+        usage: { inputTokens: 900, outputTokens: 40, cachedInputTokens: 600 },
+      },
+    });
+    expect(steps[3]).toMatchObject({
+      durationMs: 300,
+      data: {
+        toolName: 'web_fetch',
+        arguments: { url: 'https://example.com', token: '[redacted]' },
+        result: 'Example Domain',
+        isError: false,
+      },
+    });
+    expect(steps[5]).toMatchObject({
+      durationMs: 2_000,
+      data: { status: 'completed' },
+    });
+  });
+
+  it('closes an interrupted tool call and keeps the first outcome', () => {
+    const trace = createRunTraceRecorder();
+    trace.observe({ type: 'tool_call', toolName: 'gmail_send', arguments: {} });
+    trace.observe({
+      type: 'awaiting_confirmation',
+      confirmationId: 'c-1',
+      toolName: 'gmail_send',
+      actionSummary: 'Send an email',
+    });
+    trace.observe({ type: 'paused', iterationsUsed: 10 });
+    trace.finish({ status: 'failed', errorMessage: 'paused' });
+
+    const steps = trace.steps();
+    expect(steps).toHaveLength(2);
+    expect(steps[0].data).toMatchObject({
+      approvalRequested: true,
+      interrupted: true,
+    });
+    expect(steps[1].data).toEqual({ status: 'paused', iterationsUsed: 10 });
+  });
+
+  it('counts steps past the limit on run_finished', () => {
+    const trace = createRunTraceRecorder();
+    for (let i = 0; i < TRACE_STEP_LIMIT + 5; i++) {
+      trace.observe({
+        type: 'retry',
+        reason: 'codex_continuation',
+        attempt: i,
+      });
+    }
+    trace.observe({ type: 'cancelled' });
+
+    const steps = trace.steps();
+    expect(steps).toHaveLength(TRACE_STEP_LIMIT + 1);
+    expect(steps.at(-1)?.data).toEqual({
+      status: 'cancelled',
+      droppedSteps: 5,
+    });
+  });
+});
@@ -0,0 +1,329 @@
+// Per-run execution trace (migration 0055).
+//
+// The live stream only carries a tool's name and arguments, and nothing
+// about the run's turns outlives it. The executor feeds the router's
+// ExecutionEvents through a recorder that turns them into timeline
+// steps:
+//
+//   run_started   one per executor leg (a continued run has several)
+//   llm_turn      one model request: model, stop reason, reply text,
+//                 tool calls asked for, token usage, latency
+//   tool_call     arguments, result, error flag and duration
+//   retry         a turn the loop re-sent (Codex continuation,
+//                 structured-output repair) or a queue redelivery
+//   fallback_hop  a model the run moved past, and why
+//   run_finished  how the leg ended
+//
+// Text is capped at TRACE_TEXT_LIMIT and run through redactTraceText
+// before it is kept, so a tool that echoes a token doesn't persist it.
+// Steps are written once, out-of-band, when the leg ends (see
+// saveRunTrace).
+
+import type {
+  AgentFallbackHop,
+  ExecutionEvent,
+} from '../agents/agent-router.js';
+import { appendTalkRunTraceSteps } from '../db/run-trace-accessors.js';
+import { logger } from '../../logger.js';
+
+export type RunTraceStepKind =
+  | 'run_started'
+  | 'llm_turn'
+  | 'tool_call'
+  | 'retry'
+  | 'fallback_hop'
+  | 'run_finished';
+
+export interface RunTraceStep {
+  kind: RunTraceStepKind;
+  startedAt: string;
+  durationMs: number | null;
+  data: Record<string, unknown>;
+}
+
+/** Characters kept from any one text field. */
+export const TRACE_TEXT_LIMIT = 4_000;
+/** Steps kept per leg; later ones are counted on run_finished. */
+export const TRACE_STEP_LIMIT = 200;
+
+const REDACTED = '[redacted]';
+
+const SECRET_KEY_PATTERN =
+  /(pass(word)?|secret|token|api[_-]?key|authorization|cookie|credential|private[_-]?key)/i;
+
+const SECRET_TEXT_PATTERNS: Array<[RegExp, string]> = [
+  [/\bBearer\s+[A-Za-z0-9._~+/=-]{8,}/gi, `Bearer ${REDACTED}`],
+  [/\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]+/g, REDACTED],
+  [/\bsk-[A-Za-z0-9_-]{16,}/g, REDACTED],
+  [/\bxox[abposr]-[A-Za-z0-9-]{10,}/g, REDACTED],
+  [/\bgh[pousr]_[A-Za-z0-9]{20,}/g, REDACTED],
+  [/\bAIza[0-9A-Za-z_-]{35}/g, REDACTED],
+  [
+    /([?&](?:access_token|api_key|apikey|key|token|secret|password)=)[^&\s"']+/gi,
+    `$1${REDACTED}`,
+  ],
+];
+
+export function redactTraceText(text: string): string {
+  return SECRET_TEXT_PATTERNS.reduce(
+    (current, [pattern, replacement]) => current.replace(pattern, replacement),
+    text,
+  );
+}
+
+/**
+ * Redact and cap a text field. `truncatedFrom` is the original length
+ * when the text was cut.
+ */
+export function capTraceText(text: string): {
+  text: string;
+  truncatedFrom?: number;
+} {
+  const redacted = redactTraceText(text);
+  if (redacted.length <= TRACE_TEXT_LIMIT) return { text: redacted };
+  return {
+    text: redacted.slice(0, TRACE_TEXT_LIMIT),
+    truncatedFrom: redacted.length,
+  };
+}
+
+/**
+ * Redact a JSON value: secret-looking keys lose their value, strings
+ * are scrubbed. A value whose JSON exceeds the text limit is replaced
+ * by a capped preview.
+ */
+export function redactTraceValue(value: unknown): unknown {
+  const redacted = redactDeep(value, 0);
+  const json = JSON.stringify(redacted) ?? 'null';
+  if (json.length <= TRACE_TEXT_LIMIT) return redacted;
+  return {
+    preview: json.slice(0, TRACE_TEXT_LIMIT),
+    truncatedFrom: json.length,
+  };
+}
+
+function redactDeep(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') return redactTraceText(value);
+  if (!value || typeof value !== 'object') return value;
+  if (depth >= 8) return '[nested]';
+  if (Array.isArray(value)) {
+    return value.map((item) => redactDeep(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) && item !== null && item !== ''
+        ? REDACTED
+        : redactDeep(item, depth + 1),
+    ]),
+  );
+}
+
+export interface RunTraceRecorder {
+  observe(event: ExecutionEvent): void;
+  fallbackHop(hop: AgentFallbackHop): void;
+  /** Closes the leg after the executor threw without a terminal event. */
+  finish(outcome: { status: string; errorMessage?: string }): void;
+  steps(): RunTraceStep[];
+}
+
+export function createRunTraceRecorder(
+  options: { now?: () => number } = {},
+): RunTraceRecorder {
+  const now = options.now ?? Date.now;
+  const recorded: RunTraceStep[] = [];
+  let dropped = 0;
+  let legStartedAt: number | null = null;
+  let turnUsage: Record<string, unknown> | null = null;
+  let openTool: { step: RunTraceStep; startedAt: number } | null = null;
+  let finished = false;
+
+  const push = (step: RunTraceStep): RunTraceStep => {
+    if (recorded.length < TRACE_STEP_LIMIT) recorded.push(step);
+    else dropped += 1;
+    return step;
+  };
+  const step = (
+    kind: RunTraceStepKind,
+    startedAt: number,
+    durationMs: number | null,
+    data: Record<string, unknown>,
+  ) =>
+    push({
+      kind,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs,
+      data,
+    });
+  const closeTool = (data: Record<string, unknown>) => {
+    if (!openTool) return;
+    Object.assign(openTool.step.data, data);
+    openTool.step.durationMs = now() - openTool.startedAt;
+    openTool = null;
+  };
+  const finishLeg = (status: string, data: Record<string, unknown> = {}) => {
+    if (finished) return;
+    finished = true;
+    closeTool({ result: null, interrupted: true });
+    const at = now();
+    // Always kept: the leg's outcome matters more than any one step.
+    recorded.push({
+      kind: 'run_finished',
+      startedAt: new Date(at).toISOString(),
+      durationMs: legStartedAt === null ? null : at - legStartedAt,
+      data: {
+        status,
+        ...data,
+        ...(dropped > 0 ? { droppedSteps: dropped } : {}),
+      },
+    });
+  };
+
+  return {
+    observe(event) {
+      switch (event.type) {
+        case 'started':
+          legStartedAt = now();
+          step('run_started', legStartedAt, null, {
+            agentId: event.agentId,
+            providerId: event.providerId,
+            modelId: event.modelId,
+          });
+          return;
+        case 'usage':
+          turnUsage = {
+            inputTokens: event.inputTokens,
+            outputTokens: event.outputTokens,
+            ...(event.cachedInputTokens !== undefined
+              ? { cachedInputTokens: event.cachedInputTokens }
+              : {}),
+            ...(event.reasoningTokens !== undefined
+              ? { reasoningTokens: event.reasoningTokens }
+              : {}),
+          };
+          return;
+        case 'llm_turn': {
+          const text = capTraceText(event.text);
+          step('llm_turn', now() - event.latencyMs, event.latencyMs, {
+            providerId: event.providerId,
+            modelId: event.modelId,
+            messageCount: event.messageCount,
+            stopReason: event.stopReason,
+            text: text.text,
+            ...(text.truncatedFrom !== undefined
+              ? { textTruncatedFrom: text.truncatedFrom }
+              : {}),
+            toolCalls: event.toolCalls,
+            usage: turnUsage,
+          });
+          turnUsage = null;
+          return;
+        }
+        case 'tool_call': {
+          const startedAt = now();
+          openTool = {
+            startedAt,
+            step: step('tool_call', startedAt, null, {
+              toolName: event.toolName,
+              arguments: redactTraceValue(event.arguments),
+            }),
+          };
+          return;
+        }
+        case 'awaiting_confirmation':
+          if (openTool) openTool.step.data.approvalRequested = true;
+          return;
+        case 'tool_result': {
+          const result = capTraceText(event.result);
+          closeTool({
+            result: result.text,
+            ...(result.truncatedFrom !== undefined
+              ? { resultTruncatedFrom: result.truncatedFrom }
+              : {}),
+            isError: Boolean(event.isError),
+          });
+          return;
+        }
+        case 'retry':
+          step('retry', now(), null, {
+            reason: event.reason,
+            attempt: event.attempt,
+            ...(event.detail
+              ? { detail: capTraceText(event.detail).text }
+              : {}),
+          });
+          return;
+        case 'completed':
+          finishLeg('completed', {
+            completionStatus: event.completion?.completionStatus ?? null,
+          });
+          return;
+        case 'failed':
+          finishLeg('failed', {
+            errorCode: event.errorCode,
+            errorMessage: capTraceText(event.errorMessage).text,
+          });
+          return;
+        case 'paused':
+          finishLeg('paused', { iterationsUsed: event.iterationsUsed });
+          return;
+        case 'cancelled':
+          finishLeg('cancelled');
+          return;
+        case 'text_delta':
+        case 'reasoning_delta':
+          return;
+        default: {
+          const exhaustive: never = event;
+          return exhaustive;
+        }
+      }
+    },
+    fallbackHop(hop) {
+      const at = now();
+      step(
+        'fallback_hop',
+        hop.latencyMs !== undefined ? at - hop.latencyMs : at,
+        hop.latencyMs ?? null,
+        {
+          providerId: hop.providerId,
+          modelId: hop.modelId,
+          status: hop.status,
+          failureClass: hop.failureClass,
+        },
+      );
+    },
+    finish(outcome) {
+      finishLeg(
+        outcome.status,
+        outcome.errorMessage
+          ? { errorMessage: capTraceText(outcome.errorMessage).text }
+          : {},
+      );
+    },
+    steps() {
+      return recorded;
+    },
+  };
+}
+
+/**
+ * Write a leg's steps. Best-effort: a trace is a debugging aid and
+ * never fails the run it describes.
+ */
+export async function saveRunTrace(input: {
+  runId: string;
+  talkId: string;
+  ownerId: string;
+  steps: RunTraceStep[];
+}): Promise<void> {
+  if (input.steps.length === 0) return;
+  try {
+    await appendTalkRunTraceSteps(input);
+  } catch (err) {
+    logger.warn(
+      { err, runId: input.runId },
+      'saveRunTrace: could not write the run trace',
+    );
+  }
+}
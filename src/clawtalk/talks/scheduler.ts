@@ -7,9 +7,12 @@
 // TALK_RUN_QUEUE. The same tick also sweeps `running` rows whose
 // started_at is older than the stuck-run threshold — a long-tail
 // safety net for messages that DLQ'd before the consumer reached a
-// terminal status flip.
+// terminal status flip. A further pass retries outbound channel
+// replies left pending by a rate limit or transient platform failure,
+// and the last one re-fetches watched URL context sources
+// (source-refresh.ts).
 //
-// Both passes run inside withRequestScopedDb so dispatchRun and the
+// All passes run inside withRequestScopedDb so dispatchRun and the
 // outbox notify path see the Worker env bindings.
 
 import {
@@ -24,14 +27,20 @@ import {
   findNextRunnableOrderedSibling,
   listStrandedOrderedSiblings,
 } from '../db/accessors.js';
+import {
+  leaseDueChannelDelivery,
+  listDueChannelDeliveries,
+} from '../db/channel-delivery-accessors.js';
 import {
   advanceTalkJobNextDueAt,
   claimDueTalkJobs,
   createJobTriggerRun,
 } from '../db/job-accessors.js';
+import { attemptChannelDelivery } from '../connectors/channel-delivery.js';
 import { logger } from '../../logger.js';
 
 import { dispatchRun } from './queue-producer.js';
+import { refreshDueContextSources } from './source-refresh.js';
 
 // Number of due jobs to claim per tick. Cron fires every minute, so
 // even at 10/tick we sustain 14 400 jobs/day before backlog grows.
@@ -64,6 +73,13 @@ const STUCK_RUN_SWEEP_LIMIT = 100;
 const STRANDED_SIBLING_GRACE_MS = 2 * 60 * 1000;
 const STRANDED_SIBLING_SWEEP_LIMIT = 100;
 
+// Channel delivery retries per tick. Each one may post several chunks
+// with per-channel spacing, so keep the batch small. The lease keeps a
+// row claimed if the tick dies mid-send; it outlives the longest send
+// loop by a wide margin.
+const CHANNEL_DELIVERY_RETRY_LIMIT = 20;
+const CHANNEL_DELIVERY_LEASE_SECONDS = 5 * 60;
+
 export interface ScheduledTickEnv extends DbScopeEnvBindings {
   DB: { connectionString: string };
 }
@@ -81,6 +97,8 @@ export async function runScheduledTick(
     await processClaimableJobs();
     await sweepStuckRunningRuns();
     await sweepStrandedOrderedSiblings();
+    await retryDueChannelDeliveries();
+    await refreshDueContextSources();
   });
 }
 
@@ -249,3 +267,31 @@ async function sweepStrandedOrderedSiblings(): Promise<void> {
     );
   }
 }
+
+// Retry pending channel replies whose next_attempt_at has passed. Each row
+// is leased first, in its own transaction, so an overlapping tick skips
+// it; attemptChannelDelivery then sends outside that transaction and
+// writes the outcome (sent / pending with a later retry / failed).
+async function retryDueChannelDeliveries(): Promise<void> {
+  let due: Array<{ id: string; owner_id: string }>;
+  try {
+    due = await listDueChannelDeliveries(CHANNEL_DELIVERY_RETRY_LIMIT);
+  } catch (err) {
+    logger.error({ err }, 'scheduler: due channel delivery query failed');
+    return;
+  }
+
+  for (const row of due) {
+    try {
+      const leased = await withUserContext(row.owner_id, () =>
+        leaseDueChannelDelivery(row.id, CHANNEL_DELIVERY_LEASE_SECONDS),
+      );
+      if (leased) await attemptChannelDelivery(leased);
+    } catch (err) {
+      logger.warn(
+        { err, deliveryId: row.id },
+        'scheduler: channel delivery retry failed',
+      );
+    }
+  }
+}
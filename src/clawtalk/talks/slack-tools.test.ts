@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../db/connectors-accessors.js', () => ({
+  getWorkspaceChannel: vi.fn(),
+  listTalkChannelLinks: vi.fn(),
+}));
+vi.mock('../db/slack-installs-accessors.js', () => ({
+  decryptChannelSlackInstallToken: vi.fn(),
+}));
+vi.mock('../db/channel-post-accessors.js', () => ({
+  recordTalkRunChannelPost: vi.fn(),
+}));
+
+import { recordTalkRunChannelPost } from '../db/channel-post-accessors.js';
+import {
+  getWorkspaceChannel,
+  listTalkChannelLinks,
+  type WorkspaceChannelRecord,
+} from '../db/connectors-accessors.js';
+import { decryptChannelSlackInstallToken } from '../db/slack-installs-accessors.js';
+import type { TalkJobExecutionPolicy } from './executor.js';
+import { executeSlackTalkTool } from './slack-tools.js';
+
+const listLinksMock = vi.mocked(listTalkChannelLinks);
+const getChannelMock = vi.mocked(getWorkspaceChannel);
+const tokenMock = vi.mocked(decryptChannelSlackInstallToken);
+const recordPostMock = vi.mocked(recordTalkRunChannelPost);
+
+function channel(
+  id: string,
+  input: Partial<WorkspaceChannelRecord> & { slackChannelId?: string } = {},
+): WorkspaceChannelRecord {
+  return {
+    id,
+    kind: 'slack',
+    display_name: `#${id}`,
+    config_json: {
+      workspace_id: 'T1',
+      channel_id: input.slackChannelId ?? `C-${id}`,
+    },
+    has_credential: false,
+    enc_key_version: 1,
+    enabled: true,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    created_by: null,
+    updated_by: null,
+    bound_talk_count: 1,
+    ...input,
+  };
+}
+
+function slackResponse(body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify({ ok: true, ...body }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function bind(channels: WorkspaceChannelRecord[]): void {
+  listLinksMock.mockResolvedValue(
+    channels.map((c) => ({
+      talkId: 'talk-1',
+      channelId: c.id,
+      ownerId: 'user-1',
+      createdAt: '2026-10-01T00:00:00Z',
+    })),
+  );
+  getChannelMock.mockImplementation(
+    async (id) => channels.find((c) => c.id === id) ?? null,
+  );
+}
+
+function run(
+  toolName: string,
+  args: Record<string, unknown>,
+  jobPolicy: TalkJobExecutionPolicy | null = null,
+) {
+  return executeSlackTalkTool({
+    talkId: 'talk-1',
+    userId: 'user-1',
+    runId: 'run-1',
+    agentId: 'agent-1',
+    toolName,
+    args,
+    jobPolicy,
+  });
+}
+
+beforeEach(() => {
+  tokenMock.mockResolvedValue('xoxb-test');
+  recordPostMock.mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  listLinksMock.mockReset();
+  getChannelMock.mockReset();
+  tokenMock.mockReset();
+  recordPostMock.mockReset();
+});
+
+describe('executeSlackTalkTool', () => {
+  it('slack_post_message posts to a bound channel and records the post', async () => {
+    bind([channel('launches')]);
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(slackResponse({ ts: '1700000000.000100' }));
+
+    const result = await run('slack_post_message', {
+      channel: '#Launches',
+      text: 'Shipped **v2** <!channel>',
+    });
+
+    expect(JSON.parse(result.result)).toEqual({
+      posted: true,
+      channel: '#launches',
+      ts: '1700000000.000100',
+      threadTs: null,
+    });
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://slack.com/api/chat.postMessage');
+    const body = JSON.parse(String(init?.body)) as Record<string, unknown>;
+    expect(body.channel).toBe('C-launches');
+    // Markdown is converted and broadcast mentions are escaped.
+    expect(body.text).toBe('Shipped *v2* &lt;!channel&gt;');
+    expect(recordPostMock).toHaveBeenCalledWith({
+      runId: 'run-1',
+      talkId: 'talk-1',
+      ownerId: 'user-1',
+      agentId: 'agent-1',
+      channelId: 'launches',
+      platform: 'slack',
+      targetId: 'C-launches',
+      threadKey: null,
+      text: 'Shipped *v2* &lt;!channel&gt;',
+      externalMessageId: '1700000000.000100',
+    });
+  });
+
+  it('rejects a channel that is not bound to the Talk', async () => {
+    bind([channel('launches')]);
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    const result = await run('slack_post_message', {
+      channel: 'C-elsewhere',
+      text: 'hi',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.result).toContain('channel_not_bound');
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(recordPostMock).not.toHaveBeenCalled();
+  });
+
+  it('limits job runs to the channels in the job scope', async () => {
+    bind([channel('launches'), channel('random')]);
+    const jobPolicy: TalkJobExecutionPolicy = {
+      jobId: 'job-1',
+      allowedConnectorIds: [],
+      allowedChannelBindingIds: ['launches'],
+      allowWeb: false,
+      allowStateMutation: false,
+      allowExternalMutation: false,
+    };
+
+    const blocked = await run(
+      'slack_post_message',
+      { channel: '#random', text: 'hi' },
+      jobPolicy,
+    );
+    expect(blocked.result).toContain('channel_not_bound');
+
+    const empty = await run(
+      'slack_list_channels',
+      {},
+      { ...jobPolicy, allowedChannelBindingIds: [] },
+    );
+    expect(empty.isError).toBe(true);
+    expect(empty.result).toContain("scheduled job's scope");
+  });
+
+  it('slack_read_channel_history returns messages oldest first', async () => {
+    bind([channel('launches')]);
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+      slackResponse({
+        messages: [
+          { ts: '2.0', user: 'U2', text: 'second' },
+          { ts: '1.0', user: 'U1', text: 'first', reply_count: 3 },
+        ],
+        has_more: true,
+      }),
+    );
+
+    const result = await run('slack_read_channel_history', {
+      channel: 'C-launches',
+      limit: 500,
+    });
+
+    const parsed = JSON.parse(result.result) as {
+      hasMore: boolean;
+      messages: Array<{ text: string; replyCount: number }>;
+    };
+    expect(parsed.hasMore).toBe(true);
+    expect(parsed.messages.map((m) => m.text)).toEqual(['first', 'second']);
+    expect(parsed.messages[0].replyCount).toBe(3);
+    const url = new URL(String(fetchSpy.mock.calls[0][0]));
+    expect(url.pathname).toBe('/api/conversations.history');
+    expect(url.searchParams.get('limit')).toBe('100');
+  });
+
+  it('slack_list_channels joins bound channels with the conversations list', async () => {
+    bind([channel('launches')]);
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+      slackResponse({
+        channels: [
+          {
+            id: 'C-launches',
+            name: 'launches',
+            is_member: false,
+            topic: { value: 'Release notes' },
+          },
+          { id: 'C-other', name: 'other' },
+        ],
+      }),
+    );
+
+    const result = await run('slack_list_channels', {});
+
+    expect(JSON.parse(result.result)).toEqual({
+      channels: [
+        {
+          channel: '#launches',
+          slackChannelId: 'C-launches',
+          name: '#launches',
+          topic: 'Release notes',
+          isPrivate: null,
+          botIsMember: false,
+          memberCount: null,
+          connected: true,
+        },
+      ],
+    });
+  });
+
+  it('turns not_in_channel into an invite hint', async () => {
+    bind([channel('launches')]);
+    vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+      new Response(JSON.stringify({ ok: false, error: 'not_in_channel' }), {
+        status: 200,
+      }),
+    );
+
+    const result = await run('slack_post_message', {
+      channel: '#launches',
+      text: 'hi',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.result).toContain('slack_not_in_channel');
+    expect(recordPostMock).not.toHaveBeenCalled();
+  });
+});
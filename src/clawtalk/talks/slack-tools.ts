@@ -0,0 +1,496 @@
+// Slack messaging tool executors for Talks (the `messaging` family).
+//
+// Surface:
+//   - `buildSlackContextTools()` — LlmToolDefinition[] for context-loader
+//     to merge in when the messaging family is enabled. Like the Google
+//     tools, schemas are always advertised; binding / install gating
+//     happens at call time with errors the agent can relay.
+//   - `loadBoundSlackChannels(talkId, jobPolicy)` — the Slack channels
+//     linked to the Talk (talk_channel_links), narrowed to the job's
+//     `allowedChannelBindingIds` on scheduled job runs.
+//   - `executeSlackTalkTool({...})` — dispatcher for the 3 tools:
+//       slack_list_channels, slack_read_channel_history,
+//       slack_post_message.
+//
+// Security boundaries:
+//   - Every tool resolves its `channel` argument against the bound set
+//     only. A Slack channel id the bot can see but the Talk isn't linked
+//     to is rejected as `channel_not_bound`, so an agent can't read or
+//     post outside the channels the owner chose.
+//   - Jobs only reach channels in their source scope; a job with an empty
+//     scope has no channels at all.
+//   - Posts go through markdownToSlackMrkdwn, which escapes `<`, `>` and
+//     `&`, so agent text can't smuggle `<!channel>` / `<!here>` pings or
+//     raw user mentions.
+//   - Every post is recorded in talk_run_channel_posts (migration 0056)
+//     against the run and agent that sent it.
+//   - The bot token is decrypted per call from the install of the
+//     binding's own workspace (0065) and never leaves this module.
+
+import { type LlmToolDefinition } from '../agents/llm-client.js';
+import { recordTalkRunChannelPost } from '../db/channel-post-accessors.js';
+import {
+  getWorkspaceChannel,
+  listTalkChannelLinks,
+} from '../db/connectors-accessors.js';
+import { decryptChannelSlackInstallToken } from '../db/slack-installs-accessors.js';
+import { markdownToSlackMrkdwn } from '../connectors/channel-formatting.js';
+import {
+  SlackApiError,
+  listSlackConversations,
+  postSlackMessage,
+  slackApiGet,
+  type SlackChannel,
+} from '../connectors/slack-client.js';
+import { logger } from '../../logger.js';
+import type { TalkJobExecutionPolicy } from './executor.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_HISTORY_MESSAGES = 20;
+const MAX_HISTORY_MESSAGES = 100;
+const MAX_HISTORY_TEXT_CHARS = 2000;
+const MAX_POST_CHARS = 3500;
+const SLACK_TS_PATTERN = /^\d{1,12}\.\d{1,9}$/;
+
+export const SLACK_TOOL_NAMES = [
+  'slack_list_channels',
+  'slack_read_channel_history',
+  'slack_post_message',
+] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ExecutorResult = { result: string; isError?: boolean };
+
+export type BoundSlackChannel = {
+  /** workspace_channels.id */
+  bindingId: string;
+  displayName: string;
+  teamId: string;
+  slackChannelId: string;
+};
+
+type SlackHistoryMessage = {
+  ts?: string;
+  user?: string;
+  bot_id?: string;
+  username?: string;
+  text?: string;
+  thread_ts?: string;
+  reply_count?: number;
+  subtype?: string;
+};
+
+interface SlackHistoryResponse {
+  ok: boolean;
+  error?: string;
+  messages?: SlackHistoryMessage[];
+  has_more?: boolean;
+}
+
+type ToolContext = {
+  talkId: string;
+  userId: string;
+  runId: string;
+  agentId: string | null;
+  args: Record<string, unknown>;
+  channels: BoundSlackChannel[];
+};
+
+// ---------------------------------------------------------------------------
+// Tool schemas
+// ---------------------------------------------------------------------------
+
+const CHANNEL_ARG = {
+  type: 'string',
+  description:
+    'A bound channel: its name as listed by slack_list_channels (e.g. "#launches") or its Slack channel id.',
+};
+
+const TOOL_DEFINITIONS: LlmToolDefinition[] = [
+  {
+    name: 'slack_list_channels',
+    description:
+      'List the Slack channels bound to this Talk, with their topic and whether the bot is a member. These are the only channels the Slack tools can read or post to.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'slack_read_channel_history',
+    description:
+      'Read recent messages from a bound Slack channel, oldest first. Pass threadTs to read the replies in one thread instead.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel: CHANNEL_ARG,
+        limit: {
+          type: 'number',
+          description: `Optional number of messages to return (default ${DEFAULT_HISTORY_MESSAGES}, max ${MAX_HISTORY_MESSAGES}).`,
+        },
+        threadTs: {
+          type: 'string',
+          description: 'Optional thread root ts to read replies from.',
+        },
+      },
+      required: ['channel'],
+    },
+  },
+  {
+    name: 'slack_post_message',
+    description:
+      'Post a message to a bound Slack channel as the workspace bot. Write markdown; it is converted to Slack formatting. Pass threadTs to reply in a thread. Every post is logged against this run.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel: CHANNEL_ARG,
+        text: {
+          type: 'string',
+          description: `Message text in markdown (max ${MAX_POST_CHARS} characters).`,
+        },
+        threadTs: {
+          type: 'string',
+          description: 'Optional thread root ts to reply under.',
+        },
+      },
+      required: ['channel', 'text'],
+    },
+  },
+];
+
+export function buildSlackContextTools(): LlmToolDefinition[] {
+  return [...TOOL_DEFINITIONS];
+}
+
+// ---------------------------------------------------------------------------
+// Bound channels
+// ---------------------------------------------------------------------------
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export async function loadBoundSlackChannels(
+  talkId: string,
+  jobPolicy: TalkJobExecutionPolicy | null,
+): Promise<BoundSlackChannel[]> {
+  const allowed = jobPolicy
+    ? new Set(jobPolicy.allowedChannelBindingIds)
+    : null;
+  const links = await listTalkChannelLinks(talkId);
+  const channels: BoundSlackChannel[] = [];
+  for (const link of links) {
+    if (allowed && !allowed.has(link.channelId)) continue;
+    const channel = await getWorkspaceChannel(link.channelId);
+    if (!channel || channel.kind !== 'slack' || !channel.enabled) continue;
+    const teamId = readString(channel.config_json.workspace_id);
+    const slackChannelId = readString(channel.config_json.channel_id);
+    if (!teamId || !slackChannelId) continue;
+    channels.push({
+      bindingId: channel.id,
+      displayName: channel.display_name,
+      teamId,
+      slackChannelId,
+    });
+  }
+  return channels;
+}
+
+function normalizeChannelName(value: string): string {
+  return value.replace(/^#/, '').toLowerCase();
+}
+
+/** Match the agent's `channel` argument against the bound set only. */
+export function resolveBoundSlackChannel(
+  channels: BoundSlackChannel[],
+  value: string,
+): BoundSlackChannel | null {
+  const name = normalizeChannelName(value);
+  return (
+    channels.find(
+      (channel) =>
+        channel.slackChannelId === value ||
+        channel.bindingId === value ||
+        normalizeChannelName(channel.displayName) === name,
+    ) ?? null
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function okResult(result: unknown): ExecutorResult {
+  return {
+    result: typeof result === 'string' ? result : JSON.stringify(result),
+  };
+}
+
+function errorResult(message: string): ExecutorResult {
+  return { result: message, isError: true };
+}
+
+function coercePositiveInt(
+  value: unknown,
+  fallback: number,
+  max: number,
+): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.max(1, Math.min(max, Math.trunc(value)));
+}
+
+function errorFromSlack(err: SlackApiError): ExecutorResult {
+  switch (err.slackError) {
+    case 'not_in_channel':
+      return errorResult(
+        'slack_not_in_channel: the ClawTalk bot is not a member of that channel. Ask the user to invite it (/invite @ClawTalk).',
+      );
+    case 'missing_scope':
+      return errorResult(
+        'slack_missing_scope: the Slack install lacks a permission this tool needs. Ask a workspace admin to reinstall the Slack app.',
+      );
+    case 'token_revoked':
+    case 'invalid_auth':
+    case 'account_inactive':
+      return errorResult(
+        'slack_not_connected: the Slack install for this channel is no longer authorized. Ask a workspace admin to reconnect Slack.',
+      );
+    case 'ratelimited':
+      return errorResult(
+        `slack_rate_limited: Slack is rate limiting requests${
+          err.retryAfterSec ? `; retry after ${err.retryAfterSec}s` : ''
+        }.`,
+      );
+    default:
+      return errorResult(`slack_api_error: ${err.message}`);
+  }
+}
+
+function resolveChannelArg(
+  ctx: ToolContext,
+  toolName: string,
+): BoundSlackChannel | ExecutorResult {
+  const value = readString(ctx.args.channel);
+  if (!value) {
+    return errorResult(`${toolName} requires a channel.`);
+  }
+  const channel = resolveBoundSlackChannel(ctx.channels, value);
+  if (!channel) {
+    return errorResult(
+      `channel_not_bound: ${value} is not a Slack channel bound to this Talk. Use slack_list_channels to see the channels you can use.`,
+    );
+  }
+  return channel;
+}
+
+function slackNotConnected(channel: BoundSlackChannel): ExecutorResult {
+  return errorResult(
+    `slack_not_connected: the Slack workspace for ${channel.displayName} is not installed. Ask a workspace admin to connect Slack in Settings.`,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Executors
+// ---------------------------------------------------------------------------
+
+async function executeListChannels(ctx: ToolContext): Promise<ExecutorResult> {
+  // Each binding resolves its own install (0065); bindings that share a
+  // token share one conversations list.
+  const detailsByToken = new Map<string, Map<string, SlackChannel>>();
+  const results: Array<Record<string, unknown>> = [];
+  for (const channel of ctx.channels) {
+    const token = await decryptChannelSlackInstallToken(channel.bindingId);
+    let details = token ? detailsByToken.get(token) : undefined;
+    if (token && !details) {
+      details = new Map(
+        (await listSlackConversations({ token })).map((conversation) => [
+          conversation.id,
+          conversation,
+        ]),
+      );
+      detailsByToken.set(token, details);
+    }
+    const detail = details?.get(channel.slackChannelId);
+    results.push({
+      channel: channel.displayName,
+      slackChannelId: channel.slackChannelId,
+      name: detail ? `#${detail.name}` : null,
+      topic: detail?.topic?.value || null,
+      isPrivate: detail?.is_private ?? null,
+      botIsMember: detail?.is_member ?? null,
+      memberCount: detail?.num_members ?? null,
+      connected: token !== null,
+    });
+  }
+  return okResult({ channels: results });
+}
+
+async function executeReadHistory(ctx: ToolContext): Promise<ExecutorResult> {
+  const channel = resolveChannelArg(ctx, 'slack_read_channel_history');
+  if ('result' in channel) return channel;
+  const threadTs = readString(ctx.args.threadTs);
+  if (threadTs && !SLACK_TS_PATTERN.test(threadTs)) {
+    return errorResult(
+      'slack_read_channel_history threadTs is not a Slack ts.',
+    );
+  }
+  const limit = coercePositiveInt(
+    ctx.args.limit,
+    DEFAULT_HISTORY_MESSAGES,
+    MAX_HISTORY_MESSAGES,
+  );
+  const token = await decryptChannelSlackInstallToken(channel.bindingId);
+  if (!token) return slackNotConnected(channel);
+
+  const response = threadTs
+    ? await slackApiGet<SlackHistoryResponse>('conversations.replies', token, {
+        channel: channel.slackChannelId,
+        ts: threadTs,
+        limit,
+      })
+    : await slackApiGet<SlackHistoryResponse>('conversations.history', token, {
+        channel: channel.slackChannelId,
+        limit,
+      });
+  const messages = (response.messages ?? []).map((message) => {
+    const text = message.text ?? '';
+    return {
+      ts: message.ts ?? null,
+      user: message.user ?? null,
+      bot: message.bot_id ? (message.username ?? message.bot_id) : null,
+      text:
+        text.length > MAX_HISTORY_TEXT_CHARS
+          ? `${text.slice(0, MAX_HISTORY_TEXT_CHARS)}…`
+          : text,
+      threadTs:
+        message.thread_ts && message.thread_ts !== message.ts
+          ? message.thread_ts
+          : null,
+      replyCount: message.reply_count ?? 0,
+    };
+  });
+  // conversations.history is newest first; replies are already oldest
+  // first.
+  if (!threadTs) messages.reverse();
+  return okResult({
+    channel: channel.displayName,
+    threadTs: threadTs || null,
+    hasMore: response.has_more === true,
+    messages,
+  });
+}
+
+async function executePostMessage(ctx: ToolContext): Promise<ExecutorResult> {
+  const channel = resolveChannelArg(ctx, 'slack_post_message');
+  if ('result' in channel) return channel;
+  const text = typeof ctx.args.text === 'string' ? ctx.args.text : '';
+  if (!text.trim()) {
+    return errorResult('slack_post_message requires non-empty text.');
+  }
+  if (text.length > MAX_POST_CHARS) {
+    return errorResult(
+      `slack_post_message text exceeds ${MAX_POST_CHARS} characters; split it into several posts.`,
+    );
+  }
+  const threadTs = readString(ctx.args.threadTs);
+  if (threadTs && !SLACK_TS_PATTERN.test(threadTs)) {
+    return errorResult('slack_post_message threadTs is not a Slack ts.');
+  }
+  const token = await decryptChannelSlackInstallToken(channel.bindingId);
+  if (!token) return slackNotConnected(channel);
+
+  const mrkdwn = markdownToSlackMrkdwn(text);
+  const posted = await postSlackMessage({
+    token,
+    channel: channel.slackChannelId,
+    text: mrkdwn,
+    threadTs: threadTs || null,
+  });
+
+  try {
+    await recordTalkRunChannelPost({
+      runId: ctx.runId,
+      talkId: ctx.talkId,
+      ownerId: ctx.userId,
+      agentId: ctx.agentId,
+      channelId: channel.bindingId,
+      platform: 'slack',
+      targetId: channel.slackChannelId,
+      threadKey: threadTs || null,
+      text: mrkdwn,
+      externalMessageId: posted.ts,
+    });
+  } catch (err) {
+    // The message is already out; a lost audit row must not turn the
+    // post into a tool error the agent would retry.
+    logger.error(
+      { err, runId: ctx.runId, channelId: channel.bindingId, ts: posted.ts },
+      'slack-tools: failed to record channel post',
+    );
+  }
+
+  return okResult({
+    posted: true,
+    channel: channel.displayName,
+    ts: posted.ts,
+    threadTs: threadTs || null,
+  });
+}
+
+export function isSlackTalkTool(toolName: string): boolean {
+  return (SLACK_TOOL_NAMES as readonly string[]).includes(toolName);
+}
+
+export async function executeSlackTalkTool(input: {
+  talkId: string;
+  userId: string;
+  runId: string;
+  agentId?: string | null;
+  toolName: string;
+  args: Record<string, unknown>;
+  jobPolicy?: TalkJobExecutionPolicy | null;
+}): Promise<ExecutorResult> {
+  const jobPolicy = input.jobPolicy ?? null;
+  const channels = await loadBoundSlackChannels(input.talkId, jobPolicy);
+  if (channels.length === 0) {
+    return errorResult(
+      jobPolicy
+        ? "No Slack channels are in this scheduled job's scope. Ask the user to add a bound channel to the job."
+        : "No Slack channels are bound to this Talk. Ask the user to link one from the Talk's Connectors panel.",
+    );
+  }
+  const ctx: ToolContext = {
+    talkId: input.talkId,
+    userId: input.userId,
+    runId: input.runId,
+    agentId: input.agentId ?? null,
+    args: input.args,
+    channels,
+  };
+
+  try {
+    switch (input.toolName) {
+      case 'slack_list_channels':
+        return await executeListChannels(ctx);
+      case 'slack_read_channel_history':
+        return await executeReadHistory(ctx);
+      case 'slack_post_message':
+        return await executePostMessage(ctx);
+      default:
+        return errorResult(
+          `Tool '${input.toolName}' is not a supported Slack Talk tool.`,
+        );
+    }
+  } catch (err) {
+    if (err instanceof SlackApiError) {
+      return errorFromSlack(err);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import { chunkSourceText } from './source-chunking.js';
+
+describe('chunkSourceText', () => {
+  it('returns one chunk for short text and none for blank text', () => {
+    expect(chunkSourceText('  Short note.  ')).toEqual([
+      {
+        chunkIndex: 0,
+        charStart: 2,
+        charEnd: 15,
+        content: 'Short note.',
+        pageIndex: null,
+      },
+    ]);
+    expect(chunkSourceText(' \n\n ')).toEqual([]);
+  });
+
+  it('ends chunks on paragraph breaks and overlaps neighbours', () => {
+    const paragraph = (label: string) =>
+      `${label} ${'word '.repeat(30).trim()}.`;
+    const text = [
+      paragraph('One'),
+      paragraph('Two'),
+      paragraph('Three'),
+      paragraph('Four'),
+    ].join('\n\n');
+    const chunks = chunkSourceText(text, {
+      targetChars: 350,
+      overlapChars: 40,
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].content.endsWith('.')).toBe(true);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].chunkIndex).toBe(i);
+      expect(chunks[i].charStart).toBeLessThan(chunks[i - 1].charEnd);
+    }
+    expect(chunks.at(-1)?.charEnd).toBe(text.length);
+    expect(chunks.at(-1)?.content).toContain('Four');
+  });
+
+  it('hard-splits text with no breaks without looping', () => {
+    const text = 'x'.repeat(1000);
+    const chunks = chunkSourceText(text, {
+      targetChars: 300,
+      overlapChars: 50,
+    });
+    expect(chunks.map((chunk) => chunk.charStart)).toEqual([0, 250, 500, 750]);
+    expect(chunks.at(-1)?.charEnd).toBe(1000);
+  });
+
+  it('estimates pages from the character offset', () => {
+    const text = 'word '.repeat(400);
+    const chunks = chunkSourceText(text, {
+      targetChars: 500,
+      overlapChars: 0,
+      pageCount: 4,
+    });
+    expect(chunks[0].pageIndex).toBe(0);
+    expect(chunks.at(-1)?.pageIndex).toBe(3);
+    expect(
+      chunks.every(
+        (chunk, i) => i === 0 || chunk.pageIndex! >= chunks[i - 1].pageIndex!,
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+// Splits a context source's extracted text into retrieval chunks
+// (talk_context_source_chunks, migration 0043).
+//
+// Chunks are ~CHUNK_TARGET_CHARS windows that end on the strongest
+// natural break available near the target (paragraph, then sentence,
+// then whitespace) and overlap the previous chunk by CHUNK_OVERLAP_CHARS
+// so a passage straddling a boundary is still retrievable whole.
+
+export const CHUNK_TARGET_CHARS = 1200;
+export const CHUNK_OVERLAP_CHARS = 150;
+// A break is only taken if it leaves the chunk at least this full;
+// otherwise the window is cut at the target.
+const MIN_CHUNK_FILL = 0.6;
+
+export interface SourceChunk {
+  chunkIndex: number;
+  charStart: number;
+  charEnd: number;
+  content: string;
+  /**
+   * 0-based page the chunk starts on, when the source has a page count.
+   * Estimated from the character offset (extraction merges page text).
+   */
+  pageIndex: number | null;
+}
+
+function findBreak(text: string, start: number, end: number): number {
+  const floor = start + Math.floor((end - start) * MIN_CHUNK_FILL);
+  const window = text.slice(floor, end);
+  const paragraph = window.lastIndexOf('\n\n');
+  if (paragraph >= 0) return floor + paragraph + 2;
+  const sentence = Math.max(
+    window.lastIndexOf('. '),
+    window.lastIndexOf('? '),
+    window.lastIndexOf('! '),
+    window.lastIndexOf('.\n'),
+  );
+  if (sentence >= 0) return floor + sentence + 2;
+  const space = Math.max(window.lastIndexOf(' '), window.lastIndexOf('\n'));
+  if (space >= 0) return floor + space + 1;
+  return end;
+}
+
+export function chunkSourceText(
+  text: string,
+  options?: {
+    targetChars?: number;
+    overlapChars?: number;
+    pageCount?: number | null;
+  },
+): SourceChunk[] {
+  const targetChars = options?.targetChars ?? CHUNK_TARGET_CHARS;
+  const overlapChars = Math.min(
+    options?.overlapChars ?? CHUNK_OVERLAP_CHARS,
+    Math.floor(targetChars / 2),
+  );
+  const pageCount =
+    options?.pageCount && options.pageCount > 0 ? options.pageCount : null;
+
+  const chunks: SourceChunk[] = [];
+  let start = 0;
+  while (start < text.length) {
+    // Skip leading whitespace so chunks don't open on a blank line.
+    while (start < text.length && /\s/.test(text[start])) start++;
+    if (start >= text.length) break;
+
+    const hardEnd = Math.min(text.length, start + targetChars);
+    const end =
+      hardEnd === text.length ? hardEnd : findBreak(text, start, hardEnd);
+    const content = text.slice(start, end).trim();
+    if (content) {
+      chunks.push({
+        chunkIndex: chunks.length,
+        charStart: start,
+        charEnd: end,
+        content,
+        pageIndex:
+          pageCount === null
+            ? null
+            : Math.min(
+                pageCount - 1,
+                Math.floor((start / text.length) * pageCount),
+              ),
+      });
+    }
+    if (end >= text.length) break;
+    // Start the overlap on a word boundary.
+    let next = end - overlapChars;
+    const space = text.indexOf(' ', next);
+    if (space >= 0 && space < end) next = space + 1;
+    start = Math.max(start + 1, next);
+  }
+  return chunks;
+}
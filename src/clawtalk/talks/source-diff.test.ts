@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { MAX_SOURCE_DIFF_CHARS, diffSourceText } from './source-diff.js';
+
+describe('diffSourceText', () => {
+  it('returns null when only whitespace and blank lines differ', () => {
+    expect(
+      diffSourceText(
+        'Pricing\nPro: $20\n\nTeam: $40',
+        'Pricing  \n\nPro: $20\nTeam: $40\n',
+      ),
+    ).toBeNull();
+  });
+
+  it('reports changed lines with one line of context', () => {
+    const previous = [
+      'Pricing',
+      'Free: $0',
+      'Pro: $20',
+      'Team: $40',
+      'FAQ',
+    ].join('\n');
+    const next = ['Pricing', 'Free: $0', 'Pro: $25', 'Team: $40', 'FAQ'].join(
+      '\n',
+    );
+
+    expect(diffSourceText(previous, next)).toEqual({
+      addedLines: 1,
+      removedLines: 1,
+      diffText: ['  Free: $0', '- Pro: $20', '+ Pro: $25', '  Team: $40'].join(
+        '\n',
+      ),
+      isTruncated: false,
+    });
+  });
+
+  it('separates distant hunks', () => {
+    const previous = ['v1', 'a', 'b', 'c', 'd', 'e', 'end'].join('\n');
+    const next = ['v2', 'a', 'b', 'c', 'd', 'e', 'end', 'new entry'].join('\n');
+
+    const diff = diffSourceText(previous, next);
+
+    expect(diff?.addedLines).toBe(2);
+    expect(diff?.removedLines).toBe(1);
+    expect(diff?.diffText).toBe(
+      ['- v1', '+ v2', '  a', '…', '  end', '+ new entry'].join('\n'),
+    );
+  });
+
+  it('caps the diff text but counts every line', () => {
+    const next = Array.from(
+      { length: 2_000 },
+      (_, index) => `Changelog entry ${index}`,
+    ).join('\n');
+
+    const diff = diffSourceText('Changelog', next);
+
+    expect(diff?.addedLines).toBe(2_000);
+    expect(diff?.removedLines).toBe(1);
+    expect(diff?.isTruncated).toBe(true);
+    expect(diff!.diffText.length).toBeLessThanOrEqual(
+      MAX_SOURCE_DIFF_CHARS + 2,
+    );
+  });
+});
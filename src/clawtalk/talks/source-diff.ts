@@ -0,0 +1,143 @@
+// Line diff between two extractions of a watched URL source
+// (source-refresh.ts).
+//
+// Extracted page text is compared line by line with trailing whitespace
+// and blank lines dropped, so a re-render that only shuffles spacing is
+// not a change. The common prefix and suffix are trimmed first; the
+// middle is diffed with an LCS table when it is small enough, otherwise
+// it is reported as replaced wholesale (a page rewritten top to bottom
+// reads the same either way).
+
+// Largest middle section (old lines × new lines) diffed with LCS. 50k
+// chars of extracted text is ~1–2k lines, so typical edits stay far
+// below this; a full rewrite of a long page falls back to replace.
+const MAX_LCS_CELLS = 2_000_000;
+const CONTEXT_LINES = 1;
+const HUNK_SEPARATOR = '…';
+export const MAX_SOURCE_DIFF_CHARS = 20_000;
+
+export interface SourceTextDiff {
+  addedLines: number;
+  removedLines: number;
+  /** "- " / "+ " / "  " prefixed lines, "…" between hunks. */
+  diffText: string;
+  isTruncated: boolean;
+}
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim().length > 0);
+}
+
+function diffMiddle(before: string[], after: string[]): DiffOp[] {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    return [
+      ...before.map((line) => ({ kind: '-' as const, line })),
+      ...after.map((line) => ({ kind: '+' as const, line })),
+    ];
+  }
+  // lengths[i][j] = LCS length of before[i..] and after[j..].
+  const width = after.length + 1;
+  const lengths = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ kind: ' ', line: before[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ kind: '-', line: before[i++] });
+    } else {
+      ops.push({ kind: '+', line: after[j++] });
+    }
+  }
+  while (i < before.length) ops.push({ kind: '-', line: before[i++] });
+  while (j < after.length) ops.push({ kind: '+', line: after[j++] });
+  return ops;
+}
+
+function renderHunks(ops: DiffOp[]): string[] {
+  const keep = new Array<boolean>(ops.length).fill(false);
+  ops.forEach((op, index) => {
+    if (op.kind === ' ') return;
+    const from = Math.max(0, index - CONTEXT_LINES);
+    const to = Math.min(ops.length - 1, index + CONTEXT_LINES);
+    for (let k = from; k <= to; k++) keep[k] = true;
+  });
+  const lines: string[] = [];
+  let previousKept = -1;
+  ops.forEach((op, index) => {
+    if (!keep[index]) return;
+    if (previousKept !== -1 && index > previousKept + 1) {
+      lines.push(HUNK_SEPARATOR);
+    }
+    lines.push(`${op.kind} ${op.line}`);
+    previousKept = index;
+  });
+  return lines;
+}
+
+/**
+ * Diff two extractions. Returns null when they are the same once
+ * whitespace-only differences are ignored.
+ */
+export function diffSourceText(
+  previous: string,
+  next: string,
+): SourceTextDiff | null {
+  const before = toLines(previous);
+  const after = toLines(next);
+
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    before[prefix] === after[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  if (prefix === before.length && prefix === after.length) return null;
+
+  const ops: DiffOp[] = [
+    ...before.slice(0, prefix).map((line) => ({ kind: ' ' as const, line })),
+    ...diffMiddle(
+      before.slice(prefix, before.length - suffix),
+      after.slice(prefix, after.length - suffix),
+    ),
+    ...before
+      .slice(before.length - suffix)
+      .map((line) => ({ kind: ' ' as const, line })),
+  ];
+  const addedLines = ops.filter((op) => op.kind === '+').length;
+  const removedLines = ops.filter((op) => op.kind === '-').length;
+
+  let diffText = renderHunks(ops).join('\n');
+  let isTruncated = false;
+  if (diffText.length > MAX_SOURCE_DIFF_CHARS) {
+    diffText = `${diffText.slice(0, MAX_SOURCE_DIFF_CHARS)}\n${HUNK_SEPARATOR}`;
+    isTruncated = true;
+  }
+  return { addedLines, removedLines, diffText, isTruncated };
+}
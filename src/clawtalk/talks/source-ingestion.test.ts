@@ -5,6 +5,10 @@ vi.mock('../config.js', () => ({
   TALK_CONTEXT_BROWSER_PREFER_HOSTS: ['substack.com'],
   TALK_CONTEXT_BROWSER_TIMEOUT_MS: 30_000,
   TALK_CONTEXT_MANAGED_FETCH_ENABLED: false,
+  TALK_CONTEXT_MANAGED_FETCH_PROVIDER: 'firecrawl',
+  TALK_CONTEXT_MANAGED_FETCH_ACCOUNT_ID: '',
+  TALK_CONTEXT_MANAGED_FETCH_BASE_URL: '',
+  TALK_CONTEXT_MANAGED_FETCH_API_KEY: '',
   TALK_CONTEXT_MANAGED_FETCH_TIMEOUT_MS: 30_000,
 }));
 
@@ -192,6 +196,68 @@ describe('source-ingestion', () => {
     );
     expect(payload.extractionError).toContain('browser: Browser failed');
   });
+
+  it('escalates a thin HTTP extraction to the managed fetcher', async () => {
+    const httpFetcher = vi.fn().mockResolvedValue({
+      body: '<html><body><div id="root"></div>Loading…</body></html>',
+      contentType: 'text/html',
+      finalUrl: 'https://app.example.com/pricing',
+    });
+    const managedFetcher = {
+      fetch: vi.fn().mockResolvedValue({
+        finalUrl: 'https://app.example.com/pricing',
+        pageTitle: 'Pricing',
+        extractedText: '# Pricing\n\nPro is $20 a month.',
+        contentType: 'text/markdown',
+        strategy: 'managed' as const,
+      }),
+    };
+
+    await ingestUrlSource('source-6', 'https://app.example.com/pricing', {
+      httpFetcher,
+      managedFetcher,
+      updateExtraction,
+    });
+
+    expect(managedFetcher.fetch).toHaveBeenCalledWith({
+      url: 'https://app.example.com/pricing',
+      timeoutMs: 30_000,
+    });
+    expect(updateExtraction).toHaveBeenCalledTimes(1);
+    expect(updateExtraction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sourceId: 'source-6',
+        extractedText: '# Pricing\n\nPro is $20 a month.',
+        extractionError: null,
+        mimeType: 'text/markdown',
+        fetchStrategy: 'managed',
+      }),
+    );
+  });
+
+  it('never hands URLs the HTTP tier blocked to the managed fetcher', async () => {
+    const httpFetcher = vi
+      .fn()
+      .mockRejectedValue(
+        new SourceIngestionError('ssrf_blocked', 'Blocked private address'),
+      );
+    const managedFetcher = { fetch: vi.fn() };
+
+    await ingestUrlSource('source-7', 'http://10.0.0.5/admin', {
+      httpFetcher,
+      managedFetcher,
+      updateExtraction,
+    });
+
+    expect(managedFetcher.fetch).not.toHaveBeenCalled();
+    expect(updateExtraction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sourceId: 'source-7',
+        extractedText: null,
+        fetchStrategy: 'http',
+      }),
+    );
+  });
 });
 
 describe('extractTextFromHtml', () => {
@@ -4,6 +4,10 @@
  * Handles:
  *  - URL fetching with SSRF protection (connect-time enforcement)
  *  - HTML → text extraction
+ *  - Escalation when the HTTP extraction is thin or blocked: a browser
+ *    fetcher when one is wired in, then the managed fetcher
+ *    (managed-source-fetcher.ts) when configured. The tier that produced
+ *    the stored text is recorded as the source's fetch_strategy.
  *  - Status updates via updateSourceExtraction
  */
 
@@ -17,7 +21,6 @@ import {
   TALK_CONTEXT_BROWSER_DISABLE_HOSTS,
   TALK_CONTEXT_BROWSER_PREFER_HOSTS,
   TALK_CONTEXT_BROWSER_TIMEOUT_MS,
-  TALK_CONTEXT_MANAGED_FETCH_ENABLED,
   TALK_CONTEXT_MANAGED_FETCH_TIMEOUT_MS,
 } from '../config.js';
 import {
@@ -25,6 +28,9 @@ import {
   updateSourceExtraction,
 } from '../db/context-accessors.js';
 import { logger } from '../../logger.js';
+import { isBlockedIp } from '../security/outbound-url.js';
+
+import { getConfiguredManagedSourceFetcher } from './managed-source-fetcher.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -54,67 +60,6 @@ const CHALLENGE_MARKERS = [
 // SSRF protection
 // ---------------------------------------------------------------------------
 
-/**
- * Returns true if an IP address is in a blocked range (loopback, private,
- * link-local, multicast, or unspecified).
- */
-function isBlockedIp(ip: string): boolean {
-  // IPv4
-  if (net.isIPv4(ip)) {
-    const parts = ip.split('.').map(Number);
-    const [a, b] = parts;
-
-    // 127.0.0.0/8
-    if (a === 127) return true;
-    // 10.0.0.0/8
-    if (a === 10) return true;
-    // 172.16.0.0/12
-    if (a === 172 && b >= 16 && b <= 31) return true;
-    // 192.168.0.0/16
-    if (a === 192 && b === 168) return true;
-    // 169.254.0.0/16 (link-local)
-    if (a === 169 && b === 254) return true;
-    // 224.0.0.0/4 (multicast)
-    if (a >= 224 && a <= 239) return true;
-    // 0.0.0.0
-    if (a === 0) return true;
-
-    return false;
-  }
-
-  // IPv6
-  if (net.isIPv6(ip)) {
-    const normalized = ip.toLowerCase();
-    // ::1 loopback
-    if (
-      normalized === '::1' ||
-      normalized === '0000:0000:0000:0000:0000:0000:0000:0001'
-    ) {
-      return true;
-    }
-    // :: unspecified
-    if (normalized === '::') return true;
-    // fe80::/10 link-local
-    if (normalized.startsWith('fe80:') || normalized.startsWith('fe80')) {
-      return true;
-    }
-    // fc00::/7 unique-local
-    if (normalized.startsWith('fc') || normalized.startsWith('fd')) {
-      return true;
-    }
-    // ff00::/8 multicast
-    if (normalized.startsWith('ff')) return true;
-    // IPv4-mapped ::ffff:x.x.x.x
-    const v4Match = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
-    if (v4Match) return isBlockedIp(v4Match[1]);
-
-    return false;
-  }
-
-  // Unknown format → block
-  return true;
-}
-
 /**
  * Resolves a hostname and validates that no resolved address is in a blocked
  * IP range. Returns the first safe address.
@@ -215,7 +160,8 @@ export interface ManagedSourceFetcher {
 
 export interface UrlSourceIngestionDependencies {
   httpFetcher?: typeof safeFetchUrl;
-  browserFetcher?: BrowserSourceFetcher;
+  /** No browser tier when omitted — this build has no browser runtime. */
+  browserFetcher?: BrowserSourceFetcher | null;
   managedFetcher?: ManagedSourceFetcher | null;
   updateExtraction?: typeof updateSourceExtraction;
 }
@@ -232,14 +178,6 @@ const DEFAULT_BROWSER_SOURCE_FETCHER: BrowserSourceFetcher = {
   },
 };
 
-function getConfiguredManagedSourceFetcher(): ManagedSourceFetcher | null {
-  if (!TALK_CONTEXT_MANAGED_FETCH_ENABLED) return null;
-  logger.warn(
-    '[source-ingestion] Managed source fetch is enabled, but no managed provider is configured.',
-  );
-  return null;
-}
-
 export function createDefaultTalkContextSourceIngestionService(
   deps?: UrlSourceIngestionDependencies,
 ): TalkContextSourceIngestionService {
@@ -549,6 +487,19 @@ function looksLikeChallengePage(html: string): boolean {
   return CHALLENGE_MARKERS.some((marker) => normalized.includes(marker));
 }
 
+// HTTP failures that mean the URL itself must not (or cannot) be
+// fetched. No other tier gets to try these.
+function isUnfetchableUrlError(
+  err: SourceIngestionError | Error | null,
+): boolean {
+  return (
+    err instanceof SourceIngestionError &&
+    ['invalid_scheme', 'ssrf_blocked', 'dns_resolution_failed'].includes(
+      err.code,
+    )
+  );
+}
+
 function shouldAttemptBrowserFallback(input: {
   url: string;
   fetchResult?: FetchResult | null;
@@ -559,15 +510,7 @@ function shouldAttemptBrowserFallback(input: {
   if (shouldPreferBrowserForUrl(input.url)) return true;
 
   if (input.httpError) {
-    if (
-      input.httpError instanceof SourceIngestionError &&
-      ['invalid_scheme', 'ssrf_blocked', 'dns_resolution_failed'].includes(
-        input.httpError.code,
-      )
-    ) {
-      return false;
-    }
-    return true;
+    return !isUnfetchableUrlError(input.httpError);
   }
 
   if (!input.fetchResult || input.fetchResult.contentType !== 'text/html') {
@@ -652,7 +595,7 @@ export async function ingestUrlSource(
   deps?: UrlSourceIngestionDependencies,
 ): Promise<void> {
   const httpFetcher = deps?.httpFetcher ?? safeFetchUrl;
-  const browserFetcher = deps?.browserFetcher ?? DEFAULT_BROWSER_SOURCE_FETCHER;
+  const browserFetcher = deps?.browserFetcher ?? null;
   const managedFetcher =
     deps?.managedFetcher ?? getConfiguredManagedSourceFetcher();
   const updateExtractionFn = deps?.updateExtraction ?? updateSourceExtraction;
@@ -701,13 +644,14 @@ export async function ingestUrlSource(
     httpError = err instanceof Error ? err : new Error(String(err));
   }
 
-  if (
+  const escalate =
     shouldPreferBrowser ||
     shouldAttemptBrowserFallback({
       url,
       httpError,
-    })
-  ) {
+    });
+
+  if (escalate && browserFetcher) {
     browserAttempted = true;
     try {
       const browserResult = await ingestUrlSourceWithBrowser(sourceId, url, {
@@ -726,13 +670,26 @@ export async function ingestUrlSource(
     }
   }
 
-  if (managedFetcher) {
+  // Managed fetching costs a provider call, so it only runs when HTTP
+  // fell short, and never for URLs the HTTP tier refused on safety
+  // grounds (the provider would fetch them from outside our SSRF checks).
+  if (
+    managedFetcher &&
+    (escalate || httpError !== null) &&
+    !isUnfetchableUrlError(httpError)
+  ) {
     managedAttempted = true;
     try {
       const managedResult = await managedFetcher.fetch({
         url,
         timeoutMs: TALK_CONTEXT_MANAGED_FETCH_TIMEOUT_MS,
       });
+      if (!managedResult.extractedText.trim()) {
+        throw new SourceIngestionError(
+          'managed_empty',
+          'Managed fetch rendered the page, but extracted no useful text.',
+        );
+      }
       await updateExtractionFn({
         sourceId,
         extractedText: managedResult.extractedText,
@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../db.js', () => ({
+  withUserContext: vi.fn(async (_userId: string, fn: () => unknown) => fn()),
+}));
+vi.mock('../../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock('../db/accessors.js', () => ({
+  createTalkMessage: vi.fn(),
+  getOrCreateDefaultThread: vi.fn(),
+  touchTalkUpdatedAt: vi.fn(),
+}));
+vi.mock('../db/context-accessors.js', () => ({
+  claimDueContextSourceRefreshes: vi.fn(),
+  createContextSourceRevision: vi.fn(),
+  getContextSourceWithContent: vi.fn(),
+}));
+vi.mock('../db/job-accessors.js', () => ({
+  createJobTriggerRun: vi.fn(),
+  getTalkJobById: vi.fn(),
+}));
+vi.mock('./outbox-emit.js', () => ({ emitOutboxEvent: vi.fn() }));
+vi.mock('./queue-producer.js', () => ({ dispatchRun: vi.fn() }));
+vi.mock('./source-ingestion.js', () => ({ ingestUrlSource: vi.fn() }));
+
+import { withUserContext } from '../../db.js';
+import {
+  createTalkMessage,
+  getOrCreateDefaultThread,
+} from '../db/accessors.js';
+import {
+  createContextSourceRevision,
+  getContextSourceWithContent,
+  type ContextSourceWithContent,
+  type DueContextSourceRefresh,
+} from '../db/context-accessors.js';
+import {
+  createJobTriggerRun,
+  getTalkJobById,
+  type TalkJob,
+} from '../db/job-accessors.js';
+import { emitOutboxEvent } from './outbox-emit.js';
+import { dispatchRun } from './queue-producer.js';
+import { ingestUrlSource } from './source-ingestion.js';
+import { refreshContextSource } from './source-refresh.js';
+
+const ingestMock = vi.mocked(ingestUrlSource);
+const getSourceMock = vi.mocked(getContextSourceWithContent);
+const createRevisionMock = vi.mocked(createContextSourceRevision);
+const createMessageMock = vi.mocked(createTalkMessage);
+const defaultThreadMock = vi.mocked(getOrCreateDefaultThread);
+const getJobMock = vi.mocked(getTalkJobById);
+const triggerMock = vi.mocked(createJobTriggerRun);
+const emitMock = vi.mocked(emitOutboxEvent);
+const userContextMock = vi.mocked(withUserContext);
+const dispatchMock = vi.mocked(dispatchRun);
+
+const PREVIOUS_TEXT = 'Pricing\nPro: $20 a month\nTeam: $40 a month';
+
+function dueSource(
+  input: Partial<DueContextSourceRefresh> = {},
+): DueContextSourceRefresh {
+  return {
+    id: 'source-1',
+    talkId: 'talk-1',
+    ownerId: 'user-1',
+    sourceRef: 'S2',
+    title: 'Acme pricing',
+    sourceUrl: 'https://acme.example/pricing',
+    extractedText: PREVIOUS_TEXT,
+    extractedAt: '2026-10-18T00:00:00.000Z',
+    onChangeJobId: null,
+    ...input,
+  };
+}
+
+function refetched(
+  extractedText: string,
+  extractedAt = '2026-10-19T00:00:00.000Z',
+): ContextSourceWithContent {
+  return {
+    title: 'Acme pricing',
+    extractedText,
+    extractedAt,
+  } as ContextSourceWithContent;
+}
+
+beforeEach(() => {
+  ingestMock.mockResolvedValue(undefined);
+  defaultThreadMock.mockResolvedValue('thread-default');
+  createRevisionMock.mockImplementation(async (input) => ({
+    id: 'revision-1',
+    sourceId: input.sourceId,
+    previousExtractedAt: input.previousExtractedAt,
+    extractedAt: input.extractedAt,
+    addedLines: input.addedLines,
+    removedLines: input.removedLines,
+    diffText: input.diffText,
+    isDiffTruncated: input.isDiffTruncated,
+    createdAt: '2026-10-19T00:00:01.000Z',
+  }));
+  createMessageMock.mockImplementation(
+    async (input) =>
+      ({
+        id: 'message-1',
+        created_at: '2026-10-19T00:00:01.000Z',
+        thread_id: input.threadId,
+      }) as Awaited<ReturnType<typeof createTalkMessage>>,
+  );
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('refreshContextSource', () => {
+  it('records a revision and posts a system message when the text changed', async () => {
+    getSourceMock.mockResolvedValue(
+      refetched('Pricing\nPro: $25 a month\nTeam: $40 a month'),
+    );
+
+    const runId = await refreshContextSource(dueSource());
+
+    expect(runId).toBeNull();
+    expect(ingestMock).toHaveBeenCalledWith(
+      'source-1',
+      'https://acme.example/pricing',
+    );
+    // The fetch happens before, not inside, the owner's transaction.
+    expect(userContextMock).toHaveBeenCalledWith(
+      'user-1',
+      expect.any(Function),
+    );
+    expect(ingestMock.mock.invocationCallOrder[0]).toBeLessThan(
+      userContextMock.mock.invocationCallOrder[0],
+    );
+    expect(createRevisionMock).toHaveBeenCalledWith({
+      sourceId: 'source-1',
+      talkId: 'talk-1',
+      ownerId: 'user-1',
+      previousExtractedAt: '2026-10-18T00:00:00.000Z',
+      extractedAt: '2026-10-19T00:00:00.000Z',
+      addedLines: 1,
+      removedLines: 1,
+      diffText: [
+        '  Pricing',
+        '- Pro: $20 a month',
+        '+ Pro: $25 a month',
+        '  Team: $40 a month',
+      ].join('\n'),
+      isDiffTruncated: false,
+    });
+    const message = createMessageMock.mock.calls[0][0];
+    expect(message).toMatchObject({
+      talkId: 'talk-1',
+      threadId: 'thread-default',
+      role: 'system',
+      metadata: {
+        kind: 'context_source_changed',
+        sourceRef: 'S2',
+        revisionId: 'revision-1',
+      },
+    });
+    expect(message.content).toContain(
+      'Saved source S2 "Acme pricing" changed since it was last fetched (1 line added, 1 line removed).',
+    );
+    expect(message.content).toContain('+ Pro: $25 a month');
+    expect(emitMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        topic: 'talk:talk-1',
+        eventType: 'message_appended',
+      }),
+    );
+    expect(triggerMock).not.toHaveBeenCalled();
+  });
+
+  it("triggers the on-change job and posts into the job's thread", async () => {
+    getSourceMock.mockResolvedValue(
+      refetched(`${PREVIOUS_TEXT}\nEnterprise: contact us`),
+    );
+    getJobMock.mockResolvedValue({
+      id: 'job-1',
+      talkId: 'talk-1',
+      threadId: 'thread-job',
+    } as TalkJob);
+    triggerMock.mockResolvedValue({
+      status: 'enqueued',
+      runId: 'run-1',
+    } as Awaited<ReturnType<typeof createJobTriggerRun>>);
+
+    const runId = await refreshContextSource(
+      dueSource({ onChangeJobId: 'job-1' }),
+    );
+
+    expect(runId).toBe('run-1');
+    expect(createMessageMock.mock.calls[0][0].threadId).toBe('thread-job');
+    expect(defaultThreadMock).not.toHaveBeenCalled();
+    expect(triggerMock).toHaveBeenCalledWith({
+      ownerId: 'user-1',
+      jobId: 'job-1',
+      triggerSource: 'source_change',
+    });
+    expect(dispatchMock).toHaveBeenCalledWith({ runId: 'run-1' });
+  });
+
+  it('does nothing when the re-fetch failed or the text is unchanged', async () => {
+    // Failed fetch: the last good extraction is still in place.
+    getSourceMock.mockResolvedValueOnce(
+      refetched(PREVIOUS_TEXT, '2026-10-18T00:00:00.000Z'),
+    );
+    await refreshContextSource(dueSource());
+    // Re-fetched, but only whitespace moved.
+    getSourceMock.mockResolvedValueOnce(refetched(`${PREVIOUS_TEXT}\n\n`));
+    await refreshContextSource(dueSource());
+    // First successful fetch is the baseline, not a change.
+    getSourceMock.mockResolvedValueOnce(refetched(PREVIOUS_TEXT));
+    await refreshContextSource(
+      dueSource({ extractedText: null, extractedAt: null }),
+    );
+
+    expect(ingestMock).toHaveBeenCalledTimes(3);
+    expect(createRevisionMock).not.toHaveBeenCalled();
+    expect(createMessageMock).not.toHaveBeenCalled();
+    expect(dispatchMock).not.toHaveBeenCalled();
+  });
+});
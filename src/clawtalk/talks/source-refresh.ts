@@ -0,0 +1,220 @@
+// Scheduled re-crawl and change detection for watched URL context
+// sources (migration 0058).
+//
+// The cron tick (scheduler.ts) calls refreshDueContextSources(). Each
+// due source is re-ingested through the usual ingestUrlSource tiers.
+// When the stored text changes, the line diff against the previous
+// extraction is recorded as a revision, a system message announcing the
+// change is posted into the Talk, and the source's on-change job (if
+// any) is triggered. The message goes into that job's thread so the run
+// sees it in history; without a job it goes into the default thread.
+//
+// The fetch runs outside any transaction, like ingestion of a newly
+// added source; only the change handling opens the owner's user
+// context, so a slow page never holds a connection and its locks.
+
+import { withUserContext } from '../../db.js';
+import { logger } from '../../logger.js';
+import {
+  createTalkMessage,
+  getOrCreateDefaultThread,
+  touchTalkUpdatedAt,
+} from '../db/accessors.js';
+import {
+  claimDueContextSourceRefreshes,
+  createContextSourceRevision,
+  getContextSourceWithContent,
+  type DueContextSourceRefresh,
+} from '../db/context-accessors.js';
+import { createJobTriggerRun, getTalkJobById } from '../db/job-accessors.js';
+
+import { emitOutboxEvent } from './outbox-emit.js';
+import { dispatchRun } from './queue-producer.js';
+import { diffSourceText, type SourceTextDiff } from './source-diff.js';
+import { ingestUrlSource } from './source-ingestion.js';
+
+// Sources re-fetched per tick. A fetch can escalate through the browser
+// and managed tiers (tens of seconds), so keep the batch small; overdue
+// sources are picked up by the following ticks.
+const SOURCE_REFRESH_BATCH_SIZE = 5;
+
+// How much of the diff the Talk message quotes. The full (capped) diff
+// stays on the revision row.
+const MESSAGE_DIFF_EXCERPT_CHARS = 1_500;
+
+export async function refreshDueContextSources(): Promise<void> {
+  let due: DueContextSourceRefresh[];
+  try {
+    due = await claimDueContextSourceRefreshes(SOURCE_REFRESH_BATCH_SIZE);
+  } catch (err) {
+    logger.error({ err }, 'scheduler: due context source query failed');
+    return;
+  }
+
+  for (const source of due) {
+    try {
+      await refreshContextSource(source);
+    } catch (err) {
+      logger.warn(
+        { err, sourceId: source.id, talkId: source.talkId },
+        'scheduler: context source refresh failed',
+      );
+    }
+  }
+}
+
+function pluralLines(count: number): string {
+  return `${count} line${count === 1 ? '' : 's'}`;
+}
+
+function excerptDiff(diffText: string): string {
+  if (diffText.length <= MESSAGE_DIFF_EXCERPT_CHARS) return diffText;
+  const cut = diffText.lastIndexOf('\n', MESSAGE_DIFF_EXCERPT_CHARS);
+  return `${diffText.slice(0, cut > 0 ? cut : MESSAGE_DIFF_EXCERPT_CHARS)}\n…`;
+}
+
+export function buildSourceChangeMessage(input: {
+  sourceRef: string;
+  title: string;
+  diff: SourceTextDiff;
+}): string {
+  const { sourceRef, title, diff } = input;
+  const summary = [
+    diff.addedLines > 0 ? `${pluralLines(diff.addedLines)} added` : null,
+    diff.removedLines > 0 ? `${pluralLines(diff.removedLines)} removed` : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+  return [
+    `Saved source ${sourceRef} "${title}" changed since it was last fetched (${summary}). Use @${sourceRef} to read the current version.`,
+    '',
+    '```diff',
+    excerptDiff(diff.diffText),
+    '```',
+  ].join('\n');
+}
+
+/**
+ * Re-fetch one claimed source and handle a change. Returns the run id of
+ * the on-change job it triggered and dispatched, if any.
+ */
+export async function refreshContextSource(
+  source: DueContextSourceRefresh,
+): Promise<string | null> {
+  await ingestUrlSource(source.id, source.sourceUrl);
+
+  const runId = await withUserContext(source.ownerId, () =>
+    recordContextSourceChange(source),
+  );
+  // Dispatched once the trigger's transaction has committed.
+  if (runId) await dispatchRun({ runId });
+  return runId;
+}
+
+// Runs inside the owner's user context, after the re-fetch.
+async function recordContextSourceChange(
+  source: DueContextSourceRefresh,
+): Promise<string | null> {
+  const refreshed = await getContextSourceWithContent(source.id, source.talkId);
+  // A failed fetch leaves the last good text (and extracted_at) in place;
+  // a source that had no text yet is being seen for the first time.
+  if (
+    !refreshed?.extractedText ||
+    !refreshed.extractedAt ||
+    refreshed.extractedAt === source.extractedAt ||
+    source.extractedText === null
+  ) {
+    return null;
+  }
+  const diff = diffSourceText(source.extractedText, refreshed.extractedText);
+  if (!diff) return null;
+
+  const revision = await createContextSourceRevision({
+    sourceId: source.id,
+    talkId: source.talkId,
+    ownerId: source.ownerId,
+    previousExtractedAt: source.extractedAt,
+    extractedAt: refreshed.extractedAt,
+    addedLines: diff.addedLines,
+    removedLines: diff.removedLines,
+    diffText: diff.diffText,
+    isDiffTruncated: diff.isTruncated,
+  });
+
+  const job = source.onChangeJobId
+    ? await getTalkJobById(source.onChangeJobId)
+    : undefined;
+  const reactingJob = job?.talkId === source.talkId ? job : undefined;
+  const threadId =
+    reactingJob?.threadId ??
+    (await getOrCreateDefaultThread({
+      talkId: source.talkId,
+      ownerId: source.ownerId,
+    }));
+
+  const content = buildSourceChangeMessage({
+    sourceRef: source.sourceRef,
+    title: refreshed.title,
+    diff,
+  });
+  const metadata = {
+    kind: 'context_source_changed' as const,
+    sourceId: source.id,
+    sourceRef: source.sourceRef,
+    revisionId: revision.id,
+    addedLines: diff.addedLines,
+    removedLines: diff.removedLines,
+  };
+  const message = await createTalkMessage({
+    ownerId: source.ownerId,
+    talkId: source.talkId,
+    threadId,
+    role: 'system',
+    content,
+    createdBy: null,
+    metadata,
+  });
+  await touchTalkUpdatedAt(source.talkId);
+  await emitOutboxEvent({
+    topic: `talk:${source.talkId}`,
+    eventType: 'message_appended',
+    payload: {
+      talkId: source.talkId,
+      threadId,
+      messageId: message.id,
+      runId: null,
+      role: 'system',
+      createdBy: null,
+      content,
+      createdAt: message.created_at,
+      metadata,
+    },
+    ownerIds: [source.ownerId],
+  });
+
+  logger.info(
+    {
+      sourceId: source.id,
+      talkId: source.talkId,
+      revisionId: revision.id,
+      addedLines: diff.addedLines,
+      removedLines: diff.removedLines,
+    },
+    'source-refresh: watched source changed',
+  );
+
+  if (!reactingJob) return null;
+  const result = await createJobTriggerRun({
+    ownerId: source.ownerId,
+    jobId: reactingJob.id,
+    triggerSource: 'source_change',
+  });
+  if (result.status === 'enqueued') return result.runId;
+  // Paused, blocked, or already running: the change message is in the
+  // job's thread either way, so its next run still sees it.
+  logger.info(
+    { sourceId: source.id, jobId: reactingJob.id, status: result.status },
+    'source-refresh: on-change job not started',
+  );
+  return null;
+}
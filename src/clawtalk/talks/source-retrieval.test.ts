@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { hashEmbed } from './embeddings.js';
+import {
+  isSourceIndexStale,
+  rankSourceChunks,
+  type RankableChunk,
+} from './source-retrieval.js';
+
+function chunk(
+  sourceId: string,
+  chunkIndex: number,
+  content: string,
+): RankableChunk {
+  return {
+    id: `${sourceId}-${chunkIndex}`,
+    source_id: sourceId,
+    chunk_index: chunkIndex,
+    page_index: null,
+    content,
+    embedding: hashEmbed(content),
+  };
+}
+
+describe('rankSourceChunks', () => {
+  const chunks = [
+    chunk('s1', 0, 'Churn rose in March after the pricing change.'),
+    chunk('s1', 1, 'Churn in March was concentrated in the starter plan.'),
+    chunk('s1', 2, 'March churn recovered once pricing was rolled back.'),
+    chunk('s2', 0, 'The pricing change lifted March revenue but raised churn.'),
+    chunk('s3', 0, 'Office move is scheduled for the second week of June.'),
+  ];
+
+  it('orders by similarity and drops chunks under the noise floor', () => {
+    const ranked = rankSourceChunks({
+      queryEmbedding: hashEmbed('why did churn rise in March'),
+      chunks,
+      minScore: 0.12,
+    });
+    expect(ranked.length).toBeGreaterThan(0);
+    expect(ranked.some((entry) => entry.sourceId === 's3')).toBe(false);
+    for (let i = 1; i < ranked.length; i++) {
+      expect(ranked[i].score).toBeLessThanOrEqual(ranked[i - 1].score);
+    }
+  });
+
+  it('caps results overall and per source', () => {
+    const ranked = rankSourceChunks({
+      queryEmbedding: hashEmbed('March churn pricing'),
+      chunks,
+      minScore: 0,
+      limit: 3,
+      perSourceLimit: 2,
+    });
+    expect(ranked).toHaveLength(3);
+    expect(ranked.filter((entry) => entry.sourceId === 's1')).toHaveLength(2);
+  });
+});
+
+describe('isSourceIndexStale', () => {
+  const provider = { id: 'hash', model: 'fnv1a-256' };
+  const state = {
+    sourceId: 's1',
+    chunkCount: 4,
+    embeddingProvider: 'hash',
+    embeddingModel: 'fnv1a-256',
+    sourceExtractedAt: '2026-10-01T12:00:00.000Z',
+  };
+
+  it('is fresh only when text and model both match', () => {
+    const source = { extracted_at: '2026-10-01T12:00:00Z' };
+    expect(isSourceIndexStale(source, state, provider)).toBe(false);
+    expect(isSourceIndexStale(source, undefined, provider)).toBe(true);
+    expect(
+      isSourceIndexStale(
+        { extracted_at: '2026-10-02T08:00:00Z' },
+        state,
+        provider,
+      ),
+    ).toBe(true);
+    expect(
+      isSourceIndexStale(source, state, {
+        id: 'openai',
+        model: 'text-embedding-3-small',
+      }),
+    ).toBe(true);
+  });
+});
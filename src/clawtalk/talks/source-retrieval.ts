@@ -0,0 +1,216 @@
+// Semantic retrieval over Talk context sources.
+//
+// The loader calls `retrieveTalkSourceChunks` once per run with the
+// triggering message as the query. It first brings the talk's chunk
+// index up to date (re-chunking and re-embedding any source whose text
+// or embedding model changed since it was indexed), then ranks every
+// chunk against the query embedding. The loader packs the winners into
+// RETRIEVAL_SECTION_RESERVE and records them as citations on the run's
+// context snapshot.
+//
+// Indexing lazily at retrieval time, rather than from each ingestion
+// path, keeps every way a source's text can change (URL fetch, file
+// extraction, text-source edit, provider switch) covered by one
+// staleness check.
+
+import { getDbPg } from '../../db.js';
+import {
+  deleteSourceChunks,
+  listSourceChunkIndexState,
+  listTalkSourceChunks,
+  replaceSourceChunks,
+  type SourceChunkIndexState,
+} from '../db/source-chunk-accessors.js';
+import { chunkSourceText } from './source-chunking.js';
+import { cosineSimilarity, type EmbeddingProvider } from './embeddings.js';
+
+export const MAX_RETRIEVED_SOURCE_CHUNKS = 6;
+// Cap per source so one long document can't crowd out the rest.
+export const MAX_RETRIEVED_CHUNKS_PER_SOURCE = 3;
+
+export interface IndexableSource {
+  id: string;
+  owner_id: string;
+  extracted_text: string;
+  extracted_at: string | null;
+  expected_page_count: number | null;
+}
+
+export interface RankableChunk {
+  id: string;
+  source_id: string;
+  chunk_index: number;
+  page_index: number | null;
+  content: string;
+  embedding: number[];
+}
+
+export interface RankedSourceChunk {
+  chunkId: string;
+  sourceId: string;
+  chunkIndex: number;
+  pageIndex: number | null;
+  content: string;
+  score: number;
+}
+
+function toIsoOrNull(value: string | Date | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Whether a source's indexed chunks no longer reflect its text or the
+ * configured embedding model. Sources with no chunks are always stale.
+ */
+export function isSourceIndexStale(
+  source: Pick<IndexableSource, 'extracted_at'>,
+  state: SourceChunkIndexState | undefined,
+  provider: Pick<EmbeddingProvider, 'id' | 'model'>,
+): boolean {
+  if (!state || state.chunkCount === 0) return true;
+  if (state.embeddingProvider !== provider.id) return true;
+  if (state.embeddingModel !== provider.model) return true;
+  return state.sourceExtractedAt !== toIsoOrNull(source.extracted_at);
+}
+
+/**
+ * Rank chunks by cosine similarity to the query vector, dropping those
+ * under the provider's noise floor and keeping at most `perSourceLimit`
+ * per source. Ties break by source then chunk order so the result is
+ * deterministic.
+ */
+export function rankSourceChunks(input: {
+  queryEmbedding: number[];
+  chunks: RankableChunk[];
+  minScore: number;
+  limit?: number;
+  perSourceLimit?: number;
+}): RankedSourceChunk[] {
+  const limit = input.limit ?? MAX_RETRIEVED_SOURCE_CHUNKS;
+  const perSourceLimit =
+    input.perSourceLimit ?? MAX_RETRIEVED_CHUNKS_PER_SOURCE;
+
+  const scored = input.chunks
+    .map((chunk) => ({
+      chunk,
+      score: cosineSimilarity(input.queryEmbedding, chunk.embedding),
+    }))
+    .filter((entry) => entry.score >= input.minScore)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.chunk.source_id.localeCompare(b.chunk.source_id) ||
+        a.chunk.chunk_index - b.chunk.chunk_index,
+    );
+
+  const perSource = new Map<string, number>();
+  const ranked: RankedSourceChunk[] = [];
+  for (const { chunk, score } of scored) {
+    if (ranked.length >= limit) break;
+    const taken = perSource.get(chunk.source_id) ?? 0;
+    if (taken >= perSourceLimit) continue;
+    perSource.set(chunk.source_id, taken + 1);
+    ranked.push({
+      chunkId: chunk.id,
+      sourceId: chunk.source_id,
+      chunkIndex: chunk.chunk_index,
+      pageIndex: chunk.page_index,
+      content: chunk.content,
+      score,
+    });
+  }
+  return ranked;
+}
+
+async function listIndexableSources(
+  talkId: string,
+): Promise<IndexableSource[]> {
+  const db = getDbPg();
+  return await db<IndexableSource[]>`
+    select id, owner_id, extracted_text, extracted_at, expected_page_count
+    from public.talk_context_sources
+    where talk_id = ${talkId}::uuid
+      and status = 'ready'
+      and extracted_text is not null
+      and length(extracted_text) > 0
+  `;
+}
+
+/**
+ * Bring the talk's chunk index in line with its sources: re-index stale
+ * sources and drop chunks of sources that no longer have usable text.
+ * Returns how many sources were (re)indexed.
+ */
+export async function syncTalkSourceChunkIndex(input: {
+  talkId: string;
+  provider: EmbeddingProvider;
+}): Promise<number> {
+  const sources = await listIndexableSources(input.talkId);
+  const states = new Map(
+    (await listSourceChunkIndexState(input.talkId)).map((state) => [
+      state.sourceId,
+      state,
+    ]),
+  );
+
+  const indexableIds = new Set(sources.map((source) => source.id));
+  for (const sourceId of states.keys()) {
+    if (!indexableIds.has(sourceId)) await deleteSourceChunks(sourceId);
+  }
+
+  let reindexed = 0;
+  for (const source of sources) {
+    if (!isSourceIndexStale(source, states.get(source.id), input.provider)) {
+      continue;
+    }
+    const chunks = chunkSourceText(source.extracted_text, {
+      pageCount: source.expected_page_count,
+    });
+    const embeddings = await input.provider.embed(
+      chunks.map((chunk) => chunk.content),
+    );
+    await replaceSourceChunks({
+      sourceId: source.id,
+      talkId: input.talkId,
+      ownerId: source.owner_id,
+      sourceExtractedAt: toIsoOrNull(source.extracted_at),
+      embeddingProvider: input.provider.id,
+      embeddingModel: input.provider.model,
+      chunks: chunks.map((chunk, index) => ({
+        ...chunk,
+        embedding: embeddings[index],
+      })),
+    });
+    reindexed++;
+  }
+  return reindexed;
+}
+
+export async function retrieveTalkSourceChunks(input: {
+  talkId: string;
+  query: string;
+  provider: EmbeddingProvider;
+  limit?: number;
+}): Promise<RankedSourceChunk[]> {
+  const query = input.query.trim();
+  if (!query) return [];
+
+  await syncTalkSourceChunkIndex({
+    talkId: input.talkId,
+    provider: input.provider,
+  });
+  const chunks = await listTalkSourceChunks({
+    talkId: input.talkId,
+    embeddingProvider: input.provider.id,
+    embeddingModel: input.provider.model,
+  });
+  if (chunks.length === 0) return [];
+
+  const [queryEmbedding] = await input.provider.embed([query]);
+  return rankSourceChunks({
+    queryEmbedding,
+    chunks,
+    minScore: input.provider.minScore,
+    limit: input.limit,
+  });
+}
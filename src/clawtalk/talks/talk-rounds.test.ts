@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  deriveTalkRoundStatus,
+  isTalkRoundsLimit,
+  isVisibleRoundOutput,
+  planTalkRounds,
+} from './talk-rounds.js';
+
+const ALICE = { id: 'a', nickname: 'Alice' };
+const BOB = { id: 'b', nickname: 'Bob' };
+const CAROL = { id: 'c', nickname: 'Carol' };
+const EDITOR = { id: 'e', nickname: 'Editor' };
+
+describe('isTalkRoundsLimit', () => {
+  it('accepts only the product rounds limits', () => {
+    for (const value of [1, 2, 3, 5])
+      expect(isTalkRoundsLimit(value)).toBe(true);
+    for (const value of [0, 4, 6, '2', null]) {
+      expect(isTalkRoundsLimit(value)).toBe(false);
+    }
+  });
+});
+
+describe('planTalkRounds', () => {
+  it('keeps single-pass routing without rounds or a synthesizer', () => {
+    expect(
+      planTalkRounds({
+        selectedAgents: [ALICE, BOB],
+        synthesizer: null,
+        roundsLimit: 1,
+        mode: 'ordered',
+      }),
+    ).toBeNull();
+    // The synthesizer alone is not a debate.
+    expect(
+      planTalkRounds({
+        selectedAgents: [ALICE, EDITOR],
+        synthesizer: EDITOR,
+        roundsLimit: 3,
+        mode: 'ordered',
+      }),
+    ).toBeNull();
+  });
+
+  it('strides ordered rounds and closes each with the synthesizer', () => {
+    const plan = planTalkRounds({
+      selectedAgents: [ALICE, EDITOR, BOB],
+      synthesizer: EDITOR,
+      roundsLimit: 2,
+      mode: 'ordered',
+    });
+    expect(plan?.synthesizerAgentId).toBe('e');
+    expect(
+      plan?.steps.map((step) => [
+        step.agentId,
+        step.roundNumber,
+        step.sequenceIndex,
+        step.synthesizer,
+      ]),
+    ).toEqual([
+      ['a', 1, 0, false],
+      ['b', 1, 1, false],
+      ['e', 1, 2, true],
+      ['a', 2, 3, false],
+      ['b', 2, 4, false],
+      ['e', 2, 5, true],
+    ]);
+  });
+
+  it('runs panel participants of a round on one sequence index', () => {
+    const plan = planTalkRounds({
+      selectedAgents: [ALICE, BOB, CAROL],
+      synthesizer: EDITOR,
+      roundsLimit: 2,
+      mode: 'panel',
+    });
+    expect(
+      plan?.steps.map((step) => [step.agentId, step.sequenceIndex]),
+    ).toEqual([
+      ['a', 0],
+      ['b', 0],
+      ['c', 0],
+      ['e', 1],
+      ['a', 2],
+      ['b', 2],
+      ['c', 2],
+      ['e', 3],
+    ]);
+  });
+
+  it('plans rounds without a synthesizer', () => {
+    const plan = planTalkRounds({
+      selectedAgents: [ALICE, BOB],
+      synthesizer: null,
+      roundsLimit: 3,
+      mode: 'panel',
+    });
+    expect(plan?.steps.map((step) => step.sequenceIndex)).toEqual([
+      0, 0, 1, 1, 2, 2,
+    ]);
+    expect(plan?.steps.every((step) => !step.synthesizer)).toBe(true);
+  });
+});
+
+describe('deriveTalkRoundStatus', () => {
+  it('stays queued until a run starts, then running while any is active', () => {
+    expect(
+      deriveTalkRoundStatus({
+        runStatuses: ['queued', 'queued'],
+        synthesizerRunStatus: 'queued',
+      }),
+    ).toBe('queued');
+    expect(
+      deriveTalkRoundStatus({
+        runStatuses: ['completed', 'queued'],
+        synthesizerRunStatus: 'queued',
+      }),
+    ).toBe('running');
+  });
+
+  it('settles cancelled, failed or completed once every run is terminal', () => {
+    expect(
+      deriveTalkRoundStatus({
+        runStatuses: ['completed', 'cancelled'],
+        synthesizerRunStatus: 'cancelled',
+      }),
+    ).toBe('cancelled');
+    expect(
+      deriveTalkRoundStatus({
+        runStatuses: ['completed', 'failed'],
+        synthesizerRunStatus: 'failed',
+      }),
+    ).toBe('failed');
+    expect(
+      deriveTalkRoundStatus({
+        runStatuses: ['failed', 'failed'],
+        synthesizerRunStatus: null,
+      }),
+    ).toBe('failed');
+    expect(
+      deriveTalkRoundStatus({
+        runStatuses: ['failed', 'completed', 'completed'],
+        synthesizerRunStatus: 'completed',
+      }),
+    ).toBe('completed');
+  });
+});
+
+describe('isVisibleRoundOutput', () => {
+  it('shows the previous round in full and only syntheses before it', () => {
+    const visible = (round: number, synthesis: boolean) =>
+      isVisibleRoundOutput({
+        outputRoundNumber: round,
+        outputIsSynthesis: synthesis,
+        currentRoundNumber: 4,
+      });
+    expect(visible(4, false)).toBe(true);
+    expect(visible(3, false)).toBe(true);
+    expect(visible(2, false)).toBe(false);
+    expect(visible(1, true)).toBe(true);
+  });
+});
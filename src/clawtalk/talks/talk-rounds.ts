@@ -0,0 +1,150 @@
+// Debate round planning (migration 0042).
+//
+// A multi-round debate is one response group whose runs are all created
+// at enqueue time. Sequence indexes stride across rounds so the existing
+// ordered gate runs round N+1 only after every step of round N is
+// terminal:
+//
+//   ordered: participant i of round r → r * stride + i, stride = n (+1 with a synthesizer)
+//   panel:   participants of round r  → r * stride,     stride = 1 (+1 with a synthesizer)
+//
+// where r is zero-based. The synthesizer takes the last index of each
+// round, so it only starts once every participant of that round is done.
+//
+// Everything here is pure; persistence lives in
+// db/talk-round-accessors.ts and enqueueTalkTurnAtomic.
+
+import type { TalkRoundStatus } from '../db/talk-round-accessors.js';
+
+export const TALK_ROUNDS_LIMITS = [1, 2, 3, 5] as const;
+export type TalkRoundsLimit = (typeof TALK_ROUNDS_LIMITS)[number];
+
+export function isTalkRoundsLimit(value: unknown): value is TalkRoundsLimit {
+  return TALK_ROUNDS_LIMITS.includes(value as TalkRoundsLimit);
+}
+
+export interface TalkRoundPlanAgent {
+  id: string;
+  nickname: string;
+}
+
+export interface TalkRoundPlanStep {
+  agentId: string;
+  nickname: string;
+  roundNumber: number;
+  sequenceIndex: number;
+  synthesizer: boolean;
+}
+
+export interface TalkRoundPlan {
+  roundsLimit: TalkRoundsLimit;
+  mode: 'ordered' | 'panel';
+  synthesizerAgentId: string | null;
+  steps: TalkRoundPlanStep[];
+}
+
+/**
+ * Lay out a debate over the selected agents, or return null when the
+ * turn is a plain single pass (one participant, or one round with no
+ * synthesizer) and should keep the legacy ordered / panel routing.
+ *
+ * The synthesizer is excluded from the participants even when it was
+ * selected: it speaks once per round, last.
+ */
+export function planTalkRounds(input: {
+  selectedAgents: TalkRoundPlanAgent[];
+  synthesizer: TalkRoundPlanAgent | null;
+  roundsLimit: TalkRoundsLimit;
+  mode: 'ordered' | 'panel';
+}): TalkRoundPlan | null {
+  const synthesizer = input.synthesizer;
+  const participants = input.selectedAgents.filter(
+    (agent) => agent.id !== synthesizer?.id,
+  );
+  if (participants.length < 2) return null;
+  if (input.roundsLimit === 1 && !synthesizer) return null;
+
+  const synthesizerSlots = synthesizer ? 1 : 0;
+  const stride =
+    input.mode === 'ordered'
+      ? participants.length + synthesizerSlots
+      : 1 + synthesizerSlots;
+
+  const steps: TalkRoundPlanStep[] = [];
+  for (let round = 0; round < input.roundsLimit; round++) {
+    const base = round * stride;
+    participants.forEach((agent, index) => {
+      steps.push({
+        agentId: agent.id,
+        nickname: agent.nickname,
+        roundNumber: round + 1,
+        sequenceIndex: input.mode === 'ordered' ? base + index : base,
+        synthesizer: false,
+      });
+    });
+    if (synthesizer) {
+      steps.push({
+        agentId: synthesizer.id,
+        nickname: synthesizer.nickname,
+        roundNumber: round + 1,
+        sequenceIndex: base + stride - 1,
+        synthesizer: true,
+      });
+    }
+  }
+
+  return {
+    roundsLimit: input.roundsLimit,
+    mode: input.mode,
+    synthesizerAgentId: synthesizer?.id ?? null,
+    steps,
+  };
+}
+
+/**
+ * A round's status as a function of its runs' statuses. Active runs keep
+ * it queued (none started) or running; once every run is terminal, any
+ * cancellation wins, then a round that produced nothing — or whose
+ * synthesis failed — is failed.
+ */
+export function deriveTalkRoundStatus(input: {
+  runStatuses: string[];
+  synthesizerRunStatus: string | null;
+}): TalkRoundStatus {
+  const active = input.runStatuses.filter(
+    (status) =>
+      status === 'queued' ||
+      status === 'running' ||
+      status === 'awaiting_confirmation' ||
+      status === 'paused',
+  );
+  if (active.length > 0) {
+    return active.length === input.runStatuses.length &&
+      active.every((status) => status === 'queued')
+      ? 'queued'
+      : 'running';
+  }
+  if (input.runStatuses.includes('cancelled')) return 'cancelled';
+  if (
+    !input.runStatuses.includes('completed') ||
+    input.synthesizerRunStatus === 'failed'
+  ) {
+    return 'failed';
+  }
+  return 'completed';
+}
+
+/**
+ * Which earlier outputs a debate step sees. Replies from the current
+ * and the previous round are shown in full; older rounds are represented
+ * only by their synthesis (when they had one), which keeps a five-round
+ * debate's prompt bounded without losing the thread of the argument.
+ */
+export function isVisibleRoundOutput(input: {
+  outputRoundNumber: number;
+  outputIsSynthesis: boolean;
+  currentRoundNumber: number;
+}): boolean {
+  if (input.outputRoundNumber >= input.currentRoundNumber - 1) return true;
+  return input.outputIsSynthesis;
+}
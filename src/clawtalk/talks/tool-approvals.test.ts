@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../db/tool-approval-accessors.js', () => ({
+  createTalkToolApproval: vi.fn(),
+  expireTalkToolApproval: vi.fn(),
+  getTalkToolApprovalStatus: vi.fn(),
+  setTalkRunAwaitingConfirmation: vi.fn(),
+}));
+vi.mock('./outbox-emit.js', () => ({
+  emitOutboxEventOutsideTx: vi.fn(),
+}));
+
+import {
+  createTalkToolApproval,
+  expireTalkToolApproval,
+  getTalkToolApprovalStatus,
+  setTalkRunAwaitingConfirmation,
+} from '../db/tool-approval-accessors.js';
+import { emitOutboxEventOutsideTx } from './outbox-emit.js';
+import {
+  awaitToolApproval,
+  summarizeToolCall,
+  toolApprovalDenialResult,
+} from './tool-approvals.js';
+
+const request = {
+  approvalId: 'approval-1',
+  agentId: 'agent-1',
+  toolName: 'web_fetch',
+  arguments: { url: 'https://example.com' },
+  actionSummary: 'web_fetch {"url":"https://example.com"}',
+  runId: 'run-1',
+  talkId: 'talk-1',
+  threadId: 'thread-1',
+  ownerId: 'owner-1',
+  pollIntervalMs: 1,
+};
+
+function emittedTypes(): string[] {
+  return vi
+    .mocked(emitOutboxEventOutsideTx)
+    .mock.calls.map(([event]) => event.eventType);
+}
+
+describe('summarizeToolCall', () => {
+  it('shows the tool name with its arguments, cut at 280 characters', () => {
+    expect(summarizeToolCall('read_state', {})).toBe('read_state');
+    expect(summarizeToolCall('web_fetch', { url: 'https://a.b' })).toBe(
+      'web_fetch {"url":"https://a.b"}',
+    );
+    const long = summarizeToolCall('web_search', { query: 'x'.repeat(500) });
+    expect(long).toHaveLength(280);
+    expect(long.endsWith('…')).toBe(true);
+  });
+
+  it('describes a gmail_send call as the email it would send', () => {
+    expect(
+      summarizeToolCall('gmail_send', {
+        to: ['ana@example.com', 'bo@example.com'],
+        subject: 'Q3 numbers',
+        body: 'Hi both,',
+      }),
+    ).toBe('Send email to ana@example.com, bo@example.com: Q3 numbers');
+  });
+});
+
+describe('toolApprovalDenialResult', () => {
+  it('tells the model the call did not run', () => {
+    expect(toolApprovalDenialResult('web_fetch', 'denied')).toContain(
+      'The user denied the web_fetch call',
+    );
+    expect(toolApprovalDenialResult('web_fetch', 'expired')).toContain(
+      'did not approve the web_fetch call in time',
+    );
+  });
+});
+
+describe('awaitToolApproval', () => {
+  beforeEach(() => {
+    vi.mocked(createTalkToolApproval).mockReset();
+    vi.mocked(createTalkToolApproval).mockResolvedValue({
+      id: 'approval-1',
+      run_id: 'run-1',
+      talk_id: 'talk-1',
+      thread_id: 'thread-1',
+      owner_id: 'owner-1',
+      agent_id: 'agent-1',
+      tool_name: 'web_fetch',
+      arguments_json: { url: 'https://example.com' },
+      action_summary: 'web_fetch {"url":"https://example.com"}',
+      status: 'pending',
+      decided_by: null,
+      decided_at: null,
+      expires_at: '2026-10-19T12:05:00.000Z',
+      created_at: '2026-10-19T12:00:00.000Z',
+    });
+    vi.mocked(setTalkRunAwaitingConfirmation).mockReset();
+    vi.mocked(setTalkRunAwaitingConfirmation).mockResolvedValue(true);
+    vi.mocked(getTalkToolApprovalStatus).mockReset();
+    vi.mocked(expireTalkToolApproval).mockReset();
+    vi.mocked(expireTalkToolApproval).mockResolvedValue(true);
+    vi.mocked(emitOutboxEventOutsideTx).mockReset();
+    vi.mocked(emitOutboxEventOutsideTx).mockResolvedValue(1);
+  });
+
+  it('parks the run until the user decides, then resumes it', async () => {
+    vi.mocked(getTalkToolApprovalStatus)
+      .mockResolvedValueOnce('pending')
+      .mockResolvedValueOnce('approved');
+
+    await expect(awaitToolApproval(request)).resolves.toBe('approved');
+
+    expect(createTalkToolApproval).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'approval-1',
+        runId: 'run-1',
+        toolName: 'web_fetch',
+        arguments: { url: 'https://example.com' },
+      }),
+    );
+    expect(vi.mocked(setTalkRunAwaitingConfirmation).mock.calls).toEqual([
+      ['run-1', true],
+      ['run-1', false],
+    ]);
+    expect(emittedTypes()).toEqual([
+      'talk_tool_approval_requested',
+      'talk_tool_approval_resolved',
+    ]);
+    expect(vi.mocked(emitOutboxEventOutsideTx).mock.calls[1][0]).toMatchObject({
+      payload: { approvalId: 'approval-1', status: 'approved' },
+      ownerIds: ['owner-1'],
+    });
+    expect(expireTalkToolApproval).not.toHaveBeenCalled();
+  });
+
+  it('auto-denies once the timeout passes', async () => {
+    vi.mocked(getTalkToolApprovalStatus).mockResolvedValue('pending');
+
+    await expect(awaitToolApproval({ ...request, timeoutMs: 0 })).resolves.toBe(
+      'expired',
+    );
+    expect(expireTalkToolApproval).toHaveBeenCalledWith('approval-1');
+  });
+
+  it('keeps a decision that lands just before the timeout', async () => {
+    vi.mocked(getTalkToolApprovalStatus)
+      .mockResolvedValueOnce('pending')
+      .mockResolvedValueOnce('denied');
+    vi.mocked(expireTalkToolApproval).mockResolvedValue(false);
+
+    await expect(awaitToolApproval({ ...request, timeoutMs: 0 })).resolves.toBe(
+      'denied',
+    );
+  });
+
+  it('rejects with an AbortError when the run is cancelled mid-wait', async () => {
+    vi.mocked(getTalkToolApprovalStatus).mockResolvedValue('pending');
+    const controller = new AbortController();
+    controller.abort('cancelled');
+
+    await expect(
+      awaitToolApproval({ ...request, signal: controller.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(expireTalkToolApproval).toHaveBeenCalledWith('approval-1');
+    expect(emittedTypes()).toContain('talk_tool_approval_resolved');
+  });
+});
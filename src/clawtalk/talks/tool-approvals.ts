@@ -0,0 +1,193 @@
+// Human-in-the-loop tool approval (migration 0046).
+//
+// When a tool the user marked "requires approval" is called, the agent
+// router hands the call to `awaitToolApproval` instead of running it.
+// The pending call is persisted with its arguments, the run flips to
+// awaiting_confirmation, and a talk_tool_approval_requested event
+// reaches the user through UserEventHub. The run then polls the row
+// until the approval route records a decision, the timeout expires it,
+// or the run is cancelled. The tool loop resumes from the same call
+// either way: approved runs the tool, anything else returns a denial
+// tool result to the model.
+
+import { TALK_TOOL_APPROVAL_TIMEOUT_MS } from '../config.js';
+import {
+  createTalkToolApproval,
+  expireTalkToolApproval,
+  getTalkToolApprovalStatus,
+  setTalkRunAwaitingConfirmation,
+  type TalkToolApprovalRecord,
+} from '../db/tool-approval-accessors.js';
+import type {
+  TalkToolApprovalOutcome,
+  TalkToolApprovalRequest,
+} from './executor.js';
+import { emitOutboxEventOutsideTx } from './outbox-emit.js';
+
+const DEFAULT_APPROVAL_POLL_MS = 1_000;
+const ACTION_SUMMARY_MAX_CHARS = 280;
+
+function describeRecipients(value: unknown): string {
+  const list = Array.isArray(value) ? value : [value];
+  return list.filter((entry) => typeof entry === 'string').join(', ');
+}
+
+/**
+ * One-line description of a tool call for the approval card, e.g.
+ * `web_fetch {"url":"https://example.com"}`. Long arguments are cut;
+ * the full arguments are stored alongside. gmail_send reads as the
+ * email it would send; the card renders the full draft from the
+ * arguments.
+ */
+export function summarizeToolCall(
+  toolName: string,
+  args: Record<string, unknown>,
+): string {
+  const argsText = Object.keys(args).length > 0 ? JSON.stringify(args) : '';
+  const summary =
+    toolName === 'gmail_send'
+      ? `Send email to ${describeRecipients(args.to) || '(no recipients)'}: ${
+          typeof args.subject === 'string' ? args.subject : '(no subject)'
+        }`
+      : argsText
+        ? `${toolName} ${argsText}`
+        : toolName;
+  return summary.length > ACTION_SUMMARY_MAX_CHARS
+    ? `${summary.slice(0, ACTION_SUMMARY_MAX_CHARS - 1)}…`
+    : summary;
+}
+
+/** Tool result the model sees when a call is not approved. */
+export function toolApprovalDenialResult(
+  toolName: string,
+  outcome: Exclude<TalkToolApprovalOutcome, 'approved'>,
+): string {
+  return outcome === 'expired'
+    ? `The user did not approve the ${toolName} call in time, so it was not run. Continue without it or ask the user to retry.`
+    : `The user denied the ${toolName} call, so it was not run. Continue without it.`;
+}
+
+/** API shape of an approval row, shared by the events and the routes. */
+export function toToolApprovalApi(record: TalkToolApprovalRecord) {
+  return {
+    id: record.id,
+    runId: record.run_id,
+    talkId: record.talk_id,
+    threadId: record.thread_id,
+    agentId: record.agent_id,
+    toolName: record.tool_name,
+    arguments: record.arguments_json,
+    actionSummary: record.action_summary,
+    status: record.status,
+    decidedAt: record.decided_at,
+    expiresAt: record.expires_at,
+    createdAt: record.created_at,
+  };
+}
+
+export type ToolApprovalApiRecord = ReturnType<typeof toToolApprovalApi>;
+
+/**
+ * Persist a pending tool call and park the run until it is decided.
+ * Resolves with the outcome; rejects with an AbortError if the run is
+ * cancelled while waiting.
+ */
+export async function awaitToolApproval(
+  input: TalkToolApprovalRequest & {
+    runId: string;
+    talkId: string;
+    threadId: string;
+    ownerId: string;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    pollIntervalMs?: number;
+  },
+): Promise<TalkToolApprovalOutcome> {
+  const timeoutMs = input.timeoutMs ?? TALK_TOOL_APPROVAL_TIMEOUT_MS;
+  const pollMs = input.pollIntervalMs ?? DEFAULT_APPROVAL_POLL_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  const record = await createTalkToolApproval({
+    id: input.approvalId,
+    runId: input.runId,
+    talkId: input.talkId,
+    threadId: input.threadId,
+    ownerId: input.ownerId,
+    agentId: input.agentId,
+    toolName: input.toolName,
+    arguments: input.arguments,
+    actionSummary: input.actionSummary,
+    expiresAt: new Date(deadline),
+  });
+  const parked = await setTalkRunAwaitingConfirmation(input.runId, true);
+  await emitOutboxEventOutsideTx({
+    topic: `talk:${input.talkId}`,
+    eventType: 'talk_tool_approval_requested',
+    payload: {
+      talkId: input.talkId,
+      threadId: input.threadId,
+      runId: input.runId,
+      approval: toToolApprovalApi(record),
+    },
+    ownerIds: [input.ownerId],
+  });
+
+  let outcome: TalkToolApprovalOutcome | null = null;
+  try {
+    while (outcome === null) {
+      if (!(await sleepUnlessAborted(pollMs, input.signal))) {
+        throw Object.assign(new Error('Agent execution was cancelled'), {
+          name: 'AbortError',
+        });
+      }
+      const status = await getTalkToolApprovalStatus(input.approvalId);
+      if (status === 'approved' || status === 'denied') {
+        outcome = status;
+      } else if (status !== 'pending') {
+        outcome = 'expired';
+      } else if (Date.now() >= deadline) {
+        // Lost the race to a last-moment decision: read it back.
+        if (!(await expireTalkToolApproval(input.approvalId))) continue;
+        outcome = 'expired';
+      }
+    }
+  } finally {
+    if (outcome === null) {
+      await expireTalkToolApproval(input.approvalId).catch(() => {});
+    }
+    if (parked) {
+      await setTalkRunAwaitingConfirmation(input.runId, false);
+    }
+    await emitOutboxEventOutsideTx({
+      topic: `talk:${input.talkId}`,
+      eventType: 'talk_tool_approval_resolved',
+      payload: {
+        talkId: input.talkId,
+        threadId: input.threadId,
+        runId: input.runId,
+        approvalId: input.approvalId,
+        status: outcome ?? 'expired',
+      },
+      ownerIds: [input.ownerId],
+    }).catch(() => {});
+  }
+  return outcome;
+}
+
+function sleepUnlessAborted(
+  ms: number,
+  signal: AbortSignal | undefined,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve(false);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
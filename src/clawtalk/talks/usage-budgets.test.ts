@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { UsageBudgetRecord } from '../db/usage-budget-accessors.js';
+import { TalkExecutorError } from './executor.js';
+import {
+  createRunBudgetGuard,
+  describeUsageBudgetBreach,
+  estimateUsageCostUsd,
+  evaluateUsageBudgets,
+  usageBudgetPeriodStart,
+} from './usage-budgets.js';
+
+function budget(overrides: Partial<UsageBudgetRecord>): UsageBudgetRecord {
+  return {
+    id: 'budget-1',
+    scope: 'workspace',
+    scope_id: null,
+    metric: 'tokens',
+    period: 'day',
+    soft_limit: null,
+    hard_limit: null,
+    owner_id: 'user-1',
+    workspace_id: 'workspace-1',
+    created_at: '2026-10-01T00:00:00.000Z',
+    updated_at: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('usageBudgetPeriodStart', () => {
+  it('starts days and months on the UTC calendar', () => {
+    const now = new Date('2026-10-19T23:30:00-07:00'); // 06:30Z on the 20th
+    expect(usageBudgetPeriodStart('day', now).toISOString()).toBe(
+      '2026-10-20T00:00:00.000Z',
+    );
+    expect(usageBudgetPeriodStart('month', now).toISOString()).toBe(
+      '2026-10-01T00:00:00.000Z',
+    );
+  });
+});
+
+describe('estimateUsageCostUsd', () => {
+  it('prices input and output tokens per million', () => {
+    expect(
+      estimateUsageCostUsd(
+        { inputUsdPerMtok: 3, outputUsdPerMtok: 15 },
+        { inputTokens: 10_000, outputTokens: 2_000 },
+      ),
+    ).toBe(0.06);
+  });
+
+  it('leaves unpriced models without a cost', () => {
+    expect(
+      estimateUsageCostUsd(undefined, { inputTokens: 10, outputTokens: 10 }),
+    ).toBeUndefined();
+    expect(
+      estimateUsageCostUsd(
+        { inputUsdPerMtok: 3, outputUsdPerMtok: null },
+        { inputTokens: 10, outputTokens: 10 },
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe('evaluateUsageBudgets', () => {
+  const tokens = budget({ id: 'tokens', soft_limit: 800, hard_limit: 1_000 });
+  const usd = budget({
+    id: 'usd',
+    scope: 'talk',
+    scope_id: 'talk-1',
+    metric: 'usd',
+    period: 'month',
+    hard_limit: 5,
+  });
+
+  it('adds the run usage to the period spend', () => {
+    const entries = [
+      { budget: tokens, spent: { tokens: 700, costUsd: 1 } },
+      { budget: usd, spent: { tokens: 700, costUsd: 4.5 } },
+    ];
+    expect(evaluateUsageBudgets(entries)).toEqual({
+      exceeded: null,
+      warnings: [],
+    });
+    expect(
+      evaluateUsageBudgets(entries, { tokens: 150, costUsd: 0.2 }).warnings,
+    ).toEqual([
+      expect.objectContaining({
+        budgetId: 'tokens',
+        level: 'soft',
+        spent: 850,
+      }),
+    ]);
+    expect(
+      evaluateUsageBudgets(entries, { tokens: 150, costUsd: 0.5 }).exceeded,
+    ).toEqual(
+      expect.objectContaining({ budgetId: 'usd', level: 'hard', limit: 5 }),
+    );
+  });
+
+  it('treats reaching the hard limit as exceeded', () => {
+    const result = evaluateUsageBudgets([
+      { budget: tokens, spent: { tokens: 1_000, costUsd: 0 } },
+    ]);
+    expect(result.exceeded?.budgetId).toBe('tokens');
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+describe('createRunBudgetGuard', () => {
+  it('warns once per budget and throws budget_exceeded at the hard limit', () => {
+    const onWarning = vi.fn();
+    const guard = createRunBudgetGuard({
+      entries: [
+        {
+          budget: budget({ soft_limit: 100, hard_limit: 200 }),
+          spent: { tokens: 50, costUsd: 0 },
+        },
+      ],
+      onWarning,
+    });
+    guard.check();
+    guard.check({ tokens: 60, costUsd: 0 });
+    guard.check({ tokens: 90, costUsd: 0 });
+    expect(onWarning).toHaveBeenCalledTimes(1);
+
+    let error: unknown;
+    try {
+      guard.check({ tokens: 150, costUsd: 0 });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(TalkExecutorError);
+    expect((error as TalkExecutorError).code).toBe('budget_exceeded');
+    expect((error as TalkExecutorError).message).toBe(
+      'Workspace daily usage budget of 200 tokens is used up (200 tokens spent).',
+    );
+    expect((error as TalkExecutorError).metadata).toEqual({
+      budget: expect.objectContaining({ budgetId: 'budget-1', limit: 200 }),
+    });
+  });
+});
+
+describe('describeUsageBudgetBreach', () => {
+  it('names the scope, period and amounts', () => {
+    expect(
+      describeUsageBudgetBreach({
+        budgetId: 'b',
+        scope: 'job',
+        scopeId: 'job-1',
+        metric: 'usd',
+        period: 'month',
+        level: 'soft',
+        limit: 40,
+        spent: 41.234,
+      }),
+    ).toBe(
+      'This job’s monthly usage has passed its warning threshold of $40.00 ($41.23 spent).',
+    );
+  });
+});
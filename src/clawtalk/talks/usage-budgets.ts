@@ -0,0 +1,203 @@
+// Usage budget enforcement (migration 0045).
+//
+// processTalkRunMessage checks the run's budgets once before dispatch,
+// and executeWithAgent calls the run's guard between tool-loop
+// iterations with the tokens the run has used so far (not yet in
+// llm_attempts — the attempt row is written on completion). A hard
+// limit stops the run with TalkExecutorError('budget_exceeded'); a soft
+// limit emits one talk_usage_budget_warning event per budget per run.
+
+import {
+  getRunUsageBudgetSpend,
+  listApplicableUsageBudgets,
+  type UsageBudgetMetric,
+  type UsageBudgetPeriod,
+  type UsageBudgetRecord,
+  type UsageBudgetScope,
+} from '../db/usage-budget-accessors.js';
+import { TalkExecutorError } from './executor.js';
+
+export const BUDGET_EXCEEDED_ERROR_CODE = 'budget_exceeded';
+
+export interface UsageAmount {
+  tokens: number;
+  costUsd: number;
+}
+
+export interface ModelPricing {
+  inputUsdPerMtok: number | null;
+  outputUsdPerMtok: number | null;
+}
+
+export interface UsageBudgetBreach {
+  budgetId: string;
+  scope: UsageBudgetScope;
+  scopeId: string | null;
+  metric: UsageBudgetMetric;
+  period: UsageBudgetPeriod;
+  level: 'soft' | 'hard';
+  limit: number;
+  spent: number;
+}
+
+export interface UsageBudgetEvaluation {
+  exceeded: UsageBudgetBreach | null;
+  warnings: UsageBudgetBreach[];
+}
+
+const ZERO_USAGE: UsageAmount = { tokens: 0, costUsd: 0 };
+
+/** Start of the current budget period, on the UTC calendar. */
+export function usageBudgetPeriodStart(
+  period: UsageBudgetPeriod,
+  now: Date,
+): Date {
+  return period === 'day'
+    ? new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+      )
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * USD estimate for one model's token usage. Undefined when the model
+ * has no pricing row, so the attempt records a null cost rather than a
+ * misleading zero.
+ */
+export function estimateUsageCostUsd(
+  pricing: ModelPricing | null | undefined,
+  usage: { inputTokens: number; outputTokens: number },
+): number | undefined {
+  if (
+    !pricing ||
+    pricing.inputUsdPerMtok === null ||
+    pricing.outputUsdPerMtok === null
+  ) {
+    return undefined;
+  }
+  const cost =
+    (usage.inputTokens * pricing.inputUsdPerMtok +
+      usage.outputTokens * pricing.outputUsdPerMtok) /
+    1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Compare each budget's period spend plus the run's in-flight usage
+ * against its limits. The first hard breach (in input order) wins;
+ * every soft breach without a hard breach on the same budget is a
+ * warning.
+ */
+export function evaluateUsageBudgets(
+  entries: Array<{ budget: UsageBudgetRecord; spent: UsageAmount }>,
+  pending: UsageAmount = ZERO_USAGE,
+): UsageBudgetEvaluation {
+  let exceeded: UsageBudgetBreach | null = null;
+  const warnings: UsageBudgetBreach[] = [];
+  for (const { budget, spent } of entries) {
+    const total =
+      budget.metric === 'tokens'
+        ? spent.tokens + pending.tokens
+        : spent.costUsd + pending.costUsd;
+    const breach = (level: 'soft' | 'hard', limit: number) => ({
+      budgetId: budget.id,
+      scope: budget.scope,
+      scopeId: budget.scope_id,
+      metric: budget.metric,
+      period: budget.period,
+      level,
+      limit,
+      spent: total,
+    });
+    if (budget.hard_limit !== null && total >= budget.hard_limit) {
+      exceeded ??= breach('hard', budget.hard_limit);
+    } else if (budget.soft_limit !== null && total >= budget.soft_limit) {
+      warnings.push(breach('soft', budget.soft_limit));
+    }
+  }
+  return { exceeded, warnings };
+}
+
+function formatBudgetAmount(metric: UsageBudgetMetric, value: number): string {
+  return metric === 'usd'
+    ? `$${value.toFixed(2)}`
+    : `${Math.round(value).toLocaleString('en-US')} tokens`;
+}
+
+/** User-facing message for a breach, used as the run's error message. */
+export function describeUsageBudgetBreach(breach: UsageBudgetBreach): string {
+  const scopeLabel =
+    breach.scope === 'workspace'
+      ? 'Workspace'
+      : breach.scope === 'user'
+        ? 'Your'
+        : breach.scope === 'talk'
+          ? 'This Talk’s'
+          : 'This job’s';
+  const periodLabel = breach.period === 'day' ? 'daily' : 'monthly';
+  const limit = formatBudgetAmount(breach.metric, breach.limit);
+  const spent = formatBudgetAmount(breach.metric, breach.spent);
+  return breach.level === 'hard'
+    ? `${scopeLabel} ${periodLabel} usage budget of ${limit} is used up (${spent} spent).`
+    : `${scopeLabel} ${periodLabel} usage has passed its warning threshold of ${limit} (${spent} spent).`;
+}
+
+export function budgetExceededError(
+  breach: UsageBudgetBreach,
+): TalkExecutorError {
+  return new TalkExecutorError(
+    BUDGET_EXCEEDED_ERROR_CODE,
+    describeUsageBudgetBreach(breach),
+    { metadata: { budget: breach } },
+  );
+}
+
+/**
+ * Load the run's budgets and their current period spend. Spend is read
+ * once per run; the guard adds the run's own usage on top.
+ */
+export async function loadRunUsageBudgets(input: {
+  runId: string;
+  ownerId: string;
+  talkId: string | null;
+  jobId: string | null;
+  now?: Date;
+}): Promise<Array<{ budget: UsageBudgetRecord; spent: UsageAmount }>> {
+  const budgets = await listApplicableUsageBudgets(input);
+  const now = input.now ?? new Date();
+  const entries: Array<{ budget: UsageBudgetRecord; spent: UsageAmount }> = [];
+  for (const budget of budgets) {
+    const spent = await getRunUsageBudgetSpend({
+      runId: input.runId,
+      budgetId: budget.id,
+      since: usageBudgetPeriodStart(budget.period, now),
+    });
+    entries.push({ budget, spent });
+  }
+  return entries;
+}
+
+/**
+ * Per-run budget state. `check` throws the budget_exceeded error on a
+ * hard breach and reports each soft breach the first time it is seen.
+ */
+export function createRunBudgetGuard(input: {
+  entries: Array<{ budget: UsageBudgetRecord; spent: UsageAmount }>;
+  onWarning: (breach: UsageBudgetBreach) => void;
+}): { check: (pending?: UsageAmount) => void } {
+  const warned = new Set<string>();
+  return {
+    check(pending = ZERO_USAGE) {
+      if (input.entries.length === 0) return;
+      const evaluation = evaluateUsageBudgets(input.entries, pending);
+      if (evaluation.exceeded) {
+        throw budgetExceededError(evaluation.exceeded);
+      }
+      for (const warning of evaluation.warnings) {
+        if (warned.has(warning.budgetId)) continue;
+        warned.add(warning.budgetId);
+        input.onWarning(warning);
+      }
+    },
+  };
+}
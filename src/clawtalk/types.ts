@@ -6,6 +6,7 @@ export type TalkRunStatus =
   | 'queued'
   | 'running'
   | 'awaiting_confirmation'
+  | 'paused'
   | 'cancelled'
   | 'completed'
   | 'failed';
@@ -2,6 +2,8 @@ import {
   canUserAccessTalk,
   canUserEditTalk,
   canUserEditTalkFromRecord,
+  canUserPostToTalk,
+  canUserPostToTalkFromRecord,
 } from '../../db/index.js';
 import type { TalkWithAccessRecord } from '../../db/index.js';
 
@@ -18,3 +20,13 @@ export function canEditTalkFromRecord(
 ): boolean {
   return canUserEditTalkFromRecord(talk);
 }
+
+export async function canPostToTalk(talkId: string): Promise<boolean> {
+  return canUserPostToTalk(talkId);
+}
+
+export function canPostToTalkFromRecord(
+  talk: TalkWithAccessRecord | undefined,
+): boolean {
+  return canUserPostToTalkFromRecord(talk);
+}
@@ -4,7 +4,8 @@ type RateLimitBucket =
   | 'read'
   | 'auth_start'
   | 'auth_callback'
-  | 'auth_sensitive';
+  | 'auth_sensitive'
+  | 'webhook';
 
 interface CounterState {
   count: number;
@@ -35,6 +36,9 @@ const LIMITS: Record<RateLimitBucket, number> = {
   auth_start: 30,
   auth_callback: 30,
   auth_sensitive: 10,
+  // Platform webhook deliveries (Slack / Telegram) — a busy channel can
+  // legitimately send bursts.
+  webhook: 600,
 };
 
 // Phase 0 limitation: rate-limit state is process-local memory.
@@ -4,11 +4,15 @@ import {
   clearAgentModelUpgradeNotice,
   createRegisteredAgent,
   deleteRegisteredAgent,
+  getFallbackSteps,
   getRegisteredAgent,
   listRegisteredAgents,
+  setFallbackSteps,
   toAgentSnapshot,
   updateRegisteredAgent,
+  type AgentFallbackStep,
   type RegisteredAgentCredentialMode,
+  type RegisteredAgentReasoningEffort,
   type RegisteredAgentRecord,
   type RegisteredAgentSnapshot,
 } from '../../db/agent-accessors.js';
@@ -25,6 +29,11 @@ import {
   type ProviderModelSupport,
 } from '../../agents/agent-model-support.js';
 import { resolveModelLifecycle } from '../../agents/model-lifecycle.js';
+import {
+  isReasoningEffort,
+  MAX_REASONING_BUDGET_TOKENS,
+  MIN_REASONING_BUDGET_TOKENS,
+} from '../../agents/reasoning.js';
 import { TALK_EXECUTOR_ANTHROPIC_API_KEY } from '../../config.js';
 import { modelSupportsVision } from '../../llm/capabilities.js';
 import type { ApiEnvelope, AuthContext } from '../types.js';
@@ -75,6 +84,13 @@ function isAdminLike(role: string): boolean {
 
 async function providerHasCredential(providerId: string): Promise<boolean> {
   const db = getDbPg();
+  // Keyless custom providers (auth scheme 'none') are always ready.
+  const keyless = await db<Array<{ ok: number }>>`
+    select 1 as ok from public.llm_providers
+    where id = ${providerId} and auth_scheme = 'none'
+    limit 1
+  `;
+  if (keyless.length > 0) return true;
   // llm_provider_secrets carries BOTH personal api_keys and personal
   // OAuth subscriptions (PR #330 added credential_kind). Same for the
   // workspace-shared table. Any row is enough — the execution-resolver
@@ -87,7 +103,8 @@ async function providerHasCredential(providerId: string): Promise<boolean> {
   if (personal.length > 0) return true;
   const workspace = await db<Array<{ ok: number }>>`
     select 1 as ok from public.workspace_provider_secrets
-    where provider_id = ${providerId}
+    where workspace_id = public.current_workspace_id()
+      and provider_id = ${providerId}
     limit 1
   `;
   if (workspace.length > 0) return true;
@@ -193,6 +210,52 @@ function readCredentialModeField(
   );
 }
 
+/**
+ * Parse the reasoning setting out of the request body: `reasoningEffort`
+ * ('off' / 'low' / 'medium' / 'high') or `reasoningBudgetTokens` (an
+ * explicit thinking budget). The two are exclusive, so sending one
+ * clears the other; null for both returns the agent to the provider
+ * default. Returns undefined when neither key is present (leave the
+ * columns unchanged on update). Throws a sentinel error for invalid
+ * values so the caller can map to a 400.
+ */
+class InvalidReasoningError extends Error {}
+function readReasoningFields(body: Record<string, unknown> | null):
+  | {
+      reasoningEffort: RegisteredAgentReasoningEffort | null;
+      reasoningBudgetTokens: number | null;
+    }
+  | undefined {
+  if (!body) return undefined;
+  if (!('reasoningEffort' in body) && !('reasoningBudgetTokens' in body)) {
+    return undefined;
+  }
+  const effort = body.reasoningEffort ?? null;
+  const budget = body.reasoningBudgetTokens ?? null;
+  if (effort !== null && !isReasoningEffort(effort)) {
+    throw new InvalidReasoningError(
+      "reasoningEffort must be 'off', 'low', 'medium', 'high', or null.",
+    );
+  }
+  if (
+    budget !== null &&
+    (typeof budget !== 'number' ||
+      !Number.isInteger(budget) ||
+      budget < MIN_REASONING_BUDGET_TOKENS ||
+      budget > MAX_REASONING_BUDGET_TOKENS)
+  ) {
+    throw new InvalidReasoningError(
+      `reasoningBudgetTokens must be an integer from ${MIN_REASONING_BUDGET_TOKENS} to ${MAX_REASONING_BUDGET_TOKENS}, or null.`,
+    );
+  }
+  if (effort !== null && budget !== null) {
+    throw new InvalidReasoningError(
+      'Set reasoningEffort or reasoningBudgetTokens, not both.',
+    );
+  }
+  return { reasoningEffort: effort, reasoningBudgetTokens: budget };
+}
+
 // ---------------------------------------------------------------------------
 // List / get
 // ---------------------------------------------------------------------------
@@ -372,6 +435,16 @@ export async function createAgentRoute(
       err instanceof Error ? err.message : 'Invalid credentialMode.',
     );
   }
+  let reasoning: ReturnType<typeof readReasoningFields>;
+  try {
+    reasoning = readReasoningFields(body);
+  } catch (err) {
+    return envelopeError(
+      400,
+      'invalid_input',
+      err instanceof Error ? err.message : 'Invalid reasoning setting.',
+    );
+  }
 
   return withUserContext(auth.userId, async () => {
     try {
@@ -384,6 +457,7 @@ export async function createAgentRoute(
         systemPrompt,
         description,
         credentialMode,
+        ...reasoning,
       });
       return envelopeOk(await toApiSnapshot(record));
     } catch (err) {
@@ -434,6 +508,15 @@ export async function updateAgentRoute(
       err instanceof Error ? err.message : 'Invalid credentialMode.',
     );
   }
+  try {
+    Object.assign(updates, readReasoningFields(body));
+  } catch (err) {
+    return envelopeError(
+      400,
+      'invalid_input',
+      err instanceof Error ? err.message : 'Invalid reasoning setting.',
+    );
+  }
 
   return withUserContext(auth.userId, async () => {
     if (!(await getRegisteredAgent(agentId))) {
@@ -565,32 +648,34 @@ export async function updateMainAgentRoute(
 }
 
 // ---------------------------------------------------------------------------
-// Fallback steps — Phase 2 keeps these as read-empty / write-noop so the
-// webapp routes don't 410. Wire real fallback when we revisit it.
+// Fallback steps — ordered provider/model pairs executeWithAgent walks
+// when the agent's model fails with a retryable error (agent-router.ts).
 // ---------------------------------------------------------------------------
 
+const MAX_FALLBACK_STEPS = 5;
+
 export async function getAgentFallbackRoute(
   auth: AuthContext,
   agentId: string,
 ): Promise<{
   statusCode: number;
-  body: ApiEnvelope<{ agentId: string; steps: [] }>;
+  body: ApiEnvelope<{ agentId: string; steps: AgentFallbackStep[] }>;
 }> {
   return withUserContext(auth.userId, async () => {
     if (!(await getRegisteredAgent(agentId))) {
       return envelopeError(404, 'not_found', `Agent '${agentId}' not found.`);
     }
-    return envelopeOk({ agentId, steps: [] as [] });
+    return envelopeOk({ agentId, steps: await getFallbackSteps(agentId) });
   });
 }
 
 export async function setAgentFallbackRoute(
   auth: AuthContext,
   agentId: string,
-  _body: Record<string, unknown> | null,
+  body: Record<string, unknown> | null,
 ): Promise<{
   statusCode: number;
-  body: ApiEnvelope<{ agentId: string; steps: [] }>;
+  body: ApiEnvelope<{ agentId: string; steps: AgentFallbackStep[] }>;
 }> {
   if (!isAdminLike(auth.role)) {
     return envelopeError(
@@ -599,10 +684,46 @@ export async function setAgentFallbackRoute(
       'You do not have permission to update agent fallback.',
     );
   }
+  const rawSteps = body?.steps;
+  if (!Array.isArray(rawSteps)) {
+    return envelopeError(400, 'invalid_input', 'steps must be an array.');
+  }
+  if (rawSteps.length > MAX_FALLBACK_STEPS) {
+    return envelopeError(
+      400,
+      'invalid_input',
+      `An agent can have at most ${MAX_FALLBACK_STEPS} fallback steps.`,
+    );
+  }
+  const steps: Array<{ providerId: string; modelId: string }> = [];
+  for (const raw of rawSteps) {
+    const step = (raw ?? {}) as Record<string, unknown>;
+    const providerId =
+      typeof step.providerId === 'string' ? step.providerId.trim() : '';
+    const modelId = typeof step.modelId === 'string' ? step.modelId.trim() : '';
+    if (!providerId || !modelId) {
+      return envelopeError(
+        400,
+        'invalid_input',
+        'Each fallback step needs a providerId and modelId.',
+      );
+    }
+    steps.push({ providerId, modelId });
+  }
+
   return withUserContext(auth.userId, async () => {
     if (!(await getRegisteredAgent(agentId))) {
       return envelopeError(404, 'not_found', `Agent '${agentId}' not found.`);
     }
-    return envelopeOk({ agentId, steps: [] as [] });
+    try {
+      await setFallbackSteps({ ownerId: auth.userId, agentId, steps });
+    } catch (err) {
+      return envelopeError(
+        400,
+        'invalid_input',
+        err instanceof Error ? err.message : 'Failed to set fallback steps.',
+      );
+    }
+    return envelopeOk({ agentId, steps: await getFallbackSteps(agentId) });
   });
 }
@@ -97,7 +97,7 @@ async function persistSubscriptionCredential(input: {
         ${encryptedRefresh}, ${input.expiresAtIso}::timestamptz,
         ${input.userId}::uuid
       )
-      on conflict (provider_id, credential_kind) do update set
+      on conflict (workspace_id, provider_id, credential_kind) do update set
         ciphertext = excluded.ciphertext,
         encrypted_refresh_token = excluded.encrypted_refresh_token,
         expires_at = excluded.expires_at,
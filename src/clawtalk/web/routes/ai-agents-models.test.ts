@@ -76,4 +76,28 @@ describe('buildModelSuggestions', () => {
     });
     expect(out.map((m) => m.modelId)).toEqual(['moonshotai/kimi-k2.6']);
   });
+
+  it('applies admin capability overrides from curated custom-provider rows', () => {
+    const out = buildModelSuggestions(
+      'custom.0c777703-eeee-4eee-8eee-eeeeeeeee0a1',
+      [
+        {
+          provider_id: 'custom.0c777703-eeee-4eee-8eee-eeeeeeeee0a1',
+          model_id: 'qwen3:32b',
+          display_name: 'Qwen3 32B',
+          context_window_tokens: 40_960,
+          default_max_output_tokens: 8_192,
+          default_ttft_timeout_ms: null,
+          supports_tools: true,
+          supports_vision: null,
+        },
+      ],
+      null,
+    );
+    expect(out[0]).toMatchObject({
+      contextWindowTokens: 40_960,
+      supportsTools: true,
+      supportsVision: false,
+    });
+  });
 });
@@ -25,6 +25,16 @@ import {
   encryptProviderSecret,
 } from '../../llm/provider-secret-store.js';
 import { resolveModelCapabilities } from '../../llm/capabilities.js';
+import {
+  discoverCustomProviderModels,
+  invalidateCustomProviderDiscovery,
+} from '../../agents/custom-provider-discovery.js';
+import { isCustomProviderId } from '../../db/custom-provider-accessors.js';
+import {
+  assertOutboundUrlAllowed,
+  OutboundUrlError,
+} from '../../security/outbound-url.js';
+import { CUSTOM_PROVIDER_PRIVATE_HOSTS } from '../../config.js';
 import type { ApiEnvelope, AuthContext } from '../types.js';
 
 type AdditionalProviderVerificationStatus =
@@ -49,11 +59,18 @@ export type ProviderCredentialScope = 'user' | 'workspace';
 export type AgentProviderCard = {
   id: string;
   name: string;
-  providerKind: 'anthropic' | 'openai' | 'gemini' | 'nvidia';
-  apiFormat: 'anthropic_messages' | 'openai_chat_completions';
+  providerKind: 'anthropic' | 'openai' | 'gemini' | 'nvidia' | 'custom';
+  apiFormat:
+    | 'anthropic_messages'
+    | 'openai_chat_completions'
+    | 'codex_responses'
+    | 'gemini_generate_content';
   baseUrl: string;
-  authScheme: 'x_api_key' | 'bearer';
+  authScheme: 'x_api_key' | 'bearer' | 'none';
   enabled: boolean;
+  // Workspace-defined provider (migration 0050). Admins can edit or
+  // delete it and replace its model list.
+  isCustom: boolean;
   credentialMode: 'api_key' | 'subscription_only';
   hasCredential: boolean;
   credentialHint: string | null;
@@ -84,8 +101,9 @@ export type AgentProviderCard = {
     supportsVision: boolean;
   }>;
   // Only populated for providers that support live model discovery
-  // (NVIDIA today). Reflects the last call to the provider's /v1/models
-  // endpoint using whichever credential the cards were built with.
+  // (NVIDIA, Anthropic and custom providers). Reflects the last call to
+  // the provider's /models endpoint using whichever credential the cards
+  // were built with.
   liveModelDiscovery?: {
     status: 'ok' | 'auth_error' | 'unavailable' | 'rate_limited';
     message?: string;
@@ -111,11 +129,16 @@ function parseScope(value: unknown): ProviderCredentialScope {
 interface ProviderRow {
   id: string;
   name: string;
-  provider_kind: 'anthropic' | 'openai' | 'gemini' | 'nvidia';
-  api_format: 'anthropic_messages' | 'openai_chat_completions';
+  provider_kind: 'anthropic' | 'openai' | 'gemini' | 'nvidia' | 'custom';
+  api_format:
+    | 'anthropic_messages'
+    | 'openai_chat_completions'
+    | 'codex_responses'
+    | 'gemini_generate_content';
   base_url: string;
-  auth_scheme: 'x_api_key' | 'bearer';
+  auth_scheme: 'x_api_key' | 'bearer' | 'none';
   enabled: boolean;
+  workspace_id: string | null;
   response_start_timeout_ms: number | null;
   stream_idle_timeout_ms: number | null;
   absolute_timeout_ms: number | null;
@@ -128,6 +151,8 @@ interface ProviderModelRow {
   context_window_tokens: number;
   default_max_output_tokens: number;
   default_ttft_timeout_ms: number | null;
+  supports_tools?: boolean | null;
+  supports_vision?: boolean | null;
 }
 
 interface ProviderVerificationRow {
@@ -231,28 +256,36 @@ async function listAdditionalProviderRows(): Promise<ProviderRow[]> {
   const db = getDbPg();
   const rows = await db<ProviderRow[]>`
     select id, name, provider_kind, api_format, base_url, auth_scheme,
-           enabled, response_start_timeout_ms, stream_idle_timeout_ms,
-           absolute_timeout_ms
+           enabled, workspace_id, response_start_timeout_ms,
+           stream_idle_timeout_ms, absolute_timeout_ms
     from public.llm_providers
-    where enabled = true and id = any(${BUILTIN_ADDITIONAL_PROVIDER_IDS})
+    where enabled = true
+      and (
+        id = any(${BUILTIN_ADDITIONAL_PROVIDER_IDS})
+        or workspace_id = public.current_workspace_id()
+      )
   `;
 
+  // Builtins in catalog order, then the workspace's custom providers by
+  // name.
   return rows.sort(
     (left, right) =>
       (BUILTIN_ADDITIONAL_PROVIDER_ORDER.get(left.id) ?? 999) -
-      (BUILTIN_ADDITIONAL_PROVIDER_ORDER.get(right.id) ?? 999),
+        (BUILTIN_ADDITIONAL_PROVIDER_ORDER.get(right.id) ?? 999) ||
+      left.name.localeCompare(right.name),
   );
 }
 
-async function listAdditionalProviderModels(): Promise<
-  Map<string, ProviderModelRow[]>
-> {
+async function listAdditionalProviderModels(
+  providerIds: string[],
+): Promise<Map<string, ProviderModelRow[]>> {
   const db = getDbPg();
   const rows = await db<ProviderModelRow[]>`
     select provider_id, model_id, display_name, context_window_tokens,
-           default_max_output_tokens, default_ttft_timeout_ms
+           default_max_output_tokens, default_ttft_timeout_ms,
+           supports_tools, supports_vision
     from public.llm_provider_models
-    where provider_id = any(${BUILTIN_ADDITIONAL_PROVIDER_IDS})
+    where provider_id = any(${providerIds})
       and enabled = true
     order by provider_id asc, display_name asc
   `;
@@ -266,12 +299,14 @@ async function listAdditionalProviderModels(): Promise<
   return byProvider;
 }
 
-async function listProviderSecrets(): Promise<Map<string, LlmSecret | null>> {
+async function listProviderSecrets(
+  providerIds: string[],
+): Promise<Map<string, LlmSecret | null>> {
   const db = getDbPg();
   const rows = await db<Array<{ provider_id: string; ciphertext: string }>>`
     select provider_id, ciphertext
     from public.llm_provider_secrets
-    where provider_id = any(${BUILTIN_ADDITIONAL_PROVIDER_IDS})
+    where provider_id = any(${providerIds})
       and credential_kind = 'api_key'
   `;
 
@@ -286,9 +321,9 @@ async function listProviderSecrets(): Promise<Map<string, LlmSecret | null>> {
   return new Map(entries);
 }
 
-async function listProviderVerifications(): Promise<
-  Map<string, ProviderVerificationRow>
-> {
+async function listProviderVerifications(
+  providerIds: string[],
+): Promise<Map<string, ProviderVerificationRow>> {
   const db = getDbPg();
   const rows = await db<
     Array<{
@@ -300,7 +335,7 @@ async function listProviderVerifications(): Promise<
   >`
     select provider_id, status, last_verified_at, last_error
     from public.llm_provider_verifications
-    where provider_id = any(${BUILTIN_ADDITIONAL_PROVIDER_IDS})
+    where provider_id = any(${providerIds})
       and credential_kind = 'api_key'
   `;
 
@@ -316,14 +351,15 @@ async function listProviderVerifications(): Promise<
   );
 }
 
-async function listWorkspaceProviderSecrets(): Promise<
-  Map<string, LlmSecret | null>
-> {
+async function listWorkspaceProviderSecrets(
+  providerIds: string[],
+): Promise<Map<string, LlmSecret | null>> {
   const db = getDbPg();
   const rows = await db<Array<{ provider_id: string; ciphertext: string }>>`
     select provider_id, ciphertext
     from public.workspace_provider_secrets
-    where provider_id = any(${BUILTIN_ADDITIONAL_PROVIDER_IDS})
+    where workspace_id = public.current_workspace_id()
+      and provider_id = any(${providerIds})
       and credential_kind = 'api_key'
   `;
 
@@ -338,9 +374,9 @@ async function listWorkspaceProviderSecrets(): Promise<
   return new Map(entries);
 }
 
-async function listPersonalSubscriptionMetadata(): Promise<
-  Map<string, { expiresAt: string | null }>
-> {
+async function listPersonalSubscriptionMetadata(
+  providerIds: string[],
+): Promise<Map<string, { expiresAt: string | null }>> {
   const db = getDbPg();
   const rows = await db<
     Array<{ provider_id: string; expires_at: string | null }>
@@ -348,33 +384,34 @@ async function listPersonalSubscriptionMetadata(): Promise<
     select provider_id, expires_at::text as expires_at
     from public.llm_provider_secrets
     where credential_kind = 'subscription'
-      and provider_id = any(${BUILTIN_ADDITIONAL_PROVIDER_IDS})
+      and provider_id = any(${providerIds})
   `;
   return new Map(
     rows.map((row) => [row.provider_id, { expiresAt: row.expires_at }]),
   );
 }
 
-async function listWorkspaceSubscriptionMetadata(): Promise<
-  Map<string, { expiresAt: string | null }>
-> {
+async function listWorkspaceSubscriptionMetadata(
+  providerIds: string[],
+): Promise<Map<string, { expiresAt: string | null }>> {
   const db = getDbPg();
   const rows = await db<
     Array<{ provider_id: string; expires_at: string | null }>
   >`
     select provider_id, expires_at::text as expires_at
     from public.workspace_provider_secrets
-    where credential_kind = 'subscription'
-      and provider_id = any(${BUILTIN_ADDITIONAL_PROVIDER_IDS})
+    where workspace_id = public.current_workspace_id()
+      and credential_kind = 'subscription'
+      and provider_id = any(${providerIds})
   `;
   return new Map(
     rows.map((row) => [row.provider_id, { expiresAt: row.expires_at }]),
   );
 }
 
-async function listWorkspaceProviderVerifications(): Promise<
-  Map<string, ProviderVerificationRow>
-> {
+async function listWorkspaceProviderVerifications(
+  providerIds: string[],
+): Promise<Map<string, ProviderVerificationRow>> {
   const db = getDbPg();
   const rows = await db<
     Array<{
@@ -386,7 +423,8 @@ async function listWorkspaceProviderVerifications(): Promise<
   >`
     select provider_id, status, last_verified_at, last_error
     from public.workspace_provider_verifications
-    where provider_id = any(${BUILTIN_ADDITIONAL_PROVIDER_IDS})
+    where workspace_id = public.current_workspace_id()
+      and provider_id = any(${providerIds})
       and credential_kind = 'api_key'
   `;
 
@@ -404,16 +442,18 @@ async function listWorkspaceProviderVerifications(): Promise<
 
 async function buildAdditionalProviderCards(): Promise<AgentProviderCard[]> {
   const providerRows = await listAdditionalProviderRows();
-  const modelsByProvider = await listAdditionalProviderModels();
-  const secretsByProvider = await listProviderSecrets();
-  const verificationsByProvider = await listProviderVerifications();
-  const workspaceSecretsByProvider = await listWorkspaceProviderSecrets();
+  const providerIds = providerRows.map((provider) => provider.id);
+  const modelsByProvider = await listAdditionalProviderModels(providerIds);
+  const secretsByProvider = await listProviderSecrets(providerIds);
+  const verificationsByProvider = await listProviderVerifications(providerIds);
+  const workspaceSecretsByProvider =
+    await listWorkspaceProviderSecrets(providerIds);
   const workspaceVerificationsByProvider =
-    await listWorkspaceProviderVerifications();
+    await listWorkspaceProviderVerifications(providerIds);
   const personalSubscriptionsByProvider =
-    await listPersonalSubscriptionMetadata();
+    await listPersonalSubscriptionMetadata(providerIds);
   const workspaceSubscriptionsByProvider =
-    await listWorkspaceSubscriptionMetadata();
+    await listWorkspaceSubscriptionMetadata(providerIds);
 
   // Live model discovery. Workspace credential wins so the team sees the
   // shared catalog; falls back to the per-user credential if no workspace
@@ -425,6 +465,9 @@ async function buildAdditionalProviderCards(): Promise<AgentProviderCard[]> {
   // picker automatically — no migration. It needs an Anthropic API key
   // (the subscription/OAuth token is scoped to /v1/messages); without one
   // it degrades to the curated rows.
+  //
+  // Custom providers all serve the OpenAI /models shape; keyless ones
+  // (auth_scheme 'none') are discovered without a credential.
   const credentialFor = (providerId: string): string | null =>
     workspaceSecretsByProvider.get(providerId)?.apiKey ??
     secretsByProvider.get(providerId)?.apiKey ??
@@ -432,10 +475,34 @@ async function buildAdditionalProviderCards(): Promise<AgentProviderCard[]> {
   const nvidiaKey = credentialFor(NVIDIA_PROVIDER_ID);
   const anthropicKey = credentialFor(ANTHROPIC_PROVIDER_ID);
   const cache = getDefaultCache();
-  const [nvidiaDiscovery, anthropicDiscovery] = await Promise.all([
-    nvidiaKey ? discoverNvidiaModels(nvidiaKey, { cache }) : null,
-    anthropicKey ? discoverAnthropicModels(anthropicKey, { cache }) : null,
-  ]);
+  const customProviders = providerRows.filter(
+    (provider) => provider.workspace_id !== null,
+  );
+  const [nvidiaDiscovery, anthropicDiscovery, ...customDiscoveries] =
+    await Promise.all([
+      nvidiaKey ? discoverNvidiaModels(nvidiaKey, { cache }) : null,
+      anthropicKey ? discoverAnthropicModels(anthropicKey, { cache }) : null,
+      ...customProviders.map((provider) => {
+        const apiKey = credentialFor(provider.id);
+        if (!apiKey && provider.auth_scheme !== 'none') return null;
+        return discoverCustomProviderModels(
+          {
+            id: provider.id,
+            name: provider.name,
+            baseUrl: provider.base_url,
+            authScheme: provider.auth_scheme,
+          },
+          apiKey,
+          { cache },
+        );
+      }),
+    ]);
+  const customDiscoveryByProvider = new Map(
+    customProviders.map((provider, index) => [
+      provider.id,
+      customDiscoveries[index] ?? null,
+    ]),
+  );
 
   // Discovery returns the RAW Claude list (authoritative — used for
   // retirement checks elsewhere). For the picker we hide superseded legacy
@@ -453,7 +520,7 @@ async function buildAdditionalProviderCards(): Promise<AgentProviderCard[]> {
   const discoveryFor = (providerId: string): DiscoveryResult | null => {
     if (providerId === NVIDIA_PROVIDER_ID) return nvidiaDiscovery;
     if (providerId === ANTHROPIC_PROVIDER_ID) return anthropicPickerDiscovery;
-    return null;
+    return customDiscoveryByProvider.get(providerId) ?? null;
   };
 
   return providerRows.map((provider) => {
@@ -481,7 +548,9 @@ async function buildAdditionalProviderCards(): Promise<AgentProviderCard[]> {
       credentialMode === 'api_key'
         ? workspaceVerificationsByProvider.get(provider.id)
         : undefined;
-    const hasCredential = !!secret;
+    // Keyless providers are always usable; only the verification status
+    // says whether the server answered.
+    const hasCredential = !!secret || provider.auth_scheme === 'none';
     const verificationStatus: AdditionalProviderVerificationStatus =
       !hasCredential ? 'missing' : (verification?.status ?? 'not_verified');
     const credentialHint = secret ? maskApiKey(secret.apiKey) : null;
@@ -510,6 +579,7 @@ async function buildAdditionalProviderCards(): Promise<AgentProviderCard[]> {
       baseUrl: provider.base_url,
       authScheme: provider.auth_scheme,
       enabled: provider.enabled,
+      isCustom: provider.workspace_id !== null,
       credentialMode,
       hasCredential,
       credentialHint,
@@ -561,6 +631,7 @@ async function buildAdditionalProviderCards(): Promise<AgentProviderCard[]> {
  * curated set by modelId. A discovered model uses the provider-supplied
  * displayName when present (Anthropic returns one) and falls back to the
  * raw modelId otherwise (NVIDIA's /v1/models has no friendly label).
+ * Curated rows apply their admin capability overrides, if any.
  *
  * Exported for unit testing.
  */
@@ -577,6 +648,7 @@ export function buildModelSuggestions(
     const capabilities = resolveModelCapabilities({
       providerId,
       modelId: model.model_id,
+      overrides: model,
     });
     suggestions.push({
       modelId: model.model_id,
@@ -624,16 +696,21 @@ export async function buildAiAgentsPageData(): Promise<AiAgentsPageData> {
 async function getAdditionalProvider(
   providerId: string,
 ): Promise<ProviderRow | null> {
-  if (!BUILTIN_ADDITIONAL_PROVIDER_IDS.includes(providerId)) {
+  if (
+    !BUILTIN_ADDITIONAL_PROVIDER_IDS.includes(providerId) &&
+    !isCustomProviderId(providerId)
+  ) {
     return null;
   }
   const db = getDbPg();
   const rows = await db<ProviderRow[]>`
     select id, name, provider_kind, api_format, base_url, auth_scheme,
-           enabled, response_start_timeout_ms, stream_idle_timeout_ms,
-           absolute_timeout_ms
+           enabled, workspace_id, response_start_timeout_ms,
+           stream_idle_timeout_ms, absolute_timeout_ms
     from public.llm_providers
     where id = ${providerId} and enabled = true
+      and (workspace_id is null
+           or workspace_id = public.current_workspace_id())
   `;
   return rows[0] ?? null;
 }
@@ -698,7 +775,7 @@ async function upsertWorkspaceProviderVerification(
       ${providerId}, 'api_key', ${result.status},
       ${result.lastVerifiedAt}::timestamptz, ${result.lastError}
     )
-    on conflict (provider_id, credential_kind) do update set
+    on conflict (workspace_id, provider_id, credential_kind) do update set
       status = excluded.status,
       last_verified_at = excluded.last_verified_at,
       last_error = excluded.last_error,
@@ -712,7 +789,8 @@ async function deleteWorkspaceProviderVerification(
   const db = getDbPg();
   await db`
     delete from public.workspace_provider_verifications
-    where provider_id = ${providerId}
+    where workspace_id = public.current_workspace_id()
+      and provider_id = ${providerId}
       and credential_kind = 'api_key'
   `;
 }
@@ -813,7 +891,8 @@ async function verifyProviderSecret(
     scope === 'workspace'
       ? await db<Array<{ ciphertext: string }>>`
           select ciphertext from public.workspace_provider_secrets
-          where provider_id = ${providerId}
+          where workspace_id = public.current_workspace_id()
+            and provider_id = ${providerId}
             and credential_kind = 'api_key'
         `
       : await db<Array<{ ciphertext: string }>>`
@@ -821,9 +900,14 @@ async function verifyProviderSecret(
           where provider_id = ${providerId}
             and credential_kind = 'api_key'
         `;
-  const secret = secretRows[0]
-    ? await parseStoredSecret(secretRows[0].ciphertext)
-    : null;
+  // Keyless custom providers are verified with an empty key, which the
+  // LLM client sends without an auth header.
+  const secret: LlmSecret | null =
+    provider.auth_scheme === 'none'
+      ? { apiKey: '' }
+      : secretRows[0]
+        ? await parseStoredSecret(secretRows[0].ciphertext)
+        : null;
   if (!secret) {
     await dropVerification();
     return;
@@ -840,6 +924,22 @@ async function verifyProviderSecret(
     return;
   }
 
+  if (provider.workspace_id !== null) {
+    try {
+      await assertOutboundUrlAllowed(provider.base_url, {
+        privateHosts: CUSTOM_PROVIDER_PRIVATE_HOSTS,
+      });
+    } catch (error) {
+      if (!(error instanceof OutboundUrlError)) throw error;
+      await writeVerification({
+        status: 'unavailable',
+        lastVerifiedAt: null,
+        lastError: error.message,
+      });
+      return;
+    }
+  }
+
   const controller = new AbortController();
   const timer = setTimeout(() => {
     controller.abort('provider_verify_timeout');
@@ -868,7 +968,7 @@ async function verifyProviderSecret(
   }
 }
 
-async function getProviderCardOrNotFound(providerId: string): Promise<{
+export async function getProviderCardOrNotFound(providerId: string): Promise<{
   statusCode: number;
   body: ApiEnvelope<{ provider: AgentProviderCard }>;
 }> {
@@ -1045,7 +1145,8 @@ export async function putAiProviderCredentialRoute(
       if (scope === 'workspace') {
         await db`
           delete from public.workspace_provider_secrets
-          where provider_id = ${providerId}
+          where workspace_id = public.current_workspace_id()
+            and provider_id = ${providerId}
             and credential_kind = 'api_key'
         `;
         await deleteWorkspaceProviderVerification(providerId);
@@ -1072,7 +1173,7 @@ export async function putAiProviderCredentialRoute(
         values (
           ${providerId}, 'api_key', ${ciphertext}, ${auth.userId}::uuid
         )
-        on conflict (provider_id, credential_kind) do update set
+        on conflict (workspace_id, provider_id, credential_kind) do update set
           ciphertext = excluded.ciphertext,
           updated_by = excluded.updated_by,
           updated_at = now()
@@ -1102,6 +1203,12 @@ export async function putAiProviderCredentialRoute(
         await invalidateNvidiaDiscovery(apiKey, getDefaultCache());
       } else if (providerId === ANTHROPIC_PROVIDER_ID) {
         await invalidateAnthropicDiscovery(apiKey, getDefaultCache());
+      } else if (isCustomProviderId(providerId)) {
+        await invalidateCustomProviderDiscovery(
+          providerId,
+          apiKey,
+          getDefaultCache(),
+        );
       }
     }
     return getProviderCardOrNotFound(providerId);
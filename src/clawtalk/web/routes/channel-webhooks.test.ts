@@ -0,0 +1,223 @@
+// Route-level tests for the inbound channel webhooks.
+//
+// Signature checks and the DB accessors are mocked; these cover the
+// response each platform gets and that Slack and Discord ingestion runs
+// through `defer`, after the response.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../config.js', async () => {
+  const actual =
+    await vi.importActual<typeof import('../../config.js')>('../../config.js');
+  return { ...actual, SLACK_SIGNING_SECRET: 'test-signing-secret' };
+});
+
+vi.mock('../../connectors/channel-inbound.js', async () => {
+  const actual = await vi.importActual<
+    typeof import('../../connectors/channel-inbound.js')
+  >('../../connectors/channel-inbound.js');
+  return {
+    ...actual,
+    verifySlackSignature: vi.fn(async () => true),
+    verifyDiscordSignature: vi.fn(async () => true),
+    ingestInboundChannelMessage: vi.fn(),
+  };
+});
+
+vi.mock('../../connectors/discord-client.js', async () => {
+  const actual = await vi.importActual<
+    typeof import('../../connectors/discord-client.js')
+  >('../../connectors/discord-client.js');
+  return { ...actual, createDiscordInteractionFollowup: vi.fn() };
+});
+
+vi.mock('../../db/connectors-accessors.js', () => ({
+  decryptWorkspaceChannelCredential: vi.fn(),
+  getWorkspaceChannel: vi.fn(),
+  listEnabledSlackChannelsForTarget: vi.fn(),
+  updateWorkspaceChannel: vi.fn(),
+}));
+
+vi.mock('../../db/slack-installs-accessors.js', () => ({
+  getWorkspaceSlackInstall: vi.fn(),
+}));
+
+import {
+  handleDiscordInteraction,
+  handleSlackEventsWebhook,
+} from './channel-webhooks.js';
+import { ingestInboundChannelMessage } from '../../connectors/channel-inbound.js';
+import { createDiscordInteractionFollowup } from '../../connectors/discord-client.js';
+import {
+  decryptWorkspaceChannelCredential,
+  getWorkspaceChannel,
+  listEnabledSlackChannelsForTarget,
+} from '../../db/connectors-accessors.js';
+import { getWorkspaceSlackInstall } from '../../db/slack-installs-accessors.js';
+
+const CHANNEL_ID = '0c0d0d0d-1111-1111-1111-111111111111';
+
+const ingestMock = vi.mocked(ingestInboundChannelMessage);
+const followupMock = vi.mocked(createDiscordInteractionFollowup);
+const credentialMock = vi.mocked(decryptWorkspaceChannelCredential);
+const getChannelMock = vi.mocked(getWorkspaceChannel);
+const listSlackChannelsMock = vi.mocked(listEnabledSlackChannelsForTarget);
+const getInstallMock = vi.mocked(getWorkspaceSlackInstall);
+
+function collectDeferred(): {
+  defer: (work: () => Promise<void>) => void;
+  run: () => Promise<void>;
+} {
+  const pending: Array<() => Promise<void>> = [];
+  return {
+    defer: (work) => {
+      pending.push(work);
+    },
+    run: async () => {
+      for (const work of pending.splice(0)) await work();
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('handleSlackEventsWebhook', () => {
+  it('acknowledges an event before looking up or ingesting it', async () => {
+    const channel = { id: CHANNEL_ID, kind: 'slack' };
+    getInstallMock.mockResolvedValue({ bot_user_id: 'UBOT' } as never);
+    listSlackChannelsMock.mockResolvedValue([channel] as never);
+    ingestMock.mockResolvedValue([]);
+    const deferred = collectDeferred();
+
+    const result = await handleSlackEventsWebhook({
+      rawBody: JSON.stringify({
+        type: 'event_callback',
+        team_id: 'T1',
+        event: {
+          type: 'message',
+          channel: 'C1',
+          user: 'U1',
+          text: 'hello',
+          ts: '1700000000.000100',
+        },
+      }),
+      timestamp: '1700000000',
+      signature: 'v0=sig',
+      defer: deferred.defer,
+    });
+
+    expect(result).toEqual({
+      statusCode: 200,
+      body: { ok: true, data: { accepted: true } },
+    });
+    expect(getInstallMock).not.toHaveBeenCalled();
+    expect(ingestMock).not.toHaveBeenCalled();
+
+    await deferred.run();
+    expect(getInstallMock).toHaveBeenCalledWith('T1');
+    expect(ingestMock).toHaveBeenCalledWith(
+      expect.objectContaining({ channel }),
+    );
+  });
+
+  it('answers url_verification without deferring work', async () => {
+    const result = await handleSlackEventsWebhook({
+      rawBody: JSON.stringify({ type: 'url_verification', challenge: 'abc' }),
+      timestamp: '1700000000',
+      signature: 'v0=sig',
+      defer: () => {
+        throw new Error('nothing to defer');
+      },
+    });
+    expect(result).toEqual({ statusCode: 200, body: { challenge: 'abc' } });
+  });
+});
+
+describe('handleDiscordInteraction', () => {
+  const channel = {
+    id: CHANNEL_ID,
+    kind: 'discord',
+    enabled: true,
+    config_json: { public_key: 'abcd', channel_id: '222' },
+  };
+  const askInteraction = {
+    type: 2,
+    id: '1200000000000000000',
+    application_id: '333',
+    token: 'interaction-token',
+    channel_id: '222',
+    data: {
+      name: 'ask',
+      options: [{ name: 'prompt', value: 'What changed?' }],
+    },
+    member: { user: { id: '444', username: 'asker' } },
+  };
+
+  beforeEach(() => {
+    getChannelMock.mockResolvedValue(channel as never);
+  });
+
+  it('answers a PING with a PONG', async () => {
+    const result = await handleDiscordInteraction({
+      channelId: CHANNEL_ID,
+      rawBody: JSON.stringify({ type: 1 }),
+      signature: 'sig',
+      timestamp: '1700000000',
+      defer: collectDeferred().defer,
+    });
+    expect(result).toEqual({ statusCode: 200, body: { type: 1 } });
+  });
+
+  it('quotes the prompt before ingesting it', async () => {
+    ingestMock.mockResolvedValue([
+      { talkId: 'talk-1', outcome: 'enqueued', runIds: ['run-1'] },
+    ]);
+    const deferred = collectDeferred();
+
+    const result = await handleDiscordInteraction({
+      channelId: CHANNEL_ID,
+      rawBody: JSON.stringify(askInteraction),
+      signature: 'sig',
+      timestamp: '1700000000',
+      defer: deferred.defer,
+    });
+
+    expect(result).toEqual({
+      statusCode: 200,
+      body: {
+        type: 4,
+        data: { content: '> What changed?', allowed_mentions: { parse: [] } },
+      },
+    });
+    expect(ingestMock).not.toHaveBeenCalled();
+
+    await deferred.run();
+    expect(ingestMock).toHaveBeenCalledTimes(1);
+    expect(followupMock).not.toHaveBeenCalled();
+  });
+
+  it('follows up ephemerally when no run was started', async () => {
+    ingestMock.mockResolvedValue([]);
+    credentialMock.mockResolvedValue({ apiKey: 'bot-token' } as never);
+    const deferred = collectDeferred();
+
+    await handleDiscordInteraction({
+      channelId: CHANNEL_ID,
+      rawBody: JSON.stringify(askInteraction),
+      signature: 'sig',
+      timestamp: '1700000000',
+      defer: deferred.defer,
+    });
+    await deferred.run();
+
+    expect(followupMock).toHaveBeenCalledWith({
+      botToken: 'bot-token',
+      applicationId: '333',
+      interactionToken: 'interaction-token',
+      content: 'This Discord channel is not linked to any ClawTalk Talk yet.',
+      ephemeral: true,
+    });
+  });
+});
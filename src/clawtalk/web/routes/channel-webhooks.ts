@@ -0,0 +1,609 @@
+// Inbound channel webhook routes.
+//
+// Public (no JWT) endpoints the platforms call:
+//   POST /api/v1/webhooks/slack/events         — Slack Events API, verified
+//                                                 with SLACK_SIGNING_SECRET
+//   POST /api/v1/webhooks/telegram/:channelId  — Telegram setWebhook target,
+//                                                 verified with the
+//                                                 per-channel secret token
+//   POST /api/v1/webhooks/discord/:channelId   — Discord interactions
+//                                                 endpoint, verified with
+//                                                 the application's
+//                                                 Ed25519 public key
+//
+// plus the admin routes that point a bot at the last two:
+//   POST /api/v1/workspace/channels/:channelId/telegram/webhook
+//   POST /api/v1/workspace/channels/:channelId/discord/interactions
+//
+// Webhook handlers answer 200 for anything authentic they choose not to
+// act on (unknown team, unlinked channel, bot echo) so the platform
+// doesn't retry it. Only signature failures and malformed bodies get a
+// 4xx. Discord is the exception in shape, not spirit: every interaction
+// needs an interaction response, so the ones we don't act on get a
+// short ephemeral note instead of a bare 200. Ingestion itself lives in
+// connectors/channel-inbound.ts.
+//
+// Slack and Discord drop a request that isn't answered within three
+// seconds (Slack then retries it), and ingestion can take longer than
+// that. Their handlers answer once the request is verified and hand the
+// ingestion to `defer`, which the Worker runs after the response under
+// `executionCtx.waitUntil`.
+
+import {
+  type DbScopeEnvBindings,
+  type RequestExecutionContext,
+  withRequestScopedDb,
+  withUserContext,
+} from '../../../db.js';
+import { logger } from '../../../logger.js';
+import { SLACK_SIGNING_SECRET } from '../../config.js';
+import {
+  deriveTelegramWebhookSecret,
+  ingestInboundChannelMessage,
+  parseDiscordInteraction,
+  parseSlackEvent,
+  parseTelegramUpdate,
+  verifyDiscordSignature,
+  verifySlackSignature,
+  verifyTelegramWebhookSecret,
+  type ChannelInboundResult,
+} from '../../connectors/channel-inbound.js';
+import {
+  DiscordApiError,
+  createDiscordInteractionFollowup,
+  getDiscordApplication,
+  registerDiscordAskCommand,
+  setDiscordInteractionsEndpoint,
+} from '../../connectors/discord-client.js';
+import {
+  TelegramApiError,
+  getTelegramBot,
+  setTelegramWebhook,
+} from '../../connectors/telegram-client.js';
+import {
+  decryptWorkspaceChannelCredential,
+  getWorkspaceChannel,
+  listEnabledSlackChannelsForTarget,
+  updateWorkspaceChannel,
+} from '../../db/connectors-accessors.js';
+import { getWorkspaceSlackInstall } from '../../db/slack-installs-accessors.js';
+import { ApiEnvelope, AuthContext } from '../types.js';
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface JsonRouteResult<T> {
+  statusCode: number;
+  body: ApiEnvelope<T>;
+}
+
+function errorResult(
+  statusCode: number,
+  code: string,
+  message: string,
+): JsonRouteResult<never> {
+  return { statusCode, body: { ok: false, error: { code, message } } };
+}
+
+function acknowledged(): JsonRouteResult<{ accepted: true }> {
+  return { statusCode: 200, body: { ok: true, data: { accepted: true } } };
+}
+
+function isAdminLike(role: string): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+/** Runs webhook work after the response has been sent. */
+export type DeferWebhookWork = (work: () => Promise<void>) => void;
+
+export type ChannelWebhookEnv = DbScopeEnvBindings & {
+  DB: { connectionString: string };
+};
+
+/**
+ * `DeferWebhookWork` for a Worker request. The request's DB client is
+ * closed once the response is sent, so each piece of work gets its own
+ * `withRequestScopedDb` scope (as in dispatchRunInProcess). Errors are
+ * logged; the platform has already been answered.
+ */
+export function deferWebhookWork(
+  env: ChannelWebhookEnv,
+  ctx: RequestExecutionContext,
+): DeferWebhookWork {
+  return (work) => {
+    ctx.waitUntil(
+      withRequestScopedDb(
+        env.DB.connectionString,
+        ctx,
+        {
+          DB_EVENT_HUB_URL: env.DB_EVENT_HUB_URL,
+          USER_EVENT_HUB: env.USER_EVENT_HUB,
+          TALK_RUN_QUEUE: env.TALK_RUN_QUEUE,
+          ATTACHMENTS: env.ATTACHMENTS,
+        },
+        work,
+      ).catch((err) => {
+        logger.error({ err }, 'channel-webhooks: deferred ingestion failed');
+      }),
+    );
+  };
+}
+
+function parseJsonBody(rawBody: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(rawBody) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Slack Events API
+// ---------------------------------------------------------------------------
+
+export async function handleSlackEventsWebhook(input: {
+  rawBody: string;
+  timestamp: string | null | undefined;
+  signature: string | null | undefined;
+  defer: DeferWebhookWork;
+}): Promise<
+  | JsonRouteResult<{ accepted: true }>
+  | { statusCode: 200; body: { challenge: string } }
+> {
+  if (!SLACK_SIGNING_SECRET) {
+    return errorResult(
+      503,
+      'slack_events_not_configured',
+      'SLACK_SIGNING_SECRET is not configured.',
+    );
+  }
+  const verified = await verifySlackSignature({
+    signingSecret: SLACK_SIGNING_SECRET,
+    timestamp: input.timestamp,
+    signature: input.signature,
+    rawBody: input.rawBody,
+  });
+  if (!verified) {
+    return errorResult(401, 'invalid_signature', 'Invalid Slack signature.');
+  }
+
+  const payload = parseJsonBody(input.rawBody);
+  if (!payload) {
+    return errorResult(400, 'invalid_json', 'Request body must be JSON.');
+  }
+  if (payload.type === 'url_verification') {
+    return {
+      statusCode: 200,
+      body: {
+        challenge:
+          typeof payload.challenge === 'string' ? payload.challenge : '',
+      },
+    };
+  }
+  if (payload.type !== 'event_callback') return acknowledged();
+
+  const teamId = typeof payload.team_id === 'string' ? payload.team_id : null;
+  if (!teamId) return acknowledged();
+
+  input.defer(() => ingestSlackEvent(teamId, payload.event));
+  return acknowledged();
+}
+
+async function ingestSlackEvent(teamId: string, event: unknown): Promise<void> {
+  const install = await getWorkspaceSlackInstall(teamId);
+  if (!install) return;
+
+  const message = parseSlackEvent(event, {
+    botUserId: install.bot_user_id,
+  });
+  if (!message) return;
+
+  const channels = await listEnabledSlackChannelsForTarget(
+    teamId,
+    message.targetId,
+  );
+  for (const channel of channels) {
+    try {
+      await ingestInboundChannelMessage({ channel, message });
+    } catch (err) {
+      logger.error(
+        { err, channelId: channel.id },
+        'channel-webhooks: slack ingestion failed',
+      );
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Telegram webhook
+// ---------------------------------------------------------------------------
+
+function readConfigString(
+  config: Record<string, unknown>,
+  key: string,
+): string | null {
+  const value = config[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+export async function handleTelegramWebhook(input: {
+  channelId: string;
+  rawBody: string;
+  secretToken: string | null | undefined;
+}): Promise<JsonRouteResult<{ accepted: true }>> {
+  if (!UUID_RE.test(input.channelId)) {
+    return errorResult(404, 'not_found', 'Channel not found.');
+  }
+  const channel = await getWorkspaceChannel(input.channelId);
+  if (!channel || channel.kind !== 'telegram') {
+    return errorResult(404, 'not_found', 'Channel not found.');
+  }
+  const credential = await decryptWorkspaceChannelCredential(channel.id);
+  if (!credential?.apiKey) {
+    return errorResult(404, 'not_found', 'Channel not found.');
+  }
+  const verified = await verifyTelegramWebhookSecret({
+    botToken: credential.apiKey,
+    channelId: channel.id,
+    secretToken: input.secretToken,
+  });
+  if (!verified) {
+    return errorResult(401, 'invalid_secret', 'Invalid webhook secret.');
+  }
+  // Authentic but switched off: acknowledge so Telegram drops it.
+  if (!channel.enabled) return acknowledged();
+
+  const update = parseJsonBody(input.rawBody);
+  if (!update) {
+    return errorResult(400, 'invalid_json', 'Request body must be JSON.');
+  }
+  const message = parseTelegramUpdate(update, {
+    botId: readConfigString(channel.config_json, 'bot_id'),
+    botUsername: readConfigString(channel.config_json, 'bot_username'),
+  });
+  if (!message) return acknowledged();
+
+  // A bot can sit in several chats; a channel bound to one chat only
+  // takes that chat's messages.
+  const chatId = readConfigString(channel.config_json, 'chat_id');
+  if (chatId && chatId !== message.targetId) return acknowledged();
+
+  await ingestInboundChannelMessage({ channel, message });
+  return acknowledged();
+}
+
+export interface ApiTelegramWebhookRegistration {
+  webhookUrl: string;
+  botId: string;
+  botUsername: string | null;
+}
+
+/**
+ * Admin: register the channel's webhook with Telegram. Looks the bot up
+ * with getMe (recording bot_id / bot_username in config_json for
+ * mention detection) and points setWebhook at this deployment.
+ */
+export async function registerTelegramWebhookRoute(input: {
+  auth: AuthContext;
+  channelId: string;
+  origin: string;
+}): Promise<JsonRouteResult<ApiTelegramWebhookRegistration>> {
+  if (!isAdminLike(input.auth.role)) {
+    return errorResult(
+      403,
+      'forbidden',
+      'Only workspace admins can manage connectors.',
+    );
+  }
+  const channel = await withUserContext(input.auth.userId, () =>
+    getWorkspaceChannel(input.channelId),
+  );
+  if (!channel || channel.kind !== 'telegram') {
+    return errorResult(404, 'not_found', 'Channel not found.');
+  }
+  const credential = await withUserContext(input.auth.userId, () =>
+    decryptWorkspaceChannelCredential(channel.id),
+  );
+  if (!credential?.apiKey) {
+    return errorResult(
+      409,
+      'credential_missing',
+      'Set the bot token on this channel before registering its webhook.',
+    );
+  }
+
+  const webhookUrl = `${input.origin}/api/v1/webhooks/telegram/${channel.id}`;
+  let bot: Awaited<ReturnType<typeof getTelegramBot>>;
+  try {
+    bot = await getTelegramBot(credential.apiKey);
+    await setTelegramWebhook({
+      botToken: credential.apiKey,
+      url: webhookUrl,
+      secretToken: await deriveTelegramWebhookSecret(
+        credential.apiKey,
+        channel.id,
+      ),
+    });
+  } catch (err) {
+    if (err instanceof TelegramApiError) {
+      logger.warn(
+        { err, channelId: channel.id },
+        'channel-webhooks: telegram webhook registration failed',
+      );
+      return errorResult(502, 'telegram_error', err.message);
+    }
+    throw err;
+  }
+
+  const botId = String(bot.id);
+  const botUsername = bot.username ?? null;
+  await withUserContext(input.auth.userId, () =>
+    updateWorkspaceChannel(channel.id, {
+      config: {
+        ...channel.config_json,
+        bot_id: botId,
+        ...(botUsername ? { bot_username: botUsername } : {}),
+      },
+      updatedBy: input.auth.userId,
+    }),
+  );
+  return {
+    statusCode: 200,
+    body: { ok: true, data: { webhookUrl, botId, botUsername } },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Discord interactions endpoint
+// ---------------------------------------------------------------------------
+
+// Incoming interaction type Discord sends to check the endpoint.
+const DISCORD_PING = 1;
+// Interaction callback types and the ephemeral message flag.
+const DISCORD_PONG = 1;
+const DISCORD_CHANNEL_MESSAGE = 4;
+const DISCORD_EPHEMERAL_FLAG = 1 << 6;
+// Keep the echoed prompt well inside Discord's 2000-character limit.
+const DISCORD_ECHO_MAX_CHARS = 1800;
+
+export type DiscordInteractionResponse =
+  | { type: typeof DISCORD_PONG }
+  | {
+      type: typeof DISCORD_CHANNEL_MESSAGE;
+      data: {
+        content: string;
+        flags?: number;
+        allowed_mentions: { parse: never[] };
+      };
+    };
+
+function discordReply(
+  content: string,
+  options: { ephemeral?: boolean } = {},
+): { statusCode: 200; body: DiscordInteractionResponse } {
+  return {
+    statusCode: 200,
+    body: {
+      type: DISCORD_CHANNEL_MESSAGE,
+      data: {
+        content,
+        ...(options.ephemeral ? { flags: DISCORD_EPHEMERAL_FLAG } : {}),
+        allowed_mentions: { parse: [] },
+      },
+    },
+  };
+}
+
+// Quote the prompt back publicly so the channel sees what was asked; the
+// agent's answer follows as a separate bot message (channel-delivery.ts).
+function quoteDiscordPrompt(text: string): string {
+  const clipped =
+    text.length > DISCORD_ECHO_MAX_CHARS
+      ? `${text.slice(0, DISCORD_ECHO_MAX_CHARS)}…`
+      : text;
+  return clipped
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+}
+
+function describeDiscordOutcome(
+  results: ChannelInboundResult[],
+): string | null {
+  if (results.some((result) => result.outcome === 'enqueued')) return null;
+  if (results.length === 0) {
+    return 'This Discord channel is not linked to any ClawTalk Talk yet.';
+  }
+  if (results.some((result) => result.outcome === 'stored')) {
+    return 'The Talk is busy — your message was saved for its next reply.';
+  }
+  if (results.every((result) => result.outcome === 'ignored')) {
+    return 'Replies are turned off for this channel.';
+  }
+  return 'ClawTalk could not take this message. Try again shortly.';
+}
+
+export async function handleDiscordInteraction(input: {
+  channelId: string;
+  rawBody: string;
+  signature: string | null | undefined;
+  timestamp: string | null | undefined;
+  defer: DeferWebhookWork;
+}): Promise<
+  JsonRouteResult<never> | { statusCode: 200; body: DiscordInteractionResponse }
+> {
+  if (!UUID_RE.test(input.channelId)) {
+    return errorResult(404, 'not_found', 'Channel not found.');
+  }
+  const channel = await getWorkspaceChannel(input.channelId);
+  if (!channel || channel.kind !== 'discord') {
+    return errorResult(404, 'not_found', 'Channel not found.');
+  }
+  const verified = await verifyDiscordSignature({
+    publicKey: readConfigString(channel.config_json, 'public_key'),
+    timestamp: input.timestamp,
+    signature: input.signature,
+    rawBody: input.rawBody,
+  });
+  if (!verified) {
+    return errorResult(401, 'invalid_signature', 'Invalid Discord signature.');
+  }
+
+  const interaction = parseJsonBody(input.rawBody);
+  if (!interaction) {
+    return errorResult(400, 'invalid_json', 'Request body must be JSON.');
+  }
+  // Discord PINGs the URL when it is saved as the interactions endpoint.
+  if (interaction.type === DISCORD_PING) {
+    return { statusCode: 200, body: { type: DISCORD_PONG } };
+  }
+  if (!channel.enabled) {
+    return discordReply('This channel is turned off in ClawTalk.', {
+      ephemeral: true,
+    });
+  }
+
+  const message = parseDiscordInteraction(interaction);
+  if (!message) {
+    return discordReply('Use /ask with a prompt to talk to ClawTalk.', {
+      ephemeral: true,
+    });
+  }
+  // One application can be invited to many channels; a channel bound to
+  // one Discord channel only takes that channel's commands.
+  const discordChannelId = readConfigString(channel.config_json, 'channel_id');
+  if (discordChannelId && discordChannelId !== message.targetId) {
+    return discordReply('This Discord channel is not connected to ClawTalk.', {
+      ephemeral: true,
+    });
+  }
+
+  // The prompt is quoted right away; when ingestion doesn't start a run,
+  // the asker gets an ephemeral follow-up saying why.
+  const applicationId =
+    typeof interaction.application_id === 'string'
+      ? interaction.application_id
+      : null;
+  const interactionToken =
+    typeof interaction.token === 'string' ? interaction.token : null;
+  input.defer(async () => {
+    const results = await ingestInboundChannelMessage({ channel, message });
+    const problem = describeDiscordOutcome(results);
+    if (!problem || !applicationId || !interactionToken) return;
+    const credential = await decryptWorkspaceChannelCredential(channel.id);
+    if (!credential?.apiKey) return;
+    try {
+      await createDiscordInteractionFollowup({
+        botToken: credential.apiKey,
+        applicationId,
+        interactionToken,
+        content: problem,
+        ephemeral: true,
+      });
+    } catch (err) {
+      // The error message carries the route, and with it the token.
+      logger.warn(
+        {
+          channelId: channel.id,
+          discordCode: err instanceof DiscordApiError ? err.discordCode : null,
+        },
+        'channel-webhooks: discord follow-up failed',
+      );
+    }
+  });
+  return discordReply(quoteDiscordPrompt(message.text));
+}
+
+export interface ApiDiscordInteractionsRegistration {
+  interactionsUrl: string;
+  applicationId: string;
+  botUsername: string | null;
+}
+
+/**
+ * Admin: wire the channel's Discord application to this deployment.
+ * Reads the application with the bot token (recording its id, public
+ * key and bot user in config_json), registers the `/ask` command —
+ * guild-scoped when config_json.guild_id is set — and finally sets the
+ * interactions endpoint URL, which Discord verifies with a signed PING
+ * against the key saved a step earlier.
+ */
+export async function registerDiscordInteractionsRoute(input: {
+  auth: AuthContext;
+  channelId: string;
+  origin: string;
+}): Promise<JsonRouteResult<ApiDiscordInteractionsRegistration>> {
+  if (!isAdminLike(input.auth.role)) {
+    return errorResult(
+      403,
+      'forbidden',
+      'Only workspace admins can manage connectors.',
+    );
+  }
+  const channel = await withUserContext(input.auth.userId, () =>
+    getWorkspaceChannel(input.channelId),
+  );
+  if (!channel || channel.kind !== 'discord') {
+    return errorResult(404, 'not_found', 'Channel not found.');
+  }
+  const credential = await withUserContext(input.auth.userId, () =>
+    decryptWorkspaceChannelCredential(channel.id),
+  );
+  if (!credential?.apiKey) {
+    return errorResult(
+      409,
+      'credential_missing',
+      'Set the bot token on this channel before registering its interactions endpoint.',
+    );
+  }
+
+  const interactionsUrl = `${input.origin}/api/v1/webhooks/discord/${channel.id}`;
+  try {
+    const application = await getDiscordApplication(credential.apiKey);
+    const botUsername = application.bot?.username ?? null;
+    await withUserContext(input.auth.userId, () =>
+      updateWorkspaceChannel(channel.id, {
+        config: {
+          ...channel.config_json,
+          application_id: application.id,
+          public_key: application.verify_key,
+          ...(application.bot
+            ? {
+                bot_id: application.bot.id,
+                bot_username: application.bot.username,
+              }
+            : {}),
+        },
+        updatedBy: input.auth.userId,
+      }),
+    );
+    await registerDiscordAskCommand({
+      botToken: credential.apiKey,
+      applicationId: application.id,
+      guildId: readConfigString(channel.config_json, 'guild_id'),
+    });
+    await setDiscordInteractionsEndpoint({
+      botToken: credential.apiKey,
+      url: interactionsUrl,
+    });
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: { interactionsUrl, applicationId: application.id, botUsername },
+      },
+    };
+  } catch (err) {
+    if (err instanceof DiscordApiError) {
+      logger.warn(
+        { err, channelId: channel.id },
+        'channel-webhooks: discord interactions registration failed',
+      );
+      return errorResult(502, 'discord_error', err.message);
+    }
+    throw err;
+  }
+}
@@ -2,8 +2,8 @@
 // route handlers + per-Talk link toggles.
 //
 // Workspace CRUD is admin-only (isAdminLike from ai-agents.ts). The
-// underlying RLS policy (current_user_is_workspace_admin) is the
-// belt + suspenders — both layers must agree.
+// underlying RLS policy (is_workspace_admin on the row's workspace) is
+// the belt + suspenders — both layers must agree.
 //
 // Talk-link toggles are talk-owner-gated via `canEditTalk` (mirrors
 // `talk-resources.ts:C3`). RLS on the link tables only enforces
@@ -0,0 +1,161 @@
+// Route tests for /api/v1/agents/providers. Covers the admin gate and
+// the request validation that runs before any database access; provider
+// writes themselves are gated by the 0050 RLS policies.
+
+import { describe, expect, it } from 'vitest';
+
+import type { AuthContext } from '../types.js';
+import {
+  createCustomProviderRoute,
+  deleteCustomProviderRoute,
+  putCustomProviderModelsRoute,
+  updateCustomProviderRoute,
+} from './custom-providers.js';
+
+const ADMIN: AuthContext = {
+  sessionId: 'session-a',
+  userId: '0c777703-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+  role: 'admin',
+  authType: 'cookie',
+};
+const MEMBER: AuthContext = { ...ADMIN, role: 'member' };
+const PROVIDER_ID = 'custom.0c777703-eeee-4eee-8eee-eeeeeeeee0a1';
+const VALID_BODY = {
+  name: 'Team vLLM',
+  baseUrl: 'https://203.0.113.10/v1',
+};
+
+describe('createCustomProviderRoute', () => {
+  it('is admin only', async () => {
+    const result = await createCustomProviderRoute({
+      auth: MEMBER,
+      body: VALID_BODY,
+    });
+    expect(result.statusCode).toBe(403);
+    expect(result.body).toMatchObject({ error: { code: 'forbidden' } });
+  });
+
+  it('requires a name and a base URL', async () => {
+    const noName = await createCustomProviderRoute({
+      auth: ADMIN,
+      body: { baseUrl: VALID_BODY.baseUrl },
+    });
+    expect(noName.body).toMatchObject({ error: { code: 'invalid_name' } });
+
+    const noUrl = await createCustomProviderRoute({
+      auth: ADMIN,
+      body: { name: 'Team vLLM' },
+    });
+    expect(noUrl.body).toMatchObject({ error: { code: 'invalid_url' } });
+  });
+
+  it('rejects unknown auth schemes, API formats and bad timeouts', async () => {
+    for (const extra of [
+      { authScheme: 'basic' },
+      { apiFormat: 'codex_responses' },
+      { responseStartTimeoutMs: 0 },
+      { absoluteTimeoutMs: 600_001 },
+      { streamIdleTimeoutMs: 1.5 },
+    ]) {
+      const result = await createCustomProviderRoute({
+        auth: ADMIN,
+        body: { ...VALID_BODY, ...extra },
+      });
+      expect(result.statusCode).toBe(400);
+      expect(result.body).toMatchObject({ error: { code: 'invalid_input' } });
+    }
+  });
+
+  it('refuses a private base URL, even when the request asks to allow it', async () => {
+    for (const baseUrl of [
+      'http://127.0.0.1:11434/v1',
+      'http://localhost:1234/v1',
+      'http://169.254.169.254/latest',
+    ]) {
+      const result = await createCustomProviderRoute({
+        auth: ADMIN,
+        body: { ...VALID_BODY, baseUrl, allowPrivateNetwork: true },
+      });
+      expect(result.statusCode).toBe(400);
+      expect(result.body).toMatchObject({ error: { code: 'ssrf_blocked' } });
+    }
+  });
+
+  it('rejects non-http schemes', async () => {
+    const result = await createCustomProviderRoute({
+      auth: ADMIN,
+      body: { ...VALID_BODY, baseUrl: 'file:///etc/passwd' },
+    });
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toMatchObject({ error: { code: 'invalid_scheme' } });
+  });
+});
+
+describe('updateCustomProviderRoute', () => {
+  it('validates fields before the provider id', async () => {
+    const result = await updateCustomProviderRoute({
+      auth: ADMIN,
+      providerId: 'provider.openai',
+      body: { name: '' },
+    });
+    expect(result.body).toMatchObject({ error: { code: 'invalid_name' } });
+  });
+
+  it('treats builtin provider ids as not found', async () => {
+    const result = await updateCustomProviderRoute({
+      auth: ADMIN,
+      providerId: 'provider.openai',
+      body: { name: 'Renamed' },
+    });
+    expect(result.statusCode).toBe(404);
+    expect(result.body).toMatchObject({ error: { code: 'not_found' } });
+  });
+});
+
+describe('deleteCustomProviderRoute', () => {
+  it('is admin only and never deletes builtins', async () => {
+    const forbidden = await deleteCustomProviderRoute({
+      auth: MEMBER,
+      providerId: PROVIDER_ID,
+    });
+    expect(forbidden.statusCode).toBe(403);
+
+    const builtin = await deleteCustomProviderRoute({
+      auth: ADMIN,
+      providerId: 'provider.anthropic',
+    });
+    expect(builtin.statusCode).toBe(404);
+  });
+});
+
+describe('putCustomProviderModelsRoute', () => {
+  it('rejects malformed model lists', async () => {
+    for (const body of [
+      {},
+      { models: 'llama' },
+      { models: [{}] },
+      { models: [{ modelId: '  ' }] },
+      { models: [{ modelId: 'a' }, { modelId: 'a' }] },
+      { models: [{ modelId: 'a', contextWindowTokens: -1 }] },
+      { models: [{ modelId: 'a', supportsTools: 'yes' }] },
+      { models: Array.from({ length: 101 }, (_, i) => ({ modelId: `m${i}` })) },
+    ]) {
+      const result = await putCustomProviderModelsRoute({
+        auth: ADMIN,
+        providerId: PROVIDER_ID,
+        body,
+      });
+      expect(result.statusCode).toBe(400);
+      expect(result.body).toMatchObject({ error: { code: 'invalid_models' } });
+    }
+  });
+
+  it('treats builtin provider ids as not found', async () => {
+    const result = await putCustomProviderModelsRoute({
+      auth: ADMIN,
+      providerId: 'provider.nvidia',
+      body: { models: [{ modelId: 'meta/llama-3.3-70b-instruct' }] },
+    });
+    expect(result.statusCode).toBe(404);
+  });
+});
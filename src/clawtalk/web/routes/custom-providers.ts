@@ -0,0 +1,402 @@
+// /api/v1/agents/providers — workspace-defined LLM providers
+// (migration 0050): self-hosted vLLM, Ollama, LM Studio, or hosted
+// OpenAI-compatible gateways such as OpenRouter.
+//
+// POST    { name, baseUrl, authScheme?, apiFormat?,
+//         responseStartTimeoutMs?, streamIdleTimeoutMs?,
+//         absoluteTimeoutMs? } — new provider in the current workspace
+// PATCH   /:providerId { ...same fields, all optional }
+// DELETE  /:providerId — drops its models and stored credentials
+// PUT     /:providerId/models { models: [{ modelId, displayName?,
+//         contextWindowTokens?, defaultMaxOutputTokens?, supportsTools?,
+//         supportsVision? }] } — replaces the curated model list
+//
+// All four are admin only. Credentials go through the existing
+// PUT /:providerId route in ai-agents.ts, and providers show up as
+// cards in GET /api/v1/agents alongside the builtins. The base URL
+// must resolve to a public address unless the operator listed its host
+// in CUSTOM_PROVIDER_PRIVATE_HOSTS.
+
+import { withUserContext } from '../../../db.js';
+import { CUSTOM_PROVIDER_PRIVATE_HOSTS } from '../../config.js';
+import {
+  createCustomProvider,
+  deleteCustomProvider,
+  getCustomProvider,
+  isCustomProviderId,
+  replaceCustomProviderModels,
+  updateCustomProvider,
+  type CustomProviderApiFormat,
+  type CustomProviderAuthScheme,
+  type CustomProviderInput,
+  type CustomProviderModelInput,
+} from '../../db/custom-provider-accessors.js';
+import {
+  assertOutboundUrlAllowed,
+  OutboundUrlError,
+} from '../../security/outbound-url.js';
+import {
+  getProviderCardOrNotFound,
+  type AgentProviderCard,
+} from './ai-agents.js';
+import type { ApiEnvelope, AuthContext } from '../types.js';
+
+const MAX_PROVIDER_NAME_LENGTH = 100;
+const MAX_BASE_URL_LENGTH = 2048;
+const MAX_TIMEOUT_MS = 600_000;
+const MAX_MODELS = 100;
+const MAX_MODEL_ID_LENGTH = 200;
+const DEFAULT_CONTEXT_WINDOW_TOKENS = 32_768;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4_096;
+
+const API_FORMATS: readonly CustomProviderApiFormat[] = [
+  'openai_chat_completions',
+  'anthropic_messages',
+];
+const AUTH_SCHEMES: readonly CustomProviderAuthScheme[] = [
+  'none',
+  'bearer',
+  'x_api_key',
+];
+const TIMEOUT_FIELDS = [
+  'responseStartTimeoutMs',
+  'streamIdleTimeoutMs',
+  'absoluteTimeoutMs',
+] as const;
+
+type ErrorResult = { statusCode: number; body: ApiEnvelope<never> };
+type ProviderResult = {
+  statusCode: number;
+  body: ApiEnvelope<{ provider: AgentProviderCard }>;
+};
+
+function errorResponse(
+  statusCode: number,
+  code: string,
+  message: string,
+): ErrorResult {
+  return { statusCode, body: { ok: false, error: { code, message } } };
+}
+
+function forbidden(): ErrorResult {
+  return errorResponse(
+    403,
+    'forbidden',
+    'Only workspace admins can manage custom providers.',
+  );
+}
+
+function providerNotFound(providerId: string): ErrorResult {
+  return errorResponse(404, 'not_found', `Provider '${providerId}' not found.`);
+}
+
+function isAdminLike(role: string): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+function readField(body: unknown, key: string): unknown {
+  return body && typeof body === 'object'
+    ? (body as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function isPositiveInt(value: unknown, max: number): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value > 0 &&
+    value <= max
+  );
+}
+
+/**
+ * Validate the provider fields present in `body`. Absent fields are left
+ * out of the result, so PATCH can merge it over the stored row and POST
+ * can fill in defaults.
+ */
+function parseProviderFields(
+  body: unknown,
+): { fields: Partial<CustomProviderInput> } | { error: ErrorResult } {
+  const fields: Partial<CustomProviderInput> = {};
+
+  const name = readField(body, 'name');
+  if (name !== undefined) {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > MAX_PROVIDER_NAME_LENGTH) {
+      return {
+        error: errorResponse(
+          400,
+          'invalid_name',
+          `name must be between 1 and ${MAX_PROVIDER_NAME_LENGTH} characters`,
+        ),
+      };
+    }
+    fields.name = trimmed;
+  }
+
+  const baseUrl = readField(body, 'baseUrl');
+  if (baseUrl !== undefined) {
+    const trimmed = typeof baseUrl === 'string' ? baseUrl.trim() : '';
+    if (!trimmed || trimmed.length > MAX_BASE_URL_LENGTH) {
+      return {
+        error: errorResponse(
+          400,
+          'invalid_url',
+          'baseUrl must be an http(s) URL',
+        ),
+      };
+    }
+    fields.baseUrl = trimmed.replace(/\/+$/, '');
+  }
+
+  const authScheme = readField(body, 'authScheme');
+  if (authScheme !== undefined) {
+    if (!AUTH_SCHEMES.includes(authScheme as CustomProviderAuthScheme)) {
+      return {
+        error: errorResponse(
+          400,
+          'invalid_input',
+          "authScheme must be 'none', 'bearer' or 'x_api_key'",
+        ),
+      };
+    }
+    fields.authScheme = authScheme as CustomProviderAuthScheme;
+  }
+
+  const apiFormat = readField(body, 'apiFormat');
+  if (apiFormat !== undefined) {
+    if (!API_FORMATS.includes(apiFormat as CustomProviderApiFormat)) {
+      return {
+        error: errorResponse(
+          400,
+          'invalid_input',
+          "apiFormat must be 'openai_chat_completions' or 'anthropic_messages'",
+        ),
+      };
+    }
+    fields.apiFormat = apiFormat as CustomProviderApiFormat;
+  }
+
+  for (const key of TIMEOUT_FIELDS) {
+    const value = readField(body, key);
+    if (value === undefined) continue;
+    if (value !== null && !isPositiveInt(value, MAX_TIMEOUT_MS)) {
+      return {
+        error: errorResponse(
+          400,
+          'invalid_input',
+          `${key} must be a positive integer up to ${MAX_TIMEOUT_MS}, or null`,
+        ),
+      };
+    }
+    fields[key] = value;
+  }
+
+  return { fields };
+}
+
+// SSRF gate for a provider's base URL; null when it may be saved.
+async function checkBaseUrl(
+  input: Pick<CustomProviderInput, 'baseUrl'>,
+): Promise<ErrorResult | null> {
+  try {
+    await assertOutboundUrlAllowed(input.baseUrl, {
+      privateHosts: CUSTOM_PROVIDER_PRIVATE_HOSTS,
+    });
+    return null;
+  } catch (error) {
+    if (!(error instanceof OutboundUrlError)) throw error;
+    return errorResponse(400, error.code, error.message);
+  }
+}
+
+function parseModels(
+  body: unknown,
+): { models: CustomProviderModelInput[] } | { error: ErrorResult } {
+  const invalid = (message: string) => ({
+    error: errorResponse(400, 'invalid_models', message),
+  });
+  const raw = readField(body, 'models');
+  if (!Array.isArray(raw)) return invalid('models must be an array');
+  if (raw.length > MAX_MODELS) {
+    return invalid(`At most ${MAX_MODELS} models per provider`);
+  }
+
+  const models: CustomProviderModelInput[] = [];
+  const seen = new Set<string>();
+  for (const entry of raw) {
+    const modelId = readField(entry, 'modelId');
+    if (
+      typeof modelId !== 'string' ||
+      !modelId.trim() ||
+      modelId.trim().length > MAX_MODEL_ID_LENGTH
+    ) {
+      return invalid(
+        `modelId must be between 1 and ${MAX_MODEL_ID_LENGTH} characters`,
+      );
+    }
+    const id = modelId.trim();
+    if (seen.has(id)) return invalid(`Duplicate modelId '${id}'`);
+    seen.add(id);
+
+    const displayName = readField(entry, 'displayName');
+    if (displayName !== undefined && typeof displayName !== 'string') {
+      return invalid('displayName must be a string');
+    }
+    const contextWindowTokens = readField(entry, 'contextWindowTokens');
+    if (
+      contextWindowTokens !== undefined &&
+      !isPositiveInt(contextWindowTokens, Number.MAX_SAFE_INTEGER)
+    ) {
+      return invalid('contextWindowTokens must be a positive integer');
+    }
+    const defaultMaxOutputTokens = readField(entry, 'defaultMaxOutputTokens');
+    if (
+      defaultMaxOutputTokens !== undefined &&
+      !isPositiveInt(defaultMaxOutputTokens, Number.MAX_SAFE_INTEGER)
+    ) {
+      return invalid('defaultMaxOutputTokens must be a positive integer');
+    }
+    const supportsTools = readField(entry, 'supportsTools');
+    const supportsVision = readField(entry, 'supportsVision');
+    for (const flag of [supportsTools, supportsVision]) {
+      if (flag !== undefined && flag !== null && typeof flag !== 'boolean') {
+        return invalid('supportsTools and supportsVision must be booleans');
+      }
+    }
+
+    models.push({
+      modelId: id,
+      displayName: displayName?.trim() || id,
+      contextWindowTokens: contextWindowTokens ?? DEFAULT_CONTEXT_WINDOW_TOKENS,
+      defaultMaxOutputTokens:
+        defaultMaxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      supportsTools: (supportsTools as boolean | null | undefined) ?? null,
+      supportsVision: (supportsVision as boolean | null | undefined) ?? null,
+    });
+  }
+  return { models };
+}
+
+export async function createCustomProviderRoute(input: {
+  auth: AuthContext;
+  body: unknown;
+}): Promise<ProviderResult> {
+  if (!isAdminLike(input.auth.role)) return forbidden();
+
+  const parsed = parseProviderFields(input.body);
+  if ('error' in parsed) return parsed.error;
+  const { fields } = parsed;
+  if (fields.name === undefined) {
+    return errorResponse(400, 'invalid_name', 'name is required');
+  }
+  if (fields.baseUrl === undefined) {
+    return errorResponse(400, 'invalid_url', 'baseUrl is required');
+  }
+  const provider: CustomProviderInput = {
+    name: fields.name,
+    baseUrl: fields.baseUrl,
+    apiFormat: fields.apiFormat ?? 'openai_chat_completions',
+    authScheme: fields.authScheme ?? 'bearer',
+    responseStartTimeoutMs: fields.responseStartTimeoutMs ?? null,
+    streamIdleTimeoutMs: fields.streamIdleTimeoutMs ?? null,
+    absoluteTimeoutMs: fields.absoluteTimeoutMs ?? null,
+  };
+  const urlError = await checkBaseUrl(provider);
+  if (urlError) return urlError;
+
+  return withUserContext(input.auth.userId, async () => {
+    const providerId = await createCustomProvider({
+      ...provider,
+      updatedBy: input.auth.userId,
+    });
+    const result = await getProviderCardOrNotFound(providerId);
+    return result.statusCode === 200 ? { ...result, statusCode: 201 } : result;
+  });
+}
+
+export async function updateCustomProviderRoute(input: {
+  auth: AuthContext;
+  providerId: string;
+  body: unknown;
+}): Promise<ProviderResult> {
+  if (!isAdminLike(input.auth.role)) return forbidden();
+
+  const parsed = parseProviderFields(input.body);
+  if ('error' in parsed) return parsed.error;
+  if (!isCustomProviderId(input.providerId)) {
+    return providerNotFound(input.providerId);
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    const existing = await getCustomProvider(input.providerId);
+    if (!existing) return providerNotFound(input.providerId);
+    const provider: CustomProviderInput = {
+      name: existing.name,
+      baseUrl: existing.base_url,
+      apiFormat: existing.api_format,
+      authScheme: existing.auth_scheme,
+      responseStartTimeoutMs: existing.response_start_timeout_ms,
+      streamIdleTimeoutMs: existing.stream_idle_timeout_ms,
+      absoluteTimeoutMs: existing.absolute_timeout_ms,
+      ...parsed.fields,
+    };
+    // Re-checked on every edit, so a provider saved before its host was
+    // taken off CUSTOM_PROVIDER_PRIVATE_HOSTS can't be saved again as is.
+    const urlError = await checkBaseUrl(provider);
+    if (urlError) return urlError;
+
+    const updated = await updateCustomProvider(input.providerId, {
+      ...provider,
+      updatedBy: input.auth.userId,
+    });
+    if (!updated) return providerNotFound(input.providerId);
+    return getProviderCardOrNotFound(input.providerId);
+  });
+}
+
+export async function deleteCustomProviderRoute(input: {
+  auth: AuthContext;
+  providerId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ deleted: true }>;
+}> {
+  if (!isAdminLike(input.auth.role)) return forbidden();
+  if (!isCustomProviderId(input.providerId)) {
+    return providerNotFound(input.providerId);
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    if (!(await deleteCustomProvider(input.providerId))) {
+      return providerNotFound(input.providerId);
+    }
+    return { statusCode: 200, body: { ok: true, data: { deleted: true } } };
+  });
+}
+
+export async function putCustomProviderModelsRoute(input: {
+  auth: AuthContext;
+  providerId: string;
+  body: unknown;
+}): Promise<ProviderResult> {
+  if (!isAdminLike(input.auth.role)) return forbidden();
+
+  const parsed = parseModels(input.body);
+  if ('error' in parsed) return parsed.error;
+  if (!isCustomProviderId(input.providerId)) {
+    return providerNotFound(input.providerId);
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    if (!(await getCustomProvider(input.providerId))) {
+      return providerNotFound(input.providerId);
+    }
+    await replaceCustomProviderModels({
+      providerId: input.providerId,
+      models: parsed.models,
+      updatedBy: input.auth.userId,
+    });
+    return getProviderCardOrNotFound(input.providerId);
+  });
+}
@@ -0,0 +1,48 @@
+// Route tests for /api/v1/invites. Covers the request validation that
+// runs before any database access; accepting and declining are checked
+// against the caller's address by respond_to_invite() (0069).
+
+import { describe, expect, it } from 'vitest';
+
+import type { AuthContext } from '../types.js';
+import { respondToInviteRoute } from './invites.js';
+
+const AUTH: AuthContext = {
+  sessionId: 'session-a',
+  userId: '0c777704-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+  role: 'member',
+  authType: 'cookie',
+};
+const INVITE_ID = '0c777704-dddd-dddd-dddd-ddddddddd0a1';
+
+describe('respondToInviteRoute', () => {
+  it('rejects an unknown action', async () => {
+    const result = await respondToInviteRoute({
+      auth: AUTH,
+      kind: 'talk',
+      inviteId: INVITE_ID,
+      action: 'ignore',
+    });
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toMatchObject({ error: { code: 'invalid_action' } });
+  });
+
+  it('treats an unknown kind or malformed id as not found', async () => {
+    for (const [kind, inviteId] of [
+      ['folder', INVITE_ID],
+      ['talk', 'nope'],
+      ['workspace', 'nope'],
+    ]) {
+      const result = await respondToInviteRoute({
+        auth: AUTH,
+        kind,
+        inviteId,
+        action: 'accept',
+      });
+      expect(result.statusCode).toBe(404);
+      expect(result.body).toMatchObject({
+        error: { code: 'invite_not_found' },
+      });
+    }
+  });
+});
@@ -0,0 +1,116 @@
+// /api/v1/invites — Talk and workspace invites sent to the caller
+// (migration 0069).
+//
+// GET     lists the open invites addressed to the caller's email
+// POST    /:kind/:inviteId/accept — kind is 'talk' or 'workspace'; joins
+//         with the invite's role
+// POST    /:kind/:inviteId/decline — deletes the invite
+//
+// Both POSTs answer 404 when the invite isn't open or wasn't sent to
+// the caller, so an id never reveals whose invite it is.
+
+import { withUserContext } from '../../../db.js';
+import {
+  listMyInvites,
+  respondToInvite,
+  type InviteKind,
+  type MyInviteRecord,
+} from '../../db/invite-accessors.js';
+import { forgetTalkMemberCache } from '../../talks/outbox-emit.js';
+import type { ApiEnvelope, AuthContext } from '../types.js';
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface InviteApiRecord {
+  kind: InviteKind;
+  id: string;
+  targetId: string;
+  targetName: string;
+  role: string;
+  invitedByName: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+function toInviteApi(row: MyInviteRecord): InviteApiRecord {
+  return {
+    kind: row.kind,
+    id: row.id,
+    targetId: row.target_id,
+    targetName: row.target_name,
+    role: row.role,
+    invitedByName: row.invited_by_name,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+function errorResponse(
+  statusCode: number,
+  code: string,
+  message: string,
+): { statusCode: number; body: ApiEnvelope<never> } {
+  return { statusCode, body: { ok: false, error: { code, message } } };
+}
+
+function inviteNotFound(): { statusCode: number; body: ApiEnvelope<never> } {
+  return errorResponse(404, 'invite_not_found', 'Invite not found');
+}
+
+export async function listMyInvitesRoute(input: {
+  auth: AuthContext;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ invites: InviteApiRecord[] }>;
+}> {
+  return withUserContext(input.auth.userId, async () => {
+    const invites = await listMyInvites();
+    return {
+      statusCode: 200,
+      body: { ok: true, data: { invites: invites.map(toInviteApi) } },
+    };
+  });
+}
+
+export async function respondToInviteRoute(input: {
+  auth: AuthContext;
+  kind: string;
+  inviteId: string;
+  action: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ accepted: boolean }>;
+}> {
+  if (input.action !== 'accept' && input.action !== 'decline') {
+    return errorResponse(
+      400,
+      'invalid_action',
+      "action must be 'accept' or 'decline'",
+    );
+  }
+  if (input.kind !== 'talk' && input.kind !== 'workspace') {
+    return inviteNotFound();
+  }
+  if (!UUID_RE.test(input.inviteId)) return inviteNotFound();
+  const kind: InviteKind = input.kind;
+  const accept = input.action === 'accept';
+
+  return withUserContext(input.auth.userId, async () => {
+    // Read first: the accepted Talk's id is needed to refresh the
+    // event fan-out, and the invite is gone from the list afterwards.
+    const invite = (await listMyInvites()).find(
+      (row) => row.kind === kind && row.id === input.inviteId,
+    );
+    const done = await respondToInvite({
+      kind,
+      inviteId: input.inviteId,
+      accept,
+    });
+    if (!done) return inviteNotFound();
+    if (accept && kind === 'talk' && invite) {
+      forgetTalkMemberCache(invite.target_id);
+    }
+    return { statusCode: 200, body: { ok: true, data: { accepted: accept } } };
+  });
+}
@@ -39,6 +39,10 @@ vi.mock('../../db/slack-installs-accessors.js', () => ({
   getWorkspaceSlackInstall: vi.fn(),
 }));
 
+vi.mock('../../db/workspace-accessors.js', () => ({
+  getCurrentWorkspaceId: vi.fn(async () => 'workspace-1'),
+}));
+
 import {
   bulkAddSlackChannelsRoute,
   listSlackInstallChannelsRoute,
@@ -73,6 +77,7 @@ const decryptTokenMock = vi.mocked(decryptWorkspaceSlackInstallToken);
 
 const FAKE_INSTALL = {
   team_id: 'T01',
+  workspace_id: 'workspace-1',
   team_name: 'Eng',
   bot_user_id: 'U1',
   app_id: 'A1',
@@ -121,6 +126,19 @@ describe('listSlackInstallChannelsRoute', () => {
     expect(result.body.error.code).toBe('install_not_found');
   });
 
+  it("returns 404 for another workspace's install", async () => {
+    getInstallMock.mockResolvedValueOnce({
+      ...FAKE_INSTALL,
+      workspace_id: 'workspace-2',
+    });
+    const result = await listSlackInstallChannelsRoute({
+      auth: ADMIN,
+      teamId: 'T01',
+    });
+    expect(result.statusCode).toBe(404);
+    expect(decryptTokenMock).not.toHaveBeenCalled();
+  });
+
   it('returns 409 when credential is missing', async () => {
     getInstallMock.mockResolvedValueOnce(FAKE_INSTALL);
     decryptTokenMock.mockResolvedValueOnce(null);
@@ -239,6 +257,20 @@ describe('bulkAddSlackChannelsRoute', () => {
     expect(result.statusCode).toBe(404);
   });
 
+  it("does not bind channels of another workspace's install", async () => {
+    getInstallMock.mockResolvedValueOnce({
+      ...FAKE_INSTALL,
+      workspace_id: 'workspace-2',
+    });
+    const result = await bulkAddSlackChannelsRoute({
+      auth: ADMIN,
+      teamId: 'T01',
+      body: { channels: [{ channelId: 'C1', channelName: 'general' }] },
+    });
+    expect(result.statusCode).toBe(404);
+    expect(createWorkspaceChannelMock).not.toHaveBeenCalled();
+  });
+
   it('skips already-added channels and creates the rest', async () => {
     getInstallMock.mockResolvedValueOnce(FAKE_INSTALL);
     listWorkspaceChannelsMock.mockResolvedValueOnce([
@@ -3,7 +3,8 @@
 // PR 1 landed the workspace install flow. This file ships the picker on top
 // of it: given an installed workspace, list its Slack channels and bulk-add
 // them as `workspace_channels` rows so they appear in the existing Talk
-// connector picker.
+// connector picker. Both routes only reach installs of the caller's current
+// workspace (0065).
 
 import { withUserContext } from '../../../db.js';
 import { listSlackConversations } from '../../connectors/slack-client.js';
@@ -14,7 +15,9 @@ import {
 import {
   decryptWorkspaceSlackInstallToken,
   getWorkspaceSlackInstall,
+  type WorkspaceSlackInstallRecord,
 } from '../../db/slack-installs-accessors.js';
+import { getCurrentWorkspaceId } from '../../db/workspace-accessors.js';
 import { SlackApiError } from '../../connectors/slack-client.js';
 import { ApiEnvelope, AuthContext } from '../types.js';
 
@@ -35,6 +38,17 @@ function isAdminLike(role: string): boolean {
   return role === 'owner' || role === 'admin';
 }
 
+// Another workspace's install reads as not connected.
+async function getCurrentWorkspaceInstall(
+  teamId: string,
+): Promise<WorkspaceSlackInstallRecord | null> {
+  const install = await getWorkspaceSlackInstall(teamId);
+  if (!install) return null;
+  return install.workspace_id === (await getCurrentWorkspaceId())
+    ? install
+    : null;
+}
+
 function forbiddenAdminResponse(): JsonRouteResult<never> {
   return errorResult(
     403,
@@ -64,7 +78,7 @@ export async function listSlackInstallChannelsRoute(input: {
   if (!isAdminLike(input.auth.role)) return forbiddenAdminResponse();
 
   return withUserContext(input.auth.userId, async () => {
-    const install = await getWorkspaceSlackInstall(input.teamId);
+    const install = await getCurrentWorkspaceInstall(input.teamId);
     if (!install) {
       return errorResult(
         404,
@@ -185,7 +199,7 @@ export async function bulkAddSlackChannelsRoute(input: {
   }
 
   return withUserContext(input.auth.userId, async () => {
-    const install = await getWorkspaceSlackInstall(input.teamId);
+    const install = await getCurrentWorkspaceInstall(input.teamId);
     if (!install) {
       return errorResult(
         404,
@@ -169,6 +169,7 @@ describe('admin gating', () => {
     listMock.mockResolvedValueOnce([
       {
         team_id: 'T01',
+        workspace_id: 'workspace-1',
         team_name: 'Eng',
         bot_user_id: 'U1',
         app_id: 'A1',
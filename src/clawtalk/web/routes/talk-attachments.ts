@@ -9,7 +9,7 @@ import {
   updateAttachmentExtraction,
   type AttachmentSnapshot,
 } from '../../db/index.js';
-import { canEditTalk } from '../middleware/acl.js';
+import { canPostToTalkFromRecord } from '../middleware/acl.js';
 import type { ApiEnvelope, AuthContext } from '../types.js';
 
 import {
@@ -98,7 +98,7 @@ export async function uploadTalkAttachmentRoute(input: {
     const talk = await getTalkForUser(input.talkId);
     if (!talk) return notFoundResponse('Talk not found.');
 
-    if (!(await canEditTalk(input.talkId))) {
+    if (!canPostToTalkFromRecord(talk)) {
       return forbiddenResponse(
         'You do not have permission to upload to this talk.',
       );
@@ -139,7 +139,7 @@ export async function uploadTalkAttachmentRoute(input: {
 
     // Create DB record
     const attachment = await createMessageAttachment({
-      ownerId: input.auth.userId,
+      ownerId: talk.owner_id,
       id: attachmentId,
       talkId: input.talkId,
       fileName: file.name,
@@ -18,17 +18,22 @@ import {
   getTalkContextSourceById,
   getTalkContextSourceCount,
   getTalkForUser,
+  getTalkJob,
   insertSourcePageImage,
+  listContextSourceRevisions,
   listSourcePageIndices,
   listTalkContextRules,
   listTalkStateEntries,
   markTalkContextSourcePending,
+  MAX_SOURCE_REFRESH_INTERVAL_MINUTES,
+  MIN_SOURCE_REFRESH_INTERVAL_MINUTES,
   patchTalkContextRule,
   patchTalkContextSource,
   setSourceExpectedPageCount,
   setTalkGoal,
   validateStateKey,
   type ContextRuleSnapshot,
+  type ContextSourceRevisionSnapshot,
   type ContextSourceSnapshot,
   type TalkContextSnapshot,
   type TalkStateEntrySnapshot,
@@ -476,6 +481,8 @@ export async function patchTalkContextSourceRoute(input: {
   note?: string | null;
   sortOrder?: number;
   extractedText?: string | null;
+  refreshIntervalMinutes?: number | null;
+  onChangeJobId?: string | null;
 }): Promise<{
   statusCode: number;
   body: ApiEnvelope<{ source: ContextSourceSnapshot }>;
@@ -490,6 +497,45 @@ export async function patchTalkContextSourceRoute(input: {
       return badRequest('title_required', 'Source title is required.');
     }
 
+    if (
+      input.refreshIntervalMinutes !== undefined ||
+      input.onChangeJobId !== undefined
+    ) {
+      const existing = await getTalkContextSourceById(
+        input.sourceId,
+        input.talkId,
+      );
+      if (!existing) return notFoundResponse('Source not found.');
+      if (existing.sourceType !== 'url') {
+        return badRequest(
+          'source_not_watchable',
+          'Only URL sources can be re-checked for changes.',
+        );
+      }
+      const interval = input.refreshIntervalMinutes;
+      if (
+        interval !== undefined &&
+        interval !== null &&
+        (!Number.isInteger(interval) ||
+          interval < MIN_SOURCE_REFRESH_INTERVAL_MINUTES ||
+          interval > MAX_SOURCE_REFRESH_INTERVAL_MINUTES)
+      ) {
+        return badRequest(
+          'invalid_refresh_interval',
+          `Refresh interval must be a whole number of minutes between ${MIN_SOURCE_REFRESH_INTERVAL_MINUTES} and ${MAX_SOURCE_REFRESH_INTERVAL_MINUTES}.`,
+        );
+      }
+      if (
+        input.onChangeJobId &&
+        !(await getTalkJob(input.talkId, input.onChangeJobId))
+      ) {
+        return badRequest(
+          'invalid_on_change_job',
+          'The on-change job must be a job in this talk.',
+        );
+      }
+    }
+
     const source = await patchTalkContextSource({
       sourceId: input.sourceId,
       talkId: input.talkId,
@@ -497,6 +543,8 @@ export async function patchTalkContextSourceRoute(input: {
       note: input.note,
       sortOrder: input.sortOrder,
       extractedText: input.extractedText,
+      refreshIntervalMinutes: input.refreshIntervalMinutes,
+      onChangeJobId: input.onChangeJobId,
     });
     if (!source) return notFoundResponse('Source not found.');
 
@@ -598,6 +646,38 @@ export async function retryTalkContextSourceRoute(input: {
   });
 }
 
+// ---------------------------------------------------------------------------
+// GET /talks/:talkId/context/sources/:sourceId/revisions
+// ---------------------------------------------------------------------------
+
+export async function listTalkContextSourceRevisionsRoute(input: {
+  auth: AuthContext;
+  talkId: string;
+  sourceId: string;
+  limit?: number;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ revisions: ContextSourceRevisionSnapshot[] }>;
+}> {
+  return await withUserContext(input.auth.userId, async () => {
+    const talk = await talkOrNull(input.talkId);
+    if (!talk) return notFoundResponse('Talk not found.');
+
+    const source = await getTalkContextSourceById(input.sourceId, input.talkId);
+    if (!source) return notFoundResponse('Source not found.');
+
+    const revisions = await listContextSourceRevisions(
+      input.sourceId,
+      input.talkId,
+      input.limit,
+    );
+    return {
+      statusCode: 200,
+      body: { ok: true, data: { revisions } },
+    };
+  });
+}
+
 // ---------------------------------------------------------------------------
 // POST /talks/:talkId/context/sources/upload
 // ---------------------------------------------------------------------------
@@ -10,8 +10,10 @@ import {
   listTalkJobs,
   patchTalkJob,
   pauseTalkJob,
+  previewTalkJobSchedule,
   resumeTalkJob,
   type TalkJob,
+  type TalkJobDeliverable,
   type TalkJobRunSummary,
   type TalkJobSchedule,
   type TalkJobScope,
@@ -127,6 +129,9 @@ export async function createTalkJobRoute(input: {
   schedule: TalkJobSchedule;
   timezone: string;
   sourceScope?: TalkJobScope;
+  deliverable?: TalkJobDeliverable;
+  structuredOutput?: unknown;
+  toolIterationGrant?: unknown;
 }): Promise<{
   statusCode: number;
   body: ApiEnvelope<{ job: TalkJob }>;
@@ -147,6 +152,9 @@ export async function createTalkJobRoute(input: {
         schedule: input.schedule,
         timezone: input.timezone,
         sourceScope: input.sourceScope,
+        deliverable: input.deliverable,
+        structuredOutput: input.structuredOutput,
+        toolIterationGrant: input.toolIterationGrant,
         createdBy: input.auth.userId,
       });
       return {
@@ -162,6 +170,47 @@ export async function createTalkJobRoute(input: {
   });
 }
 
+/**
+ * Validate a draft schedule and return its next `count` fire times, so
+ * the job editor can show what a schedule means before saving it.
+ */
+export async function previewTalkJobScheduleRoute(input: {
+  auth: AuthContext;
+  talkId: string;
+  schedule: unknown;
+  timezone: string;
+  count?: number;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{
+    schedule: TalkJobSchedule;
+    timezone: string;
+    fireTimes: string[];
+  }>;
+}> {
+  return await withUserContext(input.auth.userId, async () => {
+    const talk = await requireTalk(input.talkId);
+    if (!talk) return notFound('Talk not found.');
+
+    try {
+      const preview = previewTalkJobSchedule({
+        schedule: input.schedule,
+        timezone: input.timezone,
+        count: input.count ?? 5,
+      });
+      return {
+        statusCode: 200,
+        body: { ok: true, data: preview },
+      };
+    } catch (error) {
+      return badRequest(
+        'invalid_schedule',
+        error instanceof Error ? error.message : 'Invalid schedule.',
+      );
+    }
+  });
+}
+
 export async function patchTalkJobRoute(input: {
   auth: AuthContext;
   talkId: string;
@@ -172,6 +221,9 @@ export async function patchTalkJobRoute(input: {
   schedule?: TalkJobSchedule;
   timezone?: string;
   sourceScope?: TalkJobScope;
+  deliverable?: TalkJobDeliverable;
+  structuredOutput?: unknown;
+  toolIterationGrant?: unknown;
 }): Promise<{
   statusCode: number;
   body: ApiEnvelope<{ job: TalkJob }>;
@@ -195,6 +247,9 @@ export async function patchTalkJobRoute(input: {
         schedule: input.schedule,
         timezone: input.timezone,
         sourceScope: input.sourceScope,
+        deliverable: input.deliverable,
+        structuredOutput: input.structuredOutput,
+        toolIterationGrant: input.toolIterationGrant,
       });
       if (!job) return notFound('Job not found.');
       return {
@@ -272,7 +327,15 @@ export async function resumeTalkJobRoute(input: {
     const denied = await requireEditAccess(input.talkId);
     if (denied) return denied;
 
-    const job = await resumeTalkJob(input.talkId, input.jobId);
+    let job: TalkJob | undefined;
+    try {
+      job = await resumeTalkJob(input.talkId, input.jobId);
+    } catch (error) {
+      return badRequest(
+        'invalid_schedule',
+        error instanceof Error ? error.message : 'Failed to resume job.',
+      );
+    }
     if (!job) return notFound('Job not found.');
 
     return {
@@ -0,0 +1,108 @@
+// Route tests for /api/v1/talks/:talkId/members. Covers the request
+// validation that runs before any database access; membership writes
+// themselves are gated by the 0047 RLS policies.
+
+import { describe, expect, it } from 'vitest';
+
+import type { AuthContext } from '../types.js';
+import {
+  addTalkMemberRoute,
+  patchTalkMemberRoute,
+  removeTalkMemberRoute,
+  revokeTalkInviteRoute,
+} from './talk-members.js';
+
+const AUTH: AuthContext = {
+  sessionId: 'session-a',
+  userId: '0c777703-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+  role: 'member',
+  authType: 'cookie',
+};
+const TALK_ID = '0c777703-cccc-cccc-cccc-ccccccccc0a1';
+
+describe('addTalkMemberRoute', () => {
+  it('rejects a missing or malformed email', async () => {
+    for (const body of [
+      {},
+      { email: '', role: 'viewer' },
+      { email: 'not-an-email', role: 'viewer' },
+      { email: 'a b@example.com', role: 'viewer' },
+      null,
+    ]) {
+      const result = await addTalkMemberRoute({
+        auth: AUTH,
+        talkId: TALK_ID,
+        body,
+      });
+      expect(result.statusCode).toBe(400);
+      expect(result.body).toMatchObject({
+        ok: false,
+        error: { code: 'invalid_email' },
+      });
+    }
+  });
+
+  it('only accepts the viewer and editor roles', async () => {
+    for (const role of [undefined, 'owner', 'admin', 'EDITOR']) {
+      const result = await addTalkMemberRoute({
+        auth: AUTH,
+        talkId: TALK_ID,
+        body: { email: 'friend@example.com', role },
+      });
+      expect(result.statusCode).toBe(400);
+      expect(result.body).toMatchObject({
+        error: { code: 'invalid_role' },
+      });
+    }
+  });
+});
+
+describe('patchTalkMemberRoute', () => {
+  it('rejects an invalid role before the member id', async () => {
+    const result = await patchTalkMemberRoute({
+      auth: AUTH,
+      talkId: TALK_ID,
+      userId: 'not-a-uuid',
+      body: { role: 'owner' },
+    });
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toMatchObject({ error: { code: 'invalid_role' } });
+  });
+
+  it('treats a malformed member id as not found', async () => {
+    const result = await patchTalkMemberRoute({
+      auth: AUTH,
+      talkId: TALK_ID,
+      userId: 'not-a-uuid',
+      body: { role: 'editor' },
+    });
+    expect(result.statusCode).toBe(404);
+    expect(result.body).toMatchObject({
+      error: { code: 'member_not_found' },
+    });
+  });
+});
+
+describe('malformed ids', () => {
+  it('returns 404 for member removal and invite revocation', async () => {
+    const removed = await removeTalkMemberRoute({
+      auth: AUTH,
+      talkId: TALK_ID,
+      userId: 'nope',
+    });
+    expect(removed.statusCode).toBe(404);
+    expect(removed.body).toMatchObject({
+      error: { code: 'member_not_found' },
+    });
+
+    const revoked = await revokeTalkInviteRoute({
+      auth: AUTH,
+      talkId: TALK_ID,
+      inviteId: 'nope',
+    });
+    expect(revoked.statusCode).toBe(404);
+    expect(revoked.body).toMatchObject({
+      error: { code: 'invite_not_found' },
+    });
+  });
+});
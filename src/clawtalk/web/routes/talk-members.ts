@@ -0,0 +1,329 @@
+// /api/v1/talks/:talkId/members — Talk sharing (migration 0047).
+//
+// GET     lists the owner and members; the owner also gets the pending
+//         invites. Any member can read the list.
+// POST    { email, role: 'viewer' | 'editor' } — owner only
+//            201 { member } when the email belongs to a current member,
+//                whose role is updated
+//            201 { invite } otherwise, account or not (migration
+//                0069); the recipient accepts it from /api/v1/invites,
+//                or claims it when that address first signs in
+//            400 on a bad email or role, the caller's own email, or
+//                the system (Main) Talk
+// PATCH   /:userId { role } — owner only; 404 when not a member
+// DELETE  /:userId — the owner removes a member, or a member leaves
+// DELETE  /invites/:inviteId — owner only, pending invites
+//
+// Membership changes drop the outbox fan-out cache so the next event
+// reaches the new member list.
+
+import { withUserContext } from '../../../db.js';
+import {
+  deleteTalkMember,
+  getTalkForUser,
+  upsertTalkMember,
+  type TalkAccessLevel,
+  type TalkAccessRole,
+  type TalkWithAccessRecord,
+} from '../../db/accessors.js';
+import {
+  deleteTalkInvite,
+  listPendingTalkInvites,
+  listTalkMemberDirectory,
+  shareTalkByEmail,
+  type TalkInviteRecord,
+  type TalkMemberDirectoryRecord,
+} from '../../db/talk-sharing-accessors.js';
+import { forgetTalkMemberCache } from '../../talks/outbox-emit.js';
+import type { ApiEnvelope, AuthContext } from '../types.js';
+
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface TalkMemberApiRecord {
+  userId: string;
+  email: string;
+  displayName: string;
+  role: TalkAccessLevel;
+  joinedAt: string;
+}
+
+export interface TalkInviteApiRecord {
+  id: string;
+  email: string;
+  role: TalkAccessRole;
+  createdAt: string;
+  expiresAt: string;
+}
+
+function toMemberApi(row: TalkMemberDirectoryRecord): TalkMemberApiRecord {
+  return {
+    userId: row.user_id,
+    email: row.email,
+    displayName: row.display_name,
+    role: row.role,
+    joinedAt: row.created_at,
+  };
+}
+
+function toInviteApi(row: TalkInviteRecord): TalkInviteApiRecord {
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+function errorResponse(
+  statusCode: number,
+  code: string,
+  message: string,
+): { statusCode: number; body: ApiEnvelope<never> } {
+  return { statusCode, body: { ok: false, error: { code, message } } };
+}
+
+function readRole(body: unknown): TalkAccessRole | null {
+  const role =
+    body && typeof body === 'object'
+      ? (body as { role?: unknown }).role
+      : undefined;
+  return role === 'viewer' || role === 'editor' ? role : null;
+}
+
+function invalidRole(): { statusCode: number; body: ApiEnvelope<never> } {
+  return errorResponse(
+    400,
+    'invalid_role',
+    "role must be 'viewer' or 'editor'",
+  );
+}
+
+// Shared gate for the owner-only mutations. Returns the error response
+// to send, or null when the caller owns a shareable Talk.
+function ownerGate(
+  talk: TalkWithAccessRecord | undefined,
+): { statusCode: number; body: ApiEnvelope<never> } | null {
+  if (!talk) return errorResponse(404, 'talk_not_found', 'Talk not found');
+  if (talk.access_role !== 'owner') {
+    return errorResponse(
+      403,
+      'forbidden',
+      'Only the Talk owner can manage who it is shared with',
+    );
+  }
+  if (talk.is_system) {
+    return errorResponse(
+      400,
+      'talk_not_shareable',
+      'The Main Talk cannot be shared',
+    );
+  }
+  return null;
+}
+
+export async function listTalkMembersRoute(input: {
+  auth: AuthContext;
+  talkId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{
+    members: TalkMemberApiRecord[];
+    invites: TalkInviteApiRecord[];
+  }>;
+}> {
+  return withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    if (!talk) return errorResponse(404, 'talk_not_found', 'Talk not found');
+    const members = await listTalkMemberDirectory(input.talkId);
+    const invites =
+      talk.access_role === 'owner'
+        ? await listPendingTalkInvites(input.talkId)
+        : [];
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: {
+          members: members.map(toMemberApi),
+          invites: invites.map(toInviteApi),
+        },
+      },
+    };
+  });
+}
+
+export async function addTalkMemberRoute(input: {
+  auth: AuthContext;
+  talkId: string;
+  body: unknown;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{
+    member: TalkMemberApiRecord | null;
+    invite: TalkInviteApiRecord | null;
+  }>;
+}> {
+  const rawEmail =
+    input.body && typeof input.body === 'object'
+      ? (input.body as { email?: unknown }).email
+      : undefined;
+  const email =
+    typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : '';
+  if (!EMAIL_RE.test(email)) {
+    return errorResponse(400, 'invalid_email', 'A valid email is required');
+  }
+  const role = readRole(input.body);
+  if (!role) return invalidRole();
+
+  return withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    const denied = ownerGate(talk);
+    if (denied) return denied;
+
+    const result = await shareTalkByEmail({
+      talkId: input.talkId,
+      email,
+      role,
+      inviteExpiresAt: new Date(Date.now() + INVITE_TTL_MS),
+    });
+    if (result === 'self') {
+      return errorResponse(
+        400,
+        'cannot_share_with_self',
+        'You already own this Talk',
+      );
+    }
+    if (result === 'invited') {
+      const invite = (await listPendingTalkInvites(input.talkId)).find(
+        (row) => row.email.toLowerCase() === email,
+      );
+      return {
+        statusCode: 201,
+        body: {
+          ok: true,
+          data: { member: null, invite: invite ? toInviteApi(invite) : null },
+        },
+      };
+    }
+
+    forgetTalkMemberCache(input.talkId);
+    const member = (await listTalkMemberDirectory(input.talkId)).find(
+      (row) => row.email.toLowerCase() === email,
+    );
+    return {
+      statusCode: 201,
+      body: {
+        ok: true,
+        data: { member: member ? toMemberApi(member) : null, invite: null },
+      },
+    };
+  });
+}
+
+export async function patchTalkMemberRoute(input: {
+  auth: AuthContext;
+  talkId: string;
+  userId: string;
+  body: unknown;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ member: TalkMemberApiRecord }>;
+}> {
+  const role = readRole(input.body);
+  if (!role) return invalidRole();
+  if (!UUID_RE.test(input.userId)) {
+    return errorResponse(404, 'member_not_found', 'Member not found');
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    const denied = ownerGate(talk);
+    if (denied) return denied;
+
+    const existing = (await listTalkMemberDirectory(input.talkId)).find(
+      (row) => row.user_id === input.userId && row.role !== 'owner',
+    );
+    if (!existing) {
+      return errorResponse(404, 'member_not_found', 'Member not found');
+    }
+    await upsertTalkMember({
+      talkId: input.talkId,
+      userId: input.userId,
+      role,
+    });
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: { member: toMemberApi({ ...existing, role }) },
+      },
+    };
+  });
+}
+
+export async function removeTalkMemberRoute(input: {
+  auth: AuthContext;
+  talkId: string;
+  userId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ removed: true }>;
+}> {
+  if (!UUID_RE.test(input.userId)) {
+    return errorResponse(404, 'member_not_found', 'Member not found');
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    if (!talk) return errorResponse(404, 'talk_not_found', 'Talk not found');
+    // Members may remove themselves (leave); anyone else needs the owner.
+    const leaving = input.userId === input.auth.userId;
+    if (!leaving && talk.access_role !== 'owner') {
+      return errorResponse(
+        403,
+        'forbidden',
+        'Only the Talk owner can remove other members',
+      );
+    }
+    const removed = await deleteTalkMember({
+      talkId: input.talkId,
+      userId: input.userId,
+    });
+    if (!removed) {
+      return errorResponse(404, 'member_not_found', 'Member not found');
+    }
+    forgetTalkMemberCache(input.talkId);
+    return { statusCode: 200, body: { ok: true, data: { removed: true } } };
+  });
+}
+
+export async function revokeTalkInviteRoute(input: {
+  auth: AuthContext;
+  talkId: string;
+  inviteId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ revoked: true }>;
+}> {
+  if (!UUID_RE.test(input.inviteId)) {
+    return errorResponse(404, 'invite_not_found', 'Invite not found');
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    const denied = ownerGate(talk);
+    if (denied) return denied;
+    const revoked = await deleteTalkInvite({
+      talkId: input.talkId,
+      inviteId: input.inviteId,
+    });
+    if (!revoked) {
+      return errorResponse(404, 'invite_not_found', 'Invite not found');
+    }
+    return { statusCode: 200, body: { ok: true, data: { revoked: true } } };
+  });
+}
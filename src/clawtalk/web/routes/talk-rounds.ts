@@ -0,0 +1,187 @@
+import { withUserContext } from '../../../db.js';
+import {
+  cancelTalkRunsAtomic,
+  getTalkForUser,
+  listRunnableOrderedSiblings,
+} from '../../db/index.js';
+import {
+  getTalkRoundById,
+  isTerminalTalkRoundStatus,
+  listTalkRounds,
+  type TalkRoundRecord,
+  type TalkRoundStatus,
+} from '../../db/talk-round-accessors.js';
+import { canPostToTalkFromRecord } from '../middleware/acl.js';
+import type { AuthContext, ApiEnvelope } from '../types.js';
+
+export interface TalkRoundApiRecord {
+  id: string;
+  talkId: string;
+  threadId: string;
+  triggerMessageId: string | null;
+  responseGroupId: string;
+  roundNumber: number;
+  roundsLimit: number;
+  orchestrationMode: 'ordered' | 'panel';
+  synthesizerAgentId: string | null;
+  synthesizerRunId: string | null;
+  status: TalkRoundStatus;
+  createdAt: string;
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
+export function toTalkRoundApiRecord(
+  round: TalkRoundRecord,
+): TalkRoundApiRecord {
+  return {
+    id: round.id,
+    talkId: round.talk_id,
+    threadId: round.thread_id,
+    triggerMessageId: round.trigger_message_id,
+    responseGroupId: round.response_group_id,
+    roundNumber: round.round_number,
+    roundsLimit: round.rounds_limit,
+    orchestrationMode: round.orchestration_mode,
+    synthesizerAgentId: round.synthesizer_agent_id,
+    synthesizerRunId: round.synthesizer_run_id,
+    status: round.status,
+    createdAt: round.created_at,
+    startedAt: round.started_at,
+    endedAt: round.ended_at,
+  };
+}
+
+export async function listTalkRoundsRoute(input: {
+  auth: AuthContext;
+  talkId: string;
+  threadId?: string | null;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ talkId: string; rounds: TalkRoundApiRecord[] }>;
+}> {
+  return await withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    if (!talk) {
+      return {
+        statusCode: 404,
+        body: {
+          ok: false,
+          error: { code: 'talk_not_found', message: 'Talk not found' },
+        },
+      };
+    }
+
+    const rounds = await listTalkRounds({
+      talkId: input.talkId,
+      threadId: input.threadId,
+    });
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: {
+          talkId: input.talkId,
+          rounds: rounds.map(toTalkRoundApiRecord),
+        },
+      },
+    };
+  });
+}
+
+/**
+ * Cancel the active runs of one debate round. Earlier rounds keep their
+ * output and later rounds stay queued; `nextRunIds` are the runs the
+ * cancellation unblocked, for the caller to dispatch.
+ */
+export async function cancelTalkRoundRoute(input: {
+  auth: AuthContext;
+  talkId: string;
+  roundId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{
+    talkId: string;
+    round: TalkRoundApiRecord;
+    cancelledRuns: number;
+  }>;
+  nextRunIds: string[];
+}> {
+  return await withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    if (!talk) {
+      return {
+        statusCode: 404,
+        body: {
+          ok: false,
+          error: { code: 'talk_not_found', message: 'Talk not found' },
+        },
+        nextRunIds: [],
+      };
+    }
+
+    if (!canPostToTalkFromRecord(talk)) {
+      return {
+        statusCode: 403,
+        body: {
+          ok: false,
+          error: {
+            code: 'forbidden',
+            message: 'You do not have permission to cancel runs for this talk',
+          },
+        },
+        nextRunIds: [],
+      };
+    }
+
+    const round = await getTalkRoundById(input.roundId);
+    if (!round || round.talk_id !== input.talkId) {
+      return {
+        statusCode: 404,
+        body: {
+          ok: false,
+          error: { code: 'round_not_found', message: 'Round not found' },
+        },
+        nextRunIds: [],
+      };
+    }
+    if (isTerminalTalkRoundStatus(round.status)) {
+      return {
+        statusCode: 409,
+        body: {
+          ok: false,
+          error: {
+            code: 'round_not_active',
+            message: `Round ${round.round_number} has already ended (${round.status})`,
+          },
+        },
+        nextRunIds: [],
+      };
+    }
+
+    const cancellation = await cancelTalkRunsAtomic({
+      talkId: input.talkId,
+      threadId: round.thread_id,
+      roundId: round.id,
+      cancelledBy: input.auth.userId,
+      ownerId: talk.owner_id,
+    });
+    const settled = (await getTalkRoundById(round.id)) ?? round;
+    const nextRunIds = await listRunnableOrderedSiblings(
+      round.response_group_id,
+    );
+
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: {
+          talkId: input.talkId,
+          round: toTalkRoundApiRecord(settled),
+          cancelledRuns: cancellation.cancelledRuns,
+        },
+      },
+      nextRunIds,
+    };
+  });
+}
@@ -33,6 +33,8 @@ export interface TalkSnapshotApiTalk {
   sortOrder: number;
   title: string | null;
   orchestrationMode: 'ordered' | 'panel';
+  roundsLimit: number;
+  synthesizerAgentId: string | null;
   status: 'active' | 'paused' | 'archived';
   version: number;
   createdAt: string;
@@ -77,6 +79,7 @@ export interface TalkSnapshotApiRun {
   status: TalkRunStatus;
   responseGroupId: string | null;
   sequenceIndex: number | null;
+  roundId: string | null;
   createdAt: string;
   startedAt: string | null;
   endedAt: string | null;
@@ -117,6 +120,8 @@ function toApiTalk(row: TalkWithAccessRecord): TalkSnapshotApiTalk {
     sortOrder: row.sort_order,
     title: row.topic_title,
     orchestrationMode: row.orchestration_mode,
+    roundsLimit: row.rounds_limit,
+    synthesizerAgentId: row.synthesizer_agent_id,
     status: row.status,
     version: row.version,
     createdAt: row.created_at,
@@ -177,6 +182,7 @@ function toApiRun(row: TalkRunRecord): TalkSnapshotApiRun {
     status: row.status,
     responseGroupId: row.response_group_id,
     sequenceIndex: row.sequence_index,
+    roundId: row.round_id,
     createdAt: row.created_at,
     startedAt: row.started_at,
     endedAt: row.ended_at,
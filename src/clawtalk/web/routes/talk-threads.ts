@@ -13,7 +13,7 @@ import {
   ThreadTitleValidationError,
   validateEditableThreadTitle,
 } from '../../db/thread-title-utils.js';
-import { canEditTalk } from '../middleware/acl.js';
+import { canEditTalk, canPostToTalkFromRecord } from '../middleware/acl.js';
 import type { AuthContext, ApiEnvelope } from '../types.js';
 
 export async function listTalkThreadsRoute(input: {
@@ -37,7 +37,7 @@ export async function listTalkThreadsRoute(input: {
 
     const threads = await listTalkThreads({
       talkId: input.talkId,
-      ownerId: input.auth.userId,
+      ownerId: talk.owner_id,
     });
     return {
       statusCode: 200,
@@ -66,7 +66,7 @@ export async function createTalkThreadRoute(input: {
       };
     }
 
-    if (!(await canEditTalk(input.talkId))) {
+    if (!canPostToTalkFromRecord(talk)) {
       return {
         statusCode: 403,
         body: {
@@ -81,7 +81,7 @@ export async function createTalkThreadRoute(input: {
     }
 
     const thread = await createTalkThread({
-      ownerId: input.auth.userId,
+      ownerId: talk.owner_id,
       talkId: input.talkId,
       title: input.title,
     });
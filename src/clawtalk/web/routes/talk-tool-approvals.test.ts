@@ -0,0 +1,48 @@
+// Route tests for /api/v1/talks/:talkId/tool-approvals. Covers the
+// request validation that runs before any database access; the decide
+// path itself is a guarded UPDATE under RLS.
+
+import { describe, expect, it } from 'vitest';
+
+import type { AuthContext } from '../types.js';
+import { decideTalkToolApprovalRoute } from './talk-tool-approvals.js';
+
+const AUTH: AuthContext = {
+  sessionId: 'session-a',
+  userId: '0c777702-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+  role: 'member',
+  authType: 'cookie',
+};
+const TALK_ID = '0c777702-cccc-cccc-cccc-ccccccccc0a1';
+const APPROVAL_ID = '0c777702-dddd-dddd-dddd-ddddddddd0a1';
+
+describe('decideTalkToolApprovalRoute', () => {
+  it('rejects anything but approve or deny', async () => {
+    for (const body of [{}, { decision: 'approved' }, null, 'approve']) {
+      const result = await decideTalkToolApprovalRoute({
+        auth: AUTH,
+        talkId: TALK_ID,
+        approvalId: APPROVAL_ID,
+        body,
+      });
+      expect(result.statusCode).toBe(400);
+      expect(result.body).toMatchObject({
+        ok: false,
+        error: { code: 'invalid_decision' },
+      });
+    }
+  });
+
+  it('treats a malformed approval id as not found', async () => {
+    const result = await decideTalkToolApprovalRoute({
+      auth: AUTH,
+      talkId: TALK_ID,
+      approvalId: 'not-a-uuid',
+      body: { decision: 'approve' },
+    });
+    expect(result.statusCode).toBe(404);
+    expect(result.body).toMatchObject({
+      error: { code: 'approval_not_found' },
+    });
+  });
+});
@@ -0,0 +1,122 @@
+// /api/v1/talks/:talkId/tool-approvals — human-in-the-loop tool approval
+// (migration 0046).
+//
+// GET   lists the Talk's pending, unexpired approvals, oldest first, so a
+//       tab opened mid-wait can render the approval card.
+// POST  /:approvalId takes { decision: 'approve' | 'deny' }
+//          400 on any other decision
+//          404 when the Talk or approval is not the caller's
+//          409 when the approval was already decided or has expired
+//
+// The paused run polls the row, so the decision is picked up within a
+// second; the run then emits talk_tool_approval_resolved itself.
+
+import { withUserContext } from '../../../db.js';
+import { getTalkForUser } from '../../db/accessors.js';
+import {
+  decideTalkToolApproval,
+  getTalkToolApproval,
+  listPendingTalkToolApprovals,
+} from '../../db/tool-approval-accessors.js';
+import {
+  toToolApprovalApi,
+  type ToolApprovalApiRecord,
+} from '../../talks/tool-approvals.js';
+import type { ApiEnvelope, AuthContext } from '../types.js';
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function notFound(
+  code: string,
+  message: string,
+): { statusCode: number; body: ApiEnvelope<never> } {
+  return {
+    statusCode: 404,
+    body: { ok: false, error: { code, message } },
+  };
+}
+
+export async function listTalkToolApprovalsRoute(input: {
+  talkId: string;
+  auth: AuthContext;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ approvals: ToolApprovalApiRecord[] }>;
+}> {
+  return withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    if (!talk) return notFound('talk_not_found', 'Talk not found');
+    const approvals = await listPendingTalkToolApprovals(input.talkId);
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: { approvals: approvals.map(toToolApprovalApi) },
+      },
+    };
+  });
+}
+
+export async function decideTalkToolApprovalRoute(input: {
+  talkId: string;
+  approvalId: string;
+  auth: AuthContext;
+  body: unknown;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ approval: ToolApprovalApiRecord }>;
+}> {
+  const decision =
+    input.body && typeof input.body === 'object'
+      ? (input.body as { decision?: unknown }).decision
+      : undefined;
+  if (decision !== 'approve' && decision !== 'deny') {
+    return {
+      statusCode: 400,
+      body: {
+        ok: false,
+        error: {
+          code: 'invalid_decision',
+          message: "decision must be 'approve' or 'deny'",
+        },
+      },
+    };
+  }
+  if (!UUID_RE.test(input.approvalId)) {
+    return notFound('approval_not_found', 'Tool approval not found');
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    if (!talk) return notFound('talk_not_found', 'Talk not found');
+    const existing = await getTalkToolApproval(input.approvalId);
+    if (!existing || existing.talk_id !== input.talkId) {
+      return notFound('approval_not_found', 'Tool approval not found');
+    }
+    const decided = await decideTalkToolApproval({
+      approvalId: existing.id,
+      decision: decision === 'approve' ? 'approved' : 'denied',
+      decidedBy: input.auth.userId,
+    });
+    if (!decided) {
+      return {
+        statusCode: 409,
+        body: {
+          ok: false,
+          error: {
+            code: 'approval_not_pending',
+            message:
+              existing.status === 'pending'
+                ? 'This tool call has expired and was not run.'
+                : `This tool call was already ${existing.status}.`,
+          },
+        },
+      };
+    }
+    return {
+      statusCode: 200,
+      body: { ok: true, data: { approval: toToolApprovalApi(decided) } },
+    };
+  });
+}
@@ -15,7 +15,7 @@
 //   │   └── [★★★ Test 6] >20k content → 400               ├── [★★★ Test 2] @-mention routes to single agent
 //   ├── getTalkForUser(talkId)                           ├── [★★★ Test 3] missing talk → 404
 //   │   └── [★★ Tests 1, 2] talk returned                 └── [★★★ Test 4] visibility-gated edit check
-//   ├── canEditTalkFromRecord(talk)
+//   ├── canPostToTalkFromRecord(talk)
 //   │   └── [★★★ Test 4] talk visible → allow             [+] Heal flow
 //   ├── resolveTalkAgentMentionsFromList(list, content)   └── [★★★ Test 9] empty talk_agents heals on the spot
 //   │   ├── [★★★ Test 2] @-mention picks targeted agent
@@ -181,9 +181,8 @@ describe('enqueueTalkChat — DB-backed paths', () => {
   });
 
   it('Test 4: invisible talk (cross-owner) returns 404 BEFORE edit check', async () => {
-    // Per codex C3: current RLS returns 404 (not 403) for non-owner via
-    // getTalkForUser. canEditTalkFromRecord is dead code for non-owner
-    // today; this test documents the observed behavior.
+    // Per codex C3: RLS returns 404 (not 403) for a non-member via
+    // getTalkForUser; canPostToTalkFromRecord only sees members.
     const otherUserId = '0c999999-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
     await seedAuthUser(otherUserId, 'other-owner@clawtalk.test');
     const otherTalkId = await withUserContext(otherUserId, async () => {
@@ -36,6 +36,23 @@ import {
   type TalkWithAccessRecord,
 } from '../../db/accessors.js';
 import { listMessageAttachments } from '../../db/context-accessors.js';
+import {
+  DEFAULT_TOOL_ITERATION_GRANT,
+  grantTalkRunIterations,
+  isToolIterationGrant,
+  MAX_TOOL_ITERATION_GRANT,
+} from '../../db/run-continuation-accessors.js';
+import { listTalkRunTraceSteps } from '../../db/run-trace-accessors.js';
+import {
+  listTalkRunChannelPosts,
+  type TalkRunChannelPostPlatform,
+} from '../../db/channel-post-accessors.js';
+import type { RunTraceStepKind } from '../../talks/run-trace.js';
+import {
+  listChannelDeliveriesForRuns,
+  type ChannelDeliveryRecord,
+  type ChannelDeliveryStatus,
+} from '../../db/channel-delivery-accessors.js';
 import type { TalkPersonaRole } from '../../llm/types.js';
 import {
   modelSupportsPdfDocuments,
@@ -63,11 +80,25 @@ import {
   ExecutionPlannerError,
   planExecution,
 } from '../../agents/execution-planner.js';
+import {
+  normalizeStructuredOutputConfig,
+  type StructuredOutputConfig,
+} from '../../agents/structured-output.js';
 import { MAX_ATTACHMENTS_PER_MESSAGE } from '../../talks/attachment-extraction.js';
-import { canEditTalk, canEditTalkFromRecord } from '../middleware/acl.js';
+import { canEditTalk, canPostToTalkFromRecord } from '../middleware/acl.js';
 import { AuthContext, ApiEnvelope } from '../types.js';
 import { getContentByTalkId } from '../../db/content-accessors.js';
 import { isContentEditIntent } from '../../talks/content-edit-intent.js';
+import { emitOutboxEvent } from '../../talks/outbox-emit.js';
+import {
+  toTalkRoundApiRecord,
+  type TalkRoundApiRecord,
+} from './talk-rounds.js';
+import {
+  isTalkRoundsLimit,
+  planTalkRounds,
+  type TalkRoundsLimit,
+} from '../../talks/talk-rounds.js';
 
 const TALK_BROWSER_EXECUTION_SETUP_MESSAGE =
   "Browser access is not configured for this agent. Configure the agent's execution credentials in AI Agents before retrying. For Claude agents, run `claude login` and import subscription auth, or add an Anthropic API key.";
@@ -79,6 +110,8 @@ interface TalkApiRecord {
   sortOrder: number;
   title: string | null;
   orchestrationMode: 'ordered' | 'panel';
+  roundsLimit: TalkRoundsLimit;
+  synthesizerAgentId: string | null;
   agents: string[];
   status: 'active' | 'paused' | 'archived';
   version: number;
@@ -98,6 +131,12 @@ interface SidebarTalkApiRecord {
   hasContent: boolean;
 }
 
+// A Talk another user shared with the caller. No sortOrder semantics —
+// the owner's folders and ordering don't apply to members.
+interface SharedSidebarTalkApiRecord extends SidebarTalkApiRecord {
+  accessRole: 'editor' | 'viewer';
+}
+
 interface ContentSidebarApiRecord {
   id: string;
   talkId: string;
@@ -180,10 +219,14 @@ export interface TalkRunApiRecord {
   threadId: string;
   responseGroupId: string | null;
   sequenceIndex: number | null;
+  // Debate round (talk_rounds) the run belongs to; null for single-pass
+  // turns.
+  roundId: string | null;
   status:
     | 'queued'
     | 'running'
     | 'awaiting_confirmation'
+    | 'paused'
     | 'cancelled'
     | 'completed'
     | 'failed';
@@ -205,6 +248,41 @@ export interface TalkRunApiRecord {
   completionStatus?: 'complete' | 'incomplete' | null;
   providerStopReason?: string | null;
   incompleteReason?: 'truncated' | 'empty' | 'unknown' | null;
+  // Outbound Slack / Telegram / Discord reply for channel-triggered runs;
+  // null for runs that did not come from a channel (or have not completed
+  // yet).
+  channelDelivery?: TalkRunChannelDeliveryApiRecord | null;
+}
+
+export interface TalkRunChannelDeliveryApiRecord {
+  status: ChannelDeliveryStatus;
+  platform: 'slack' | 'telegram' | 'discord';
+  attemptCount: number;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  externalMessageIds: string[];
+  lastError: string | null;
+  suppressedReason: string | null;
+}
+
+export interface TalkRunTraceStepApiRecord {
+  id: string;
+  kind: RunTraceStepKind;
+  startedAt: string;
+  durationMs: number | null;
+  data: Record<string, unknown>;
+}
+
+export interface TalkRunChannelPostApiRecord {
+  id: string;
+  agentId: string | null;
+  channelId: string | null;
+  platform: TalkRunChannelPostPlatform;
+  targetId: string;
+  threadKey: string | null;
+  text: string;
+  externalMessageId: string;
+  createdAt: string;
 }
 
 function parseTalkRunContextSnapshot(
@@ -276,9 +354,8 @@ const MAX_TALK_AGENT_NAME_CHARS = 80;
 
 async function toTalkApiRecord(
   talk: TalkWithAccessRecord,
-  ownerId: string,
 ): Promise<TalkApiRecord> {
-  const effectiveAgents = await listEffectiveTalkAgents(talk.id, ownerId);
+  const effectiveAgents = await listEffectiveTalkAgents(talk.id, talk.owner_id);
   const agents = effectiveAgents.map((a) => a.nickname);
   return {
     id: talk.id,
@@ -287,6 +364,8 @@ async function toTalkApiRecord(
     sortOrder: talk.sort_order,
     title: talk.topic_title,
     orchestrationMode: talk.orchestration_mode,
+    roundsLimit: isTalkRoundsLimit(talk.rounds_limit) ? talk.rounds_limit : 1,
+    synthesizerAgentId: talk.synthesizer_agent_id,
     agents: agents.length > 0 ? agents : DEFAULT_TALK_AGENTS,
     status: talk.status,
     version: talk.version,
@@ -716,7 +795,7 @@ export async function listTalksRoute(input: {
       offset: page.offset,
     });
     const apiRecords = await Promise.all(
-      talks.map((talk) => toTalkApiRecord(talk, input.auth.userId)),
+      talks.map((talk) => toTalkApiRecord(talk)),
     );
 
     return {
@@ -742,12 +821,19 @@ export async function listTalkSidebarRoute(input: {
   statusCode: number;
   body: ApiEnvelope<{
     items: TalkSidebarItemApiRecord[];
+    sharedTalks: SharedSidebarTalkApiRecord[];
     mainTalkId: string | null;
     contents: ContentSidebarApiRecord[];
   }>;
 }> {
   return await withUserContext(input.auth.userId, async () => {
     const tree = await listTalkSidebarTreeForUser();
+    const sharedTalks: SharedSidebarTalkApiRecord[] = tree.sharedTalks.map(
+      (talk) => ({
+        ...toSidebarTalkApiRecord(talk),
+        accessRole: talk.access_role === 'editor' ? 'editor' : 'viewer',
+      }),
+    );
     const rootItems: TalkSidebarItemApiRecord[] = [
       ...tree.rootTalks.map((talk) => ({
         type: 'talk' as const,
@@ -778,6 +864,7 @@ export async function listTalkSidebarRoute(input: {
         ok: true,
         data: {
           items: rootItems,
+          sharedTalks,
           mainTalkId: tree.mainTalkId,
           contents,
         },
@@ -1009,7 +1096,7 @@ export async function createTalkRoute(input: {
       body: {
         ok: true,
         data: {
-          talk: await toTalkApiRecord(talk, input.auth.userId),
+          talk: await toTalkApiRecord(talk),
         },
       },
     };
@@ -1022,6 +1109,8 @@ export async function patchTalkRoute(input: {
   title?: string;
   folderId?: string | null;
   orchestrationMode?: 'ordered' | 'panel';
+  roundsLimit?: number;
+  synthesizerAgentId?: string | null;
 }): Promise<{
   statusCode: number;
   body: ApiEnvelope<{ talk: TalkApiRecord }>;
@@ -1067,6 +1156,21 @@ export async function patchTalkRoute(input: {
       },
     };
   }
+  if (
+    input.roundsLimit !== undefined &&
+    !isTalkRoundsLimit(input.roundsLimit)
+  ) {
+    return {
+      statusCode: 400,
+      body: {
+        ok: false,
+        error: {
+          code: 'invalid_rounds_limit',
+          message: 'Rounds limit must be 1, 2, 3 or 5',
+        },
+      },
+    };
+  }
 
   return await withUserContext(input.auth.userId, async () => {
     const talk = await getTalkForUser(input.talkId);
@@ -1089,12 +1193,33 @@ export async function patchTalkRoute(input: {
       };
     }
 
+    // The synthesizer must be one of this Talk's agents; it closes each
+    // debate round, so an agent outside the Talk could never be routed.
+    if (typeof input.synthesizerAgentId === 'string') {
+      const synthesizerAgentId = input.synthesizerAgentId;
+      const talkAgents = await listTalkAgents(input.talkId);
+      if (!talkAgents.some((agent) => agent.agentId === synthesizerAgentId)) {
+        return {
+          statusCode: 400,
+          body: {
+            ok: false,
+            error: {
+              code: 'invalid_synthesizer_agent',
+              message: 'The synthesizer must be an agent assigned to this talk',
+            },
+          },
+        };
+      }
+    }
+
     const updated = await patchTalkMetadata({
       talkId: input.talkId,
       ownerId: talk.owner_id,
       title: rawTitle,
       folderId: input.folderId,
       orchestrationMode: input.orchestrationMode,
+      roundsLimit: input.roundsLimit,
+      synthesizerAgentId: input.synthesizerAgentId,
     });
     const reloaded = updated ? await getTalkForUser(updated.id) : undefined;
     if (!reloaded) {
@@ -1111,7 +1236,7 @@ export async function patchTalkRoute(input: {
       body: {
         ok: true,
         data: {
-          talk: await toTalkApiRecord(reloaded, input.auth.userId),
+          talk: await toTalkApiRecord(reloaded),
         },
       },
     };
@@ -1266,7 +1391,7 @@ export async function getTalkRoute(input: {
       body: {
         ok: true,
         data: {
-          talk: await toTalkApiRecord(talk, input.auth.userId),
+          talk: await toTalkApiRecord(talk),
         },
       },
     };
@@ -1860,6 +1985,11 @@ export async function enqueueTalkChat(input: {
   content: string;
   targetAgentIds?: string[] | null;
   attachmentIds?: string[] | null;
+  /**
+   * Ask every run of this turn for a JSON reply matching a schema (see
+   * agents/structured-output.ts). Copied onto each run's metadata.
+   */
+  structuredOutput?: unknown;
   idempotencyKey?: string | null;
 }): Promise<{
   statusCode: number;
@@ -1870,10 +2000,12 @@ export async function enqueueTalkChat(input: {
       id: string;
       responseGroupId: string | null;
       sequenceIndex: number | null;
+      roundId: string | null;
       status:
         | 'queued'
         | 'running'
         | 'awaiting_confirmation'
+        | 'paused'
         | 'cancelled'
         | 'completed'
         | 'failed';
@@ -1889,6 +2021,7 @@ export async function enqueueTalkChat(input: {
       executorAlias: string | null;
       executorModel: string | null;
     }>;
+    rounds: TalkRoundApiRecord[];
     forcedSerialReason?: 'doc_edit_intent' | null;
   }>;
 }> {
@@ -1917,6 +2050,24 @@ export async function enqueueTalkChat(input: {
       },
     };
   }
+  let structuredOutput: StructuredOutputConfig | null;
+  try {
+    structuredOutput = normalizeStructuredOutputConfig(input.structuredOutput);
+  } catch (error) {
+    return {
+      statusCode: 400,
+      body: {
+        ok: false,
+        error: {
+          code: 'invalid_structured_output',
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Structured output is invalid',
+        },
+      },
+    };
+  }
 
   return await withUserContext(input.auth.userId, async () => {
     const talk = await getTalkForUser(input.talkId);
@@ -1933,13 +2084,10 @@ export async function enqueueTalkChat(input: {
       };
     }
 
-    // Reuse the already-loaded talk record instead of re-running the
-    // RLS-gated SELECT inside canEditTalk. Today canEditTalkFromRecord
-    // returns talk !== undefined — observationally identical to
-    // canEditTalk(talkId) since getTalkForUser already verified
-    // visibility. When real ACL/access_role lands, both code paths
-    // MUST update together so this stays a faithful mirror.
-    if (!canEditTalkFromRecord(talk)) {
+    // Owners and editors post; viewers read only. Reuses the
+    // access_role getTalkForUser already resolved instead of a second
+    // RLS round trip.
+    if (!canPostToTalkFromRecord(talk)) {
       return {
         statusCode: 403,
         body: {
@@ -2014,7 +2162,35 @@ export async function enqueueTalkChat(input: {
       };
     }
 
-    for (const agent of selectedAgents) {
+    // Multi-round debate: the Talk's rounds limit and synthesizer turn the
+    // selected agents into round-strided steps (see talks/talk-rounds.ts).
+    // Null keeps the single-pass routing above. A doc-edit fan-out still
+    // serializes, so it forces ordered rounds.
+    const synthesizerAssignment = talk.synthesizer_agent_id
+      ? talkAgents.find((a) => a.agentId === talk.synthesizer_agent_id)
+      : undefined;
+    const roundPlan = planTalkRounds({
+      selectedAgents,
+      synthesizer: synthesizerAssignment
+        ? {
+            id: synthesizerAssignment.agentId,
+            nickname:
+              synthesizerAssignment.nickname || synthesizerAssignment.agentName,
+          }
+        : null,
+      roundsLimit: isTalkRoundsLimit(talk.rounds_limit) ? talk.rounds_limit : 1,
+      mode: forceSerialForDocEdit ? 'ordered' : talk.orchestration_mode,
+    });
+    const runAgents: Array<{ id: string; nickname: string }> = roundPlan
+      ? roundPlan.steps.map((step) => ({
+          id: step.agentId,
+          nickname: step.nickname,
+        }))
+      : selectedAgents;
+
+    for (const agent of new Map(
+      runAgents.map((runAgent) => [runAgent.id, runAgent]),
+    ).values()) {
       const browserPreflightError = await getBrowserPreflightErrorForAgent(
         agent.id,
         input.auth.userId,
@@ -2035,7 +2211,7 @@ export async function enqueueTalkChat(input: {
     }
 
     const messageId = randomUUID();
-    const runIds = selectedAgents.map(() => randomUUID());
+    const runIds = runAgents.map(() => randomUUID());
     const responseGroupId = randomUUID();
     let persisted: Awaited<ReturnType<typeof enqueueTalkTurnAtomic>>;
     try {
@@ -2051,20 +2227,32 @@ export async function enqueueTalkChat(input: {
         content,
         messageId,
         runIds,
-        targetAgentIds: selectedAgents.map((agent) => agent.id),
-        targetAgentNicknames: selectedAgents.map(
-          (agent) => agent.nickname ?? null,
-        ),
+        targetAgentIds: runAgents.map((agent) => agent.id),
+        targetAgentNicknames: runAgents.map((agent) => agent.nickname ?? null),
         responseGroupId,
-        sequenceIndexes: orderedRunSet
-          ? selectedAgents.map((_, index) => index)
-          : selectedAgents.map(() => null),
+        sequenceIndexes: roundPlan
+          ? roundPlan.steps.map((step) => step.sequenceIndex)
+          : orderedRunSet
+            ? selectedAgents.map((_, index) => index)
+            : selectedAgents.map(() => null),
+        rounds: roundPlan
+          ? {
+              roundsLimit: roundPlan.roundsLimit,
+              mode: roundPlan.mode,
+              synthesizerAgentId: roundPlan.synthesizerAgentId,
+              steps: roundPlan.steps.map((step) => ({
+                roundNumber: step.roundNumber,
+                synthesizer: step.synthesizer,
+              })),
+            }
+          : null,
         attachmentIds:
           Array.isArray(input.attachmentIds) && input.attachmentIds.length > 0
             ? input.attachmentIds
             : undefined,
         maxAttachmentsPerMessage: MAX_ATTACHMENTS_PER_MESSAGE,
         idempotencyKey: input.idempotencyKey,
+        runMetadata: structuredOutput ? { structuredOutput } : null,
       });
     } catch (error) {
       if (error instanceof TalkActiveRoundError && error.scope === 'thread') {
@@ -2117,7 +2305,7 @@ export async function enqueueTalkChat(input: {
     }
 
     const agentNicknameById = new Map(
-      selectedAgents.map((agent) => [agent.id, agent.nickname]),
+      runAgents.map((agent) => [agent.id, agent.nickname]),
     );
 
     return {
@@ -2132,6 +2320,7 @@ export async function enqueueTalkChat(input: {
             threadId: run.thread_id,
             responseGroupId: run.response_group_id || null,
             sequenceIndex: run.sequence_index ?? null,
+            roundId: run.round_id ?? null,
             status: run.status,
             createdAt: run.created_at,
             startedAt: run.started_at,
@@ -2148,6 +2337,7 @@ export async function enqueueTalkChat(input: {
             executorAlias: run.executor_alias,
             executorModel: run.executor_model,
           })),
+          rounds: persisted.rounds.map(toTalkRoundApiRecord),
           forcedSerialReason,
         },
       },
@@ -2229,9 +2419,25 @@ export async function searchTalkMessagesRoute(input: {
   });
 }
 
+function toTalkRunChannelDeliveryApiRecord(
+  delivery: ChannelDeliveryRecord,
+): TalkRunChannelDeliveryApiRecord {
+  return {
+    status: delivery.status,
+    platform: delivery.platform,
+    attemptCount: delivery.attempt_count,
+    nextAttemptAt: delivery.next_attempt_at,
+    deliveredAt: delivery.delivered_at,
+    externalMessageIds: delivery.external_message_ids,
+    lastError: delivery.last_error,
+    suppressedReason: delivery.suppressed_reason,
+  };
+}
+
 function toTalkRunApiRecord(
   run: TalkRunRecord,
   nicknameByAgentId: Map<string, string>,
+  channelDelivery: ChannelDeliveryRecord | null = null,
 ): TalkRunApiRecord {
   const parsedError = parseTalkRunError(run);
   const metadata = parseRunMetadata(run.metadata_json);
@@ -2241,6 +2447,7 @@ function toTalkRunApiRecord(
     threadId: run.thread_id,
     responseGroupId: run.response_group_id || null,
     sequenceIndex: run.sequence_index ?? null,
+    roundId: run.round_id ?? null,
     status: run.status,
     createdAt: run.created_at,
     startedAt: run.started_at,
@@ -2277,6 +2484,9 @@ function toTalkRunApiRecord(
     completionStatus: responseMetadata.completionStatus,
     providerStopReason: responseMetadata.providerStopReason,
     incompleteReason: responseMetadata.incompleteReason,
+    channelDelivery: channelDelivery
+      ? toTalkRunChannelDeliveryApiRecord(channelDelivery)
+      : null,
   };
 }
 
@@ -2310,6 +2520,12 @@ export async function listTalkRunsRoute(input: {
     const nicknameByAgentId = new Map<string, string>(
       assignments.map((a) => [a.agentId, a.nickname || a.agentName]),
     );
+    const deliveries = await listChannelDeliveriesForRuns(
+      runs.filter((run) => run.source_binding_id).map((run) => run.id),
+    );
+    const deliveryByRunId = new Map(
+      deliveries.map((delivery) => [delivery.run_id, delivery]),
+    );
 
     return {
       statusCode: 200,
@@ -2317,7 +2533,13 @@ export async function listTalkRunsRoute(input: {
         ok: true,
         data: {
           talkId: input.talkId,
-          runs: runs.map((run) => toTalkRunApiRecord(run, nicknameByAgentId)),
+          runs: runs.map((run) =>
+            toTalkRunApiRecord(
+              run,
+              nicknameByAgentId,
+              deliveryByRunId.get(run.id) ?? null,
+            ),
+          ),
         },
       },
     };
@@ -2379,6 +2601,252 @@ export async function getTalkRunContextRoute(input: {
   });
 }
 
+/**
+ * The run's execution trace: model turns, tool calls with their
+ * (capped, redacted) results, retries and fallback hops, in order.
+ */
+export async function getTalkRunTraceRoute(input: {
+  talkId: string;
+  runId: string;
+  auth: AuthContext;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{
+    talkId: string;
+    runId: string;
+    steps: TalkRunTraceStepApiRecord[];
+  }>;
+}> {
+  return await withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    if (!talk) {
+      return {
+        statusCode: 404,
+        body: {
+          ok: false,
+          error: {
+            code: 'talk_not_found',
+            message: 'Talk not found',
+          },
+        },
+      };
+    }
+
+    const run = await getTalkRunById(input.runId);
+    if (!run || run.talk_id !== input.talkId) {
+      return {
+        statusCode: 404,
+        body: {
+          ok: false,
+          error: {
+            code: 'run_not_found',
+            message: 'Run not found',
+          },
+        },
+      };
+    }
+
+    const steps = await listTalkRunTraceSteps(input.runId);
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: {
+          talkId: input.talkId,
+          runId: input.runId,
+          steps: steps.map((step) => ({
+            id: step.id,
+            kind: step.kind,
+            startedAt: step.started_at,
+            durationMs: step.duration_ms,
+            data: step.data_json,
+          })),
+        },
+      },
+    };
+  });
+}
+
+/**
+ * Messages the run's agents posted with messaging tools, oldest first —
+ * the audit trail for what an agent broadcast.
+ */
+export async function getTalkRunChannelPostsRoute(input: {
+  talkId: string;
+  runId: string;
+  auth: AuthContext;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{
+    talkId: string;
+    runId: string;
+    posts: TalkRunChannelPostApiRecord[];
+  }>;
+}> {
+  return await withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    if (!talk) {
+      return {
+        statusCode: 404,
+        body: {
+          ok: false,
+          error: {
+            code: 'talk_not_found',
+            message: 'Talk not found',
+          },
+        },
+      };
+    }
+
+    const run = await getTalkRunById(input.runId);
+    if (!run || run.talk_id !== input.talkId) {
+      return {
+        statusCode: 404,
+        body: {
+          ok: false,
+          error: {
+            code: 'run_not_found',
+            message: 'Run not found',
+          },
+        },
+      };
+    }
+
+    const posts = await listTalkRunChannelPosts(input.runId);
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: {
+          talkId: input.talkId,
+          runId: input.runId,
+          posts: posts.map((post) => ({
+            id: post.id,
+            agentId: post.agent_id,
+            channelId: post.channel_id,
+            platform: post.platform,
+            targetId: post.target_id,
+            threadKey: post.thread_key,
+            text: post.text,
+            externalMessageId: post.external_message_id,
+            createdAt: post.created_at,
+          })),
+        },
+      },
+    };
+  });
+}
+
+/**
+ * Grant a run paused at the tool-iteration limit more iterations and
+ * queue it again. The caller dispatches the run after the commit.
+ */
+export async function continueTalkRunRoute(input: {
+  talkId: string;
+  runId: string;
+  iterations?: unknown;
+  auth: AuthContext;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ talkId: string; runId: string; iterations: number }>;
+}> {
+  const iterations = input.iterations ?? DEFAULT_TOOL_ITERATION_GRANT;
+  if (!isToolIterationGrant(iterations)) {
+    return {
+      statusCode: 400,
+      body: {
+        ok: false,
+        error: {
+          code: 'invalid_iterations',
+          message: `iterations must be a whole number from 1 to ${MAX_TOOL_ITERATION_GRANT}`,
+        },
+      },
+    };
+  }
+
+  return await withUserContext(input.auth.userId, async () => {
+    const talk = await getTalkForUser(input.talkId);
+    if (!talk) {
+      return {
+        statusCode: 404,
+        body: {
+          ok: false,
+          error: {
+            code: 'talk_not_found',
+            message: 'Talk not found',
+          },
+        },
+      };
+    }
+
+    if (!canPostToTalkFromRecord(talk)) {
+      return {
+        statusCode: 403,
+        body: {
+          ok: false,
+          error: {
+            code: 'forbidden',
+            message:
+              'You do not have permission to continue runs for this talk',
+          },
+        },
+      };
+    }
+
+    const run = await getTalkRunById(input.runId);
+    if (!run || run.talk_id !== input.talkId) {
+      return {
+        statusCode: 404,
+        body: {
+          ok: false,
+          error: {
+            code: 'run_not_found',
+            message: 'Run not found',
+          },
+        },
+      };
+    }
+
+    const granted = await grantTalkRunIterations({
+      runId: run.id,
+      iterations,
+    });
+    if (!granted) {
+      return {
+        statusCode: 409,
+        body: {
+          ok: false,
+          error: {
+            code: 'run_not_paused',
+            message: 'Run is not paused at the tool-call limit',
+          },
+        },
+      };
+    }
+
+    await emitOutboxEvent({
+      topic: `talk:${input.talkId}`,
+      eventType: 'talk_run_continued',
+      payload: {
+        talkId: input.talkId,
+        threadId: run.thread_id,
+        runId: run.id,
+        iterations,
+        auto: false,
+      },
+      ownerIds: [talk.owner_id],
+    });
+
+    return {
+      statusCode: 202,
+      body: {
+        ok: true,
+        data: { talkId: input.talkId, runId: run.id, iterations },
+      },
+    };
+  });
+}
+
 export async function cancelTalkChat(input: {
   talkId: string;
   threadId?: string | null;
@@ -2408,7 +2876,7 @@ export async function cancelTalkChat(input: {
       };
     }
 
-    if (!(await canEditTalk(input.talkId))) {
+    if (!canPostToTalkFromRecord(talk)) {
       return {
         statusCode: 403,
         body: {
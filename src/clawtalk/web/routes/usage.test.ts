@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { summarizeUsageRows, type UsageRollupApiRow } from './usage.js';
+
+function row(overrides: Partial<UsageRollupApiRow>): UsageRollupApiRow {
+  return {
+    day: '2026-10-18',
+    agentId: 'agent-a',
+    agentName: 'Analyst',
+    providerId: 'provider.anthropic',
+    modelId: 'claude-sonnet',
+    attempts: 1,
+    inputTokens: 100,
+    cachedInputTokens: 0,
+    outputTokens: 50,
+    reasoningTokens: 0,
+    estimatedCostUsd: 0.01,
+    ...overrides,
+  };
+}
+
+describe('summarizeUsageRows', () => {
+  it('rolls day × agent × model rows up each dimension', () => {
+    const summary = summarizeUsageRows([
+      row({}),
+      row({ day: '2026-10-19', estimatedCostUsd: 0.02 }),
+      row({
+        day: '2026-10-19',
+        agentId: 'agent-b',
+        agentName: 'Critic',
+        providerId: 'provider.openai',
+        modelId: 'gpt-5.4',
+        attempts: 2,
+        reasoningTokens: 30,
+        estimatedCostUsd: 0.5,
+      }),
+    ]);
+
+    expect(summary.totals).toEqual({
+      attempts: 4,
+      inputTokens: 300,
+      cachedInputTokens: 0,
+      outputTokens: 150,
+      reasoningTokens: 30,
+      estimatedCostUsd: 0.53,
+    });
+    expect(summary.byDay.map((day) => [day.day, day.attempts])).toEqual([
+      ['2026-10-18', 1],
+      ['2026-10-19', 3],
+    ]);
+    expect(summary.byAgent.map((agent) => agent.agentName)).toEqual([
+      'Critic',
+      'Analyst',
+    ]);
+    expect(
+      summary.byModel.map((model) => [model.modelId, model.attempts]),
+    ).toEqual([
+      ['gpt-5.4', 2],
+      ['claude-sonnet', 2],
+    ]);
+  });
+});
@@ -0,0 +1,567 @@
+// Usage dashboard + budget routes (migrations 0045, 0060).
+//
+// GET /api/v1/usage rolls llm_attempts up by day, agent and model for
+// the current workspace. Members see their own usage; `scope=workspace`
+// is for that workspace's admins (the rollup function enforces the
+// same rule).
+//
+// Workspace and user budgets are managed by the workspace's admins.
+// Talk and job budgets follow the Talk's edit permission (canEditTalk),
+// like job CRUD. RLS on usage_budgets is the second layer for both.
+
+import { withUserContext } from '../../../db.js';
+import { getTalkForUser, getTalkJobById } from '../../db/index.js';
+import {
+  getCurrentWorkspaceId,
+  getWorkspaceForUser,
+  listWorkspaceMemberDirectory,
+} from '../../db/workspace-accessors.js';
+import {
+  deleteUsageBudget,
+  getUsageBudget,
+  getUsageBudgetSpend,
+  listUsageBudgets,
+  listUsageDailyRollup,
+  upsertUsageBudget,
+  USAGE_BUDGET_METRICS,
+  USAGE_BUDGET_PERIODS,
+  USAGE_BUDGET_SCOPES,
+  type UsageBudgetMetric,
+  type UsageBudgetPeriod,
+  type UsageBudgetRecord,
+  type UsageBudgetScope,
+  type UsageDailyRollupRow,
+} from '../../db/usage-budget-accessors.js';
+import { usageBudgetPeriodStart } from '../../talks/usage-budgets.js';
+import { canEditTalk } from '../middleware/acl.js';
+import { ApiEnvelope, AuthContext } from '../types.js';
+
+const DEFAULT_USAGE_WINDOW_DAYS = 30;
+const MAX_USAGE_WINDOW_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isAdminLike(role: string): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+// auth.role is not a workspace role; read the caller's membership.
+async function isWorkspaceAdmin(workspaceId: string | null): Promise<boolean> {
+  if (!workspaceId) return false;
+  const workspace = await getWorkspaceForUser(workspaceId);
+  return workspace ? isAdminLike(workspace.role) : false;
+}
+
+function badRequest(
+  code: string,
+  message: string,
+): {
+  statusCode: number;
+  body: ApiEnvelope<never>;
+} {
+  return {
+    statusCode: 400,
+    body: { ok: false, error: { code, message } },
+  };
+}
+
+function forbidden(message: string): {
+  statusCode: number;
+  body: ApiEnvelope<never>;
+} {
+  return {
+    statusCode: 403,
+    body: { ok: false, error: { code: 'forbidden', message } },
+  };
+}
+
+function notFound(message: string): {
+  statusCode: number;
+  body: ApiEnvelope<never>;
+} {
+  return {
+    statusCode: 404,
+    body: { ok: false, error: { code: 'not_found', message } },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Dashboard
+// ---------------------------------------------------------------------------
+
+export interface UsageTotals {
+  attempts: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  estimatedCostUsd: number;
+}
+
+export interface UsageRollupApiRow extends UsageTotals {
+  day: string;
+  agentId: string | null;
+  agentName: string | null;
+  providerId: string | null;
+  modelId: string;
+}
+
+export interface UsageSummaryApiRecord {
+  scope: 'me' | 'workspace';
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byAgent: Array<
+    UsageTotals & { agentId: string | null; agentName: string | null }
+  >;
+  byModel: Array<UsageTotals & { providerId: string | null; modelId: string }>;
+  rows: UsageRollupApiRow[];
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    attempts: 0,
+    inputTokens: 0,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    estimatedCostUsd: 0,
+  };
+}
+
+function addTotals(target: UsageTotals, row: UsageTotals): void {
+  target.attempts += row.attempts;
+  target.inputTokens += row.inputTokens;
+  target.cachedInputTokens += row.cachedInputTokens;
+  target.outputTokens += row.outputTokens;
+  target.reasoningTokens += row.reasoningTokens;
+  target.estimatedCostUsd += row.estimatedCostUsd;
+}
+
+function toRollupApiRow(row: UsageDailyRollupRow): UsageRollupApiRow {
+  return {
+    day: row.day,
+    agentId: row.agent_id,
+    agentName: row.agent_name,
+    providerId: row.provider_id,
+    modelId: row.model_id,
+    attempts: row.attempts,
+    inputTokens: row.input_tokens,
+    cachedInputTokens: row.cached_input_tokens,
+    outputTokens: row.output_tokens,
+    reasoningTokens: row.reasoning_tokens,
+    estimatedCostUsd: row.estimated_cost_usd,
+  };
+}
+
+/**
+ * Fold day × agent × model rows into the three one-dimensional views
+ * the dashboard charts. Exported for tests.
+ */
+export function summarizeUsageRows(
+  rows: UsageRollupApiRow[],
+): Pick<UsageSummaryApiRecord, 'totals' | 'byDay' | 'byAgent' | 'byModel'> {
+  const totals = emptyTotals();
+  const byDay = new Map<string, UsageTotals & { day: string }>();
+  const byAgent = new Map<
+    string,
+    UsageTotals & { agentId: string | null; agentName: string | null }
+  >();
+  const byModel = new Map<
+    string,
+    UsageTotals & { providerId: string | null; modelId: string }
+  >();
+  for (const row of rows) {
+    addTotals(totals, row);
+
+    let day = byDay.get(row.day);
+    if (!day) {
+      day = { day: row.day, ...emptyTotals() };
+      byDay.set(row.day, day);
+    }
+    addTotals(day, row);
+
+    const agentKey = row.agentId ?? '';
+    let agent = byAgent.get(agentKey);
+    if (!agent) {
+      agent = {
+        agentId: row.agentId,
+        agentName: row.agentName,
+        ...emptyTotals(),
+      };
+      byAgent.set(agentKey, agent);
+    }
+    addTotals(agent, row);
+
+    const modelKey = `${row.providerId ?? ''}\u0000${row.modelId}`;
+    let model = byModel.get(modelKey);
+    if (!model) {
+      model = {
+        providerId: row.providerId,
+        modelId: row.modelId,
+        ...emptyTotals(),
+      };
+      byModel.set(modelKey, model);
+    }
+    addTotals(model, row);
+  }
+  const byCost = (a: UsageTotals, b: UsageTotals) =>
+    b.estimatedCostUsd - a.estimatedCostUsd ||
+    b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens);
+  return {
+    totals,
+    byDay: [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day)),
+    byAgent: [...byAgent.values()].sort(byCost),
+    byModel: [...byModel.values()].sort(byCost),
+  };
+}
+
+function parseDay(value: string | undefined): Date | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(parsed.getTime()) ||
+    parsed.toISOString().slice(0, 10) !== value
+    ? null
+    : parsed;
+}
+
+/**
+ * `from` and `to` are inclusive UTC days (YYYY-MM-DD). Defaults to the
+ * last 30 days including today.
+ */
+export async function getUsageSummaryRoute(input: {
+  auth: AuthContext;
+  scope?: string;
+  from?: string;
+  to?: string;
+  now?: Date;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ usage: UsageSummaryApiRecord }>;
+}> {
+  const scope = input.scope ?? 'me';
+  if (scope !== 'me' && scope !== 'workspace') {
+    return badRequest('invalid_scope', 'scope must be one of: me, workspace');
+  }
+
+  const to = parseDay(input.to);
+  const from = parseDay(input.from);
+  if (to === null || from === null) {
+    return badRequest('invalid_date', 'from and to must be YYYY-MM-DD dates.');
+  }
+  const lastDay = to ?? usageBudgetPeriodStart('day', input.now ?? new Date());
+  const firstDay =
+    from ??
+    new Date(lastDay.getTime() - (DEFAULT_USAGE_WINDOW_DAYS - 1) * DAY_MS);
+  if (firstDay > lastDay) {
+    return badRequest('invalid_range', 'from must not be after to.');
+  }
+  if (
+    (lastDay.getTime() - firstDay.getTime()) / DAY_MS >=
+    MAX_USAGE_WINDOW_DAYS
+  ) {
+    return badRequest(
+      'invalid_range',
+      `The usage window is limited to ${MAX_USAGE_WINDOW_DAYS} days.`,
+    );
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    if (
+      scope === 'workspace' &&
+      !(await isWorkspaceAdmin(await getCurrentWorkspaceId()))
+    ) {
+      return forbidden('Only workspace admins can view workspace usage.');
+    }
+    const rows = (
+      await listUsageDailyRollup({
+        since: firstDay,
+        until: new Date(lastDay.getTime() + DAY_MS),
+        workspace: scope === 'workspace',
+      })
+    ).map(toRollupApiRow);
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: {
+          usage: {
+            scope,
+            from: firstDay.toISOString().slice(0, 10),
+            to: lastDay.toISOString().slice(0, 10),
+            ...summarizeUsageRows(rows),
+            rows,
+          },
+        },
+      },
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Budgets
+// ---------------------------------------------------------------------------
+
+export interface UsageBudgetApiRecord {
+  id: string;
+  scope: UsageBudgetScope;
+  scopeId: string | null;
+  metric: UsageBudgetMetric;
+  period: UsageBudgetPeriod;
+  softLimit: number | null;
+  hardLimit: number | null;
+  /** Spend in the current period, in the budget's metric. */
+  spent: number | null;
+  periodStart: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+async function toUsageBudgetApiRecord(
+  budget: UsageBudgetRecord,
+  input: { now: Date },
+): Promise<UsageBudgetApiRecord> {
+  const periodStart = usageBudgetPeriodStart(budget.period, input.now);
+  // Null when the scope's spend is not the caller's to see (another
+  // member, a Talk they can't open, workspace totals for non-admins).
+  const spend = await getUsageBudgetSpend({
+    budgetId: budget.id,
+    since: periodStart,
+  });
+  return {
+    id: budget.id,
+    scope: budget.scope,
+    scopeId: budget.scope_id,
+    metric: budget.metric,
+    period: budget.period,
+    softLimit: budget.soft_limit,
+    hardLimit: budget.hard_limit,
+    spent: spend
+      ? budget.metric === 'tokens'
+        ? spend.tokens
+        : spend.costUsd
+      : null,
+    periodStart: periodStart.toISOString(),
+    createdAt: budget.created_at,
+    updatedAt: budget.updated_at,
+  };
+}
+
+/**
+ * Returns null when the caller may manage budgets on the scope in
+ * `workspaceId`, or the error response to send.
+ */
+async function checkBudgetScopeAccess(
+  scope: UsageBudgetScope,
+  scopeId: string | null,
+  workspaceId: string | null,
+): Promise<{ statusCode: number; body: ApiEnvelope<never> } | null> {
+  if (scope === 'workspace' || scope === 'user') {
+    if (!workspaceId || !(await isWorkspaceAdmin(workspaceId))) {
+      return forbidden(
+        'Only workspace admins can manage workspace and user budgets.',
+      );
+    }
+    if (
+      scope === 'user' &&
+      !(await listWorkspaceMemberDirectory(workspaceId)).some(
+        (member) => member.user_id === scopeId,
+      )
+    ) {
+      return notFound('User not found in this workspace');
+    }
+    return null;
+  }
+  let talkId: string | null = null;
+  if (scope === 'talk') {
+    talkId = scopeId;
+  } else {
+    const job = scopeId ? await getTalkJobById(scopeId) : undefined;
+    if (!job) return notFound('Job not found');
+    talkId = job.talkId;
+  }
+  if (!talkId || !(await getTalkForUser(talkId))) {
+    return notFound('Talk not found');
+  }
+  if (!(await canEditTalk(talkId))) {
+    return forbidden('You do not have permission to edit this talk.');
+  }
+  return null;
+}
+
+export async function listUsageBudgetsRoute(input: {
+  auth: AuthContext;
+  scope?: string;
+  scopeId?: string;
+  now?: Date;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ budgets: UsageBudgetApiRecord[] }>;
+}> {
+  if (
+    input.scope !== undefined &&
+    !USAGE_BUDGET_SCOPES.includes(input.scope as UsageBudgetScope)
+  ) {
+    return badRequest(
+      'invalid_scope',
+      `scope must be one of: ${USAGE_BUDGET_SCOPES.join(', ')}`,
+    );
+  }
+  if (input.scopeId && !UUID_RE.test(input.scopeId)) {
+    return badRequest('invalid_scope_id', 'scopeId must be a UUID.');
+  }
+  const now = input.now ?? new Date();
+  return withUserContext(input.auth.userId, async () => {
+    const budgets = await listUsageBudgets({
+      scope: input.scope as UsageBudgetScope | undefined,
+      scopeId: input.scopeId || null,
+    });
+    const records: UsageBudgetApiRecord[] = [];
+    for (const budget of budgets) {
+      records.push(await toUsageBudgetApiRecord(budget, { now }));
+    }
+    return {
+      statusCode: 200,
+      body: { ok: true, data: { budgets: records } },
+    };
+  });
+}
+
+function parseLimit(value: unknown): number | null | undefined {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return undefined;
+  }
+  return value;
+}
+
+export async function saveUsageBudgetRoute(input: {
+  auth: AuthContext;
+  body: {
+    scope?: unknown;
+    scopeId?: unknown;
+    metric?: unknown;
+    period?: unknown;
+    softLimit?: unknown;
+    hardLimit?: unknown;
+  };
+  now?: Date;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ budget: UsageBudgetApiRecord }>;
+}> {
+  const { body } = input;
+  if (!USAGE_BUDGET_SCOPES.includes(body.scope as UsageBudgetScope)) {
+    return badRequest(
+      'invalid_scope',
+      `scope must be one of: ${USAGE_BUDGET_SCOPES.join(', ')}`,
+    );
+  }
+  const scope = body.scope as UsageBudgetScope;
+  const scopeId =
+    typeof body.scopeId === 'string' && body.scopeId.trim()
+      ? body.scopeId.trim()
+      : null;
+  if ((scope === 'workspace') !== (scopeId === null)) {
+    return badRequest(
+      'invalid_scope_id',
+      scope === 'workspace'
+        ? 'Workspace budgets do not take a scopeId.'
+        : `A ${scope} budget requires a scopeId.`,
+    );
+  }
+  if (scopeId !== null && !UUID_RE.test(scopeId)) {
+    return badRequest('invalid_scope_id', 'scopeId must be a UUID.');
+  }
+  if (!USAGE_BUDGET_METRICS.includes(body.metric as UsageBudgetMetric)) {
+    return badRequest(
+      'invalid_metric',
+      `metric must be one of: ${USAGE_BUDGET_METRICS.join(', ')}`,
+    );
+  }
+  if (!USAGE_BUDGET_PERIODS.includes(body.period as UsageBudgetPeriod)) {
+    return badRequest(
+      'invalid_period',
+      `period must be one of: ${USAGE_BUDGET_PERIODS.join(', ')}`,
+    );
+  }
+  const softLimit = parseLimit(body.softLimit);
+  const hardLimit = parseLimit(body.hardLimit);
+  if (softLimit === undefined || hardLimit === undefined) {
+    return badRequest(
+      'invalid_limit',
+      'softLimit and hardLimit must be positive numbers or null.',
+    );
+  }
+  if (softLimit === null && hardLimit === null) {
+    return badRequest(
+      'invalid_limit',
+      'Set a softLimit, a hardLimit, or both.',
+    );
+  }
+  if (softLimit !== null && hardLimit !== null && softLimit > hardLimit) {
+    return badRequest(
+      'invalid_limit',
+      'softLimit must not be greater than hardLimit.',
+    );
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    const denied = await checkBudgetScopeAccess(
+      scope,
+      scopeId,
+      await getCurrentWorkspaceId(),
+    );
+    if (denied) return denied;
+    const budget = await upsertUsageBudget({
+      scope,
+      scopeId,
+      metric: body.metric as UsageBudgetMetric,
+      period: body.period as UsageBudgetPeriod,
+      softLimit,
+      hardLimit,
+      ownerId: input.auth.userId,
+    });
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: {
+          budget: await toUsageBudgetApiRecord(budget, {
+            now: input.now ?? new Date(),
+          }),
+        },
+      },
+    };
+  });
+}
+
+export async function deleteUsageBudgetRoute(input: {
+  auth: AuthContext;
+  budgetId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ deleted: true }>;
+}> {
+  if (!UUID_RE.test(input.budgetId)) return notFound('Budget not found');
+  return withUserContext(input.auth.userId, async () => {
+    const budget = await getUsageBudget(input.budgetId);
+    if (!budget) return notFound('Budget not found');
+    const denied = await checkBudgetScopeAccess(
+      budget.scope,
+      budget.scope_id,
+      budget.workspace_id,
+    );
+    if (denied) return denied;
+    if (!(await deleteUsageBudget(budget.id))) {
+      return notFound('Budget not found');
+    }
+    return {
+      statusCode: 200,
+      body: { ok: true, data: { deleted: true } },
+    };
+  });
+}
@@ -0,0 +1,147 @@
+// Route tests for /api/v1/workspaces. Covers the request validation
+// that runs before any database access; workspace and membership writes
+// themselves are gated by the 0048 RLS policies.
+
+import { describe, expect, it } from 'vitest';
+
+import type { AuthContext } from '../types.js';
+import {
+  addWorkspaceMemberRoute,
+  createWorkspaceRoute,
+  deleteWorkspaceRoute,
+  patchWorkspaceMemberRoute,
+  removeWorkspaceMemberRoute,
+  revokeWorkspaceInviteRoute,
+  switchWorkspaceRoute,
+  updateWorkspaceRoute,
+} from './workspaces.js';
+
+const AUTH: AuthContext = {
+  sessionId: 'session-a',
+  userId: '0c777703-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+  role: 'member',
+  authType: 'cookie',
+};
+const WORKSPACE_ID = '0c777703-dddd-dddd-dddd-ddddddddd0a1';
+
+describe('createWorkspaceRoute', () => {
+  it('rejects a missing, blank or overlong name', async () => {
+    for (const body of [
+      {},
+      null,
+      { name: '' },
+      { name: '   ' },
+      { name: 42 },
+      { name: 'x'.repeat(101) },
+    ]) {
+      const result = await createWorkspaceRoute({ auth: AUTH, body });
+      expect(result.statusCode).toBe(400);
+      expect(result.body).toMatchObject({
+        ok: false,
+        error: { code: 'invalid_name' },
+      });
+    }
+  });
+});
+
+describe('updateWorkspaceRoute', () => {
+  it('validates the name before the workspace id', async () => {
+    const result = await updateWorkspaceRoute({
+      auth: AUTH,
+      workspaceId: 'not-a-uuid',
+      body: { name: '' },
+    });
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toMatchObject({ error: { code: 'invalid_name' } });
+  });
+
+  it('treats a malformed workspace id as not found', async () => {
+    const result = await updateWorkspaceRoute({
+      auth: AUTH,
+      workspaceId: 'not-a-uuid',
+      body: { name: 'Acme' },
+    });
+    expect(result.statusCode).toBe(404);
+    expect(result.body).toMatchObject({
+      error: { code: 'workspace_not_found' },
+    });
+  });
+});
+
+describe('switchWorkspaceRoute', () => {
+  it('returns 404 for a missing or malformed workspaceId', async () => {
+    for (const body of [{}, null, { workspaceId: 'nope' }]) {
+      const result = await switchWorkspaceRoute({ auth: AUTH, body });
+      expect(result.statusCode).toBe(404);
+      expect(result.body).toMatchObject({
+        error: { code: 'workspace_not_found' },
+      });
+    }
+  });
+});
+
+describe('workspace members', () => {
+  it('rejects a malformed email and unknown roles', async () => {
+    const badEmail = await addWorkspaceMemberRoute({
+      auth: AUTH,
+      workspaceId: WORKSPACE_ID,
+      body: { email: 'not-an-email', role: 'member' },
+    });
+    expect(badEmail.statusCode).toBe(400);
+    expect(badEmail.body).toMatchObject({ error: { code: 'invalid_email' } });
+
+    for (const role of [undefined, 'viewer', 'editor', 'ADMIN']) {
+      const result = await addWorkspaceMemberRoute({
+        auth: AUTH,
+        workspaceId: WORKSPACE_ID,
+        body: { email: 'friend@example.com', role },
+      });
+      expect(result.statusCode).toBe(400);
+      expect(result.body).toMatchObject({ error: { code: 'invalid_role' } });
+    }
+  });
+
+  it('treats a malformed member or invite id as not found', async () => {
+    const patched = await patchWorkspaceMemberRoute({
+      auth: AUTH,
+      workspaceId: WORKSPACE_ID,
+      userId: 'nope',
+      body: { role: 'admin' },
+    });
+    expect(patched.statusCode).toBe(404);
+    expect(patched.body).toMatchObject({
+      error: { code: 'member_not_found' },
+    });
+
+    const removed = await removeWorkspaceMemberRoute({
+      auth: AUTH,
+      workspaceId: WORKSPACE_ID,
+      userId: 'nope',
+    });
+    expect(removed.statusCode).toBe(404);
+    expect(removed.body).toMatchObject({
+      error: { code: 'member_not_found' },
+    });
+
+    const revoked = await revokeWorkspaceInviteRoute({
+      auth: AUTH,
+      workspaceId: WORKSPACE_ID,
+      inviteId: 'nope',
+    });
+    expect(revoked.statusCode).toBe(404);
+    expect(revoked.body).toMatchObject({
+      error: { code: 'invite_not_found' },
+    });
+  });
+
+  it('returns 404 for a malformed workspace id on delete', async () => {
+    const result = await deleteWorkspaceRoute({
+      auth: AUTH,
+      workspaceId: 'nope',
+    });
+    expect(result.statusCode).toBe(404);
+    expect(result.body).toMatchObject({
+      error: { code: 'workspace_not_found' },
+    });
+  });
+});
@@ -0,0 +1,560 @@
+// /api/v1/workspaces — workspace CRUD, switching and members
+// (migration 0048).
+//
+// GET     lists the caller's workspaces with their role in each, plus
+//         the one this request resolved to (currentWorkspaceId)
+// POST    { name } — new workspace, caller is its owner
+// PUT     /current { workspaceId } — remember the workspace the caller
+//         switched to; requests without X-ClawTalk-Workspace use it
+// PATCH   /:workspaceId { name } — owner or admin
+// DELETE  /:workspaceId — owner only; deletes every Talk, agent and
+//         connector in it. 400 when it is the caller's last workspace
+//
+// GET     /:workspaceId/members — any member; owners and admins also
+//         get the pending invites
+// POST    /:workspaceId/members { email, role } — owner or admin
+//            200 { member } when the email belongs to a current member,
+//                whose role is updated
+//            201 { invite } otherwise, account or not (migration 0069);
+//                the recipient accepts it from /api/v1/invites, or
+//                claims it when that address first signs in
+// PATCH   /:workspaceId/members/:userId { role } — owner or admin
+// DELETE  /:workspaceId/members/:userId — owner or admin, or a member
+//         leaving
+// DELETE  /:workspaceId/members/invites/:inviteId — owner or admin
+//
+// Only an owner grants, changes or removes 'owner', and a workspace
+// always keeps at least one owner. RLS enforces the same rules; the
+// checks here turn them into readable errors.
+
+import { withUserContext } from '../../../db.js';
+import {
+  createWorkspace,
+  deleteWorkspace,
+  deleteWorkspaceInvite,
+  deleteWorkspaceMember,
+  getCurrentWorkspaceId,
+  getWorkspaceForUser,
+  inviteWorkspaceMemberByEmail,
+  listPendingWorkspaceInvites,
+  listWorkspaceMemberDirectory,
+  listWorkspacesForUser,
+  renameWorkspace,
+  setDefaultWorkspace,
+  upsertWorkspaceMember,
+  WORKSPACE_ROLES,
+  type WorkspaceInviteRecord,
+  type WorkspaceMemberDirectoryRecord,
+  type WorkspaceRecord,
+  type WorkspaceRole,
+} from '../../db/workspace-accessors.js';
+import type { ApiEnvelope, AuthContext } from '../types.js';
+
+const MAX_WORKSPACE_NAME_LENGTH = 100;
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type ErrorResult = { statusCode: number; body: ApiEnvelope<never> };
+
+export interface WorkspaceApiRecord {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+export interface WorkspaceMemberApiRecord {
+  userId: string;
+  email: string;
+  displayName: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+export interface WorkspaceInviteApiRecord {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  createdAt: string;
+  expiresAt: string;
+}
+
+function toWorkspaceApi(row: WorkspaceRecord): WorkspaceApiRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    createdAt: row.created_at,
+  };
+}
+
+function toMemberApi(
+  row: WorkspaceMemberDirectoryRecord,
+): WorkspaceMemberApiRecord {
+  return {
+    userId: row.user_id,
+    email: row.email,
+    displayName: row.display_name,
+    role: row.role,
+    joinedAt: row.created_at,
+  };
+}
+
+function toInviteApi(row: WorkspaceInviteRecord): WorkspaceInviteApiRecord {
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+function errorResponse(
+  statusCode: number,
+  code: string,
+  message: string,
+): ErrorResult {
+  return { statusCode, body: { ok: false, error: { code, message } } };
+}
+
+function workspaceNotFound(): ErrorResult {
+  return errorResponse(404, 'workspace_not_found', 'Workspace not found');
+}
+
+function memberNotFound(): ErrorResult {
+  return errorResponse(404, 'member_not_found', 'Member not found');
+}
+
+function inviteNotFound(): ErrorResult {
+  return errorResponse(404, 'invite_not_found', 'Invite not found');
+}
+
+function readField(body: unknown, key: string): unknown {
+  return body && typeof body === 'object'
+    ? (body as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function readName(body: unknown): string | null {
+  const raw = readField(body, 'name');
+  if (typeof raw !== 'string') return null;
+  const name = raw.trim();
+  return name.length > 0 && name.length <= MAX_WORKSPACE_NAME_LENGTH
+    ? name
+    : null;
+}
+
+function invalidName(): ErrorResult {
+  return errorResponse(
+    400,
+    'invalid_name',
+    `name must be between 1 and ${MAX_WORKSPACE_NAME_LENGTH} characters`,
+  );
+}
+
+function readRole(body: unknown): WorkspaceRole | null {
+  const role = readField(body, 'role');
+  return WORKSPACE_ROLES.includes(role as WorkspaceRole)
+    ? (role as WorkspaceRole)
+    : null;
+}
+
+function invalidRole(): ErrorResult {
+  return errorResponse(
+    400,
+    'invalid_role',
+    "role must be 'owner', 'admin', 'member' or 'guest'",
+  );
+}
+
+// Shared gate for member management. Returns the error response to
+// send, or null when the caller may assign `role`.
+function adminGate(
+  workspace: WorkspaceRecord | undefined,
+  role: WorkspaceRole | null,
+): ErrorResult | null {
+  if (!workspace) return workspaceNotFound();
+  if (workspace.role !== 'owner' && workspace.role !== 'admin') {
+    return errorResponse(
+      403,
+      'forbidden',
+      'Only workspace owners and admins can manage members',
+    );
+  }
+  if (role === 'owner' && workspace.role !== 'owner') {
+    return errorResponse(
+      403,
+      'forbidden',
+      'Only a workspace owner can manage owners',
+    );
+  }
+  return null;
+}
+
+export async function listWorkspacesRoute(auth: AuthContext): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{
+    workspaces: WorkspaceApiRecord[];
+    currentWorkspaceId: string | null;
+  }>;
+}> {
+  return withUserContext(auth.userId, async () => {
+    const [workspaces, currentWorkspaceId] = await Promise.all([
+      listWorkspacesForUser(),
+      getCurrentWorkspaceId(),
+    ]);
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: {
+          workspaces: workspaces.map(toWorkspaceApi),
+          currentWorkspaceId,
+        },
+      },
+    };
+  });
+}
+
+export async function createWorkspaceRoute(input: {
+  auth: AuthContext;
+  body: unknown;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ workspace: WorkspaceApiRecord }>;
+}> {
+  const name = readName(input.body);
+  if (!name) return invalidName();
+
+  return withUserContext(input.auth.userId, async () => {
+    const workspaceId = await createWorkspace(name);
+    const workspace = await getWorkspaceForUser(workspaceId);
+    if (!workspace) return workspaceNotFound();
+    return {
+      statusCode: 201,
+      body: { ok: true, data: { workspace: toWorkspaceApi(workspace) } },
+    };
+  });
+}
+
+export async function switchWorkspaceRoute(input: {
+  auth: AuthContext;
+  body: unknown;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ workspace: WorkspaceApiRecord }>;
+}> {
+  const workspaceId = readField(input.body, 'workspaceId');
+  if (typeof workspaceId !== 'string' || !UUID_RE.test(workspaceId)) {
+    return workspaceNotFound();
+  }
+
+  return withUserContext(input.auth.userId, async () => {
+    const workspace = await getWorkspaceForUser(workspaceId);
+    if (!workspace || !(await setDefaultWorkspace(workspaceId))) {
+      return workspaceNotFound();
+    }
+    return {
+      statusCode: 200,
+      body: { ok: true, data: { workspace: toWorkspaceApi(workspace) } },
+    };
+  });
+}
+
+export async function updateWorkspaceRoute(input: {
+  auth: AuthContext;
+  workspaceId: string;
+  body: unknown;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ workspace: WorkspaceApiRecord }>;
+}> {
+  const name = readName(input.body);
+  if (!name) return invalidName();
+  if (!UUID_RE.test(input.workspaceId)) return workspaceNotFound();
+
+  return withUserContext(input.auth.userId, async () => {
+    const workspace = await getWorkspaceForUser(input.workspaceId);
+    if (!workspace) return workspaceNotFound();
+    if (workspace.role !== 'owner' && workspace.role !== 'admin') {
+      return errorResponse(
+        403,
+        'forbidden',
+        'Only workspace owners and admins can rename it',
+      );
+    }
+    await renameWorkspace({ workspaceId: input.workspaceId, name });
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: { workspace: toWorkspaceApi({ ...workspace, name }) },
+      },
+    };
+  });
+}
+
+export async function deleteWorkspaceRoute(input: {
+  auth: AuthContext;
+  workspaceId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ deleted: true }>;
+}> {
+  if (!UUID_RE.test(input.workspaceId)) return workspaceNotFound();
+
+  return withUserContext(input.auth.userId, async () => {
+    const workspaces = await listWorkspacesForUser();
+    const workspace = workspaces.find((row) => row.id === input.workspaceId);
+    if (!workspace) return workspaceNotFound();
+    if (workspace.role !== 'owner') {
+      return errorResponse(
+        403,
+        'forbidden',
+        'Only a workspace owner can delete it',
+      );
+    }
+    const hasAnother = workspaces.some(
+      (row) => row.id !== input.workspaceId && row.role !== 'guest',
+    );
+    if (!hasAnother) {
+      return errorResponse(
+        400,
+        'last_workspace',
+        'Create another workspace before deleting your last one',
+      );
+    }
+    if (!(await deleteWorkspace(input.workspaceId))) {
+      return workspaceNotFound();
+    }
+    return { statusCode: 200, body: { ok: true, data: { deleted: true } } };
+  });
+}
+
+export async function listWorkspaceMembersRoute(input: {
+  auth: AuthContext;
+  workspaceId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{
+    members: WorkspaceMemberApiRecord[];
+    invites: WorkspaceInviteApiRecord[];
+  }>;
+}> {
+  if (!UUID_RE.test(input.workspaceId)) return workspaceNotFound();
+
+  return withUserContext(input.auth.userId, async () => {
+    const workspace = await getWorkspaceForUser(input.workspaceId);
+    if (!workspace) return workspaceNotFound();
+    const members = await listWorkspaceMemberDirectory(input.workspaceId);
+    const invites =
+      workspace.role === 'owner' || workspace.role === 'admin'
+        ? await listPendingWorkspaceInvites(input.workspaceId)
+        : [];
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: {
+          members: members.map(toMemberApi),
+          invites: invites.map(toInviteApi),
+        },
+      },
+    };
+  });
+}
+
+export async function addWorkspaceMemberRoute(input: {
+  auth: AuthContext;
+  workspaceId: string;
+  body: unknown;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{
+    member: WorkspaceMemberApiRecord | null;
+    invite: WorkspaceInviteApiRecord | null;
+  }>;
+}> {
+  const rawEmail = readField(input.body, 'email');
+  const email =
+    typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : '';
+  if (!EMAIL_RE.test(email)) {
+    return errorResponse(400, 'invalid_email', 'A valid email is required');
+  }
+  const role = readRole(input.body);
+  if (!role) return invalidRole();
+  if (!UUID_RE.test(input.workspaceId)) return workspaceNotFound();
+
+  return withUserContext(input.auth.userId, async () => {
+    const workspace = await getWorkspaceForUser(input.workspaceId);
+    const denied = adminGate(workspace, role);
+    if (denied) return denied;
+
+    const directory = await listWorkspaceMemberDirectory(input.workspaceId);
+    const existing = directory.find((row) => row.email.toLowerCase() === email);
+    if (existing?.role === 'owner' && workspace?.role !== 'owner') {
+      return errorResponse(
+        403,
+        'forbidden',
+        'Only a workspace owner can manage owners',
+      );
+    }
+
+    const result = await inviteWorkspaceMemberByEmail({
+      workspaceId: input.workspaceId,
+      email,
+      role,
+      inviteExpiresAt: new Date(Date.now() + INVITE_TTL_MS),
+    });
+    if (result === 'self') {
+      return errorResponse(
+        400,
+        'cannot_invite_self',
+        'You are already a member of this workspace',
+      );
+    }
+    if (result === 'invited') {
+      const invite = (
+        await listPendingWorkspaceInvites(input.workspaceId)
+      ).find((row) => row.email.toLowerCase() === email);
+      return {
+        statusCode: 201,
+        body: {
+          ok: true,
+          data: { member: null, invite: invite ? toInviteApi(invite) : null },
+        },
+      };
+    }
+
+    const member = (await listWorkspaceMemberDirectory(input.workspaceId)).find(
+      (row) => row.email.toLowerCase() === email,
+    );
+    if (!member) return memberNotFound();
+    return {
+      statusCode: 200,
+      body: { ok: true, data: { member: toMemberApi(member), invite: null } },
+    };
+  });
+}
+
+export async function patchWorkspaceMemberRoute(input: {
+  auth: AuthContext;
+  workspaceId: string;
+  userId: string;
+  body: unknown;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ member: WorkspaceMemberApiRecord }>;
+}> {
+  const role = readRole(input.body);
+  if (!role) return invalidRole();
+  if (!UUID_RE.test(input.workspaceId)) return workspaceNotFound();
+  if (!UUID_RE.test(input.userId)) return memberNotFound();
+
+  return withUserContext(input.auth.userId, async () => {
+    const workspace = await getWorkspaceForUser(input.workspaceId);
+    const denied = adminGate(workspace, role);
+    if (denied) return denied;
+
+    const directory = await listWorkspaceMemberDirectory(input.workspaceId);
+    const existing = directory.find((row) => row.user_id === input.userId);
+    if (!existing) return memberNotFound();
+    if (existing.role === 'owner') {
+      const ownerDenied = adminGate(workspace, 'owner');
+      if (ownerDenied) return ownerDenied;
+      if (role !== 'owner' && countOwners(directory) === 1) {
+        return lastOwner();
+      }
+    }
+
+    await upsertWorkspaceMember({
+      workspaceId: input.workspaceId,
+      userId: input.userId,
+      role,
+    });
+    return {
+      statusCode: 200,
+      body: {
+        ok: true,
+        data: { member: toMemberApi({ ...existing, role }) },
+      },
+    };
+  });
+}
+
+export async function removeWorkspaceMemberRoute(input: {
+  auth: AuthContext;
+  workspaceId: string;
+  userId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ removed: true }>;
+}> {
+  if (!UUID_RE.test(input.workspaceId)) return workspaceNotFound();
+  if (!UUID_RE.test(input.userId)) return memberNotFound();
+
+  return withUserContext(input.auth.userId, async () => {
+    const workspace = await getWorkspaceForUser(input.workspaceId);
+    if (!workspace) return workspaceNotFound();
+    const directory = await listWorkspaceMemberDirectory(input.workspaceId);
+    const existing = directory.find((row) => row.user_id === input.userId);
+    if (!existing) return memberNotFound();
+
+    // Members may remove themselves (leave); anyone else needs an admin,
+    // and an owner row needs an owner.
+    const leaving = input.userId === input.auth.userId;
+    if (!leaving) {
+      const denied = adminGate(workspace, existing.role);
+      if (denied) return denied;
+    }
+    if (existing.role === 'owner' && countOwners(directory) === 1) {
+      return lastOwner();
+    }
+
+    const removed = await deleteWorkspaceMember({
+      workspaceId: input.workspaceId,
+      userId: input.userId,
+    });
+    if (!removed) return memberNotFound();
+    return { statusCode: 200, body: { ok: true, data: { removed: true } } };
+  });
+}
+
+export async function revokeWorkspaceInviteRoute(input: {
+  auth: AuthContext;
+  workspaceId: string;
+  inviteId: string;
+}): Promise<{
+  statusCode: number;
+  body: ApiEnvelope<{ revoked: true }>;
+}> {
+  if (!UUID_RE.test(input.workspaceId)) return workspaceNotFound();
+  if (!UUID_RE.test(input.inviteId)) return inviteNotFound();
+
+  return withUserContext(input.auth.userId, async () => {
+    const workspace = await getWorkspaceForUser(input.workspaceId);
+    const denied = adminGate(workspace, null);
+    if (denied) return denied;
+    const revoked = await deleteWorkspaceInvite({
+      workspaceId: input.workspaceId,
+      inviteId: input.inviteId,
+    });
+    if (!revoked) return inviteNotFound();
+    return { statusCode: 200, body: { ok: true, data: { revoked: true } } };
+  });
+}
+
+function countOwners(directory: WorkspaceMemberDirectoryRecord[]): number {
+  return directory.filter((row) => row.role === 'owner').length;
+}
+
+function lastOwner(): ErrorResult {
+  return errorResponse(
+    400,
+    'last_owner',
+    'A workspace needs at least one owner. Make someone else an owner first.',
+  );
+}
@@ -17,12 +17,22 @@
 //                                     (content-addressed key gates
 //                                     access; <img src> needs to load
 //                                     without cookies for CDN cache)
+//   POST /api/v1/webhooks/slack/events — channel-webhooks.ts; Slack
+//                                     Events API, signing-secret
+//                                     verified
+//   POST /api/v1/webhooks/telegram/:channelId — channel-webhooks.ts;
+//                                     per-channel secret token
+//   POST /api/v1/webhooks/discord/:channelId — channel-webhooks.ts;
+//                                     Discord interactions, Ed25519
+//                                     signature verified
 //
 // Authed surfaces (requireAuthMiddleware verifies eb_at via JWKS in
 // Worker mode, or honors CLAWTALK_DEV_STUB_ENABLED in Node mode):
 //   /api/v1/_protected/whoami       — JWT sanity probe
 //   /api/v1/agents[/...]            — ai-agents.ts (page composite
 //                                     + provider credential CRUD)
+//   /api/v1/agents/providers[/...]  — custom-providers.ts (workspace-
+//                                     defined provider + model CRUD)
 //   /api/v1/registered-agents[/...] — agent-management.ts (CRUD,
 //                                     fallback config, main agent,
 //                                     effective tools)
@@ -38,6 +48,7 @@
 //                                         same module as the rest of
 //                                         the context surface)
 //   /api/v1/talks/:talkId/jobs[/...]    — talk-jobs.ts (CRUD +
+//                                         schedule preview +
 //                                         pause/resume/run-now; the
 //                                         run-now mount creates a
 //                                         trigger row but the queue
@@ -47,6 +58,20 @@
 //   /api/v1/talks/:talkId/attachments[/...] — talk-attachments.ts
 //   /api/v1/talks/:talkId/threads[/...]     — talk-threads.ts (list +
 //                                         create + PATCH + DELETE)
+//   /api/v1/talks/:talkId/rounds[/...]      — talk-rounds.ts (debate
+//                                         rounds list + per-round
+//                                         cancel)
+//   /api/v1/talks/:talkId/tool-approvals[/...] — talk-tool-approvals.ts
+//                                         (pending tool calls +
+//                                         approve / deny)
+//   /api/v1/talks/:talkId/members[/...]     — talk-members.ts (sharing:
+//                                         members, role changes,
+//                                         email invites)
+//   /api/v1/usage[/budgets[/...]]           — usage.ts (llm_attempts
+//                                         rollup by day/agent/model +
+//                                         budget CRUD)
+//   /api/v1/workspaces[/...]                — workspaces.ts (CRUD +
+//                                         switch + member roles)
 //   /api/v1/threads/:threadId/content       — talk-contents.ts (GET +
 //                                         POST; talk-scoped /content
 //                                         routes resolve to the thread's
@@ -62,6 +87,18 @@
 //                                         cooperative cancel via DB
 //                                         status flip — U3 consumer
 //                                         polls and bails.
+//   /api/v1/talks/:talkId/runs/:runId/continue
+//                                   — talks.ts:continueTalkRunRoute;
+//                                         re-queues a run paused at
+//                                         the tool-iteration limit.
+//   /api/v1/talks/:talkId/runs/:runId/trace
+//                                   — talks.ts:getTalkRunTraceRoute;
+//                                         the run's execution trace
+//                                         (turns, tool calls, hops).
+//   /api/v1/talks/:talkId/runs/:runId/channel-posts
+//                                   — talks.ts:getTalkRunChannelPostsRoute;
+//                                         messages the run posted to
+//                                         Slack via messaging tools.
 //
 // NOT mounted (chassis-removed; will not return):
 //   /api/v1/main/*, /api/v1/browser/*, /api/v1/data-connectors/*,
@@ -78,7 +115,11 @@
 import { Hono } from 'hono';
 import type { Context, MiddlewareHandler } from 'hono';
 
-import { isPgDatabaseHealthy, withUserContext } from '../../db.js';
+import {
+  isPgDatabaseHealthy,
+  withUserContext,
+  withWorkspaceScope,
+} from '../../db.js';
 import { getUserById, updateUserDisplayName } from '../db/index.js';
 import { authenticateRequestPg } from './middleware/auth.js';
 import { authChallengeHeader, extractJwksEnv } from './middleware/auth.js';
@@ -116,6 +157,12 @@ import {
   updateDefaultClaudeModelRoute,
   verifyAiProviderCredentialRoute,
 } from './routes/ai-agents.js';
+import {
+  createCustomProviderRoute,
+  deleteCustomProviderRoute,
+  putCustomProviderModelsRoute,
+  updateCustomProviderRoute,
+} from './routes/custom-providers.js';
 import {
   createWorkspaceChannelRoute,
   createWorkspaceDataConnectorRoute,
@@ -161,6 +208,7 @@ import {
   getTalkStateRoute,
   listTalkContextRulesRoute,
   patchTalkContextRuleRoute,
+  listTalkContextSourceRevisionsRoute,
   patchTalkContextSourceRoute,
   retryTalkContextSourceRoute,
   setTalkGoalRoute,
@@ -175,6 +223,7 @@ import {
   listTalkJobsRoute,
   patchTalkJobRoute,
   pauseTalkJobRoute,
+  previewTalkJobScheduleRoute,
   resumeTalkJobRoute,
   runTalkJobNowRoute,
 } from './routes/talk-jobs.js';
@@ -195,6 +244,29 @@ import {
   listTalkThreadsRoute,
   patchTalkThreadRoute,
 } from './routes/talk-threads.js';
+import {
+  cancelTalkRoundRoute,
+  listTalkRoundsRoute,
+} from './routes/talk-rounds.js';
+import {
+  deleteUsageBudgetRoute,
+  getUsageSummaryRoute,
+  listUsageBudgetsRoute,
+  saveUsageBudgetRoute,
+} from './routes/usage.js';
+import {
+  addWorkspaceMemberRoute,
+  createWorkspaceRoute,
+  deleteWorkspaceRoute,
+  listWorkspaceMembersRoute,
+  listWorkspacesRoute,
+  patchWorkspaceMemberRoute,
+  removeWorkspaceMemberRoute,
+  revokeWorkspaceInviteRoute,
+  switchWorkspaceRoute,
+  updateWorkspaceRoute,
+} from './routes/workspaces.js';
+import { listMyInvitesRoute, respondToInviteRoute } from './routes/invites.js';
 import {
   disconnectGoogleAccountRoute,
   expandScopesRoute,
@@ -213,6 +285,15 @@ import {
   bulkAddSlackChannelsRoute,
   listSlackInstallChannelsRoute,
 } from './routes/slack-channels.js';
+import {
+  deferWebhookWork,
+  handleDiscordInteraction,
+  handleSlackEventsWebhook,
+  handleTelegramWebhook,
+  registerDiscordInteractionsRoute,
+  registerTelegramWebhookRoute,
+  type ChannelWebhookEnv,
+} from './routes/channel-webhooks.js';
 import {
   createTalkGoogleDriveResourceRoute,
   deleteTalkResourceRoute,
@@ -226,6 +307,7 @@ import { ensureMainTalkForUser } from '../talks/main-talk-bootstrap.js';
 import { dispatchRun } from '../talks/queue-producer.js';
 import {
   cancelTalkChat,
+  continueTalkRunRoute,
   enqueueTalkChat,
   createTalkFolderRoute,
   createTalkRoute,
@@ -235,6 +317,8 @@ import {
   getTalkPolicyRoute,
   getTalkRoute,
   getTalkRunContextRoute,
+  getTalkRunTraceRoute,
+  getTalkRunChannelPostsRoute,
   listTalkAgentsRoute,
   listTalkMessagesRoute,
   listTalkRunsRoute,
@@ -249,6 +333,17 @@ import {
 } from './routes/talks.js';
 import { getTalkSnapshotRoute } from './routes/talk-snapshot.js';
 import { getTalkToolsRoute, updateTalkToolRoute } from './routes/talk-tools.js';
+import {
+  decideTalkToolApprovalRoute,
+  listTalkToolApprovalsRoute,
+} from './routes/talk-tool-approvals.js';
+import {
+  addTalkMemberRoute,
+  listTalkMembersRoute,
+  patchTalkMemberRoute,
+  removeTalkMemberRoute,
+  revokeTalkInviteRoute,
+} from './routes/talk-members.js';
 import {
   getEffectiveToolsRoute,
   listUserToolPermissionsRoute,
@@ -360,6 +455,10 @@ function buildApp(): Hono<{ Variables: Variables }> {
   app.use('/api/v1/web-search', requireAuthMiddleware);
   app.use('/api/v1/web-search/*', requireAuthMiddleware);
   app.use('/api/v1/workspace/*', requireAuthMiddleware);
+  app.use('/api/v1/workspaces', requireAuthMiddleware);
+  app.use('/api/v1/workspaces/*', requireAuthMiddleware);
+  app.use('/api/v1/invites', requireAuthMiddleware);
+  app.use('/api/v1/invites/*', requireAuthMiddleware);
   app.use('/api/v1/talks', requireAuthMiddleware);
   app.use('/api/v1/talks/*', requireAuthMiddleware);
   app.use('/api/v1/contents/*', requireAuthMiddleware);
@@ -367,6 +466,8 @@ function buildApp(): Hono<{ Variables: Variables }> {
   app.use('/api/v1/talk-folders', requireAuthMiddleware);
   app.use('/api/v1/talk-folders/*', requireAuthMiddleware);
   app.use('/api/v1/user/*', requireAuthMiddleware);
+  app.use('/api/v1/usage', requireAuthMiddleware);
+  app.use('/api/v1/usage/*', requireAuthMiddleware);
   app.use('/api/v1/session/*', requireAuthMiddleware);
   // C1: gate /api/v1/me/* (Google account routes). The callback at
   // /api/v1/auth/google/callback stays public — Google redirects there
@@ -513,6 +614,73 @@ function buildApp(): Hono<{ Variables: Variables }> {
     return jsonResponse(result);
   });
 
+  // ── custom-providers.ts: workspace-defined providers ─────────
+  app.post('/api/v1/agents/providers', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await createCustomProviderRoute({
+      auth,
+      body: payload.data,
+    });
+    return jsonResponse(result);
+  });
+
+  app.patch('/api/v1/agents/providers/:providerId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const providerId = decodeIdParam(c, 'providerId');
+    if (!providerId.ok) return providerId.response;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await updateCustomProviderRoute({
+      auth,
+      providerId: providerId.value,
+      body: payload.data,
+    });
+    return jsonResponse(result);
+  });
+
+  app.delete('/api/v1/agents/providers/:providerId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const providerId = decodeIdParam(c, 'providerId');
+    if (!providerId.ok) return providerId.response;
+    const result = await deleteCustomProviderRoute({
+      auth,
+      providerId: providerId.value,
+    });
+    return jsonResponse(result);
+  });
+
+  app.put('/api/v1/agents/providers/:providerId/models', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const providerId = decodeIdParam(c, 'providerId');
+    if (!providerId.ok) return providerId.response;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await putCustomProviderModelsRoute({
+      auth,
+      providerId: providerId.value,
+      body: payload.data,
+    });
+    return jsonResponse(result);
+  });
+
   // ── Workspace channels (admin-managed pool, talk picker reads) ──
   app.get('/api/v1/workspace/channels', async (c) => {
     const auth = c.get('auth');
@@ -582,6 +750,40 @@ function buildApp(): Hono<{ Variables: Variables }> {
     return jsonResponse(result);
   });
 
+  app.post(
+    '/api/v1/workspace/channels/:channelId/telegram/webhook',
+    async (c) => {
+      const auth = c.get('auth');
+      const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+      if (!rl.allowed) return rateLimitedResponse(c, rl);
+      const csrfFail = checkCsrf(c, auth);
+      if (csrfFail) return csrfFail;
+      const result = await registerTelegramWebhookRoute({
+        auth,
+        channelId: c.req.param('channelId'),
+        origin: new URL(c.req.url).origin,
+      });
+      return jsonResponse(result);
+    },
+  );
+
+  app.post(
+    '/api/v1/workspace/channels/:channelId/discord/interactions',
+    async (c) => {
+      const auth = c.get('auth');
+      const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+      if (!rl.allowed) return rateLimitedResponse(c, rl);
+      const csrfFail = checkCsrf(c, auth);
+      if (csrfFail) return csrfFail;
+      const result = await registerDiscordInteractionsRoute({
+        auth,
+        channelId: c.req.param('channelId'),
+        origin: new URL(c.req.url).origin,
+      });
+      return jsonResponse(result);
+    },
+  );
+
   // ── Workspace data connectors ───────────────────────────────────
   app.get('/api/v1/workspace/data-connectors', async (c) => {
     const auth = c.get('auth');
@@ -956,6 +1158,56 @@ function buildApp(): Hono<{ Variables: Variables }> {
     });
   });
 
+  // Public webhooks — no auth middleware; the handlers verify the
+  // platform signature against the raw body. IP-keyed rate limit.
+  app.post('/api/v1/webhooks/slack/events', async (c) => {
+    const ip =
+      c.req.header('cf-connecting-ip') ||
+      c.req.header('x-forwarded-for')?.split(',')[0]?.trim() ||
+      'anonymous';
+    const rl = checkRateLimit({ principalId: `ip:${ip}`, bucket: 'webhook' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const result = await handleSlackEventsWebhook({
+      rawBody: await c.req.text(),
+      timestamp: c.req.header('x-slack-request-timestamp'),
+      signature: c.req.header('x-slack-signature'),
+      defer: deferWebhookWork(c.env as ChannelWebhookEnv, c.executionCtx),
+    });
+    return jsonResponse(result);
+  });
+
+  app.post('/api/v1/webhooks/telegram/:channelId', async (c) => {
+    const ip =
+      c.req.header('cf-connecting-ip') ||
+      c.req.header('x-forwarded-for')?.split(',')[0]?.trim() ||
+      'anonymous';
+    const rl = checkRateLimit({ principalId: `ip:${ip}`, bucket: 'webhook' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const result = await handleTelegramWebhook({
+      channelId: c.req.param('channelId'),
+      rawBody: await c.req.text(),
+      secretToken: c.req.header('x-telegram-bot-api-secret-token'),
+    });
+    return jsonResponse(result);
+  });
+
+  app.post('/api/v1/webhooks/discord/:channelId', async (c) => {
+    const ip =
+      c.req.header('cf-connecting-ip') ||
+      c.req.header('x-forwarded-for')?.split(',')[0]?.trim() ||
+      'anonymous';
+    const rl = checkRateLimit({ principalId: `ip:${ip}`, bucket: 'webhook' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const result = await handleDiscordInteraction({
+      channelId: c.req.param('channelId'),
+      rawBody: await c.req.text(),
+      signature: c.req.header('x-signature-ed25519'),
+      timestamp: c.req.header('x-signature-timestamp'),
+      defer: deferWebhookWork(c.env as ChannelWebhookEnv, c.executionCtx),
+    });
+    return jsonResponse(result);
+  });
+
   // ── OAuth subscription flows ─────────────────────────────────
   app.post(
     '/api/v1/agents/providers/provider.anthropic/oauth/initiate',
@@ -1234,6 +1486,8 @@ function buildApp(): Hono<{ Variables: Variables }> {
       title?: string;
       folderId?: string | null;
       orchestrationMode?: 'ordered' | 'panel';
+      roundsLimit?: number;
+      synthesizerAgentId?: string | null;
     }>(c);
     if (!payload.ok) return invalidJsonResponse(c, payload.error);
     const result = await patchTalkRoute({
@@ -1251,6 +1505,15 @@ function buildApp(): Hono<{ Variables: Variables }> {
         payload.data.orchestrationMode === 'panel'
           ? payload.data.orchestrationMode
           : undefined,
+      roundsLimit:
+        typeof payload.data.roundsLimit === 'number'
+          ? payload.data.roundsLimit
+          : undefined,
+      synthesizerAgentId:
+        typeof payload.data.synthesizerAgentId === 'string' ||
+        payload.data.synthesizerAgentId === null
+          ? payload.data.synthesizerAgentId
+          : undefined,
     });
     return jsonResponse(result);
   });
@@ -1520,6 +1783,125 @@ function buildApp(): Hono<{ Variables: Variables }> {
     return jsonResponse(result);
   });
 
+  app.get('/api/v1/talks/:talkId/tool-approvals', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ userId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const result = await listTalkToolApprovalsRoute({
+      auth,
+      talkId: talkId.value,
+    });
+    return jsonResponse(result);
+  });
+
+  app.post('/api/v1/talks/:talkId/tool-approvals/:approvalId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ userId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const approvalId = decodeIdParam(c, 'approvalId');
+    if (!approvalId.ok) return approvalId.response;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await decideTalkToolApprovalRoute({
+      auth,
+      talkId: talkId.value,
+      approvalId: approvalId.value,
+      body: payload.data,
+    });
+    return jsonResponse(result);
+  });
+
+  app.get('/api/v1/talks/:talkId/members', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ userId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const result = await listTalkMembersRoute({ auth, talkId: talkId.value });
+    return jsonResponse(result);
+  });
+
+  app.post('/api/v1/talks/:talkId/members', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ userId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await addTalkMemberRoute({
+      auth,
+      talkId: talkId.value,
+      body: payload.data,
+    });
+    return jsonResponse(result);
+  });
+
+  app.patch('/api/v1/talks/:talkId/members/:userId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ userId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const userId = decodeIdParam(c, 'userId');
+    if (!userId.ok) return userId.response;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await patchTalkMemberRoute({
+      auth,
+      talkId: talkId.value,
+      userId: userId.value,
+      body: payload.data,
+    });
+    return jsonResponse(result);
+  });
+
+  app.delete('/api/v1/talks/:talkId/members/invites/:inviteId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ userId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const inviteId = decodeIdParam(c, 'inviteId');
+    if (!inviteId.ok) return inviteId.response;
+    const result = await revokeTalkInviteRoute({
+      auth,
+      talkId: talkId.value,
+      inviteId: inviteId.value,
+    });
+    return jsonResponse(result);
+  });
+
+  app.delete('/api/v1/talks/:talkId/members/:userId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ userId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const userId = decodeIdParam(c, 'userId');
+    if (!userId.ok) return userId.response;
+    const result = await removeTalkMemberRoute({
+      auth,
+      talkId: talkId.value,
+      userId: userId.value,
+    });
+    return jsonResponse(result);
+  });
+
   app.get('/api/v1/talks/:talkId/runs', async (c) => {
     const auth = c.get('auth');
     const rl = checkRateLimit({ userId: auth.userId, bucket: 'read' });
@@ -1546,6 +1928,38 @@ function buildApp(): Hono<{ Variables: Variables }> {
     return jsonResponse(result);
   });
 
+  app.get('/api/v1/talks/:talkId/runs/:runId/trace', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ userId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const runId = decodeIdParam(c, 'runId');
+    if (!runId.ok) return runId.response;
+    const result = await getTalkRunTraceRoute({
+      auth,
+      talkId: talkId.value,
+      runId: runId.value,
+    });
+    return jsonResponse(result);
+  });
+
+  app.get('/api/v1/talks/:talkId/runs/:runId/channel-posts', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ userId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const runId = decodeIdParam(c, 'runId');
+    if (!runId.ok) return runId.response;
+    const result = await getTalkRunChannelPostsRoute({
+      auth,
+      talkId: talkId.value,
+      runId: runId.value,
+    });
+    return jsonResponse(result);
+  });
+
   app.get('/api/v1/talks/:talkId/policy', async (c) => {
     const auth = c.get('auth');
     const rl = checkRateLimit({ userId: auth.userId, bucket: 'read' });
@@ -1980,6 +2394,8 @@ function buildApp(): Hono<{ Variables: Variables }> {
       note?: string | null;
       sortOrder?: number;
       extractedText?: string | null;
+      refreshIntervalMinutes?: number | null;
+      onChangeJobId?: string | null;
     }>(c);
     if (!payload.ok) return invalidJsonResponse(c, payload.error);
     const result = await patchTalkContextSourceRoute({
@@ -2002,6 +2418,18 @@ function buildApp(): Hono<{ Variables: Variables }> {
         typeof payload.data.extractedText === 'string'
           ? payload.data.extractedText
           : undefined,
+      refreshIntervalMinutes:
+        payload.data.refreshIntervalMinutes !== undefined
+          ? typeof payload.data.refreshIntervalMinutes === 'number'
+            ? payload.data.refreshIntervalMinutes
+            : null
+          : undefined,
+      onChangeJobId:
+        payload.data.onChangeJobId !== undefined
+          ? typeof payload.data.onChangeJobId === 'string'
+            ? payload.data.onChangeJobId
+            : null
+          : undefined,
     });
     return jsonResponse(result);
   });
@@ -2037,6 +2465,22 @@ function buildApp(): Hono<{ Variables: Variables }> {
     },
   );
 
+  app.get(
+    '/api/v1/talks/:talkId/context/sources/:sourceId/revisions',
+    async (c) => {
+      const auth = c.get('auth');
+      const rl = checkRateLimit({ principalId: auth.userId, bucket: 'read' });
+      if (!rl.allowed) return rateLimitedResponse(c, rl);
+      const result = await listTalkContextSourceRevisionsRoute({
+        auth,
+        talkId: c.req.param('talkId'),
+        sourceId: c.req.param('sourceId'),
+        limit: parsePositiveInt(c.req.query('limit')) ?? undefined,
+      });
+      return jsonResponse(result);
+    },
+  );
+
   // ── talk-resources.ts: bound Drive/Doc resources for a Talk (PR2 Lane C)
   // C3 — edit-permission gate lives inside the route handlers; the auth
   // + rate-limit + CSRF wiring here is structurally identical to the
@@ -2093,6 +2537,285 @@ function buildApp(): Hono<{ Variables: Variables }> {
   app.get('/api/v1/events', userEventsUpgradeRoute);
   app.get('/api/v1/talks/:talkId/events', talkEventsUpgradeRoute);
 
+  // ── talk-rounds.ts: debate rounds list + per-round cancel
+  app.get('/api/v1/talks/:talkId/rounds', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const result = await listTalkRoundsRoute({
+      auth,
+      talkId: talkId.value,
+      threadId: c.req.query('threadId')?.trim() || null,
+    });
+    return jsonResponse(result);
+  });
+
+  app.post('/api/v1/talks/:talkId/rounds/:roundId/cancel', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const roundId = decodeIdParam(c, 'roundId');
+    if (!roundId.ok) return roundId.response;
+    const result = await cancelTalkRoundRoute({
+      auth,
+      talkId: talkId.value,
+      roundId: roundId.value,
+    });
+    // Cancelled steps are terminal to the ordered gate; wake whatever
+    // the cancellation unblocked (the next round) after the commit.
+    for (const runId of result.nextRunIds) {
+      await dispatchRun({ runId });
+    }
+    return jsonResponse(result);
+  });
+
+  // ── usage.ts: usage dashboard + token / cost budgets
+  app.get('/api/v1/usage', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const result = await getUsageSummaryRoute({
+      auth,
+      scope: c.req.query('scope')?.trim() || undefined,
+      from: c.req.query('from')?.trim(),
+      to: c.req.query('to')?.trim(),
+    });
+    return jsonResponse(result);
+  });
+
+  app.get('/api/v1/usage/budgets', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const result = await listUsageBudgetsRoute({
+      auth,
+      scope: c.req.query('scope')?.trim() || undefined,
+      scopeId: c.req.query('scopeId')?.trim() || undefined,
+    });
+    return jsonResponse(result);
+  });
+
+  app.put('/api/v1/usage/budgets', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await saveUsageBudgetRoute({
+      auth,
+      body: payload.data as any,
+    });
+    return jsonResponse(result);
+  });
+
+  app.delete('/api/v1/usage/budgets/:budgetId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const budgetId = decodeIdParam(c, 'budgetId');
+    if (!budgetId.ok) return budgetId.response;
+    const result = await deleteUsageBudgetRoute({
+      auth,
+      budgetId: budgetId.value,
+    });
+    return jsonResponse(result);
+  });
+
+  // ── workspaces.ts: workspace CRUD, switching and members.
+  // /current is registered before /:workspaceId so it never parses
+  // as an id.
+  app.get('/api/v1/workspaces', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const result = await listWorkspacesRoute(auth);
+    return jsonResponse(result);
+  });
+
+  app.post('/api/v1/workspaces', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await createWorkspaceRoute({ auth, body: payload.data });
+    return jsonResponse(result);
+  });
+
+  app.put('/api/v1/workspaces/current', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await switchWorkspaceRoute({ auth, body: payload.data });
+    return jsonResponse(result);
+  });
+
+  app.patch('/api/v1/workspaces/:workspaceId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const workspaceId = decodeIdParam(c, 'workspaceId');
+    if (!workspaceId.ok) return workspaceId.response;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await updateWorkspaceRoute({
+      auth,
+      workspaceId: workspaceId.value,
+      body: payload.data,
+    });
+    return jsonResponse(result);
+  });
+
+  app.delete('/api/v1/workspaces/:workspaceId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const workspaceId = decodeIdParam(c, 'workspaceId');
+    if (!workspaceId.ok) return workspaceId.response;
+    const result = await deleteWorkspaceRoute({
+      auth,
+      workspaceId: workspaceId.value,
+    });
+    return jsonResponse(result);
+  });
+
+  app.get('/api/v1/workspaces/:workspaceId/members', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const workspaceId = decodeIdParam(c, 'workspaceId');
+    if (!workspaceId.ok) return workspaceId.response;
+    const result = await listWorkspaceMembersRoute({
+      auth,
+      workspaceId: workspaceId.value,
+    });
+    return jsonResponse(result);
+  });
+
+  app.post('/api/v1/workspaces/:workspaceId/members', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const workspaceId = decodeIdParam(c, 'workspaceId');
+    if (!workspaceId.ok) return workspaceId.response;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await addWorkspaceMemberRoute({
+      auth,
+      workspaceId: workspaceId.value,
+      body: payload.data,
+    });
+    return jsonResponse(result);
+  });
+
+  app.patch('/api/v1/workspaces/:workspaceId/members/:userId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const workspaceId = decodeIdParam(c, 'workspaceId');
+    if (!workspaceId.ok) return workspaceId.response;
+    const userId = decodeIdParam(c, 'userId');
+    if (!userId.ok) return userId.response;
+    const payload = await readJsonBody(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await patchWorkspaceMemberRoute({
+      auth,
+      workspaceId: workspaceId.value,
+      userId: userId.value,
+      body: payload.data,
+    });
+    return jsonResponse(result);
+  });
+
+  app.delete(
+    '/api/v1/workspaces/:workspaceId/members/invites/:inviteId',
+    async (c) => {
+      const auth = c.get('auth');
+      const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+      if (!rl.allowed) return rateLimitedResponse(c, rl);
+      const csrfFail = checkCsrf(c, auth);
+      if (csrfFail) return csrfFail;
+      const workspaceId = decodeIdParam(c, 'workspaceId');
+      if (!workspaceId.ok) return workspaceId.response;
+      const inviteId = decodeIdParam(c, 'inviteId');
+      if (!inviteId.ok) return inviteId.response;
+      const result = await revokeWorkspaceInviteRoute({
+        auth,
+        workspaceId: workspaceId.value,
+        inviteId: inviteId.value,
+      });
+      return jsonResponse(result);
+    },
+  );
+
+  app.delete('/api/v1/workspaces/:workspaceId/members/:userId', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const workspaceId = decodeIdParam(c, 'workspaceId');
+    if (!workspaceId.ok) return workspaceId.response;
+    const userId = decodeIdParam(c, 'userId');
+    if (!userId.ok) return userId.response;
+    const result = await removeWorkspaceMemberRoute({
+      auth,
+      workspaceId: workspaceId.value,
+      userId: userId.value,
+    });
+    return jsonResponse(result);
+  });
+
+  // ── invites.ts: Talk and workspace invites sent to the caller
+  app.get('/api/v1/invites', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const result = await listMyInvitesRoute({ auth });
+    return jsonResponse(result);
+  });
+
+  app.post('/api/v1/invites/:kind/:inviteId/:action', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const inviteId = decodeIdParam(c, 'inviteId');
+    if (!inviteId.ok) return inviteId.response;
+    const result = await respondToInviteRoute({
+      auth,
+      kind: c.req.param('kind'),
+      inviteId: inviteId.value,
+      action: c.req.param('action'),
+    });
+    return jsonResponse(result);
+  });
+
   // ── talk-threads.ts: thread list + create + metadata edits + delete
   app.get('/api/v1/talks/:talkId/threads', async (c) => {
     const auth = c.get('auth');
@@ -2212,6 +2935,9 @@ function buildApp(): Hono<{ Variables: Variables }> {
       schedule?: Record<string, unknown>;
       timezone?: string;
       sourceScope?: Record<string, unknown>;
+      deliverable?: Record<string, unknown>;
+      structuredOutput?: unknown;
+      toolIterationGrant?: unknown;
     }>(c);
     if (!payload.ok) return invalidJsonResponse(c, payload.error);
     const result = await createTalkJobRoute({
@@ -2228,6 +2954,33 @@ function buildApp(): Hono<{ Variables: Variables }> {
       timezone:
         typeof payload.data.timezone === 'string' ? payload.data.timezone : '',
       sourceScope: (payload.data.sourceScope ?? null) as any,
+      deliverable: (payload.data.deliverable ?? null) as any,
+      structuredOutput: payload.data.structuredOutput ?? null,
+      toolIterationGrant: payload.data.toolIterationGrant ?? null,
+    });
+    return jsonResponse(result);
+  });
+
+  app.post('/api/v1/talks/:talkId/jobs/preview-schedule', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'read' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const payload = await readJsonBody<{
+      schedule?: unknown;
+      timezone?: string;
+      count?: number;
+    }>(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await previewTalkJobScheduleRoute({
+      auth,
+      talkId: c.req.param('talkId'),
+      schedule: payload.data.schedule ?? null,
+      timezone:
+        typeof payload.data.timezone === 'string' ? payload.data.timezone : '',
+      count:
+        typeof payload.data.count === 'number' ? payload.data.count : undefined,
     });
     return jsonResponse(result);
   });
@@ -2245,6 +2998,9 @@ function buildApp(): Hono<{ Variables: Variables }> {
       schedule?: Record<string, unknown>;
       timezone?: string;
       sourceScope?: Record<string, unknown>;
+      deliverable?: Record<string, unknown>;
+      structuredOutput?: unknown;
+      toolIterationGrant?: unknown;
     }>(c);
     if (!payload.ok) return invalidJsonResponse(c, payload.error);
     const result = await patchTalkJobRoute({
@@ -2267,6 +3023,9 @@ function buildApp(): Hono<{ Variables: Variables }> {
           ? payload.data.timezone
           : undefined,
       sourceScope: payload.data.sourceScope as any,
+      deliverable: payload.data.deliverable as any,
+      structuredOutput: payload.data.structuredOutput,
+      toolIterationGrant: payload.data.toolIterationGrant,
     });
     return jsonResponse(result);
   });
@@ -2346,6 +3105,7 @@ function buildApp(): Hono<{ Variables: Variables }> {
       threadId?: unknown;
       targetAgentIds?: unknown;
       attachmentIds?: unknown;
+      structuredOutput?: unknown;
     }>(c);
     if (!parsed.ok) {
       return c.json(
@@ -2373,6 +3133,7 @@ function buildApp(): Hono<{ Variables: Variables }> {
             (entry): entry is string => typeof entry === 'string',
           )
         : null,
+      structuredOutput: parsed.data.structuredOutput ?? null,
       idempotencyKey,
     });
     if (result.statusCode === 202 && result.body.ok) {
@@ -2423,6 +3184,32 @@ function buildApp(): Hono<{ Variables: Variables }> {
     return jsonResponse(result);
   });
 
+  app.post('/api/v1/talks/:talkId/runs/:runId/continue', async (c) => {
+    const auth = c.get('auth');
+    const rl = checkRateLimit({ principalId: auth.userId, bucket: 'write' });
+    if (!rl.allowed) return rateLimitedResponse(c, rl);
+    const csrfFail = checkCsrf(c, auth);
+    if (csrfFail) return csrfFail;
+    const talkId = decodeIdParam(c, 'talkId');
+    if (!talkId.ok) return talkId.response;
+    const runId = decodeIdParam(c, 'runId');
+    if (!runId.ok) return runId.response;
+    const payload = await readJsonBody<{ iterations?: unknown }>(c);
+    if (!payload.ok) return invalidJsonResponse(c, payload.error);
+    const result = await continueTalkRunRoute({
+      auth,
+      talkId: talkId.value,
+      runId: runId.value,
+      iterations: payload.data.iterations,
+    });
+    // The run is 'queued' again once the grant commits; send its next
+    // leg to the consumer.
+    if (result.statusCode === 202 && result.body.ok) {
+      await dispatchRun({ runId: result.body.data.runId });
+    }
+    return jsonResponse(result);
+  });
+
   // ── talk-attachments.ts: upload + list + content download ────
   app.post('/api/v1/talks/:talkId/attachments', async (c) => {
     const auth = c.get('auth');
@@ -2558,9 +3345,23 @@ const requireAuthMiddleware: MiddlewareHandler<{
     );
   }
   c.set('auth', result.auth);
-  await next();
+  await withWorkspaceScope(readWorkspaceHeader(c), () => next());
 };
 
+const WORKSPACE_HEADER = 'x-clawtalk-workspace';
+const WORKSPACE_ID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Workspace the SPA has selected. Only the shape is checked here;
+ * current_workspace_id() (migration 0048) drops ids the caller is not
+ * a member of.
+ */
+function readWorkspaceHeader(c: Context): string | null {
+  const raw = c.req.header(WORKSPACE_HEADER)?.trim();
+  return raw && WORKSPACE_ID_RE.test(raw) ? raw.toLowerCase() : null;
+}
+
 // ── shared helpers ──────────────────────────────────────────────
 
 type NormalizedUser = {
@@ -35,6 +35,13 @@
 //     Out-of-band notifies coalesce per (owner, ~50ms window). Owned
 //     by `withRequestScopedDb`'s finally block (pending timers fired
 //     synchronously on scope exit).
+//
+// `workspaceScopeStorage` carries the workspace the request selected
+// (X-ClawTalk-Workspace, opened by the auth middleware through
+// `withWorkspaceScope`). `withUserContext` binds it into the claims as
+// `workspace_id`; `public.current_workspace_id()` (migration 0048)
+// validates it and falls back to the user's default workspace when it
+// is absent — as it is for scheduler and queue work.
 
 import { AsyncLocalStorage } from 'node:async_hooks';
 
@@ -135,6 +142,7 @@ const outOfBandDbStorage = new AsyncLocalStorage<OutOfBandSlot>();
 const streamingCoalesceStorage = new AsyncLocalStorage<
   Map<string, PendingDrain>
 >();
+const workspaceScopeStorage = new AsyncLocalStorage<string>();
 
 function resolveDatabaseUrl(override?: string): string {
   return (
@@ -192,14 +200,42 @@ export function getStreamingCoalesceMap(): Map<string, PendingDrain> | null {
 /**
  * Current user's id from the surrounding `withUserContext` scope.
  * Returns null outside a user context. Producers use this to fill
- * `ownerIds` on `emitOutboxEvent` for operations where the talk's
- * owner is by construction the requesting user (single-user-per-talk
- * model). Sharing will require a `talk_members` lookup instead.
+ * `ownerIds` on `emitOutboxEvent` for owner-only operations, where the
+ * talk's owner is by construction the requesting user. Members of a
+ * shared talk are added by the emit wrapper itself.
  */
 export function getCurrentUserId(): string | null {
   return userContextStorage.getStore()?.userId ?? null;
 }
 
+/**
+ * Run `fn` with `workspaceId` as the selected workspace. A
+ * `withUserContext` opened inside binds it into the JWT claims. The
+ * id is not trusted: `current_workspace_id()` ignores a workspace the
+ * caller is not a member of.
+ */
+export async function withWorkspaceScope<T>(
+  workspaceId: string | null,
+  fn: () => Promise<T>,
+): Promise<T> {
+  if (!workspaceId) return fn();
+  return workspaceScopeStorage.run(workspaceId, fn);
+}
+
+/** Workspace id selected by the surrounding `withWorkspaceScope`. */
+export function getRequestWorkspaceId(): string | null {
+  return workspaceScopeStorage.getStore() ?? null;
+}
+
+function buildUserClaims(userId: string): string {
+  const workspaceId = workspaceScopeStorage.getStore();
+  return JSON.stringify(
+    workspaceId
+      ? { sub: userId, role: 'authenticated', workspace_id: workspaceId }
+      : { sub: userId, role: 'authenticated' },
+  );
+}
+
 /**
  * Snapshot the current request scope's env + ctx. Used by the streaming
  * notify coalescer to schedule flushes via the same ctx.waitUntil()
@@ -216,7 +252,8 @@ export function getRequestScopeEnvAndCtx(): {
 
 /**
  * Open a Postgres transaction, downgrade to `authenticated`, bind
- * `request.jwt.claims` so `auth.uid()` returns the caller's userId, and
+ * `request.jwt.claims` so `auth.uid()` returns the caller's userId (and
+ * `current_workspace_id()` sees the selected workspace, if any), and
  * run `fn` in an ALS scope where `getDbPg()` returns that transaction.
  *
  * Re-entrancy with the same userId reuses the outer transaction. Nested
@@ -246,7 +283,7 @@ export async function withUserContext<T>(
   const requestScope = requestScopedDbStorage.getStore();
   const db = requestScope?.sql ?? nodeScopedDb;
   if (!db) throw new Error('Postgres database not initialized');
-  const claims = JSON.stringify({ sub: userId, role: 'authenticated' });
+  const claims = buildUserClaims(userId);
 
   // F7: an outer queue (scheduler scope or wrapping request handler)
   // owns the flush. We just run inside the outer.
@@ -455,7 +492,7 @@ export async function withUserContextIsolated<T>(
   const requestScope = requestScopedDbStorage.getStore();
   const db = requestScope?.sql ?? nodeScopedDb;
   if (!db) throw new Error('Postgres database not initialized');
-  const claims = JSON.stringify({ sub: userId, role: 'authenticated' });
+  const claims = buildUserClaims(userId);
   const isolation = 'isolation level repeatable read';
 
   const outerQueue = notifyQueueStorage.getStore();
@@ -0,0 +1,107 @@
+-- 0039_talk_context_summary_threads.sql
+--
+-- Rolling conversation summaries, per Talk and per thread.
+--
+-- talk_context_summary shipped in 0001 keyed on talk_id alone, and
+-- nothing ever wrote it. The conversation summarizer
+-- (src/clawtalk/talks/conversation-summarizer.ts) now folds history
+-- that has fallen out of the model's window into a rolling summary.
+-- Every executor run is thread-scoped, and a single talk-level summary
+-- injected into every thread leaks cross-thread context, so the table
+-- grows an optional thread_id:
+--   thread_id IS NULL      → talk-level summary (unthreaded loads)
+--   thread_id IS NOT NULL  → summary of that one thread
+-- One row per scope, enforced by two partial unique indexes. The old
+-- talk_id primary key is replaced by a surrogate id.
+--
+-- The Nanoclaw-era main_thread_summaries table was dropped in 0016. The
+-- Main channel is a regular system Talk now, so its threads are covered
+-- by the thread-scoped rows here — no separate table needed.
+--
+-- `version` starts at 1 and increments on every fold. The summarizer
+-- uses it as an optimistic-concurrency token (two consumers finishing
+-- runs in the same thread cannot clobber each other's fold), and the
+-- run-context snapshot records the version a run saw.
+--
+-- covers_through_message_id was declared without an ON DELETE action,
+-- so deleting a summarized message (or its thread) would fail the FK.
+-- Re-point it to ON DELETE SET NULL; the summarizer treats a NULL
+-- cursor as "start from the beginning" and re-folds on the next pass.
+--
+-- Revert: drop the trigger + function and the two partial indexes,
+-- delete thread-scoped rows, drop the thread_id/version/id columns, and
+-- restore `primary key (talk_id)`.
+
+alter table public.talk_context_summary
+  drop constraint if exists talk_context_summary_pkey;
+
+alter table public.talk_context_summary
+  add column id uuid not null default gen_random_uuid() primary key,
+  add column thread_id uuid
+    references public.talk_threads(id) on delete cascade,
+  add column version integer not null default 1 check (version >= 1);
+
+alter table public.talk_context_summary
+  drop constraint if exists talk_context_summary_covers_through_message_id_fkey;
+
+alter table public.talk_context_summary
+  add constraint talk_context_summary_covers_through_message_id_fkey
+    foreign key (covers_through_message_id)
+    references public.talk_messages(id) on delete set null;
+
+create unique index talk_context_summary_talk_uidx
+  on public.talk_context_summary (talk_id)
+  where thread_id is null;
+
+create unique index talk_context_summary_thread_uidx
+  on public.talk_context_summary (thread_id)
+  where thread_id is not null;
+
+grant select, insert, update, delete
+  on public.talk_context_summary
+  to authenticated;
+
+-- Ownership-integrity: the summary's owner must own the Talk, and a
+-- thread-scoped row's thread must belong to that same Talk. RLS WITH
+-- CHECK only proves owner_id = auth.uid(); it does not prove talk_id or
+-- thread_id belong to that user.
+create or replace function public.talk_context_summary_assert_scope()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  expected_owner uuid;
+  thread_talk uuid;
+begin
+  select owner_id into expected_owner
+  from public.talks
+  where id = new.talk_id;
+
+  if expected_owner is null then
+    raise exception 'talk_context_summary.talk_id % does not reference an existing talk',
+      new.talk_id;
+  end if;
+  if expected_owner <> new.owner_id then
+    raise exception 'talk_context_summary.owner_id % does not match talks.owner_id %',
+      new.owner_id, expected_owner;
+  end if;
+
+  if new.thread_id is not null then
+    select talk_id into thread_talk
+    from public.talk_threads
+    where id = new.thread_id;
+
+    if thread_talk is distinct from new.talk_id then
+      raise exception 'talk_context_summary.thread_id % does not belong to talk %',
+        new.thread_id, new.talk_id;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger talk_context_summary_scope_integrity
+  before insert or update on public.talk_context_summary
+  for each row execute function public.talk_context_summary_assert_scope();
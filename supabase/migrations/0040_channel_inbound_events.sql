@@ -0,0 +1,102 @@
+-- 0040_channel_inbound_events.sql
+--
+-- Inbound channel messages (Slack Events API, Telegram webhooks).
+--
+-- A message arriving on a workspace channel (0019) is fanned out to
+-- every Talk linked to that channel through talk_channel_links. For each
+-- (channel, Talk) pair the webhook handler records one row here, inside
+-- the same transaction that writes the trigger message + run:
+--
+--   - Dedup. Slack retries any delivery it didn't see a fast 2xx for, and
+--     subscribing to both `message.*` and `app_mention` delivers the same
+--     message twice. The unique (channel_id, talk_id, external_message_id)
+--     key turns every repeat into a no-op.
+--   - Thread mapping. Each linked Talk gets one Talk thread per channel;
+--     the first inbound message creates it and later messages reuse the
+--     thread_id recorded on the most recent row.
+--   - Audit. `status` records what the handler did with the message:
+--       enqueued  → trigger message + run created
+--       stored    → message stored, no run (the thread already had a
+--                   round in flight)
+--       ignored   → binding response_mode said not to answer
+--
+-- owner_id is the linked Talk's owner. The webhook handler enters
+-- withUserContext(owner_id) per link, so RLS uses the denormalized
+-- owner pattern (talk_channel_links, talk_state_entries).
+--
+-- Revert: drop table public.channel_inbound_events (cascades policy,
+-- trigger) and the assert function.
+
+create table public.channel_inbound_events (
+  id uuid primary key default gen_random_uuid(),
+  channel_id uuid not null
+    references public.workspace_channels(id) on delete cascade,
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  owner_id uuid not null references public.users(id) on delete cascade,
+  -- Slack message ts / Telegram "<chat_id>:<message_id>".
+  external_message_id text not null,
+  -- Where a reply belongs: Slack thread root ts / Telegram chat (+ topic).
+  source_thread_key text,
+  thread_id uuid references public.talk_threads(id) on delete set null,
+  message_id uuid references public.talk_messages(id) on delete set null,
+  status text not null
+    check (status in ('enqueued', 'stored', 'ignored')),
+  created_at timestamptz not null default now(),
+  unique (channel_id, talk_id, external_message_id)
+);
+
+create index channel_inbound_events_thread_lookup_idx
+  on public.channel_inbound_events (channel_id, talk_id, created_at desc)
+  where thread_id is not null;
+
+alter table public.channel_inbound_events enable row level security;
+
+create policy channel_inbound_events_owner
+  on public.channel_inbound_events
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+grant select, insert, update, delete
+  on public.channel_inbound_events
+  to authenticated;
+
+-- Ownership-integrity: the owner must own the Talk, and the recorded
+-- thread must belong to that Talk. RLS WITH CHECK only proves
+-- owner_id = auth.uid().
+create or replace function public.channel_inbound_events_assert_scope()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  expected_owner uuid;
+  thread_talk uuid;
+begin
+  select owner_id into expected_owner
+  from public.talks
+  where id = new.talk_id;
+
+  if expected_owner is null or expected_owner <> new.owner_id then
+    raise exception 'channel_inbound_events.owner_id % does not own talk %',
+      new.owner_id, new.talk_id;
+  end if;
+
+  if new.thread_id is not null then
+    select talk_id into thread_talk
+    from public.talk_threads
+    where id = new.thread_id;
+
+    if thread_talk is distinct from new.talk_id then
+      raise exception 'channel_inbound_events.thread_id % does not belong to talk %',
+        new.thread_id, new.talk_id;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger channel_inbound_events_scope_integrity
+  before insert or update on public.channel_inbound_events
+  for each row execute function public.channel_inbound_events_assert_scope();
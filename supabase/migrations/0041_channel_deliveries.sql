@@ -0,0 +1,72 @@
+-- 0041_channel_deliveries.sql
+--
+-- Outbound delivery of agent replies to Slack / Telegram.
+--
+-- A run created by an inbound channel message (0040) carries
+-- source_binding_id / source_thread_key. When it completes, the queue
+-- consumer records one row here and posts the assistant message back to
+-- the originating thread. The row is the run's delivery status:
+--
+--   pending    → not sent yet; retried by the scheduler tick once
+--                next_attempt_at passes (platform rate limit, network /
+--                5xx failure, per-channel send spacing)
+--   sent       → every chunk posted; external_message_ids lists the
+--                platform ids (Slack ts / Telegram message_id)
+--   suppressed → the agent answered with [[NO_CHANNEL_REPLY]] (or had
+--                nothing visible to say); suppressed_reason holds the
+--                rationale
+--   failed     → permanent platform error or retries exhausted
+--
+-- Long replies are split into several platform messages. Chunks already
+-- posted are recorded in external_message_ids as they go, so a retry
+-- resumes after the last one instead of re-posting.
+--
+-- owner_id is the run owner; the consumer writes inside
+-- withUserContext(owner_id). The scheduler lists due rows on the pool
+-- role and enters the owner's context per row.
+--
+-- Revert: drop table public.channel_deliveries.
+
+create table public.channel_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null unique
+    references public.talk_runs(id) on delete cascade,
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  owner_id uuid not null references public.users(id) on delete cascade,
+  channel_id uuid
+    references public.workspace_channels(id) on delete set null,
+  message_id uuid references public.talk_messages(id) on delete set null,
+  platform text not null check (platform in ('slack', 'telegram')),
+  -- Slack channel id / Telegram chat id.
+  target_id text not null,
+  -- Slack thread root ts / Telegram "<chat>[:<topic>]" (0040).
+  thread_key text,
+  -- Inbound message being answered (Slack ts / "<chat>:<message_id>").
+  reply_to_external_id text,
+  status text not null default 'pending'
+    check (status in ('pending', 'sent', 'suppressed', 'failed')),
+  attempt_count integer not null default 0,
+  next_attempt_at timestamptz,
+  external_message_ids text[] not null default '{}',
+  last_error text,
+  suppressed_reason text,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index channel_deliveries_due_idx
+  on public.channel_deliveries (next_attempt_at)
+  where status = 'pending';
+
+alter table public.channel_deliveries enable row level security;
+
+create policy channel_deliveries_owner
+  on public.channel_deliveries
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+grant select, insert, update, delete
+  on public.channel_deliveries
+  to authenticated;
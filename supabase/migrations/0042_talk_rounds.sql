@@ -0,0 +1,93 @@
+-- 0042_talk_rounds.sql
+--
+-- Multi-round debates with a synthesizer closing each round.
+--
+-- Until now a Talk turn was a single pass: one response group, every
+-- selected agent answering once, either in order (sequence_index 0..n)
+-- or as a parallel panel (sequence_index null). A Talk can now ask for
+-- up to `rounds_limit` rounds (1 / 2 / 3 / 5, matching the product
+-- spec) and name a `synthesizer_agent_id` — one of its agents (usually
+-- the Editor) that closes every round with a synthesis.
+--
+-- A debate is still ONE response group. Every round's runs are created
+-- up front with sequence indexes that stride across rounds, so the
+-- existing ordered gating (markRunRunning / findNextRunnableOrderedSibling)
+-- sequences the rounds without a new scheduler:
+--
+--   ordered: participant i of round r → r * stride + i, synthesizer → r * stride + n
+--   panel:   participants of round r  → r * stride,     synthesizer → r * stride + 1
+--
+-- talk_rounds is the first-class record of each round. Its status is
+-- derived from its runs and kept in step by syncTalkRoundStatus
+-- (src/clawtalk/db/talk-round-accessors.ts), which also emits the
+-- talk_round_* outbox events:
+--
+--   queued    → no run in the round has started
+--   running   → at least one run started, some still active
+--   completed → every run terminal, no cancellation, synthesis landed
+--   cancelled → every run terminal, at least one cancelled
+--   failed    → every run terminal, nothing completed or the synthesis failed
+--
+-- Cancelling a round only touches runs whose round_id matches. Cancelled
+-- runs are terminal to the ordered gate, so later rounds still proceed
+-- and earlier rounds keep their completed output.
+--
+-- talk_runs.round_id is ON DELETE SET NULL so deleting a round row never
+-- cascades into run history.
+--
+-- Revert: drop talk_runs.round_id, drop table public.talk_rounds, drop
+-- talks.rounds_limit and talks.synthesizer_agent_id.
+
+alter table public.talks
+  add column rounds_limit integer not null default 1
+    check (rounds_limit in (1, 2, 3, 5)),
+  add column synthesizer_agent_id uuid
+    references public.registered_agents(id) on delete set null;
+
+create table public.talk_rounds (
+  id uuid primary key default gen_random_uuid(),
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  owner_id uuid not null references public.users(id) on delete cascade,
+  thread_id uuid not null
+    references public.talk_threads(id) on delete cascade,
+  trigger_message_id uuid
+    references public.talk_messages(id) on delete set null,
+  response_group_id text not null,
+  round_number integer not null check (round_number >= 1),
+  rounds_limit integer not null check (rounds_limit in (1, 2, 3, 5)),
+  orchestration_mode text not null
+    check (orchestration_mode in ('ordered', 'panel')),
+  synthesizer_agent_id uuid
+    references public.registered_agents(id) on delete set null,
+  synthesizer_run_id uuid
+    references public.talk_runs(id) on delete set null,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed', 'cancelled', 'failed')),
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  ended_at timestamptz,
+  unique (response_group_id, round_number)
+);
+
+create index talk_rounds_thread_idx
+  on public.talk_rounds (thread_id, created_at desc);
+
+alter table public.talk_rounds enable row level security;
+
+create policy talk_rounds_owner
+  on public.talk_rounds
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+grant select, insert, update, delete
+  on public.talk_rounds
+  to authenticated;
+
+alter table public.talk_runs
+  add column round_id uuid
+    references public.talk_rounds(id) on delete set null;
+
+create index talk_runs_round_idx
+  on public.talk_runs (round_id)
+  where round_id is not null;
@@ -0,0 +1,100 @@
+-- 0043_talk_context_source_chunks.sql
+--
+-- Semantic retrieval over Talk context sources.
+--
+-- Sources have been read-on-demand since the index-only manifest landed:
+-- the agent sees a one-line preview per source and must call
+-- read_source(ref) (or be @-ref'd) to see anything else, while the
+-- loader's RETRIEVAL_SECTION_RESERVE only ever held state entries. This
+-- table is the chunk index that lets the loader fill that reserve with
+-- the source passages most relevant to the triggering message.
+--
+-- One row per chunk of talk_context_sources.extracted_text. Chunks are
+-- rebuilt wholesale for a source whenever they go stale, which the
+-- loader detects without re-reading the text:
+--   * source_extracted_at differs from the source's extracted_at
+--     (re-fetch, re-extraction, text-source edit), or
+--   * embedding_provider / embedding_model differ from the configured
+--     provider (a provider switch invalidates every vector).
+--
+-- page_index is set for PDFs that have a rasterized page set
+-- (talk_context_sources.expected_page_count, 0038). unpdf merges page
+-- text on extraction, so it is estimated from the chunk's character
+-- offset assuming evenly sized pages — good enough for a "p. ~N"
+-- citation, not an exact page boundary.
+--
+-- Vectors are stored as real[] and ranked in the Worker: a Talk holds at
+-- most a few hundred chunks, so a pgvector dependency and ANN index buy
+-- nothing yet. Dimensions vary by provider and are implied by the array
+-- length.
+--
+-- Shape mirrors talk_context_source_pages (0038): owner_id is
+-- denormalized for owner-only RLS and pinned to the parent source's
+-- owner by an integrity trigger.
+--
+-- Revert: drop trigger, function, then table. Nothing else reads it; the
+-- loader falls back to state-only retrieval when it is empty.
+
+create table public.talk_context_source_chunks (
+  id uuid primary key default gen_random_uuid(),
+  source_id uuid not null
+    references public.talk_context_sources(id) on delete cascade,
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  owner_id uuid not null references public.users(id) on delete cascade,
+  chunk_index integer not null check (chunk_index >= 0),
+  page_index integer check (page_index is null or page_index >= 0),
+  char_start integer not null check (char_start >= 0),
+  char_end integer not null check (char_end >= char_start),
+  content text not null,
+  embedding_provider text not null,
+  embedding_model text not null,
+  embedding real[] not null,
+  source_extracted_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (source_id, chunk_index)
+);
+
+create index talk_context_source_chunks_talk_idx
+  on public.talk_context_source_chunks (talk_id);
+
+alter table public.talk_context_source_chunks enable row level security;
+
+create policy talk_context_source_chunks_owner
+  on public.talk_context_source_chunks
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+grant select, insert, update, delete
+  on public.talk_context_source_chunks
+  to authenticated;
+
+create or replace function public.talk_context_source_chunks_assert_owner_matches_source()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  expected_owner uuid;
+  expected_talk uuid;
+begin
+  select owner_id, talk_id into expected_owner, expected_talk
+  from public.talk_context_sources
+  where id = new.source_id;
+
+  if expected_owner is null then
+    raise exception 'talk_context_source_chunks.source_id % does not reference an existing source',
+      new.source_id;
+  end if;
+  if expected_owner <> new.owner_id or expected_talk <> new.talk_id then
+    raise exception 'talk_context_source_chunks row does not match its source (owner %, talk %)',
+      expected_owner, expected_talk;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger talk_context_source_chunks_owner_integrity
+  before insert or update on public.talk_context_source_chunks
+  for each row execute function public.talk_context_source_chunks_assert_owner_matches_source();
@@ -0,0 +1,69 @@
+-- 0044_talk_job_report_deliverables.sql
+--
+-- Report jobs, rebuilt on Content.
+--
+-- 0024 removed the report deliverable along with talk_outputs, so every
+-- job has posted to its own thread since. A job can now again be a
+-- `report` job: its run still posts to the job thread, and the response
+-- is additionally written into the Talk's Content document (0022) as a
+-- section. `report_config_json` holds the section rules:
+--
+--   { mode: 'replace_section' | 'append_dated',
+--     sectionTitle: string,
+--     autoAccept: boolean }
+--
+--   replace_section → the heading matching sectionTitle and the blocks
+--                     under it are replaced; appended when missing
+--   append_dated    → a new "<sectionTitle> — YYYY-MM-DD" section is
+--                     appended on every run (date in the job timezone)
+--
+-- The write goes through the content_edits pipeline (0028) exactly like
+-- an agent's apply_content_edit call, grouped under the run's id, so
+-- the pending-edit review UI shows it as one edit set. With autoAccept
+-- the set is materialized right away.
+--
+-- talk_job_run_reports records which edit set each run produced.
+-- content_edits rows are deleted on accept / reject, so the edit ids
+-- here are historical; a `pending` row whose edits are gone has been
+-- resolved by the user (or superseded by a later run's edits).
+--
+-- Revert: drop table public.talk_job_run_reports, drop
+-- talk_jobs.report_config_json and talk_jobs.deliverable_kind.
+
+alter table public.talk_jobs
+  add column deliverable_kind text not null default 'thread'
+    check (deliverable_kind in ('thread', 'report')),
+  add column report_config_json jsonb;
+
+alter table public.talk_jobs
+  add constraint talk_jobs_report_config_matches_kind
+    check ((deliverable_kind = 'report') = (report_config_json is not null));
+
+create table public.talk_job_run_reports (
+  run_id uuid primary key references public.talk_runs(id) on delete cascade,
+  job_id uuid not null references public.talk_jobs(id) on delete cascade,
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  owner_id uuid not null references public.users(id) on delete cascade,
+  content_id uuid references public.contents(id) on delete set null,
+  mode text not null check (mode in ('replace_section', 'append_dated')),
+  section_title text not null,
+  edit_ids uuid[] not null default '{}',
+  status text not null check (status in ('pending', 'accepted', 'failed')),
+  error_message text,
+  created_at timestamptz not null default now()
+);
+
+create index talk_job_run_reports_job_idx
+  on public.talk_job_run_reports (job_id, created_at desc);
+
+alter table public.talk_job_run_reports enable row level security;
+
+create policy talk_job_run_reports_owner
+  on public.talk_job_run_reports
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+grant select, insert, update, delete
+  on public.talk_job_run_reports
+  to authenticated;
@@ -0,0 +1,200 @@
+-- 0045_usage_budgets.sql
+--
+-- Token and cost budgets.
+--
+-- llm_attempts has recorded tokens per completed run since 0001, but
+-- nothing read it back: a runaway job or a long ordered round could
+-- spend without limit. A usage_budgets row caps spend for one scope
+-- over a calendar period (UTC):
+--
+--   scope      scope_id         counts llm_attempts rows where
+--   workspace  null             (every row)
+--   user       users.id         owner_id = scope_id
+--   talk       talks.id         talk_id = scope_id
+--   job        talk_jobs.id     the run's talk_runs.job_id = scope_id
+--
+-- `metric` is 'tokens' (input + output) or 'usd' (estimated_cost_usd).
+-- Crossing `soft_limit` emits a talk_usage_budget_warning event; a run
+-- that would start at or past `hard_limit`, or reaches it between
+-- tool-loop iterations, fails with error code `budget_exceeded`.
+-- Either limit may be null, not both.
+--
+-- Cost estimates need per-model pricing, so llm_provider_models gains
+-- USD-per-million-token rates. Unpriced models record a null cost and
+-- never count toward a 'usd' budget.
+--
+-- RLS: every authenticated user can SELECT budgets (the executor reads
+-- them under the run owner's context, and limits are not secret).
+-- Workspace and user budgets are written by workspace admins only;
+-- talk and job budgets by their creator (the route layer also checks
+-- canEditTalk), or an admin.
+--
+-- Spend crosses owners (a workspace budget sums everybody's attempts)
+-- while llm_attempts RLS is owner-only, so aggregation goes through two
+-- SECURITY DEFINER functions that return totals, never rows:
+--   usage_budget_spend  → enforcement; a user-scope total is only
+--                         readable by that user or an admin
+--   usage_daily_rollup  → dashboard; workspace-wide rollups are
+--                         admin-only, members get their own usage
+--
+-- Revert: drop both functions, drop table public.usage_budgets, drop the
+-- two llm_provider_models pricing columns.
+
+alter table public.llm_provider_models
+  add column input_usd_per_mtok numeric(12, 4)
+    check (input_usd_per_mtok is null or input_usd_per_mtok >= 0),
+  add column output_usd_per_mtok numeric(12, 4)
+    check (output_usd_per_mtok is null or output_usd_per_mtok >= 0);
+
+create table public.usage_budgets (
+  id uuid primary key default gen_random_uuid(),
+  scope text not null
+    check (scope in ('workspace', 'user', 'talk', 'job')),
+  scope_id uuid,
+  metric text not null check (metric in ('tokens', 'usd')),
+  period text not null check (period in ('day', 'month')),
+  soft_limit numeric(16, 4) check (soft_limit is null or soft_limit > 0),
+  hard_limit numeric(16, 4) check (hard_limit is null or hard_limit > 0),
+  owner_id uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check ((scope = 'workspace') = (scope_id is null)),
+  check (soft_limit is not null or hard_limit is not null),
+  check (soft_limit is null or hard_limit is null or soft_limit <= hard_limit)
+);
+
+create unique index usage_budgets_scope_key
+  on public.usage_budgets (
+    scope,
+    coalesce(scope_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    metric,
+    period
+  );
+
+alter table public.usage_budgets enable row level security;
+
+create policy usage_budgets_read
+  on public.usage_budgets
+  for select to authenticated
+  using (true);
+
+create policy usage_budgets_write
+  on public.usage_budgets
+  for all to authenticated
+  using (
+    public.current_user_is_workspace_admin()
+    or (scope in ('talk', 'job') and owner_id = auth.uid())
+  )
+  with check (
+    public.current_user_is_workspace_admin()
+    or (scope in ('talk', 'job') and owner_id = auth.uid())
+  );
+
+grant select, insert, update, delete
+  on public.usage_budgets
+  to authenticated;
+
+-- Workspace, user and job spend scan by period start; talk spend
+-- already has llm_attempts_talk_created_idx.
+create index llm_attempts_created_idx
+  on public.llm_attempts (created_at);
+
+-- ── usage_budget_spend ─────────────────────────────────────────────
+create or replace function public.usage_budget_spend(
+  p_scope text,
+  p_scope_id uuid,
+  p_since timestamptz
+)
+returns table (tokens bigint, cost_usd numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_scope = 'user'
+    and p_scope_id is distinct from auth.uid()
+    and not public.current_user_is_workspace_admin() then
+    raise exception 'usage_budget_spend: not allowed for user %', p_scope_id
+      using errcode = '42501';
+  end if;
+
+  return query
+    select
+      coalesce(sum(coalesce(a.input_tokens, 0)
+                   + coalesce(a.output_tokens, 0)), 0)::bigint,
+      coalesce(sum(a.estimated_cost_usd), 0)::numeric
+    from public.llm_attempts a
+    left join public.talk_runs r
+      on p_scope = 'job' and r.id = a.run_id
+    where a.created_at >= p_since
+      and case p_scope
+        when 'workspace' then true
+        when 'user' then a.owner_id = p_scope_id
+        when 'talk' then a.talk_id = p_scope_id
+        when 'job' then r.job_id = p_scope_id
+        else false
+      end;
+end;
+$$;
+revoke all on function public.usage_budget_spend(text, uuid, timestamptz)
+  from public;
+grant execute on function public.usage_budget_spend(text, uuid, timestamptz)
+  to authenticated;
+
+-- ── usage_daily_rollup ─────────────────────────────────────────────
+-- One row per UTC day × agent × model. p_workspace = false limits the
+-- rollup to the caller's own attempts.
+create or replace function public.usage_daily_rollup(
+  p_since timestamptz,
+  p_until timestamptz,
+  p_workspace boolean
+)
+returns table (
+  day date,
+  agent_id uuid,
+  agent_name text,
+  provider_id text,
+  model_id text,
+  attempts bigint,
+  input_tokens bigint,
+  cached_input_tokens bigint,
+  output_tokens bigint,
+  estimated_cost_usd numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_workspace and not public.current_user_is_workspace_admin() then
+    raise exception 'usage_daily_rollup: workspace rollup requires admin'
+      using errcode = '42501';
+  end if;
+
+  return query
+    select
+      (a.created_at at time zone 'UTC')::date,
+      a.agent_id,
+      max(ra.name),
+      a.provider_id,
+      a.model_id,
+      count(*)::bigint,
+      coalesce(sum(a.input_tokens), 0)::bigint,
+      coalesce(sum(a.cached_input_tokens), 0)::bigint,
+      coalesce(sum(a.output_tokens), 0)::bigint,
+      coalesce(sum(a.estimated_cost_usd), 0)::numeric
+    from public.llm_attempts a
+    left join public.registered_agents ra on ra.id = a.agent_id
+    where a.created_at >= p_since
+      and a.created_at < p_until
+      and (p_workspace or a.owner_id = auth.uid())
+    group by 1, a.agent_id, a.provider_id, a.model_id
+    order by 1, a.agent_id, a.model_id;
+end;
+$$;
+revoke all on function public.usage_daily_rollup(timestamptz, timestamptz, boolean)
+  from public;
+grant execute on function public.usage_daily_rollup(timestamptz, timestamptz, boolean)
+  to authenticated;
@@ -0,0 +1,59 @@
+-- 0046_talk_tool_approvals.sql
+--
+-- Human-in-the-loop tool approval.
+--
+-- user_tool_permissions.requires_approval has existed since 0001, and
+-- talk_runs.status allows 'awaiting_confirmation', but nothing wired
+-- them together: a tool marked "requires approval" ran unattended. A
+-- talk_tool_approvals row is one paused tool call:
+--
+--   pending   the run is parked in the tool loop, status
+--             awaiting_confirmation, polling this row
+--   approved  the user approved; the tool runs with arguments_json
+--   denied    the user denied; the model gets a denial tool result
+--   expired   nobody decided before expires_at; treated as denied
+--
+-- The executor writes these rows out-of-band (the run's own tx stays
+-- open for the whole run, so an in-tx row would be invisible to the
+-- approval route). `decided_by` / `decided_at` are set by the route;
+-- a row only ever leaves 'pending' once.
+--
+-- RLS: owner-only, like talk_runs. Talks are single-owner, so the owner
+-- is the only user who can see or decide the call.
+--
+-- Revert: drop table public.talk_tool_approvals.
+
+create table public.talk_tool_approvals (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.talk_runs(id) on delete cascade,
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  thread_id uuid not null,
+  owner_id uuid not null references public.users(id) on delete cascade,
+  agent_id uuid,
+  tool_name text not null,
+  arguments_json jsonb not null default '{}'::jsonb,
+  action_summary text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'denied', 'expired')),
+  decided_by uuid references public.users(id) on delete set null,
+  decided_at timestamptz,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  check ((status = 'pending') = (decided_at is null))
+);
+
+create index talk_tool_approvals_talk_status_idx
+  on public.talk_tool_approvals (talk_id, status, created_at);
+create index talk_tool_approvals_run_idx
+  on public.talk_tool_approvals (run_id);
+
+alter table public.talk_tool_approvals enable row level security;
+
+create policy talk_tool_approvals_owner on public.talk_tool_approvals
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+grant select, insert, update, delete
+  on public.talk_tool_approvals
+  to authenticated;
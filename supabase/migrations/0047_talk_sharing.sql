@@ -0,0 +1,354 @@
+-- 0047_talk_sharing.sql
+--
+-- Talk sharing: viewer / editor members and email invites.
+--
+-- talk_members has existed since 0001 but every policy was owner-only,
+-- so a membership row granted nothing. This migration makes it real:
+--
+--   viewer  reads the Talk and everything under it (threads, messages,
+--           runs, rounds, agents, context, Content doc)
+--   editor  viewer + posts: creates threads and messages, uploads
+--           attachments, enqueues and cancels runs
+--
+-- Talk setup (agents, rules, sources, jobs, connectors, sharing) stays
+-- with the owner. Child rows keep owner_id = the Talk owner — runs
+-- execute under the owner's context — so editor write policies check
+-- that the row is stamped with the Talk's owner, not the poster.
+--
+-- Access is resolved by two SECURITY DEFINER helpers so the talks and
+-- talk_members policies can reference each other without recursing.
+--
+-- talk_invites covers emails with no account yet. The owner invites an
+-- address; when that person first signs in, the handle_new_auth_user
+-- trigger inserts their public.users row and claim_talk_invites() turns
+-- every matching unexpired invite into a talk_members row. Existing
+-- users are added directly, no invite row.
+--
+-- Revert: drop the new policies, functions, trigger and talk_invites,
+-- then recreate talk_members_self from 0002.
+
+-- ── Access helpers ──────────────────────────────────────────────────
+create or replace function public.talk_access_role(p_talk_id uuid)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_role text;
+begin
+  if exists (
+    select 1 from public.talks
+    where id = p_talk_id and owner_id = auth.uid()
+  ) then
+    return 'owner';
+  end if;
+  select m.role into v_role
+    from public.talk_members m
+    where m.talk_id = p_talk_id and m.user_id = auth.uid();
+  return v_role;
+end;
+$$;
+
+create or replace function public.talk_owner_id(p_talk_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select owner_id from public.talks where id = p_talk_id;
+$$;
+
+revoke all on function public.talk_access_role(uuid) from public;
+grant execute on function public.talk_access_role(uuid) to authenticated;
+revoke all on function public.talk_owner_id(uuid) from public;
+grant execute on function public.talk_owner_id(uuid) to authenticated;
+
+-- ── talks ───────────────────────────────────────────────────────────
+-- Members see the Talk row; only the owner can change it (talks_owner).
+create policy talks_member_select on public.talks
+  for select to authenticated
+  using (public.talk_access_role(id) in ('viewer', 'editor'));
+
+-- ── talk_members ────────────────────────────────────────────────────
+-- Every member can see the member list; the owner manages it; a member
+-- can remove their own row to leave the Talk.
+drop policy talk_members_self on public.talk_members;
+
+create policy talk_members_select on public.talk_members
+  for select to authenticated
+  using (public.talk_access_role(talk_id) is not null);
+
+create policy talk_members_owner_write on public.talk_members
+  for all to authenticated
+  using (public.talk_access_role(talk_id) = 'owner')
+  with check (
+    public.talk_access_role(talk_id) = 'owner'
+    and user_id <> auth.uid()
+  );
+
+create policy talk_members_self_delete on public.talk_members
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+grant select, insert, update, delete on public.talk_members to authenticated;
+
+-- ── Member read access to Talk content ──────────────────────────────
+create policy talk_threads_member_select on public.talk_threads
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_messages_member_select on public.talk_messages
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_message_attachments_member_select
+  on public.talk_message_attachments
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_agents_member_select on public.talk_agents
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_runs_member_select on public.talk_runs
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_rounds_member_select on public.talk_rounds
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_context_goal_member_select on public.talk_context_goal
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_context_rules_member_select on public.talk_context_rules
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_context_summary_member_select on public.talk_context_summary
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_context_sources_member_select on public.talk_context_sources
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_state_entries_member_select on public.talk_state_entries
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy talk_outputs_member_select on public.talk_outputs
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+create policy contents_member_select on public.contents
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+-- Agent names render on every message, so members read the registered
+-- agents assigned to a Talk they can see. Writes stay owner-only.
+create policy registered_agents_member_select on public.registered_agents
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.talk_agents ta
+      where ta.registered_agent_id = registered_agents.id
+        and public.talk_access_role(ta.talk_id) in ('viewer', 'editor')
+    )
+  );
+
+-- ── Editor write access (posting) ───────────────────────────────────
+create policy talk_threads_editor_insert on public.talk_threads
+  for insert to authenticated
+  with check (
+    public.talk_access_role(talk_id) = 'editor'
+    and owner_id = public.talk_owner_id(talk_id)
+  );
+
+-- Thread title healing runs on the poster's first message.
+create policy talk_threads_editor_update on public.talk_threads
+  for update to authenticated
+  using (public.talk_access_role(talk_id) = 'editor')
+  with check (owner_id = public.talk_owner_id(talk_id));
+
+create policy talk_messages_editor_insert on public.talk_messages
+  for insert to authenticated
+  with check (
+    public.talk_access_role(talk_id) = 'editor'
+    and owner_id = public.talk_owner_id(talk_id)
+    and created_by = auth.uid()
+  );
+
+create policy talk_message_attachments_editor_insert
+  on public.talk_message_attachments
+  for insert to authenticated
+  with check (
+    public.talk_access_role(talk_id) = 'editor'
+    and owner_id = public.talk_owner_id(talk_id)
+  );
+
+-- Linking an uploaded attachment to the message it was sent with.
+create policy talk_message_attachments_editor_update
+  on public.talk_message_attachments
+  for update to authenticated
+  using (public.talk_access_role(talk_id) = 'editor')
+  with check (owner_id = public.talk_owner_id(talk_id));
+
+create policy talk_runs_editor_insert on public.talk_runs
+  for insert to authenticated
+  with check (
+    public.talk_access_role(talk_id) = 'editor'
+    and owner_id = public.talk_owner_id(talk_id)
+    and requested_by = auth.uid()
+  );
+
+-- Cancel.
+create policy talk_runs_editor_update on public.talk_runs
+  for update to authenticated
+  using (public.talk_access_role(talk_id) = 'editor')
+  with check (owner_id = public.talk_owner_id(talk_id));
+
+create policy talk_rounds_editor_insert on public.talk_rounds
+  for insert to authenticated
+  with check (
+    public.talk_access_role(talk_id) = 'editor'
+    and owner_id = public.talk_owner_id(talk_id)
+  );
+
+create policy talk_rounds_editor_update on public.talk_rounds
+  for update to authenticated
+  using (public.talk_access_role(talk_id) = 'editor')
+  with check (owner_id = public.talk_owner_id(talk_id));
+
+-- ── talk_invites ────────────────────────────────────────────────────
+create table public.talk_invites (
+  id uuid primary key default gen_random_uuid(),
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('viewer', 'editor')),
+  invited_by uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  accepted_by uuid references public.users(id) on delete set null,
+  accepted_at timestamptz
+);
+
+-- One open invite per address per Talk; re-inviting updates the role.
+create unique index talk_invites_pending_email_idx
+  on public.talk_invites (talk_id, lower(email))
+  where accepted_at is null;
+create index talk_invites_email_idx
+  on public.talk_invites (lower(email))
+  where accepted_at is null;
+
+alter table public.talk_invites enable row level security;
+
+create policy talk_invites_owner on public.talk_invites
+  for all to authenticated
+  using (public.talk_access_role(talk_id) = 'owner')
+  with check (
+    public.talk_access_role(talk_id) = 'owner'
+    and invited_by = auth.uid()
+  );
+
+grant select, insert, update, delete on public.talk_invites to authenticated;
+
+-- ── Invite claim on first sign-in ───────────────────────────────────
+create or replace function public.claim_talk_invites()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.email, '') = '' then
+    return new;
+  end if;
+
+  insert into public.talk_members (talk_id, user_id, role)
+  select distinct on (i.talk_id) i.talk_id, new.id, i.role
+    from public.talk_invites i
+    join public.talks t on t.id = i.talk_id
+    where lower(i.email) = lower(new.email)
+      and i.accepted_at is null
+      and i.expires_at > now()
+      and t.owner_id <> new.id
+    order by i.talk_id, i.created_at desc
+  on conflict (talk_id, user_id) do nothing;
+
+  update public.talk_invites
+    set accepted_by = new.id, accepted_at = now()
+    where lower(email) = lower(new.email)
+      and accepted_at is null
+      and expires_at > now();
+
+  return new;
+end;
+$$;
+
+create trigger on_user_created_claim_talk_invites
+  after insert on public.users
+  for each row execute function public.claim_talk_invites();
+
+-- ── Member directory ────────────────────────────────────────────────
+-- users RLS is self-only, so the sharing panel reads names and emails
+-- through these two helpers rather than a users policy.
+
+-- Active user for an email address, or null. Used to add an existing
+-- account directly instead of sending an invite.
+create or replace function public.workspace_user_id_by_email(p_email text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.users
+  where lower(email) = lower(trim(p_email))
+    and is_active = true
+  order by created_at asc
+  limit 1;
+$$;
+
+-- The owner plus every member of a Talk the caller can see.
+create or replace function public.talk_member_directory(p_talk_id uuid)
+returns table (
+  user_id uuid,
+  email text,
+  display_name text,
+  role text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if public.talk_access_role(p_talk_id) is null then
+    return;
+  end if;
+
+  return query
+    select u.id, u.email, u.display_name, 'owner'::text, t.created_at
+      from public.talks t
+      join public.users u on u.id = t.owner_id
+      where t.id = p_talk_id
+    union all
+    select u.id, u.email, u.display_name, m.role, m.created_at
+      from public.talk_members m
+      join public.users u on u.id = m.user_id
+      where m.talk_id = p_talk_id
+    order by 5 asc;
+end;
+$$;
+
+revoke all on function public.workspace_user_id_by_email(text) from public;
+grant execute on function public.workspace_user_id_by_email(text)
+  to authenticated;
+revoke all on function public.talk_member_directory(uuid) from public;
+grant execute on function public.talk_member_directory(uuid) to authenticated;
@@ -0,0 +1,534 @@
+-- 0048_workspaces.sql
+--
+-- Multi-workspace tenancy.
+--
+-- Until now "the workspace" was the whole deployment: workspace_channels,
+-- workspace_data_connectors and workspace_provider_secrets were global
+-- rows, and users.role was a global role that
+-- current_user_is_workspace_admin() read. This migration adds real
+-- workspaces:
+--
+--   workspaces          id, name
+--   workspace_members   (workspace_id, user_id, role)
+--                       role ∈ owner | admin | member | guest
+--
+-- owner/admin manage the workspace's connectors, provider keys and
+-- members (only an owner can grant or remove 'owner'). member creates
+-- Talks and agents. guest sees only the Talks shared with them — a
+-- talk_members row in a workspace the user does not belong to adds
+-- them as a guest.
+--
+-- Scoped tables gain workspace_id:
+--   talks, talk_folders, registered_agents,
+--   workspace_channels, workspace_data_connectors,
+--   workspace_provider_secrets, workspace_provider_verifications
+-- Inserts default it to current_workspace_id(), so existing writes land
+-- in the caller's current workspace without naming it. RLS limits every
+-- row to members of its workspace; list queries additionally filter on
+-- current_workspace_id() so each workspace shows only its own rows.
+-- Per-row (not current-workspace) RLS keeps background work — runs,
+-- jobs, channel deliveries — working: they execute under the owner's
+-- context with no workspace selected, and resolve credentials from the
+-- agent's own workspace.
+--
+-- The current workspace comes from the `workspace_id` claim that
+-- withUserContext binds into request.jwt.claims next to `sub` (the SPA
+-- sends it as X-ClawTalk-Workspace). current_workspace_id() ignores a
+-- claim for a workspace the caller is not a member of and falls back to
+-- users.default_workspace_id (the last one switched to), then the
+-- caller's oldest non-guest membership.
+--
+-- The Main Talk stays personal: it is listed in every workspace.
+-- Slack team installs stay deployment-wide (one bot token per Slack
+-- team); the channels bound to them are per workspace.
+--
+-- Backfill: if any users exist, one "Workspace" is created holding every
+-- existing row, with each user's users.role carried over. users.role is
+-- no longer read by any policy. New users get a personal workspace on
+-- first sign-in.
+--
+-- Revert: restore the 0008/0010/0019/0020 policies and primary keys and
+-- the 0008 current_user_is_workspace_admin(), drop the workspace_id
+-- columns, users.default_workspace_id, the functions and triggers below,
+-- workspace_members and workspaces.
+
+-- ── Tables ──────────────────────────────────────────────────────────
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(btrim(name)) between 1 and 100),
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.workspace_members (
+  workspace_id uuid not null
+    references public.workspaces(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  role text not null check (role in ('owner', 'admin', 'member', 'guest')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+create index workspace_members_user_idx
+  on public.workspace_members (user_id);
+
+alter table public.users
+  add column default_workspace_id uuid
+    references public.workspaces(id) on delete set null;
+
+-- ── Access helpers ──────────────────────────────────────────────────
+-- SECURITY DEFINER so policies on workspace_members itself (and on every
+-- scoped table) can call them without recursing through RLS.
+create or replace function public.workspace_role(p_workspace_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.workspace_members
+  where workspace_id = p_workspace_id and user_id = auth.uid();
+$$;
+
+create or replace function public.is_workspace_admin(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    public.workspace_role(p_workspace_id) in ('owner', 'admin'),
+    false
+  );
+$$;
+
+create or replace function public.current_workspace_id()
+returns uuid
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_claim text;
+  v_id uuid;
+begin
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  v_claim := nullif(current_setting('request.jwt.claims', true), '')::jsonb
+    ->> 'workspace_id';
+  if v_claim ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  then
+    select m.workspace_id into v_id
+      from public.workspace_members m
+      where m.workspace_id = v_claim::uuid and m.user_id = auth.uid();
+    if v_id is not null then
+      return v_id;
+    end if;
+  end if;
+
+  select m.workspace_id into v_id
+    from public.users u
+    join public.workspace_members m
+      on m.workspace_id = u.default_workspace_id and m.user_id = u.id
+    where u.id = auth.uid();
+  if v_id is not null then
+    return v_id;
+  end if;
+
+  select m.workspace_id into v_id
+    from public.workspace_members m
+    where m.user_id = auth.uid()
+    order by (m.role = 'guest') asc, m.created_at asc
+    limit 1;
+  return v_id;
+end;
+$$;
+
+-- Admin of the current workspace. Policies that predate workspaces
+-- (usage budgets, Slack installs) keep calling this.
+create or replace function public.current_user_is_workspace_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_workspace_admin(public.current_workspace_id());
+$$;
+
+revoke all on function public.workspace_role(uuid) from public;
+grant execute on function public.workspace_role(uuid) to authenticated;
+revoke all on function public.is_workspace_admin(uuid) from public;
+grant execute on function public.is_workspace_admin(uuid) to authenticated;
+revoke all on function public.current_workspace_id() from public;
+grant execute on function public.current_workspace_id() to authenticated;
+
+-- ── workspace_id columns ────────────────────────────────────────────
+alter table public.talks
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+alter table public.talk_folders
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+alter table public.registered_agents
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+alter table public.workspace_channels
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+alter table public.workspace_data_connectors
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+alter table public.workspace_provider_secrets
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+alter table public.workspace_provider_verifications
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+
+-- ── Backfill ────────────────────────────────────────────────────────
+do $$
+declare
+  v_ws uuid;
+begin
+  if not exists (select 1 from public.users) then
+    return;
+  end if;
+
+  insert into public.workspaces (name, created_by)
+    values (
+      'Workspace',
+      (select id from public.users
+        order by (role = 'owner') desc, created_at asc
+        limit 1)
+    )
+    returning id into v_ws;
+
+  insert into public.workspace_members (workspace_id, user_id, role, created_at)
+    select v_ws, id, role, created_at from public.users;
+  update public.users set default_workspace_id = v_ws;
+
+  update public.talks set workspace_id = v_ws;
+  update public.talk_folders set workspace_id = v_ws;
+  update public.registered_agents set workspace_id = v_ws;
+  update public.workspace_channels set workspace_id = v_ws;
+  update public.workspace_data_connectors set workspace_id = v_ws;
+  update public.workspace_provider_secrets set workspace_id = v_ws;
+  update public.workspace_provider_verifications set workspace_id = v_ws;
+end;
+$$;
+
+alter table public.talks
+  alter column workspace_id set not null,
+  alter column workspace_id set default public.current_workspace_id();
+alter table public.talk_folders
+  alter column workspace_id set not null,
+  alter column workspace_id set default public.current_workspace_id();
+alter table public.registered_agents
+  alter column workspace_id set not null,
+  alter column workspace_id set default public.current_workspace_id();
+alter table public.workspace_channels
+  alter column workspace_id set not null,
+  alter column workspace_id set default public.current_workspace_id();
+alter table public.workspace_data_connectors
+  alter column workspace_id set not null,
+  alter column workspace_id set default public.current_workspace_id();
+alter table public.workspace_provider_secrets
+  alter column workspace_id set not null,
+  alter column workspace_id set default public.current_workspace_id();
+alter table public.workspace_provider_verifications
+  alter column workspace_id set not null,
+  alter column workspace_id set default public.current_workspace_id();
+
+create index talks_workspace_idx on public.talks (workspace_id);
+create index talk_folders_workspace_idx on public.talk_folders (workspace_id);
+create index registered_agents_workspace_idx
+  on public.registered_agents (workspace_id);
+create index workspace_channels_workspace_idx
+  on public.workspace_channels (workspace_id);
+create index workspace_data_connectors_workspace_idx
+  on public.workspace_data_connectors (workspace_id);
+
+-- One key per provider and credential kind, per workspace.
+alter table public.workspace_provider_secrets
+  drop constraint workspace_provider_secrets_pkey;
+alter table public.workspace_provider_secrets
+  add constraint workspace_provider_secrets_pkey
+    primary key (workspace_id, provider_id, credential_kind);
+
+alter table public.workspace_provider_verifications
+  drop constraint workspace_provider_verifications_pkey;
+alter table public.workspace_provider_verifications
+  add constraint workspace_provider_verifications_pkey
+    primary key (workspace_id, provider_id, credential_kind);
+
+-- ── RLS: workspaces + members ───────────────────────────────────────
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+-- Created through create_workspace() so the creator's owner row lands
+-- in the same statement; no insert policy.
+create policy workspaces_member_select on public.workspaces
+  for select to authenticated
+  using (public.workspace_role(id) is not null);
+
+create policy workspaces_admin_update on public.workspaces
+  for update to authenticated
+  using (public.is_workspace_admin(id))
+  with check (public.is_workspace_admin(id));
+
+create policy workspaces_owner_delete on public.workspaces
+  for delete to authenticated
+  using (public.workspace_role(id) = 'owner');
+
+create policy workspace_members_select on public.workspace_members
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+
+-- Admins manage members; 'owner' rows are for owners only.
+create policy workspace_members_admin_write on public.workspace_members
+  for all to authenticated
+  using (
+    public.is_workspace_admin(workspace_id)
+    and (role <> 'owner' or public.workspace_role(workspace_id) = 'owner')
+  )
+  with check (
+    public.is_workspace_admin(workspace_id)
+    and (role <> 'owner' or public.workspace_role(workspace_id) = 'owner')
+  );
+
+create policy workspace_members_self_delete on public.workspace_members
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+grant select, update, delete on public.workspaces to authenticated;
+grant select, insert, update, delete on public.workspace_members
+  to authenticated;
+
+-- ── RLS: Talks, folders, agents ─────────────────────────────────────
+-- Restrictive, so they AND with the owner / member policies already in
+-- place: a row is only visible inside a workspace the caller belongs
+-- to, and guests cannot create Talks, folders or agents.
+create policy talks_workspace_scope on public.talks
+  as restrictive for all to authenticated
+  using (public.workspace_role(workspace_id) is not null)
+  with check (
+    public.workspace_role(workspace_id) in ('owner', 'admin', 'member')
+  );
+
+create policy talk_folders_workspace_scope on public.talk_folders
+  as restrictive for all to authenticated
+  using (public.workspace_role(workspace_id) is not null)
+  with check (
+    public.workspace_role(workspace_id) in ('owner', 'admin', 'member')
+  );
+
+create policy registered_agents_workspace_scope on public.registered_agents
+  as restrictive for all to authenticated
+  using (public.workspace_role(workspace_id) is not null)
+  with check (
+    public.workspace_role(workspace_id) in ('owner', 'admin', 'member')
+  );
+
+-- ── RLS: workspace configuration ────────────────────────────────────
+-- Members of a workspace read its connectors and key rows (the executor
+-- decrypts them under the run owner's context); its admins write them.
+drop policy workspace_provider_secrets_read
+  on public.workspace_provider_secrets;
+drop policy workspace_provider_secrets_write
+  on public.workspace_provider_secrets;
+create policy workspace_provider_secrets_read
+  on public.workspace_provider_secrets
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+create policy workspace_provider_secrets_write
+  on public.workspace_provider_secrets
+  for all to authenticated
+  using (public.is_workspace_admin(workspace_id))
+  with check (public.is_workspace_admin(workspace_id));
+
+drop policy workspace_provider_verifications_read
+  on public.workspace_provider_verifications;
+drop policy workspace_provider_verifications_write
+  on public.workspace_provider_verifications;
+create policy workspace_provider_verifications_read
+  on public.workspace_provider_verifications
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+create policy workspace_provider_verifications_write
+  on public.workspace_provider_verifications
+  for all to authenticated
+  using (public.is_workspace_admin(workspace_id))
+  with check (public.is_workspace_admin(workspace_id));
+
+drop policy workspace_channels_read on public.workspace_channels;
+drop policy workspace_channels_write on public.workspace_channels;
+create policy workspace_channels_read
+  on public.workspace_channels
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+create policy workspace_channels_write
+  on public.workspace_channels
+  for all to authenticated
+  using (public.is_workspace_admin(workspace_id))
+  with check (public.is_workspace_admin(workspace_id));
+
+drop policy workspace_data_connectors_read
+  on public.workspace_data_connectors;
+drop policy workspace_data_connectors_write
+  on public.workspace_data_connectors;
+create policy workspace_data_connectors_read
+  on public.workspace_data_connectors
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+create policy workspace_data_connectors_write
+  on public.workspace_data_connectors
+  for all to authenticated
+  using (public.is_workspace_admin(workspace_id))
+  with check (public.is_workspace_admin(workspace_id));
+
+-- ── Workspace lifecycle helpers ─────────────────────────────────────
+-- New workspace with the caller as its owner.
+create or replace function public.create_workspace(p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'create_workspace requires an authenticated caller';
+  end if;
+  insert into public.workspaces (name, created_by)
+    values (btrim(p_name), auth.uid())
+    returning id into v_id;
+  insert into public.workspace_members (workspace_id, user_id, role)
+    values (v_id, auth.uid(), 'owner');
+  return v_id;
+end;
+$$;
+
+-- Remember the workspace the caller switched to. False when they are
+-- not a member of it.
+create or replace function public.set_default_workspace(p_workspace_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.workspace_role(p_workspace_id) is null then
+    return false;
+  end if;
+  update public.users
+    set default_workspace_id = p_workspace_id
+    where id = auth.uid();
+  return true;
+end;
+$$;
+
+-- Every member of a workspace the caller belongs to, owners first.
+-- users RLS is self-only, so names and emails come through here.
+create or replace function public.workspace_member_directory(
+  p_workspace_id uuid
+)
+returns table (
+  user_id uuid,
+  email text,
+  display_name text,
+  role text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if public.workspace_role(p_workspace_id) is null then
+    return;
+  end if;
+
+  return query
+    select u.id, u.email, u.display_name, m.role, m.created_at
+      from public.workspace_members m
+      join public.users u on u.id = m.user_id
+      where m.workspace_id = p_workspace_id
+      order by
+        case m.role
+          when 'owner' then 0
+          when 'admin' then 1
+          when 'member' then 2
+          else 3
+        end,
+        m.created_at asc;
+end;
+$$;
+
+revoke all on function public.create_workspace(text) from public;
+grant execute on function public.create_workspace(text) to authenticated;
+revoke all on function public.set_default_workspace(uuid) from public;
+grant execute on function public.set_default_workspace(uuid)
+  to authenticated;
+revoke all on function public.workspace_member_directory(uuid) from public;
+grant execute on function public.workspace_member_directory(uuid)
+  to authenticated;
+
+-- ── Triggers ────────────────────────────────────────────────────────
+-- First sign-in: a personal workspace, owned by the new user.
+create or replace function public.create_personal_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ws uuid;
+begin
+  insert into public.workspaces (name, created_by)
+    values (
+      left(coalesce(nullif(btrim(new.display_name), ''), 'My') ||
+        '''s workspace', 100),
+      new.id
+    )
+    returning id into v_ws;
+  insert into public.workspace_members (workspace_id, user_id, role)
+    values (v_ws, new.id, 'owner');
+  update public.users
+    set default_workspace_id = v_ws
+    where id = new.id and default_workspace_id is null;
+  return new;
+end;
+$$;
+
+create trigger on_user_created_create_workspace
+  after insert on public.users
+  for each row execute function public.create_personal_workspace();
+
+-- Sharing a Talk with someone outside its workspace makes them a guest
+-- there, so the Talk passes talks_workspace_scope for them.
+create or replace function public.add_talk_member_workspace_guest()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.workspace_members (workspace_id, user_id, role)
+    select t.workspace_id, new.user_id, 'guest'
+      from public.talks t
+      where t.id = new.talk_id
+  on conflict (workspace_id, user_id) do nothing;
+  return new;
+end;
+$$;
+
+create trigger on_talk_member_added_workspace_guest
+  after insert on public.talk_members
+  for each row execute function public.add_talk_member_workspace_guest();
@@ -0,0 +1,36 @@
+-- 0049_gemini_generate_content_api_format.sql
+--
+-- Move provider.gemini onto the native generateContent API.
+--
+-- Since 0007 the Gemini provider has gone through Google's
+-- OpenAI-compatible endpoint (/v1beta/openai). That shim does not take
+-- inline PDF parts and drops cachedContentTokenCount from usage, so
+-- Gemini agents fell back to page images for PDFs and never reported
+-- cached input. The llm-client now speaks the native API directly
+-- (agents/gemini-generate-content-adapter.ts).
+--
+-- This migration:
+--   1. Widens the api_format CHECK constraint (last set in 0011) to
+--      admit 'gemini_generate_content'.
+--   2. Switches provider.gemini to that format and to the native base
+--      URL. Credentials are unchanged: the same API key authenticates
+--      both endpoints.
+
+alter table public.llm_providers
+  drop constraint if exists llm_providers_api_format_check;
+
+alter table public.llm_providers
+  add constraint llm_providers_api_format_check
+  check (api_format in (
+    'anthropic_messages',
+    'openai_chat_completions',
+    'codex_responses',
+    'gemini_generate_content'
+  ));
+
+update public.llm_providers
+set api_format = 'gemini_generate_content',
+    base_url = 'https://generativelanguage.googleapis.com/v1beta',
+    updated_at = now()
+where id = 'provider.gemini'
+  and api_format <> 'gemini_generate_content';
@@ -0,0 +1,98 @@
+-- 0050_custom_llm_providers.sql
+--
+-- Workspace-defined LLM providers (self-hosted vLLM, Ollama, LM Studio,
+-- OpenRouter, ...).
+--
+-- Until now llm_providers only held the seeded builtin rows, readable by
+-- everyone and writable by nobody but the worker. Custom providers are
+-- rows owned by one workspace: its members see and run them, its admins
+-- create, edit and delete them.
+--
+-- This migration:
+--   1. Adds llm_providers.workspace_id (null = builtin, global) and
+--      allow_private_network. The worker refuses to call a custom
+--      provider whose base URL resolves to a loopback/private/link-local
+--      address unless an admin set allow_private_network — that is the
+--      opt-in for a model server on the team's own network.
+--   2. Widens auth_scheme to admit 'none' (local servers with no key).
+--   3. Adds nullable supports_tools / supports_vision overrides to
+--      llm_provider_models. The capability catalog knows nothing about
+--      custom models, so admins state what each one can do; context
+--      window already lives on the row.
+--   4. Enables RLS on both tables with workspace-scoped policies. The
+--      worker's pooled connection bypasses RLS as before.
+
+alter table public.llm_providers
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade,
+  add column allow_private_network boolean not null default false;
+
+create index llm_providers_workspace_idx
+  on public.llm_providers (workspace_id)
+  where workspace_id is not null;
+
+alter table public.llm_providers
+  drop constraint if exists llm_providers_auth_scheme_check;
+
+alter table public.llm_providers
+  add constraint llm_providers_auth_scheme_check
+  check (auth_scheme in ('x_api_key', 'bearer', 'none'));
+
+alter table public.llm_provider_models
+  add column supports_tools boolean,
+  add column supports_vision boolean;
+
+-- ── RLS ─────────────────────────────────────────────────────────────
+alter table public.llm_providers enable row level security;
+alter table public.llm_provider_models enable row level security;
+
+create policy llm_providers_read on public.llm_providers
+  for select to authenticated
+  using (
+    workspace_id is null
+    or public.workspace_role(workspace_id) is not null
+  );
+
+create policy llm_providers_custom_write on public.llm_providers
+  for all to authenticated
+  using (
+    workspace_id is not null
+    and public.is_workspace_admin(workspace_id)
+  )
+  with check (
+    workspace_id is not null
+    and public.is_workspace_admin(workspace_id)
+  );
+
+-- Model rows follow their provider: visible when the provider is, and
+-- writable only on custom providers the caller administers.
+create policy llm_provider_models_read on public.llm_provider_models
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.llm_providers p
+      where p.id = llm_provider_models.provider_id
+    )
+  );
+
+create policy llm_provider_models_custom_write on public.llm_provider_models
+  for all to authenticated
+  using (
+    exists (
+      select 1 from public.llm_providers p
+      where p.id = llm_provider_models.provider_id
+        and p.workspace_id is not null
+        and public.is_workspace_admin(p.workspace_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.llm_providers p
+      where p.id = llm_provider_models.provider_id
+        and p.workspace_id is not null
+        and public.is_workspace_admin(p.workspace_id)
+    )
+  );
+
+grant insert, update, delete on public.llm_providers to authenticated;
+grant insert, update, delete on public.llm_provider_models to authenticated;
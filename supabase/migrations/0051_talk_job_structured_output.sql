@@ -0,0 +1,26 @@
+-- 0051_talk_job_structured_output.sql
+--
+-- Structured-output jobs.
+--
+-- A job can now ask for its answer as a JSON object matching a schema
+-- (a weekly metrics digest, a status roll-up) instead of prose.
+-- `structured_output_json` holds the request:
+--
+--   { name: string,
+--     description?: string,
+--     schema: <JSON schema, object at the root>,
+--     stateKey: string | null }
+--
+-- Each run copies it into talk_runs.metadata_json.structuredOutput, the
+-- same place a chat request's schema lands, so the executor reads one
+-- shape for both. The model's reply is validated against the schema
+-- (with corrective retries), the parsed object is stored on the
+-- assistant message's metadata_json, and when stateKey is set it is
+-- also written to talk_state_entries under that key.
+--
+-- No RLS change: the column rides on the existing talk_jobs policies.
+--
+-- Revert: drop talk_jobs.structured_output_json.
+
+alter table public.talk_jobs
+  add column structured_output_json jsonb;
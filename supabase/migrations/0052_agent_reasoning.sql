@@ -0,0 +1,103 @@
+-- 0052_agent_reasoning.sql
+--
+-- Per-agent reasoning (extended thinking) settings.
+--
+-- Until now the client never asked for reasoning: Codex ran at its
+-- default effort, Anthropic and Gemini ran without a thinking budget,
+-- and NVIDIA Moonshot models had thinking switched off outright.
+-- registered_agents gains two columns, at most one of them set:
+--
+--   reasoning_effort         'off' | 'low' | 'medium' | 'high'
+--   reasoning_budget_tokens  an explicit thinking-token budget
+--
+-- Both null keeps each provider's default (the old behaviour). The
+-- client maps the setting to Anthropic thinking.budget_tokens, OpenAI
+-- and Codex reasoning.effort, and Gemini thinkingConfig.thinkingBudget
+-- (agents/reasoning.ts).
+--
+-- llm_attempts gains reasoning_tokens: the share of output_tokens the
+-- provider reports as thinking. output_tokens still includes it, so
+-- budgets and cost estimates are unchanged. Null where the provider
+-- doesn't break it out (Anthropic). usage_daily_rollup returns the sum;
+-- its result type changes, so it is dropped and recreated.
+--
+-- RLS: the new columns inherit the existing registered_agents and
+-- llm_attempts policies.
+--
+-- Revert: drop the three columns and the check constraint, and restore
+-- usage_daily_rollup from 0045.
+
+alter table public.registered_agents
+  add column reasoning_effort text,
+  add column reasoning_budget_tokens integer;
+
+alter table public.registered_agents
+  add constraint registered_agents_reasoning_check
+    check (
+      (reasoning_effort is null
+        or reasoning_effort in ('off', 'low', 'medium', 'high'))
+      and (reasoning_budget_tokens is null
+        or reasoning_budget_tokens between 1024 and 128000)
+      and (reasoning_effort is null or reasoning_budget_tokens is null)
+    );
+
+alter table public.llm_attempts
+  add column reasoning_tokens integer;
+
+drop function if exists public.usage_daily_rollup(timestamptz, timestamptz, boolean);
+
+create function public.usage_daily_rollup(
+  p_since timestamptz,
+  p_until timestamptz,
+  p_workspace boolean
+)
+returns table (
+  day date,
+  agent_id uuid,
+  agent_name text,
+  provider_id text,
+  model_id text,
+  attempts bigint,
+  input_tokens bigint,
+  cached_input_tokens bigint,
+  output_tokens bigint,
+  reasoning_tokens bigint,
+  estimated_cost_usd numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_workspace and not public.current_user_is_workspace_admin() then
+    raise exception 'usage_daily_rollup: workspace rollup requires admin'
+      using errcode = '42501';
+  end if;
+
+  return query
+    select
+      (a.created_at at time zone 'UTC')::date,
+      a.agent_id,
+      max(ra.name),
+      a.provider_id,
+      a.model_id,
+      count(*)::bigint,
+      coalesce(sum(a.input_tokens), 0)::bigint,
+      coalesce(sum(a.cached_input_tokens), 0)::bigint,
+      coalesce(sum(a.output_tokens), 0)::bigint,
+      coalesce(sum(a.reasoning_tokens), 0)::bigint,
+      coalesce(sum(a.estimated_cost_usd), 0)::numeric
+    from public.llm_attempts a
+    left join public.registered_agents ra on ra.id = a.agent_id
+    where a.created_at >= p_since
+      and a.created_at < p_until
+      and (p_workspace or a.owner_id = auth.uid())
+    group by 1, a.agent_id, a.provider_id, a.model_id
+    order by 1, a.agent_id, a.model_id;
+end;
+$$;
+revoke all on function public.usage_daily_rollup(timestamptz, timestamptz, boolean)
+  from public;
+grant execute on function public.usage_daily_rollup(timestamptz, timestamptz, boolean)
+  to authenticated;
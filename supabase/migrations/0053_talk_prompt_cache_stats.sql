@@ -0,0 +1,54 @@
+-- 0053_talk_prompt_cache_stats.sql
+--
+-- Prompt-cache hit rate per Talk.
+--
+-- The client now places cache breakpoints on the stable part of each
+-- prompt (Anthropic) and sends a per-Talk prompt_cache_key (OpenAI,
+-- Codex), and Anthropic, OpenAI and Codex attempts record
+-- cached_input_tokens alongside Gemini's. Each run's context snapshot
+-- reports how much of the Talk's recent input came from cache.
+--
+-- A shared Talk's attempts belong to several owners while llm_attempts
+-- RLS is owner-only, so the totals come from a SECURITY DEFINER
+-- function, like usage_budget_spend (0045). It returns totals, never
+-- rows, and nothing to callers without access to the Talk. Only
+-- successful attempts that reported cached_input_tokens count, so
+-- providers that don't break out cache reads don't drag the rate down.
+--
+-- Revert: drop function public.talk_prompt_cache_stats(uuid, timestamptz).
+
+create or replace function public.talk_prompt_cache_stats(
+  p_talk_id uuid,
+  p_since timestamptz
+)
+returns table (
+  attempts bigint,
+  input_tokens bigint,
+  cached_input_tokens bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if public.talk_access_role(p_talk_id) is null then
+    return;
+  end if;
+
+  return query
+    select
+      count(*)::bigint,
+      coalesce(sum(a.input_tokens), 0)::bigint,
+      coalesce(sum(a.cached_input_tokens), 0)::bigint
+    from public.llm_attempts a
+    where a.talk_id = p_talk_id
+      and a.created_at >= p_since
+      and a.status = 'success'
+      and a.cached_input_tokens is not null;
+end;
+$$;
+revoke all on function public.talk_prompt_cache_stats(uuid, timestamptz)
+  from public;
+grant execute on function public.talk_prompt_cache_stats(uuid, timestamptz)
+  to authenticated;
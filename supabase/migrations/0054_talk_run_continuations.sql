@@ -0,0 +1,43 @@
+-- 0054_talk_run_continuations.sql
+--
+-- Continue runs that hit the tool-iteration limit.
+--
+-- A run whose tool loop used every iteration used to stop and post
+-- whatever text it had. It now pauses instead:
+--
+--   talk_runs.status          gains 'paused'. Like awaiting_confirmation
+--                             it is active, not terminal: it holds the
+--                             thread and later ordered siblings, and can
+--                             be cancelled.
+--   talk_runs.continuation_json
+--                             the in-flight transcript, reply text and
+--                             usage so far (talks/executor.ts
+--                             TalkRunContinuation). Set while paused and
+--                             while a granted continuation is queued;
+--                             cleared when the run ends.
+--
+-- The user grants more iterations from the Talk (POST
+-- /runs/:runId/continue), which puts the run back to 'queued' and sends
+-- a new queue message. A job can grant them up front:
+-- talk_jobs.tool_iteration_grant is copied into each run's metadata and
+-- spent automatically on the run's first pause.
+--
+-- No RLS change: both columns ride on the existing table policies.
+--
+-- Revert: drop talk_runs.continuation_json and
+-- talk_jobs.tool_iteration_grant, move paused runs to 'failed', and
+-- restore the status check from 0001.
+
+alter table public.talk_runs
+  drop constraint talk_runs_status_check;
+
+alter table public.talk_runs
+  add constraint talk_runs_status_check
+    check (status in ('queued', 'running', 'awaiting_confirmation', 'paused', 'cancelled', 'completed', 'failed'));
+
+alter table public.talk_runs
+  add column continuation_json jsonb;
+
+alter table public.talk_jobs
+  add column tool_iteration_grant integer
+    check (tool_iteration_grant is null or tool_iteration_grant between 1 and 50);
@@ -0,0 +1,57 @@
+-- 0055_talk_run_trace_steps.sql
+--
+-- Durable per-run execution trace.
+--
+-- The live stream carries a tool's name and arguments and nothing else,
+-- and the run's context snapshot shows what the agent was given, not
+-- what it did. A talk_run_trace_steps row is one step of a run's
+-- timeline (talks/run-trace.ts):
+--
+--   run_started   an executor leg began (a continued run has several)
+--   llm_turn      one model request and its reply
+--   tool_call     arguments, result and duration
+--   retry         a re-sent turn or a queue redelivery
+--   fallback_hop  a model the run moved past
+--   run_finished  how the leg ended
+--
+-- data_json holds the step's detail. Text fields are capped at 4000
+-- characters and scrubbed of secret-looking values before they are
+-- written. The executor writes rows out-of-band when each leg ends, so
+-- a run whose transaction rolls back for a queue retry keeps its trace.
+--
+-- RLS: like talk_runs — owner-only writes, and members who can read the
+-- Talk can read its traces.
+--
+-- Revert: drop table public.talk_run_trace_steps.
+
+create table public.talk_run_trace_steps (
+  id bigint generated always as identity primary key,
+  run_id uuid not null references public.talk_runs(id) on delete cascade,
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  owner_id uuid not null references public.users(id) on delete cascade,
+  kind text not null
+    check (kind in ('run_started', 'llm_turn', 'tool_call', 'retry', 'fallback_hop', 'run_finished')),
+  started_at timestamptz not null,
+  duration_ms integer,
+  data_json jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index talk_run_trace_steps_run_idx
+  on public.talk_run_trace_steps (run_id, started_at, id);
+
+alter table public.talk_run_trace_steps enable row level security;
+
+create policy talk_run_trace_steps_owner on public.talk_run_trace_steps
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy talk_run_trace_steps_member_select
+  on public.talk_run_trace_steps
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+grant select, insert, update, delete
+  on public.talk_run_trace_steps
+  to authenticated;
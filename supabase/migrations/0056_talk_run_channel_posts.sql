@@ -0,0 +1,61 @@
+-- 0056_talk_run_channel_posts.sql
+--
+-- Audit log of messages an agent posted to a channel with a messaging
+-- tool (talks/slack-tools.ts slack_post_message).
+--
+-- channel_deliveries (0041) covers the one reply a channel-triggered run
+-- sends back to where it started. A messaging tool can post any number
+-- of messages, from any run, to any channel bound to the Talk; each post
+-- is one row here, tied to the run and agent that sent it, so the owner
+-- can see exactly what an agent broadcast.
+--
+-- text is the message as posted (Slack mrkdwn); external_message_id is
+-- the platform id (Slack ts). Rows are written out-of-band right after
+-- the platform accepts the post, so a run whose transaction rolls back
+-- still leaves a record of messages that went out.
+--
+-- RLS: owner-only writes; members who can read the Talk can read its
+-- posts.
+--
+-- Revert: drop table public.talk_run_channel_posts.
+
+create table public.talk_run_channel_posts (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.talk_runs(id) on delete cascade,
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  owner_id uuid not null references public.users(id) on delete cascade,
+  agent_id uuid references public.registered_agents(id) on delete set null,
+  channel_id uuid
+    references public.workspace_channels(id) on delete set null,
+  platform text not null check (platform in ('slack')),
+  -- Slack channel id.
+  target_id text not null,
+  -- Slack thread root ts when the post was a threaded reply.
+  thread_key text,
+  text text not null,
+  external_message_id text not null,
+  created_at timestamptz not null default now()
+);
+
+create index talk_run_channel_posts_run_idx
+  on public.talk_run_channel_posts (run_id, created_at);
+
+create index talk_run_channel_posts_talk_idx
+  on public.talk_run_channel_posts (talk_id, created_at desc);
+
+alter table public.talk_run_channel_posts enable row level security;
+
+create policy talk_run_channel_posts_owner
+  on public.talk_run_channel_posts
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy talk_run_channel_posts_member_select
+  on public.talk_run_channel_posts
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+grant select, insert, update, delete
+  on public.talk_run_channel_posts
+  to authenticated;
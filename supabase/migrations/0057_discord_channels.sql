@@ -0,0 +1,31 @@
+-- 0057_discord_channels.sql
+--
+-- Discord as a third workspace channel kind.
+--
+-- A Discord channel row holds the bot token in `ciphertext` (same
+-- pipeline as Telegram) and the application's id + Ed25519 public key
+-- in config_json. Inbound traffic arrives on the application's
+-- interactions endpoint (`/api/v1/webhooks/discord/:channelId`) as
+-- slash-command interactions; replies are posted to the Discord channel
+-- with the bot token and recorded in channel_deliveries like the other
+-- platforms.
+--
+-- Only the two kind/platform check constraints change. RLS is
+-- untouched.
+--
+-- Revert: delete discord rows from both tables, then restore the
+-- ('slack', 'telegram') checks.
+
+alter table public.workspace_channels
+  drop constraint if exists workspace_channels_kind_check;
+
+alter table public.workspace_channels
+  add constraint workspace_channels_kind_check
+  check (kind in ('slack', 'telegram', 'discord'));
+
+alter table public.channel_deliveries
+  drop constraint if exists channel_deliveries_platform_check;
+
+alter table public.channel_deliveries
+  add constraint channel_deliveries_platform_check
+  check (platform in ('slack', 'telegram', 'discord'));
@@ -0,0 +1,78 @@
+-- 0058_talk_context_source_refresh.sql
+--
+-- Scheduled re-crawl and change detection for URL context sources.
+--
+-- A URL source was fetched once (plus manual retries) and never again.
+-- Setting refresh_interval_minutes makes it a watched source: the cron
+-- tick (talks/source-refresh.ts) re-ingests it whenever next_refresh_at
+-- has passed, advancing next_refresh_at by the interval as it claims
+-- the row. Null interval = not watched, and next_refresh_at is null
+-- with it.
+--
+-- When a re-fetch produces text that differs from the previous
+-- extraction, one talk_context_source_revisions row records the line
+-- diff between the two, a system message is posted into the Talk, and
+-- on_change_job_id (when set) is triggered so a job can react. A failed
+-- re-fetch keeps the last good text (updateSourceExtraction) and is not
+-- a change. The first successful extraction is the baseline, not a
+-- revision.
+--
+-- diff_text is "- " / "+ " / "  " prefixed lines with "…" between hunks,
+-- capped in the Worker (is_diff_truncated). added_lines / removed_lines
+-- count the full diff, not the capped text.
+--
+-- RLS: revisions are owner-only for writes; members who can read the
+-- Talk can read them, matching talk_context_sources (0047).
+--
+-- Revert: drop table public.talk_context_source_revisions, drop index
+-- talk_context_sources_next_refresh_idx, then drop the three new
+-- talk_context_sources columns.
+
+alter table public.talk_context_sources
+  add column refresh_interval_minutes integer
+    check (
+      refresh_interval_minutes is null
+      or refresh_interval_minutes between 60 and 43200
+    ),
+  add column next_refresh_at timestamptz,
+  add column on_change_job_id uuid
+    references public.talk_jobs(id) on delete set null;
+
+create index talk_context_sources_next_refresh_idx
+  on public.talk_context_sources (next_refresh_at)
+  where next_refresh_at is not null;
+
+create table public.talk_context_source_revisions (
+  id uuid primary key default gen_random_uuid(),
+  source_id uuid not null
+    references public.talk_context_sources(id) on delete cascade,
+  talk_id uuid not null references public.talks(id) on delete cascade,
+  owner_id uuid not null references public.users(id) on delete cascade,
+  previous_extracted_at timestamptz,
+  extracted_at timestamptz not null,
+  added_lines integer not null check (added_lines >= 0),
+  removed_lines integer not null check (removed_lines >= 0),
+  diff_text text not null,
+  is_diff_truncated boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index talk_context_source_revisions_source_idx
+  on public.talk_context_source_revisions (source_id, created_at desc);
+
+alter table public.talk_context_source_revisions enable row level security;
+
+create policy talk_context_source_revisions_owner
+  on public.talk_context_source_revisions
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy talk_context_source_revisions_member_select
+  on public.talk_context_source_revisions
+  for select to authenticated
+  using (public.talk_access_role(talk_id) in ('viewer', 'editor'));
+
+grant select, insert, update, delete
+  on public.talk_context_source_revisions
+  to authenticated;
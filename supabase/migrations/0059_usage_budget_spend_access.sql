@@ -0,0 +1,157 @@
+-- 0059_usage_budget_spend_access.sql
+--
+-- Gate usage_budget_spend on access to the budget's scope.
+--
+-- 0045's usage_budget_spend(scope, scope_id, since) only checked the
+-- 'user' scope: any authenticated caller could read the spend of any
+-- Talk or job id, and the workspace-wide total. It is replaced by two
+-- functions keyed on a budget row, so the check runs against what the
+-- budget actually covers:
+--
+--   usage_budget_spend(budget_id, since)
+--       Dashboard read. Returns no row unless the caller may see the
+--       scope's spend:
+--         workspace  workspace admin
+--         user       that user, or a workspace admin
+--         talk       talk_access_role(talk) is not null
+--         job        talk_access_role(job's talk) is not null
+--
+--   usage_run_budget_spend(run_id, budget_id, since)
+--       Enforcement. The executor reads every budget that governs a run
+--       under the run owner's context, and a member's run is governed
+--       by the workspace budget even though the member may not read
+--       workspace spend. Returns no row unless the caller owns the run
+--       and the budget applies to it (the same match as
+--       listApplicableUsageBudgets).
+--
+-- Both return totals, never rows. The aggregation itself moves into
+-- usage_budget_total(), which is not executable by authenticated.
+--
+-- RLS: unchanged; usage_budgets and llm_attempts keep their policies.
+--
+-- Revert: drop usage_run_budget_spend, usage_budget_spend(uuid,
+-- timestamptz) and usage_budget_total, and restore usage_budget_spend
+-- from 0045.
+
+drop function if exists public.usage_budget_spend(text, uuid, timestamptz);
+
+-- ── usage_budget_total (internal) ──────────────────────────────────
+create function public.usage_budget_total(
+  p_scope text,
+  p_scope_id uuid,
+  p_since timestamptz
+)
+returns table (tokens bigint, cost_usd numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    coalesce(sum(coalesce(a.input_tokens, 0)
+                 + coalesce(a.output_tokens, 0)), 0)::bigint,
+    coalesce(sum(a.estimated_cost_usd), 0)::numeric
+  from public.llm_attempts a
+  left join public.talk_runs r
+    on p_scope = 'job' and r.id = a.run_id
+  where a.created_at >= p_since
+    and case p_scope
+      when 'workspace' then true
+      when 'user' then a.owner_id = p_scope_id
+      when 'talk' then a.talk_id = p_scope_id
+      when 'job' then r.job_id = p_scope_id
+      else false
+    end;
+$$;
+revoke all on function public.usage_budget_total(text, uuid, timestamptz)
+  from public;
+
+-- ── usage_budget_spend ─────────────────────────────────────────────
+create function public.usage_budget_spend(
+  p_budget_id uuid,
+  p_since timestamptz
+)
+returns table (tokens bigint, cost_usd numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_budget public.usage_budgets;
+  v_allowed boolean;
+begin
+  select * into v_budget from public.usage_budgets where id = p_budget_id;
+  if not found then
+    return;
+  end if;
+
+  v_allowed := case v_budget.scope
+    when 'workspace' then public.current_user_is_workspace_admin()
+    when 'user' then v_budget.scope_id = auth.uid()
+      or public.current_user_is_workspace_admin()
+    when 'talk' then public.talk_access_role(v_budget.scope_id) is not null
+    when 'job' then public.talk_access_role(
+      (select j.talk_id from public.talk_jobs j
+        where j.id = v_budget.scope_id)
+    ) is not null
+    else false
+  end;
+  if not coalesce(v_allowed, false) then
+    return;
+  end if;
+
+  return query
+    select t.tokens, t.cost_usd
+    from public.usage_budget_total(
+      v_budget.scope, v_budget.scope_id, p_since
+    ) t;
+end;
+$$;
+revoke all on function public.usage_budget_spend(uuid, timestamptz)
+  from public;
+grant execute on function public.usage_budget_spend(uuid, timestamptz)
+  to authenticated;
+
+-- ── usage_run_budget_spend ─────────────────────────────────────────
+create function public.usage_run_budget_spend(
+  p_run_id uuid,
+  p_budget_id uuid,
+  p_since timestamptz
+)
+returns table (tokens bigint, cost_usd numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_budget public.usage_budgets;
+begin
+  select b.* into v_budget
+    from public.usage_budgets b
+    join public.talk_runs r on r.id = p_run_id
+    where b.id = p_budget_id
+      and r.owner_id = auth.uid()
+      and case b.scope
+        when 'workspace' then true
+        when 'user' then b.scope_id = r.owner_id
+        when 'talk' then b.scope_id = r.talk_id
+        when 'job' then b.scope_id = r.job_id
+        else false
+      end;
+  if not found then
+    return;
+  end if;
+
+  return query
+    select t.tokens, t.cost_usd
+    from public.usage_budget_total(
+      v_budget.scope, v_budget.scope_id, p_since
+    ) t;
+end;
+$$;
+revoke all on function public.usage_run_budget_spend(uuid, uuid, timestamptz)
+  from public;
+grant execute on function public.usage_run_budget_spend(uuid, uuid, timestamptz)
+  to authenticated;
@@ -0,0 +1,331 @@
+-- 0060_usage_budget_workspaces.sql
+--
+-- Scope usage budgets and the usage dashboard to a workspace.
+--
+-- 0045 predates workspaces: a 'workspace' budget covered every
+-- llm_attempts row in the deployment, and its write policy called
+-- current_user_is_workspace_admin(). Since 0048 that is true for every
+-- user (each one owns a personal workspace), so any user could read
+-- every tenant's usage through usage_daily_rollup, set a deployment-wide
+-- hard budget that stopped everyone's runs, or budget another user.
+--
+-- usage_budgets gains workspace_id (defaulting to current_workspace_id(),
+-- like the 0048 tables). A Talk or job budget always lives in its Talk's
+-- workspace; a trigger sets that, whatever the writer sent. A budget
+-- governs only runs in its workspace:
+--
+--   scope      counts llm_attempts rows where
+--   workspace  the attempt's workspace = workspace_id
+--   user       owner_id = scope_id, in workspace_id
+--   talk       talk_id = scope_id
+--   job        the run's talk_runs.job_id = scope_id
+--
+-- An attempt's workspace is its Talk's, or its agent's when it has no
+-- Talk. A run's workspace is its Talk's, or the owner's current
+-- workspace when it has none.
+--
+-- RLS: budgets are readable by the workspace's members (guests too:
+-- their runs in shared Talks are governed by them). Workspace and user
+-- budgets are written by that workspace's admins, user budgets only for
+-- its members. Talk and job budgets by their creator when they can edit
+-- the Talk, or by the workspace's admins. usage_budget_spend checks
+-- admin of the budget's workspace, not the current one;
+-- usage_daily_rollup covers the current workspace only.
+--
+-- Backfill: Talk and job budgets move to their Talk's workspace, the
+-- rest to their writer's default workspace. Budgets that can't be
+-- placed (deleted Talk, writer without a workspace) are dropped.
+--
+-- Revert: restore usage_budget_total, usage_budget_spend and
+-- usage_run_budget_spend from 0059, usage_daily_rollup from 0052, the
+-- 0045 usage_budgets policies and scope key; drop the trigger,
+-- usage_budget_talk_id() and usage_budgets.workspace_id.
+
+-- ── usage_budgets.workspace_id ─────────────────────────────────────
+-- The Talk a talk / job budget is about; null for other scopes.
+create or replace function public.usage_budget_talk_id(
+  p_scope text,
+  p_scope_id uuid
+)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_scope
+    when 'talk' then (select t.id from public.talks t where t.id = p_scope_id)
+    when 'job' then (
+      select j.talk_id from public.talk_jobs j where j.id = p_scope_id
+    )
+    else null
+  end;
+$$;
+revoke all on function public.usage_budget_talk_id(text, uuid) from public;
+grant execute on function public.usage_budget_talk_id(text, uuid)
+  to authenticated;
+
+alter table public.usage_budgets
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+
+update public.usage_budgets b
+  set workspace_id = t.workspace_id
+  from public.talks t
+  where b.scope in ('talk', 'job')
+    and t.id = public.usage_budget_talk_id(b.scope, b.scope_id);
+update public.usage_budgets b
+  set workspace_id = u.default_workspace_id
+  from public.users u
+  where b.scope in ('workspace', 'user')
+    and u.id = b.owner_id;
+delete from public.usage_budgets where workspace_id is null;
+
+alter table public.usage_budgets
+  alter column workspace_id set not null,
+  alter column workspace_id set default public.current_workspace_id();
+
+drop index public.usage_budgets_scope_key;
+create unique index usage_budgets_scope_key
+  on public.usage_budgets (
+    workspace_id,
+    scope,
+    coalesce(scope_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    metric,
+    period
+  );
+
+create or replace function public.usage_budgets_set_talk_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.scope in ('talk', 'job') then
+    select t.workspace_id into new.workspace_id
+      from public.talks t
+      where t.id = public.usage_budget_talk_id(new.scope, new.scope_id);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger usage_budgets_set_talk_workspace
+  before insert or update of scope, scope_id, workspace_id
+  on public.usage_budgets
+  for each row execute function public.usage_budgets_set_talk_workspace();
+
+-- ── RLS ─────────────────────────────────────────────────────────────
+drop policy usage_budgets_read on public.usage_budgets;
+drop policy usage_budgets_write on public.usage_budgets;
+
+create policy usage_budgets_read
+  on public.usage_budgets
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy usage_budgets_write
+  on public.usage_budgets
+  for all to authenticated
+  using (
+    public.is_workspace_admin(workspace_id)
+    or (scope in ('talk', 'job') and owner_id = auth.uid())
+  )
+  with check (
+    case scope
+      when 'workspace' then public.is_workspace_admin(workspace_id)
+      when 'user' then public.is_workspace_admin(workspace_id)
+        and exists (
+          select 1 from public.workspace_members m
+          where m.workspace_id = usage_budgets.workspace_id
+            and m.user_id = usage_budgets.scope_id
+        )
+      else public.is_workspace_admin(workspace_id)
+        or (
+          owner_id = auth.uid()
+          and public.talk_access_role(
+            public.usage_budget_talk_id(scope, scope_id)
+          ) in ('owner', 'editor')
+        )
+    end
+  );
+
+-- ── usage_budget_total (internal) ──────────────────────────────────
+drop function public.usage_budget_total(text, uuid, timestamptz);
+
+create function public.usage_budget_total(
+  p_scope text,
+  p_scope_id uuid,
+  p_workspace_id uuid,
+  p_since timestamptz
+)
+returns table (tokens bigint, cost_usd numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    coalesce(sum(coalesce(a.input_tokens, 0)
+                 + coalesce(a.output_tokens, 0)), 0)::bigint,
+    coalesce(sum(a.estimated_cost_usd), 0)::numeric
+  from public.llm_attempts a
+  left join public.talks t on t.id = a.talk_id
+  left join public.registered_agents ra on ra.id = a.agent_id
+  left join public.talk_runs r
+    on p_scope = 'job' and r.id = a.run_id
+  where a.created_at >= p_since
+    and case p_scope
+      when 'workspace' then
+        coalesce(t.workspace_id, ra.workspace_id) = p_workspace_id
+      when 'user' then a.owner_id = p_scope_id
+        and coalesce(t.workspace_id, ra.workspace_id) = p_workspace_id
+      when 'talk' then a.talk_id = p_scope_id
+      when 'job' then r.job_id = p_scope_id
+      else false
+    end;
+$$;
+revoke all on function public.usage_budget_total(text, uuid, uuid, timestamptz)
+  from public;
+
+-- ── usage_budget_spend ─────────────────────────────────────────────
+create or replace function public.usage_budget_spend(
+  p_budget_id uuid,
+  p_since timestamptz
+)
+returns table (tokens bigint, cost_usd numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_budget public.usage_budgets;
+  v_allowed boolean;
+begin
+  select * into v_budget from public.usage_budgets where id = p_budget_id;
+  if not found then
+    return;
+  end if;
+
+  v_allowed := case v_budget.scope
+    when 'workspace' then public.is_workspace_admin(v_budget.workspace_id)
+    when 'user' then v_budget.scope_id = auth.uid()
+      or public.is_workspace_admin(v_budget.workspace_id)
+    else public.talk_access_role(
+      public.usage_budget_talk_id(v_budget.scope, v_budget.scope_id)
+    ) is not null
+  end;
+  if not coalesce(v_allowed, false) then
+    return;
+  end if;
+
+  return query
+    select t.tokens, t.cost_usd
+    from public.usage_budget_total(
+      v_budget.scope, v_budget.scope_id, v_budget.workspace_id, p_since
+    ) t;
+end;
+$$;
+
+-- ── usage_run_budget_spend ─────────────────────────────────────────
+create or replace function public.usage_run_budget_spend(
+  p_run_id uuid,
+  p_budget_id uuid,
+  p_since timestamptz
+)
+returns table (tokens bigint, cost_usd numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_budget public.usage_budgets;
+begin
+  select b.* into v_budget
+    from public.usage_budgets b
+    join public.talk_runs r on r.id = p_run_id
+    left join public.talks t on t.id = r.talk_id
+    where b.id = p_budget_id
+      and r.owner_id = auth.uid()
+      and b.workspace_id =
+        coalesce(t.workspace_id, public.current_workspace_id())
+      and case b.scope
+        when 'workspace' then true
+        when 'user' then b.scope_id = r.owner_id
+        when 'talk' then b.scope_id = r.talk_id
+        when 'job' then b.scope_id = r.job_id
+        else false
+      end;
+  if not found then
+    return;
+  end if;
+
+  return query
+    select t.tokens, t.cost_usd
+    from public.usage_budget_total(
+      v_budget.scope, v_budget.scope_id, v_budget.workspace_id, p_since
+    ) t;
+end;
+$$;
+
+-- ── usage_daily_rollup ─────────────────────────────────────────────
+-- Same result type as 0052; the rows are now limited to the current
+-- workspace, and p_workspace needs admin of that workspace.
+create or replace function public.usage_daily_rollup(
+  p_since timestamptz,
+  p_until timestamptz,
+  p_workspace boolean
+)
+returns table (
+  day date,
+  agent_id uuid,
+  agent_name text,
+  provider_id text,
+  model_id text,
+  attempts bigint,
+  input_tokens bigint,
+  cached_input_tokens bigint,
+  output_tokens bigint,
+  reasoning_tokens bigint,
+  estimated_cost_usd numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_workspace_id uuid := public.current_workspace_id();
+begin
+  if p_workspace and not public.is_workspace_admin(v_workspace_id) then
+    raise exception 'usage_daily_rollup: workspace rollup requires admin'
+      using errcode = '42501';
+  end if;
+
+  return query
+    select
+      (a.created_at at time zone 'UTC')::date,
+      a.agent_id,
+      max(ra.name),
+      a.provider_id,
+      a.model_id,
+      count(*)::bigint,
+      coalesce(sum(a.input_tokens), 0)::bigint,
+      coalesce(sum(a.cached_input_tokens), 0)::bigint,
+      coalesce(sum(a.output_tokens), 0)::bigint,
+      coalesce(sum(a.reasoning_tokens), 0)::bigint,
+      coalesce(sum(a.estimated_cost_usd), 0)::numeric
+    from public.llm_attempts a
+    left join public.talks t on t.id = a.talk_id
+    left join public.registered_agents ra on ra.id = a.agent_id
+    where a.created_at >= p_since
+      and a.created_at < p_until
+      and coalesce(t.workspace_id, ra.workspace_id) = v_workspace_id
+      and (p_workspace or a.owner_id = auth.uid())
+    group by 1, a.agent_id, a.provider_id, a.model_id
+    order by 1, a.agent_id, a.model_id;
+end;
+$$;
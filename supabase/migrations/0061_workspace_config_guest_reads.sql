@@ -0,0 +1,46 @@
+-- 0061_workspace_config_guest_reads.sql
+--
+-- Keep workspace configuration away from guests.
+--
+-- 0048 let anyone with a workspace role read the workspace's provider
+-- key rows, their verifications, channels and data connectors. Sharing
+-- a single Talk adds its member to the Talk's workspace as a 'guest'
+-- (add_talk_member_workspace_guest), so that exposed key metadata and
+-- connector and channel config to everyone a Talk was shared with.
+--
+-- Reads now need owner, admin or member. Guests don't need these rows:
+-- runs in a shared Talk execute under the Talk owner's context (0047),
+-- which resolves the credentials.
+--
+-- RLS: the four *_read policies below are replaced; writes stay
+-- admin-only.
+--
+-- Revert: recreate the four policies with
+-- `workspace_role(workspace_id) is not null`, as in 0048.
+
+drop policy workspace_provider_secrets_read
+  on public.workspace_provider_secrets;
+create policy workspace_provider_secrets_read
+  on public.workspace_provider_secrets
+  for select to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'admin', 'member'));
+
+drop policy workspace_provider_verifications_read
+  on public.workspace_provider_verifications;
+create policy workspace_provider_verifications_read
+  on public.workspace_provider_verifications
+  for select to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'admin', 'member'));
+
+drop policy workspace_channels_read on public.workspace_channels;
+create policy workspace_channels_read
+  on public.workspace_channels
+  for select to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'admin', 'member'));
+
+drop policy workspace_data_connectors_read
+  on public.workspace_data_connectors;
+create policy workspace_data_connectors_read
+  on public.workspace_data_connectors
+  for select to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'admin', 'member'));
@@ -0,0 +1,149 @@
+-- 0062_member_add_by_email.sql
+--
+-- Add Talk and workspace members by email without an id lookup.
+--
+-- 0047's workspace_user_id_by_email(email) was executable by every
+-- authenticated user and returned the account id for any address, so
+-- anyone could enumerate accounts. It is dropped. The two routes that
+-- used it now call a SECURITY DEFINER function that checks the caller
+-- may add members, resolves the address and writes the row itself:
+--
+--   share_talk_by_email(talk, email, role, invite_expires_at)
+--       Talk owner only. 'member' when the address belongs to an active
+--       account (added, or its role updated), 'invited' when it doesn't
+--       (the 0047 pending invite is created or refreshed), 'self' for
+--       the owner's own address.
+--
+--   add_workspace_member_by_email(workspace, email, role)
+--       Workspace admins only; granting or changing 'owner' needs an
+--       owner, as in the workspace_members_admin_write policy. False
+--       when no active account uses the address.
+--
+-- Neither returns a user id. The caller learns only what the add did,
+-- which the member list shows anyway.
+--
+-- RLS: unchanged. Both functions bypass it for the write, so they
+-- repeat the talk_members / workspace_members write checks.
+--
+-- Revert: drop both functions and restore workspace_user_id_by_email
+-- from 0047.
+
+drop function public.workspace_user_id_by_email(text);
+
+-- Active account for an address. Internal: not executable by
+-- authenticated.
+create function public.active_user_id_by_email(p_email text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.users
+  where lower(email) = lower(btrim(p_email))
+    and is_active = true
+  order by created_at asc
+  limit 1;
+$$;
+revoke all on function public.active_user_id_by_email(text) from public;
+
+create function public.share_talk_by_email(
+  p_talk_id uuid,
+  p_email text,
+  p_role text,
+  p_invite_expires_at timestamptz
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  if public.talk_access_role(p_talk_id) is distinct from 'owner' then
+    raise exception 'share_talk_by_email: only the Talk owner can share it'
+      using errcode = '42501';
+  end if;
+  if p_role not in ('viewer', 'editor') then
+    raise exception 'share_talk_by_email: invalid role %', p_role
+      using errcode = '22023';
+  end if;
+
+  v_user_id := public.active_user_id_by_email(p_email);
+  if v_user_id = auth.uid() then
+    return 'self';
+  end if;
+
+  if v_user_id is null then
+    insert into public.talk_invites
+      (talk_id, email, role, invited_by, expires_at)
+    values
+      (p_talk_id, lower(btrim(p_email)), p_role, auth.uid(),
+       p_invite_expires_at)
+    on conflict (talk_id, lower(email)) where accepted_at is null
+    do update set role = excluded.role,
+                  invited_by = excluded.invited_by,
+                  expires_at = excluded.expires_at;
+    return 'invited';
+  end if;
+
+  insert into public.talk_members (talk_id, user_id, role)
+    values (p_talk_id, v_user_id, p_role)
+  on conflict (talk_id, user_id) do update set role = excluded.role;
+  return 'member';
+end;
+$$;
+
+create function public.add_workspace_member_by_email(
+  p_workspace_id uuid,
+  p_email text,
+  p_role text
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_existing_role text;
+begin
+  if not public.is_workspace_admin(p_workspace_id) then
+    raise exception 'add_workspace_member_by_email: admin required'
+      using errcode = '42501';
+  end if;
+  if p_role not in ('owner', 'admin', 'member', 'guest') then
+    raise exception 'add_workspace_member_by_email: invalid role %', p_role
+      using errcode = '22023';
+  end if;
+
+  v_user_id := public.active_user_id_by_email(p_email);
+  if v_user_id is null then
+    return false;
+  end if;
+
+  select role into v_existing_role
+    from public.workspace_members
+    where workspace_id = p_workspace_id and user_id = v_user_id;
+  if (p_role = 'owner' or v_existing_role = 'owner')
+    and public.workspace_role(p_workspace_id) <> 'owner' then
+    raise exception 'add_workspace_member_by_email: owner required'
+      using errcode = '42501';
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+    values (p_workspace_id, v_user_id, p_role)
+  on conflict (workspace_id, user_id) do update set role = excluded.role;
+  return true;
+end;
+$$;
+
+revoke all on function
+  public.share_talk_by_email(uuid, text, text, timestamptz) from public;
+grant execute on function
+  public.share_talk_by_email(uuid, text, text, timestamptz) to authenticated;
+revoke all on function
+  public.add_workspace_member_by_email(uuid, text, text) from public;
+grant execute on function
+  public.add_workspace_member_by_email(uuid, text, text) to authenticated;
@@ -0,0 +1,93 @@
+-- 0063_talk_editor_update_columns.sql
+--
+-- Limit what a Talk editor's UPDATE can change on runs and threads.
+--
+-- 0047's talk_runs_editor_update and talk_threads_editor_update let an
+-- editor update any column of any run or thread in the Talk, as long
+-- as owner_id stays the Talk owner's. That reaches far past what the
+-- features need: an editor could requeue a finished run, retarget its
+-- agent or model, rewrite its metadata, or move a thread.
+--
+-- Column grants can't tell the two apart (owners and editors are both
+-- `authenticated`), so a BEFORE UPDATE trigger checks updates made
+-- while talk_access_role() is 'editor'. Anything outside these shapes
+-- raises 42501:
+--
+--   talk_runs     cancel    queued / running / awaiting_confirmation /
+--                           paused -> cancelled; may also set ended_at,
+--                           cancel_reason and clear continuation_json
+--                 continue  paused -> queued; may also change
+--                           continuation_json (the iteration grant)
+--   talk_threads  title     title and updated_at (title healing)
+--
+-- Owner-context writes (the executor runs shared-Talk work as the Talk
+-- owner) and service-role writes are untouched.
+--
+-- RLS: unchanged; the two 0047 policies still decide which rows an
+-- editor reaches.
+--
+-- Revert: drop both triggers and their functions.
+
+-- ── talk_runs ───────────────────────────────────────────────────────
+create or replace function public.talk_runs_editor_update_guard()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_changed jsonb := to_jsonb(new) - 'status' - 'continuation_json';
+  v_before jsonb := to_jsonb(old) - 'status' - 'continuation_json';
+begin
+  if public.talk_access_role(old.talk_id) is distinct from 'editor' then
+    return new;
+  end if;
+
+  if old.status in ('queued', 'running', 'awaiting_confirmation', 'paused')
+    and new.status = 'cancelled'
+    and new.continuation_json is null
+    and v_changed - 'ended_at' - 'cancel_reason'
+      = v_before - 'ended_at' - 'cancel_reason' then
+    return new;
+  end if;
+
+  if old.status = 'paused'
+    and new.status = 'queued'
+    and v_changed = v_before then
+    return new;
+  end if;
+
+  raise exception 'talk_runs: editors can only cancel or continue a run'
+    using errcode = '42501';
+end;
+$$;
+
+create trigger talk_runs_editor_update_guard
+  before update on public.talk_runs
+  for each row execute function public.talk_runs_editor_update_guard();
+
+-- ── talk_threads ────────────────────────────────────────────────────
+create or replace function public.talk_threads_editor_update_guard()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.talk_access_role(old.talk_id) is distinct from 'editor' then
+    return new;
+  end if;
+
+  if to_jsonb(new) - 'title' - 'updated_at'
+    = to_jsonb(old) - 'title' - 'updated_at' then
+    return new;
+  end if;
+
+  raise exception 'talk_threads: editors can only change a thread title'
+    using errcode = '42501';
+end;
+$$;
+
+create trigger talk_threads_editor_update_guard
+  before update on public.talk_threads
+  for each row execute function public.talk_threads_editor_update_guard();
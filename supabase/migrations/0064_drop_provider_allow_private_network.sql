@@ -0,0 +1,20 @@
+-- 0064_drop_provider_allow_private_network.sql
+--
+-- Drop llm_providers.allow_private_network.
+--
+-- 0050 let a workspace admin set the flag on their own custom provider
+-- to skip the SSRF check, and since 0048 every user is the admin of a
+-- personal workspace, so any user could point a provider at loopback,
+-- the private network or the cloud metadata address.
+--
+-- Reaching a private model server is now an operator decision: the
+-- worker skips the address check only for hosts listed in the
+-- CUSTOM_PROVIDER_PRIVATE_HOSTS env var. Providers that relied on the
+-- flag fail the check (runs, discovery and verification report the
+-- base URL as blocked) until the operator lists their host.
+--
+-- RLS: unchanged.
+--
+-- Revert: add the column back as `boolean not null default false`.
+
+alter table public.llm_providers drop column allow_private_network;
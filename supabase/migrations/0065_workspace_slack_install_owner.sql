@@ -0,0 +1,102 @@
+-- 0065_workspace_slack_install_owner.sql
+--
+-- Give each Slack install an owning workspace.
+--
+-- 0048 left workspace_slack_installs deployment-wide, with writes gated
+-- on current_user_is_workspace_admin(). Every user owns a personal
+-- workspace, so that is true for everyone: any user could overwrite or
+-- delete every tenant's install and bot token. Reads were `using (true)`,
+-- so any workspace could also bind another tenant's Slack channel, then
+-- receive its inbound messages and post with its bot token.
+--
+-- workspace_slack_installs gains workspace_id. team_id stays the key: a
+-- Slack team is installed into one workspace, and an install from
+-- another workspace is refused (slack-oauth-service.ts). The install
+-- flow records the workspace it started in on oauth_state.workspace_id.
+--
+-- A channel uses an install only inside the install's workspace: the
+-- inbound webhook match, outbound delivery and the Slack tools look the
+-- install up through the channel's own workspace_id.
+--
+-- current_user_is_workspace_admin() has no callers left and is dropped.
+--
+-- RLS: installs are readable by the workspace's owners, admins and
+-- members (guests don't manage channels, as in 0061) and writable by
+-- its admins.
+--
+-- Backfill: an install moves to the workspace of its oldest bound
+-- channel, else its installer's default workspace. Installs that can't
+-- be placed are dropped.
+--
+-- Revert: restore the 0023 policies and the 0048
+-- current_user_is_workspace_admin(), restore
+-- workspace_slack_install_bound_channel_count from 0023, drop
+-- oauth_state.workspace_id and workspace_slack_installs.workspace_id.
+
+-- ── workspace_slack_installs.workspace_id ─────────────────────────
+alter table public.workspace_slack_installs
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+
+update public.workspace_slack_installs i
+  set workspace_id = coalesce(
+    (
+      select c.workspace_id from public.workspace_channels c
+      where c.kind = 'slack'
+        and c.config_json ->> 'workspace_id' = i.team_id
+      order by c.created_at asc
+      limit 1
+    ),
+    (select u.default_workspace_id from public.users u
+      where u.id = i.installed_by)
+  );
+delete from public.workspace_slack_installs where workspace_id is null;
+
+alter table public.workspace_slack_installs
+  alter column workspace_id set not null;
+
+create index workspace_slack_installs_workspace_idx
+  on public.workspace_slack_installs (workspace_id);
+
+alter table public.oauth_state
+  add column workspace_id uuid
+    references public.workspaces(id) on delete cascade;
+
+-- ── RLS ─────────────────────────────────────────────────────────────
+drop policy workspace_slack_installs_read
+  on public.workspace_slack_installs;
+drop policy workspace_slack_installs_write
+  on public.workspace_slack_installs;
+
+create policy workspace_slack_installs_read
+  on public.workspace_slack_installs
+  for select to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'admin', 'member'));
+
+create policy workspace_slack_installs_write
+  on public.workspace_slack_installs
+  for all to authenticated
+  using (public.is_workspace_admin(workspace_id))
+  with check (public.is_workspace_admin(workspace_id));
+
+drop function public.current_user_is_workspace_admin();
+
+-- ── Bound channel count ────────────────────────────────────────────
+-- Channels of the install's own workspace only.
+create or replace function public.workspace_slack_install_bound_channel_count(
+  team_id text
+)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::bigint
+  from public.workspace_channels c
+  join public.workspace_slack_installs i
+    on i.team_id = workspace_slack_install_bound_channel_count.team_id
+   and i.workspace_id = c.workspace_id
+  where c.kind = 'slack'
+    and c.config_json ->> 'workspace_id' = i.team_id;
+$$;
@@ -0,0 +1,66 @@
+-- 0066_workspace_member_directory_guests.sql
+--
+-- Keep the workspace member list away from guests.
+--
+-- 0048's workspace_member_directory() and workspace_members_select let
+-- anyone with a workspace role list every member's email and role.
+-- Sharing a single Talk makes its member a 'guest' of the Talk's
+-- workspace, so an outsider shared into one Talk could read the whole
+-- workspace roster.
+--
+-- Guests now see only their own membership. What they need about the
+-- people in a shared Talk (the owner's and other members' names) comes
+-- from talk_member_directory() (0047), which covers that Talk only.
+--
+-- RLS: workspace_members_select is replaced; owners, admins and members
+-- still read every row of their workspace.
+--
+-- Revert: restore workspace_member_directory() and
+-- workspace_members_select from 0048.
+
+drop policy workspace_members_select on public.workspace_members;
+create policy workspace_members_select on public.workspace_members
+  for select to authenticated
+  using (
+    user_id = auth.uid()
+    or public.workspace_role(workspace_id) in ('owner', 'admin', 'member')
+  );
+
+create or replace function public.workspace_member_directory(
+  p_workspace_id uuid
+)
+returns table (
+  user_id uuid,
+  email text,
+  display_name text,
+  role text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_role text := public.workspace_role(p_workspace_id);
+begin
+  if v_role is null then
+    return;
+  end if;
+
+  return query
+    select u.id, u.email, u.display_name, m.role, m.created_at
+      from public.workspace_members m
+      join public.users u on u.id = m.user_id
+      where m.workspace_id = p_workspace_id
+        and (v_role <> 'guest' or m.user_id = auth.uid())
+      order by
+        case m.role
+          when 'owner' then 0
+          when 'admin' then 1
+          when 'member' then 2
+          else 3
+        end,
+        m.created_at asc;
+end;
+$$;
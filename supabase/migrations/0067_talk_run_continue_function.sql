@@ -0,0 +1,99 @@
+-- 0067_talk_run_continue_function.sql
+--
+-- Continue a paused run through a function instead of a direct update.
+--
+-- 0063 let a Talk editor move a paused run back to 'queued' with any
+-- continuation_json. That column is the transcript the run resumes
+-- from, under the Talk owner's tools and credentials, so an editor could
+-- write their own transcript into the owner's run.
+--
+-- grant_talk_run_iterations(run, iterations, auto) now does the continue:
+-- it merges only grantedIterations / autoGranted into the continuation
+-- and queues the run. The Talk's owner and editors (and the run's owner)
+-- may call it; for anyone else it returns false, as for a run that
+-- isn't paused.
+--
+-- talk_runs_editor_update_guard drops the continue shape, so an editor's
+-- direct update can only cancel. The guard is now SECURITY INVOKER and
+-- checks writes made as `authenticated` only: writes inside SECURITY
+-- DEFINER functions such as this one run as the function owner and are
+-- trusted like service-role writes.
+--
+-- RLS: unchanged.
+--
+-- Revert: restore talk_runs_editor_update_guard() from 0063 and drop
+-- grant_talk_run_iterations().
+
+create function public.grant_talk_run_iterations(
+  p_run_id uuid,
+  p_iterations integer,
+  p_auto boolean
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run public.talk_runs;
+begin
+  if p_iterations is null or p_iterations < 1 or p_iterations > 50 then
+    raise exception 'grant_talk_run_iterations: invalid grant %', p_iterations
+      using errcode = '22023';
+  end if;
+
+  select * into v_run from public.talk_runs where id = p_run_id;
+  if not found
+    or not (
+      v_run.owner_id = auth.uid()
+      or public.talk_access_role(v_run.talk_id) in ('owner', 'editor')
+    ) then
+    return false;
+  end if;
+
+  update public.talk_runs
+    set status = 'queued',
+        continuation_json = continuation_json || jsonb_build_object(
+          'grantedIterations', p_iterations,
+          'autoGranted',
+          coalesce(p_auto, false)
+            or coalesce((continuation_json->>'autoGranted')::boolean, false)
+        )
+    where id = p_run_id
+      and status = 'paused'
+      and continuation_json is not null;
+  return found;
+end;
+$$;
+
+revoke all on function public.grant_talk_run_iterations(uuid, integer, boolean)
+  from public;
+grant execute on function public.grant_talk_run_iterations(uuid, integer, boolean)
+  to authenticated;
+
+create or replace function public.talk_runs_editor_update_guard()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_changed jsonb := to_jsonb(new) - 'status' - 'continuation_json';
+  v_before jsonb := to_jsonb(old) - 'status' - 'continuation_json';
+begin
+  if current_user <> 'authenticated'
+    or public.talk_access_role(old.talk_id) is distinct from 'editor' then
+    return new;
+  end if;
+
+  if old.status in ('queued', 'running', 'awaiting_confirmation', 'paused')
+    and new.status = 'cancelled'
+    and new.continuation_json is null
+    and v_changed - 'ended_at' - 'cancel_reason'
+      = v_before - 'ended_at' - 'cancel_reason' then
+    return new;
+  end if;
+
+  raise exception 'talk_runs: editors can only cancel a run'
+    using errcode = '42501';
+end;
+$$;
@@ -0,0 +1,125 @@
+-- 0068_talk_editor_inserts.sql
+--
+-- Limit what a Talk editor can insert into messages and runs.
+--
+-- 0047's talk_messages_editor_insert and talk_runs_editor_insert only
+-- pin owner_id and the author (created_by / requested_by). An editor
+-- could insert assistant, system or tool messages into the owner's
+-- history, and runs that start in any status, name any agent, carry a
+-- continuation transcript or a tool-iteration grant in metadata_json,
+-- or point at another user's message. The executor runs those under
+-- the Talk owner's tools and credentials.
+--
+-- Editors post through enqueueTalkTurnAtomic(), which writes one user
+-- message and one queued run per target agent. Those are now the only
+-- shapes an editor may insert:
+--
+--   talk_messages  role 'user', authored by the editor, with no agent,
+--                  run or metadata
+--   talk_runs      a queued conversation run for one of the Talk's
+--                  agents, triggered by the editor's own user message
+--                  in the same thread, in a round of that message if
+--                  any; metadata_json holds at most structuredOutput,
+--                  the tool-family snapshot is the Talk's live set, and
+--                  the executor, job, source and continuation columns
+--                  are empty
+--
+-- The message shape is a policy check. The run shape is a BEFORE INSERT
+-- trigger that, like 0067's update guard, checks writes made as
+-- `authenticated` while talk_access_role() is 'editor' and raises 42501
+-- otherwise.
+--
+-- RLS: talk_messages_editor_insert is replaced; talk_runs_editor_insert
+-- is unchanged.
+--
+-- Revert: restore talk_messages_editor_insert from 0047; drop the
+-- talk_runs_editor_insert_guard trigger and function.
+
+-- ── talk_messages ───────────────────────────────────────────────────
+drop policy talk_messages_editor_insert on public.talk_messages;
+create policy talk_messages_editor_insert on public.talk_messages
+  for insert to authenticated
+  with check (
+    public.talk_access_role(talk_id) = 'editor'
+    and owner_id = public.talk_owner_id(talk_id)
+    and created_by = auth.uid()
+    and role = 'user'
+    and agent_id is null
+    and run_id is null
+    and sequence_in_run is null
+    and metadata_json is null
+  );
+
+-- ── talk_runs ───────────────────────────────────────────────────────
+create function public.talk_runs_editor_insert_guard()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user <> 'authenticated'
+    or public.talk_access_role(new.talk_id) is distinct from 'editor' then
+    return new;
+  end if;
+
+  if new.status = 'queued'
+    and new.run_kind = 'conversation'
+    and new.job_id is null
+    and new.agent_id is null
+    and new.executor_alias is null
+    and new.executor_model is null
+    and new.task_type is null
+    and new.selected_mode is null
+    and new.transport is null
+    and new.timeout_phase is null
+    and new.source_binding_id is null
+    and new.source_external_message_id is null
+    and new.source_thread_key is null
+    and new.started_at is null
+    and new.ended_at is null
+    and new.cancel_reason is null
+    and new.continuation_json is null
+    and (
+      new.metadata_json is null
+      or (
+        jsonb_typeof(new.metadata_json) = 'object'
+        and new.metadata_json - 'structuredOutput' = '{}'::jsonb
+      )
+    )
+    and new.active_tool_families_snapshot is not distinct from (
+      select t.active_tool_families_json from public.talks t
+      where t.id = new.talk_id
+    )
+    and exists (
+      select 1 from public.talk_agents ta
+      where ta.talk_id = new.talk_id
+        and ta.registered_agent_id = new.target_agent_id
+    )
+    and exists (
+      select 1 from public.talk_messages m
+      where m.id = new.trigger_message_id
+        and m.talk_id = new.talk_id
+        and m.thread_id = new.thread_id
+        and m.role = 'user'
+        and m.created_by = auth.uid()
+    )
+    and (
+      new.round_id is null
+      or exists (
+        select 1 from public.talk_rounds r
+        where r.id = new.round_id
+          and r.talk_id = new.talk_id
+          and r.trigger_message_id = new.trigger_message_id
+      )
+    ) then
+    return new;
+  end if;
+
+  raise exception 'talk_runs: editors can only queue a run for their own message'
+    using errcode = '42501';
+end;
+$$;
+
+create trigger talk_runs_editor_insert_guard
+  before insert on public.talk_runs
+  for each row execute function public.talk_runs_editor_insert_guard();
@@ -0,0 +1,355 @@
+-- 0069_member_invites.sql
+--
+-- Invite every address; existing accounts accept before they're added.
+--
+-- 0062's share_talk_by_email() and add_workspace_member_by_email() still
+-- told the caller whether an address had an account: sharing a Talk
+-- answered 'member' or 'invited', and adding a workspace member failed
+-- for unknown addresses. Anyone who could share a Talk could probe
+-- addresses one at a time. Existing accounts were also added straight
+-- away, without a say.
+--
+-- Both now give the same answer for every address that isn't already a
+-- member:
+--
+--   share_talk_by_email(talk, email, role, invite_expires_at)
+--       'invited': the pending talk_invites row is created or
+--       refreshed. 'member' only when the address belongs to a current
+--       member (whose role is updated), which the member list shows
+--       anyway, and 'self' for the caller's own address.
+--
+--   invite_workspace_member_by_email(workspace, email, role, expires_at)
+--       replaces add_workspace_member_by_email() with the same answers,
+--       backed by a new workspace_invites table shaped like
+--       talk_invites.
+--
+-- An address with no account still claims its invites when it first
+-- signs in (claim_talk_invites(), and claim_workspace_invites() here).
+-- A signed-in user lists the invites sent to their own address with
+-- list_my_invites() and accepts or declines each with
+-- respond_to_invite(kind, invite, accept). Declining deletes the invite.
+--
+-- RLS: workspace_invites is managed by the workspace's admins; only an
+-- owner invites an owner, as in workspace_members_admin_write.
+--
+-- Revert: drop list_my_invites(), respond_to_invite(),
+-- invite_workspace_member_by_email(), the workspace invite claim trigger
+-- and workspace_invites; restore share_talk_by_email() and
+-- add_workspace_member_by_email() from 0062.
+
+-- ── workspace_invites ───────────────────────────────────────────────
+create table public.workspace_invites (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'admin', 'member', 'guest')),
+  invited_by uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  accepted_by uuid references public.users(id) on delete set null,
+  accepted_at timestamptz
+);
+
+-- One open invite per address per workspace; re-inviting updates the
+-- role.
+create unique index workspace_invites_pending_email_idx
+  on public.workspace_invites (workspace_id, lower(email))
+  where accepted_at is null;
+create index workspace_invites_email_idx
+  on public.workspace_invites (lower(email))
+  where accepted_at is null;
+
+alter table public.workspace_invites enable row level security;
+
+create policy workspace_invites_admin on public.workspace_invites
+  for all to authenticated
+  using (
+    public.is_workspace_admin(workspace_id)
+    and (role <> 'owner' or public.workspace_role(workspace_id) = 'owner')
+  )
+  with check (
+    public.is_workspace_admin(workspace_id)
+    and (role <> 'owner' or public.workspace_role(workspace_id) = 'owner')
+    and invited_by = auth.uid()
+  );
+
+grant select, insert, update, delete on public.workspace_invites
+  to authenticated;
+
+-- ── Invite claim on first sign-in ───────────────────────────────────
+create or replace function public.claim_workspace_invites()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.email, '') = '' then
+    return new;
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+  select distinct on (i.workspace_id) i.workspace_id, new.id, i.role
+    from public.workspace_invites i
+    where lower(i.email) = lower(new.email)
+      and i.accepted_at is null
+      and i.expires_at > now()
+    order by i.workspace_id, i.created_at desc
+  on conflict (workspace_id, user_id) do nothing;
+
+  update public.workspace_invites
+    set accepted_by = new.id, accepted_at = now()
+    where lower(email) = lower(new.email)
+      and accepted_at is null
+      and expires_at > now();
+
+  return new;
+end;
+$$;
+
+create trigger on_user_created_claim_workspace_invites
+  after insert on public.users
+  for each row execute function public.claim_workspace_invites();
+
+-- ── Sharing by email ────────────────────────────────────────────────
+create or replace function public.share_talk_by_email(
+  p_talk_id uuid,
+  p_email text,
+  p_role text,
+  p_invite_expires_at timestamptz
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(btrim(p_email));
+  v_member_id uuid;
+begin
+  if public.talk_access_role(p_talk_id) is distinct from 'owner' then
+    raise exception 'share_talk_by_email: only the Talk owner can share it'
+      using errcode = '42501';
+  end if;
+  if p_role not in ('viewer', 'editor') then
+    raise exception 'share_talk_by_email: invalid role %', p_role
+      using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from public.users
+    where id = auth.uid() and lower(email) = v_email
+  ) then
+    return 'self';
+  end if;
+
+  select m.user_id into v_member_id
+    from public.talk_members m
+    join public.users u on u.id = m.user_id
+    where m.talk_id = p_talk_id and lower(u.email) = v_email
+    limit 1;
+  if v_member_id is not null then
+    update public.talk_members set role = p_role
+      where talk_id = p_talk_id and user_id = v_member_id;
+    return 'member';
+  end if;
+
+  insert into public.talk_invites
+    (talk_id, email, role, invited_by, expires_at)
+  values
+    (p_talk_id, v_email, p_role, auth.uid(), p_invite_expires_at)
+  on conflict (talk_id, lower(email)) where accepted_at is null
+  do update set role = excluded.role,
+                invited_by = excluded.invited_by,
+                expires_at = excluded.expires_at;
+  return 'invited';
+end;
+$$;
+
+drop function public.add_workspace_member_by_email(uuid, text, text);
+
+create function public.invite_workspace_member_by_email(
+  p_workspace_id uuid,
+  p_email text,
+  p_role text,
+  p_invite_expires_at timestamptz
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(btrim(p_email));
+  v_member_id uuid;
+  v_existing_role text;
+begin
+  if not public.is_workspace_admin(p_workspace_id) then
+    raise exception 'invite_workspace_member_by_email: admin required'
+      using errcode = '42501';
+  end if;
+  if p_role not in ('owner', 'admin', 'member', 'guest') then
+    raise exception 'invite_workspace_member_by_email: invalid role %', p_role
+      using errcode = '22023';
+  end if;
+
+  select m.user_id, m.role into v_member_id, v_existing_role
+    from public.workspace_members m
+    join public.users u on u.id = m.user_id
+    where m.workspace_id = p_workspace_id and lower(u.email) = v_email
+    limit 1;
+  if (p_role = 'owner' or v_existing_role = 'owner')
+    and public.workspace_role(p_workspace_id) <> 'owner' then
+    raise exception 'invite_workspace_member_by_email: owner required'
+      using errcode = '42501';
+  end if;
+
+  if v_member_id = auth.uid() then
+    return 'self';
+  end if;
+  if v_member_id is not null then
+    update public.workspace_members set role = p_role
+      where workspace_id = p_workspace_id and user_id = v_member_id;
+    return 'member';
+  end if;
+
+  insert into public.workspace_invites
+    (workspace_id, email, role, invited_by, expires_at)
+  values
+    (p_workspace_id, v_email, p_role, auth.uid(), p_invite_expires_at)
+  on conflict (workspace_id, lower(email)) where accepted_at is null
+  do update set role = excluded.role,
+                invited_by = excluded.invited_by,
+                expires_at = excluded.expires_at;
+  return 'invited';
+end;
+$$;
+
+-- ── Invites sent to the caller ──────────────────────────────────────
+create function public.list_my_invites()
+returns table (
+  kind text,
+  id uuid,
+  target_id uuid,
+  target_name text,
+  role text,
+  invited_by_name text,
+  created_at timestamptz,
+  expires_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with me as (
+    select lower(email) as email from public.users where id = auth.uid()
+  )
+  select 'talk'::text, i.id, i.talk_id, coalesce(t.topic_title, 'Untitled Talk'),
+         i.role, u.display_name, i.created_at, i.expires_at
+    from public.talk_invites i
+    join me on lower(i.email) = me.email
+    join public.talks t on t.id = i.talk_id
+    join public.users u on u.id = i.invited_by
+    where i.accepted_at is null and i.expires_at > now()
+  union all
+  select 'workspace'::text, i.id, i.workspace_id, w.name,
+         i.role, u.display_name, i.created_at, i.expires_at
+    from public.workspace_invites i
+    join me on lower(i.email) = me.email
+    join public.workspaces w on w.id = i.workspace_id
+    join public.users u on u.id = i.invited_by
+    where i.accepted_at is null and i.expires_at > now()
+  order by 7 asc;
+$$;
+
+-- Accepting adds the membership the invite names and marks it
+-- accepted; declining deletes it. False when the invite isn't open or
+-- wasn't sent to the caller's address.
+create function public.respond_to_invite(
+  p_kind text,
+  p_invite_id uuid,
+  p_accept boolean
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text;
+  v_target_id uuid;
+  v_role text;
+begin
+  select lower(email) into v_email from public.users where id = auth.uid();
+  if v_email is null then
+    return false;
+  end if;
+
+  if p_kind = 'talk' then
+    select i.talk_id, i.role into v_target_id, v_role
+      from public.talk_invites i
+      join public.talks t on t.id = i.talk_id
+      where i.id = p_invite_id
+        and lower(i.email) = v_email
+        and i.accepted_at is null
+        and i.expires_at > now()
+        and t.owner_id <> auth.uid();
+    if v_target_id is null then
+      return false;
+    end if;
+    if not p_accept then
+      delete from public.talk_invites where id = p_invite_id;
+      return true;
+    end if;
+    insert into public.talk_members (talk_id, user_id, role)
+      values (v_target_id, auth.uid(), v_role)
+    on conflict (talk_id, user_id) do update set role = excluded.role;
+    update public.talk_invites
+      set accepted_by = auth.uid(), accepted_at = now()
+      where id = p_invite_id;
+    return true;
+  end if;
+
+  if p_kind = 'workspace' then
+    select i.workspace_id, i.role into v_target_id, v_role
+      from public.workspace_invites i
+      where i.id = p_invite_id
+        and lower(i.email) = v_email
+        and i.accepted_at is null
+        and i.expires_at > now();
+    if v_target_id is null then
+      return false;
+    end if;
+    if not p_accept then
+      delete from public.workspace_invites where id = p_invite_id;
+      return true;
+    end if;
+    -- A shared Talk may already have made the caller a guest here.
+    insert into public.workspace_members (workspace_id, user_id, role)
+      values (v_target_id, auth.uid(), v_role)
+    on conflict (workspace_id, user_id) do update set role = excluded.role
+      where workspace_members.role = 'guest';
+    update public.workspace_invites
+      set accepted_by = auth.uid(), accepted_at = now()
+      where id = p_invite_id;
+    return true;
+  end if;
+
+  raise exception 'respond_to_invite: invalid kind %', p_kind
+    using errcode = '22023';
+end;
+$$;
+
+revoke all on function public.invite_workspace_member_by_email(
+  uuid, text, text, timestamptz
+) from public;
+grant execute on function public.invite_workspace_member_by_email(
+  uuid, text, text, timestamptz
+) to authenticated;
+revoke all on function public.list_my_invites() from public;
+grant execute on function public.list_my_invites() to authenticated;
+revoke all on function public.respond_to_invite(text, uuid, boolean)
+  from public;
+grant execute on function public.respond_to_invite(text, uuid, boolean)
+  to authenticated;
@@ -0,0 +1,36 @@
+-- 0070_talk_context_summary_cursor.sql
+--
+-- Keep the rolling summary's cursor when its message is deleted.
+--
+-- The summarizer resumes after covers_through_message_id, looking up
+-- that message's created_at to order the rest of the history. 0039
+-- made the column ON DELETE SET NULL, so deleting the last summarized
+-- message cleared the cursor and the next pass folded the whole history
+-- into a summary that already covered it.
+--
+-- The cursor is now the (covers_through_created_at,
+-- covers_through_message_id) pair, written together on every fold.
+-- covers_through_message_id loses its foreign key so it stays as the
+-- tie-break after the message is gone; nothing reads it as a reference.
+-- A summary whose cursor was already cleared has no created_at; the
+-- summarizer rebuilds it from the start of the history.
+--
+-- RLS: unchanged.
+--
+-- Backfill: covers_through_created_at from the cursor message, where it
+-- still exists.
+--
+-- Revert: drop covers_through_created_at; null out
+-- covers_through_message_id values with no message and restore the
+-- ON DELETE SET NULL foreign key from 0039.
+
+alter table public.talk_context_summary
+  add column covers_through_created_at timestamptz;
+
+update public.talk_context_summary s
+  set covers_through_created_at = m.created_at
+  from public.talk_messages m
+  where m.id = s.covers_through_message_id;
+
+alter table public.talk_context_summary
+  drop constraint talk_context_summary_covers_through_message_id_fkey;
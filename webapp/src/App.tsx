@@ -15,20 +15,28 @@ import {
   ContentSidebarItem,
   createTalk,
   createTalkFolder,
+  createWorkspace,
   deleteTalk,
   deleteTalkFolder,
+  deleteWorkspace,
   getSessionMe,
   getTalkSidebar,
+  listWorkspaces,
   logout as logoutSession,
   patchTalkFolder,
   patchTalkMetadata,
+  renameWorkspace,
   reorderTalkSidebar,
   SessionUser,
+  setActiveWorkspaceId,
+  SharedTalkSidebarItem,
   Talk,
   TalkSidebarFolder,
   TalkSidebarItem,
   TalkSidebarTalk,
   UnauthorizedError,
+  switchWorkspace,
+  Workspace,
 } from './lib/api';
 import { clearPersistedQueryCache } from './lib/queryClient';
 import { isSupabaseConfigured } from './lib/supabase-client';
@@ -399,6 +407,7 @@ export function App() {
   const [sidebarContents, setSidebarContents] = useState<ContentSidebarItem[]>(
     [],
   );
+  const [sharedTalks, setSharedTalks] = useState<SharedTalkSidebarItem[]>([]);
   const [mainTalkId, setMainTalkId] = useState<string | null>(null);
   const [sidebarLoading, setSidebarLoading] = useState(true);
   const [sidebarError, setSidebarError] = useState<string | null>(null);
@@ -407,6 +416,10 @@ export function App() {
   const [talkReadMarkers, setTalkReadMarkers] = useState<
     Record<string, TalkReadMarker>
   >({});
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(
+    null,
+  );
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -481,6 +494,7 @@ export function App() {
       const tree = await getTalkSidebar();
       setSidebarItems(tree.items);
       setSidebarContents(tree.contents ?? []);
+      setSharedTalks(tree.sharedTalks ?? []);
       setMainTalkId(tree.mainTalkId);
       setSidebarError(null);
     } catch (err) {
@@ -509,6 +523,82 @@ export function App() {
     void refreshSidebar();
   }, [auth.status, refreshSidebar]);
 
+  // The switcher is optional chrome: a failed load leaves it hidden and
+  // requests fall back to the user's default workspace server-side.
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      const result = await listWorkspaces();
+      setActiveWorkspaceId(result.currentWorkspaceId);
+      setWorkspaces(result.workspaces);
+      setCurrentWorkspaceId(result.currentWorkspaceId);
+    } catch (err) {
+      if (err instanceof UnauthorizedError) handleUnauthorized();
+    }
+  }, [handleUnauthorized]);
+
+  useEffect(() => {
+    if (auth.status !== 'authenticated') {
+      setActiveWorkspaceId(null);
+      setWorkspaces([]);
+      setCurrentWorkspaceId(null);
+      return;
+    }
+    void refreshWorkspaces();
+  }, [auth.status, refreshWorkspaces]);
+
+  // Talks, folders, agents and connectors all belong to a workspace, so
+  // a switch reloads the sidebar and leaves whatever page was open.
+  const handleSwitchWorkspace = useCallback(
+    async (workspaceId: string) => {
+      const workspace = await switchWorkspace(workspaceId);
+      setCurrentWorkspaceId(workspace.id);
+      navigate('/app/talks');
+      await refreshSidebar();
+    },
+    [navigate, refreshSidebar],
+  );
+
+  const handleCreateWorkspace = useCallback(
+    async (name: string) => {
+      const workspace = await createWorkspace(name);
+      setWorkspaces((current) => [...current, workspace]);
+      await handleSwitchWorkspace(workspace.id);
+    },
+    [handleSwitchWorkspace],
+  );
+
+  const handleRenameWorkspace = useCallback(
+    async (workspaceId: string, name: string) => {
+      const workspace = await renameWorkspace({ workspaceId, name });
+      setWorkspaces((current) =>
+        current.map((entry) =>
+          entry.id === workspace.id
+            ? { ...entry, name: workspace.name }
+            : entry,
+        ),
+      );
+    },
+    [],
+  );
+
+  const handleDeleteWorkspace = useCallback(
+    async (workspaceId: string) => {
+      await deleteWorkspace(workspaceId);
+      // Let the server pick the fallback workspace, then reload into it.
+      setActiveWorkspaceId(null);
+      await refreshWorkspaces();
+      navigate('/app/talks');
+      await refreshSidebar();
+    },
+    [navigate, refreshSidebar, refreshWorkspaces],
+  );
+
+  // An accepted invite adds a workspace or a shared Talk.
+  const handleInviteAccepted = useCallback(async () => {
+    await refreshWorkspaces();
+    await refreshSidebar();
+  }, [refreshSidebar, refreshWorkspaces]);
+
   useEffect(() => {
     if (auth.status !== 'authenticated') return;
     const refresh = () => void refreshSidebar();
@@ -686,7 +776,9 @@ export function App() {
     [currentTalkId, sidebarItems, talkReadMarkers],
   );
   const currentTalkTitle = currentTalkId
-    ? findTalkTitle(sidebarItems, currentTalkId)
+    ? (findTalkTitle(sidebarItems, currentTalkId) ??
+      sharedTalks.find((talk) => talk.id === currentTalkId)?.title ??
+      null)
     : null;
   const isTalkRoute =
     location.pathname.startsWith('/app/talks/') &&
@@ -774,6 +866,7 @@ export function App() {
       {!sidebarCollapsed ? (
         <ClawTalkSidebar
           items={sidebarViewItems}
+          sharedTalks={sharedTalks}
           contents={sidebarContents}
           loading={sidebarLoading}
           error={sidebarError}
@@ -790,6 +883,13 @@ export function App() {
           onDeleteFolder={handleDeleteFolder}
           onReorder={handleReorder}
           renameDraft={renameDraft}
+          workspaces={workspaces}
+          currentWorkspaceId={currentWorkspaceId}
+          onSwitchWorkspace={handleSwitchWorkspace}
+          onCreateWorkspace={handleCreateWorkspace}
+          onRenameWorkspace={handleRenameWorkspace}
+          onDeleteWorkspace={handleDeleteWorkspace}
+          onInviteAccepted={handleInviteAccepted}
         />
       ) : null}
       <div className="app-main">
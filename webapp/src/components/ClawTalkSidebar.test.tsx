@@ -262,4 +262,62 @@ describe('ClawTalkSidebar', () => {
 
     expect(screen.getByLabelText('Has document')).toBeTruthy();
   });
+
+  it('switches workspaces from the switcher and hides owner-only actions', async () => {
+    const user = userEvent.setup();
+    const onSwitchWorkspace = vi.fn(async () => undefined);
+
+    render(
+      <MemoryRouter>
+        <ClawTalkSidebar
+          items={[]}
+          contents={[]}
+          loading={false}
+          error={null}
+          user={buildUser()}
+          mainTalkId={null}
+          onSignOut={vi.fn()}
+          signOutBusy={false}
+          onCreateTalk={vi.fn(async () => buildTalk())}
+          onCreateFolder={vi.fn(async () => buildFolder())}
+          onRenameTalk={vi.fn()}
+          onPatchTalk={vi.fn(async () => undefined)}
+          onDeleteTalk={vi.fn(async () => undefined)}
+          onRenameFolder={vi.fn(async () => undefined)}
+          onDeleteFolder={vi.fn(async () => undefined)}
+          onReorder={vi.fn()}
+          renameDraft={null}
+          workspaces={[
+            {
+              id: 'ws-personal',
+              name: 'Personal',
+              role: 'owner',
+              createdAt: '2026-01-01T00:00:00.000Z',
+            },
+            {
+              id: 'ws-acme',
+              name: 'Acme',
+              role: 'member',
+              createdAt: '2026-02-01T00:00:00.000Z',
+            },
+          ]}
+          currentWorkspaceId="ws-acme"
+          onSwitchWorkspace={onSwitchWorkspace}
+          onCreateWorkspace={vi.fn(async () => undefined)}
+          onRenameWorkspace={vi.fn(async () => undefined)}
+          onDeleteWorkspace={vi.fn(async () => undefined)}
+        />
+      </MemoryRouter>,
+    );
+
+    const select = screen.getByLabelText('Workspace') as HTMLSelectElement;
+    expect(select.value).toBe('ws-acme');
+    expect(screen.queryByRole('button', { name: 'Rename' })).toBeNull();
+    expect(screen.queryByRole('button', { name: 'Delete' })).toBeNull();
+
+    await user.selectOptions(select, 'ws-personal');
+    await waitFor(() =>
+      expect(onSwitchWorkspace).toHaveBeenCalledWith('ws-personal'),
+    );
+  });
 });
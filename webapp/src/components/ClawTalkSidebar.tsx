@@ -10,7 +10,7 @@ import {
   useSensors,
 } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
-import { FileText } from 'lucide-react';
+import { FileText, Users } from 'lucide-react';
 import {
   FormEvent,
   KeyboardEvent,
@@ -23,13 +23,17 @@ import {
 import { createPortal } from 'react-dom';
 import { NavLink, useLocation } from 'react-router-dom';
 
+import { PendingInvites } from './PendingInvites';
 import { SidebarProfileMenu } from './SidebarProfileMenu';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 import type {
   ContentSidebarItem,
   SessionUser,
+  SharedTalkSidebarItem,
   Talk,
   TalkSidebarFolder,
   TalkSidebarItem,
+  Workspace,
 } from '../lib/api';
 
 type TalkSidebarTalkView = TalkSidebarItem & {
@@ -57,6 +61,9 @@ type MenuPosition = {
 
 type Props = {
   items: TalkSidebarItemView[];
+  // Talks other users shared with the caller; not draggable or
+  // renamable — the owner's folders and order don't apply.
+  sharedTalks?: SharedTalkSidebarItem[];
   contents: ContentSidebarItem[];
   loading: boolean;
   error: string | null;
@@ -82,6 +89,15 @@ type Props = {
     destinationIndex: number;
   }) => Promise<void> | void;
   renameDraft: RenameDraft;
+  // The switcher renders once the workspace list has loaded.
+  workspaces?: Workspace[];
+  currentWorkspaceId?: string | null;
+  onSwitchWorkspace?: (workspaceId: string) => Promise<void>;
+  onCreateWorkspace?: (name: string) => Promise<void>;
+  onRenameWorkspace?: (workspaceId: string, name: string) => Promise<void>;
+  onDeleteWorkspace?: (workspaceId: string) => Promise<void>;
+  // Shows the invites sent to the user when provided.
+  onInviteAccepted?: () => Promise<void>;
 };
 
 type MenuState =
@@ -200,6 +216,7 @@ function buildMoveTargets(
 
 export function ClawTalkSidebar({
   items,
+  sharedTalks = [],
   contents,
   loading,
   error,
@@ -216,6 +233,13 @@ export function ClawTalkSidebar({
   onDeleteFolder,
   onReorder,
   renameDraft,
+  workspaces = [],
+  currentWorkspaceId = null,
+  onSwitchWorkspace,
+  onCreateWorkspace,
+  onRenameWorkspace,
+  onDeleteWorkspace,
+  onInviteAccepted,
 }: Props): JSX.Element {
   const location = useLocation();
   // The Main NavLink targets /app/main, which redirects to the system
@@ -772,6 +796,23 @@ export function ClawTalkSidebar({
 
   return (
     <aside className="clawtalk-sidebar" aria-label="Primary navigation">
+      {workspaces.length > 0 &&
+      onSwitchWorkspace &&
+      onCreateWorkspace &&
+      onRenameWorkspace &&
+      onDeleteWorkspace ? (
+        <WorkspaceSwitcher
+          workspaces={workspaces}
+          currentWorkspaceId={currentWorkspaceId}
+          onSwitch={onSwitchWorkspace}
+          onCreate={onCreateWorkspace}
+          onRename={onRenameWorkspace}
+          onDelete={onDeleteWorkspace}
+        />
+      ) : null}
+      {onInviteAccepted ? (
+        <PendingInvites onAccepted={onInviteAccepted} />
+      ) : null}
       <nav className="clawtalk-sidebar-nav" aria-label="App sections">
         <NavLink
           to="/app/talks"
@@ -865,6 +906,40 @@ export function ClawTalkSidebar({
         </div>
       </div>
 
+      {sharedTalks.length > 0 ? (
+        <div className="clawtalk-sidebar-content-section">
+          <div className="clawtalk-sidebar-section-header">
+            <div className="clawtalk-sidebar-section-label">Shared with me</div>
+          </div>
+          <div
+            className="clawtalk-sidebar-content-list"
+            aria-label="Shared Talks"
+          >
+            {sharedTalks.map((talk) => (
+              <NavLink
+                key={talk.id}
+                to={`/app/talks/${encodeURIComponent(talk.id)}`}
+                className={({ isActive }) =>
+                  `clawtalk-sidebar-content-row${isActive ? ' active' : ''}`
+                }
+              >
+                <Users
+                  size={12}
+                  className="clawtalk-sidebar-content-row-icon"
+                  aria-hidden="true"
+                />
+                <span className="clawtalk-sidebar-content-row-title">
+                  {talk.title || 'Untitled talk'}
+                </span>
+                <span className="clawtalk-sidebar-shared-role">
+                  {talk.accessRole === 'editor' ? 'Editor' : 'Viewer'}
+                </span>
+              </NavLink>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
       <div className="clawtalk-sidebar-content-section">
         <div className="clawtalk-sidebar-section-header">
           <div className="clawtalk-sidebar-section-label">Content</div>
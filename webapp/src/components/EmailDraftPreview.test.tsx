@@ -0,0 +1,30 @@
+import { cleanup, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { EmailDraftPreview } from './EmailDraftPreview';
+
+afterEach(() => {
+  cleanup();
+});
+
+describe('EmailDraftPreview', () => {
+  it('shows the recipients, subject and full body of the draft', () => {
+    render(
+      <EmailDraftPreview
+        args={{
+          to: ['ana@example.com', 'bo@example.com'],
+          bcc: ['audit@example.com'],
+          subject: 'Q3 numbers',
+          body: 'Hi both,\n\nNumbers attached.',
+        }}
+      />,
+    );
+    expect(screen.getByText('ana@example.com, bo@example.com')).toBeTruthy();
+    expect(screen.getByText('audit@example.com')).toBeTruthy();
+    expect(screen.getByText('Q3 numbers')).toBeTruthy();
+    expect(screen.queryByText('Cc')).toBeNull();
+    expect(screen.getByText(/Numbers attached\./).textContent).toBe(
+      'Hi both,\n\nNumbers attached.',
+    );
+  });
+});
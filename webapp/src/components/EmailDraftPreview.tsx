@@ -0,0 +1,41 @@
+type EmailDraftPreviewProps = {
+  /** Arguments of a pending gmail_send call. */
+  args: Record<string, unknown>;
+};
+
+function addressList(value: unknown): string {
+  const list = Array.isArray(value) ? value : [value];
+  return list
+    .filter((entry): entry is string => typeof entry === 'string')
+    .join(', ');
+}
+
+/**
+ * The email a pending gmail_send call would send, shown in the approval
+ * banner so the user reads the whole draft before approving it.
+ */
+export function EmailDraftPreview({
+  args,
+}: EmailDraftPreviewProps): JSX.Element {
+  const rows: Array<[string, string]> = [
+    ['To', addressList(args.to)],
+    ['Cc', addressList(args.cc)],
+    ['Bcc', addressList(args.bcc)],
+    ['Subject', typeof args.subject === 'string' ? args.subject : ''],
+  ];
+  return (
+    <div className="email-draft-preview" aria-label="Email draft">
+      <dl>
+        {rows
+          .filter(([label, value]) => value || label === 'To')
+          .map(([label, value]) => (
+            <div key={label}>
+              <dt>{label}</dt>
+              <dd>{value || '(none)'}</dd>
+            </div>
+          ))}
+      </dl>
+      <pre>{typeof args.body === 'string' ? args.body : ''}</pre>
+    </div>
+  );
+}
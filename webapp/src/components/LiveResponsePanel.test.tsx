@@ -252,6 +252,25 @@ describe('LiveResponsePanel render', () => {
     expect(container.querySelector('article.message-live')).toBeTruthy();
   });
 
+  it('shows streamed reasoning in a collapsed Thinking disclosure', () => {
+    const { container } = render(
+      <LiveResponsePanel
+        {...makeProps({
+          response: makeResponse({
+            pendingStatus: 'running',
+            reasoningText: 'Comparing both drafts.',
+          }),
+          run: makeRun({ status: 'running' }),
+        })}
+      />,
+    );
+    const details = container.querySelector('details.message-live-reasoning');
+    expect(details).toBeTruthy();
+    expect(details?.hasAttribute('open')).toBe(false);
+    expect(screen.getByText('Thinking')).toBeTruthy();
+    expect(screen.getByText('Comparing both drafts.')).toBeTruthy();
+  });
+
   it('terminal state never uses is-dense even when isDense=true', () => {
     const { container } = render(
       <LiveResponsePanel
@@ -185,6 +185,12 @@ function LiveResponsePanelImpl(props: LiveResponsePanelProps): JSX.Element {
           </span>
         </span>
       </header>
+      {response.reasoningText ? (
+        <details className="message-live-reasoning">
+          <summary>Thinking</summary>
+          <p>{response.reasoningText}</p>
+        </details>
+      ) : null}
       {body ? <p>{body}</p> : null}
       {response.errorMessage ? (
         <p className="run-history-error">{response.errorMessage}</p>
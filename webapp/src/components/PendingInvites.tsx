@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { listMyInvites, respondToInvite, type MyInvite } from '../lib/api';
+
+type Props = {
+  // Called after an accept so the caller can reload the workspaces and
+  // the shared Talks the new membership adds.
+  onAccepted: () => Promise<void>;
+};
+
+function describeInvite(invite: MyInvite): string {
+  const target =
+    invite.kind === 'talk'
+      ? `the Talk "${invite.targetName}"`
+      : `the workspace "${invite.targetName}"`;
+  return `${invite.invitedByName} invited you to ${target} as ${invite.role}.`;
+}
+
+// Invites sent to the signed-in user's address. Renders nothing until
+// there is one; a failed load stays hidden like the workspace switcher.
+export function PendingInvites({ onAccepted }: Props): JSX.Element | null {
+  const [invites, setInvites] = useState<MyInvite[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setInvites(await listMyInvites());
+    } catch {
+      setInvites([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const respond = async (invite: MyInvite, accept: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await respondToInvite({ kind: invite.kind, inviteId: invite.id, accept });
+      await reload();
+      if (accept) await onAccepted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (invites.length === 0 && !error) return null;
+
+  return (
+    <section className="clawtalk-sidebar-invites" aria-label="Invites">
+      {invites.map((invite) => (
+        <div className="clawtalk-sidebar-invite" key={invite.id}>
+          <p>{describeInvite(invite)}</p>
+          <div className="clawtalk-sidebar-invite-actions">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void respond(invite, true)}
+            >
+              Accept
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void respond(invite, false)}
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      ))}
+      {error ? (
+        <p className="clawtalk-sidebar-workspace-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+    </section>
+  );
+}
@@ -10,6 +10,7 @@ import {
   type ExecutorSettings,
   type RegisteredAgent,
   type RegisteredAgentCredentialMode,
+  type RegisteredAgentReasoningEffort,
   type AgentProviderCard,
   UnauthorizedError,
 } from '../lib/api';
@@ -37,8 +38,55 @@ type AgentDraft = {
   // null = auto (resolver walks personal/workspace × api_key/sub
   // precedence). Non-null pins the agent to one mode.
   credentialMode: RegisteredAgentCredentialMode | null;
+  // 'default' leaves the provider's default; 'budget' sends
+  // reasoningBudgetTokens instead of an effort level.
+  reasoning: ReasoningChoice;
+  reasoningBudgetTokens: string;
 };
 
+type ReasoningChoice = 'default' | RegisteredAgentReasoningEffort | 'budget';
+
+const REASONING_OPTIONS: Array<{ value: ReasoningChoice; label: string }> = [
+  { value: 'default', label: 'Provider default' },
+  { value: 'off', label: 'Off' },
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'budget', label: 'Custom token budget' },
+];
+
+function reasoningDraftFields(
+  agent: RegisteredAgent | null,
+): Pick<AgentDraft, 'reasoning' | 'reasoningBudgetTokens'> {
+  if (agent?.reasoningBudgetTokens) {
+    return {
+      reasoning: 'budget',
+      reasoningBudgetTokens: String(agent.reasoningBudgetTokens),
+    };
+  }
+  return {
+    reasoning: agent?.reasoningEffort ?? 'default',
+    reasoningBudgetTokens: '',
+  };
+}
+
+function reasoningInput(draft: AgentDraft): {
+  reasoningEffort: RegisteredAgentReasoningEffort | null;
+  reasoningBudgetTokens: number | null;
+} {
+  if (draft.reasoning === 'budget') {
+    // The server rejects budgets outside its range with a clear message.
+    return {
+      reasoningEffort: null,
+      reasoningBudgetTokens: Number(draft.reasoningBudgetTokens) || null,
+    };
+  }
+  return {
+    reasoningEffort: draft.reasoning === 'default' ? null : draft.reasoning,
+    reasoningBudgetTokens: null,
+  };
+}
+
 // Build the dropdown's selectable options for a provider. Returns one
 // entry per credential mode that the provider has a credential
 // configured for (personal OR workspace counts). Providers with no
@@ -322,6 +370,7 @@ export function RegisteredAgentsPanel(props: Props): JSX.Element {
       systemPrompt: '',
       enabled: true,
       credentialMode: defaultOption?.credentialMode ?? null,
+      ...reasoningDraftFields(null),
     });
   }
 
@@ -346,6 +395,7 @@ export function RegisteredAgentsPanel(props: Props): JSX.Element {
         description: createDraft.description || undefined,
         systemPrompt: createDraft.systemPrompt || undefined,
         credentialMode: createDraft.credentialMode,
+        ...reasoningInput(createDraft),
       };
       const newAgent = await createRegisteredAgent(input);
       const nextAgents = [...agents, newAgent];
@@ -376,6 +426,7 @@ export function RegisteredAgentsPanel(props: Props): JSX.Element {
       systemPrompt: agent.systemPrompt || '',
       enabled: agent.enabled,
       credentialMode: agent.credentialMode,
+      ...reasoningDraftFields(agent),
     });
   }
 
@@ -402,6 +453,7 @@ export function RegisteredAgentsPanel(props: Props): JSX.Element {
         systemPrompt: editDraft.systemPrompt || null,
         enabled: editDraft.enabled,
         credentialMode: editDraft.credentialMode,
+        ...reasoningInput(editDraft),
       };
       const updated = await updateRegisteredAgent(input);
       const nextAgents = agents.map((a) =>
@@ -669,6 +721,38 @@ function AgentForm({
         ) : null}
       </label>
 
+      <label className="agent-form-field">
+        <span>Reasoning</span>
+        <select
+          value={draft.reasoning}
+          onChange={(e) =>
+            setDraft({ ...draft, reasoning: e.target.value as ReasoningChoice })
+          }
+          disabled={!canManage}
+        >
+          {REASONING_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        {draft.reasoning === 'budget' ? (
+          <input
+            type="number"
+            min={1024}
+            max={128000}
+            step={1024}
+            value={draft.reasoningBudgetTokens}
+            onChange={(e) =>
+              setDraft({ ...draft, reasoningBudgetTokens: e.target.value })
+            }
+            placeholder="Thinking tokens, e.g. 8192"
+            aria-label="Reasoning token budget"
+            disabled={!canManage}
+          />
+        ) : null}
+      </label>
+
       <label className="agent-form-field">
         <span>Persona Role (optional)</span>
         <input
@@ -0,0 +1,108 @@
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { RunTracePanel } from './RunTracePanel';
+import type { TalkRunTraceStep } from '../lib/api';
+
+vi.mock('../lib/api', async (orig) => {
+  const actual = (await orig()) as Record<string, unknown>;
+  return {
+    ...actual,
+    getTalkRunTrace: vi.fn(),
+  };
+});
+
+import { getTalkRunTrace } from '../lib/api';
+
+const getTraceMock = getTalkRunTrace as unknown as ReturnType<typeof vi.fn>;
+
+function step(
+  input: Partial<TalkRunTraceStep> & Pick<TalkRunTraceStep, 'id' | 'kind'>,
+): TalkRunTraceStep {
+  return {
+    startedAt: '2026-10-19T10:00:00.000Z',
+    durationMs: null,
+    data: {},
+    ...input,
+  };
+}
+
+afterEach(() => {
+  cleanup();
+  getTraceMock.mockReset();
+});
+
+describe('RunTracePanel', () => {
+  it('renders turns and tool calls with their inputs and outputs', async () => {
+    getTraceMock.mockResolvedValue([
+      step({
+        id: '1',
+        kind: 'run_started',
+        data: { providerId: 'provider.openai', modelId: 'gpt-5' },
+      }),
+      step({
+        id: '2',
+        kind: 'llm_turn',
+        durationMs: 1500,
+        data: {
+          modelId: 'gpt-5',
+          stopReason: 'tool_calls',
+          text: '',
+          toolCalls: ['web_fetch'],
+          usage: { inputTokens: 900, outputTokens: 40 },
+        },
+      }),
+      step({
+        id: '3',
+        kind: 'tool_call',
+        startedAt: '2026-10-19T10:00:01.500Z',
+        durationMs: 300,
+        data: {
+          toolName: 'web_fetch',
+          arguments: { url: 'https://example.com' },
+          result: 'Example Domain',
+          resultTruncatedFrom: 12000,
+          isError: false,
+        },
+      }),
+      step({
+        id: '4',
+        kind: 'run_finished',
+        startedAt: '2026-10-19T10:00:03.000Z',
+        durationMs: 3000,
+        data: { status: 'completed' },
+      }),
+    ]);
+
+    render(
+      <RunTracePanel talkId="talk-1" runId="run-1" onUnauthorized={vi.fn()} />,
+    );
+
+    expect(await screen.findByText('Tool · web_fetch')).toBeTruthy();
+    expect(getTraceMock).toHaveBeenCalledWith({
+      talkId: 'talk-1',
+      runId: 'run-1',
+    });
+    expect(screen.getByText('Model turn · gpt-5')).toBeTruthy();
+    expect(
+      screen.getByText('stop: tool_calls · 900 in / 40 out · calls web_fetch'),
+    ).toBeTruthy();
+    expect(screen.getByText('+1.5s')).toBeTruthy();
+    expect(screen.getByText('300 ms')).toBeTruthy();
+    expect(screen.getByText('Run completed')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Output'));
+    expect(screen.getByText('Example Domain')).toBeTruthy();
+    expect(screen.getByText('Truncated from 12,000 characters.')).toBeTruthy();
+  });
+
+  it('says so when the run has no trace', async () => {
+    getTraceMock.mockResolvedValue([]);
+    render(
+      <RunTracePanel talkId="talk-1" runId="run-1" onUnauthorized={vi.fn()} />,
+    );
+    expect(
+      await screen.findByText('No trace was recorded for this run.'),
+    ).toBeTruthy();
+  });
+});
@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+
+import {
+  UnauthorizedError,
+  getTalkRunTrace,
+  type TalkRunTraceStep,
+} from '../lib/api';
+
+type RunTracePanelProps = {
+  talkId: string;
+  runId: string;
+  onUnauthorized: () => void;
+};
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'loaded'; steps: TalkRunTraceStep[] }
+  | { status: 'error'; message: string };
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+function formatDuration(ms: number | null): string | null {
+  if (ms === null) return null;
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatOffset(step: TalkRunTraceStep, start: number): string {
+  const offset = Math.max(0, Date.parse(step.startedAt) - start);
+  return `+${(offset / 1000).toFixed(1)}s`;
+}
+
+function formatJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) ?? 'null';
+}
+
+function truncationNote(value: unknown): string | null {
+  return typeof value === 'number'
+    ? `Truncated from ${value.toLocaleString()} characters.`
+    : null;
+}
+
+function describeStep(step: TalkRunTraceStep): {
+  title: string;
+  detail: string | null;
+  tone: 'default' | 'error' | 'warning';
+} {
+  const data = step.data;
+  switch (step.kind) {
+    case 'run_started':
+      return {
+        title: 'Run started',
+        detail: [text(data.providerId), text(data.modelId)]
+          .filter(Boolean)
+          .join(' / '),
+        tone: 'default',
+      };
+    case 'llm_turn': {
+      const usage = data.usage as {
+        inputTokens?: number;
+        outputTokens?: number;
+        cachedInputTokens?: number;
+      } | null;
+      const toolCalls = Array.isArray(data.toolCalls)
+        ? (data.toolCalls as string[])
+        : [];
+      return {
+        title: `Model turn · ${text(data.modelId) ?? 'unknown model'}`,
+        detail: [
+          `stop: ${text(data.stopReason) ?? 'unknown'}`,
+          usage
+            ? `${usage.inputTokens ?? 0} in / ${usage.outputTokens ?? 0} out` +
+              (usage.cachedInputTokens
+                ? ` (${usage.cachedInputTokens} cached)`
+                : '')
+            : null,
+          toolCalls.length > 0 ? `calls ${toolCalls.join(', ')}` : null,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+        tone: 'default',
+      };
+    }
+    case 'tool_call':
+      return {
+        title: `Tool · ${text(data.toolName) ?? 'unknown'}`,
+        detail: data.interrupted
+          ? 'Interrupted before a result'
+          : data.approvalRequested
+            ? 'Approval requested'
+            : null,
+        tone: data.isError ? 'error' : 'default',
+      };
+    case 'retry':
+      return {
+        title: `Retry · ${(text(data.reason) ?? 'unknown').replace(/_/g, ' ')}`,
+        detail:
+          [
+            typeof data.attempt === 'number' ? `attempt ${data.attempt}` : null,
+            text(data.detail),
+          ]
+            .filter(Boolean)
+            .join(' · ') || null,
+        tone: 'warning',
+      };
+    case 'fallback_hop':
+      return {
+        title: `Fallback · ${text(data.modelId) ?? 'unknown model'} ${data.status === 'skipped' ? 'skipped' : 'failed'}`,
+        detail: text(data.failureClass),
+        tone: 'warning',
+      };
+    case 'run_finished':
+      return {
+        title: `Run ${text(data.status) ?? 'finished'}`,
+        detail:
+          [
+            text(data.errorCode),
+            text(data.errorMessage),
+            typeof data.droppedSteps === 'number'
+              ? `${data.droppedSteps} later steps not recorded`
+              : null,
+          ]
+            .filter(Boolean)
+            .join(' · ') || null,
+        tone: data.status === 'failed' ? 'error' : 'default',
+      };
+  }
+}
+
+function StepBody({ step }: { step: TalkRunTraceStep }): JSX.Element | null {
+  const data = step.data;
+  if (step.kind === 'llm_turn' && text(data.text)) {
+    return (
+      <details className="run-trace-details">
+        <summary>Reply text</summary>
+        <pre>{text(data.text)}</pre>
+        {truncationNote(data.textTruncatedFrom) ? (
+          <p className="run-context-note">
+            {truncationNote(data.textTruncatedFrom)}
+          </p>
+        ) : null}
+      </details>
+    );
+  }
+  if (step.kind === 'tool_call') {
+    return (
+      <>
+        <details className="run-trace-details">
+          <summary>Input</summary>
+          <pre>{formatJson(data.arguments ?? {})}</pre>
+        </details>
+        {typeof data.result === 'string' ? (
+          <details className="run-trace-details">
+            <summary>{data.isError ? 'Error' : 'Output'}</summary>
+            <pre>{data.result}</pre>
+            {truncationNote(data.resultTruncatedFrom) ? (
+              <p className="run-context-note">
+                {truncationNote(data.resultTruncatedFrom)}
+              </p>
+            ) : null}
+          </details>
+        ) : null}
+      </>
+    );
+  }
+  return null;
+}
+
+/**
+ * Timeline of what a run did: model turns, tool calls with their inputs
+ * and outputs, retries and fallback hops. Loads once when opened.
+ */
+export function RunTracePanel({
+  talkId,
+  runId,
+  onUnauthorized,
+}: RunTracePanelProps): JSX.Element {
+  const [state, setState] = useState<LoadState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: 'loading' });
+    getTalkRunTrace({ talkId, runId })
+      .then((steps) => {
+        if (!cancelled) setState({ status: 'loaded', steps });
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        if (err instanceof UnauthorizedError) {
+          onUnauthorized();
+          return;
+        }
+        setState({
+          status: 'error',
+          message:
+            err instanceof Error ? err.message : 'Failed to load run trace.',
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [onUnauthorized, runId, talkId]);
+
+  if (state.status === 'loading') {
+    return (
+      <div className="run-context-panel">
+        <p className="run-context-note">Loading trace…</p>
+      </div>
+    );
+  }
+  if (state.status === 'error') {
+    return (
+      <div className="run-context-panel">
+        <p className="run-context-note" role="alert">
+          {state.message}
+        </p>
+      </div>
+    );
+  }
+  if (state.steps.length === 0) {
+    return (
+      <div className="run-context-panel">
+        <p className="run-context-note">No trace was recorded for this run.</p>
+      </div>
+    );
+  }
+
+  const start = Date.parse(state.steps[0].startedAt);
+  return (
+    <div className="run-context-panel">
+      <ol className="run-trace-timeline">
+        {state.steps.map((step) => {
+          const summary = describeStep(step);
+          const duration = formatDuration(step.durationMs);
+          return (
+            <li
+              key={step.id}
+              className={`run-trace-step run-trace-step-${summary.tone}`}
+            >
+              <div className="run-trace-step-header">
+                <span className="run-trace-offset">
+                  {formatOffset(step, start)}
+                </span>
+                <strong>{summary.title}</strong>
+                {duration ? (
+                  <span className="run-trace-duration">{duration}</span>
+                ) : null}
+              </div>
+              {summary.detail ? (
+                <p className="run-context-note">{summary.detail}</p>
+              ) : null}
+              <StepBody step={step} />
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -15,13 +15,15 @@ vi.mock('../lib/api', async (orig) => {
   const actual = (await orig()) as Record<string, unknown>;
   return {
     ...actual,
+    listTalkJobs: vi.fn(),
     patchTalkContextSource: vi.fn(),
   };
 });
 
-import { patchTalkContextSource } from '../lib/api';
+import { listTalkJobs, patchTalkContextSource, type TalkJob } from '../lib/api';
 
 const patchMock = patchTalkContextSource as unknown as ReturnType<typeof vi.fn>;
+const listJobsMock = listTalkJobs as unknown as ReturnType<typeof vi.fn>;
 
 function makeSource(
   input: Partial<ContextSource> & { id: string },
@@ -49,12 +51,16 @@ function makeSource(
     expectedPageCount: input.expectedPageCount ?? null,
     pageImageCount: input.pageImageCount ?? 0,
     pageSetComplete: input.pageSetComplete ?? false,
+    refreshIntervalMinutes: input.refreshIntervalMinutes ?? null,
+    nextRefreshAt: input.nextRefreshAt ?? null,
+    onChangeJobId: input.onChangeJobId ?? null,
   };
 }
 
 afterEach(() => {
   cleanup();
   patchMock.mockReset();
+  listJobsMock.mockReset();
 });
 
 describe('SavedSourcesPanel', () => {
@@ -302,4 +308,65 @@ describe('SavedSourcesPanel — render-pages affordance (T10)', () => {
       screen.queryByRole('button', { name: 'Render pages' }),
     ).not.toBeInTheDocument();
   });
+
+  it('sets a re-check interval and an on-change job for a URL source', async () => {
+    listJobsMock.mockResolvedValue([
+      { id: 'job-1', title: 'Summarize pricing changes' } as TalkJob,
+    ]);
+    const source = makeSource({
+      id: 'u1',
+      sourceType: 'url',
+      sourceUrl: 'https://acme.example/pricing',
+    });
+    patchMock.mockResolvedValueOnce({
+      ...source,
+      refreshIntervalMinutes: 1440,
+    });
+    const setSources = vi.fn();
+    const { rerender } = render(
+      <SavedSourcesPanel
+        talkId="t1"
+        sources={[source]}
+        setSources={setSources}
+        canEdit
+        hasVisionNonDocAgent={false}
+        onUnauthorized={() => undefined}
+      />,
+    );
+
+    fireEvent.change(screen.getByLabelText('Re-check interval'), {
+      target: { value: '1440' },
+    });
+    await waitFor(() => {
+      expect(patchMock).toHaveBeenCalledWith({
+        talkId: 't1',
+        sourceId: 'u1',
+        refreshIntervalMinutes: 1440,
+      });
+    });
+    expect(listJobsMock).toHaveBeenCalledWith('t1');
+
+    rerender(
+      <SavedSourcesPanel
+        talkId="t1"
+        sources={[{ ...source, refreshIntervalMinutes: 1440 }]}
+        setSources={setSources}
+        canEdit
+        hasVisionNonDocAgent={false}
+        onUnauthorized={() => undefined}
+      />,
+    );
+    patchMock.mockResolvedValueOnce(source);
+    fireEvent.change(
+      await screen.findByLabelText('Job to run when the source changes'),
+      { target: { value: 'job-1' } },
+    );
+    await waitFor(() => {
+      expect(patchMock).toHaveBeenLastCalledWith({
+        talkId: 't1',
+        sourceId: 'u1',
+        onChangeJobId: 'job-1',
+      });
+    });
+  });
 });
@@ -9,11 +9,13 @@ import {
   createTalkContextSource,
   deleteTalkContextSource,
   getContextSourceContentUrl,
+  listTalkJobs,
   patchTalkContextSource,
   retryTalkContextSource,
   uploadTalkContextSource,
   UnauthorizedError,
   type ContextSource,
+  type TalkJob,
 } from '../lib/api';
 import { isRasterizablePdf, renderAndUploadPdfPages } from '../lib/pdf-raster';
 
@@ -54,6 +56,27 @@ const MAX_FILE_SIZE = 10 * 1024 * 1024;
 const ALLOWED_FILE_EXTENSIONS =
   '.pdf,.docx,.xlsx,.pptx,.txt,.md,.csv,.html,.json,.xml,.yaml,.yml,.py,.js,.ts,.jsx,.tsx,.java,.c,.h,.cpp,.hpp,.go,.rs,.sh,.sql,.rtf,.rb,.php,.swift,.kt,.lua,.r,.toml,.ini,.cfg,.log';
 
+// Re-check intervals offered for URL sources (minutes; null = not
+// watched). The API accepts any whole number from 60 to 43 200.
+const REFRESH_INTERVAL_OPTIONS: Array<{ minutes: number; label: string }> = [
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 6 * 60, label: 'Every 6 hours' },
+  { minutes: 24 * 60, label: 'Daily' },
+  { minutes: 7 * 24 * 60, label: 'Weekly' },
+];
+
+function describeRefreshInterval(minutes: number): string {
+  return (
+    REFRESH_INTERVAL_OPTIONS.find((option) => option.minutes === minutes)
+      ?.label ?? `Every ${minutes} minutes`
+  );
+}
+
+type WatchPatch = {
+  refreshIntervalMinutes?: number | null;
+  onChangeJobId?: string | null;
+};
+
 function formatFileSize(bytes: number | null | undefined): string | null {
   if (bytes == null) return null;
   if (bytes < 1024) return `${bytes} B`;
@@ -79,6 +102,22 @@ export function SavedSourcesPanel({
   const [renderStates, setRenderStates] = useState<Record<string, RenderState>>(
     {},
   );
+  // Jobs a watched source can trigger on change. Loaded once, and only
+  // when there is a URL source to watch.
+  const [jobs, setJobs] = useState<TalkJob[]>([]);
+  const jobsRequestedRef = useRef(false);
+  const hasUrlSource = sources.some((source) => source.sourceType === 'url');
+
+  useEffect(() => {
+    if (!canEdit || !hasUrlSource || jobsRequestedRef.current) return;
+    jobsRequestedRef.current = true;
+    listTalkJobs(talkId)
+      .then(setJobs)
+      .catch((err: unknown) => {
+        if (err instanceof UnauthorizedError) onUnauthorized();
+        // Otherwise leave the list empty; the re-check interval still works.
+      });
+  }, [canEdit, hasUrlSource, onUnauthorized, talkId]);
 
   // Rasterize a PDF source's pages in the browser and upload them one per
   // request. Runs fire-and-forget after upload (and on manual retry). A
@@ -306,6 +345,24 @@ export function SavedSourcesPanel({
     );
   };
 
+  const handlePatchWatch = async (
+    sourceId: string,
+    patch: WatchPatch,
+  ): Promise<void> => {
+    try {
+      const updated = await patchTalkContextSource({
+        talkId,
+        sourceId,
+        ...patch,
+      });
+      setSources((prev) =>
+        prev.map((source) => (source.id === updated.id ? updated : source)),
+      );
+    } catch (err) {
+      handleApiError(err, 'Failed to update source re-check.');
+    }
+  };
+
   return (
     <div className="talk-llm-card">
       <div className="connector-card-header">
@@ -422,8 +479,10 @@ export function SavedSourcesPanel({
               canEdit={canEdit}
               hasVisionNonDocAgent={hasVisionNonDocAgent}
               renderState={renderStates[source.id]}
+              jobs={jobs}
               onPatchTitle={handlePatchTitle}
               onPatchNote={handlePatchNote}
+              onPatchWatch={handlePatchWatch}
               onRetry={handleRetry}
               onRetryRender={handleRetryRender}
               onDelete={handleDelete}
@@ -508,8 +567,10 @@ type SavedSourceRowProps = {
   canEdit: boolean;
   hasVisionNonDocAgent: boolean;
   renderState: RenderState | undefined;
+  jobs: TalkJob[];
   onPatchTitle: (sourceId: string, nextTitle: string) => Promise<void>;
   onPatchNote: (sourceId: string, nextNote: string) => Promise<void>;
+  onPatchWatch: (sourceId: string, patch: WatchPatch) => Promise<void>;
   onRetry: (sourceId: string) => Promise<void>;
   onRetryRender: (sourceId: string) => void;
   onDelete: (sourceId: string) => Promise<void>;
@@ -520,8 +581,10 @@ function SavedSourceRow({
   canEdit,
   hasVisionNonDocAgent,
   renderState,
+  jobs,
   onPatchTitle,
   onPatchNote,
+  onPatchWatch,
   onRetry,
   onRetryRender,
   onDelete,
@@ -665,6 +728,87 @@ function SavedSourceRow({
           Last fetched {new Date(source.lastFetchedAt).toLocaleString()}
         </p>
       ) : null}
+      {source.sourceType === 'url' &&
+      (canEdit || source.refreshIntervalMinutes) ? (
+        <div
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: '0.5rem',
+            margin: '0.3rem 0 0 0.25rem',
+            fontSize: '0.75rem',
+          }}
+        >
+          {canEdit ? (
+            <>
+              <label>
+                Re-check{' '}
+                <select
+                  aria-label="Re-check interval"
+                  value={source.refreshIntervalMinutes ?? ''}
+                  onChange={(event) =>
+                    void onPatchWatch(source.id, {
+                      refreshIntervalMinutes: event.target.value
+                        ? Number(event.target.value)
+                        : null,
+                    })
+                  }
+                >
+                  <option value="">Off</option>
+                  {REFRESH_INTERVAL_OPTIONS.map((option) => (
+                    <option key={option.minutes} value={option.minutes}>
+                      {option.label}
+                    </option>
+                  ))}
+                  {source.refreshIntervalMinutes &&
+                  !REFRESH_INTERVAL_OPTIONS.some(
+                    (option) =>
+                      option.minutes === source.refreshIntervalMinutes,
+                  ) ? (
+                    <option value={source.refreshIntervalMinutes}>
+                      {describeRefreshInterval(source.refreshIntervalMinutes)}
+                    </option>
+                  ) : null}
+                </select>
+              </label>
+              {source.refreshIntervalMinutes && jobs.length > 0 ? (
+                <label>
+                  On change, run{' '}
+                  <select
+                    aria-label="Job to run when the source changes"
+                    value={source.onChangeJobId ?? ''}
+                    onChange={(event) =>
+                      void onPatchWatch(source.id, {
+                        onChangeJobId: event.target.value || null,
+                      })
+                    }
+                  >
+                    <option value="">No job</option>
+                    {jobs.map((job) => (
+                      <option key={job.id} value={job.id}>
+                        {job.title}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+            </>
+          ) : source.refreshIntervalMinutes ? (
+            <span>
+              Re-checked{' '}
+              {describeRefreshInterval(
+                source.refreshIntervalMinutes,
+              ).toLowerCase()}
+            </span>
+          ) : null}
+          {source.nextRefreshAt ? (
+            <span style={{ opacity: 0.65 }}>
+              Next check {new Date(source.nextRefreshAt).toLocaleString()}
+            </span>
+          ) : null}
+        </div>
+      ) : null}
       {renderState ? (
         <p
           style={{
@@ -36,6 +36,9 @@ function makeSource(
     expectedPageCount: input.expectedPageCount ?? null,
     pageImageCount: input.pageImageCount ?? 0,
     pageSetComplete: input.pageSetComplete ?? false,
+    refreshIntervalMinutes: input.refreshIntervalMinutes ?? null,
+    nextRefreshAt: input.nextRefreshAt ?? null,
+    onChangeJobId: input.onChangeJobId ?? null,
   };
 }
 
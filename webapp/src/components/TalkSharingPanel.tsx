@@ -0,0 +1,236 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+
+import {
+  addTalkMember,
+  listTalkMembers,
+  removeTalkMember,
+  revokeTalkInvite,
+  updateTalkMemberRole,
+  type TalkInvite,
+  type TalkMember,
+} from '../lib/api';
+
+type ShareRole = 'editor' | 'viewer';
+
+function roleLabel(role: TalkMember['role']): string {
+  if (role === 'owner') return 'Owner';
+  return role === 'editor' ? 'Editor' : 'Viewer';
+}
+
+export interface TalkSharingPanelProps {
+  talkId: string;
+  // Only the owner sees invites and can add, change or remove members.
+  canManage: boolean;
+}
+
+export function TalkSharingPanel({
+  talkId,
+  canManage,
+}: TalkSharingPanelProps): JSX.Element {
+  const [members, setMembers] = useState<TalkMember[]>([]);
+  const [invites, setInvites] = useState<TalkInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShareRole>('viewer');
+
+  const reload = useCallback(async () => {
+    try {
+      const result = await listTalkMembers(talkId);
+      setMembers(result.members);
+      setInvites(result.invites);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [talkId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const result = await listTalkMembers(talkId);
+        if (cancelled) return;
+        setMembers(result.members);
+        setInvites(result.invites);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [talkId]);
+
+  const run = useCallback(
+    async (action: () => Promise<string | null>) => {
+      setBusy(true);
+      setError(null);
+      setNotice(null);
+      try {
+        setNotice(await action());
+        await reload();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [reload],
+  );
+
+  const handleShare = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed) return;
+    void run(async () => {
+      const result = await addTalkMember({ talkId, email: trimmed, role });
+      setEmail('');
+      return result.invite
+        ? `Invited ${result.invite.email}. They get access once they accept the invite.`
+        : `Updated the role for ${result.member?.displayName ?? trimmed}.`;
+    });
+  };
+
+  return (
+    <section className="talk-tools-panel talk-sharing-panel">
+      <header className="talk-tools-panel-header">
+        <div>
+          <h2>Sharing</h2>
+          <p className="talk-tools-panel-meta">
+            Viewers can read this Talk. Editors can also send messages, start
+            threads and cancel runs. Agents, jobs and settings stay with the
+            owner.
+          </p>
+        </div>
+      </header>
+
+      {error ? (
+        <div className="talk-tools-panel-error" role="alert">
+          {error}
+        </div>
+      ) : null}
+      {notice ? (
+        <p className="talk-tools-panel-meta" role="status">
+          {notice}
+        </p>
+      ) : null}
+
+      {canManage ? (
+        <form className="talk-sharing-form" onSubmit={handleShare}>
+          <input
+            type="email"
+            placeholder="name@example.com"
+            aria-label="Email to share with"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            disabled={busy}
+          />
+          <select
+            aria-label="Role"
+            value={role}
+            onChange={(event) => setRole(event.target.value as ShareRole)}
+            disabled={busy}
+          >
+            <option value="viewer">Viewer</option>
+            <option value="editor">Editor</option>
+          </select>
+          <button type="submit" disabled={busy || !email.trim()}>
+            Share
+          </button>
+        </form>
+      ) : null}
+
+      {loading ? (
+        <p className="talk-tools-panel-meta">Loading members…</p>
+      ) : (
+        <ul className="talk-tools-binding-list" aria-label="Talk members">
+          {members.map((member) => (
+            <li className="talk-tools-binding" key={member.userId}>
+              <div className="talk-tools-binding-meta">
+                <span className="talk-tools-binding-kind">
+                  {roleLabel(member.role)}
+                </span>
+                <span className="talk-tools-binding-name">
+                  {member.displayName}
+                </span>
+                <span className="talk-tools-binding-link">{member.email}</span>
+              </div>
+              {canManage && member.role !== 'owner' ? (
+                <div className="talk-tools-panel-actions">
+                  <select
+                    aria-label={`Role for ${member.email}`}
+                    value={member.role}
+                    disabled={busy}
+                    onChange={(event) => {
+                      const next = event.target.value as ShareRole;
+                      void run(async () => {
+                        await updateTalkMemberRole({
+                          talkId,
+                          userId: member.userId,
+                          role: next,
+                        });
+                        return null;
+                      });
+                    }}
+                  >
+                    <option value="viewer">Viewer</option>
+                    <option value="editor">Editor</option>
+                  </select>
+                  <button
+                    type="button"
+                    className="talk-tools-binding-remove"
+                    disabled={busy}
+                    onClick={() =>
+                      void run(async () => {
+                        await removeTalkMember({
+                          talkId,
+                          userId: member.userId,
+                        });
+                        return null;
+                      })
+                    }
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : null}
+            </li>
+          ))}
+          {invites.map((invite) => (
+            <li className="talk-tools-binding" key={invite.id}>
+              <div className="talk-tools-binding-meta">
+                <span className="talk-tools-binding-kind">
+                  Invited · {roleLabel(invite.role)}
+                </span>
+                <span className="talk-tools-binding-name">{invite.email}</span>
+              </div>
+              <button
+                type="button"
+                className="talk-tools-binding-remove"
+                disabled={busy}
+                onClick={() =>
+                  void run(async () => {
+                    await revokeTalkInvite({ talkId, inviteId: invite.id });
+                    return null;
+                  })
+                }
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+
+import type { Workspace } from '../lib/api';
+
+const NEW_WORKSPACE_VALUE = '__new__';
+
+type Props = {
+  workspaces: Workspace[];
+  currentWorkspaceId: string | null;
+  onSwitch: (workspaceId: string) => Promise<void>;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (workspaceId: string, name: string) => Promise<void>;
+  onDelete: (workspaceId: string) => Promise<void>;
+};
+
+export function WorkspaceSwitcher({
+  workspaces,
+  currentWorkspaceId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+}: Props): JSX.Element {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const current =
+    workspaces.find((workspace) => workspace.id === currentWorkspaceId) ?? null;
+  const canRename = current?.role === 'owner' || current?.role === 'admin';
+  const canDelete = current?.role === 'owner';
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChange = (value: string) => {
+    if (value === NEW_WORKSPACE_VALUE) {
+      const name = window.prompt('Name the new workspace')?.trim();
+      if (!name) return;
+      void run(() => onCreate(name));
+      return;
+    }
+    if (value !== currentWorkspaceId) void run(() => onSwitch(value));
+  };
+
+  return (
+    <div className="clawtalk-sidebar-workspace">
+      <select
+        className="clawtalk-sidebar-workspace-select"
+        aria-label="Workspace"
+        value={currentWorkspaceId ?? ''}
+        disabled={busy}
+        onChange={(event) => handleChange(event.target.value)}
+      >
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.role === 'guest'
+              ? `${workspace.name} (guest)`
+              : workspace.name}
+          </option>
+        ))}
+        <option value={NEW_WORKSPACE_VALUE}>New workspace…</option>
+      </select>
+      {current && (canRename || canDelete) ? (
+        <div className="clawtalk-sidebar-workspace-actions">
+          {canRename ? (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => {
+                const name = window
+                  .prompt('Rename workspace', current.name)
+                  ?.trim();
+                if (!name || name === current.name) return;
+                void run(() => onRename(current.id, name));
+              }}
+            >
+              Rename
+            </button>
+          ) : null}
+          {canDelete ? (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => {
+                const confirmed = window.confirm(
+                  `Delete "${current.name}" and every Talk, agent and connector in it?`,
+                );
+                if (!confirmed) return;
+                void run(() => onDelete(current.id));
+              }}
+            >
+              Delete
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+      {error ? (
+        <p className="clawtalk-sidebar-workspace-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { FormEvent, useState } from 'react';
+
+import type { WorkspaceChannel } from '../../lib/api';
+
+type DiscordChannelFormProps = {
+  mode: 'create' | 'edit';
+  initial?: WorkspaceChannel;
+  submitting: boolean;
+  error: string | null;
+  onSubmit: (input: {
+    displayName: string;
+    config: {
+      application_id: string;
+      public_key: string;
+      channel_id: string;
+      guild_id?: string;
+    };
+    apiKey?: string | null;
+    rotateCredential?: boolean;
+  }) => void | Promise<void>;
+  onCancel: () => void;
+};
+
+function readConfigString(
+  config: Record<string, unknown>,
+  key: string,
+): string {
+  const value = config[key];
+  return typeof value === 'string' ? value : '';
+}
+
+export function DiscordChannelForm({
+  mode,
+  initial,
+  submitting,
+  error,
+  onSubmit,
+  onCancel,
+}: DiscordChannelFormProps): JSX.Element {
+  const initialConfig = (initial?.config ?? {}) as Record<string, unknown>;
+  const [displayName, setDisplayName] = useState<string>(
+    initial?.displayName ?? '',
+  );
+  const [applicationId, setApplicationId] = useState<string>(
+    readConfigString(initialConfig, 'application_id'),
+  );
+  const [publicKey, setPublicKey] = useState<string>(
+    readConfigString(initialConfig, 'public_key'),
+  );
+  const [guildId, setGuildId] = useState<string>(
+    readConfigString(initialConfig, 'guild_id'),
+  );
+  const [channelId, setChannelId] = useState<string>(
+    readConfigString(initialConfig, 'channel_id'),
+  );
+  const [botToken, setBotToken] = useState<string>('');
+  const [rotating, setRotating] = useState<boolean>(mode === 'create');
+
+  const editingExisting = mode === 'edit';
+  const showCredentialInput = !editingExisting || rotating;
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (submitting) return;
+    const trimmedName = displayName.trim();
+    if (!trimmedName) return;
+    const trimmedApplication = applicationId.trim();
+    const trimmedKey = publicKey.trim();
+    const trimmedChannel = channelId.trim();
+    if (!trimmedApplication || !trimmedKey || !trimmedChannel) return;
+    const trimmedGuild = guildId.trim();
+    void onSubmit({
+      displayName: trimmedName,
+      config: {
+        application_id: trimmedApplication,
+        public_key: trimmedKey,
+        channel_id: trimmedChannel,
+        ...(trimmedGuild ? { guild_id: trimmedGuild } : {}),
+      },
+      ...(rotating
+        ? { apiKey: botToken.trim() || null, rotateCredential: true }
+        : {}),
+    });
+  }
+
+  return (
+    <form className="connector-kind-form" onSubmit={handleSubmit}>
+      <label className="form-field">
+        <span className="form-field-label">Display name</span>
+        <input
+          type="text"
+          value={displayName}
+          onChange={(event) => setDisplayName(event.target.value)}
+          placeholder="Discord #general"
+          required
+          maxLength={200}
+        />
+      </label>
+      <label className="form-field">
+        <span className="form-field-label">Application ID</span>
+        <input
+          type="text"
+          value={applicationId}
+          onChange={(event) => setApplicationId(event.target.value)}
+          placeholder="123456789012345678"
+          inputMode="numeric"
+          pattern="\d+"
+          required
+        />
+      </label>
+      <label className="form-field">
+        <span className="form-field-label">Public key</span>
+        <input
+          type="text"
+          value={publicKey}
+          onChange={(event) => setPublicKey(event.target.value)}
+          placeholder="64 hex characters from the Developer Portal"
+          pattern="[0-9a-fA-F]{64}"
+          required
+        />
+      </label>
+      <label className="form-field">
+        <span className="form-field-label">Server ID (optional)</span>
+        <input
+          type="text"
+          value={guildId}
+          onChange={(event) => setGuildId(event.target.value)}
+          placeholder="123456789012345678"
+          inputMode="numeric"
+          pattern="\d+"
+        />
+      </label>
+      <label className="form-field">
+        <span className="form-field-label">Channel ID</span>
+        <input
+          type="text"
+          value={channelId}
+          onChange={(event) => setChannelId(event.target.value)}
+          placeholder="123456789012345678"
+          inputMode="numeric"
+          pattern="\d+"
+          required
+        />
+      </label>
+      <fieldset className="connector-kind-form-credential">
+        <legend>Bot token</legend>
+        {editingExisting && initial?.hasCredential && !rotating ? (
+          <div className="connector-kind-form-credential-row">
+            <code aria-hidden="true">••••••••</code>
+            <button
+              type="button"
+              className="btn btn-sm"
+              onClick={() => {
+                const confirmed = window.confirm(
+                  `Replacing credential for ${initial?.displayName}. The previous credential will be lost.`,
+                );
+                if (!confirmed) return;
+                setRotating(true);
+              }}
+            >
+              Rotate
+            </button>
+          </div>
+        ) : null}
+        {showCredentialInput ? (
+          <input
+            type="password"
+            value={botToken}
+            onChange={(event) => setBotToken(event.target.value)}
+            placeholder="Bot token from the Developer Portal"
+            autoComplete="off"
+          />
+        ) : null}
+      </fieldset>
+      {error ? (
+        <p className="form-error" role="alert">
+          {error}
+        </p>
+      ) : null}
+      <div className="form-actions">
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={onCancel}
+          disabled={submitting}
+        >
+          Cancel
+        </button>
+        <button type="submit" className="btn btn-primary" disabled={submitting}>
+          {submitting ? 'Saving…' : mode === 'create' ? 'Add channel' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
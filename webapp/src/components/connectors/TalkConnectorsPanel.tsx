@@ -30,6 +30,7 @@ type Props = {
 const CHANNEL_KIND_LABELS: Record<ChannelKind, string> = {
   slack: 'Slack',
   telegram: 'Telegram',
+  discord: 'Discord',
 };
 
 const DATA_CONNECTOR_KIND_LABELS: Record<DataConnectorKind, string> = {
@@ -25,6 +25,14 @@ export function resolveConnectorSubtitle(
     return chat ? `chat ${chat}` : null;
   }
 
+  if (kind === 'discord') {
+    const guild = typeof cfg.guild_id === 'string' ? cfg.guild_id : null;
+    const ch = typeof cfg.channel_id === 'string' ? cfg.channel_id : null;
+    if (guild && ch) return `server ${guild} · channel ${ch}`;
+    if (ch) return `channel ${ch}`;
+    return guild ? `server ${guild}` : null;
+  }
+
   if (kind === 'posthog') {
     const host = typeof cfg.host === 'string' ? cfg.host : null;
     if (!host) return null;
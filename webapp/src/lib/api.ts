@@ -32,6 +32,9 @@ export type Talk = {
   ownerId: string;
   title: string;
   orchestrationMode: 'ordered' | 'panel';
+  // Debate settings: rounds per turn and the agent closing each round.
+  roundsLimit?: TalkRoundsLimit;
+  synthesizerAgentId?: string | null;
   agents: string[];
   status: string;
   folderId: string | null;
@@ -42,6 +45,8 @@ export type Talk = {
   accessRole: 'owner' | 'admin' | 'editor' | 'viewer';
 };
 
+export type TalkRoundsLimit = 1 | 2 | 3 | 5;
+
 export type TalkSidebarTalk = {
   type: 'talk';
   id: string;
@@ -72,8 +77,15 @@ export type ContentSidebarItem = {
   updatedAt: string;
 };
 
+// A Talk another user shared with the caller. Listed apart from the
+// caller's own items: folders and ordering belong to the owner.
+export type SharedTalkSidebarItem = Omit<TalkSidebarTalk, 'type'> & {
+  accessRole: 'editor' | 'viewer';
+};
+
 export type TalkSidebarTree = {
   items: TalkSidebarItem[];
+  sharedTalks?: SharedTalkSidebarItem[];
   mainTalkId: string | null;
   contents: ContentSidebarItem[];
 };
@@ -359,6 +371,11 @@ export type ContextSource = {
   sortOrder: number;
   createdAt: string;
   updatedAt: string;
+  // Watched URL sources: re-fetched every refreshIntervalMinutes; a change
+  // posts a system message into the Talk and runs onChangeJobId.
+  refreshIntervalMinutes: number | null;
+  nextRefreshAt: string | null;
+  onChangeJobId: string | null;
   // Rasterized-page state (PDF page-image feature). pageSetComplete is the
   // backend's resolved boolean — the webapp shows a "render pages"
   // affordance for PDFs where it is false. Surfaced, not recomputed.
@@ -402,6 +419,28 @@ export type TalkJobSchedule =
       weekdays: TalkJobWeekday[];
       hour: number;
       minute: number;
+    }
+  | {
+      kind: 'cron';
+      expression: string;
+    }
+  | {
+      kind: 'once';
+      // Local date-time in the job's timezone: YYYY-MM-DDTHH:mm.
+      at: string;
+    }
+  | {
+      kind: 'monthly';
+      dayOfMonth: number;
+      hour: number;
+      minute: number;
+    }
+  | {
+      kind: 'business_day';
+      // Nth Mon–Fri of the month; negative counts from the end.
+      businessDay: number;
+      hour: number;
+      minute: number;
     };
 
 export type TalkJobScope = {
@@ -410,6 +449,29 @@ export type TalkJobScope = {
   allowWeb: boolean;
 };
 
+export type TalkJobReportMode = 'replace_section' | 'append_dated';
+
+export type TalkJobDeliverable =
+  | { kind: 'thread' }
+  | {
+      kind: 'report';
+      mode: TalkJobReportMode;
+      sectionTitle: string;
+      autoAccept: boolean;
+    };
+
+/**
+ * JSON schema a job's (or chat turn's) reply must match; the parsed
+ * object lands on the response message and, with stateKey, in Talk
+ * state.
+ */
+export type TalkStructuredOutput = {
+  name: string;
+  description?: string;
+  schema: Record<string, unknown>;
+  stateKey: string | null;
+};
+
 export type TalkJob = {
   id: string;
   talkId: string;
@@ -421,6 +483,11 @@ export type TalkJob = {
   schedule: TalkJobSchedule;
   timezone: string;
   sourceScope: TalkJobScope;
+  deliverable: TalkJobDeliverable;
+  structuredOutput: TalkStructuredOutput | null;
+  // Extra tool-call iterations a run gets once when it hits the limit;
+  // null leaves it paused for the user.
+  toolIterationGrant: number | null;
   threadId: string;
   lastRunAt: string | null;
   lastRunStatus: string | null;
@@ -438,6 +505,7 @@ export type TalkJobRunSummary = {
     | 'queued'
     | 'running'
     | 'awaiting_confirmation'
+    | 'paused'
     | 'cancelled'
     | 'completed'
     | 'failed';
@@ -451,6 +519,17 @@ export type TalkJobRunSummary = {
   cancelReason: string | null;
   executorAlias: string | null;
   executorModel: string | null;
+  // The Content edit set a report job run produced. editSetId is the
+  // run id the content edit-run accept / reject endpoints take.
+  report: {
+    contentId: string | null;
+    editSetId: string;
+    editIds: string[];
+    mode: TalkJobReportMode;
+    sectionTitle: string;
+    status: 'pending' | 'accepted' | 'resolved' | 'failed';
+    errorMessage: string | null;
+  } | null;
 };
 
 export type TalkThread = {
@@ -623,10 +702,12 @@ export type TalkRun = {
   threadId: string;
   responseGroupId: string | null;
   sequenceIndex: number | null;
+  roundId?: string | null;
   status:
     | 'queued'
     | 'running'
     | 'awaiting_confirmation'
+    | 'paused'
     | 'cancelled'
     | 'completed'
     | 'failed';
@@ -648,6 +729,18 @@ export type TalkRun = {
   completionStatus?: 'complete' | 'incomplete' | null;
   providerStopReason?: string | null;
   incompleteReason?: 'truncated' | 'empty' | 'unknown' | null;
+  channelDelivery?: TalkRunChannelDelivery | null;
+};
+
+export type TalkRunChannelDelivery = {
+  status: 'pending' | 'sent' | 'suppressed' | 'failed';
+  platform: ChannelKind;
+  attemptCount: number;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  externalMessageIds: string[];
+  lastError: string | null;
+  suppressedReason: string | null;
 };
 
 export type TalkRunContextStateEntrySnapshot = {
@@ -692,6 +785,14 @@ export type TalkRunContextSnapshot = {
   roleHint: string | null;
   goalIncluded: boolean;
   summaryIncluded: boolean;
+  // Rolling summary the run saw; absent on snapshots from before
+  // summaries were written.
+  summary?: {
+    scope: 'talk' | 'thread';
+    version: number;
+    coversThroughMessageId: string | null;
+    updatedAt: string;
+  } | null;
   activeRules: string[];
   stateSnapshot: {
     totalCount: number;
@@ -873,10 +974,15 @@ export type AgentProviderCard = {
     | 'kimi'
     | 'nvidia'
     | 'custom';
-  apiFormat: 'anthropic_messages' | 'openai_chat_completions';
+  apiFormat:
+    | 'anthropic_messages'
+    | 'openai_chat_completions'
+    | 'codex_responses'
+    | 'gemini_generate_content';
   baseUrl: string;
-  authScheme: 'x_api_key' | 'bearer';
+  authScheme: 'x_api_key' | 'bearer' | 'none';
   enabled: boolean;
+  isCustom: boolean;
   credentialMode: 'api_key' | 'subscription_only';
   hasCredential: boolean;
   credentialHint: string | null;
@@ -930,7 +1036,11 @@ export type TalkLlmProvider = {
     | 'kimi'
     | 'nvidia'
     | 'custom';
-  apiFormat: 'anthropic_messages' | 'openai_chat_completions';
+  apiFormat:
+    | 'anthropic_messages'
+    | 'openai_chat_completions'
+    | 'codex_responses'
+    | 'gemini_generate_content';
   baseUrl: string;
   authScheme: 'x_api_key' | 'bearer';
   enabled: boolean;
@@ -1176,6 +1286,8 @@ export async function patchTalkMetadata(input: {
   title?: string;
   folderId?: string | null;
   orchestrationMode?: 'ordered' | 'panel';
+  roundsLimit?: TalkRoundsLimit;
+  synthesizerAgentId?: string | null;
 }): Promise<Talk> {
   const envelope = await apiMutationRequest<{ talk: Talk }>(
     `/api/v1/talks/${encodeURIComponent(input.talkId)}`,
@@ -1186,6 +1298,8 @@ export async function patchTalkMetadata(input: {
         title: input.title,
         folderId: input.folderId,
         orchestrationMode: input.orchestrationMode,
+        roundsLimit: input.roundsLimit,
+        synthesizerAgentId: input.synthesizerAgentId,
       }),
     },
   );
@@ -1244,6 +1358,8 @@ export type TalkSnapshotTalk = {
   sortOrder: number;
   title: string | null;
   orchestrationMode: 'ordered' | 'panel';
+  roundsLimit?: TalkRoundsLimit;
+  synthesizerAgentId?: string | null;
   status: 'active' | 'paused' | 'archived';
   version: number;
   createdAt: string;
@@ -1698,6 +1814,35 @@ export async function getTalkRuns(talkId: string): Promise<TalkRun[]> {
   return envelope.runs;
 }
 
+export type TalkRound = {
+  id: string;
+  talkId: string;
+  threadId: string;
+  triggerMessageId: string | null;
+  responseGroupId: string;
+  roundNumber: number;
+  roundsLimit: number;
+  orchestrationMode: 'ordered' | 'panel';
+  synthesizerAgentId: string | null;
+  synthesizerRunId: string | null;
+  status: 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+  createdAt: string;
+  startedAt: string | null;
+  endedAt: string | null;
+};
+
+export async function getTalkRounds(
+  talkId: string,
+  threadId?: string | null,
+): Promise<TalkRound[]> {
+  const query = threadId ? `?threadId=${encodeURIComponent(threadId)}` : '';
+  const envelope = await apiRequest<{
+    talkId: string;
+    rounds: TalkRound[];
+  }>(`/api/v1/talks/${encodeURIComponent(talkId)}/rounds${query}`);
+  return envelope.rounds;
+}
+
 export async function getTalkRunContext(input: {
   talkId: string;
   runId: string;
@@ -1712,6 +1857,40 @@ export async function getTalkRunContext(input: {
   return envelope.contextSnapshot;
 }
 
+export type TalkRunTraceStepKind =
+  | 'run_started'
+  | 'llm_turn'
+  | 'tool_call'
+  | 'retry'
+  | 'fallback_hop'
+  | 'run_finished';
+
+/**
+ * One step of a run's execution trace. `data` depends on `kind`; text
+ * fields are capped server-side, with `*TruncatedFrom` set when cut.
+ */
+export type TalkRunTraceStep = {
+  id: string;
+  kind: TalkRunTraceStepKind;
+  startedAt: string;
+  durationMs: number | null;
+  data: Record<string, unknown>;
+};
+
+export async function getTalkRunTrace(input: {
+  talkId: string;
+  runId: string;
+}): Promise<TalkRunTraceStep[]> {
+  const envelope = await apiRequest<{
+    talkId: string;
+    runId: string;
+    steps: TalkRunTraceStep[];
+  }>(
+    `/api/v1/talks/${encodeURIComponent(input.talkId)}/runs/${encodeURIComponent(input.runId)}/trace`,
+  );
+  return envelope.steps;
+}
+
 export async function getTalkResources(input: {
   talkId: string;
 }): Promise<{ talkId: string; bindings: TalkResourceBinding[] }> {
@@ -2055,6 +2234,233 @@ export async function updateTalkTool(input: {
   );
 }
 
+// Human-in-the-loop tool approval (migration 0046). A run parked on an
+// approval sits in status 'awaiting_confirmation' until it is decided or
+// expiresAt passes (auto-deny).
+export type TalkToolApproval = {
+  id: string;
+  runId: string;
+  talkId: string;
+  threadId: string;
+  agentId: string | null;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  actionSummary: string;
+  status: 'pending' | 'approved' | 'denied' | 'expired';
+  decidedAt: string | null;
+  expiresAt: string;
+  createdAt: string;
+};
+
+export async function listTalkToolApprovals(
+  talkId: string,
+): Promise<TalkToolApproval[]> {
+  const envelope = await apiRequest<{ approvals: TalkToolApproval[] }>(
+    `/api/v1/talks/${encodeURIComponent(talkId)}/tool-approvals`,
+  );
+  return envelope.approvals;
+}
+
+export async function decideTalkToolApproval(input: {
+  talkId: string;
+  approvalId: string;
+  decision: 'approve' | 'deny';
+}): Promise<TalkToolApproval> {
+  const envelope = await apiMutationRequest<{ approval: TalkToolApproval }>(
+    `/api/v1/talks/${encodeURIComponent(input.talkId)}/tool-approvals/${encodeURIComponent(input.approvalId)}`,
+    {
+      method: 'POST',
+      includeJson: true,
+      body: JSON.stringify({ decision: input.decision }),
+    },
+  );
+  return envelope.approval;
+}
+
+// Talk sharing (migration 0047). Viewers read; editors also post.
+// Sharing with anyone who isn't a member yet creates an invite (0069):
+// an existing account accepts it from its invite list, a new address
+// claims it when it first signs in.
+export type TalkMember = {
+  userId: string;
+  email: string;
+  displayName: string;
+  role: 'owner' | 'editor' | 'viewer';
+  joinedAt: string;
+};
+
+export type TalkInvite = {
+  id: string;
+  email: string;
+  role: 'editor' | 'viewer';
+  createdAt: string;
+  expiresAt: string;
+};
+
+export async function listTalkMembers(
+  talkId: string,
+): Promise<{ members: TalkMember[]; invites: TalkInvite[] }> {
+  return apiRequest<{ members: TalkMember[]; invites: TalkInvite[] }>(
+    `/api/v1/talks/${encodeURIComponent(talkId)}/members`,
+  );
+}
+
+export async function addTalkMember(input: {
+  talkId: string;
+  email: string;
+  role: 'editor' | 'viewer';
+}): Promise<{ member: TalkMember | null; invite: TalkInvite | null }> {
+  return apiMutationRequest<{
+    member: TalkMember | null;
+    invite: TalkInvite | null;
+  }>(`/api/v1/talks/${encodeURIComponent(input.talkId)}/members`, {
+    method: 'POST',
+    includeJson: true,
+    body: JSON.stringify({ email: input.email, role: input.role }),
+  });
+}
+
+export async function updateTalkMemberRole(input: {
+  talkId: string;
+  userId: string;
+  role: 'editor' | 'viewer';
+}): Promise<TalkMember> {
+  const envelope = await apiMutationRequest<{ member: TalkMember }>(
+    `/api/v1/talks/${encodeURIComponent(input.talkId)}/members/${encodeURIComponent(input.userId)}`,
+    {
+      method: 'PATCH',
+      includeJson: true,
+      body: JSON.stringify({ role: input.role }),
+    },
+  );
+  return envelope.member;
+}
+
+export async function removeTalkMember(input: {
+  talkId: string;
+  userId: string;
+}): Promise<void> {
+  await apiMutationRequest<{ removed: true }>(
+    `/api/v1/talks/${encodeURIComponent(input.talkId)}/members/${encodeURIComponent(input.userId)}`,
+    { method: 'DELETE' },
+  );
+}
+
+export async function revokeTalkInvite(input: {
+  talkId: string;
+  inviteId: string;
+}): Promise<void> {
+  await apiMutationRequest<{ revoked: true }>(
+    `/api/v1/talks/${encodeURIComponent(input.talkId)}/members/invites/${encodeURIComponent(input.inviteId)}`,
+    { method: 'DELETE' },
+  );
+}
+
+// Invites addressed to the signed-in user (migration 0069).
+export type MyInvite = {
+  kind: 'talk' | 'workspace';
+  id: string;
+  targetId: string;
+  targetName: string;
+  role: string;
+  invitedByName: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export async function listMyInvites(): Promise<MyInvite[]> {
+  const data = await apiRequest<{ invites: MyInvite[] }>('/api/v1/invites');
+  return data.invites;
+}
+
+export async function respondToInvite(input: {
+  kind: MyInvite['kind'];
+  inviteId: string;
+  accept: boolean;
+}): Promise<void> {
+  await apiMutationRequest<{ accepted: boolean }>(
+    `/api/v1/invites/${input.kind}/${encodeURIComponent(input.inviteId)}/${input.accept ? 'accept' : 'decline'}`,
+    { method: 'POST' },
+  );
+}
+
+// Workspaces (migration 0048). Every request carries the selected
+// workspace in X-ClawTalk-Workspace; switching also stores it as the
+// user's default, so requests that skip this module (streams, OAuth
+// redirects) land in the same workspace.
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'guest';
+
+export type Workspace = {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  createdAt: string;
+};
+
+const WORKSPACE_HEADER = 'x-clawtalk-workspace';
+let activeWorkspaceId: string | null = null;
+
+export function setActiveWorkspaceId(workspaceId: string | null): void {
+  activeWorkspaceId = workspaceId;
+}
+
+export async function listWorkspaces(): Promise<{
+  workspaces: Workspace[];
+  currentWorkspaceId: string | null;
+}> {
+  return apiRequest<{
+    workspaces: Workspace[];
+    currentWorkspaceId: string | null;
+  }>('/api/v1/workspaces');
+}
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  const envelope = await apiMutationRequest<{ workspace: Workspace }>(
+    '/api/v1/workspaces',
+    {
+      method: 'POST',
+      includeJson: true,
+      body: JSON.stringify({ name }),
+    },
+  );
+  return envelope.workspace;
+}
+
+export async function switchWorkspace(workspaceId: string): Promise<Workspace> {
+  const envelope = await apiMutationRequest<{ workspace: Workspace }>(
+    '/api/v1/workspaces/current',
+    {
+      method: 'PUT',
+      includeJson: true,
+      body: JSON.stringify({ workspaceId }),
+    },
+  );
+  activeWorkspaceId = envelope.workspace.id;
+  return envelope.workspace;
+}
+
+export async function renameWorkspace(input: {
+  workspaceId: string;
+  name: string;
+}): Promise<Workspace> {
+  const envelope = await apiMutationRequest<{ workspace: Workspace }>(
+    `/api/v1/workspaces/${encodeURIComponent(input.workspaceId)}`,
+    {
+      method: 'PATCH',
+      includeJson: true,
+      body: JSON.stringify({ name: input.name }),
+    },
+  );
+  return envelope.workspace;
+}
+
+export async function deleteWorkspace(workspaceId: string): Promise<void> {
+  await apiMutationRequest<{ deleted: true }>(
+    `/api/v1/workspaces/${encodeURIComponent(workspaceId)}`,
+    { method: 'DELETE' },
+  );
+}
+
 export async function getAiAgents(): Promise<AiAgentsPageData> {
   return apiRequest<AiAgentsPageData>('/api/v1/agents');
 }
@@ -2130,6 +2536,8 @@ export async function setActiveWebSearchProvider(
 
 export type RegisteredAgentCredentialMode = 'api_key' | 'subscription';
 
+export type RegisteredAgentReasoningEffort = 'off' | 'low' | 'medium' | 'high';
+
 export type RegisteredAgent = {
   id: string;
   name: string;
@@ -2142,6 +2550,10 @@ export type RegisteredAgent = {
   // null = auto (resolver walks precedence). Non-null pins the agent
   // to a specific credential mode for this provider.
   credentialMode: RegisteredAgentCredentialMode | null;
+  // At most one is set; both null leaves the model at its provider's
+  // default. Ignored by models without reasoning controls.
+  reasoningEffort: RegisteredAgentReasoningEffort | null;
+  reasoningBudgetTokens: number | null;
   createdAt: string;
   updatedAt: string;
   executionPreview: {
@@ -2208,6 +2620,8 @@ export async function createRegisteredAgent(input: {
   systemPrompt?: string;
   description?: string;
   credentialMode?: RegisteredAgentCredentialMode | null;
+  reasoningEffort?: RegisteredAgentReasoningEffort | null;
+  reasoningBudgetTokens?: number | null;
 }): Promise<RegisteredAgent> {
   return apiMutationRequest<RegisteredAgent>('/api/v1/registered-agents', {
     method: 'POST',
@@ -2226,6 +2640,8 @@ export async function updateRegisteredAgent(input: {
   description?: string | null;
   enabled?: boolean;
   credentialMode?: RegisteredAgentCredentialMode | null;
+  reasoningEffort?: RegisteredAgentReasoningEffort | null;
+  reasoningBudgetTokens?: number | null;
 }): Promise<RegisteredAgent> {
   const { agentId, ...body } = input;
   return apiMutationRequest<RegisteredAgent>(
@@ -3272,6 +3688,9 @@ export async function createTalkJob(input: {
   schedule: TalkJobSchedule;
   timezone: string;
   sourceScope: TalkJobScope;
+  deliverable?: TalkJobDeliverable;
+  structuredOutput?: TalkStructuredOutput | null;
+  toolIterationGrant?: number | null;
 }): Promise<TalkJob> {
   const envelope = await apiMutationRequest<{ job: TalkJob }>(
     `/api/v1/talks/${encodeURIComponent(input.talkId)}/jobs`,
@@ -3293,6 +3712,9 @@ export async function patchTalkJob(input: {
   schedule?: TalkJobSchedule;
   timezone?: string;
   sourceScope?: TalkJobScope;
+  deliverable?: TalkJobDeliverable;
+  structuredOutput?: TalkStructuredOutput | null;
+  toolIterationGrant?: number | null;
 }): Promise<TalkJob> {
   const { talkId, jobId, ...patch } = input;
   const envelope = await apiMutationRequest<{ job: TalkJob }>(
@@ -3306,6 +3728,27 @@ export async function patchTalkJob(input: {
   return envelope.job;
 }
 
+export async function previewTalkJobSchedule(input: {
+  talkId: string;
+  schedule: TalkJobSchedule;
+  timezone: string;
+  count?: number;
+}): Promise<{ schedule: TalkJobSchedule; timezone: string; fireTimes: string[] }> {
+  const { talkId, ...body } = input;
+  return apiMutationRequest<{
+    schedule: TalkJobSchedule;
+    timezone: string;
+    fireTimes: string[];
+  }>(
+    `/api/v1/talks/${encodeURIComponent(talkId)}/jobs/preview-schedule`,
+    {
+      method: 'POST',
+      includeJson: true,
+      body: JSON.stringify(body),
+    },
+  );
+}
+
 export async function deleteTalkJob(input: {
   talkId: string;
   jobId: string;
@@ -3384,6 +3827,8 @@ export async function patchTalkContextSource(input: {
   note?: string | null;
   sortOrder?: number;
   extractedText?: string | null;
+  refreshIntervalMinutes?: number | null;
+  onChangeJobId?: string | null;
 }): Promise<ContextSource> {
   const { talkId, sourceId, ...patch } = input;
   const envelope = await apiMutationRequest<{ source: ContextSource }>(
@@ -3733,6 +4178,47 @@ export async function cancelTalkRuns(
   );
 }
 
+// A run that used every tool-call iteration waits in status 'paused'
+// (migration 0054); continuing grants it more and queues it again.
+export async function continueTalkRun(input: {
+  talkId: string;
+  runId: string;
+  iterations?: number;
+}): Promise<{ talkId: string; runId: string; iterations: number }> {
+  return apiMutationRequest<{
+    talkId: string;
+    runId: string;
+    iterations: number;
+  }>(
+    `/api/v1/talks/${encodeURIComponent(input.talkId)}/runs/${encodeURIComponent(input.runId)}/continue`,
+    {
+      method: 'POST',
+      includeJson: true,
+      body: JSON.stringify(
+        input.iterations ? { iterations: input.iterations } : {},
+      ),
+    },
+  );
+}
+
+export async function cancelTalkRound(
+  talkId: string,
+  roundId: string,
+): Promise<{ talkId: string; round: TalkRound; cancelledRuns: number }> {
+  return apiMutationRequest<{
+    talkId: string;
+    round: TalkRound;
+    cancelledRuns: number;
+  }>(
+    `/api/v1/talks/${encodeURIComponent(talkId)}/rounds/${encodeURIComponent(roundId)}/cancel`,
+    {
+      method: 'POST',
+      includeJson: true,
+      body: JSON.stringify({}),
+    },
+  );
+}
+
 export async function logout(): Promise<void> {
   await apiMutationRequest<{ loggedOut: boolean }>(AUTH_LOGOUT_PATH, {
     method: 'POST',
@@ -3916,6 +4402,7 @@ async function apiRequestWithRefresh<T>(
     credentials: 'include',
     headers: {
       accept: 'application/json',
+      ...(activeWorkspaceId ? { [WORKSPACE_HEADER]: activeWorkspaceId } : {}),
       ...(init?.headers || {}),
     },
   });
@@ -4097,6 +4584,10 @@ function buildMutationAttemptHeaders(input: {
     headers.set('content-type', 'application/json');
   }
 
+  if (activeWorkspaceId && !headers.has(WORKSPACE_HEADER)) {
+    headers.set(WORKSPACE_HEADER, activeWorkspaceId);
+  }
+
   // Caller headers may supply generic metadata, but CSRF and idempotency are
   // always owned by this wrapper and written last from current cookie state.
   const csrfToken = getCsrfTokenFromCookie();
@@ -4145,7 +4636,7 @@ function buildIdempotencyKey(): string {
 // those get removed in PR 3 once nothing else references them.
 // ---------------------------------------------------------------------------
 
-export type ChannelKind = 'slack' | 'telegram';
+export type ChannelKind = 'slack' | 'telegram' | 'discord';
 
 export type DataConnectorKind = 'posthog' | 'google_docs' | 'google_sheets';
 
@@ -4500,3 +4991,109 @@ export async function deleteTalkDataConnectorLink(input: {
     },
   );
 }
+
+// Usage dashboard + budgets (migration 0045). Runs blocked by a hard
+// limit fail with errorCode 'budget_exceeded'.
+export type UsageBudgetScope = 'workspace' | 'user' | 'talk' | 'job';
+export type UsageBudgetMetric = 'tokens' | 'usd';
+export type UsageBudgetPeriod = 'day' | 'month';
+
+export type UsageBudget = {
+  id: string;
+  scope: UsageBudgetScope;
+  scopeId: string | null;
+  metric: UsageBudgetMetric;
+  period: UsageBudgetPeriod;
+  softLimit: number | null;
+  hardLimit: number | null;
+  spent: number | null;
+  periodStart: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UsageTotals = {
+  attempts: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  estimatedCostUsd: number;
+};
+
+export type UsageSummary = {
+  scope: 'me' | 'workspace';
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byAgent: Array<
+    UsageTotals & { agentId: string | null; agentName: string | null }
+  >;
+  byModel: Array<UsageTotals & { providerId: string | null; modelId: string }>;
+  rows: Array<
+    UsageTotals & {
+      day: string;
+      agentId: string | null;
+      agentName: string | null;
+      providerId: string | null;
+      modelId: string;
+    }
+  >;
+};
+
+export async function getUsageSummary(input?: {
+  scope?: 'me' | 'workspace';
+  from?: string;
+  to?: string;
+}): Promise<UsageSummary> {
+  const params = new URLSearchParams();
+  if (input?.scope) params.set('scope', input.scope);
+  if (input?.from) params.set('from', input.from);
+  if (input?.to) params.set('to', input.to);
+  const query = params.toString();
+  const envelope = await apiRequest<{ usage: UsageSummary }>(
+    `/api/v1/usage${query ? `?${query}` : ''}`,
+  );
+  return envelope.usage;
+}
+
+export async function listUsageBudgets(input?: {
+  scope?: UsageBudgetScope;
+  scopeId?: string;
+}): Promise<UsageBudget[]> {
+  const params = new URLSearchParams();
+  if (input?.scope) params.set('scope', input.scope);
+  if (input?.scopeId) params.set('scopeId', input.scopeId);
+  const query = params.toString();
+  const envelope = await apiRequest<{ budgets: UsageBudget[] }>(
+    `/api/v1/usage/budgets${query ? `?${query}` : ''}`,
+  );
+  return envelope.budgets;
+}
+
+export async function saveUsageBudget(input: {
+  scope: UsageBudgetScope;
+  scopeId: string | null;
+  metric: UsageBudgetMetric;
+  period: UsageBudgetPeriod;
+  softLimit: number | null;
+  hardLimit: number | null;
+}): Promise<UsageBudget> {
+  const envelope = await apiMutationRequest<{ budget: UsageBudget }>(
+    '/api/v1/usage/budgets',
+    {
+      method: 'PUT',
+      includeJson: true,
+      body: JSON.stringify(input),
+    },
+  );
+  return envelope.budget;
+}
+
+export async function deleteUsageBudget(budgetId: string): Promise<void> {
+  await apiMutationRequest<{ deleted: true }>(
+    `/api/v1/usage/budgets/${encodeURIComponent(budgetId)}`,
+    { method: 'DELETE' },
+  );
+}
@@ -1,4 +1,4 @@
-import type { BrowserBlock, BrowserResume } from './api';
+import type { BrowserBlock, BrowserResume, TalkToolApproval } from './api';
 import {
   WebSocketEventSource,
   type WebSocketEventSourceFrame,
@@ -37,6 +37,7 @@ export type TalkRunStartedEvent = {
   runKind?: 'conversation' | 'instruction_review';
   responseGroupId?: string | null;
   sequenceIndex?: number | null;
+  roundId?: string | null;
   triggerMessageId: string | null;
   status: 'running' | 'queued';
   executorAlias?: string | null;
@@ -99,6 +100,22 @@ export type TalkProgressUpdateEvent = {
   message: string;
 };
 
+// Reasoning summary text for the live response, streamed apart from
+// the reply itself. Never part of the persisted message.
+export type TalkReasoningDeltaEvent = {
+  talkId: string;
+  threadId?: string | null;
+  runId: string;
+  agentId?: string | null;
+  agentNickname?: string | null;
+  responseGroupId?: string | null;
+  sequenceIndex?: number | null;
+  deltaText: string;
+  routeStepPosition?: number | null;
+  providerId?: string | null;
+  modelId?: string | null;
+};
+
 export type TalkResponseUsageEvent = {
   talkId: string;
   threadId?: string | null;
@@ -110,6 +127,7 @@ export type TalkResponseUsageEvent = {
     inputTokens?: number;
     cachedInputTokens?: number;
     outputTokens?: number;
+    reasoningTokens?: number;
     estimatedCostUsd?: number;
   };
   routeStepPosition?: number | null;
@@ -244,12 +262,77 @@ export type TalkRunRetryingEvent = {
   maxRetries: number;
 };
 
+// Usage budget soft limit crossed by a run (migration 0045). `message`
+// is ready to show; hard limits arrive as talk_run_failed with errorCode
+// 'budget_exceeded' instead.
+export type TalkUsageBudgetWarningEvent = {
+  talkId: string;
+  threadId: string | null;
+  runId: string;
+  message: string;
+};
+
+// Tool call parked on user approval (migration 0046), and its outcome.
+// The run sits in 'awaiting_confirmation' between the two.
+export type TalkToolApprovalRequestedEvent = {
+  talkId: string;
+  threadId: string | null;
+  runId: string;
+  approval: TalkToolApproval;
+};
+
+export type TalkToolApprovalResolvedEvent = {
+  talkId: string;
+  threadId: string | null;
+  runId: string;
+  approvalId: string;
+  status: 'approved' | 'denied' | 'expired';
+};
+
+// Run stopped at the tool-call iteration limit (migration 0054). It
+// stays 'paused' until continued (talk_run_continued, back to 'queued')
+// or cancelled. `auto` marks a continue granted by the job's policy.
+export type TalkRunPausedEvent = {
+  talkId: string;
+  threadId: string | null;
+  runId: string;
+  agentId: string | null;
+  iterationsUsed: number;
+};
+
+export type TalkRunContinuedEvent = {
+  talkId: string;
+  threadId: string | null;
+  runId: string;
+  iterations: number;
+  auto: boolean;
+};
+
+// Debate round lifecycle (talk_round_queued / _started / _completed /
+// _failed / _cancelled). Every variant carries the round as stored after
+// the transition, so one handler covers them all.
+export type TalkRoundEvent = {
+  talkId: string;
+  threadId: string;
+  roundId: string;
+  responseGroupId: string;
+  roundNumber: number;
+  roundsLimit: number;
+  orchestrationMode: 'ordered' | 'panel';
+  synthesizerAgentId: string | null;
+  synthesizerRunId: string | null;
+  status: 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+  startedAt: string | null;
+  endedAt: string | null;
+};
+
 interface TalkStreamCallbacks {
   onMessageAppended: (event: MessageAppendedEvent) => void;
   onRunStarted: (event: TalkRunStartedEvent) => void;
   onRunQueued: (event: TalkRunStartedEvent) => void;
   onResponseStarted?: (event: TalkResponseStartedEvent) => void;
   onProgressUpdate?: (event: TalkProgressUpdateEvent) => void;
+  onReasoningDelta?: (event: TalkReasoningDeltaEvent) => void;
   onResponseDelta?: (event: TalkResponseDeltaEvent) => void;
   onResponseUsage?: (event: TalkResponseUsageEvent) => void;
   onResponseCompleted?: (event: TalkResponseTerminalEvent) => void;
@@ -269,6 +352,12 @@ interface TalkStreamCallbacks {
   onToolCallStarted?: (event: TalkToolCallStartedEvent) => void;
   onTalkToolsChanged?: (event: TalkToolsChangedEvent) => void;
   onTalkRunRetrying?: (event: TalkRunRetryingEvent) => void;
+  onUsageBudgetWarning?: (event: TalkUsageBudgetWarningEvent) => void;
+  onToolApprovalRequested?: (event: TalkToolApprovalRequestedEvent) => void;
+  onToolApprovalResolved?: (event: TalkToolApprovalResolvedEvent) => void;
+  onRunPaused?: (event: TalkRunPausedEvent) => void;
+  onRunContinued?: (event: TalkRunContinuedEvent) => void;
+  onRoundChanged?: (event: TalkRoundEvent) => void;
   onReplayGap: () => void | Promise<void>;
   onStateChange?: (state: TalkStreamState) => void;
   onUnauthorized: () => void;
@@ -446,6 +535,11 @@ export function openTalkStream(input: OpenTalkStreamInput): TalkStreamHandle {
         if (payload) input.onProgressUpdate?.(payload);
         return;
       }
+      case 'talk_reasoning_delta': {
+        const payload = parseFrame<TalkReasoningDeltaEvent>(frame);
+        if (payload) input.onReasoningDelta?.(payload);
+        return;
+      }
       case 'talk_response_usage': {
         const payload = parseFrame<TalkResponseUsageEvent>(frame);
         if (payload) input.onResponseUsage?.(payload);
@@ -531,6 +625,40 @@ export function openTalkStream(input: OpenTalkStreamInput): TalkStreamHandle {
         if (payload) input.onTalkRunRetrying?.(payload);
         return;
       }
+      case 'talk_usage_budget_warning': {
+        const payload = parseFrame<TalkUsageBudgetWarningEvent>(frame);
+        if (payload) input.onUsageBudgetWarning?.(payload);
+        return;
+      }
+      case 'talk_tool_approval_requested': {
+        const payload = parseFrame<TalkToolApprovalRequestedEvent>(frame);
+        if (payload) input.onToolApprovalRequested?.(payload);
+        return;
+      }
+      case 'talk_tool_approval_resolved': {
+        const payload = parseFrame<TalkToolApprovalResolvedEvent>(frame);
+        if (payload) input.onToolApprovalResolved?.(payload);
+        return;
+      }
+      case 'talk_run_paused': {
+        const payload = parseFrame<TalkRunPausedEvent>(frame);
+        if (payload) input.onRunPaused?.(payload);
+        return;
+      }
+      case 'talk_run_continued': {
+        const payload = parseFrame<TalkRunContinuedEvent>(frame);
+        if (payload) input.onRunContinued?.(payload);
+        return;
+      }
+      case 'talk_round_queued':
+      case 'talk_round_started':
+      case 'talk_round_completed':
+      case 'talk_round_failed':
+      case 'talk_round_cancelled': {
+        const payload = parseFrame<TalkRoundEvent>(frame);
+        if (payload) input.onRoundChanged?.(payload);
+        return;
+      }
       case 'replay_gap': {
         handleReplayGap();
         return;
@@ -340,6 +340,7 @@ function buildAiAgentsData(): AiAgentsPageData {
         baseUrl: 'https://api.anthropic.com',
         authScheme: 'x_api_key',
         enabled: true,
+        isCustom: false,
         hasCredential: false,
         credentialHint: null,
         verificationStatus: 'missing',
@@ -372,6 +373,7 @@ function buildAiAgentsData(): AiAgentsPageData {
         baseUrl: 'https://api.openai.com/v1',
         authScheme: 'bearer',
         enabled: true,
+        isCustom: false,
         hasCredential: false,
         credentialHint: null,
         verificationStatus: 'missing',
@@ -404,6 +406,7 @@ function buildAiAgentsData(): AiAgentsPageData {
         baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
         authScheme: 'bearer',
         enabled: true,
+        isCustom: false,
         hasCredential: false,
         credentialHint: null,
         verificationStatus: 'missing',
@@ -436,6 +439,7 @@ function buildAiAgentsData(): AiAgentsPageData {
         baseUrl: 'https://integrate.api.nvidia.com/v1',
         authScheme: 'bearer',
         enabled: true,
+        isCustom: false,
         hasCredential: false,
         credentialHint: null,
         verificationStatus: 'missing',
@@ -475,6 +479,8 @@ function buildRegisteredAgents(): RegisteredAgent[] {
       description: null,
       enabled: true,
       credentialMode: null,
+      reasoningEffort: null,
+      reasoningBudgetTokens: null,
       createdAt: '2026-03-06T00:00:00.000Z',
       updatedAt: '2026-03-06T00:00:00.000Z',
       executionPreview: {
@@ -648,6 +654,13 @@ describe('GoogleAccountSection (flag-gated)', () => {
         name: /Connect Google account/i,
       }),
     ).toBeNull();
+    // Gmail scopes are opt-in; a Drive/Docs-only grant offers them.
+    expect(
+      within(section).getByText(/Gmail tools need gmail.readonly, gmail.send/),
+    ).toBeTruthy();
+    expect(
+      within(section).getByRole('button', { name: 'Add Gmail access' }),
+    ).toBeTruthy();
   });
 
   // ─── Connectors tab ──────────────────────────────────────────────────
@@ -780,7 +793,7 @@ describe('GoogleAccountSection (flag-gated)', () => {
     await screen.findByText('Eng Slack');
     await user.click(
       screen.getByRole('button', {
-        name: /Delete Slack\/Telegram channel: Eng Slack/,
+        name: /Delete Slack\/Telegram\/Discord channel: Eng Slack/,
       }),
     );
 
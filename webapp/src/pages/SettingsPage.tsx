@@ -59,12 +59,16 @@ import { ConnectorStatusPill } from '../components/connectors/StatusPill';
 import { resolveConnectorSubtitle } from '../components/connectors/subtitle';
 import { SlackChannelForm } from '../components/connectors/SlackChannelForm';
 import { SlackChannelPicker } from '../components/connectors/SlackChannelPicker';
+import { DiscordChannelForm } from '../components/connectors/DiscordChannelForm';
 import { TelegramChannelForm } from '../components/connectors/TelegramChannelForm';
 import { PostHogDataConnectorForm } from '../components/connectors/PostHogDataConnectorForm';
 import { GoogleDocsDataConnectorForm } from '../components/connectors/GoogleDocsDataConnectorForm';
 import { GoogleSheetsDataConnectorForm } from '../components/connectors/GoogleSheetsDataConnectorForm';
 
 const REQUIRED_GOOGLE_TOOL_SCOPES = ['drive.readonly', 'documents'];
+// Optional: only the Gmail tool families need these, so they are asked
+// for separately instead of at connect time.
+const GMAIL_TOOL_SCOPES = ['gmail.readonly', 'gmail.send'];
 
 function isGoogleToolsEnabled(): boolean {
   return import.meta.env.VITE_GOOGLE_TOOLS_ENABLED === 'true';
@@ -912,9 +916,9 @@ function GoogleAccountSection({
 }): JSX.Element {
   const [account, setAccount] = useState<UserGoogleAccount | null>(null);
   const [loading, setLoading] = useState(true);
-  const [busy, setBusy] = useState<'connect' | 'expand' | 'disconnect' | null>(
-    null,
-  );
+  const [busy, setBusy] = useState<
+    'connect' | 'expand' | 'gmail' | 'disconnect' | null
+  >(null);
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
 
@@ -985,14 +989,15 @@ function GoogleAccountSection({
     }
   }
 
-  async function handleExpand(): Promise<void> {
-    setBusy('expand');
+  async function handleExpand(
+    scopes: string[] = REQUIRED_GOOGLE_TOOL_SCOPES,
+    busyKey: 'expand' | 'gmail' = 'expand',
+  ): Promise<void> {
+    setBusy(busyKey);
     setError(null);
     setNotice(null);
     try {
-      const launch = await expandUserGoogleScopes({
-        scopes: REQUIRED_GOOGLE_TOOL_SCOPES,
-      });
+      const launch = await expandUserGoogleScopes({ scopes });
       await launchGoogleAccountPopup(launch.authorizationUrl);
       await refresh();
       setNotice('Scopes updated.');
@@ -1035,6 +1040,9 @@ function GoogleAccountSection({
         (scope) => !account.scopes.includes(scope),
       )
     : [];
+  const missingGmail = account
+    ? GMAIL_TOOL_SCOPES.filter((scope) => !account.scopes.includes(scope))
+    : [];
 
   return (
     <section
@@ -1045,7 +1053,8 @@ function GoogleAccountSection({
       <header>
         <h2>Google account</h2>
         <p>
-          Connect your Google account to let agents read and write Google Docs.
+          Connect your Google account to let agents read and write Google Docs,
+          and optionally read and send Gmail.
         </p>
       </header>
 
@@ -1077,6 +1086,19 @@ function GoogleAccountSection({
               </button>
             </p>
           ) : null}
+          {missingGmail.length > 0 ? (
+            <p>
+              Gmail tools need {missingGmail.join(', ')}. Sent emails always
+              wait for your approval.{' '}
+              <button
+                type="button"
+                onClick={() => void handleExpand(GMAIL_TOOL_SCOPES, 'gmail')}
+                disabled={busy !== null}
+              >
+                {busy === 'gmail' ? 'Requesting…' : 'Add Gmail access'}
+              </button>
+            </p>
+          ) : null}
           <button
             type="button"
             onClick={() => void handleDisconnect()}
@@ -2209,6 +2231,7 @@ function AgentsTab({
 const CHANNEL_KIND_LABELS: Record<ChannelKind, string> = {
   slack: 'Slack',
   telegram: 'Telegram',
+  discord: 'Discord',
 };
 
 const DATA_CONNECTOR_KIND_LABELS: Record<DataConnectorKind, string> = {
@@ -2697,7 +2720,7 @@ function ConnectorsTab({
         {channels.length === 0 ? (
           <p className="page-state">
             {isAdmin
-              ? 'No channels yet. Add Slack or Telegram to make them available across all your talks.'
+              ? 'No channels yet. Add Slack, Telegram or Discord to make them available across all your talks.'
               : 'No channels available. Ask your workspace admin to add one in Settings → Connectors.'}
           </p>
         ) : (
@@ -2734,7 +2757,7 @@ function ConnectorsTab({
                 onDelete: isAdmin
                   ? () => setDeleteState({ kind: 'channel', channel })
                   : undefined,
-                labelNoun: 'Slack/Telegram channel',
+                labelNoun: 'Slack/Telegram/Discord channel',
               };
             })}
           />
@@ -3031,6 +3054,7 @@ function ConnectorModalContent({
           >
             <option value="slack">Slack</option>
             <option value="telegram">Telegram</option>
+            <option value="discord">Discord</option>
           </select>
         </label>
         {createKind === 'slack' ? (
@@ -3041,6 +3065,14 @@ function ConnectorModalContent({
             }}
             onCancel={onCancel}
           />
+        ) : createKind === 'discord' ? (
+          <DiscordChannelForm
+            mode="create"
+            submitting={submitting}
+            error={error}
+            onSubmit={(input) => onCreateChannel('discord', input)}
+            onCancel={onCancel}
+          />
         ) : (
           <TelegramChannelForm
             mode="create"
@@ -3068,6 +3100,15 @@ function ConnectorModalContent({
             onSubmit={(input) => onEditChannel(channel, input)}
             onCancel={onCancel}
           />
+        ) : channel.kind === 'discord' ? (
+          <DiscordChannelForm
+            mode="edit"
+            initial={channel}
+            submitting={submitting}
+            error={error}
+            onSubmit={(input) => onEditChannel(channel, input)}
+            onCancel={onCancel}
+          />
         ) : (
           <TelegramChannelForm
             mode="edit"
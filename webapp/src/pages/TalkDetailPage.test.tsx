@@ -4436,6 +4436,8 @@ function buildRegisteredAgent(
     description: input.description ?? null,
     enabled: input.enabled ?? true,
     credentialMode: input.credentialMode ?? null,
+    reasoningEffort: input.reasoningEffort ?? null,
+    reasoningBudgetTokens: input.reasoningBudgetTokens ?? null,
     createdAt: input.createdAt ?? '2026-03-06T00:00:00.000Z',
     updatedAt: input.updatedAt ?? '2026-03-06T00:00:00.000Z',
     executionPreview: input.executionPreview ?? {
@@ -4807,6 +4809,9 @@ function buildContextSource(input: Partial<ContextSource> = {}): ContextSource {
     expectedPageCount: input.expectedPageCount ?? null,
     pageImageCount: input.pageImageCount ?? 0,
     pageSetComplete: input.pageSetComplete ?? false,
+    refreshIntervalMinutes: input.refreshIntervalMinutes ?? null,
+    nextRefreshAt: input.nextRefreshAt ?? null,
+    onChangeJobId: input.onChangeJobId ?? null,
   };
 }
 
@@ -4862,6 +4867,9 @@ function buildTalkJob(input?: Partial<TalkJob>): TalkJob {
       channelBindingIds: [],
       allowWeb: false,
     },
+    deliverable: input?.deliverable ?? { kind: 'thread' },
+    structuredOutput: input?.structuredOutput ?? null,
+    toolIterationGrant: input?.toolIterationGrant ?? null,
     threadId: input?.threadId ?? 'thread-job-1',
     lastRunAt: input?.lastRunAt ?? null,
     lastRunStatus: input?.lastRunStatus ?? null,
@@ -4890,6 +4898,7 @@ function buildTalkJobRunSummary(
     cancelReason: input?.cancelReason ?? null,
     executorAlias: input?.executorAlias ?? null,
     executorModel: input?.executorModel ?? null,
+    report: input?.report ?? null,
   };
 }
 
@@ -4922,6 +4931,7 @@ function buildAiAgentsData(): AiAgentsPageData {
         baseUrl: 'https://api.openai.com/v1',
         authScheme: 'bearer',
         enabled: true,
+        isCustom: false,
         hasCredential: true,
         credentialHint: '••••MINI',
         verificationStatus: 'verified',
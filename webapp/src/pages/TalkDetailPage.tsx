@@ -33,6 +33,7 @@ import {
   attachTalkDataConnector,
   ApiError,
   cancelTalkRuns,
+  continueTalkRun,
   ChannelConnection,
   ChannelInstructionReview,
   ChannelQueueFailure,
@@ -99,6 +100,8 @@ import {
   Talk,
   TalkAgent,
   TalkJob,
+  TalkJobDeliverable,
+  TalkJobReportMode,
   TalkJobRunSummary,
   TalkJobSchedule,
   TalkJobScope,
@@ -126,9 +129,14 @@ import {
   runTalkJobNow,
   listRegisteredAgents,
   type RegisteredAgent,
+  listTalkToolApprovals,
+  decideTalkToolApproval,
+  type TalkToolApproval,
   UnauthorizedError,
 } from '../lib/api';
 import { BrowserBlockedRunCard } from '../components/BrowserBlockedRunCard';
+import { EmailDraftPreview } from '../components/EmailDraftPreview';
+import { RunTracePanel } from '../components/RunTracePanel';
 import { CopyExportMenu } from '../components/CopyExportMenu';
 import { DocPaneHeader, type DocPaneMode } from '../components/DocPaneHeader';
 import { DocPaneEdgeTab } from '../components/DocPaneEdgeTab';
@@ -137,6 +145,7 @@ import { SafeHtml } from '../components/SafeHtml';
 import { ExecutionDecisionSummary } from '../components/ExecutionDecisionSummary';
 import { LiveResponsePanel } from '../components/LiveResponsePanel';
 import { InlineEditableTitle } from '../components/InlineEditableTitle';
+import { TalkSharingPanel } from '../components/TalkSharingPanel';
 import { TalkToolsPanel } from '../components/TalkToolsPanel';
 import { SavedSourcesPanel } from '../components/SavedSourcesPanel';
 import {
@@ -192,16 +201,22 @@ import type {
   TalkContentUpdatedEvent,
   TalkHistoryEditedEvent,
   TalkProgressUpdateEvent,
+  TalkReasoningDeltaEvent,
   TalkResponseDeltaEvent,
   TalkResponseStartedEvent,
   TalkResponseTerminalEvent,
   TalkResponseUsageEvent,
   TalkRunCancelledEvent,
   TalkRunCompletedEvent,
+  TalkRunContinuedEvent,
   TalkRunFailedEvent,
+  TalkRunPausedEvent,
   TalkRunRetryingEvent,
   TalkRunStartedEvent,
   TalkStreamState,
+  TalkToolApprovalRequestedEvent,
+  TalkToolApprovalResolvedEvent,
+  TalkUsageBudgetWarningEvent,
 } from '../lib/talkStream';
 
 type TabKey = 'talk' | 'agents' | 'context' | 'connectors' | 'runs';
@@ -233,6 +248,7 @@ function getOrderedStepTone(run: RunView): OrderedRoundStepTone {
     case 'failed':
       return 'error';
     case 'cancelled':
+    case 'paused':
       return 'warning';
     case 'queued':
     default:
@@ -248,6 +264,8 @@ function getOrderedStepStatusLabel(run: RunView, totalSteps: number): string {
         : 'responding';
     case 'awaiting_confirmation':
       return 'awaiting confirmation';
+    case 'paused':
+      return 'paused at tool-call limit';
     case 'queued':
       return 'queued';
     case 'completed':
@@ -272,6 +290,9 @@ export type LiveResponseView = {
   rawText: string;
   text: string;
   progressMessage?: string;
+  // Reasoning summary streamed apart from the reply. Shown collapsed;
+  // dropped with the live panel once the persisted message lands.
+  reasoningText?: string;
   agentId?: string | null;
   agentNickname?: string | null;
   responseGroupId?: string | null;
@@ -363,10 +384,18 @@ type TalkJobDraft = {
   weekdays: TalkJobWeekday[];
   hour: number;
   minute: number;
+  cronExpression: string;
+  onceAt: string;
+  dayOfMonth: number;
+  businessDay: number;
   timezone: string;
   connectorIds: string[];
   channelBindingIds: string[];
   allowWeb: boolean;
+  deliverableKind: TalkJobDeliverable['kind'];
+  reportMode: TalkJobReportMode;
+  reportSectionTitle: string;
+  reportAutoAccept: boolean;
 };
 
 // PR C (talk-load architecture refactor): server data — talk, messages,
@@ -432,10 +461,18 @@ function buildDefaultJobDraft(input?: {
     weekdays: ['mon', 'tue', 'wed', 'thu', 'fri'],
     hour: 9,
     minute: 0,
+    cronExpression: '0 9 * * 1-5',
+    onceAt: '',
+    dayOfMonth: 1,
+    businessDay: 1,
     timezone: input?.timezone ?? getDefaultJobTimezone(),
     connectorIds: [],
     channelBindingIds: [],
     allowWeb: false,
+    deliverableKind: 'thread',
+    reportMode: 'replace_section',
+    reportSectionTitle: '',
+    reportAutoAccept: false,
   };
 }
 
@@ -451,12 +488,27 @@ function buildJobDraftFromJob(job: TalkJob): TalkJobDraft {
       job.schedule.kind === 'weekly'
         ? [...job.schedule.weekdays]
         : ['mon', 'tue', 'wed', 'thu', 'fri'],
-    hour: job.schedule.kind === 'weekly' ? job.schedule.hour : 9,
-    minute: job.schedule.kind === 'weekly' ? job.schedule.minute : 0,
+    hour: 'hour' in job.schedule ? job.schedule.hour : 9,
+    minute: 'minute' in job.schedule ? job.schedule.minute : 0,
+    cronExpression:
+      job.schedule.kind === 'cron' ? job.schedule.expression : '0 9 * * 1-5',
+    onceAt: job.schedule.kind === 'once' ? job.schedule.at : '',
+    dayOfMonth: job.schedule.kind === 'monthly' ? job.schedule.dayOfMonth : 1,
+    businessDay:
+      job.schedule.kind === 'business_day' ? job.schedule.businessDay : 1,
     timezone: job.timezone,
     connectorIds: [...job.sourceScope.connectorIds],
     channelBindingIds: [...job.sourceScope.channelBindingIds],
     allowWeb: job.sourceScope.allowWeb,
+    deliverableKind: job.deliverable.kind,
+    reportMode:
+      job.deliverable.kind === 'report'
+        ? job.deliverable.mode
+        : 'replace_section',
+    reportSectionTitle:
+      job.deliverable.kind === 'report' ? job.deliverable.sectionTitle : '',
+    reportAutoAccept:
+      job.deliverable.kind === 'report' ? job.deliverable.autoAccept : false,
   };
 }
 
@@ -467,6 +519,33 @@ function draftToTalkJobSchedule(draft: TalkJobDraft): TalkJobSchedule {
       everyHours: Math.max(1, Math.min(24, Math.trunc(draft.everyHours || 1))),
     };
   }
+  const hour = Math.max(0, Math.min(23, Math.trunc(draft.hour || 0)));
+  const minute = Math.max(0, Math.min(59, Math.trunc(draft.minute || 0)));
+  // cron and once are validated server-side (see the schedule preview
+  // endpoint); the structured kinds are clamped here like weekly.
+  if (draft.scheduleKind === 'cron') {
+    return { kind: 'cron', expression: draft.cronExpression.trim() };
+  }
+  if (draft.scheduleKind === 'once') {
+    return { kind: 'once', at: draft.onceAt };
+  }
+  if (draft.scheduleKind === 'monthly') {
+    return {
+      kind: 'monthly',
+      dayOfMonth: Math.max(1, Math.min(31, Math.trunc(draft.dayOfMonth || 1))),
+      hour,
+      minute,
+    };
+  }
+  if (draft.scheduleKind === 'business_day') {
+    return {
+      kind: 'business_day',
+      businessDay:
+        Math.max(-20, Math.min(20, Math.trunc(draft.businessDay))) || 1,
+      hour,
+      minute,
+    };
+  }
   return {
     kind: 'weekly',
     weekdays:
@@ -486,16 +565,56 @@ function draftToTalkJobScope(draft: TalkJobDraft): TalkJobScope {
   };
 }
 
+function draftToTalkJobDeliverable(draft: TalkJobDraft): TalkJobDeliverable {
+  if (draft.deliverableKind !== 'report') return { kind: 'thread' };
+  // An empty section title falls back to the job title; the server
+  // rejects a report without one.
+  return {
+    kind: 'report',
+    mode: draft.reportMode,
+    sectionTitle: draft.reportSectionTitle.trim() || draft.title.trim(),
+    autoAccept: draft.reportAutoAccept,
+  };
+}
+
+function formatOrdinal(value: number): string {
+  const suffix =
+    value % 100 >= 11 && value % 100 <= 13
+      ? 'th'
+      : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[value % 10] ??
+        'th';
+  return `${value}${suffix}`;
+}
+
 function formatTalkJobSchedule(schedule: TalkJobSchedule): string {
   if (schedule.kind === 'hourly_interval') {
     return `Every ${schedule.everyHours} hour${schedule.everyHours === 1 ? '' : 's'}`;
   }
+  if (schedule.kind === 'cron') {
+    return `Cron: ${schedule.expression}`;
+  }
+  if (schedule.kind === 'once') {
+    return `Once at ${schedule.at.replace('T', ' ')}`;
+  }
+  const time = `${String(schedule.hour).padStart(2, '0')}:${String(
+    schedule.minute,
+  ).padStart(2, '0')}`;
+  if (schedule.kind === 'monthly') {
+    return `Monthly on the ${formatOrdinal(schedule.dayOfMonth)} at ${time}`;
+  }
+  if (schedule.kind === 'business_day') {
+    const which =
+      schedule.businessDay === -1
+        ? 'last'
+        : schedule.businessDay < 0
+          ? `${formatOrdinal(-schedule.businessDay)}-to-last`
+          : formatOrdinal(schedule.businessDay);
+    return `Monthly on the ${which} business day at ${time}`;
+  }
   const days = schedule.weekdays
     .map((day) => JOB_WEEKDAY_LABELS[day])
     .join(', ');
-  return `${days} at ${String(schedule.hour).padStart(2, '0')}:${String(
-    schedule.minute,
-  ).padStart(2, '0')}`;
+  return `${days} at ${time}`;
 }
 
 function summarizeTalkJobScope(
@@ -607,8 +726,11 @@ type DetailAction =
       runIds: string[];
       cancelledBy?: string | null;
     }
+  | { type: 'RUN_PAUSED'; runId: string; threadId?: string | null }
+  | { type: 'RUN_CONTINUED'; runId: string }
   | { type: 'RESPONSE_STARTED'; event: TalkResponseStartedEvent }
   | { type: 'RESPONSE_PROGRESS'; event: TalkProgressUpdateEvent }
+  | { type: 'RESPONSE_REASONING'; event: TalkReasoningDeltaEvent }
   | { type: 'RESPONSE_DELTA'; event: TalkResponseDeltaEvent }
   | { type: 'RESPONSE_COMPLETED'; event: TalkResponseTerminalEvent }
   | { type: 'RESPONSE_FAILED'; event: TalkResponseTerminalEvent }
@@ -876,6 +998,8 @@ function snapshotTalkToTalk(snapshotTalk: TalkSnapshot['talk']): Talk {
     ownerId: snapshotTalk.ownerId,
     title: snapshotTalk.title ?? '',
     orchestrationMode: snapshotTalk.orchestrationMode,
+    roundsLimit: snapshotTalk.roundsLimit,
+    synthesizerAgentId: snapshotTalk.synthesizerAgentId,
     agents: [],
     status: snapshotTalk.status,
     folderId: snapshotTalk.folderId,
@@ -944,7 +1068,9 @@ function pruneEventRunCache(
   }
 
   const pinned = entries.filter(([, run]) =>
-    ['queued', 'running', 'awaiting_confirmation'].includes(run.status),
+    ['queued', 'running', 'awaiting_confirmation', 'paused'].includes(
+      run.status,
+    ),
   );
   const overflow = Math.max(0, pinned.length - MAX_EVENT_RUN_CACHE);
   const retainedPinned =
@@ -956,7 +1082,9 @@ function pruneEventRunCache(
   const recentTerminal = entries
     .filter(
       ([, run]) =>
-        !['queued', 'running', 'awaiting_confirmation'].includes(run.status),
+        !['queued', 'running', 'awaiting_confirmation', 'paused'].includes(
+          run.status,
+        ),
     )
     .sort((left, right) => right[1].updatedAt - left[1].updatedAt)
     .slice(0, remainingSlots);
@@ -970,7 +1098,8 @@ function isNonTerminalRunStatus(
   return (
     status === 'queued' ||
     status === 'running' ||
-    status === 'awaiting_confirmation'
+    status === 'awaiting_confirmation' ||
+    status === 'paused'
   );
 }
 
@@ -1204,6 +1333,7 @@ function detailReducer(state: DetailState, action: DetailAction): DetailState {
           rawText: existing?.rawText ?? '',
           text: existing?.text ?? '',
           progressMessage: existing?.progressMessage,
+          reasoningText: existing?.reasoningText,
           agentId: existing?.agentId ?? action.targetAgentId ?? null,
           agentNickname:
             existing?.agentNickname ?? action.targetAgentNickname ?? null,
@@ -1247,6 +1377,7 @@ function detailReducer(state: DetailState, action: DetailAction): DetailState {
           rawText: existing?.rawText ?? '',
           text: existing?.text ?? '',
           progressMessage: existing?.progressMessage,
+          reasoningText: existing?.reasoningText,
           agentId: existing?.agentId ?? action.targetAgentId ?? null,
           agentNickname:
             existing?.agentNickname ?? action.targetAgentNickname ?? null,
@@ -1366,6 +1497,23 @@ function detailReducer(state: DetailState, action: DetailAction): DetailState {
         runsById,
       };
     }
+    case 'RUN_PAUSED': {
+      const runsById = withRun(state, action.runId, {
+        threadId: action.threadId || undefined,
+        status: 'paused',
+      });
+      return { ...state, runsById };
+    }
+    case 'RUN_CONTINUED': {
+      const runsById = withRun(state, action.runId, { status: 'queued' });
+      const existing = state.liveResponsesByRunId[action.runId];
+      if (!existing) return { ...state, runsById };
+      const liveResponsesByRunId = {
+        ...state.liveResponsesByRunId,
+        [action.runId]: { ...existing, pendingStatus: 'queued' as const },
+      };
+      return { ...state, runsById, liveResponsesByRunId };
+    }
     case 'RUN_CANCELLED_BATCH': {
       if (action.runIds.length === 0) return state;
       // Keep cancelled panels visible with terminalStatus='cancelled' so the
@@ -1436,6 +1584,7 @@ function detailReducer(state: DetailState, action: DetailAction): DetailState {
             rawText: existing?.rawText ?? '',
             text: existing?.text ?? '',
             progressMessage: existing?.progressMessage,
+            reasoningText: existing?.reasoningText,
             agentId: action.event.agentId ?? existing?.agentId ?? null,
             agentNickname:
               action.event.agentNickname ?? existing?.agentNickname ?? null,
@@ -1465,6 +1614,45 @@ function detailReducer(state: DetailState, action: DetailAction): DetailState {
             rawText: existing?.rawText || '',
             text: existing?.text || '',
             progressMessage: action.event.message,
+            reasoningText: existing?.reasoningText,
+            agentId: action.event.agentId ?? existing?.agentId,
+            agentNickname:
+              action.event.agentNickname ?? existing?.agentNickname,
+            responseGroupId:
+              action.event.responseGroupId ?? existing?.responseGroupId ?? null,
+            sequenceIndex:
+              action.event.sequenceIndex ?? existing?.sequenceIndex ?? null,
+            providerId: action.event.providerId ?? existing?.providerId,
+            modelId: action.event.modelId ?? existing?.modelId,
+            queuedAt,
+            startedAt: existing?.startedAt || Date.now(),
+            errorMessage: existing?.errorMessage,
+            pendingStatus: existing?.pendingStatus ?? 'running',
+            terminalStatus: existing?.terminalStatus,
+          },
+        },
+      };
+    }
+    case 'RESPONSE_REASONING': {
+      const existing = state.liveResponsesByRunId[action.event.runId];
+      // Same late-event guard as RESPONSE_DELTA below.
+      if (!existing) {
+        const trackedRun = state.runsById[action.event.runId];
+        if (trackedRun && !isNonTerminalRunStatus(trackedRun.status)) {
+          return state;
+        }
+      }
+      const queuedAt = existing?.queuedAt ?? Date.now();
+      return {
+        ...state,
+        liveResponsesByRunId: {
+          ...state.liveResponsesByRunId,
+          [action.event.runId]: {
+            runId: action.event.runId,
+            rawText: existing?.rawText || '',
+            text: existing?.text || '',
+            progressMessage: existing?.progressMessage,
+            reasoningText: `${existing?.reasoningText || ''}${action.event.deltaText}`,
             agentId: action.event.agentId ?? existing?.agentId,
             agentNickname:
               action.event.agentNickname ?? existing?.agentNickname,
@@ -1510,6 +1698,7 @@ function detailReducer(state: DetailState, action: DetailAction): DetailState {
             rawText,
             text: stripInternalAssistantText(rawText),
             progressMessage: existing?.progressMessage,
+            reasoningText: existing?.reasoningText,
             agentId: action.event.agentId,
             agentNickname: action.event.agentNickname,
             responseGroupId:
@@ -1561,6 +1750,7 @@ function detailReducer(state: DetailState, action: DetailAction): DetailState {
             queuedAt: existing?.queuedAt ?? Date.now(),
             startedAt: existing?.startedAt || Date.now(),
             progressMessage: existing?.progressMessage,
+            reasoningText: existing?.reasoningText,
             errorMessage: action.event.errorMessage,
             terminalStatus: 'failed',
           },
@@ -2309,6 +2499,37 @@ function buildAgentChipLabel(agent: Pick<TalkAgent, 'nickname'>): string {
   return agent.nickname;
 }
 
+/**
+ * Badge text for an answer that came from a fallback step rather than
+ * the agent's own model (metadata.fallback, written by executeWithAgent).
+ */
+function readFallbackAnswer(
+  metadata: Record<string, unknown> | null | undefined,
+): { label: string; title: string } | null {
+  const fallback = metadata?.fallback as
+    | {
+        primaryModelId?: unknown;
+        hops?: Array<{
+          modelId?: unknown;
+          status?: unknown;
+          failureClass?: unknown;
+        }>;
+      }
+    | undefined;
+  if (!fallback || typeof metadata?.modelId !== 'string') return null;
+  const hops = Array.isArray(fallback.hops) ? fallback.hops : [];
+  return {
+    label: `Answered by ${metadata.modelId}`,
+    title: [
+      `${String(fallback.primaryModelId)} did not answer.`,
+      ...hops.map(
+        (hop) =>
+          `${String(hop.modelId)}: ${String(hop.status)} (${String(hop.failureClass)})`,
+      ),
+    ].join('\n'),
+  };
+}
+
 function isRenderableImageAttachment(mimeType: string): boolean {
   return (
     mimeType === 'image/png' ||
@@ -2998,6 +3219,9 @@ export function TalkDetailPage({
   const [runContextPanels, setRunContextPanels] = useState<
     Record<string, RunContextPanelState>
   >({});
+  const [openRunTraces, setOpenRunTraces] = useState<Record<string, boolean>>(
+    {},
+  );
   const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<TalkMessageSearchResult[]>(
@@ -3098,6 +3322,23 @@ export function TalkDetailPage({
   // ToolChipsBar to refetch its active set so chip state syncs across
   // tabs without us threading the payload through.
   const [toolsRefreshKey, setToolsRefreshKey] = useState(0);
+  // Latest `talk_usage_budget_warning` (soft limit crossed by a run).
+  // Shown above the composer for the thread that raised it.
+  const [budgetWarning, setBudgetWarning] =
+    useState<TalkUsageBudgetWarningEvent | null>(null);
+  // Tool calls parked on the user's approval (migration 0046). Added by
+  // `talk_tool_approval_requested`, dropped on `_resolved` or once the
+  // user decides here.
+  const [toolApprovals, setToolApprovals] = useState<TalkToolApproval[]>([]);
+  const [toolApprovalState, setToolApprovalState] = useState<{
+    busyId: string | null;
+    error: string | null;
+  }>({ busyId: null, error: null });
+  // "Continue" on a run paused at the tool-call limit (migration 0054).
+  const [continueRunState, setContinueRunState] = useState<{
+    busyId: string | null;
+    error: string | null;
+  }>({ busyId: null, error: null });
   // Composer `@`-mention typeahead. Tracks the live `@` index in the
   // draft and the active picker selection. Opens when @ lands at a word
   // boundary AND the Talk has an attached doc OR at least one ready
@@ -4225,6 +4466,7 @@ export function TalkDetailPage({
     setHistoryEditState({ status: 'idle' });
     setOrchestrationState({ status: 'idle' });
     setRunContextPanels({});
+    setOpenRunTraces({});
     setContextLoaded(false);
     setContextGoal(null);
     setContextRules([]);
@@ -4661,6 +4903,11 @@ export function TalkDetailPage({
         if (event.threadId !== activeThreadIdRef.current) return;
         dispatch({ type: 'RESPONSE_PROGRESS', event });
       },
+      onReasoningDelta: (event: TalkReasoningDeltaEvent) => {
+        if (event.talkId !== talkId) return;
+        if (event.threadId !== activeThreadIdRef.current) return;
+        dispatch({ type: 'RESPONSE_REASONING', event });
+      },
       onResponseDelta: (event: TalkResponseDeltaEvent) => {
         if (event.talkId !== talkId) return;
         if (event.threadId !== activeThreadIdRef.current) return;
@@ -4883,6 +5130,32 @@ export function TalkDetailPage({
           maxRetries: event.maxRetries,
         });
       },
+      onUsageBudgetWarning: (event: TalkUsageBudgetWarningEvent) => {
+        setBudgetWarning(event);
+      },
+      onToolApprovalRequested: (event: TalkToolApprovalRequestedEvent) => {
+        setToolApprovals((prev) => [
+          ...prev.filter((approval) => approval.id !== event.approval.id),
+          event.approval,
+        ]);
+      },
+      onToolApprovalResolved: (event: TalkToolApprovalResolvedEvent) => {
+        setToolApprovals((prev) =>
+          prev.filter((approval) => approval.id !== event.approvalId),
+        );
+      },
+      onRunPaused: (event: TalkRunPausedEvent) => {
+        if (event.talkId !== talkId) return;
+        dispatch({
+          type: 'RUN_PAUSED',
+          runId: event.runId,
+          threadId: event.threadId,
+        });
+      },
+      onRunContinued: (event: TalkRunContinuedEvent) => {
+        if (event.talkId !== talkId) return;
+        dispatch({ type: 'RUN_CONTINUED', runId: event.runId });
+      },
       onReplayGap: async () => {
         await resyncTalkState({ refreshThreads: true });
       },
@@ -4956,8 +5229,11 @@ export function TalkDetailPage({
   ]);
 
   const accessRole = pageKind === 'ready' ? pageTalk?.accessRole : null;
-  const canEditAgents =
+  // Editors on a shared Talk post and cancel runs; changing the Talk's
+  // setup (agents, jobs, doc, connectors) stays with the owner.
+  const canPost =
     accessRole === 'owner' || accessRole === 'admin' || accessRole === 'editor';
+  const canEditAgents = accessRole === 'owner' || accessRole === 'admin';
   const canEditJobs = canEditAgents;
   const canEditDoc = canEditAgents;
 
@@ -5379,6 +5655,7 @@ export function TalkDetailPage({
     const currentRun =
       orderedGroupRuns.find((run) => run.status === 'running') ||
       orderedGroupRuns.find((run) => run.status === 'awaiting_confirmation') ||
+      orderedGroupRuns.find((run) => run.status === 'paused') ||
       orderedGroupRuns.find((run) => run.status === 'queued');
     const completedCount = orderedGroupRuns.filter(
       (run) => run.status === 'completed',
@@ -5434,11 +5711,13 @@ export function TalkDetailPage({
       currentRun && currentRun.sequenceIndex != null
         ? currentRun.status === 'awaiting_confirmation'
           ? 'awaiting confirmation…'
-          : currentRun.status === 'queued'
-            ? 'queued…'
-            : currentRun.sequenceIndex === totalSteps - 1
-              ? 'synthesizing…'
-              : 'responding…'
+          : currentRun.status === 'paused'
+            ? 'paused at tool-call limit'
+            : currentRun.status === 'queued'
+              ? 'queued…'
+              : currentRun.sequenceIndex === totalSteps - 1
+                ? 'synthesizing…'
+                : 'responding…'
         : null;
     const progressLabel =
       currentRun && currentRun.sequenceIndex != null && currentLabel
@@ -5570,10 +5849,119 @@ export function TalkDetailPage({
           run.threadId === activeThreadId &&
           (run.status === 'queued' ||
             run.status === 'running' ||
-            run.status === 'awaiting_confirmation'),
+            run.status === 'awaiting_confirmation' ||
+            run.status === 'paused'),
       ),
     [activeThreadId, state.runsById],
   );
+  // Runs in this thread waiting at the tool-call limit for the user to
+  // continue or cancel them.
+  const pausedRuns = useMemo(
+    () =>
+      Object.values(state.runsById).filter(
+        (run) => run.threadId === activeThreadId && run.status === 'paused',
+      ),
+    [activeThreadId, state.runsById],
+  );
+  // A thread whose newest run hit a hard usage budget stays blocked
+  // until the budget period rolls over or the limit is raised, so the
+  // banner persists instead of living only on the failed response.
+  const budgetBlockedRun = useMemo(() => {
+    let latest: RunView | null = null;
+    for (const run of Object.values(state.runsById)) {
+      if (run.threadId !== activeThreadId) continue;
+      if (!latest || run.createdAt > latest.createdAt) latest = run;
+    }
+    return latest?.status === 'failed' &&
+      latest.errorCode === 'budget_exceeded'
+      ? latest
+      : null;
+  }, [activeThreadId, state.runsById]);
+  // A run already parked on an approval when the page loaded (or across
+  // a reconnect) never sends us the requested event, so load the
+  // pending list whenever the snapshot shows one waiting.
+  const hasRunAwaitingConfirmation = useMemo(
+    () =>
+      Object.values(state.runsById).some(
+        (run) => run.status === 'awaiting_confirmation',
+      ),
+    [state.runsById],
+  );
+  useEffect(() => {
+    if (!hasRunAwaitingConfirmation) return;
+    let cancelled = false;
+    listTalkToolApprovals(talkId)
+      .then((approvals) => {
+        if (!cancelled) setToolApprovals(approvals);
+      })
+      .catch((err) => {
+        if (err instanceof UnauthorizedError) handleUnauthorized();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [handleUnauthorized, hasRunAwaitingConfirmation, talkId]);
+  const activeToolApprovals = useMemo(
+    () =>
+      toolApprovals.filter((approval) => approval.threadId === activeThreadId),
+    [activeThreadId, toolApprovals],
+  );
+  const handleToolApprovalDecision = useCallback(
+    async (approval: TalkToolApproval, decision: 'approve' | 'deny') => {
+      setToolApprovalState({ busyId: approval.id, error: null });
+      try {
+        await decideTalkToolApproval({
+          talkId,
+          approvalId: approval.id,
+          decision,
+        });
+        setToolApprovals((prev) =>
+          prev.filter((entry) => entry.id !== approval.id),
+        );
+        setToolApprovalState({ busyId: null, error: null });
+      } catch (err) {
+        if (err instanceof UnauthorizedError) {
+          handleUnauthorized();
+          return;
+        }
+        // 409: already decided elsewhere or expired — the card is stale.
+        if (err instanceof ApiError && err.status === 409) {
+          setToolApprovals((prev) =>
+            prev.filter((entry) => entry.id !== approval.id),
+          );
+        }
+        setToolApprovalState({
+          busyId: null,
+          error:
+            err instanceof Error
+              ? err.message
+              : 'Unable to record your decision.',
+        });
+      }
+    },
+    [handleUnauthorized, talkId],
+  );
+  const handleContinueRun = useCallback(
+    async (run: RunView) => {
+      setContinueRunState({ busyId: run.id, error: null });
+      try {
+        await continueTalkRun({ talkId, runId: run.id });
+        dispatch({ type: 'RUN_CONTINUED', runId: run.id });
+        setContinueRunState({ busyId: null, error: null });
+      } catch (err) {
+        if (err instanceof UnauthorizedError) {
+          handleUnauthorized();
+          return;
+        }
+        setContinueRunState({
+          busyId: null,
+          error:
+            err instanceof Error ? err.message : 'Unable to continue the run.',
+        });
+      }
+    },
+    [handleUnauthorized, talkId],
+  );
   // Per-second ticker for elapsed-time display in LiveResponsePanel.
   // Only runs while at least one run is non-terminal — idle when no active round.
   const [nowTick, setNowTick] = useState(() => Date.now());
@@ -5584,12 +5972,17 @@ export function TalkDetailPage({
   }, [activeRound]);
   // Dense mode: when ≥4 panels are queued/running with no visible content yet,
   // collapse all bodies to keep the timeline scannable. Flips off as soon as any
-  // panel emits text or a progress message (all-or-nothing to avoid jitter).
+  // panel emits text, reasoning or a progress message (all-or-nothing to
+  // avoid jitter).
   const isDenseRound = useMemo(
     () =>
       liveResponses.length >= 4 &&
       liveResponses.every(
-        (r) => !r.text && !r.progressMessage && !r.terminalStatus,
+        (r) =>
+          !r.text &&
+          !r.progressMessage &&
+          !r.reasoningText &&
+          !r.terminalStatus,
       ),
     [liveResponses],
   );
@@ -6187,6 +6580,7 @@ export function TalkDetailPage({
     try {
       const sourceScope = draftToTalkJobScope(jobDraft);
       const schedule = draftToTalkJobSchedule(jobDraft);
+      const deliverable = draftToTalkJobDeliverable(jobDraft);
 
       const saved = creatingJob
         ? await createTalkJob({
@@ -6197,6 +6591,7 @@ export function TalkDetailPage({
             schedule,
             timezone: jobDraft.timezone,
             sourceScope,
+            deliverable,
           })
         : await patchTalkJob({
             talkId,
@@ -6207,6 +6602,7 @@ export function TalkDetailPage({
             schedule,
             timezone: jobDraft.timezone,
             sourceScope,
+            deliverable,
           });
 
       await refreshTalkJobs({
@@ -9486,6 +9882,11 @@ export function TalkDetailPage({
                   {/* Drive Resources */}
                   <TalkToolsPanel talkId={talkId} />
 
+                  <TalkSharingPanel
+                    talkId={talkId}
+                    canManage={accessRole === 'owner'}
+                  />
+
                   {contextStatus.status === 'success' &&
                   contextStatus.message ? (
                     <p className="page-state">{contextStatus.message}</p>
@@ -9562,6 +9963,20 @@ export function TalkDetailPage({
                                 ? 'Hide context'
                                 : 'View context'}
                           </button>
+                          <button
+                            type="button"
+                            className="secondary-btn run-history-context-toggle"
+                            onClick={() =>
+                              setOpenRunTraces((existing) => ({
+                                ...existing,
+                                [run.id]: !existing[run.id],
+                              }))
+                            }
+                          >
+                            {openRunTraces[run.id]
+                              ? 'Hide trace'
+                              : 'View trace'}
+                          </button>
                         </div>
                         {run.browserBlock ? (
                           <BrowserBlockedRunCard
@@ -9608,6 +10023,18 @@ export function TalkDetailPage({
                             )}
                           </section>
                         ) : null}
+                        {openRunTraces[run.id] ? (
+                          <section
+                            className="run-context-shell"
+                            aria-label={`Trace for run ${run.id}`}
+                          >
+                            <RunTracePanel
+                              talkId={talkId}
+                              runId={run.id}
+                              onUnauthorized={handleUnauthorized}
+                            />
+                          </section>
+                        ) : null}
                         {run.status === 'failed' && run.errorMessage ? (
                           <p className="run-history-error">
                             {run.errorCode ? `${run.errorCode}: ` : ''}
@@ -9712,9 +10139,11 @@ export function TalkDetailPage({
                   <aside className="talk-thread-rail" aria-label="Talk threads">
                     <div className="talk-thread-rail-header">
                       <h2>Threads</h2>
-                      <ThreadStartButton
-                        onClick={() => void handleCreateThread()}
-                      />
+                      {canPost ? (
+                        <ThreadStartButton
+                          onClick={() => void handleCreateThread()}
+                        />
+                      ) : null}
                     </div>
                     <form
                       className="talk-thread-search"
@@ -10015,6 +10444,9 @@ export function TalkDetailPage({
                               const { message } = entry;
                               const isSynthesis =
                                 message.metadata?.isSynthesis === true;
+                              const fallbackAnswer = readFallbackAnswer(
+                                message.metadata,
+                              );
                               const orderedRun = message.runId
                                 ? state.runsById[message.runId]
                                 : null;
@@ -10064,6 +10496,14 @@ export function TalkDetailPage({
                                         Synthesis
                                       </span>
                                     ) : null}
+                                    {fallbackAnswer ? (
+                                      <span
+                                        className="message-fallback-badge"
+                                        title={fallbackAnswer.title}
+                                      >
+                                        {fallbackAnswer.label}
+                                      </span>
+                                    ) : null}
                                     <time>
                                       {new Date(
                                         message.createdAt,
@@ -10328,14 +10768,19 @@ export function TalkDetailPage({
                           }
                           onKeyDown={handleComposerKeyDown}
                           placeholder={
-                            talkContent ||
-                            contextSources.some((s) => s.status === 'ready')
-                              ? 'Send a message to this thread. Type @ to reference a saved source or the doc.'
-                              : 'Send a message to this thread.'
+                            !canPost
+                              ? 'You have view access to this Talk.'
+                              : talkContent ||
+                                  contextSources.some(
+                                    (s) => s.status === 'ready',
+                                  )
+                                ? 'Send a message to this thread. Type @ to reference a saved source or the doc.'
+                                : 'Send a message to this thread.'
                           }
                           rows={1}
                           maxLength={TALK_MESSAGE_MAX_CHARS}
                           disabled={
+                            !canPost ||
                             state.sendState.status === 'posting' ||
                             activeRound ||
                             hasUnsavedAgentChanges ||
@@ -10399,6 +10844,7 @@ export function TalkDetailPage({
                               className="composer-icon-btn composer-attach-btn"
                               onClick={handleAttachButtonClick}
                               disabled={
+                                !canPost ||
                                 state.sendState.status === 'posting' ||
                                 activeRound ||
                                 hasUnsavedAgentChanges ||
@@ -10409,7 +10855,7 @@ export function TalkDetailPage({
                             >
                               <ComposerAttachIcon />
                             </button>
-                            {canEditAgents && activeRound ? (
+                            {canPost && activeRound ? (
                               <button
                                 type="button"
                                 className="composer-icon-btn composer-cancel-btn"
@@ -10432,6 +10878,7 @@ export function TalkDetailPage({
                             type="submit"
                             className="composer-icon-btn composer-send-btn"
                             disabled={
+                              !canPost ||
                               state.sendState.status === 'posting' ||
                               activeRound ||
                               hasUnsavedAgentChanges ||
@@ -10460,6 +10907,125 @@ export function TalkDetailPage({
                         </div>
                       ) : null}
 
+                      {activeToolApprovals.map((approval) => (
+                        <div
+                          key={approval.id}
+                          className="inline-banner inline-banner-warning tool-approval-banner"
+                          role="alert"
+                        >
+                          <span>
+                            <strong>{approval.toolName}</strong> needs your
+                            approval. The run is paused until you decide and is
+                            denied automatically at{' '}
+                            {new Date(approval.expiresAt).toLocaleTimeString()}.
+                          </span>
+                          <code>{approval.actionSummary}</code>
+                          {approval.toolName === 'gmail_send' ? (
+                            <EmailDraftPreview args={approval.arguments} />
+                          ) : null}
+                          <span className="tool-approval-actions">
+                            <button
+                              type="button"
+                              onClick={() =>
+                                void handleToolApprovalDecision(
+                                  approval,
+                                  'approve',
+                                )
+                              }
+                              disabled={toolApprovalState.busyId !== null}
+                            >
+                              Approve
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                void handleToolApprovalDecision(
+                                  approval,
+                                  'deny',
+                                )
+                              }
+                              disabled={toolApprovalState.busyId !== null}
+                            >
+                              Deny
+                            </button>
+                          </span>
+                        </div>
+                      ))}
+
+                      {toolApprovalState.error ? (
+                        <div
+                          className="inline-banner inline-banner-error"
+                          role="alert"
+                        >
+                          {toolApprovalState.error}
+                        </div>
+                      ) : null}
+
+                      {pausedRuns.map((run) => (
+                        <div
+                          key={run.id}
+                          className="inline-banner inline-banner-warning tool-approval-banner"
+                          role="alert"
+                        >
+                          <span>
+                            <strong>
+                              {run.targetAgentNickname ||
+                                (run.targetAgentId
+                                  ? agentLabelById[run.targetAgentId]
+                                  : null) ||
+                                'The agent'}
+                            </strong>{' '}
+                            reached its tool-call limit and is paused. Continue
+                            to let it make more tool calls, or cancel the run.
+                          </span>
+                          <span className="tool-approval-actions">
+                            <button
+                              type="button"
+                              onClick={() => void handleContinueRun(run)}
+                              disabled={continueRunState.busyId !== null}
+                            >
+                              Continue (10 more)
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => void handleCancelRuns()}
+                              disabled={continueRunState.busyId !== null}
+                            >
+                              Cancel
+                            </button>
+                          </span>
+                        </div>
+                      ))}
+
+                      {continueRunState.error ? (
+                        <div
+                          className="inline-banner inline-banner-error"
+                          role="alert"
+                        >
+                          {continueRunState.error}
+                        </div>
+                      ) : null}
+
+                      {budgetBlockedRun ? (
+                        <div
+                          className="inline-banner inline-banner-error"
+                          role="alert"
+                        >
+                          {budgetBlockedRun.errorMessage ||
+                            'A usage budget for this Talk has been used up.'}{' '}
+                          New messages will fail until the budget period
+                          resets or a workspace admin raises the limit.
+                        </div>
+                      ) : budgetWarning &&
+                        budgetWarning.threadId === activeThreadId ? (
+                        <div
+                          className="inline-banner inline-banner-warning"
+                          role="status"
+                        >
+                          {budgetWarning.message}
+                        </div>
+                      ) : null}
+
                       {!activeRound && hasUnsavedAgentChanges ? (
                         <div
                           className="inline-banner inline-banner-warning"